@@ -9,6 +9,8 @@ import learningRoutes from './routes/learning.routes';
 import sessionRoutes from './routes/session.routes';
 import publicRoutes from './routes/public.routes';
 import strategicQuestionsRoutes from './routes/strategic-questions.routes';
+import interviewPolicyRoutes from './routes/interview-policy.routes';
+import piiRoutes from './routes/pii.routes';
 import processRoutes from './routes/process.routes';
 import feedbackRoutes from './routes/feedback.routes';
 import voiceRoutes from './routes/voice.routes';
@@ -18,9 +20,13 @@ import auditRoutes from './routes/audit.routes';
 import authRoutes from './routes/auth.routes';
 import subjectsRoutes from './routes/subjects.routes';
 import adminReviewRoutes from './routes/admin-review.routes';
+import batchRoutes from './routes/batch.routes';
+import workspaceRoutes from './routes/workspace.routes';
+import privacyRoutes from './routes/privacy.routes';
 import novaSonicRoutes, { initializeNovaSonicWebSocket } from './routes/nova-sonic-websocket.routes';
-import { authenticateToken, requireRole } from './middleware/auth.middleware';
+import { authenticateToken, requirePermission } from './middleware/auth.middleware';
 import { initializeApplication } from './startup';
+import { RetentionService, scheduleRetentionPurge } from './services/retention.service';
 import http from 'http';
 
 // Load environment variables from project root
@@ -107,7 +113,8 @@ app.use(cors({
     'x-aws-access-key-id',
     'x-aws-secret-access-key',
     'x-aws-session-token',
-    'x-aws-region'
+    'x-aws-region',
+    'x-llm-base-url'
   ],
   exposedHeaders: ['X-Request-ID']
 }));
@@ -168,6 +175,9 @@ app.use('/api/process', llmLimiter);
 app.use('/api/voice', llmLimiter);
 app.use('/api/auth/login', authLimiter);
 app.use('/api/auth/register', authLimiter);
+app.use('/api/auth/refresh', authLimiter);
+app.use('/api/auth/oidc/exchange', authLimiter);
+app.use('/api/auth/2fa/login', authLimiter);
 
 // Nova Sonic test page - serve from frontend/public with injected credentials
 app.get('/nova-sonic-test', async (req, res) => {
@@ -273,16 +283,20 @@ app.use('/api/sessions', authenticateToken, sessionRoutes);
 app.use('/api/process', authenticateToken, processRoutes);
 app.use('/api/feedback', authenticateToken, feedbackRoutes);
 app.use('/api/decision-matrix', authenticateToken, decisionMatrixRoutes);
-app.use('/api/learning', authenticateToken, learningRoutes);
-// app.use('/api/voice', authenticateToken, voiceRoutes);
-app.use('/api/voice', voiceRoutes); // Temporary disabled auth for debugging
+app.use('/api/learning', authenticateToken, requirePermission('learning:manage'), learningRoutes);
+app.use('/api/voice', authenticateToken, voiceRoutes);
 app.use('/api/analytics', authenticateToken, analyticsRoutes);
 app.use('/api/prompts', authenticateToken, promptsRoutes);
-app.use('/api/audit', authenticateToken, auditRoutes);
+app.use('/api/audit', authenticateToken, requirePermission('audit:read'), auditRoutes);
 app.use('/api/subjects', authenticateToken, subjectsRoutes);
-app.use('/api/admin', authenticateToken, requireRole('admin'), adminReviewRoutes);
+app.use('/api/admin', authenticateToken, requirePermission('sessions:review'), adminReviewRoutes);
+app.use('/api/batch', authenticateToken, requirePermission('batch:run'), batchRoutes);
 app.use('/api/nova-sonic', authenticateToken, novaSonicRoutes);
 app.use('/api/strategic-questions', authenticateToken, strategicQuestionsRoutes);
+app.use('/api/interview-policy', authenticateToken, interviewPolicyRoutes);
+app.use('/api/pii', authenticateToken, piiRoutes);
+app.use('/api/workspaces', authenticateToken, workspaceRoutes);
+app.use('/api/privacy', authenticateToken, privacyRoutes);
 
 // Initialize application on startup
 initializeApplication()
@@ -304,6 +318,10 @@ initializeApplication()
         console.log(`   Check your .env file or PORT environment variable`);
       }
       console.log('='.repeat(60));
+
+      // Delete data past the workspaces' retention windows
+      const purgeIntervalHours = Number(process.env.RETENTION_PURGE_INTERVAL_HOURS ?? 24);
+      scheduleRetentionPurge(new RetentionService(process.env.DATA_DIR || './data'), purgeIntervalHours);
     });
   })
   .catch((error) => {
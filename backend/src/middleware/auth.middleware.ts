@@ -1,19 +1,91 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { DEFAULT_WORKSPACE_ID, runAsUser, runInWorkspace } from '../services/workspace-context';
+import { hasPermission } from '../services/permissions';
+import { AuthSessionService } from '../services/auth-session.service';
+import { Permission } from '../types';
+
+const authSessionService = new AuthSessionService(process.env.DATA_DIR || './data');
 
 export interface AuthRequest extends Request {
   user?: {
     userId: string;
     username: string;
     role: string;
+    workspaceId: string;
+    authSessionId?: string; // Login session the access token belongs to
   };
 }
 
+interface TokenPayload {
+  userId: string;
+  username: string;
+  role: string;
+  workspaceId?: string; // Absent in tokens issued before workspaces existed
+  sid?: string; // Login session ID; absent in tokens issued before sessions existed
+}
+
+const toRequestUser = (decoded: TokenPayload): NonNullable<AuthRequest['user']> => ({
+  userId: decoded.userId,
+  username: decoded.username,
+  role: decoded.role,
+  workspaceId: decoded.workspaceId || DEFAULT_WORKSPACE_ID,
+  authSessionId: decoded.sid
+});
+
+/**
+ * Attach the token's user to the request and continue as that user inside its workspace
+ */
+const continueAsUser = (req: AuthRequest, decoded: TokenPayload, next: NextFunction) => {
+  req.user = toRequestUser(decoded);
+  runInRequestContext(req, next);
+};
+
+/**
+ * Run a function as the request's user inside its workspace. Callbacks that
+ * middleware such as multer invokes after authentication run outside the
+ * context authenticateToken set up, so they re-enter it with this.
+ */
+export const runInRequestContext = <T>(req: AuthRequest, fn: () => T): T => {
+  if (!req.user) {
+    return fn();
+  }
+  const { userId, username, workspaceId } = req.user;
+  return runAsUser({ userId, username }, () => runInWorkspace(workspaceId, fn));
+};
+
+/**
+ * Whether the token's login session has not been logged out or revoked
+ */
+const isSessionActive = async (decoded: TokenPayload): Promise<boolean> => {
+  return !!decoded.sid && authSessionService.isSessionActive(decoded.userId, decoded.sid);
+};
+
+/**
+ * User of an access token that is valid and whose login session is active;
+ * null otherwise. For connections that don't pass through authenticateToken,
+ * such as WebSockets.
+ */
+export const verifyAccessToken = async (token: string | undefined): Promise<AuthRequest['user'] | null> => {
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!token || !jwtSecret) {
+    return null;
+  }
+
+  try {
+    const decoded = jwt.verify(token, jwtSecret) as TokenPayload;
+    return await isSessionActive(decoded) ? toRequestUser(decoded) : null;
+  } catch (error) {
+    return null;
+  }
+};
+
 /**
  * Authentication middleware
- * Verifies JWT token and attaches user info to request
+ * Verifies JWT token and its login session, attaches user info to request
+ * and scopes storage to the token's workspace
  */
-export const authenticateToken = (
+export const authenticateToken = async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
@@ -42,15 +114,9 @@ export const authenticateToken = (
     });
   }
 
+  let decoded: TokenPayload;
   try {
-    const decoded = jwt.verify(token, jwtSecret) as {
-      userId: string;
-      username: string;
-      role: string;
-    };
-    
-    req.user = decoded;
-    next();
+    decoded = jwt.verify(token, jwtSecret) as TokenPayload;
   } catch (error) {
     if (error instanceof jwt.TokenExpiredError) {
       return res.status(401).json({
@@ -59,11 +125,28 @@ export const authenticateToken = (
       });
     }
     
-    return res.status(403).json({
+    return res.status(401).json({
       error: 'Invalid token',
       message: 'Authentication failed'
     });
   }
+
+  try {
+    if (!(await isSessionActive(decoded))) {
+      return res.status(401).json({
+        error: 'Session revoked',
+        message: 'Please login again'
+      });
+    }
+  } catch (error) {
+    console.error('Error checking login session:', error);
+    return res.status(500).json({
+      error: 'Authentication error',
+      message: 'Failed to verify login session'
+    });
+  }
+
+  continueAsUser(req, decoded, next);
 };
 
 /**
@@ -89,11 +172,35 @@ export const requireRole = (...allowedRoles: string[]) => {
   };
 };
 
+/**
+ * Authorization middleware - check that the user's role grants all permissions
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        message: 'No user information found'
+      });
+    }
+
+    const missing = permissions.filter(permission => !hasPermission(req.user!.role, permission));
+    if (missing.length > 0) {
+      return res.status(403).json({
+        error: 'Insufficient permissions',
+        message: `This action requires: ${missing.join(', ')}`
+      });
+    }
+
+    next();
+  };
+};
+
 /**
  * Optional authentication - doesn't fail if no token
  * Used for endpoints that work better with auth but don't require it
  */
-export const optionalAuth = (
+export const optionalAuth = async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
@@ -110,16 +217,21 @@ export const optionalAuth = (
     return next();
   }
 
+  let decoded: TokenPayload;
   try {
-    const decoded = jwt.verify(token, jwtSecret) as {
-      userId: string;
-      username: string;
-      role: string;
-    };
-    req.user = decoded;
+    decoded = jwt.verify(token, jwtSecret) as TokenPayload;
   } catch (error) {
     // Ignore invalid tokens for optional auth
+    return next();
+  }
+
+  try {
+    if (!(await isSessionActive(decoded))) {
+      return next();
+    }
+  } catch (error) {
+    return next();
   }
 
-  next();
+  continueAsUser(req, decoded, next);
 };
@@ -1,7 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { SessionStorageService } from '../services/session-storage.service';
 import { AuditLogService } from '../services/audit-log.service';
-import { JsonStorageService } from '../services/storage.service';
+import { createStorage } from '../services/storage.service';
 import { Session, AdminReview, TransformationCategory } from '../types';
 import { analyticsService } from './analytics.routes';
 
@@ -9,7 +9,7 @@ const router = Router();
 
 // Initialize services
 const dataDir = process.env.DATA_DIR || './data';
-const jsonStorage = new JsonStorageService(dataDir);
+const jsonStorage = createStorage(dataDir);
 const sessionStorage = new SessionStorageService(jsonStorage);
 const auditLogService = new AuditLogService(dataDir);
 
@@ -1,9 +1,11 @@
 import { Router, Response } from 'express';
 import rateLimit from 'express-rate-limit';
 import { AnalyticsService } from '../services/analytics.service';
+import { LLMUsageService } from '../services/llm-usage.service';
+import { PIIService } from '../services/pii.service';
 import { SessionStorageService } from '../services/session-storage.service';
-import { JsonStorageService } from '../services/storage.service';
-import { authenticateToken, requireRole, AuthRequest } from '../middleware/auth.middleware';
+import { createStorage } from '../services/storage.service';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth.middleware';
 import { z } from 'zod';
 import {
   SessionFilters,
@@ -43,9 +45,11 @@ const exportLimiter = rateLimit({
 
 // Initialize services
 const dataDir = process.env.DATA_DIR || './data';
-const jsonStorage = new JsonStorageService(dataDir);
+const jsonStorage = createStorage(dataDir);
 const sessionStorage = new SessionStorageService(jsonStorage);
 const analyticsService = new AnalyticsService(jsonStorage, sessionStorage);
+const llmUsageService = new LLMUsageService(dataDir);
+const piiService = new PIIService(dataDir);
 
 // Export analytics service for cache invalidation
 export { analyticsService };
@@ -55,7 +59,7 @@ export { analyticsService };
  * List sessions with filtering and pagination
  * Requirements: 1.1, 2.1, 2.2, 2.3, 2.4, 2.5, 2.6, 2.7, 3.1, 3.2, 4.1, 4.2, 4.3
  */
-router.get('/sessions', authenticateToken, requireRole('admin'), generalLimiter, async (req: AuthRequest, res: Response) => {
+router.get('/sessions', authenticateToken, requirePermission('analytics:read'), generalLimiter, async (req: AuthRequest, res: Response) => {
   try {
     // Run cleanup for stale sessions (2 hour timeout)
     // We don't await this to keep the response fast, it runs in the background
@@ -163,7 +167,7 @@ router.get('/sessions', authenticateToken, requireRole('admin'), generalLimiter,
  * Get detailed session information
  * Requirements: 3.1, 3.2
  */
-router.get('/sessions/:sessionId', authenticateToken, requireRole('admin'), generalLimiter, async (req: AuthRequest, res: Response) => {
+router.get('/sessions/:sessionId', authenticateToken, requirePermission('analytics:read'), generalLimiter, async (req: AuthRequest, res: Response) => {
   try {
     const { sessionId } = req.params;
 
@@ -195,12 +199,40 @@ router.get('/sessions/:sessionId', authenticateToken, requireRole('admin'), gene
   }
 });
 
+/**
+ * GET /api/analytics/sessions/:sessionId/pii-report
+ * Get the PII detected in a session by type and source, without the original values
+ */
+router.get('/sessions/:sessionId/pii-report', authenticateToken, requirePermission('analytics:read'), generalLimiter, async (req: AuthRequest, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+
+    // Validate sessionId format (UUID)
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(sessionId)) {
+      return res.status(400).json({
+        error: 'Invalid session ID',
+        message: 'Session ID must be a valid UUID'
+      });
+    }
+
+    const report = await piiService.getReport(sessionId);
+    res.json(report);
+  } catch (error) {
+    console.error('Error getting PII report:', error);
+    res.status(500).json({
+      error: 'Failed to get PII report',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 /**
  * GET /api/analytics/filters/options
  * Get available filter options from existing sessions
  * Requirements: 2.1
  */
-router.get('/filters/options', authenticateToken, requireRole('admin'), generalLimiter, async (req: AuthRequest, res: Response) => {
+router.get('/filters/options', authenticateToken, requirePermission('analytics:read'), generalLimiter, async (req: AuthRequest, res: Response) => {
   try {
     const options = await analyticsService.getFilterOptions();
     res.json(options);
@@ -218,7 +250,7 @@ router.get('/filters/options', authenticateToken, requireRole('admin'), generalL
  * Export sessions to CSV format
  * Requirements: 5.1, 5.2, 5.3, 5.4, 5.5
  */
-router.get('/sessions/export', authenticateToken, requireRole('admin'), exportLimiter, async (req: AuthRequest, res: Response) => {
+router.get('/sessions/export', authenticateToken, requirePermission('analytics:read'), exportLimiter, async (req: AuthRequest, res: Response) => {
   try {
     // Parse and validate filters (same as /sessions endpoint)
     const filters: any = {};
@@ -285,7 +317,7 @@ router.get('/sessions/export', authenticateToken, requireRole('admin'), exportLi
  * Get analytics dashboard metrics (recalculated on-demand)
  * Requirements: 12.2, 12.3, 12.4, 13.5
  */
-router.get('/dashboard', authenticateToken, requireRole('admin'), generalLimiter, async (req: AuthRequest, res: Response) => {
+router.get('/dashboard', authenticateToken, requirePermission('analytics:read'), generalLimiter, async (req: AuthRequest, res: Response) => {
   try {
     // Recalculate metrics on-demand
     const metrics = await analyticsService.getDashboardMetrics();
@@ -318,7 +350,7 @@ router.get('/dashboard', authenticateToken, requireRole('admin'), generalLimiter
  * GET /api/analytics/metrics
  * Get cached metrics without recalculation
  */
-router.get('/metrics', authenticateToken, requireRole('admin'), generalLimiter, async (req: AuthRequest, res: Response) => {
+router.get('/metrics', authenticateToken, requirePermission('analytics:read'), generalLimiter, async (req: AuthRequest, res: Response) => {
   try {
     const metrics = await analyticsService.loadMetrics();
 
@@ -339,11 +371,37 @@ router.get('/metrics', authenticateToken, requireRole('admin'), generalLimiter,
   }
 });
 
+/**
+ * GET /api/analytics/usage
+ * LLM token usage and estimated cost of the current workspace by user,
+ * model, day and pipeline stage
+ */
+router.get('/usage', authenticateToken, requirePermission('analytics:read'), generalLimiter, async (req: AuthRequest, res: Response) => {
+  try {
+    const days = parseInt(String(req.query.days || '30'), 10);
+
+    if (isNaN(days) || days < 1 || days > 365) {
+      return res.status(400).json({
+        error: 'Invalid days',
+        message: 'days must be between 1 and 365'
+      });
+    }
+
+    res.json(await llmUsageService.getSummary(days));
+  } catch (error) {
+    console.error('Error loading LLM usage:', error);
+    res.status(500).json({
+      error: 'Failed to load LLM usage',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 /**
  * POST /api/analytics/recalculate
  * Manually trigger metrics recalculation
  */
-router.post('/recalculate', authenticateToken, requireRole('admin'), generalLimiter, async (req: AuthRequest, res: Response) => {
+router.post('/recalculate', authenticateToken, requirePermission('analytics:read'), generalLimiter, async (req: AuthRequest, res: Response) => {
   try {
     const metrics = await analyticsService.recalculateAndSave();
 
@@ -1,11 +1,84 @@
 import { Router, Request, Response } from 'express';
-import { UserService } from '../services/user.service';
-import { authenticateToken, AuthRequest } from '../middleware/auth.middleware';
+import { AuthTokens, UserService } from '../services/user.service';
+import { OidcService } from '../services/oidc.service';
+import { describePasswordPolicy, loadPasswordPolicy } from '../services/password-policy';
+import { WorkspaceService } from '../services/workspace.service';
+import { LLMQuotaService } from '../services/llm-quota.service';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth.middleware';
+import { getRolePermissions, isUserRole, USER_ROLES } from '../services/permissions';
 
 const router = Router();
 
 const dataDir = process.env.DATA_DIR || './data';
 const userService = new UserService(dataDir);
+const workspaceService = new WorkspaceService(dataDir);
+const oidcService = new OidcService();
+const llmQuotaService = new LLMQuotaService(dataDir);
+
+/**
+ * Frontend URL to return to after SSO, with one query parameter added
+ */
+const postLoginUrl = (param: string, value: string) => {
+  const base = oidcService.getPostLoginRedirect();
+  return `${base}${base.includes('?') ? '&' : '?'}${param}=${encodeURIComponent(value)}`;
+};
+
+/**
+ * Cookie holding the secret that ties an SSO login to the browser that started it
+ */
+const OIDC_BINDING_COOKIE = 'catalai_oidc';
+const OIDC_COOKIE_PATH = '/api/auth/oidc';
+
+const readOidcBinding = (req: Request): string | undefined => {
+  const cookies = (req.headers.cookie || '').split(';');
+  const prefix = `${OIDC_BINDING_COOKIE}=`;
+  const cookie = cookies.map(c => c.trim()).find(c => c.startsWith(prefix));
+  return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : undefined;
+};
+
+const isPasswordPolicyError = (error: unknown): error is Error =>
+  error instanceof Error && error.message.startsWith('Password does not meet the policy');
+
+/**
+ * Respond to a failed two-factor operation; unexpected errors become 500
+ */
+const sendTwoFactorError = (res: Response, error: unknown, failure: string) => {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+
+  if (message === 'Invalid two-factor code' || message === 'Invalid or expired login challenge') {
+    return res.status(401).json({ error: failure, message });
+  }
+  if (message === 'Invalid current password') {
+    return res.status(401).json({ error: failure, message: 'Current password is incorrect' });
+  }
+  if (message === 'Account locked') {
+    return res.status(423).json({
+      error: 'Account locked',
+      message: 'Too many failed login attempts. Please try again later or ask an administrator to unlock your account.'
+    });
+  }
+  if (message === 'User not found') {
+    return res.status(404).json({ error: 'User not found', message });
+  }
+  if (message.startsWith('Two-factor')) {
+    return res.status(400).json({ error: failure, message });
+  }
+
+  console.error(`${failure}:`, error);
+  res.status(500).json({ error: failure, message });
+};
+
+/**
+ * GET /api/auth/password-policy
+ * Password requirements, for registration and password forms
+ */
+router.get('/password-policy', (req: Request, res: Response) => {
+  const policy = loadPasswordPolicy();
+  res.json({
+    policy,
+    requirements: describePasswordPolicy(policy)
+  });
+});
 
 /**
  * POST /api/auth/register
@@ -30,15 +103,9 @@ router.post('/register', async (req: Request, res: Response) => {
       });
     }
 
-    if (password.length < 8) {
-      return res.status(400).json({
-        error: 'Invalid password',
-        message: 'Password must be at least 8 characters'
-      });
-    }
 
     // Always create new users as 'user' role
-    // Admin role can only be assigned by existing admins via the user management API
+    // Other roles can only be assigned by user managers via the user management API
     const user = await userService.createUser(username, password, 'user');
 
     // Don't return password hash
@@ -50,7 +117,14 @@ router.post('/register', async (req: Request, res: Response) => {
     });
   } catch (error) {
     console.error('Registration error:', error);
-    
+
+    if (isPasswordPolicyError(error)) {
+      return res.status(400).json({
+        error: 'Invalid password',
+        message: error.message
+      });
+    }
+
     if (error instanceof Error && error.message === 'Username already exists') {
       return res.status(409).json({
         error: 'Username already exists',
@@ -67,7 +141,7 @@ router.post('/register', async (req: Request, res: Response) => {
 
 /**
  * POST /api/auth/login
- * Authenticate user and get JWT token
+ * Authenticate user and get a short-lived access token and a refresh token
  */
 router.post('/login', async (req: Request, res: Response) => {
   try {
@@ -80,11 +154,24 @@ router.post('/login', async (req: Request, res: Response) => {
       });
     }
 
-    const result = await userService.login(username, password);
+    const result = await userService.login(username, password, {
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip
+    });
+
+    if ('challengeToken' in result) {
+      return res.json({
+        message: 'Two-factor authentication required',
+        twoFactorRequired: true,
+        setupRequired: result.setupRequired,
+        challengeToken: result.challengeToken
+      });
+    }
 
     res.json({
       message: 'Login successful',
       token: result.token,
+      refreshToken: result.refreshToken,
       user: result.user
     });
   } catch (error) {
@@ -97,6 +184,13 @@ router.post('/login', async (req: Request, res: Response) => {
       });
     }
 
+    if (error instanceof Error && error.message === 'Account locked') {
+      return res.status(423).json({
+        error: 'Account locked',
+        message: 'Too many failed login attempts. Please try again later or ask an administrator to unlock your account.'
+      });
+    }
+
     res.status(500).json({
       error: 'Login failed',
       message: error instanceof Error ? error.message : 'Unknown error'
@@ -104,6 +198,214 @@ router.post('/login', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/auth/2fa/login/setup
+ * Start 2FA enrolment for a login challenge that requires it
+ */
+router.post('/2fa/login/setup', async (req: Request, res: Response) => {
+  try {
+    const { challengeToken } = req.body;
+
+    if (!challengeToken) {
+      return res.status(400).json({
+        error: 'Missing challenge token',
+        message: 'challengeToken is required'
+      });
+    }
+
+    res.json(await userService.beginChallengeTwoFactorSetup(challengeToken));
+  } catch (error) {
+    sendTwoFactorError(res, error, 'Two-factor setup failed');
+  }
+});
+
+/**
+ * POST /api/auth/2fa/login/verify
+ * Second login step: exchange the challenge and a TOTP or recovery code for tokens
+ */
+router.post('/2fa/login/verify', async (req: Request, res: Response) => {
+  try {
+    const { challengeToken, code } = req.body;
+
+    if (!challengeToken || !code) {
+      return res.status(400).json({
+        error: 'Missing fields',
+        message: 'challengeToken and code are required'
+      });
+    }
+
+    const result = await userService.completeTwoFactorLogin(challengeToken, String(code), {
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip
+    });
+
+    res.json({
+      message: 'Login successful',
+      token: result.token,
+      refreshToken: result.refreshToken,
+      user: result.user,
+      recoveryCodes: result.recoveryCodes
+    });
+  } catch (error) {
+    sendTwoFactorError(res, error, 'Authentication failed');
+  }
+});
+
+/**
+ * GET /api/auth/oidc/config
+ * Whether single sign-on is available, for the login page
+ */
+router.get('/oidc/config', (req: Request, res: Response) => {
+  res.json({
+    enabled: oidcService.isEnabled(),
+    providerName: oidcService.getProviderName()
+  });
+});
+
+/**
+ * GET /api/auth/oidc/login
+ * Redirect the browser to the identity provider
+ */
+router.get('/oidc/login', async (req: Request, res: Response) => {
+  if (!oidcService.isEnabled()) {
+    return res.status(404).json({
+      error: 'SSO not configured',
+      message: 'Single sign-on is not enabled on this server'
+    });
+  }
+
+  try {
+    const { url, browserBinding } = await oidcService.createAuthorizationUrl();
+    res.cookie(OIDC_BINDING_COOKIE, browserBinding, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: req.secure,
+      path: OIDC_COOKIE_PATH
+    });
+    res.redirect(url);
+  } catch (error) {
+    console.error('OIDC login error:', error);
+    res.redirect(postLoginUrl('oidc_error', 'The identity provider is unavailable'));
+  }
+});
+
+/**
+ * GET /api/auth/oidc/callback
+ * Complete SSO login and return to the frontend with a one-time login code
+ */
+router.get('/oidc/callback', async (req: Request, res: Response) => {
+  const { code, state, error, error_description } = req.query;
+
+  if (error) {
+    return res.redirect(postLoginUrl('oidc_error', String(error_description || error)));
+  }
+
+  if (typeof code !== 'string' || typeof state !== 'string') {
+    return res.redirect(postLoginUrl('oidc_error', 'Invalid response from the identity provider'));
+  }
+
+  try {
+    const browserBinding = readOidcBinding(req);
+    const identity = await oidcService.handleCallback(code, state, browserBinding);
+    const result = await userService.loginWithOidc(identity, {
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip
+    });
+    res.redirect(postLoginUrl('oidc_code', oidcService.createHandoff(result, browserBinding!)));
+  } catch (error) {
+    console.error('OIDC callback error:', error);
+    const message = error instanceof Error && error.message.includes('not linked to single sign-on')
+      ? error.message
+      : 'Single sign-on failed. Please try again.';
+    res.redirect(postLoginUrl('oidc_error', message));
+  }
+});
+
+/**
+ * POST /api/auth/oidc/exchange
+ * Exchange the one-time login code from the SSO callback for tokens; only the
+ * browser that started the login can redeem it
+ */
+router.post('/oidc/exchange', (req: Request, res: Response) => {
+  const { code } = req.body;
+  const result = typeof code === 'string'
+    ? oidcService.redeemHandoff<AuthTokens>(code, readOidcBinding(req))
+    : null;
+  res.clearCookie(OIDC_BINDING_COOKIE, { path: OIDC_COOKIE_PATH });
+
+  if (!result) {
+    return res.status(401).json({
+      error: 'Invalid login code',
+      message: 'Please sign in again'
+    });
+  }
+
+  res.json({
+    message: 'Login successful',
+    token: result.token,
+    refreshToken: result.refreshToken,
+    user: result.user
+  });
+});
+
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token for a new access token; the refresh token is rotated
+ */
+router.post('/refresh', async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(400).json({
+        error: 'Missing refresh token',
+        message: 'refreshToken is required'
+      });
+    }
+
+    const result = await userService.refresh(refreshToken);
+
+    res.json({
+      token: result.token,
+      refreshToken: result.refreshToken,
+      user: result.user
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid refresh token') {
+      return res.status(401).json({
+        error: 'Invalid refresh token',
+        message: 'Please login again'
+      });
+    }
+
+    console.error('Token refresh error:', error);
+    res.status(500).json({
+      error: 'Token refresh failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * POST /api/auth/logout
+ * End the current login session
+ */
+router.post('/logout', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    await userService.logout(req.user!.userId, req.user!.authSessionId!);
+
+    res.json({
+      message: 'Logged out successfully'
+    });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({
+      error: 'Logout failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 /**
  * GET /api/auth/me
  * Get current user information
@@ -126,10 +428,10 @@ router.get('/me', authenticateToken, async (req: AuthRequest, res: Response) =>
       });
     }
 
-    const { passwordHash, apiKey, awsAccessKeyId, awsSecretAccessKey, awsSessionToken, ...safeUser } = user;
+    const { passwordHash, apiKey, awsAccessKeyId, awsSecretAccessKey, awsSessionToken, twoFactor, ...safeUser } = user;
 
     res.json({
-      user: safeUser
+      user: { ...safeUser, permissions: getRolePermissions(user.role), twoFactorEnabled: !!twoFactor?.enabled }
     });
   } catch (error) {
     console.error('Get user error:', error);
@@ -231,21 +533,23 @@ router.put('/password', authenticateToken, async (req: AuthRequest, res: Respons
       });
     }
 
-    if (newPassword.length < 8) {
-      return res.status(400).json({
-        error: 'Invalid password',
-        message: 'New password must be at least 8 characters'
-      });
-    }
 
-    await userService.changePassword(req.user.userId, oldPassword, newPassword);
+    // Other devices are logged out; this one keeps its session
+    await userService.changePassword(req.user.userId, oldPassword, newPassword, req.user.authSessionId);
 
     res.json({
       message: 'Password changed successfully'
     });
   } catch (error) {
     console.error('Change password error:', error);
-    
+
+    if (isPasswordPolicyError(error)) {
+      return res.status(400).json({
+        error: 'Invalid password',
+        message: error.message
+      });
+    }
+
     if (error instanceof Error && error.message === 'Invalid current password') {
       return res.status(401).json({
         error: 'Invalid password',
@@ -260,11 +564,196 @@ router.put('/password', authenticateToken, async (req: AuthRequest, res: Respons
   }
 });
 
+/**
+ * GET /api/auth/2fa/status
+ * Two-factor status of the current user
+ */
+router.get('/2fa/status', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    res.json(await userService.getTwoFactorStatus(req.user!.userId));
+  } catch (error) {
+    sendTwoFactorError(res, error, 'Failed to get two-factor status');
+  }
+});
+
+/**
+ * POST /api/auth/2fa/setup
+ * Start enrolment: returns the secret and a QR code for the authenticator app
+ */
+router.post('/2fa/setup', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    res.json(await userService.beginTwoFactorSetup(req.user!.userId));
+  } catch (error) {
+    sendTwoFactorError(res, error, 'Two-factor setup failed');
+  }
+});
+
+/**
+ * POST /api/auth/2fa/enable
+ * Confirm enrolment with a code from the authenticator app
+ */
+router.post('/2fa/enable', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const { code } = req.body;
+
+    if (!code) {
+      return res.status(400).json({
+        error: 'Missing code',
+        message: 'code is required'
+      });
+    }
+
+    const recoveryCodes = await userService.enableTwoFactor(req.user!.userId, String(code));
+
+    res.json({
+      message: 'Two-factor authentication enabled',
+      recoveryCodes
+    });
+  } catch (error) {
+    sendTwoFactorError(res, error, 'Failed to enable two-factor authentication');
+  }
+});
+
+/**
+ * POST /api/auth/2fa/disable
+ * Turn off 2FA with the password and a current or recovery code
+ */
+router.post('/2fa/disable', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const { password, code } = req.body;
+
+    if (!password || !code) {
+      return res.status(400).json({
+        error: 'Missing fields',
+        message: 'password and code are required'
+      });
+    }
+
+    await userService.disableTwoFactor(req.user!.userId, password, String(code));
+
+    res.json({
+      message: 'Two-factor authentication disabled'
+    });
+  } catch (error) {
+    sendTwoFactorError(res, error, 'Failed to disable two-factor authentication');
+  }
+});
+
+/**
+ * POST /api/auth/2fa/recovery-codes
+ * Replace the recovery codes; needs a current code from the authenticator app
+ */
+router.post('/2fa/recovery-codes', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const { code } = req.body;
+
+    if (!code) {
+      return res.status(400).json({
+        error: 'Missing code',
+        message: 'code is required'
+      });
+    }
+
+    res.json({
+      recoveryCodes: await userService.regenerateRecoveryCodes(req.user!.userId, String(code))
+    });
+  } catch (error) {
+    sendTwoFactorError(res, error, 'Failed to regenerate recovery codes');
+  }
+});
+
+/**
+ * GET /api/auth/security-settings
+ * Login security settings (requires users:manage)
+ */
+router.get('/security-settings', authenticateToken, requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    res.json(await userService.getSecuritySettings());
+  } catch (error) {
+    console.error('Get security settings error:', error);
+    res.status(500).json({
+      error: 'Failed to get security settings',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * PUT /api/auth/security-settings
+ * Update login security settings (requires users:manage)
+ */
+router.put('/security-settings', authenticateToken, requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { requireTwoFactorForAdmins } = req.body;
+
+    if (typeof requireTwoFactorForAdmins !== 'boolean') {
+      return res.status(400).json({
+        error: 'Invalid settings',
+        message: 'requireTwoFactorForAdmins must be a boolean'
+      });
+    }
+
+    res.json(await userService.updateSecuritySettings({ requireTwoFactorForAdmins }));
+  } catch (error) {
+    console.error('Update security settings error:', error);
+    res.status(500).json({
+      error: 'Failed to update security settings',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/auth/llm-quotas
+ * LLM quota settings and every user's remaining quota (requires users:manage)
+ */
+router.get('/llm-quotas', authenticateToken, requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const users = await userService.listUsers();
+    res.json({
+      settings: await llmQuotaService.getSettings(),
+      users: await llmQuotaService.listStatuses(users.map(user => user.userId))
+    });
+  } catch (error) {
+    console.error('Get LLM quotas error:', error);
+    res.status(500).json({
+      error: 'Failed to get LLM quotas',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * PUT /api/auth/llm-quotas
+ * Update LLM quota settings (requires users:manage)
+ */
+router.put('/llm-quotas', authenticateToken, requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { mode, warnAtPercent, global, perUser, userOverrides } = req.body;
+
+    res.json(await llmQuotaService.updateSettings(
+      { mode, warnAtPercent, global, perUser, userOverrides },
+      req.user!.username
+    ));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (message.startsWith('Invalid quota')) {
+      return res.status(400).json({ error: 'Invalid quota settings', message });
+    }
+
+    console.error('Update LLM quotas error:', error);
+    res.status(500).json({
+      error: 'Failed to update LLM quotas',
+      message
+    });
+  }
+});
+
 /**
  * POST /api/auth/users
- * Create a new user (admin only)
+ * Create a new user (requires users:manage)
  */
-router.post('/users', authenticateToken, async (req: AuthRequest, res: Response) => {
+router.post('/users', authenticateToken, requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({
@@ -272,14 +761,6 @@ router.post('/users', authenticateToken, async (req: AuthRequest, res: Response)
       });
     }
 
-    // Check if user is admin
-    if (req.user.role !== 'admin') {
-      return res.status(403).json({
-        error: 'Forbidden',
-        message: 'Admin access required'
-      });
-    }
-
     const { username, password, role } = req.body;
 
     // Validate input
@@ -297,21 +778,15 @@ router.post('/users', authenticateToken, async (req: AuthRequest, res: Response)
       });
     }
 
-    if (password.length < 8) {
-      return res.status(400).json({
-        error: 'Invalid password',
-        message: 'Password must be at least 8 characters'
-      });
-    }
 
-    if (role && !['admin', 'user'].includes(role)) {
+    if (role && !isUserRole(role)) {
       return res.status(400).json({
         error: 'Invalid role',
-        message: 'Role must be either "admin" or "user"'
+        message: `Role must be one of: ${USER_ROLES.join(', ')}`
       });
     }
 
-    // Admin can create users with any role
+    // User managers can create users with any role
     const user = await userService.createUser(username, password, role || 'user');
 
     // Don't return password hash
@@ -323,7 +798,14 @@ router.post('/users', authenticateToken, async (req: AuthRequest, res: Response)
     });
   } catch (error) {
     console.error('Create user error:', error);
-    
+
+    if (isPasswordPolicyError(error)) {
+      return res.status(400).json({
+        error: 'Invalid password',
+        message: error.message
+      });
+    }
+
     if (error instanceof Error && error.message === 'Username already exists') {
       return res.status(409).json({
         error: 'Username already exists',
@@ -340,9 +822,9 @@ router.post('/users', authenticateToken, async (req: AuthRequest, res: Response)
 
 /**
  * GET /api/auth/users
- * List all users (admin only)
+ * List all users (requires users:manage)
  */
-router.get('/users', authenticateToken, async (req: AuthRequest, res: Response) => {
+router.get('/users', authenticateToken, requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({
@@ -350,14 +832,6 @@ router.get('/users', authenticateToken, async (req: AuthRequest, res: Response)
       });
     }
 
-    // Check if user is admin
-    if (req.user.role !== 'admin') {
-      return res.status(403).json({
-        error: 'Forbidden',
-        message: 'Admin access required'
-      });
-    }
-
     const users = await userService.listUsers();
 
     res.json({
@@ -374,9 +848,9 @@ router.get('/users', authenticateToken, async (req: AuthRequest, res: Response)
 
 /**
  * PUT /api/auth/users/:userId/role
- * Change user role (admin only)
+ * Change user role (requires users:manage)
  */
-router.put('/users/:userId/role', authenticateToken, async (req: AuthRequest, res: Response) => {
+router.put('/users/:userId/role', authenticateToken, requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({
@@ -384,21 +858,13 @@ router.put('/users/:userId/role', authenticateToken, async (req: AuthRequest, re
       });
     }
 
-    // Check if user is admin
-    if (req.user.role !== 'admin') {
-      return res.status(403).json({
-        error: 'Forbidden',
-        message: 'Admin access required'
-      });
-    }
-
     const { userId } = req.params;
     const { role } = req.body;
 
-    if (!role || !['admin', 'user'].includes(role)) {
+    if (!isUserRole(role)) {
       return res.status(400).json({
         error: 'Invalid role',
-        message: 'Role must be either "admin" or "user"'
+        message: `Role must be one of: ${USER_ROLES.join(', ')}`
       });
     }
 
@@ -426,9 +892,9 @@ router.put('/users/:userId/role', authenticateToken, async (req: AuthRequest, re
 
 /**
  * PUT /api/auth/users/:userId/password
- * Reset user password (admin only)
+ * Reset user password (requires users:manage)
  */
-router.put('/users/:userId/password', authenticateToken, async (req: AuthRequest, res: Response) => {
+router.put('/users/:userId/password', authenticateToken, requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({
@@ -436,14 +902,6 @@ router.put('/users/:userId/password', authenticateToken, async (req: AuthRequest
       });
     }
 
-    // Check if user is admin
-    if (req.user.role !== 'admin') {
-      return res.status(403).json({
-        error: 'Forbidden',
-        message: 'Admin access required'
-      });
-    }
-
     const { userId } = req.params;
     const { newPassword } = req.body;
 
@@ -454,12 +912,6 @@ router.put('/users/:userId/password', authenticateToken, async (req: AuthRequest
       });
     }
 
-    if (newPassword.length < 8) {
-      return res.status(400).json({
-        error: 'Invalid password',
-        message: 'Password must be at least 8 characters'
-      });
-    }
 
     await userService.resetUserPassword(userId, newPassword);
 
@@ -468,6 +920,14 @@ router.put('/users/:userId/password', authenticateToken, async (req: AuthRequest
     });
   } catch (error) {
     console.error('Reset password error:', error);
+
+    if (isPasswordPolicyError(error)) {
+      return res.status(400).json({
+        error: 'Invalid password',
+        message: error.message
+      });
+    }
+
     res.status(500).json({
       error: 'Failed to reset password',
       message: error instanceof Error ? error.message : 'Unknown error'
@@ -476,10 +936,110 @@ router.put('/users/:userId/password', authenticateToken, async (req: AuthRequest
 });
 
 /**
- * DELETE /api/auth/users/:userId
- * Delete user (admin only)
+ * GET /api/auth/users/login-events
+ * Successful and failed logins and lockouts (requires users:manage)
+ * Query: days (default 7, max 90), username
+ */
+router.get('/users/login-events', authenticateToken, requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const days = Math.min(Math.max(parseInt(String(req.query.days || ''), 10) || 7, 1), 90);
+    const username = typeof req.query.username === 'string' && req.query.username ? req.query.username : undefined;
+
+    const events = await userService.listLoginEvents(days, username);
+
+    res.json({
+      events: events.slice(0, 500),
+      total: events.length
+    });
+  } catch (error) {
+    console.error('List login events error:', error);
+    res.status(500).json({
+      error: 'Failed to list login events',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * POST /api/auth/users/:userId/unlock
+ * Clear a login lockout (requires users:manage)
+ */
+router.post('/users/:userId/unlock', authenticateToken, requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    await userService.unlockUser(req.params.userId);
+
+    res.json({
+      message: 'User unlocked successfully'
+    });
+  } catch (error) {
+    console.error('Unlock user error:', error);
+
+    if (error instanceof Error && error.message === 'User not found') {
+      return res.status(404).json({
+        error: 'User not found',
+        message: `User ${req.params.userId} does not exist`
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to unlock user',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * POST /api/auth/users/:userId/reset-2fa
+ * Remove a user's two-factor enrolment, e.g. after a lost phone (requires users:manage)
+ */
+router.post('/users/:userId/reset-2fa', authenticateToken, requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    await userService.resetTwoFactor(req.params.userId);
+
+    res.json({
+      message: 'Two-factor authentication reset successfully'
+    });
+  } catch (error) {
+    sendTwoFactorError(res, error, 'Failed to reset two-factor authentication');
+  }
+});
+
+/**
+ * POST /api/auth/users/:userId/revoke-sessions
+ * Log a user out everywhere (requires users:manage)
+ */
+router.post('/users/:userId/revoke-sessions', authenticateToken, requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { userId } = req.params;
+
+    const user = await userService.getUserById(userId);
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: `User ${userId} does not exist`
+      });
+    }
+
+    const revokedCount = await userService.revokeAllSessions(userId);
+
+    res.json({
+      message: 'Sessions revoked successfully',
+      revokedCount
+    });
+  } catch (error) {
+    console.error('Revoke sessions error:', error);
+    res.status(500).json({
+      error: 'Failed to revoke sessions',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * PUT /api/auth/users/:userId/workspaces
+ * Set the workspaces a user is a member of (requires users:manage)
  */
-router.delete('/users/:userId', authenticateToken, async (req: AuthRequest, res: Response) => {
+router.put('/users/:userId/workspaces', authenticateToken, requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({
@@ -487,11 +1047,56 @@ router.delete('/users/:userId', authenticateToken, async (req: AuthRequest, res:
       });
     }
 
-    // Check if user is admin
-    if (req.user.role !== 'admin') {
-      return res.status(403).json({
-        error: 'Forbidden',
-        message: 'Admin access required'
+    const { userId } = req.params;
+    const { workspaceIds } = req.body;
+
+    if (!Array.isArray(workspaceIds) || workspaceIds.length === 0) {
+      return res.status(400).json({
+        error: 'Invalid workspaces',
+        message: 'workspaceIds must be a non-empty array'
+      });
+    }
+
+    for (const workspaceId of workspaceIds) {
+      if (typeof workspaceId !== 'string' || !(await workspaceService.getWorkspace(workspaceId))) {
+        return res.status(400).json({
+          error: 'Invalid workspaces',
+          message: `Workspace ${workspaceId} does not exist`
+        });
+      }
+    }
+
+    await userService.setUserWorkspaces(userId, workspaceIds);
+
+    res.json({
+      message: 'User workspaces updated successfully'
+    });
+  } catch (error) {
+    console.error('Set user workspaces error:', error);
+
+    if (error instanceof Error && error.message === 'User not found') {
+      return res.status(404).json({
+        error: 'User not found',
+        message: 'User account does not exist'
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to update user workspaces',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * DELETE /api/auth/users/:userId
+ * Delete user (requires users:manage)
+ */
+router.delete('/users/:userId', authenticateToken, requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        error: 'Not authenticated'
       });
     }
 
@@ -0,0 +1,262 @@
+import { Router, Request, Response } from 'express';
+import multer from 'multer';
+import path from 'path';
+import { SessionStorageService } from '../services/session-storage.service';
+import { ClassificationService } from '../services/classification.service';
+import { DecisionMatrixEvaluatorService } from '../services/decision-matrix-evaluator.service';
+import { SubjectExtractionService } from '../services/subject-extraction.service';
+import { AuditLogService } from '../services/audit-log.service';
+import { PIIService } from '../services/pii.service';
+import { createStorage } from '../services/storage.service';
+import { VersionedStorageService } from '../services/versioned-storage.service';
+import { BatchClassificationService, BatchLLMOptions } from '../services/batch-classification.service';
+import { isAllowedLocalLLMBaseUrl } from '../services/local-llm.service';
+import { isMockLLMEnabled } from '../services/mock-llm.service';
+import { AuthRequest, runInRequestContext } from '../middleware/auth.middleware';
+import { analyticsService } from './analytics.routes';
+
+const router = Router();
+
+// Initialize services
+const dataDir = process.env.DATA_DIR || './data';
+const jsonStorage = createStorage(dataDir);
+const sessionStorage = new SessionStorageService(jsonStorage);
+const versionedStorage = new VersionedStorageService(jsonStorage);
+const batchService = new BatchClassificationService(
+  jsonStorage,
+  sessionStorage,
+  versionedStorage,
+  new ClassificationService(versionedStorage),
+  new DecisionMatrixEvaluatorService(),
+  new SubjectExtractionService(),
+  new PIIService(dataDir),
+  new AuditLogService(dataDir),
+  () => analyticsService.invalidateCache()
+);
+
+// Uploads are parsed in memory - they are small text files
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB max file size
+  },
+  fileFilter: (req, file, cb) => {
+    const allowedFormats = ['.csv', '.jsonl', '.ndjson'];
+    const ext = path.extname(file.originalname).toLowerCase();
+
+    if (allowedFormats.includes(ext)) {
+      cb(null, true);
+    } else {
+      cb(new Error(`Unsupported file format. Allowed formats: ${allowedFormats.join(', ')}`));
+    }
+  }
+});
+
+/**
+ * POST /api/batch/jobs
+ * Upload a CSV or JSONL file of process descriptions and start a batch classification job
+ * Multipart form: file, plus the same LLM fields as /api/process/submit
+ */
+router.post('/jobs', (req: Request, res: Response, next) => {
+  upload.single('file')(req, res, (err: any) => {
+    if (err) {
+      return res.status(400).json({
+        error: 'Invalid upload',
+        message: err instanceof Error ? err.message : 'Upload failed'
+      });
+    }
+    runInRequestContext(req, next);
+  });
+}, async (req: Request, res: Response) => {
+  try {
+    const {
+      apiKey,
+      baseUrl,
+      awsAccessKeyId,
+      awsSecretAccessKey,
+      awsSessionToken,
+      awsRegion,
+      useRegionalInference,
+      regionalInferenceEndpoint,
+      provider,
+      model = 'gpt-4'
+    } = req.body;
+
+    if (!req.file) {
+      return res.status(400).json({
+        error: 'Missing file',
+        message: 'A CSV or JSONL file is required'
+      });
+    }
+
+    // Validate credentials based on provider
+    const llmProvider = provider || (model.startsWith('anthropic.claude') ? 'bedrock' : 'openai');
+    if (llmProvider === 'bedrock') {
+      if (!awsAccessKeyId || !awsSecretAccessKey) {
+        return res.status(400).json({
+          error: 'Missing AWS credentials',
+          message: 'AWS Access Key ID and Secret Access Key are required for Bedrock'
+        });
+      }
+    } else if (llmProvider === 'local') {
+      if (!baseUrl) {
+        return res.status(400).json({
+          error: 'Missing base URL',
+          message: 'Base URL is required for the local (OpenAI-compatible) provider'
+        });
+      }
+
+      if (!isAllowedLocalLLMBaseUrl(baseUrl)) {
+        return res.status(400).json({
+          error: 'Base URL not allowed',
+          message: 'Only local LLM endpoints allowed by the server administrator (LOCAL_LLM_ALLOWED_BASE_URLS) can be used'
+        });
+      }
+    } else if (llmProvider === 'mock') {
+      if (!isMockLLMEnabled()) {
+        return res.status(400).json({
+          error: 'Mock provider disabled',
+          message: 'The mock LLM provider is only available in tests or when MOCK_LLM_ENABLED=true'
+        });
+      }
+    } else if (!apiKey) {
+      return res.status(400).json({
+        error: 'Missing API key',
+        message: 'OpenAI API key is required'
+      });
+    }
+
+    const format = path.extname(req.file.originalname).toLowerCase() === '.csv' ? 'csv' : 'jsonl';
+
+    let rows;
+    try {
+      rows = batchService.parseInput(req.file.buffer.toString('utf-8'), format);
+    } catch (parseError) {
+      return res.status(400).json({
+        error: 'Invalid file',
+        message: parseError instanceof Error ? parseError.message : 'Failed to parse file'
+      });
+    }
+
+    const llmOptions: BatchLLMOptions = {
+      model,
+      provider: llmProvider,
+      apiKey,
+      baseUrl,
+      awsAccessKeyId,
+      awsSecretAccessKey,
+      awsSessionToken,
+      awsRegion,
+      // Multipart fields arrive as strings
+      useRegionalInference: useRegionalInference === true || useRegionalInference === 'true',
+      regionalInferenceEndpoint
+    };
+
+    const userId = (req as AuthRequest).user?.userId || 'anonymous';
+    const job = await batchService.startJob(rows, llmOptions, userId, format, req.file.originalname);
+
+    const { items, ...summary } = job;
+    res.status(202).json(summary);
+  } catch (error) {
+    console.error('Error starting batch job:', error);
+    res.status(500).json({
+      error: 'Failed to start batch job',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/batch/jobs
+ * List batch jobs (summaries only), newest first
+ */
+router.get('/jobs', async (req: Request, res: Response) => {
+  try {
+    const jobs = await batchService.listJobs();
+    res.json({ jobs });
+  } catch (error) {
+    console.error('Error listing batch jobs:', error);
+    res.status(500).json({
+      error: 'Failed to list batch jobs',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/batch/jobs/:jobId
+ * Get a batch job with progress and per-item results
+ */
+router.get('/jobs/:jobId', async (req: Request, res: Response) => {
+  try {
+    const job = await batchService.getJob(req.params.jobId);
+
+    if (!job) {
+      return res.status(404).json({
+        error: 'Batch job not found',
+        jobId: req.params.jobId
+      });
+    }
+
+    res.json(job);
+  } catch (error) {
+    console.error('Error getting batch job:', error);
+    res.status(500).json({
+      error: 'Failed to get batch job',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * POST /api/batch/jobs/:jobId/cancel
+ * Stop a running job after the item currently being classified
+ */
+router.post('/jobs/:jobId/cancel', async (req: Request, res: Response) => {
+  try {
+    if (!batchService.cancelJob(req.params.jobId)) {
+      return res.status(409).json({
+        error: 'Job not running',
+        message: 'Only running jobs can be cancelled'
+      });
+    }
+
+    res.json({ message: 'Cancellation requested' });
+  } catch (error) {
+    console.error('Error cancelling batch job:', error);
+    res.status(500).json({
+      error: 'Failed to cancel batch job',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/batch/jobs/:jobId/results?format=csv|jsonl
+ * Download per-item results (category, confidence, triggered rules)
+ */
+router.get('/jobs/:jobId/results', async (req: Request, res: Response) => {
+  try {
+    const format = req.query.format === 'jsonl' ? 'jsonl' : 'csv';
+    const job = await batchService.getJob(req.params.jobId);
+
+    if (!job) {
+      return res.status(404).json({
+        error: 'Batch job not found',
+        jobId: req.params.jobId
+      });
+    }
+
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="batch-${job.jobId}.${format}"`);
+    res.send(batchService.formatResults(job, format));
+  } catch (error) {
+    console.error('Error downloading batch results:', error);
+    res.status(500).json({
+      error: 'Failed to download batch results',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
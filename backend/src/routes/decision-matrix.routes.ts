@@ -1,30 +1,53 @@
 import { Router, Request, Response } from 'express';
 import { DecisionMatrixService } from '../services/decision-matrix.service';
-import { DecisionMatrixEvaluatorService } from '../services/decision-matrix-evaluator.service';
+import { DecisionMatrixEvaluatorService, getConditionDepth } from '../services/decision-matrix-evaluator.service';
 import { OpenAIService } from '../services/openai.service';
+import { isAllowedLocalLLMBaseUrl } from '../services/local-llm.service';
 import { VersionedStorageService } from '../services/versioned-storage.service';
-import { JsonStorageService } from '../services/storage.service';
+import { createStorage } from '../services/storage.service';
 import { AuditLogService } from '../services/audit-log.service';
+import { SessionStorageService } from '../services/session-storage.service';
+import { DecisionMatrixSimulationService } from '../services/decision-matrix-simulation.service';
+import { DecisionMatrixDiffService } from '../services/decision-matrix-diff.service';
+import { requirePermission, AuthRequest } from '../middleware/auth.middleware';
 import { DecisionMatrix, DecisionMatrixSchema } from '../types';
 
 const router = Router();
 
 // Initialize services
 const dataDir = process.env.DATA_DIR || './data';
-const jsonStorage = new JsonStorageService(dataDir);
+const jsonStorage = createStorage(dataDir);
 const versionedStorage = new VersionedStorageService(jsonStorage);
 const openAIService = new OpenAIService();
 const decisionMatrixService = new DecisionMatrixService(openAIService, versionedStorage);
 const evaluatorService = new DecisionMatrixEvaluatorService();
 const auditLogService = new AuditLogService(dataDir);
+const simulationService = new DecisionMatrixSimulationService(
+  new SessionStorageService(jsonStorage),
+  versionedStorage,
+  evaluatorService
+);
+const diffService = new DecisionMatrixDiffService();
+
+// Deepest all/any/not nesting accepted in a rule's conditions
+const MAX_CONDITION_DEPTH = 5;
+
+/**
+ * Names of rules whose condition groups are nested deeper than MAX_CONDITION_DEPTH
+ */
+const findOverlyNestedRules = (matrix: Pick<DecisionMatrix, 'rules'>): string[] => {
+  return matrix.rules
+    .filter(rule => getConditionDepth(rule.conditions) > MAX_CONDITION_DEPTH)
+    .map(rule => rule.name);
+};
 
 /**
  * GET /api/decision-matrix
  * Get the current active decision matrix
  */
-router.get('/', async (req: Request, res: Response) => {
+router.get('/', requirePermission('matrix:read'), async (req: Request, res: Response) => {
   try {
-    const matrix = await versionedStorage.getLatestDecisionMatrix();
+    const matrix = await versionedStorage.getActiveDecisionMatrix();
     
     if (!matrix) {
       return res.status(404).json({
@@ -47,13 +70,17 @@ router.get('/', async (req: Request, res: Response) => {
  * GET /api/decision-matrix/versions
  * List all decision matrix versions
  */
-router.get('/versions', async (req: Request, res: Response) => {
+router.get('/versions', requirePermission('matrix:read'), async (req: Request, res: Response) => {
   try {
     const versions = await versionedStorage.listDecisionMatrixVersions();
+    const activeVersion = await versionedStorage.getActiveDecisionMatrixVersion();
+    const activation = await versionedStorage.getDecisionMatrixActivation();
     
     res.json({
       versions,
-      count: versions.length
+      count: versions.length,
+      activeVersion,
+      activation: activation && activation.version === activeVersion ? activation : null
     });
   } catch (error) {
     console.error('Error listing decision matrix versions:', error);
@@ -64,12 +91,50 @@ router.get('/versions', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/decision-matrix/diff?from=1.0&to=1.1
+ * Structured diff between two versions; "to" defaults to the active version
+ */
+router.get('/diff', requirePermission('matrix:read'), async (req: Request, res: Response) => {
+  try {
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+
+    if (!from) {
+      return res.status(400).json({
+        error: 'Missing required fields',
+        message: 'The "from" version is required'
+      });
+    }
+
+    const [fromMatrix, toMatrix] = await Promise.all([
+      versionedStorage.getDecisionMatrix(from),
+      to ? versionedStorage.getDecisionMatrix(to) : versionedStorage.getActiveDecisionMatrix()
+    ]);
+
+    if (!fromMatrix || !toMatrix) {
+      return res.status(404).json({
+        error: 'Version not found',
+        message: `Decision matrix version ${!fromMatrix ? from : to || 'latest'} does not exist`
+      });
+    }
+
+    res.json(diffService.diff(fromMatrix as DecisionMatrix, toMatrix as DecisionMatrix));
+  } catch (error) {
+    console.error('Error diffing decision matrix versions:', error);
+    res.status(500).json({
+      error: 'Failed to diff decision matrix versions',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 /**
  * GET /api/decision-matrix/export
  * Export the current decision matrix as JSON file
- * Admin only
+ * Requires matrix:read
  */
-router.get('/export', async (req: Request, res: Response) => {
+router.get('/export', requirePermission('matrix:read'), async (req: Request, res: Response) => {
   try {
     const { version } = req.query;
     
@@ -79,8 +144,8 @@ router.get('/export', async (req: Request, res: Response) => {
       // Export specific version
       matrix = await versionedStorage.getDecisionMatrix(version as string);
     } else {
-      // Export latest version
-      matrix = await versionedStorage.getLatestDecisionMatrix();
+      // Export the active version
+      matrix = await versionedStorage.getActiveDecisionMatrix();
     }
     
     if (!matrix) {
@@ -135,9 +200,9 @@ router.get('/export', async (req: Request, res: Response) => {
 /**
  * GET /api/decision-matrix/export/all-versions
  * Export all decision matrix versions as a single JSON file
- * Admin only
+ * Requires matrix:read
  */
-router.get('/export/all-versions', async (req: Request, res: Response) => {
+router.get('/export/all-versions', requirePermission('matrix:read'), async (req: Request, res: Response) => {
   try {
     const versions = await versionedStorage.listDecisionMatrixVersions();
     
@@ -199,7 +264,7 @@ router.get('/export/all-versions', async (req: Request, res: Response) => {
  * GET /api/decision-matrix/:version
  * Get a specific version of the decision matrix
  */
-router.get('/:version', async (req: Request, res: Response) => {
+router.get('/:version', requirePermission('matrix:read'), async (req: Request, res: Response) => {
   try {
     const { version } = req.params;
     const matrix = await versionedStorage.getDecisionMatrix(version);
@@ -221,12 +286,92 @@ router.get('/:version', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/decision-matrix/:version/activate
+ * Make an existing version the live one (activate or roll back) without copying it
+ * Requires matrix:edit
+ * Body: { reason: string }
+ */
+router.post('/:version/activate', requirePermission('matrix:edit'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { version } = req.params;
+    const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+
+    if (!/^\d+(\.\d+)*$/.test(version)) {
+      return res.status(400).json({
+        error: 'Invalid version',
+        message: 'Version must be numeric, e.g. 1.2'
+      });
+    }
+
+    if (!reason) {
+      return res.status(400).json({
+        error: 'Missing required fields',
+        message: 'A reason for the switch is required'
+      });
+    }
+
+    if (reason.length > 500) {
+      return res.status(400).json({
+        error: 'Invalid reason',
+        message: 'Reason cannot be longer than 500 characters'
+      });
+    }
+
+    const matrix = await versionedStorage.getDecisionMatrix(version);
+    if (!matrix) {
+      return res.status(404).json({
+        error: 'Version not found',
+        message: `Decision matrix version ${version} does not exist`
+      });
+    }
+
+    const userId = req.user?.userId || 'admin';
+    const { previousVersion, activation } = await versionedStorage.activateDecisionMatrix(
+      version,
+      req.user?.username || userId,
+      reason
+    );
+
+    await auditLogService.log({
+      sessionId: 'system',
+      timestamp: activation.activatedAt,
+      eventType: 'classification', // Using classification type for system events
+      userId,
+      data: {
+        action: 'decision_matrix_activated',
+        previousVersion: previousVersion || 'none',
+        activatedVersion: version,
+        activatedBy: activation.activatedBy,
+        reason
+      },
+      piiScrubbed: false,
+      metadata: {
+        decisionMatrixVersion: version
+      }
+    });
+
+    res.json({
+      message: `Decision matrix version ${version} is now active`,
+      previousVersion,
+      activation,
+      matrix: { ...matrix, active: true }
+    });
+  } catch (error) {
+    console.error('Error activating decision matrix version:', error);
+    res.status(500).json({
+      error: 'Failed to activate decision matrix version',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 /**
  * PUT /api/decision-matrix
  * Update the decision matrix (creates a new version)
  * Requirements: 23.1, 23.2, 23.3, 23.4, 23.5, 23.6
  */
-router.put('/', async (req: Request, res: Response) => {
+router.put('/', requirePermission('matrix:edit'), async (req: Request, res: Response) => {
   try {
     const { userId = 'admin' } = req.body;
     
@@ -242,18 +387,18 @@ router.put('/', async (req: Request, res: Response) => {
 
     const matrix = validationResult.data;
 
-    // Get the current latest version to determine the next version number
-    const currentMatrix = await versionedStorage.getLatestDecisionMatrix();
-    
-    let newVersion: string;
-    if (!currentMatrix) {
-      newVersion = '1.0';
-    } else {
-      // Increment version (simple major.minor versioning)
-      const [major, minor] = currentMatrix.version.split('.').map(Number);
-      newVersion = `${major}.${minor + 1}`;
+    const overlyNested = findOverlyNestedRules(matrix);
+    if (overlyNested.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid decision matrix format',
+        message: `Condition groups cannot be nested more than ${MAX_CONDITION_DEPTH} levels deep (rules: ${overlyNested.join(', ')})`
+      });
     }
 
+    // The next version number comes from the newest version, which may be newer than the active one
+    const currentMatrix = await versionedStorage.getActiveDecisionMatrix();
+    const newVersion = await versionedStorage.getNextDecisionMatrixVersion();
+
     // Create the new matrix with updated metadata
     const newMatrix: DecisionMatrix = {
       ...matrix,
@@ -304,12 +449,13 @@ router.put('/', async (req: Request, res: Response) => {
  * Generate initial decision matrix using AI
  * Requirements: 19.1, 19.2, 19.3, 19.4, 19.5
  */
-router.post('/generate', async (req: Request, res: Response) => {
+router.post('/generate', requirePermission('matrix:edit'), async (req: Request, res: Response) => {
   const startTime = Date.now();
   
   try {
     const { 
       apiKey, 
+      baseUrl,
       model, 
       userId = 'admin',
       provider,
@@ -329,6 +475,20 @@ router.post('/generate', async (req: Request, res: Response) => {
           message: 'AWS Access Key ID and Secret Access Key are required for Bedrock'
         });
       }
+    } else if (detectedProvider === 'local') {
+      if (!baseUrl) {
+        return res.status(400).json({
+          error: 'Missing base URL',
+          message: 'Base URL is required for the local (OpenAI-compatible) provider'
+        });
+      }
+
+      if (!isAllowedLocalLLMBaseUrl(baseUrl)) {
+        return res.status(400).json({
+          error: 'Base URL not allowed',
+          message: 'Only local LLM endpoints allowed by the server administrator (LOCAL_LLM_ALLOWED_BASE_URLS) can be used'
+        });
+      }
     } else {
       if (!apiKey) {
         return res.status(400).json({
@@ -351,6 +511,7 @@ router.post('/generate', async (req: Request, res: Response) => {
     const llmConfig: any = {
       provider: detectedProvider,
       apiKey,
+      baseUrl,
       awsAccessKeyId,
       awsSecretAccessKey,
       awsSessionToken,
@@ -404,7 +565,7 @@ router.post('/generate', async (req: Request, res: Response) => {
  * POST /api/decision-matrix/evaluate
  * Evaluate a classification against the decision matrix (internal use)
  */
-router.post('/evaluate', async (req: Request, res: Response) => {
+router.post('/evaluate', requirePermission('matrix:read'), async (req: Request, res: Response) => {
   try {
     const { classification, extractedAttributes } = req.body;
 
@@ -416,7 +577,7 @@ router.post('/evaluate', async (req: Request, res: Response) => {
     }
 
     // Get the current matrix
-    const matrix = await versionedStorage.getLatestDecisionMatrix();
+    const matrix = await versionedStorage.getActiveDecisionMatrix();
     
     if (!matrix) {
       return res.status(404).json({
@@ -442,10 +603,46 @@ router.post('/evaluate', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/decision-matrix/simulate
+ * Replay past sessions' stored attributes against a draft (unsaved) matrix
+ * Requires matrix:edit - no LLM calls are made
+ * Body: { matrix: DecisionMatrix }
+ */
+router.post('/simulate', requirePermission('matrix:edit'), async (req: Request, res: Response) => {
+  try {
+    const validationResult = DecisionMatrixSchema.safeParse(req.body.matrix);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid decision matrix format',
+        details: validationResult.error.errors
+      });
+    }
+
+    const overlyNested = findOverlyNestedRules(validationResult.data);
+    if (overlyNested.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid decision matrix format',
+        message: `Condition groups cannot be nested more than ${MAX_CONDITION_DEPTH} levels deep (rules: ${overlyNested.join(', ')})`
+      });
+    }
+
+    const result = await simulationService.simulate(validationResult.data as DecisionMatrix);
+    res.json(result);
+  } catch (error) {
+    console.error('Error simulating decision matrix:', error);
+    res.status(500).json({
+      error: 'Failed to simulate decision matrix',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 /**
  * POST /api/decision-matrix/import
  * Import a decision matrix from JSON file
- * Admin only
+ * Requires matrix:edit
  * 
  * Security validations:
  * - Validates JSON structure against DecisionMatrixSchema
@@ -453,7 +650,7 @@ router.post('/evaluate', async (req: Request, res: Response) => {
  * - Sanitizes version numbers
  * - Prevents overwriting without explicit permission
  */
-router.post('/import', async (req: Request, res: Response) => {
+router.post('/import', requirePermission('matrix:edit'), async (req: Request, res: Response) => {
   try {
     const { matrix: importedMatrix, replaceExisting = false, userId = 'admin' } = req.body;
 
@@ -536,8 +733,16 @@ router.post('/import', async (req: Request, res: Response) => {
       });
     }
 
+    const overlyNested = findOverlyNestedRules(matrix);
+    if (overlyNested.length > 0) {
+      return res.status(400).json({
+        error: 'Matrix too large',
+        message: `Condition groups cannot be nested more than ${MAX_CONDITION_DEPTH} levels deep (rules: ${overlyNested.join(', ')})`
+      });
+    }
+
     // Validation 6: Check if matrix already exists
-    const currentMatrix = await versionedStorage.getLatestDecisionMatrix();
+    const currentMatrix = await versionedStorage.getActiveDecisionMatrix();
     
     if (currentMatrix && !replaceExisting) {
       return res.status(409).json({
@@ -554,9 +759,7 @@ router.post('/import', async (req: Request, res: Response) => {
       // No existing matrix, use imported version or default to 1.0
       newVersion = matrix.version || '1.0';
     } else {
-      // Increment from current version
-      const [major, minor] = currentMatrix.version.split('.').map(Number);
-      newVersion = `${major}.${minor + 1}`;
+      newVersion = await versionedStorage.getNextDecisionMatrixVersion();
     }
 
     // Create the new matrix with sanitized metadata
@@ -2,7 +2,7 @@ import { Router, Request, Response } from 'express';
 import { SessionStorageService } from '../services/session-storage.service';
 import { AuditLogService } from '../services/audit-log.service';
 import { PIIService } from '../services/pii.service';
-import { JsonStorageService } from '../services/storage.service';
+import { createStorage } from '../services/storage.service';
 import { Feedback, UserRating } from '../types';
 import { analyticsService } from './analytics.routes';
 
@@ -10,7 +10,7 @@ const router = Router();
 
 // Initialize services
 const dataDir = process.env.DATA_DIR || './data';
-const jsonStorage = new JsonStorageService(dataDir);
+const jsonStorage = createStorage(dataDir);
 const sessionStorage = new SessionStorageService(jsonStorage);
 const auditLogService = new AuditLogService(dataDir);
 const piiService = new PIIService(dataDir);
@@ -169,7 +169,7 @@ router.post('/rating', async (req: Request, res: Response) => {
     let hasPII = false;
 
     if (comments) {
-      const scrubResult = await piiService.scrubAndStore(comments, sessionId, userId);
+      const scrubResult = await piiService.scrubAndStore(comments, sessionId, userId, 'feedback');
       scrubbedComments = scrubResult.scrubbedText;
       hasPII = scrubResult.hasPII;
     }
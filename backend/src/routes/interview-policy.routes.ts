@@ -0,0 +1,144 @@
+import { Router, Response } from 'express';
+import { ClarificationService } from '../services/clarification.service';
+import { VersionedStorageService } from '../services/versioned-storage.service';
+import { createStorage } from '../services/storage.service';
+import { AuditLogService } from '../services/audit-log.service';
+import { requirePermission, AuthRequest } from '../middleware/auth.middleware';
+import { InterviewPolicy, InterviewPolicySchema } from '../types';
+
+const router = Router();
+
+// Initialize services
+const dataDir = process.env.DATA_DIR || './data';
+const jsonStorage = createStorage(dataDir);
+const versionedStorage = new VersionedStorageService(jsonStorage);
+const clarificationService = new ClarificationService(versionedStorage);
+const auditLogService = new AuditLogService(dataDir);
+
+/**
+ * GET /api/interview-policy
+ * Get the active interview policy (the newest version)
+ */
+router.get('/', requirePermission('matrix:read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const policy = await clarificationService.getActiveInterviewPolicy();
+    res.json(policy);
+  } catch (error) {
+    console.error('Error fetching interview policy:', error);
+    res.status(500).json({
+      error: 'Failed to fetch interview policy',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/interview-policy/versions
+ * List interview policy versions, newest (active) first
+ */
+router.get('/versions', requirePermission('matrix:read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const versions = await versionedStorage.listInterviewPolicyVersions();
+    res.json({ versions });
+  } catch (error) {
+    console.error('Error listing interview policy versions:', error);
+    res.status(500).json({
+      error: 'Failed to list interview policy versions',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/interview-policy/:version
+ * Get a specific interview policy version
+ */
+router.get('/:version', requirePermission('matrix:read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { version } = req.params;
+
+    if (!/^\d+(\.\d+)*$/.test(version)) {
+      return res.status(400).json({
+        error: 'Invalid version',
+        message: 'Version must be numeric, e.g. 1.2'
+      });
+    }
+
+    const policy = await versionedStorage.getInterviewPolicy(version);
+    if (!policy) {
+      return res.status(404).json({
+        error: 'Version not found',
+        message: `Interview policy version ${version} does not exist`
+      });
+    }
+
+    res.json(policy);
+  } catch (error) {
+    console.error('Error fetching interview policy version:', error);
+    res.status(500).json({
+      error: 'Failed to fetch interview policy version',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * PUT /api/interview-policy
+ * Update the interview policy (creates a new version, which becomes active)
+ * Sessions keep the version their interview started with
+ * Requires questions:edit
+ */
+router.put('/', requirePermission('questions:edit'), async (req: AuthRequest, res: Response) => {
+  try {
+    const currentPolicy = await clarificationService.getActiveInterviewPolicy();
+    const userId = req.user?.userId || 'admin';
+
+    const validationResult = InterviewPolicySchema.safeParse({
+      ...req.body,
+      version: await versionedStorage.getNextInterviewPolicyVersion(),
+      createdAt: new Date().toISOString(),
+      createdBy: req.user?.username || userId
+    });
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid interview policy',
+        message: validationResult.error.issues
+          .map(issue => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+          .join('; ')
+      });
+    }
+
+    const policy: InterviewPolicy = validationResult.data;
+    await versionedStorage.saveInterviewPolicy(policy);
+
+    await auditLogService.log({
+      sessionId: 'system',
+      timestamp: policy.createdAt,
+      eventType: 'classification', // Using classification type for system events
+      userId,
+      data: {
+        action: 'interview_policy_update',
+        previousVersion: currentPolicy.version,
+        newVersion: policy.version,
+        softLimitQuestions: policy.softLimitQuestions,
+        hardLimitQuestions: policy.hardLimitQuestions
+      },
+      piiScrubbed: false,
+      metadata: {}
+    });
+
+    res.json({
+      message: `Interview policy version ${policy.version} is now active`,
+      policy
+    });
+  } catch (error) {
+    console.error('Error updating interview policy:', error);
+    res.status(500).json({
+      error: 'Failed to update interview policy',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -1,7 +1,8 @@
 import { Router, Request, Response } from 'express';
-import { JsonStorageService } from '../services/storage.service';
+import { createStorage } from '../services/storage.service';
 import { SessionStorageService } from '../services/session-storage.service';
 import { OpenAIService } from '../services/openai.service';
+import { isAllowedLocalLLMBaseUrl } from '../services/local-llm.service';
 import { VersionedStorageService } from '../services/versioned-storage.service';
 import { LearningAnalysisService } from '../services/learning-analysis.service';
 import { LearningSuggestionService } from '../services/learning-suggestion.service';
@@ -12,7 +13,7 @@ const router = Router();
 
 // Initialize services
 const dataDir = process.env.DATA_DIR || './data';
-const jsonStorage = new JsonStorageService(dataDir);
+const jsonStorage = createStorage(dataDir);
 const sessionStorage = new SessionStorageService(jsonStorage);
 const openaiService = new OpenAIService();
 const versionedStorage = new VersionedStorageService(jsonStorage);
@@ -218,6 +219,7 @@ router.post('/analyze', async (req: Request, res: Response) => {
       provider = 'openai',
       model,
       apiKey, 
+      baseUrl,
       awsAccessKeyId,
       awsSecretAccessKey,
       awsSessionToken,
@@ -242,6 +244,20 @@ router.post('/analyze', async (req: Request, res: Response) => {
         message: 'Please provide AWS credentials to generate suggestions with Bedrock'
       });
     }
+
+    if (provider === 'local' && !baseUrl) {
+      return res.status(400).json({
+        error: 'Base URL is required',
+        message: 'Please provide the local endpoint base URL to generate suggestions'
+      });
+    }
+
+    if (provider === 'local' && !isAllowedLocalLLMBaseUrl(baseUrl)) {
+      return res.status(400).json({
+        error: 'Base URL not allowed',
+        message: 'Only local LLM endpoints allowed by the server administrator (LOCAL_LLM_ALLOWED_BASE_URLS) can be used'
+      });
+    }
     
     // Parse dates if provided
     const start = startDate ? new Date(startDate) : undefined;
@@ -260,6 +276,7 @@ router.post('/analyze', async (req: Request, res: Response) => {
       provider,
       model,
       apiKey,
+      baseUrl,
       awsAccessKeyId,
       awsSecretAccessKey,
       awsSessionToken,
@@ -428,6 +445,7 @@ router.post('/validate-matrix', async (req: Request, res: Response) => {
       provider = 'openai',
       model,
       apiKey,
+      baseUrl,
       awsAccessKeyId,
       awsSecretAccessKey,
       awsSessionToken,
@@ -450,12 +468,26 @@ router.post('/validate-matrix', async (req: Request, res: Response) => {
       });
     }
 
+    if (provider === 'local' && !baseUrl) {
+      return res.status(400).json({
+        error: 'Base URL is required',
+        message: 'Please provide the local endpoint base URL for validation testing'
+      });
+    }
+
+    if (provider === 'local' && !isAllowedLocalLLMBaseUrl(baseUrl)) {
+      return res.status(400).json({
+        error: 'Base URL not allowed',
+        message: 'Only local LLM endpoints allowed by the server administrator (LOCAL_LLM_ALLOWED_BASE_URLS) can be used'
+      });
+    }
+
     // Parse dates if provided
     const start = startDate ? new Date(startDate) : undefined;
     const end = endDate ? new Date(endDate) : undefined;
 
     // Get current matrix version
-    const currentMatrix = await versionedStorage.getLatestDecisionMatrix();
+    const currentMatrix = await versionedStorage.getActiveDecisionMatrix();
     if (!currentMatrix) {
       return res.status(404).json({
         error: 'No active decision matrix found'
@@ -467,6 +499,7 @@ router.post('/validate-matrix', async (req: Request, res: Response) => {
       provider,
       model,
       apiKey,
+      baseUrl,
       awsAccessKeyId,
       awsSecretAccessKey,
       awsSessionToken,
@@ -593,7 +626,7 @@ router.get('/validation-tests/:id', async (req: Request, res: Response) => {
  * Helper function to apply suggestion to decision matrix
  */
 async function applySuggestionToMatrix(suggestion: any): Promise<DecisionMatrix> {
-  const currentMatrix = await versionedStorage.getLatestDecisionMatrix();
+  const currentMatrix = await versionedStorage.getActiveDecisionMatrix();
   
   if (!currentMatrix) {
     throw new Error('No active decision matrix found');
@@ -639,9 +672,8 @@ async function applySuggestionToMatrix(suggestion: any): Promise<DecisionMatrix>
       break;
   }
   
-  // Determine new version number
-  const [major, minor] = currentMatrix.version.split('.').map(Number);
-  const newVersion = `${major}.${minor + 1}`;
+  // Changes apply to the active version; the number follows the newest version
+  const newVersion = await versionedStorage.getNextDecisionMatrixVersion();
   
   // Save updated matrix (creates new version)
   const newMatrix: DecisionMatrix = {
@@ -3,6 +3,11 @@ import { WebSocketServer, WebSocket } from 'ws';
 import { IncomingMessage } from 'http';
 import { NovaSonicWebSocketService } from '../services/nova-sonic-websocket.service';
 import { AuditLogService } from '../services/audit-log.service';
+import { PIIService } from '../services/pii.service';
+import { SessionStorageService } from '../services/session-storage.service';
+import { createStorage } from '../services/storage.service';
+import { runAsUser, runInWorkspace } from '../services/workspace-context';
+import { verifyAccessToken } from '../middleware/auth.middleware';
 
 /**
  * Nova 2 Sonic WebSocket Routes
@@ -14,15 +19,23 @@ import { AuditLogService } from '../services/audit-log.service';
 const router = Router();
 const dataDir = process.env.DATA_DIR || './data';
 const auditLogService = new AuditLogService(dataDir);
+const piiService = new PIIService(dataDir);
+const sessionStorage = new SessionStorageService(createStorage(dataDir));
 const novaSonicService = new NovaSonicWebSocketService();
 
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 // Store active WebSocket connections
 const activeConnections = new Map<string, {
   ws: WebSocket;
-  sessionId: string;
+  sessionId: string; // Nova 2 Sonic streaming session
+  processSessionId: string; // Session the transcript belongs to
   userId: string;
+  username: string;
+  workspaceId: string;
   config: any;
   messageQueue: Promise<void>;
+  transcript: string[];
 }>();
 
 /**
@@ -39,7 +52,6 @@ export function initializeNovaSonicWebSocket(server: any): void {
     console.log(`[Nova 2 Sonic WebSocket] New connection: ${connectionId}`);
 
     let sessionId: string | null = null;
-    let userId = 'anonymous';
     let config: any = null;
 
     ws.on('message', async (data: Buffer) => {
@@ -126,6 +138,7 @@ export function initializeNovaSonicWebSocket(server: any): void {
         const sanitizedMessage = { ...message };
         if (sanitizedMessage.awsSecretAccessKey) sanitizedMessage.awsSecretAccessKey = '***';
         if (sanitizedMessage.awsAccessKeyId) sanitizedMessage.awsAccessKeyId = sanitizedMessage.awsAccessKeyId.substring(0, 4) + '...';
+        if (sanitizedMessage.token) sanitizedMessage.token = '***';
 
         console.log('[Nova 2 Sonic] Received initialization message:', JSON.stringify(sanitizedMessage, null, 2));
 
@@ -136,16 +149,30 @@ export function initializeNovaSonicWebSocket(server: any): void {
           awsSessionToken,
           awsRegion,
           systemPrompt,
-          userId: msgUserId,
+          token,
+          sessionId: processSessionId,
           modelId,
           voiceId
         } = message;
 
+        // Not mounted behind authenticateToken, so the access token comes with the message
+        const user = await verifyAccessToken(token);
+        if (!user) {
+          throw new Error('Authentication required');
+        }
+
+        // The transcript's PII is recorded against this session
+        if (typeof processSessionId !== 'string' || !uuidRegex.test(processSessionId)) {
+          throw new Error('Session ID must be a valid UUID');
+        }
+        if (!(await runInWorkspace(user.workspaceId, () => sessionStorage.sessionExists(processSessionId)))) {
+          throw new Error('Session not found');
+        }
+
         if (!awsAccessKeyId || !awsSecretAccessKey) {
           throw new Error('AWS credentials are required');
         }
 
-        userId = msgUserId || 'anonymous';
         config = {
           provider: 'bedrock',
           awsAccessKeyId,
@@ -164,9 +191,13 @@ export function initializeNovaSonicWebSocket(server: any): void {
         activeConnections.set(connectionId, {
           ws,
           sessionId,
-          userId,
+          processSessionId,
+          userId: user.userId,
+          username: user.username,
+          workspaceId: user.workspaceId,
           config,
-          messageQueue: Promise.resolve()
+          messageQueue: Promise.resolve(),
+          transcript: []
         });
 
         // Send success response
@@ -178,13 +209,14 @@ export function initializeNovaSonicWebSocket(server: any): void {
         }));
 
         // Log initialization
-        await auditLogService.log({
-          sessionId,
+        await runInWorkspace(user.workspaceId, () => auditLogService.log({
+          sessionId: processSessionId,
           timestamp: new Date().toISOString(),
           eventType: 'input',
-          userId,
+          userId: user.userId,
           data: {
             type: 'nova_sonic_session_start',
+            novaSessionId: sessionId,
             connectionId,
             mode: 'simplified'
           },
@@ -193,7 +225,7 @@ export function initializeNovaSonicWebSocket(server: any): void {
             llmProvider: 'bedrock',
             modelVersion: modelId || 'nova-2-sonic-v1:0'
           }
-        });
+        }));
 
       } catch (error) {
         console.error('[Nova 2 Sonic WebSocket] Initialization error:', error);
@@ -232,6 +264,7 @@ export function initializeNovaSonicWebSocket(server: any): void {
           {
             // onTranscription
             onTranscription: (text: string) => {
+              connection.transcript.push(text);
               ws.send(JSON.stringify({
                 type: 'transcription',
                 text,
@@ -341,18 +374,50 @@ export function initializeNovaSonicWebSocket(server: any): void {
     async function cleanup(connectionId: string) {
       const connection = activeConnections.get(connectionId);
       if (connection) {
+        activeConnections.delete(connectionId);
         if (connection.sessionId) {
           try {
             await novaSonicService.closeSession(connection.sessionId);
           } catch (error) {
             console.error('[Nova 2 Sonic WebSocket] Error closing session:', error);
           }
+          const { processSessionId, userId, username, workspaceId, transcript } = connection;
+          await runAsUser({ userId, username }, () => runInWorkspace(workspaceId, () =>
+            logTranscript(processSessionId, userId, transcript)
+          ));
         }
-        activeConnections.delete(connectionId);
       }
     }
   });
 
+  // Log the conversation transcript once it ends, with PII scrubbed like typed input
+  async function logTranscript(sessionId: string, userId: string, transcript: string[]) {
+    if (transcript.length === 0) {
+      return;
+    }
+
+    try {
+      const scrubbed = await piiService.scrubAndStore(transcript.join(' '), sessionId, userId, 'voice_transcript');
+      await auditLogService.log({
+        sessionId,
+        timestamp: new Date().toISOString(),
+        eventType: 'input',
+        userId,
+        data: {
+          type: 'nova_sonic_transcript',
+          transcription: scrubbed.scrubbedText,
+          segments: transcript.length
+        },
+        piiScrubbed: scrubbed.hasPII,
+        metadata: {
+          llmProvider: 'bedrock'
+        }
+      });
+    } catch (error) {
+      console.error('[Nova 2 Sonic WebSocket] Error logging transcript:', error);
+    }
+  }
+
   // Cleanup on server shutdown
   process.on('SIGTERM', async () => {
     console.log('[Nova 2 Sonic WebSocket] Shutting down...');
@@ -0,0 +1,425 @@
+import { Router, Response } from 'express';
+import { PIIService } from '../services/pii.service';
+import { PIIRevealService, PIIRevealUser } from '../services/pii-reveal.service';
+import { AuditLogService } from '../services/audit-log.service';
+import { requirePermission, AuthRequest } from '../middleware/auth.middleware';
+import { PIIDetectorSettingsSchema, PIIRevealRequestInputSchema, PIIRevealSettingsSchema } from '../types';
+import { z } from 'zod';
+
+const router = Router();
+
+// Initialize services
+const dataDir = process.env.DATA_DIR || './data';
+const piiService = new PIIService(dataDir);
+const piiRevealService = new PIIRevealService(dataDir, piiService);
+const auditLogService = new AuditLogService(dataDir);
+
+const MAX_PREVIEW_LENGTH = 10000;
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+    .join('; ');
+}
+
+function revealUser(req: AuthRequest): PIIRevealUser {
+  return {
+    userId: req.user?.userId || 'admin',
+    username: req.user?.username || req.user?.userId || 'admin'
+  };
+}
+
+// Reveal requests fail with messages naming the broken rule
+function revealErrorStatus(message: string): number {
+  if (message.includes('Unknown tokens')) return 400;
+  if (message.includes('not found') || message.includes('No PII found')) return 404;
+  if (message.includes('requester')) return 403;
+  if (message.includes('already been') || message.includes('not approved') || message.includes('expired')) return 409;
+  return 500;
+}
+
+/**
+ * GET /api/pii/detectors
+ * Get the PII detector settings of the workspace
+ */
+router.get('/detectors', requirePermission('pii:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const settings = await piiService.getDetectorSettings();
+    res.json(settings);
+  } catch (error) {
+    console.error('Error fetching PII detector settings:', error);
+    res.status(500).json({
+      error: 'Failed to fetch PII detector settings',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * PUT /api/pii/detectors
+ * Update the PII detector settings: disabled built-in detectors, custom regex
+ * detectors and additional first names. Applies to text scrubbed from then on.
+ */
+router.put('/detectors', requirePermission('pii:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const validationResult = PIIDetectorSettingsSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid PII detector settings',
+        message: formatIssues(validationResult.error)
+      });
+    }
+
+    const userId = req.user?.userId || 'admin';
+    const previous = await piiService.getDetectorSettings();
+    const settings = await piiService.updateDetectorSettings(validationResult.data, req.user?.username || userId);
+
+    await auditLogService.log({
+      sessionId: 'system',
+      timestamp: settings.updatedAt!,
+      eventType: 'classification', // Using classification type for system events
+      userId,
+      data: {
+        action: 'pii_detectors_update',
+        disabledDetectors: settings.disabledDetectors,
+        customDetectors: settings.customDetectors.map(detector => ({
+          id: detector.id,
+          pattern: detector.pattern,
+          checksum: detector.checksum,
+          enabled: detector.enabled
+        })),
+        previousCustomDetectors: previous.customDetectors.map(detector => detector.id),
+        personNames: settings.personNames.length
+      },
+      piiScrubbed: false,
+      metadata: {}
+    });
+
+    res.json({
+      message: 'PII detector settings updated',
+      settings
+    });
+  } catch (error) {
+    console.error('Error updating PII detector settings:', error);
+    res.status(500).json({
+      error: 'Failed to update PII detector settings',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * POST /api/pii/detectors/test
+ * Scrub sample text with the saved settings, or with unsaved `settings` from the request
+ * Nothing is stored
+ */
+router.post('/detectors/test', requirePermission('pii:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { text, settings } = req.body;
+
+    if (typeof text !== 'string' || text.length === 0 || text.length > MAX_PREVIEW_LENGTH) {
+      return res.status(400).json({
+        error: 'Invalid text',
+        message: `text must be between 1 and ${MAX_PREVIEW_LENGTH} characters`
+      });
+    }
+
+    let previewSettings;
+    if (settings !== undefined) {
+      const validationResult = PIIDetectorSettingsSchema.safeParse(settings);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: 'Invalid PII detector settings',
+          message: formatIssues(validationResult.error)
+        });
+      }
+      previewSettings = validationResult.data;
+    }
+
+    const result = await piiService.preview(text, previewSettings);
+    res.json(result);
+  } catch (error) {
+    console.error('Error testing PII detectors:', error);
+    res.status(500).json({
+      error: 'Failed to test PII detectors',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/pii/reveal-settings
+ * Get whether reveal requests need a second approver, and how long they last
+ */
+router.get('/reveal-settings', requirePermission('pii:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const settings = await piiRevealService.getSettings();
+    res.json(settings);
+  } catch (error) {
+    console.error('Error fetching PII reveal settings:', error);
+    res.status(500).json({
+      error: 'Failed to fetch PII reveal settings',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * PUT /api/pii/reveal-settings
+ * Update the reveal settings of the workspace
+ */
+router.put('/reveal-settings', requirePermission('pii:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const validationResult = PIIRevealSettingsSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid PII reveal settings',
+        message: formatIssues(validationResult.error)
+      });
+    }
+
+    const user = revealUser(req);
+    const settings = await piiRevealService.updateSettings(validationResult.data, user.username);
+
+    await auditLogService.log({
+      sessionId: 'system',
+      timestamp: settings.updatedAt!,
+      eventType: 'classification', // Using classification type for system events
+      userId: user.userId,
+      data: {
+        action: 'pii_reveal_settings_update',
+        requireApproval: settings.requireApproval,
+        revealMinutes: settings.revealMinutes
+      },
+      piiScrubbed: false,
+      metadata: {}
+    });
+
+    res.json({
+      message: 'PII reveal settings updated',
+      settings
+    });
+  } catch (error) {
+    console.error('Error updating PII reveal settings:', error);
+    res.status(500).json({
+      error: 'Failed to update PII reveal settings',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/pii/sessions/:sessionId/reveal-requests
+ * List reveal requests of a session, with the workspace reveal settings
+ */
+router.get('/sessions/:sessionId/reveal-requests', requirePermission('pii:reveal'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+    if (!uuidRegex.test(sessionId)) {
+      return res.status(400).json({
+        error: 'Invalid session ID',
+        message: 'Session ID must be a valid UUID'
+      });
+    }
+
+    const [requests, settings] = await Promise.all([
+      piiRevealService.listRequests(sessionId),
+      piiRevealService.getSettings()
+    ]);
+    res.json({ requests, settings });
+  } catch (error) {
+    console.error('Error listing PII reveal requests:', error);
+    res.status(500).json({
+      error: 'Failed to list PII reveal requests',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * POST /api/pii/sessions/:sessionId/reveal-requests
+ * Ask to reveal PII of a session with a written justification. Approved straight
+ * away unless the workspace requires a second approver.
+ */
+router.post('/sessions/:sessionId/reveal-requests', requirePermission('pii:reveal'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+    if (!uuidRegex.test(sessionId)) {
+      return res.status(400).json({
+        error: 'Invalid session ID',
+        message: 'Session ID must be a valid UUID'
+      });
+    }
+
+    const validationResult = PIIRevealRequestInputSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid reveal request',
+        message: formatIssues(validationResult.error)
+      });
+    }
+
+    const user = revealUser(req);
+    const request = await piiRevealService.createRequest(sessionId, validationResult.data, user);
+
+    await auditLogService.log({
+      sessionId,
+      timestamp: request.requestedAt,
+      eventType: 'classification', // Using classification type for system events
+      userId: user.userId,
+      data: {
+        action: 'pii_reveal_requested',
+        requestId: request.requestId,
+        tokens: request.tokens,
+        justification: request.justification,
+        status: request.status
+      },
+      piiScrubbed: false,
+      metadata: {}
+    });
+
+    res.status(201).json(request);
+  } catch (error) {
+    console.error('Error creating PII reveal request:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    res.status(revealErrorStatus(message)).json({
+      error: 'Failed to create PII reveal request',
+      message
+    });
+  }
+});
+
+/**
+ * POST /api/pii/reveal-requests/:requestId/approve
+ * POST /api/pii/reveal-requests/:requestId/reject
+ * Review a pending reveal request; the requester cannot review their own
+ */
+router.post('/reveal-requests/:requestId/:decision(approve|reject)', requirePermission('pii:reveal'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { requestId, decision } = req.params;
+    if (!uuidRegex.test(requestId)) {
+      return res.status(400).json({
+        error: 'Invalid request ID',
+        message: 'Request ID must be a valid UUID'
+      });
+    }
+
+    const { reviewNotes } = req.body;
+    if (reviewNotes !== undefined && (typeof reviewNotes !== 'string' || reviewNotes.length > 2000)) {
+      return res.status(400).json({
+        error: 'Invalid review notes',
+        message: 'reviewNotes must be a string of at most 2000 characters'
+      });
+    }
+
+    const user = revealUser(req);
+    const request = await piiRevealService.reviewRequest(requestId, decision === 'approve', user, reviewNotes);
+
+    await auditLogService.log({
+      sessionId: request.sessionId,
+      timestamp: request.reviewedAt!,
+      eventType: 'classification', // Using classification type for system events
+      userId: user.userId,
+      data: {
+        action: decision === 'approve' ? 'pii_reveal_approved' : 'pii_reveal_rejected',
+        requestId,
+        requestedBy: request.requestedBy,
+        reviewNotes
+      },
+      piiScrubbed: false,
+      metadata: {}
+    });
+
+    res.json(request);
+  } catch (error) {
+    console.error('Error reviewing PII reveal request:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    res.status(revealErrorStatus(message)).json({
+      error: 'Failed to review PII reveal request',
+      message
+    });
+  }
+});
+
+/**
+ * POST /api/pii/reveal-requests/:requestId/reveal
+ * Get the original values of an approved request until it expires; requester only
+ */
+router.post('/reveal-requests/:requestId/reveal', requirePermission('pii:reveal'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { requestId } = req.params;
+    if (!uuidRegex.test(requestId)) {
+      return res.status(400).json({
+        error: 'Invalid request ID',
+        message: 'Request ID must be a valid UUID'
+      });
+    }
+
+    const user = revealUser(req);
+    const { request, values } = await piiRevealService.reveal(requestId, user);
+
+    await auditLogService.log({
+      sessionId: request.sessionId,
+      timestamp: new Date().toISOString(),
+      eventType: 'classification', // Using classification type for system events
+      userId: user.userId,
+      data: {
+        action: 'pii_revealed',
+        requestId,
+        tokens: Object.keys(values)
+      },
+      piiScrubbed: false,
+      metadata: {}
+    });
+
+    res.set('Cache-Control', 'no-store');
+    res.json({
+      requestId,
+      expiresAt: request.expiresAt,
+      values
+    });
+  } catch (error) {
+    console.error('Error revealing PII:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    res.status(revealErrorStatus(message)).json({
+      error: 'Failed to reveal PII',
+      message
+    });
+  }
+});
+
+/**
+ * GET /api/pii/sessions/:sessionId/access-log?format=json|csv
+ * Access log of a session's PII: creation, reveal requests, reviews and reveals
+ */
+router.get('/sessions/:sessionId/access-log', requirePermission('audit:read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+    if (!uuidRegex.test(sessionId)) {
+      return res.status(400).json({
+        error: 'Invalid session ID',
+        message: 'Session ID must be a valid UUID'
+      });
+    }
+
+    if (req.query.format === 'csv') {
+      const csv = await piiRevealService.exportAccessLogCsv(sessionId);
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="pii-access-log-${sessionId}.csv"`);
+      return res.send(csv);
+    }
+
+    const accessLog = await piiService.getAccessLog(sessionId);
+    res.json({ sessionId, accessLog });
+  } catch (error) {
+    console.error('Error fetching PII access log:', error);
+    res.status(500).json({
+      error: 'Failed to fetch PII access log',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,190 @@
+import { Router, Response } from 'express';
+import { RetentionService } from '../services/retention.service';
+import { ErasureService } from '../services/erasure.service';
+import { PIIService } from '../services/pii.service';
+import { AuditLogService } from '../services/audit-log.service';
+import { requirePermission, AuthRequest } from '../middleware/auth.middleware';
+import { RequestUser } from '../services/workspace-context';
+import { ErasureRequestSchema, RetentionPolicySchema } from '../types';
+import { z } from 'zod';
+
+const router = Router();
+
+// Initialize services
+const dataDir = process.env.DATA_DIR || './data';
+const piiService = new PIIService(dataDir);
+const retentionService = new RetentionService(dataDir, piiService);
+const erasureService = new ErasureService(dataDir, piiService);
+const auditLogService = new AuditLogService(dataDir);
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+    .join('; ');
+}
+
+function requestUser(req: AuthRequest): RequestUser {
+  return {
+    userId: req.user?.userId || 'admin',
+    username: req.user?.username || req.user?.userId || 'admin'
+  };
+}
+
+/**
+ * GET /api/privacy/retention
+ * Get the retention policy of the workspace and its last purge
+ */
+router.get('/retention', requirePermission('privacy:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const [policy, lastRun] = await Promise.all([
+      retentionService.getPolicy(),
+      retentionService.getLastRun()
+    ]);
+    res.json({ policy, lastRun });
+  } catch (error) {
+    console.error('Error fetching retention policy:', error);
+    res.status(500).json({
+      error: 'Failed to fetch retention policy',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * PUT /api/privacy/retention
+ * Update the retention policy of the workspace; data is deleted at the next purge
+ */
+router.put('/retention', requirePermission('privacy:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const validationResult = RetentionPolicySchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid retention policy',
+        message: formatIssues(validationResult.error)
+      });
+    }
+
+    const user = requestUser(req);
+    const policy = await retentionService.updatePolicy(validationResult.data, user.username);
+
+    await auditLogService.log({
+      sessionId: 'system',
+      timestamp: policy.updatedAt!,
+      eventType: 'classification', // Using classification type for system events
+      userId: user.userId,
+      data: {
+        action: 'retention_policy_update',
+        retentionDays: policy.retentionDays
+      },
+      piiScrubbed: false,
+      metadata: {}
+    });
+
+    res.json({
+      message: 'Retention policy updated',
+      policy
+    });
+  } catch (error) {
+    console.error('Error updating retention policy:', error);
+    res.status(500).json({
+      error: 'Failed to update retention policy',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * POST /api/privacy/retention/purge
+ * Purge the workspace now instead of waiting for the scheduled run
+ */
+router.post('/retention/purge', requirePermission('privacy:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await retentionService.purge(requestUser(req).userId);
+    res.json(result);
+  } catch (error) {
+    console.error('Error purging data:', error);
+    res.status(500).json({
+      error: 'Failed to purge data',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * POST /api/privacy/erasure
+ * Erase a user, a PII value or both from all workspaces (right to erasure).
+ * Returns the erasure certificate.
+ */
+router.post('/erasure', requirePermission('privacy:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const validationResult = ErasureRequestSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid erasure request',
+        message: formatIssues(validationResult.error)
+      });
+    }
+
+    const certificate = await erasureService.erase(validationResult.data, requestUser(req));
+    res.status(201).json(certificate);
+  } catch (error) {
+    console.error('Error erasing data subject:', error);
+    res.status(500).json({
+      error: 'Failed to erase data subject',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/privacy/erasure-certificates
+ * List erasure certificates, newest first
+ */
+router.get('/erasure-certificates', requirePermission('privacy:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const certificates = await erasureService.listCertificates();
+    res.json({ certificates });
+  } catch (error) {
+    console.error('Error listing erasure certificates:', error);
+    res.status(500).json({
+      error: 'Failed to list erasure certificates',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/privacy/erasure-certificates/:certificateId
+ * Get an erasure certificate
+ */
+router.get('/erasure-certificates/:certificateId', requirePermission('privacy:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { certificateId } = req.params;
+    if (!uuidRegex.test(certificateId)) {
+      return res.status(400).json({
+        error: 'Invalid certificate ID',
+        message: 'Certificate ID must be a valid UUID'
+      });
+    }
+
+    const certificate = await erasureService.getCertificate(certificateId);
+    if (!certificate) {
+      return res.status(404).json({
+        error: 'Certificate not found',
+        message: `Erasure certificate ${certificateId} not found`
+      });
+    }
+
+    res.json(certificate);
+  } catch (error) {
+    console.error('Error fetching erasure certificate:', error);
+    res.status(500).json({
+      error: 'Failed to fetch erasure certificate',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
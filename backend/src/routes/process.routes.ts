@@ -6,18 +6,24 @@ import { ClarificationService } from '../services/clarification.service';
 import { DecisionMatrixEvaluatorService } from '../services/decision-matrix-evaluator.service';
 import { AuditLogService } from '../services/audit-log.service';
 import { PIIService } from '../services/pii.service';
-import { JsonStorageService } from '../services/storage.service';
+import { createStorage } from '../services/storage.service';
 import { VersionedStorageService } from '../services/versioned-storage.service';
 import { SubjectExtractionService } from '../services/subject-extraction.service';
-import { Session, Conversation, Classification } from '../types';
+import { isAllowedLocalLLMBaseUrl } from '../services/local-llm.service';
+import { isMockLLMEnabled } from '../services/mock-llm.service';
+import { LLMQuotaService, isQuotaExceededError } from '../services/llm-quota.service';
+import { getCurrentUser } from '../services/workspace-context';
+import { Session, Conversation, Classification, InterviewPolicy, ProcessStreamEvent, ProcessStreamStage } from '../types';
+import { ChatCompletionResponse } from '../services/llm-provider.interface';
 import { analyticsService } from './analytics.routes';
 import { AuthRequest } from '../middleware/auth.middleware';
+import { hasPermission } from '../services/permissions';
 
 const router = Router();
 
 // Initialize services
 const dataDir = process.env.DATA_DIR || './data';
-const jsonStorage = new JsonStorageService(dataDir);
+const jsonStorage = createStorage(dataDir);
 const sessionStorage = new SessionStorageService(jsonStorage);
 const versionedStorage = new VersionedStorageService(jsonStorage);
 const classificationService = new ClassificationService(versionedStorage);
@@ -26,13 +32,143 @@ const evaluatorService = new DecisionMatrixEvaluatorService();
 const auditLogService = new AuditLogService(dataDir);
 const piiService = new PIIService(dataDir);
 const subjectExtractionService = new SubjectExtractionService();
+const llmQuotaService = new LLMQuotaService(dataDir);
+
+/**
+ * Reject up front when the user is over a hard LLM quota, before a session
+ * is created or changed for work that can't be completed
+ */
+async function checkLLMQuota(): Promise<void> {
+  const user = getCurrentUser();
+  if (user) {
+    await llmQuotaService.checkQuota(user.userId);
+  }
+}
+
+/**
+ * Provider and model that produced a classification. They differ from the
+ * requested ones when LLMService had to fall back to another provider.
+ */
+function getAnsweringLLM(
+  answeredBy: ChatCompletionResponse['answeredBy'],
+  llmProvider: string,
+  model: string
+): { llmProvider: string; model: string; fallbackFrom?: string } {
+  if (!answeredBy?.fallback) {
+    return { llmProvider, model };
+  }
+  return { llmProvider: answeredBy.provider, model: answeredBy.model, fallbackFrom: `${llmProvider}/${model}` };
+}
+
+/**
+ * Interview policy a session's interview runs under. Sessions from before
+ * interview policies were versioned get the active policy recorded.
+ */
+async function getSessionInterviewPolicy(session: Session): Promise<InterviewPolicy> {
+  const policy = await clarificationService.getInterviewPolicy(session.interviewPolicyVersion);
+  session.interviewPolicyVersion = policy.version;
+  return policy;
+}
+
+/**
+ * Question limits shown to the user while clarification questions are asked
+ */
+function getInterviewLimits(policy: InterviewPolicy): { softLimitQuestions: number; hardLimitQuestions: number } {
+  return { softLimitQuestions: policy.softLimitQuestions, hardLimitQuestions: policy.hardLimitQuestions };
+}
+
+/**
+ * Where a process route sends its response: the HTTP response itself, or
+ * the final event of a Server-Sent Events stream
+ */
+interface ProcessReply {
+  status(code: number): ProcessReply;
+  json(body: any): void;
+}
+
+/**
+ * Progress of a streamed classification
+ */
+interface ProcessStream {
+  stage(stage: ProcessStreamStage): void;
+  rationale(text: string): void;
+}
+
+/**
+ * Turn the response into a Server-Sent Events stream. The route's final
+ * response body is sent as a `result` event, or as an `error` event for
+ * error statuses, and ends the stream. Users who don't see classification
+ * results (blind evaluation) only get stage events.
+ */
+function openEventStream(req: Request, res: Response): { reply: ProcessReply; stream: ProcessStream } {
+  const showsRationale = hasPermission((req as AuthRequest).user?.role || 'user', 'sessions:review');
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no' // Stop nginx from buffering the events
+  });
+  res.flushHeaders();
+
+  // Comments keep proxies from closing the connection during long LLM calls
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+  res.on('close', () => clearInterval(heartbeat));
+
+  const send = ({ event, data }: ProcessStreamEvent) => {
+    if (!res.writableEnded) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+
+  let status = 200;
+  let rationale = '';
+  const reply: ProcessReply = {
+    status(code: number) {
+      status = code;
+      return reply;
+    },
+    json(body: any) {
+      send(status >= 400 ? { event: 'error', data: { status, ...body } } : { event: 'result', data: body });
+      clearInterval(heartbeat);
+      res.end();
+    }
+  };
+
+  const stream: ProcessStream = {
+    stage(stage: ProcessStreamStage) {
+      send({ event: 'stage', data: { stage } });
+    },
+    rationale(text: string) {
+      if (!showsRationale || text === rationale) {
+        return;
+      }
+      // A retried LLM call starts the rationale again
+      send({ event: 'rationale', data: text.startsWith(rationale) ? { delta: text.slice(rationale.length) } : { text } });
+      rationale = text;
+    }
+  };
+
+  return { reply, stream };
+}
 
 /**
  * POST /api/process/submit
  * Submit a process description for classification
  * Requirements: 1.1, 1.3, 2.1, 3.1, 5.1, 21.2
  */
-router.post('/submit', async (req: Request, res: Response) => {
+router.post('/submit', (req: Request, res: Response) => submitProcess(req, res));
+
+/**
+ * POST /api/process/submit/stream
+ * Same as /submit, sent as Server-Sent Events (see /classify/stream)
+ */
+router.post('/submit/stream', (req: Request, res: Response) => {
+  const { reply, stream } = openEventStream(req, res);
+  return submitProcess(req, reply, stream);
+});
+
+async function submitProcess(req: Request, res: ProcessReply, stream?: ProcessStream): Promise<void> {
   const startTime = Date.now();
 
   try {
@@ -41,6 +177,7 @@ router.post('/submit', async (req: Request, res: Response) => {
       sessionId,
       subject: manualSubject, // User-provided subject (optional)
       apiKey,
+      baseUrl,
       awsAccessKeyId,
       awsSecretAccessKey,
       awsSessionToken,
@@ -68,6 +205,27 @@ router.post('/submit', async (req: Request, res: Response) => {
           message: 'AWS Access Key ID and Secret Access Key are required for Bedrock'
         });
       }
+    } else if (provider === 'local') {
+      if (!baseUrl) {
+        return res.status(400).json({
+          error: 'Missing base URL',
+          message: 'Base URL is required for the local (OpenAI-compatible) provider'
+        });
+      }
+
+      if (!isAllowedLocalLLMBaseUrl(baseUrl)) {
+        return res.status(400).json({
+          error: 'Base URL not allowed',
+          message: 'Only local LLM endpoints allowed by the server administrator (LOCAL_LLM_ALLOWED_BASE_URLS) can be used'
+        });
+      }
+    } else if (provider === 'mock') {
+      if (!isMockLLMEnabled()) {
+        return res.status(400).json({
+          error: 'Mock provider disabled',
+          message: 'The mock LLM provider is only available in tests or when MOCK_LLM_ENABLED=true'
+        });
+      }
     } else if (!apiKey) {
       return res.status(400).json({
         error: 'Missing API key',
@@ -75,8 +233,7 @@ router.post('/submit', async (req: Request, res: Response) => {
       });
     }
 
-    // Scrub PII from input
-    const scrubbedInput = await piiService.scrubAndStore(description, sessionId || 'temp', userId);
+    await checkLLMQuota();
 
     // Create or load session
     let session: Session;
@@ -101,10 +258,14 @@ router.post('/submit', async (req: Request, res: Response) => {
         updatedAt: new Date().toISOString(),
         status: 'active',
         modelUsed: model,
+        userId: getCurrentUser()?.userId || userId,
         conversations: []
       };
     }
 
+    // Scrub PII from input
+    const scrubbedInput = await piiService.scrubAndStore(description, session.sessionId, userId, 'description');
+
     // Determine LLM provider
     const llmProvider = provider || (model.startsWith('anthropic.claude') ? 'bedrock' : 'openai');
 
@@ -120,6 +281,7 @@ router.post('/submit', async (req: Request, res: Response) => {
             provider: llmProvider,
             model,
             apiKey,
+            baseUrl,
             awsAccessKeyId,
             awsSecretAccessKey,
             awsSessionToken,
@@ -164,6 +326,10 @@ router.post('/submit', async (req: Request, res: Response) => {
       }
     );
 
+    // A new process description starts a new interview under the active policy
+    const interviewPolicy = await clarificationService.getActiveInterviewPolicy();
+    session.interviewPolicyVersion = interviewPolicy.version;
+
     // Save session
     await sessionStorage.saveSession(session);
 
@@ -172,38 +338,45 @@ router.post('/submit', async (req: Request, res: Response) => {
 
     // Perform classification (with LLM data for audit)
     const classificationStartTime = Date.now();
+    stream?.stage('classifying');
     const classificationResult = await classificationService.classifyWithRoutingAndLLMData({
       processDescription: scrubbedInput.scrubbedText,
       conversationHistory: [],
       model,
       provider: llmProvider,
       apiKey,
+      baseUrl,
       awsAccessKeyId,
       awsSecretAccessKey,
       awsSessionToken,
       awsRegion,
       useRegionalInference,
       regionalInferenceEndpoint
-    });
+    }, stream?.rationale);
+    const answeringLLM = getAnsweringLLM(classificationResult.answeredBy, llmProvider, model);
+    let classificationHadPII = await piiService.scrubClassificationOutput(classificationResult, session.sessionId, userId);
 
     const classificationLatency = Date.now() - classificationStartTime;
 
     // Check if clarification is needed
     if (classificationResult.action === 'clarify') {
       // Generate clarification questions
+      stream?.stage('clarifying');
       const clarificationResponse = await clarificationService.generateQuestions({
         processDescription: scrubbedInput.scrubbedText,
         classification: classificationResult.result,
         conversationHistory: [],
         provider: llmProvider,
         apiKey,
+        baseUrl,
         awsAccessKeyId,
         awsSecretAccessKey,
         awsSessionToken,
         awsRegion,
         useRegionalInference,
         regionalInferenceEndpoint,
-        model
+        model,
+        interviewPolicy
       });
 
       const questionTexts = clarificationResponse.questions.map(q => q.question);
@@ -211,9 +384,7 @@ router.post('/submit', async (req: Request, res: Response) => {
       // If no questions were generated, proceed to classification instead
       if (questionTexts.length > 0) {
         // Scrub PII from questions
-        const scrubbedQuestions = await Promise.all(
-          questionTexts.map(q => piiService.scrubOnly(q))
-        );
+        const scrubbedQuestions = await piiService.scrubAllAndStore(questionTexts, session.sessionId, userId, 'model_response');
 
         // Log clarification
         await auditLogService.logClarification(
@@ -238,6 +409,7 @@ router.post('/submit', async (req: Request, res: Response) => {
           sessionId: session.sessionId,
           clarificationQuestions: scrubbedQuestions.map(sq => sq.scrubbedText),
           totalQuestions: questionTexts.length,
+          interviewLimits: getInterviewLimits(interviewPolicy),
           responseTime: Date.now() - startTime
         });
       } else {
@@ -268,6 +440,7 @@ router.post('/submit', async (req: Request, res: Response) => {
     let decisionMatrix = null;
 
     try {
+      stream?.stage('evaluating');
       extractedAttributes = await classificationService.extractAttributes(
         scrubbedInput.scrubbedText,
         [],
@@ -277,6 +450,7 @@ router.post('/submit', async (req: Request, res: Response) => {
           model,
           provider: llmProvider,
           apiKey,
+          baseUrl,
           awsAccessKeyId,
           awsSecretAccessKey,
           awsSessionToken,
@@ -285,6 +459,9 @@ router.post('/submit', async (req: Request, res: Response) => {
           regionalInferenceEndpoint
         }
       );
+      if (await piiService.scrubExtractedAttributes(extractedAttributes, session.sessionId, userId)) {
+        classificationHadPII = true;
+      }
 
       // Convert extracted attributes to simple key-value format
       const attributeValues: { [key: string]: any } = {};
@@ -293,7 +470,7 @@ router.post('/submit', async (req: Request, res: Response) => {
       }
 
       // Get decision matrix and evaluate
-      decisionMatrix = await versionedStorage.getLatestDecisionMatrix();
+      decisionMatrix = await versionedStorage.getActiveDecisionMatrix();
 
       if (decisionMatrix) {
         decisionMatrixEvaluation = evaluatorService.evaluateMatrix(
@@ -301,8 +478,9 @@ router.post('/submit', async (req: Request, res: Response) => {
           {
             ...classificationResult.result,
             timestamp: new Date().toISOString(),
-            modelUsed: model,
-            llmProvider
+            modelUsed: answeringLLM.model,
+            llmProvider: answeringLLM.llmProvider,
+            fallbackFrom: answeringLLM.fallbackFrom
           },
           attributeValues
         );
@@ -322,8 +500,9 @@ router.post('/submit', async (req: Request, res: Response) => {
       categoryProgression: finalClassification.categoryProgression,
       futureOpportunities: finalClassification.futureOpportunities,
       timestamp: new Date().toISOString(),
-      modelUsed: model,
-      llmProvider,
+      modelUsed: answeringLLM.model,
+      llmProvider: answeringLLM.llmProvider,
+      fallbackFrom: answeringLLM.fallbackFrom,
       decisionMatrixEvaluation: decisionMatrixEvaluation || undefined
     };
 
@@ -331,10 +510,11 @@ router.post('/submit', async (req: Request, res: Response) => {
 
     // Determine session status based on user role
     // Regular users (profile type) get pending_admin_review status (blind evaluation)
-    // Admins get completed status (they can see results immediately)
+    // Reviewers and admins get completed status (they can see results immediately)
     const authReq = req as AuthRequest;
     const userRole = authReq.user?.role || 'user';
-    session.status = userRole === 'admin' ? 'completed' : 'pending_admin_review';
+    const showsResult = hasPermission(userRole, 'sessions:review');
+    session.status = showsResult ? 'completed' : 'pending_admin_review';
 
     session.updatedAt = new Date().toISOString();
     await sessionStorage.saveSession(session);
@@ -349,10 +529,11 @@ router.post('/submit', async (req: Request, res: Response) => {
       decisionMatrixEvaluation,
       classificationResult.llmPrompt,
       classificationResult.llmResponse,
-      false,
+      classificationHadPII,
       {
-        modelVersion: model,
-        llmProvider,
+        modelVersion: answeringLLM.model,
+        llmProvider: answeringLLM.llmProvider,
+        fallbackFrom: answeringLLM.fallbackFrom,
         latencyMs: Date.now() - startTime,
         decisionMatrixVersion: decisionMatrix?.version,
         action: 'auto_classify',
@@ -361,8 +542,8 @@ router.post('/submit', async (req: Request, res: Response) => {
     );
 
     // For regular users, don't return the classification (blind evaluation)
-    // For admins, return the full classification
-    if (userRole === 'admin') {
+    // For reviewers and admins, return the full classification
+    if (showsResult) {
       res.json({
         sessionId: session.sessionId,
         classification: classificationToStore,
@@ -380,26 +561,46 @@ router.post('/submit', async (req: Request, res: Response) => {
       });
     }
   } catch (error) {
+    if (isQuotaExceededError(error)) {
+      return res.status(429).json({
+        error: 'LLM quota exceeded',
+        message: (error as Error).message
+      });
+    }
     console.error('Error submitting process:', error);
     res.status(500).json({
       error: 'Failed to submit process',
       message: error instanceof Error ? error.message : 'Unknown error'
     });
   }
-});
+}
 
 /**
  * POST /api/process/classify
  * Classify a process with full workflow orchestration
  * Requirements: 2.1, 2.2, 3.1, 3.4, 5.2, 20.1, 21.2, 21.3, 21.4
  */
-router.post('/classify', async (req: Request, res: Response) => {
+router.post('/classify', (req: Request, res: Response) => classifyProcess(req, res));
+
+/**
+ * POST /api/process/classify/stream
+ * Same as /classify, sent as Server-Sent Events: `stage` and `rationale`
+ * events while the LLM works, then `result` with the /classify response
+ * body or `error` with its status and error body
+ */
+router.post('/classify/stream', (req: Request, res: Response) => {
+  const { reply, stream } = openEventStream(req, res);
+  return classifyProcess(req, reply, stream);
+});
+
+async function classifyProcess(req: Request, res: ProcessReply, stream?: ProcessStream): Promise<void> {
   const startTime = Date.now();
 
   try {
     const {
       sessionId,
       apiKey,
+      baseUrl,
       awsAccessKeyId,
       awsSecretAccessKey,
       awsSessionToken,
@@ -428,6 +629,27 @@ router.post('/classify', async (req: Request, res: Response) => {
           message: 'AWS Access Key ID and Secret Access Key are required for Bedrock'
         });
       }
+    } else if (llmProvider === 'local') {
+      if (!baseUrl) {
+        return res.status(400).json({
+          error: 'Missing base URL',
+          message: 'Base URL is required for the local (OpenAI-compatible) provider'
+        });
+      }
+
+      if (!isAllowedLocalLLMBaseUrl(baseUrl)) {
+        return res.status(400).json({
+          error: 'Base URL not allowed',
+          message: 'Only local LLM endpoints allowed by the server administrator (LOCAL_LLM_ALLOWED_BASE_URLS) can be used'
+        });
+      }
+    } else if (llmProvider === 'mock') {
+      if (!isMockLLMEnabled()) {
+        return res.status(400).json({
+          error: 'Mock provider disabled',
+          message: 'The mock LLM provider is only available in tests or when MOCK_LLM_ENABLED=true'
+        });
+      }
     } else if (!apiKey) {
       return res.status(400).json({
         error: 'Missing API key',
@@ -435,6 +657,8 @@ router.post('/classify', async (req: Request, res: Response) => {
       });
     }
 
+    await checkLLMQuota();
+
     // Load session
     const session = await sessionStorage.loadSession(sessionId);
     if (!session) {
@@ -453,51 +677,58 @@ router.post('/classify', async (req: Request, res: Response) => {
       });
     }
 
+    const interviewPolicy = await getSessionInterviewPolicy(session);
+
     // Build conversation history
     const conversationHistory = latestConversation.clarificationQA;
 
     // Perform classification (with LLM data for audit)
     const classificationStartTime = Date.now();
+    stream?.stage('classifying');
     const classificationResult = await classificationService.classifyWithRoutingAndLLMData({
       processDescription: latestConversation.processDescription,
       conversationHistory,
       model,
       provider: llmProvider,
       apiKey,
+      baseUrl,
       awsAccessKeyId,
       awsSecretAccessKey,
       awsSessionToken,
       awsRegion,
       useRegionalInference,
       regionalInferenceEndpoint
-    });
+    }, stream?.rationale);
+    const answeringLLM = getAnsweringLLM(classificationResult.answeredBy, llmProvider, model);
+    let classificationHadPII = await piiService.scrubClassificationOutput(classificationResult, session.sessionId, userId);
 
     const classificationLatency = Date.now() - classificationStartTime;
 
     // Check if clarification is needed (unless force classify is enabled)
     if (classificationResult.action === 'clarify' && !forceClassify) {
       // Generate clarification questions
+      stream?.stage('clarifying');
       const clarificationResponse = await clarificationService.generateQuestions({
         processDescription: latestConversation.processDescription,
         classification: classificationResult.result,
         conversationHistory,
         provider: llmProvider,
         apiKey,
+        baseUrl,
         awsAccessKeyId,
         awsSecretAccessKey,
         awsSessionToken,
         awsRegion,
         useRegionalInference,
         regionalInferenceEndpoint,
-        model
+        model,
+        interviewPolicy
       });
 
       const questionTexts = clarificationResponse.questions.map(q => q.question);
 
       // Scrub PII from questions
-      const scrubbedQuestions = await Promise.all(
-        questionTexts.map(q => piiService.scrubOnly(q))
-      );
+      const scrubbedQuestions = await piiService.scrubAllAndStore(questionTexts, session.sessionId, userId, 'model_response');
 
       // Log clarification
       await auditLogService.logClarification(
@@ -522,6 +753,7 @@ router.post('/classify', async (req: Request, res: Response) => {
         action: 'clarify',
         questions: scrubbedQuestions.map(sq => sq.scrubbedText),
         classification: classificationResult.result,
+        interviewLimits: getInterviewLimits(interviewPolicy),
         sessionId
       });
     }
@@ -547,6 +779,7 @@ router.post('/classify', async (req: Request, res: Response) => {
     let decisionMatrix = null;
 
     try {
+      stream?.stage('evaluating');
       extractedAttributes = await classificationService.extractAttributes(
         latestConversation.processDescription,
         conversationHistory,
@@ -556,12 +789,16 @@ router.post('/classify', async (req: Request, res: Response) => {
           model,
           provider: llmProvider,
           apiKey,
+          baseUrl,
           awsAccessKeyId,
           awsSecretAccessKey,
           awsSessionToken,
           awsRegion
         }
       );
+      if (await piiService.scrubExtractedAttributes(extractedAttributes, session.sessionId, userId)) {
+        classificationHadPII = true;
+      }
 
       // Convert extracted attributes to simple key-value format
       const attributeValues: { [key: string]: any } = {};
@@ -570,7 +807,7 @@ router.post('/classify', async (req: Request, res: Response) => {
       }
 
       // Get decision matrix and evaluate
-      decisionMatrix = await versionedStorage.getLatestDecisionMatrix();
+      decisionMatrix = await versionedStorage.getActiveDecisionMatrix();
 
       if (decisionMatrix) {
         decisionMatrixEvaluation = evaluatorService.evaluateMatrix(
@@ -578,8 +815,9 @@ router.post('/classify', async (req: Request, res: Response) => {
           {
             ...classificationResult.result,
             timestamp: new Date().toISOString(),
-            modelUsed: model,
-            llmProvider
+            modelUsed: answeringLLM.model,
+            llmProvider: answeringLLM.llmProvider,
+            fallbackFrom: answeringLLM.fallbackFrom
           },
           attributeValues
         );
@@ -599,8 +837,9 @@ router.post('/classify', async (req: Request, res: Response) => {
       categoryProgression: finalClassification.categoryProgression,
       futureOpportunities: finalClassification.futureOpportunities,
       timestamp: new Date().toISOString(),
-      modelUsed: model,
-      llmProvider,
+      modelUsed: answeringLLM.model,
+      llmProvider: answeringLLM.llmProvider,
+      fallbackFrom: answeringLLM.fallbackFrom,
       decisionMatrixEvaluation: decisionMatrixEvaluation || undefined
     };
 
@@ -609,7 +848,8 @@ router.post('/classify', async (req: Request, res: Response) => {
     // Determine session status based on user role (blind evaluation for regular users)
     const authReq = req as AuthRequest;
     const userRole = authReq.user?.role || 'user';
-    session.status = userRole === 'admin' ? 'completed' : 'pending_admin_review';
+    const showsResult = hasPermission(userRole, 'sessions:review');
+    session.status = showsResult ? 'completed' : 'pending_admin_review';
 
     session.updatedAt = new Date().toISOString();
     await sessionStorage.saveSession(session);
@@ -624,10 +864,11 @@ router.post('/classify', async (req: Request, res: Response) => {
       decisionMatrixEvaluation,
       classificationResult.llmPrompt,
       classificationResult.llmResponse,
-      false, // PII already scrubbed in input
+      classificationHadPII,
       {
-        modelVersion: model,
-        llmProvider,
+        modelVersion: answeringLLM.model,
+        llmProvider: answeringLLM.llmProvider,
+        fallbackFrom: answeringLLM.fallbackFrom,
         latencyMs: Date.now() - startTime,
         decisionMatrixVersion: decisionMatrix?.version,
         action: forceClassify ? 'force_classify' : 'auto_classify',
@@ -638,7 +879,7 @@ router.post('/classify', async (req: Request, res: Response) => {
     );
 
     // Return different responses based on user role
-    if (userRole === 'admin') {
+    if (showsResult) {
       res.json({
         action: 'auto_classify',
         classification: classificationToStore,
@@ -658,20 +899,37 @@ router.post('/classify', async (req: Request, res: Response) => {
       });
     }
   } catch (error) {
+    if (isQuotaExceededError(error)) {
+      return res.status(429).json({
+        error: 'LLM quota exceeded',
+        message: (error as Error).message
+      });
+    }
     console.error('Error classifying process:', error);
     res.status(500).json({
       error: 'Failed to classify process',
       message: error instanceof Error ? error.message : 'Unknown error'
     });
   }
-});
+}
 
 /**
  * POST /api/process/clarify
  * Submit answers to clarification questions
  * Requirements: 2.4, 10.3, 10.4, 21.2
  */
-router.post('/clarify', async (req: Request, res: Response) => {
+router.post('/clarify', (req: Request, res: Response) => clarifyProcess(req, res));
+
+/**
+ * POST /api/process/clarify/stream
+ * Same as /clarify, sent as Server-Sent Events (see /classify/stream)
+ */
+router.post('/clarify/stream', (req: Request, res: Response) => {
+  const { reply, stream } = openEventStream(req, res);
+  return clarifyProcess(req, reply, stream);
+});
+
+async function clarifyProcess(req: Request, res: ProcessReply, stream?: ProcessStream): Promise<void> {
   const startTime = Date.now();
 
   try {
@@ -680,6 +938,7 @@ router.post('/clarify', async (req: Request, res: Response) => {
       answers,
       questions,
       apiKey,
+      baseUrl,
       awsAccessKeyId,
       awsSecretAccessKey,
       awsSessionToken,
@@ -712,6 +971,27 @@ router.post('/clarify', async (req: Request, res: Response) => {
           message: 'AWS Access Key ID and Secret Access Key are required for Bedrock'
         });
       }
+    } else if (llmProvider === 'local') {
+      if (!baseUrl) {
+        return res.status(400).json({
+          error: 'Missing base URL',
+          message: 'Base URL is required for the local (OpenAI-compatible) provider'
+        });
+      }
+
+      if (!isAllowedLocalLLMBaseUrl(baseUrl)) {
+        return res.status(400).json({
+          error: 'Base URL not allowed',
+          message: 'Only local LLM endpoints allowed by the server administrator (LOCAL_LLM_ALLOWED_BASE_URLS) can be used'
+        });
+      }
+    } else if (llmProvider === 'mock') {
+      if (!isMockLLMEnabled()) {
+        return res.status(400).json({
+          error: 'Mock provider disabled',
+          message: 'The mock LLM provider is only available in tests or when MOCK_LLM_ENABLED=true'
+        });
+      }
     } else if (!apiKey) {
       return res.status(400).json({
         error: 'Missing API key',
@@ -719,6 +999,8 @@ router.post('/clarify', async (req: Request, res: Response) => {
       });
     }
 
+    await checkLLMQuota();
+
     // Load session
     const session = await sessionStorage.loadSession(sessionId);
     if (!session) {
@@ -737,13 +1019,13 @@ router.post('/clarify', async (req: Request, res: Response) => {
       });
     }
 
+    const interviewPolicy = await getSessionInterviewPolicy(session);
+
     // Note: Loop detection is handled later after we attempt to generate new questions
     // This allows the LLM to naturally stop asking questions when it has enough information
 
     // Scrub PII from answers
-    const scrubbedAnswers = await Promise.all(
-      answers.map(a => piiService.scrubAndStore(a, sessionId, userId))
-    );
+    const scrubbedAnswers = await piiService.scrubAllAndStore(answers, sessionId, userId, 'clarification_answer');
 
     // Add Q&A to conversation
     for (let i = 0; i < answers.length; i++) {
@@ -780,34 +1062,41 @@ router.post('/clarify', async (req: Request, res: Response) => {
 
     // Perform classification with updated conversation history (with LLM data for audit)
     const classificationStartTime = Date.now();
+    stream?.stage('classifying');
     const classificationResult = await classificationService.classifyWithRoutingAndLLMData({
       processDescription: latestConversation.processDescription,
       conversationHistory: latestConversation.clarificationQA,
       model,
       provider: llmProvider,
       apiKey,
+      baseUrl,
       awsAccessKeyId,
       awsSecretAccessKey,
       awsSessionToken,
       awsRegion
-    });
+    }, stream?.rationale);
+    const answeringLLM = getAnsweringLLM(classificationResult.answeredBy, llmProvider, model);
+    let classificationHadPII = await piiService.scrubClassificationOutput(classificationResult, session.sessionId, userId);
 
     const classificationLatency = Date.now() - classificationStartTime;
 
     // Check if more clarification is needed
     if (classificationResult.action === 'clarify') {
       // Generate clarification questions
+      stream?.stage('clarifying');
       const clarificationResponse = await clarificationService.generateQuestions({
         processDescription: latestConversation.processDescription,
         classification: classificationResult.result,
         conversationHistory: latestConversation.clarificationQA,
         provider: llmProvider,
         apiKey,
+        baseUrl,
         awsAccessKeyId,
         awsSecretAccessKey,
         awsSessionToken,
         awsRegion,
-        model
+        model,
+        interviewPolicy
       });
 
       // Check if clarification service says to stop (shouldClarify = false or empty questions)
@@ -823,6 +1112,7 @@ router.post('/clarify', async (req: Request, res: Response) => {
           data: {
             stoppedClarification: true,
             reason: clarificationResponse.reason,
+            interviewPolicyVersion: interviewPolicy.version,
             action: 'auto_classify'
           },
           piiScrubbed: false,
@@ -838,9 +1128,7 @@ router.post('/clarify', async (req: Request, res: Response) => {
       } else {
         // We have valid questions to ask
         const questionTexts = clarificationResponse.questions.map(q => q.question);
-        const scrubbedQuestions = await Promise.all(
-          questionTexts.map(q => piiService.scrubOnly(q))
-        );
+        const scrubbedQuestions = await piiService.scrubAllAndStore(questionTexts, session.sessionId, userId, 'model_response');
 
         await auditLogService.logClarification(
           sessionId,
@@ -863,6 +1151,7 @@ router.post('/clarify', async (req: Request, res: Response) => {
         return res.json({
           clarificationQuestions: scrubbedQuestions.map(sq => sq.scrubbedText),
           totalQuestions: questionTexts.length,
+          interviewLimits: getInterviewLimits(interviewPolicy),
           sessionId
         });
       }
@@ -878,8 +1167,9 @@ router.post('/clarify', async (req: Request, res: Response) => {
         categoryProgression: classificationResult.result.categoryProgression,
         futureOpportunities: classificationResult.result.futureOpportunities,
         timestamp: new Date().toISOString(),
-        modelUsed: model,
-        llmProvider
+        modelUsed: answeringLLM.model,
+        llmProvider: answeringLLM.llmProvider,
+        fallbackFrom: answeringLLM.fallbackFrom
       };
 
       session.classification = classificationToStore;
@@ -896,10 +1186,11 @@ router.post('/clarify', async (req: Request, res: Response) => {
         null,
         'Manual review required',
         JSON.stringify(classificationResult.result),
-        false,
+        classificationHadPII,
         {
-          modelVersion: model,
-          llmProvider,
+          modelVersion: answeringLLM.model,
+          llmProvider: answeringLLM.llmProvider,
+          fallbackFrom: answeringLLM.fallbackFrom,
           action: 'manual_review'
         }
       );
@@ -913,6 +1204,7 @@ router.post('/clarify', async (req: Request, res: Response) => {
     }
 
     // Auto-classify
+    stream?.stage('evaluating');
     const extractedAttributes = await classificationService.extractAttributes(
       latestConversation.processDescription,
       latestConversation.clarificationQA,
@@ -922,19 +1214,23 @@ router.post('/clarify', async (req: Request, res: Response) => {
         model,
         provider: llmProvider,
         apiKey,
+        baseUrl,
         awsAccessKeyId,
         awsSecretAccessKey,
         awsSessionToken,
         awsRegion
       }
     );
+    if (await piiService.scrubExtractedAttributes(extractedAttributes, session.sessionId, userId)) {
+      classificationHadPII = true;
+    }
 
     const attributeValues: { [key: string]: any } = {};
     for (const [key, value] of Object.entries(extractedAttributes)) {
       attributeValues[key] = value.value;
     }
 
-    const decisionMatrix = await versionedStorage.getLatestDecisionMatrix();
+    const decisionMatrix = await versionedStorage.getActiveDecisionMatrix();
     let decisionMatrixEvaluation = null;
     let finalClassification = classificationResult.result;
 
@@ -944,8 +1240,9 @@ router.post('/clarify', async (req: Request, res: Response) => {
         {
           ...classificationResult.result,
           timestamp: new Date().toISOString(),
-          modelUsed: model,
-          llmProvider
+          modelUsed: answeringLLM.model,
+          llmProvider: answeringLLM.llmProvider,
+          fallbackFrom: answeringLLM.fallbackFrom
         },
         attributeValues
       );
@@ -960,8 +1257,9 @@ router.post('/clarify', async (req: Request, res: Response) => {
       categoryProgression: finalClassification.categoryProgression,
       futureOpportunities: finalClassification.futureOpportunities,
       timestamp: new Date().toISOString(),
-      modelUsed: model,
-      llmProvider,
+      modelUsed: answeringLLM.model,
+      llmProvider: answeringLLM.llmProvider,
+      fallbackFrom: answeringLLM.fallbackFrom,
       decisionMatrixEvaluation: decisionMatrixEvaluation || undefined
     };
 
@@ -970,7 +1268,8 @@ router.post('/clarify', async (req: Request, res: Response) => {
     // Determine session status based on user role (blind evaluation for regular users)
     const authReq = req as AuthRequest;
     const userRole = authReq.user?.role || 'user';
-    session.status = userRole === 'admin' ? 'completed' : 'pending_admin_review';
+    const showsResult = hasPermission(userRole, 'sessions:review');
+    session.status = showsResult ? 'completed' : 'pending_admin_review';
 
     session.updatedAt = new Date().toISOString();
     await sessionStorage.saveSession(session);
@@ -984,10 +1283,11 @@ router.post('/clarify', async (req: Request, res: Response) => {
       decisionMatrixEvaluation,
       classificationResult.llmPrompt,
       classificationResult.llmResponse,
-      false,
+      classificationHadPII,
       {
-        modelVersion: model,
-        llmProvider,
+        modelVersion: answeringLLM.model,
+        llmProvider: answeringLLM.llmProvider,
+        fallbackFrom: answeringLLM.fallbackFrom,
         latencyMs: Date.now() - startTime,
         decisionMatrixVersion: decisionMatrix?.version,
         action: 'auto_classify',
@@ -996,7 +1296,7 @@ router.post('/clarify', async (req: Request, res: Response) => {
     );
 
     // Return different responses based on user role
-    if (userRole === 'admin') {
+    if (showsResult) {
       res.json({
         classification: classificationToStore,
         decisionMatrixEvaluation,
@@ -1014,13 +1314,19 @@ router.post('/clarify', async (req: Request, res: Response) => {
       });
     }
   } catch (error) {
+    if (isQuotaExceededError(error)) {
+      return res.status(429).json({
+        error: 'LLM quota exceeded',
+        message: (error as Error).message
+      });
+    }
     console.error('Error recording clarification:', error);
     res.status(500).json({
       error: 'Failed to record clarification',
       message: error instanceof Error ? error.message : 'Unknown error'
     });
   }
-});
+}
 
 /**
  * POST /api/process/reclassify
@@ -1035,6 +1341,7 @@ router.post('/reclassify', async (req: Request, res: Response) => {
     const {
       sessionId,
       apiKey,
+      baseUrl,
       awsAccessKeyId,
       awsSecretAccessKey,
       awsSessionToken,
@@ -1054,6 +1361,8 @@ router.post('/reclassify', async (req: Request, res: Response) => {
       });
     }
 
+    await checkLLMQuota();
+
     // Load existing session
     const session = await sessionStorage.loadSession(sessionId);
     if (!session) {
@@ -1093,6 +1402,27 @@ router.post('/reclassify', async (req: Request, res: Response) => {
           message: 'AWS Access Key ID and Secret Access Key are required for Bedrock'
         });
       }
+    } else if (llmProvider === 'local') {
+      if (!baseUrl) {
+        return res.status(400).json({
+          error: 'Missing base URL',
+          message: 'Base URL is required for the local (OpenAI-compatible) provider'
+        });
+      }
+
+      if (!isAllowedLocalLLMBaseUrl(baseUrl)) {
+        return res.status(400).json({
+          error: 'Base URL not allowed',
+          message: 'Only local LLM endpoints allowed by the server administrator (LOCAL_LLM_ALLOWED_BASE_URLS) can be used'
+        });
+      }
+    } else if (llmProvider === 'mock') {
+      if (!isMockLLMEnabled()) {
+        return res.status(400).json({
+          error: 'Mock provider disabled',
+          message: 'The mock LLM provider is only available in tests or when MOCK_LLM_ENABLED=true'
+        });
+      }
     } else if (!apiKey) {
       return res.status(400).json({
         error: 'Missing API key',
@@ -1112,11 +1442,14 @@ router.post('/reclassify', async (req: Request, res: Response) => {
       model: modelToUse,
       provider: llmProvider,
       apiKey,
+      baseUrl,
       awsAccessKeyId,
       awsSecretAccessKey,
       awsSessionToken,
       awsRegion
     });
+    const answeringLLM = getAnsweringLLM(classificationWithLLM.answeredBy, llmProvider, modelToUse);
+    let classificationHadPII = await piiService.scrubClassificationOutput(classificationWithLLM, sessionId, userId);
 
     const classificationLatency = Date.now() - classificationStartTime;
     const newClassificationResult = classificationWithLLM.result;
@@ -1131,12 +1464,16 @@ router.post('/reclassify', async (req: Request, res: Response) => {
         model: modelToUse,
         provider: llmProvider,
         apiKey,
+        baseUrl,
         awsAccessKeyId,
         awsSecretAccessKey,
         awsSessionToken,
         awsRegion
       }
     );
+    if (await piiService.scrubExtractedAttributes(extractedAttributes, sessionId, userId)) {
+      classificationHadPII = true;
+    }
 
     const attributeValues: { [key: string]: any } = {};
     for (const [key, value] of Object.entries(extractedAttributes)) {
@@ -1144,7 +1481,7 @@ router.post('/reclassify', async (req: Request, res: Response) => {
     }
 
     // Apply current decision matrix
-    const decisionMatrix = await versionedStorage.getLatestDecisionMatrix();
+    const decisionMatrix = await versionedStorage.getActiveDecisionMatrix();
     let decisionMatrixEvaluation = null;
     let finalClassification = newClassificationResult;
 
@@ -1154,8 +1491,9 @@ router.post('/reclassify', async (req: Request, res: Response) => {
         {
           ...newClassificationResult,
           timestamp: new Date().toISOString(),
-          modelUsed: modelToUse,
-          llmProvider
+          modelUsed: answeringLLM.model,
+          llmProvider: answeringLLM.llmProvider,
+          fallbackFrom: answeringLLM.fallbackFrom
         },
         attributeValues
       );
@@ -1173,8 +1511,9 @@ router.post('/reclassify', async (req: Request, res: Response) => {
       categoryProgression: finalClassification.categoryProgression,
       futureOpportunities: finalClassification.futureOpportunities,
       timestamp: new Date().toISOString(),
-      modelUsed: modelToUse,
-      llmProvider,
+      modelUsed: answeringLLM.model,
+      llmProvider: answeringLLM.llmProvider,
+      fallbackFrom: answeringLLM.fallbackFrom,
       decisionMatrixEvaluation: decisionMatrixEvaluation || undefined
     };
 
@@ -1208,10 +1547,11 @@ router.post('/reclassify', async (req: Request, res: Response) => {
       },
       modelPrompt: classificationWithLLM.llmPrompt,
       modelResponse: classificationWithLLM.llmResponse,
-      piiScrubbed: false,
+      piiScrubbed: classificationHadPII,
       metadata: {
-        modelVersion: modelToUse,
-        llmProvider,
+        modelVersion: answeringLLM.model,
+        llmProvider: answeringLLM.llmProvider,
+        fallbackFrom: answeringLLM.fallbackFrom,
         latencyMs: classificationLatency,
         decisionMatrixVersion: decisionMatrix?.version
       }
@@ -1243,6 +1583,12 @@ router.post('/reclassify', async (req: Request, res: Response) => {
       responseTime: Date.now() - startTime
     });
   } catch (error) {
+    if (isQuotaExceededError(error)) {
+      return res.status(429).json({
+        error: 'LLM quota exceeded',
+        message: (error as Error).message
+      });
+    }
     console.error('Error reclassifying session:', error);
     res.status(500).json({
       error: 'Failed to reclassify session',
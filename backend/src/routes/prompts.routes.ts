@@ -1,12 +1,13 @@
 import { Router, Request, Response } from 'express';
 import { VersionedStorageService } from '../services/versioned-storage.service';
-import { JsonStorageService } from '../services/storage.service';
+import { createStorage } from '../services/storage.service';
+import { requirePermission } from '../middleware/auth.middleware';
 
 const router = Router();
 
 // Initialize services
 const dataDir = process.env.DATA_DIR || './data';
-const jsonStorage = new JsonStorageService(dataDir);
+const jsonStorage = createStorage(dataDir);
 const versionedStorage = new VersionedStorageService(jsonStorage);
 
 /**
@@ -14,7 +15,7 @@ const versionedStorage = new VersionedStorageService(jsonStorage);
  * Get all available prompts with their latest versions
  * Requirements: 6.1
  */
-router.get('/', async (req: Request, res: Response) => {
+router.get('/', requirePermission('prompts:read'), async (req: Request, res: Response) => {
   try {
     const promptTypes = ['classification', 'clarification', 'attribute-extraction', 'decision-matrix-generation'];
     const prompts = [];
@@ -55,7 +56,7 @@ router.get('/', async (req: Request, res: Response) => {
  * Get a specific prompt by ID (returns latest version)
  * Requirements: 6.1
  */
-router.get('/:id', async (req: Request, res: Response) => {
+router.get('/:id', requirePermission('prompts:read'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
@@ -91,7 +92,7 @@ router.get('/:id', async (req: Request, res: Response) => {
  * Get all versions of a specific prompt
  * Requirements: 6.3
  */
-router.get('/:id/versions', async (req: Request, res: Response) => {
+router.get('/:id/versions', requirePermission('prompts:read'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
@@ -125,7 +126,7 @@ router.get('/:id/versions', async (req: Request, res: Response) => {
  * Get a specific version of a prompt
  * Requirements: 6.1, 6.3
  */
-router.get('/:id/versions/:version', async (req: Request, res: Response) => {
+router.get('/:id/versions/:version', requirePermission('prompts:read'), async (req: Request, res: Response) => {
   try {
     const { id, version } = req.params;
 
@@ -158,7 +159,7 @@ router.get('/:id/versions/:version', async (req: Request, res: Response) => {
  * Update a prompt (creates new version)
  * Requirements: 6.2, 6.3, 6.4
  */
-router.put('/:id', async (req: Request, res: Response) => {
+router.put('/:id', requirePermission('prompts:edit'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const { content, userId = 'admin' } = req.body;
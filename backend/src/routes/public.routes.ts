@@ -1,26 +1,41 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { OpenAIService } from '../services/openai.service';
 import { BedrockService } from '../services/bedrock.service';
+import { LocalLLMService, isAllowedLocalLLMBaseUrl } from '../services/local-llm.service';
 import { AuditLogService } from '../services/audit-log.service';
+import { authenticateToken, AuthRequest } from '../middleware/auth.middleware';
 
 const router = Router();
 
 const dataDir = process.env.DATA_DIR || './data';
 const openaiService = new OpenAIService();
 const bedrockService = new BedrockService();
+const localLLMService = new LocalLLMService();
 const auditLogService = new AuditLogService(dataDir);
 
+/**
+ * The local provider makes the backend call a URL the client chooses, which
+ * would let anyone probe the internal network; only signed-in users may use it
+ */
+const authenticateLocalProvider = (req: Request, res: Response, next: NextFunction) => {
+  const provider = req.body?.provider || req.query.provider;
+  if (provider === 'local') {
+    return authenticateToken(req as AuthRequest, res, next);
+  }
+  next();
+};
+
 /**
  * POST /api/public/test-connection
  * Test LLM provider connection by making a simple chat completion request
- * Public endpoint - no authentication required
+ * Public endpoint - no authentication required, except for the local provider
  * Used to validate credentials and model access before saving configuration
  */
-router.post('/test-connection', async (req: Request, res: Response) => {
+router.post('/test-connection', authenticateLocalProvider, async (req: Request, res: Response) => {
   const startTime = Date.now();
-  const { provider, model, apiKey, awsAccessKeyId, awsSecretAccessKey, awsSessionToken, awsRegion } = req.body;
+  const { provider, model, apiKey, baseUrl, awsAccessKeyId, awsSecretAccessKey, awsSessionToken, awsRegion } = req.body;
 
-  console.log('[PublicRoutes] /test-connection request:', { provider, model, awsRegion });
+  console.log('[PublicRoutes] /test-connection request:', { provider, model, awsRegion, baseUrl });
 
   try {
     if (provider === 'openai') {
@@ -80,6 +95,44 @@ router.post('/test-connection', async (req: Request, res: Response) => {
         region: awsRegion || 'us-east-1',
         duration: Date.now() - startTime
       });
+    } else if (provider === 'local') {
+      if (!baseUrl) {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing base URL'
+        });
+      }
+
+      if (!isAllowedLocalLLMBaseUrl(baseUrl)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Base URL not allowed',
+          message: 'Only local LLM endpoints allowed by the server administrator (LOCAL_LLM_ALLOWED_BASE_URLS) can be used'
+        });
+      }
+
+      if (!model) {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing model selection'
+        });
+      }
+
+      // Test by making a simple chat completion request
+      const testMessage = [{ role: 'user' as const, content: 'Hello' }];
+      await localLLMService.chat(testMessage, model, {
+        provider: 'local',
+        baseUrl,
+        apiKey
+      });
+
+      return res.json({
+        success: true,
+        message: `Local endpoint connection successful with model ${model}`,
+        model,
+        baseUrl,
+        duration: Date.now() - startTime
+      });
     } else {
       return res.status(400).json({
         success: false,
@@ -100,6 +153,8 @@ router.post('/test-connection', async (req: Request, res: Response) => {
         errorMessage = `Model ${model} not found or not available in ${awsRegion || 'us-east-1'}. Try fetching models to see available options.`;
       } else if (error.message.includes('Invalid API key')) {
         errorMessage = 'Invalid API key. Please check your credentials.';
+      } else if (provider === 'local' && error.message.includes('Connection error')) {
+        errorMessage = `Could not reach local LLM endpoint at ${baseUrl}. Check the server is running and reachable from the backend.`;
       } else {
         errorMessage = error.message;
       }
@@ -115,11 +170,11 @@ router.post('/test-connection', async (req: Request, res: Response) => {
 
 /**
  * GET /api/public/models
- * List available models (OpenAI or Bedrock)
- * Public endpoint - no authentication required
+ * List available models (OpenAI, Bedrock or local OpenAI-compatible endpoint)
+ * Public endpoint - no authentication required, except for the local provider
  * Used during initial configuration before login
  */
-router.get('/models', async (req: Request, res: Response) => {
+router.get('/models', authenticateLocalProvider, async (req: Request, res: Response) => {
   const startTime = Date.now();
   const provider = (req.query.provider as string) || 'openai';
   const awsRegion = req.headers['x-aws-region'] as string || req.query.awsRegion as string || 'us-east-1';
@@ -247,6 +302,61 @@ router.get('/models', async (req: Request, res: Response) => {
         piiScrubbed: false
       });
 
+      res.json({
+        models
+      });
+    } else if (provider === 'local') {
+      const baseUrl = req.headers['x-llm-base-url'] as string || req.query.baseUrl as string;
+      const apiKey = req.headers['x-api-key'] as string;
+
+      if (!baseUrl) {
+        // Log failed attempt
+        await auditLogService.log({
+          sessionId: 'public',
+          timestamp: new Date().toISOString(),
+          eventType: 'model_list_error',
+          userId: 'anonymous',
+          data: {
+            provider: 'local',
+            error: 'Missing base URL',
+            ipAddress: req.ip
+          },
+          piiScrubbed: false
+        });
+
+        return res.status(400).json({
+          error: 'Missing base URL',
+          message: 'Base URL is required for the local (OpenAI-compatible) provider'
+        });
+      }
+
+      if (!isAllowedLocalLLMBaseUrl(baseUrl)) {
+        return res.status(400).json({
+          error: 'Base URL not allowed',
+          message: 'Only local LLM endpoints allowed by the server administrator (LOCAL_LLM_ALLOWED_BASE_URLS) can be used'
+        });
+      }
+
+      // Whatever the local server has loaded is relevant - no filtering
+      const models = await localLLMService.listModels({ provider: 'local', baseUrl, apiKey });
+
+      // Log successful fetch
+      await auditLogService.log({
+        sessionId: 'public',
+        timestamp: new Date().toISOString(),
+        eventType: 'model_list_success',
+        userId: 'anonymous',
+        data: {
+          provider: 'local',
+          baseUrl,
+          modelCount: models.length,
+          models: models.map(m => m.id),
+          duration: Date.now() - startTime,
+          ipAddress: req.ip
+        },
+        piiScrubbed: false
+      });
+
       res.json({
         models
       });
@@ -267,7 +377,7 @@ router.get('/models', async (req: Request, res: Response) => {
 
       return res.status(400).json({
         error: 'Invalid provider',
-        message: 'Provider must be "openai" or "bedrock"'
+        message: 'Provider must be "openai", "bedrock" or "local"'
       });
     }
   } catch (error) {
@@ -8,15 +8,18 @@ import { AuditLogService } from '../services/audit-log.service';
 import { PIIService } from '../services/pii.service';
 import { OpenAIService } from '../services/openai.service';
 import { BedrockService } from '../services/bedrock.service';
-import { JsonStorageService } from '../services/storage.service';
+import { LocalLLMService, isAllowedLocalLLMBaseUrl } from '../services/local-llm.service';
+import { MockLLMService, isMockLLMEnabled } from '../services/mock-llm.service';
+import { createStorage } from '../services/storage.service';
 import { VersionedStorageService } from '../services/versioned-storage.service';
+import { getCurrentUser } from '../services/workspace-context';
 import { Session, Conversation, Classification, Feedback, UserRating } from '../types';
 
 const router = Router();
 
 // Initialize services
 const dataDir = process.env.DATA_DIR || './data';
-const jsonStorage = new JsonStorageService(dataDir);
+const jsonStorage = createStorage(dataDir);
 const sessionStorage = new SessionStorageService(jsonStorage);
 const versionedStorage = new VersionedStorageService(jsonStorage);
 const classificationService = new ClassificationService(versionedStorage);
@@ -26,10 +29,12 @@ const auditLogService = new AuditLogService(dataDir);
 const piiService = new PIIService(dataDir);
 const openaiService = new OpenAIService();
 const bedrockService = new BedrockService();
+const localLLMService = new LocalLLMService();
+const mockLLMService = new MockLLMService();
 
 /**
  * GET /api/sessions/models
- * List available models (OpenAI or Bedrock)
+ * List available models (OpenAI, Bedrock or local OpenAI-compatible endpoint)
  * Requirements: 9.2
  */
 router.get('/models', async (req: Request, res: Response) => {
@@ -85,13 +90,42 @@ router.get('/models', async (req: Request, res: Response) => {
         regionalInferenceEndpoint
       });
 
+      res.json({
+        models
+      });
+    } else if (provider === 'local') {
+      const baseUrl = req.headers['x-llm-base-url'] as string || req.query.baseUrl as string;
+      const apiKey = req.headers['x-api-key'] as string;
+
+      if (!baseUrl) {
+        return res.status(400).json({
+          error: 'Missing base URL',
+          message: 'Base URL is required for the local (OpenAI-compatible) provider'
+        });
+      }
+
+      if (!isAllowedLocalLLMBaseUrl(baseUrl)) {
+        return res.status(400).json({
+          error: 'Base URL not allowed',
+          message: 'Only local LLM endpoints allowed by the server administrator (LOCAL_LLM_ALLOWED_BASE_URLS) can be used'
+        });
+      }
+
+      const models = await localLLMService.listModels({ provider: 'local', baseUrl, apiKey });
+
+      res.json({
+        models
+      });
+    } else if (provider === 'mock' && isMockLLMEnabled()) {
+      const models = await mockLLMService.listModels({ provider: 'mock' });
+
       res.json({
         models
       });
     } else {
       return res.status(400).json({
         error: 'Invalid provider',
-        message: 'Provider must be "openai" or "bedrock"'
+        message: 'Provider must be "openai", "bedrock" or "local"'
       });
     }
   } catch (error) {
@@ -117,6 +151,7 @@ router.post('/', async (req: Request, res: Response) => {
 
     const {
       apiKey,
+      baseUrl,
       model = 'gpt-4',
       userId = 'anonymous',
       provider = 'openai',
@@ -145,6 +180,36 @@ router.post('/', async (req: Request, res: Response) => {
           message: 'AWS Access Key ID should start with "AKIA" or "ASIA"'
         });
       }
+    } else if (provider === 'local') {
+      // For local OpenAI-compatible endpoints, the API key is optional
+      if (!baseUrl) {
+        return res.status(400).json({
+          error: 'Missing base URL',
+          message: 'Base URL is required for the local (OpenAI-compatible) provider'
+        });
+      }
+
+      if (!/^https?:\/\//.test(baseUrl)) {
+        return res.status(400).json({
+          error: 'Invalid base URL format',
+          message: 'Base URL should start with "http://" or "https://"'
+        });
+      }
+
+      if (!isAllowedLocalLLMBaseUrl(baseUrl)) {
+        return res.status(400).json({
+          error: 'Base URL not allowed',
+          message: 'Only local LLM endpoints allowed by the server administrator (LOCAL_LLM_ALLOWED_BASE_URLS) can be used'
+        });
+      }
+    } else if (provider === 'mock') {
+      // Deterministic mock provider for tests and demos - no credentials needed
+      if (!isMockLLMEnabled()) {
+        return res.status(400).json({
+          error: 'Mock provider disabled',
+          message: 'The mock LLM provider is only available in tests or when MOCK_LLM_ENABLED=true'
+        });
+      }
     } else {
       // For OpenAI, validate API key
       if (!apiKey) {
@@ -171,6 +236,7 @@ router.post('/', async (req: Request, res: Response) => {
       updatedAt: new Date().toISOString(),
       status: 'active',
       modelUsed: model,
+      userId: getCurrentUser()?.userId || userId,
       conversations: []
     };
 
@@ -1,12 +1,13 @@
 import { Router, Request, Response } from 'express';
 import { VersionedStorageService } from '../services/versioned-storage.service';
-import { JsonStorageService } from '../services/storage.service';
+import { createStorage } from '../services/storage.service';
+import { requirePermission } from '../middleware/auth.middleware';
 
 const router = Router();
 
 // Initialize services
 const dataDir = process.env.DATA_DIR || './data';
-const jsonStorage = new JsonStorageService(dataDir);
+const jsonStorage = createStorage(dataDir);
 const versionedStorage = new VersionedStorageService(jsonStorage);
 
 export interface StrategicQuestion {
@@ -53,7 +54,7 @@ const DEFAULT_QUESTIONS: StrategicQuestion[] = [
  * GET /api/strategic-questions
  * Get latest strategic questions
  */
-router.get('/', async (req: Request, res: Response) => {
+router.get('/', requirePermission('matrix:read'), async (req: Request, res: Response) => {
     try {
         let questions = await versionedStorage.getStrategicQuestions();
 
@@ -74,7 +75,7 @@ router.get('/', async (req: Request, res: Response) => {
  * PUT /api/strategic-questions
  * Update strategic questions list (creates new version)
  */
-router.put('/', async (req: Request, res: Response) => {
+router.put('/', requirePermission('questions:edit'), async (req: Request, res: Response) => {
     try {
         const questions = req.body;
 
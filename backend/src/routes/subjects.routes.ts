@@ -1,12 +1,12 @@
 import { Router, Request, Response } from 'express';
-import { JsonStorageService } from '../services/storage.service';
+import { createStorage } from '../services/storage.service';
 import { SubjectsStorageService } from '../services/subjects-storage.service';
 
 const router = Router();
 
 // Initialize services
 const dataDir = process.env.DATA_DIR || './data';
-const jsonStorage = new JsonStorageService(dataDir);
+const jsonStorage = createStorage(dataDir);
 const subjectsStorage = new SubjectsStorageService(jsonStorage);
 
 /**
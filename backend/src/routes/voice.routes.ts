@@ -7,9 +7,11 @@ import { OpenAIService } from '../services/openai.service';
 import { AWSVoiceService } from '../services/aws-voice.service';
 import { SessionStorageService } from '../services/session-storage.service';
 import { AuditLogService } from '../services/audit-log.service';
-import { JsonStorageService } from '../services/storage.service';
+import { PIIService } from '../services/pii.service';
+import { createStorage } from '../services/storage.service';
 import { AudioTranscription } from '../types';
 import { LLMProviderConfig } from '../services/llm-provider.interface';
+import { AuthRequest, runInRequestContext } from '../middleware/auth.middleware';
 
 const router = Router();
 
@@ -17,11 +19,14 @@ const router = Router();
 const dataDir = process.env.DATA_DIR || './data';
 const audioDir = path.join(dataDir, 'audio');
 const cacheDir = path.join(audioDir, 'cache');
-const jsonStorage = new JsonStorageService(dataDir);
+const jsonStorage = createStorage(dataDir);
 const sessionStorage = new SessionStorageService(jsonStorage);
 const openaiService = new OpenAIService();
 const awsVoiceService = new AWSVoiceService();
 const auditLogService = new AuditLogService(dataDir);
+const piiService = new PIIService(dataDir);
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 // Ensure audio directories exist
 const ensureDirectories = async () => {
@@ -64,7 +69,14 @@ const upload = multer({
  * Transcribe audio to text using OpenAI Whisper or AWS Transcribe
  * Requirements: 16.1, 16.2, 16.4, 16.5
  */
-router.post('/transcribe', upload.single('audio'), async (req: Request, res: Response) => {
+router.post('/transcribe', (req: Request, res: Response, next) => {
+  upload.single('audio')(req, res, (err: any) => {
+    if (err) {
+      return next(err);
+    }
+    runInRequestContext(req, next);
+  });
+}, async (req: Request, res: Response) => {
   let audioFilePath: string | undefined;
 
   try {
@@ -78,9 +90,9 @@ router.post('/transcribe', upload.single('audio'), async (req: Request, res: Res
       awsSecretAccessKey,
       awsSessionToken,
       awsRegion,
-      userId = 'anonymous',
       voiceService
     } = req.body;
+    const userId = (req as AuthRequest).user?.userId || 'anonymous';
 
     if (!req.file) {
       return res.status(400).json({
@@ -96,6 +108,21 @@ router.post('/transcribe', upload.single('audio'), async (req: Request, res: Res
       });
     }
 
+    // The session ID names its PII mapping file, so only accept existing sessions
+    if (!uuidRegex.test(sessionId)) {
+      return res.status(400).json({
+        error: 'Invalid session ID',
+        message: 'Session ID must be a valid UUID'
+      });
+    }
+
+    if (!(await sessionStorage.sessionExists(sessionId))) {
+      return res.status(404).json({
+        error: 'Session not found',
+        sessionId
+      });
+    }
+
     // NOVA 2 SONIC: Use bidirectional streaming for speech-to-speech
     if (provider === 'bedrock') {
       if (!awsAccessKeyId || !awsSecretAccessKey) {
@@ -151,7 +178,6 @@ router.post('/transcribe', upload.single('audio'), async (req: Request, res: Res
         transcriptionResult = await awsVoiceService.transcribe(fileStream, llmConfig);
       }
       console.log('[Voice Route] Transcription completed. Length:', transcriptionResult.transcription.length);
-      console.log('[Voice Route] Result:', transcriptionResult.transcription);
     }
 
     const latencyMs = Date.now() - startTime;
@@ -166,6 +192,14 @@ router.post('/transcribe', upload.single('audio'), async (req: Request, res: Res
       timestamp: new Date().toISOString()
     };
 
+    // Scrub PII before logging; the user gets their own words back
+    const scrubbedTranscription = await piiService.scrubAndStore(
+      transcriptionResult.transcription,
+      sessionId,
+      userId,
+      'voice_transcript'
+    );
+
     // Log to audit
     await auditLogService.log({
       sessionId,
@@ -174,11 +208,11 @@ router.post('/transcribe', upload.single('audio'), async (req: Request, res: Res
       userId,
       data: {
         type: 'voice_transcription',
-        transcription: transcriptionResult.transcription,
+        transcription: scrubbedTranscription.scrubbedText,
         audioFile: path.basename(audioFilePath),
         provider
       },
-      piiScrubbed: false,
+      piiScrubbed: scrubbedTranscription.hasPII,
       metadata: {
         latencyMs,
         llmProvider: provider,
@@ -235,7 +269,6 @@ router.post('/synthesize', async (req: Request, res: Response) => {
       voice = 'alloy',
       provider = 'openai',
       sessionId,
-      userId = 'anonymous',
       customPrompt, // NEW: Allow custom prompt for TTS
       bypassCache, // NEW: Allow bypassing cache for fresh generation
       // OpenAI
@@ -247,6 +280,7 @@ router.post('/synthesize', async (req: Request, res: Response) => {
       awsRegion,
       voiceService
     } = req.body;
+    const userId = (req as AuthRequest).user?.userId || 'anonymous';
 
     if (!text) {
       return res.status(400).json({
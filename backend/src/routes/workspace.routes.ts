@@ -0,0 +1,206 @@
+import { Router, Response } from 'express';
+import { requirePermission, AuthRequest } from '../middleware/auth.middleware';
+import { AuditLogService } from '../services/audit-log.service';
+import { UserService } from '../services/user.service';
+import { WorkspaceService } from '../services/workspace.service';
+
+const router = Router();
+
+// Initialize services
+const dataDir = process.env.DATA_DIR || './data';
+const workspaceService = new WorkspaceService(dataDir);
+const userService = new UserService(dataDir);
+const auditLogService = new AuditLogService(dataDir);
+
+/**
+ * GET /api/workspaces
+ * List the workspaces the current user can access
+ */
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await userService.getUserById(req.user!.userId);
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: 'User account no longer exists'
+      });
+    }
+
+    const workspaces = (await workspaceService.listWorkspaces())
+      .filter(workspace => userService.canAccessWorkspace(user, workspace.workspaceId));
+
+    res.json({
+      workspaces,
+      currentWorkspaceId: req.user!.workspaceId
+    });
+  } catch (error) {
+    console.error('Error listing workspaces:', error);
+    res.status(500).json({
+      error: 'Failed to list workspaces',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * POST /api/workspaces
+ * Create a workspace, copying configuration from an existing one (requires workspaces:manage)
+ */
+router.post('/', requirePermission('workspaces:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { name, description, copyFrom } = req.body;
+
+    if (!name || typeof name !== 'string' || name.trim().length > 100) {
+      return res.status(400).json({
+        error: 'Invalid name',
+        message: 'Workspace name must be a non-empty string of at most 100 characters'
+      });
+    }
+
+    const workspace = await workspaceService.createWorkspace(
+      name.trim(),
+      req.user!.userId,
+      typeof description === 'string' ? description.trim() : undefined,
+      typeof copyFrom === 'string' && copyFrom ? copyFrom : undefined
+    );
+
+    await auditLogService.log({
+      sessionId: 'system',
+      timestamp: new Date().toISOString(),
+      eventType: 'classification',
+      userId: req.user!.userId,
+      data: {
+        action: 'workspace_created',
+        workspaceId: workspace.workspaceId,
+        name: workspace.name,
+        copiedFrom: copyFrom || 'default'
+      },
+      piiScrubbed: false,
+      metadata: {}
+    });
+
+    res.status(201).json({
+      message: 'Workspace created successfully',
+      workspace
+    });
+  } catch (error) {
+    console.error('Error creating workspace:', error);
+
+    if (error instanceof Error && error.message === 'Workspace already exists') {
+      return res.status(409).json({
+        error: 'Workspace already exists',
+        message: 'Please choose a different name'
+      });
+    }
+
+    if (error instanceof Error && (error.message.startsWith('Workspace name') || error.message.endsWith('does not exist'))) {
+      return res.status(400).json({
+        error: 'Invalid workspace',
+        message: error.message
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to create workspace',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * PUT /api/workspaces/:workspaceId
+ * Rename or describe a workspace (requires workspaces:manage)
+ */
+router.put('/:workspaceId', requirePermission('workspaces:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { name, description } = req.body;
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim() || name.trim().length > 100)) {
+      return res.status(400).json({
+        error: 'Invalid name',
+        message: 'Workspace name must be a non-empty string of at most 100 characters'
+      });
+    }
+
+    const workspace = await workspaceService.updateWorkspace(req.params.workspaceId, {
+      name: name?.trim(),
+      description: typeof description === 'string' ? description.trim() : undefined
+    });
+
+    res.json({
+      message: 'Workspace updated successfully',
+      workspace
+    });
+  } catch (error) {
+    console.error('Error updating workspace:', error);
+
+    if (error instanceof Error && error.message === 'Workspace not found') {
+      return res.status(404).json({
+        error: 'Workspace not found',
+        message: `Workspace ${req.params.workspaceId} does not exist`
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to update workspace',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * POST /api/workspaces/:workspaceId/switch
+ * Switch the current user to a workspace and get a token for it
+ */
+router.post('/:workspaceId/switch', async (req: AuthRequest, res: Response) => {
+  try {
+    const { workspaceId } = req.params;
+
+    const workspace = await workspaceService.getWorkspace(workspaceId);
+    if (!workspace) {
+      return res.status(404).json({
+        error: 'Workspace not found',
+        message: `Workspace ${workspaceId} does not exist`
+      });
+    }
+
+    const result = await userService.switchWorkspace(req.user!.userId, req.user!.authSessionId!, workspaceId);
+
+    await auditLogService.log({
+      sessionId: 'system',
+      timestamp: new Date().toISOString(),
+      eventType: 'classification',
+      userId: req.user!.userId,
+      data: {
+        action: 'workspace_switched',
+        fromWorkspaceId: req.user!.workspaceId,
+        toWorkspaceId: workspaceId
+      },
+      piiScrubbed: false,
+      metadata: {}
+    });
+
+    res.json({
+      message: 'Workspace switched successfully',
+      token: result.token,
+      user: result.user,
+      workspace
+    });
+  } catch (error) {
+    console.error('Error switching workspace:', error);
+
+    if (error instanceof Error && error.message === 'User is not a member of this workspace') {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: error.message
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to switch workspace',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,130 @@
+#!/usr/bin/env ts-node
+/**
+ * Script to copy the file-based data layout into the SQLite backend
+ * Usage: npm run migrate-storage
+ *
+ * Documents (sessions, matrices, prompts, users, PII mappings, ...) are
+ * upserted, so the script can be re-run. Audit logs are only imported
+ * into a workspace that has none in the database yet. Audio files stay on disk.
+ */
+
+import { config } from 'dotenv';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getSqlitePath } from '../services/storage.service';
+import { SqliteStorageService } from '../services/sqlite-storage.service';
+import { DEFAULT_WORKSPACE_ID, runInWorkspace, WORKSPACE_DATA_DIR, workspacePath } from '../services/workspace-context';
+import { AuditLogEntry } from '../types';
+
+config();
+
+// Directories that are not documents
+const SKIPPED_DIRS = new Set(['audio', 'audit-logs']);
+const DOCUMENT_EXTENSIONS = new Set(['.json', '.txt']);
+
+/**
+ * List document paths (relative, forward slashes) under the data directory
+ */
+async function listDocuments(dataDir: string, relativeDir = ''): Promise<string[]> {
+  const entries = await fs.readdir(path.join(dataDir, relativeDir), { withFileTypes: true });
+  const documents: string[] = [];
+
+  for (const entry of entries) {
+    const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (!(relativeDir === '' && SKIPPED_DIRS.has(entry.name))) {
+        documents.push(...await listDocuments(dataDir, relativePath));
+      }
+    } else if (DOCUMENT_EXTENSIONS.has(path.extname(entry.name))) {
+      documents.push(relativePath);
+    }
+  }
+
+  return documents;
+}
+
+/**
+ * List workspace IDs that have data in the file layout
+ */
+async function listWorkspaceIds(dataDir: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(path.join(dataDir, WORKSPACE_DATA_DIR), { withFileTypes: true });
+    return [DEFAULT_WORKSPACE_ID, ...entries.filter(e => e.isDirectory()).map(e => e.name)];
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [DEFAULT_WORKSPACE_ID];
+    }
+    throw error;
+  }
+}
+
+async function migrateAuditLogs(dataDir: string, storage: SqliteStorageService, workspaceId: string): Promise<number> {
+  if ((await storage.listAuditLogDates()).length > 0) {
+    console.log(`Audit logs of workspace ${workspaceId} already present in the database, skipping`);
+    return 0;
+  }
+
+  const auditDir = path.join(dataDir, workspacePath('audit-logs', workspaceId));
+  let files: string[];
+  try {
+    files = (await fs.readdir(auditDir)).filter(f => f.endsWith('.jsonl')).sort();
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return 0;
+    }
+    throw error;
+  }
+
+  let count = 0;
+  for (const file of files) {
+    const content = await fs.readFile(path.join(auditDir, file), 'utf-8');
+    const lines = content.split('\n').filter(line => line.trim().length > 0);
+
+    for (const line of lines) {
+      try {
+        await storage.appendAuditLog(JSON.parse(line) as AuditLogEntry);
+        count++;
+      } catch (error) {
+        console.warn(`Skipping unreadable audit log line in ${file}`);
+      }
+    }
+  }
+
+  return count;
+}
+
+async function migrateStorage() {
+  console.log('=== Migrate File Storage to SQLite ===\n');
+
+  const dataDir = process.env.DATA_DIR || './data';
+  const dbPath = path.resolve(getSqlitePath(dataDir));
+  console.log(`Source: ${path.resolve(dataDir)}`);
+  console.log(`Target: ${dbPath}\n`);
+
+  const storage = new SqliteStorageService(dbPath);
+
+  try {
+    const documents = await listDocuments(dataDir);
+    for (const relativePath of documents) {
+      const content = await fs.readFile(path.join(dataDir, relativePath), 'utf-8');
+      await storage.writeFile(relativePath, content);
+    }
+    console.log(`✓ Migrated ${documents.length} document(s)`);
+
+    let auditCount = 0;
+    for (const workspaceId of await listWorkspaceIds(dataDir)) {
+      auditCount += await runInWorkspace(workspaceId, () => migrateAuditLogs(dataDir, storage, workspaceId));
+    }
+    console.log(`✓ Migrated ${auditCount} audit log entr${auditCount === 1 ? 'y' : 'ies'}`);
+
+    console.log('\nSet STORAGE_BACKEND=sqlite to use the migrated data.');
+    storage.close();
+    process.exit(0);
+  } catch (error) {
+    console.error('Error migrating storage:', error instanceof Error ? error.message : error);
+    storage.close();
+    process.exit(1);
+  }
+}
+
+migrateStorage();
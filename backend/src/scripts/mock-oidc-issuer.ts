@@ -0,0 +1,194 @@
+#!/usr/bin/env ts-node
+/**
+ * Minimal OpenID Connect provider for trying out and testing SSO login
+ * Usage: npm run mock-oidc:dev
+ *
+ * Serves discovery, JWKS, an authorization endpoint with a sign-in form
+ * (any username, optional comma-separated groups) and a token endpoint
+ * that enforces PKCE. Not for production use.
+ *
+ * Matching backend settings:
+ *   OIDC_ISSUER=http://localhost:9400
+ *   OIDC_CLIENT_ID=catalai
+ *   OIDC_REDIRECT_URI=http://localhost:4000/api/auth/oidc/callback
+ *   OIDC_ROLE_CLAIM=groups
+ *   OIDC_ROLE_MAPPING=catalai-admins:admin,catalai-reviewers:reviewer
+ *   OIDC_POST_LOGIN_REDIRECT=http://localhost:3000/
+ */
+
+import express, { Express, Request, Response } from 'express';
+import * as crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+export interface MockOidcIssuerOptions {
+  issuer?: string; // Base URL the issuer is reachable at; defaults to the request's host
+  clientId: string;
+  clientSecret?: string; // When set, the token endpoint requires it
+}
+
+interface IssuedCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  username: string;
+  groups: string[];
+  expiresAt: number;
+}
+
+const KEY_ID = 'mock-oidc-key';
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+/**
+ * Create the mock provider's Express app
+ */
+export function createMockOidcIssuer(options: MockOidcIssuerOptions): Express {
+  const app = express();
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const codes = new Map<string, IssuedCode>();
+
+  const issuerFor = (req: Request) => options.issuer || `${req.protocol}://${req.get('host')}`;
+
+  app.use(express.urlencoded({ extended: false }));
+
+  app.get('/.well-known/openid-configuration', (req: Request, res: Response) => {
+    const issuer = issuerFor(req);
+    res.json({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256']
+    });
+  });
+
+  app.get('/jwks', (req: Request, res: Response) => {
+    res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }] });
+  });
+
+  // Sign-in form; the authorization request parameters are passed through
+  app.get('/authorize', (req: Request, res: Response) => {
+    const hiddenFields = Object.entries(req.query)
+      .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(String(value))}">`)
+      .join('\n');
+
+    res.send(`<!DOCTYPE html>
+<html>
+<body style="font-family: sans-serif; max-width: 400px; margin: 60px auto;">
+  <h2>Mock OIDC sign-in</h2>
+  <form method="post" action="/authorize">
+    ${hiddenFields}
+    <p><label>Username<br><input name="username" required autofocus></label></p>
+    <p><label>Groups (comma-separated)<br><input name="groups"></label></p>
+    <button type="submit">Sign in</button>
+  </form>
+</body>
+</html>`);
+  });
+
+  app.post('/authorize', (req: Request, res: Response) => {
+    const { client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method, username, groups } = req.body;
+
+    if (client_id !== options.clientId || !redirect_uri) {
+      return res.status(400).send('Unknown client or missing redirect_uri');
+    }
+    if (!code_challenge || code_challenge_method !== 'S256') {
+      return res.status(400).send('PKCE with S256 is required');
+    }
+    if (!username) {
+      return res.status(400).send('Username is required');
+    }
+
+    const code = crypto.randomBytes(16).toString('hex');
+    codes.set(code, {
+      clientId: client_id,
+      redirectUri: redirect_uri,
+      codeChallenge: code_challenge,
+      nonce,
+      username,
+      groups: String(groups || '').split(',').map(g => g.trim()).filter(Boolean),
+      expiresAt: Date.now() + 60 * 1000
+    });
+
+    const location = new URL(redirect_uri);
+    location.searchParams.set('code', code);
+    if (state) {
+      location.searchParams.set('state', state);
+    }
+    res.redirect(302, location.toString());
+  });
+
+  app.post('/token', (req: Request, res: Response) => {
+    const { grant_type, code, redirect_uri, code_verifier } = req.body;
+    let clientId = req.body.client_id;
+    let clientSecret = req.body.client_secret;
+
+    const authorization = req.headers.authorization;
+    if (authorization?.startsWith('Basic ')) {
+      const [id, secret] = Buffer.from(authorization.slice(6), 'base64').toString().split(':');
+      clientId = decodeURIComponent(id);
+      clientSecret = decodeURIComponent(secret || '');
+    }
+
+    const issued = codes.get(code);
+    codes.delete(code);
+
+    if (grant_type !== 'authorization_code' || !issued || issued.expiresAt < Date.now()) {
+      return res.status(400).json({ error: 'invalid_grant' });
+    }
+    if (clientId !== issued.clientId || (options.clientSecret && clientSecret !== options.clientSecret)) {
+      return res.status(401).json({ error: 'invalid_client' });
+    }
+    if (redirect_uri !== issued.redirectUri) {
+      return res.status(400).json({ error: 'invalid_grant', error_description: 'redirect_uri mismatch' });
+    }
+
+    const challenge = crypto.createHash('sha256').update(String(code_verifier || '')).digest('base64url');
+    if (challenge !== issued.codeChallenge) {
+      return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    }
+
+    const idToken = jwt.sign(
+      {
+        nonce: issued.nonce,
+        preferred_username: issued.username,
+        email: `${issued.username}@example.com`,
+        name: issued.username,
+        groups: issued.groups
+      },
+      privateKey,
+      {
+        algorithm: 'RS256',
+        keyid: KEY_ID,
+        issuer: issuerFor(req),
+        audience: issued.clientId,
+        subject: crypto.createHash('sha256').update(issued.username).digest('hex').slice(0, 24),
+        expiresIn: '5m'
+      }
+    );
+
+    res.json({
+      access_token: crypto.randomBytes(16).toString('hex'),
+      token_type: 'Bearer',
+      expires_in: 300,
+      id_token: idToken
+    });
+  });
+
+  return app;
+}
+
+if (require.main === module) {
+  const port = parseInt(process.env.MOCK_OIDC_PORT || '9400', 10);
+  const issuer = process.env.MOCK_OIDC_ISSUER || `http://localhost:${port}`;
+  const clientId = process.env.OIDC_CLIENT_ID || 'catalai';
+
+  createMockOidcIssuer({ issuer, clientId, clientSecret: process.env.OIDC_CLIENT_SECRET }).listen(port, () => {
+    console.log(`Mock OIDC issuer listening at ${issuer} (client ID: ${clientId})`);
+  });
+}
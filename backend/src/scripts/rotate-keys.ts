@@ -0,0 +1,51 @@
+#!/usr/bin/env ts-node
+/**
+ * Script to re-encrypt stored PII mappings and user credentials with the active keys
+ * Usage: npm run rotate-keys
+ *
+ * To rotate, put a new key first in PII_ENCRYPTION_KEYS or
+ * CREDENTIALS_ENCRYPTION_KEYS and keep the old one after it, e.g.
+ * PII_ENCRYPTION_KEYS=2:<new key>,1:<old key>, then run this script.
+ * Once it has finished, the old key can be removed. Values already under
+ * the active key are skipped, so the script can be re-run.
+ */
+
+import { config } from 'dotenv';
+import { PIIService } from '../services/pii.service';
+import { UserService } from '../services/user.service';
+import { WorkspaceService } from '../services/workspace.service';
+import { loadEncryptionKeys } from '../services/encryption-keys';
+import { runInWorkspace } from '../services/workspace-context';
+
+config();
+
+async function rotateKeys() {
+  console.log('=== Rotate Encryption Keys ===\n');
+
+  const dataDir = process.env.DATA_DIR || './data';
+
+  try {
+    const piiKeys = loadEncryptionKeys('pii');
+    const credentialKeys = loadEncryptionKeys('credentials');
+    console.log(`PII mappings: key ${piiKeys[0].keyId} (${piiKeys.length - 1} older key(s) for decryption)`);
+    console.log(`Credentials: key ${credentialKeys[0].keyId} (${credentialKeys.length - 1} older key(s) for decryption)\n`);
+
+    const piiService = new PIIService(dataDir);
+    const workspaces = await new WorkspaceService(dataDir).listWorkspaces();
+    for (const workspace of workspaces) {
+      const result = await runInWorkspace(workspace.workspaceId, () => piiService.reencryptMappings());
+      console.log(`✓ Workspace ${workspace.workspaceId}: re-encrypted ${result.values} value(s) in ${result.mappings} PII mapping(s)`);
+    }
+
+    const users = await new UserService(dataDir).reencryptCredentials();
+    console.log(`✓ Re-encrypted credentials of ${users} user(s)`);
+
+    console.log('\nOlder keys can now be removed from the key lists.');
+    process.exit(0);
+  } catch (error) {
+    console.error('Error rotating keys:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+rotateKeys();
@@ -0,0 +1,101 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import jwt from 'jsonwebtoken';
+import { AuthSessionService } from '../auth-session.service';
+import { AuthTokens, UserService } from '../user.service';
+
+describe('Login sessions', () => {
+  let dataDir: string;
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-secret';
+  });
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalai-auth-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should rotate refresh tokens and revoke the session when an old one is reused', async () => {
+    const sessions = new AuthSessionService(dataDir);
+    const { session, refreshToken } = await sessions.createSession('u1', 'default');
+
+    const rotated = await sessions.rotateRefreshToken(refreshToken);
+    expect(rotated.refreshToken).not.toEqual(refreshToken);
+    expect(await sessions.isSessionActive('u1', session.sessionId)).toBe(true);
+
+    await expect(sessions.rotateRefreshToken(refreshToken)).rejects.toThrow('Invalid refresh token');
+    expect(await sessions.isSessionActive('u1', session.sessionId)).toBe(false);
+    await expect(sessions.rotateRefreshToken(rotated.refreshToken)).rejects.toThrow('Invalid refresh token');
+  });
+
+  it('should reject malformed refresh tokens', async () => {
+    const sessions = new AuthSessionService(dataDir);
+
+    await expect(sessions.rotateRefreshToken('garbage')).rejects.toThrow('Invalid refresh token');
+    await expect(sessions.rotateRefreshToken('../users.x.y')).rejects.toThrow('Invalid refresh token');
+  });
+
+  it('should issue short-lived access tokens bound to a login session', async () => {
+    const userService = new UserService(dataDir);
+    await userService.createUser('alice', 'password123', 'user');
+
+    const login = (await userService.login('alice', 'password123')) as AuthTokens;
+    const decoded = jwt.decode(login.token) as { sid: string; exp: number; iat: number };
+    expect(decoded.exp - decoded.iat).toBe(15 * 60);
+
+    const refreshed = await userService.refresh(login.refreshToken);
+    expect((jwt.decode(refreshed.token) as { sid: string }).sid).toEqual(decoded.sid);
+
+    await userService.logout(login.user.userId, decoded.sid);
+    expect(await userService.isSessionActive(login.user.userId, decoded.sid)).toBe(false);
+    await expect(userService.refresh(refreshed.refreshToken)).rejects.toThrow('Invalid refresh token');
+  });
+
+  it('should revoke existing sessions when the role or password is changed', async () => {
+    const userService = new UserService(dataDir);
+    const user = await userService.createUser('bob', 'password123', 'user');
+
+    const first = (await userService.login('bob', 'password123')) as AuthTokens;
+    await userService.changeUserRole(user.userId, 'reviewer');
+    await expect(userService.refresh(first.refreshToken)).rejects.toThrow('Invalid refresh token');
+
+    const second = (await userService.login('bob', 'password123')) as AuthTokens;
+    expect(second.user.permissions).toContain('sessions:review');
+    const third = (await userService.login('bob', 'password123')) as AuthTokens;
+    const secondSid = (jwt.decode(second.token) as { sid: string }).sid;
+    const thirdSid = (jwt.decode(third.token) as { sid: string }).sid;
+
+    await userService.changePassword(user.userId, 'password123', 'newpassword1', secondSid);
+    expect(await userService.isSessionActive(user.userId, secondSid)).toBe(true);
+    expect(await userService.isSessionActive(user.userId, thirdSid)).toBe(false);
+
+    await userService.resetUserPassword(user.userId, 'adminreset1');
+    expect(await userService.isSessionActive(user.userId, secondSid)).toBe(false);
+  });
+
+  it('should not keep a removed workspace through refresh', async () => {
+    const userService = new UserService(dataDir);
+    const user = await userService.createUser('carol', 'password123', 'user');
+    await userService.setUserWorkspaces(user.userId, ['default', 'ws-a']);
+
+    const inDefault = (await userService.login('carol', 'password123')) as AuthTokens;
+    const inWorkspace = (await userService.login('carol', 'password123')) as AuthTokens;
+    const inWorkspaceSid = (jwt.decode(inWorkspace.token) as { sid: string }).sid;
+    await userService.switchWorkspace(user.userId, inWorkspaceSid, 'ws-a');
+
+    await userService.setUserWorkspaces(user.userId, ['default']);
+    await expect(userService.refresh(inWorkspace.refreshToken)).rejects.toThrow('Invalid refresh token');
+    expect(await userService.isSessionActive(user.userId, inWorkspaceSid)).toBe(false);
+
+    // Sessions recorded in a workspace the user does not belong to move back to theirs
+    const defaultSid = (jwt.decode(inDefault.token) as { sid: string }).sid;
+    await new AuthSessionService(dataDir).setSessionWorkspace(user.userId, defaultSid, 'ws-b');
+    const refreshed = await userService.refresh(inDefault.refreshToken);
+    expect((jwt.decode(refreshed.token) as { workspaceId: string }).workspaceId).toBe('default');
+  });
+});
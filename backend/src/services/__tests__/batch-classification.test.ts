@@ -0,0 +1,245 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as http from 'http';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { BatchClassificationService } from '../batch-classification.service';
+import { JsonStorageService } from '../storage.service';
+import { SessionStorageService } from '../session-storage.service';
+import { VersionedStorageService } from '../versioned-storage.service';
+import { ClassificationService } from '../classification.service';
+import { DecisionMatrixEvaluatorService } from '../decision-matrix-evaluator.service';
+import { SubjectExtractionService } from '../subject-extraction.service';
+import { PIIService } from '../pii.service';
+import { AuditLogService } from '../audit-log.service';
+import { BatchJob } from '../../types';
+
+// uuid ships as ESM only, which ts-jest does not transform
+jest.mock('uuid', () => ({ v4: () => require('crypto').randomUUID() }));
+
+describe('BatchClassificationService', () => {
+  let dataDir: string;
+  let sessionStorage: SessionStorageService;
+  let batchService: BatchClassificationService;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalai-batch-'));
+    const jsonStorage = new JsonStorageService(dataDir);
+    const versionedStorage = new VersionedStorageService(jsonStorage);
+    sessionStorage = new SessionStorageService(jsonStorage);
+
+    batchService = new BatchClassificationService(
+      jsonStorage,
+      sessionStorage,
+      versionedStorage,
+      new ClassificationService(versionedStorage),
+      new DecisionMatrixEvaluatorService(),
+      new SubjectExtractionService(),
+      new PIIService(dataDir),
+      new AuditLogService(dataDir)
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  describe('parseInput', () => {
+    it('should parse CSV with quoted fields, embedded newlines and optional columns', () => {
+      const csv = [
+        'ID,Description,Subject',
+        'P-1,"Invoices are re-keyed into the ledger, every day",Finance',
+        'P-2,"New starters fill in a ""paper"" form',
+        'that HR scans each week",',
+        ''
+      ].join('\r\n');
+
+      const rows = batchService.parseInput(csv, 'csv');
+
+      expect(rows).toHaveLength(2);
+      expect(rows[0]).toEqual({
+        index: 1,
+        externalId: 'P-1',
+        processDescription: 'Invoices are re-keyed into the ledger, every day',
+        subject: 'Finance'
+      });
+      expect(rows[1].processDescription).toBe('New starters fill in a "paper" form\r\nthat HR scans each week');
+      expect(rows[1].subject).toBeUndefined();
+    });
+
+    it('should reject CSV without a description column', () => {
+      expect(() => batchService.parseInput('name,subject\nfoo,bar\n', 'csv'))
+        .toThrow(/description/);
+    });
+
+    it('should parse JSONL and report the offending line', () => {
+      const rows = batchService.parseInput(
+        '{"processDescription": "Monthly payroll reconciliation in spreadsheets", "subject": "Payroll"}\n\n{"description": "Customer refunds approved by email"}\n',
+        'jsonl'
+      );
+      expect(rows.map(r => r.index)).toEqual([1, 3]);
+      expect(rows[0].subject).toBe('Payroll');
+
+      expect(() => batchService.parseInput('{"description": "ok line here"}\nnot json\n', 'jsonl'))
+        .toThrow('Line 2 is not valid JSON');
+    });
+
+    it('should enforce the item limit', () => {
+      const lines = Array.from(
+        { length: BatchClassificationService.MAX_ITEMS + 1 },
+        (_, i) => JSON.stringify({ description: `Process number ${i} runs daily` })
+      );
+      expect(() => batchService.parseInput(lines.join('\n'), 'jsonl')).toThrow(/limited to/);
+    });
+  });
+
+  describe('jobs', () => {
+    const waitForJob = async (jobId: string): Promise<BatchJob> => {
+      for (let i = 0; i < 100; i++) {
+        const job = await batchService.getJob(jobId);
+        if (job && job.status !== 'running') {
+          return job;
+        }
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+      throw new Error('Batch job did not finish');
+    };
+
+    it('should classify each item into its own session and export results', async () => {
+      const rows = batchService.parseInput(
+        'id,description,subject\nA,Invoices are re-keyed into the ledger every day,Finance\nB,too short,\n',
+        'csv'
+      );
+
+      const started = await batchService.startJob(rows, { model: 'gpt-4', provider: 'mock' }, 'admin-1', 'csv', 'upload.csv');
+      const job = await waitForJob(started.jobId);
+
+      expect(job.status).toBe('completed');
+      expect(job.progress).toEqual({ total: 2, processed: 2, succeeded: 1, failed: 1 });
+
+      const [ok, failed] = job.items;
+      expect(ok.category).toBe('Digitise');
+      expect(ok.triggeredRules).toEqual([]);
+      expect(failed.error).toMatch(/at least 10 characters/);
+
+      const session = await sessionStorage.loadSession(ok.sessionId!);
+      expect(session?.batchJobId).toBe(job.jobId);
+      expect(session?.subject).toBe('Finance');
+      expect(session?.classification?.category).toBe('Digitise');
+
+      const csv = batchService.formatResults(job, 'csv').trim().split('\n');
+      expect(csv[0]).toBe('index,id,subject,status,sessionId,category,confidence,action,matrixVersion,triggeredRules,error');
+      expect(csv[1]).toContain('A,Finance,completed');
+
+      const jsonl = batchService.formatResults(job, 'jsonl').trim().split('\n').map(l => JSON.parse(l));
+      expect(jsonl[1].status).toBe('failed');
+    });
+
+    it('should not export uploaded text as spreadsheet formulas', () => {
+      const job: BatchJob = {
+        jobId: 'formula-job',
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        createdBy: 'admin-1',
+        format: 'csv',
+        status: 'completed',
+        model: 'gpt-4',
+        llmProvider: 'mock',
+        progress: { total: 1, processed: 1, succeeded: 0, failed: 1 },
+        items: [{ index: 1, externalId: '=HYPERLINK("https://attacker.example","Open")', subject: '@SUM(A1)', status: 'failed', error: '-2+3' }]
+      };
+
+      const csv = batchService.formatResults(job, 'csv').trim().split('\n');
+      expect(csv[1]).toBe(`1,"'=HYPERLINK(""https://attacker.example"",""Open"")",'@SUM(A1),failed,,,,,,,'-2+3`);
+    });
+
+    it('should report jobs left running by a previous process as failed', async () => {
+      const stale: BatchJob = {
+        jobId: 'stale-job',
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        createdBy: 'admin-1',
+        format: 'jsonl',
+        status: 'running',
+        model: 'gpt-4',
+        llmProvider: 'openai',
+        progress: { total: 1, processed: 0, succeeded: 0, failed: 0 },
+        items: [{ index: 1, status: 'pending' }]
+      };
+      fs.mkdirSync(path.join(dataDir, 'batch-jobs'), { recursive: true });
+      fs.writeFileSync(path.join(dataDir, 'batch-jobs', 'stale-job.json'), JSON.stringify(stale));
+
+      const job = await batchService.getJob('stale-job');
+      expect(job?.status).toBe('failed');
+      expect(batchService.cancelJob('stale-job')).toBe(false);
+
+      const jobs = await batchService.listJobs();
+      expect(jobs).toHaveLength(1);
+      expect((jobs[0] as any).items).toBeUndefined();
+    });
+  });
+
+  describe('POST /api/batch/jobs', () => {
+    const originalEnv = { DATA_DIR: process.env.DATA_DIR, JWT_SECRET: process.env.JWT_SECRET };
+    let server: http.Server;
+
+    afterEach(() => {
+      server?.close();
+      for (const [name, value] of Object.entries(originalEnv)) {
+        if (value === undefined) {
+          delete process.env[name];
+        } else {
+          process.env[name] = value;
+        }
+      }
+    });
+
+    it('should run the job in the workspace and as the user of the token', async () => {
+      process.env.DATA_DIR = dataDir;
+      process.env.JWT_SECRET = 'batch-route-test-secret';
+
+      // Route modules create their services from DATA_DIR when first loaded
+      let app!: express.Express;
+      let AuthSessionService!: typeof import('../auth-session.service').AuthSessionService;
+      jest.isolateModules(() => {
+        const { authenticateToken } = require('../../middleware/auth.middleware');
+        AuthSessionService = require('../auth-session.service').AuthSessionService;
+        app = express();
+        app.use('/api/batch', authenticateToken, require('../../routes/batch.routes').default);
+      });
+      server = app.listen(0);
+      const baseUrl = `http://127.0.0.1:${(server.address() as any).port}/api/batch/jobs`;
+
+      const { session } = await new AuthSessionService(dataDir).createSession('user-a', 'ws-a');
+      const token = jwt.sign(
+        { userId: 'user-a', username: 'alice', role: 'admin', workspaceId: 'ws-a', sid: session.sessionId },
+        process.env.JWT_SECRET
+      );
+      const headers = { Authorization: `Bearer ${token}` };
+
+      const form = new FormData();
+      form.append('provider', 'mock');
+      // Large enough to arrive after authentication, outside its async context
+      const notes = 'x'.repeat(512 * 1024);
+      form.append('file', new Blob([`description,notes\nInvoices are re-keyed into the ledger every day,${notes}\n`]), 'upload.csv');
+      const started = await (await fetch(baseUrl, { method: 'POST', headers, body: form })).json() as BatchJob;
+
+      let job: BatchJob | undefined;
+      for (let i = 0; i < 100 && job?.status !== 'completed'; i++) {
+        await new Promise(resolve => setTimeout(resolve, 50));
+        job = await (await fetch(`${baseUrl}/${started.jobId}`, { headers })).json() as BatchJob;
+      }
+
+      expect(job?.status).toBe('completed');
+      const workspaceDir = path.join(dataDir, 'workspace-data', 'ws-a');
+      expect(fs.existsSync(path.join(workspaceDir, 'batch-jobs', `${started.jobId}.json`))).toBe(true);
+      expect(fs.existsSync(path.join(workspaceDir, 'sessions', `${job!.items[0].sessionId}.json`))).toBe(true);
+      expect(fs.existsSync(path.join(dataDir, 'batch-jobs'))).toBe(false);
+
+      const [usageFile] = fs.readdirSync(path.join(workspaceDir, 'llm-usage'));
+      const usage = JSON.parse(fs.readFileSync(path.join(workspaceDir, 'llm-usage', usageFile), 'utf-8'));
+      expect(usage[0]).toMatchObject({ userId: 'user-a', username: 'alice' });
+    }, 30000); // Loading the route modules takes a few seconds
+  });
+});
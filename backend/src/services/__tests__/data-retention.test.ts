@@ -0,0 +1,258 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditLogService } from '../audit-log.service';
+import { ErasureService } from '../erasure.service';
+import { PIIService } from '../pii.service';
+import { RetentionService } from '../retention.service';
+import { SessionStorageService } from '../session-storage.service';
+import { createStorage } from '../storage.service';
+import { UserService } from '../user.service';
+import { runAsUser } from '../workspace-context';
+import { AuditLogEntry, ErasureRequestSchema } from '../../types';
+
+// uuid ships as ESM only, which ts-jest does not transform
+jest.mock('uuid', () => ({ v4: () => require('crypto').randomUUID() }));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Data retention and erasure', () => {
+  let dataDir: string;
+  let piiService: PIIService;
+  let sessionStorage: SessionStorageService;
+  let auditLogService: AuditLogService;
+
+  const auditEntry = (sessionId: string, userId: string, data: any): AuditLogEntry => ({
+    sessionId,
+    timestamp: new Date().toISOString(),
+    eventType: 'input',
+    userId,
+    data,
+    piiScrubbed: false
+  });
+
+  const readAllLogs = async () => {
+    const entries: AuditLogEntry[] = [];
+    for (const date of await auditLogService.getAvailableDates()) {
+      entries.push(...await auditLogService.getLogsByDate(date));
+    }
+    return entries;
+  };
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalai-retention-'));
+    piiService = new PIIService(dataDir, 'test-key');
+    sessionStorage = new SessionStorageService(createStorage(dataDir));
+    auditLogService = new AuditLogService(dataDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should purge data older than the retention windows', async () => {
+    const retentionService = new RetentionService(dataDir, piiService);
+    const now = new Date(Date.now() + 60 * DAY_MS);
+
+    const oldSession = await sessionStorage.createSession('old', 'mock');
+    const recentSession = await sessionStorage.createSession('recent', 'mock');
+    recentSession.updatedAt = new Date(now.getTime() - DAY_MS).toISOString();
+    await sessionStorage.saveSession(recentSession, false);
+    await piiService.scrubAndStore('Contact jane@example.com', oldSession.sessionId);
+
+    fs.mkdirSync(path.join(dataDir, 'audit-logs'), { recursive: true });
+    fs.writeFileSync(
+      path.join(dataDir, 'audit-logs', '2020-01-01.jsonl'),
+      JSON.stringify(auditEntry(oldSession.sessionId, 'user-1', {})) + '\n'
+    );
+    await auditLogService.log(auditEntry(recentSession.sessionId, 'user-1', {}));
+
+    const cacheDir = path.join(dataDir, 'audio', 'cache');
+    fs.mkdirSync(cacheDir, { recursive: true });
+    fs.writeFileSync(path.join(cacheDir, 'old.mp3'), 'audio');
+    fs.writeFileSync(path.join(cacheDir, 'recent.mp3'), 'audio');
+    fs.utimesSync(path.join(cacheDir, 'recent.mp3'), now, now);
+
+    await retentionService.updatePolicy({
+      retentionDays: { sessions: 30, audit_logs: 90, pii_mappings: 30, voice_cache: 7 }
+    }, 'admin');
+    const result = await retentionService.purge('admin', now);
+
+    expect(result.deleted).toEqual({ sessions: 1, audit_logs: 1, pii_mappings: 1, voice_cache: 1 });
+    expect(await sessionStorage.listSessions()).toEqual([recentSession.sessionId]);
+    expect(await piiService.hasMappings(oldSession.sessionId)).toBe(false);
+    expect(fs.readdirSync(cacheDir)).toEqual(['recent.mp3']);
+    expect(await retentionService.getLastRun()).toEqual(result);
+
+    const logs = await readAllLogs();
+    expect(logs.map(entry => entry.sessionId)).not.toContain(oldSession.sessionId);
+    expect(logs[logs.length - 1].data).toMatchObject({ action: 'retention_purge', deleted: result.deleted });
+  });
+
+  it('should keep everything but the voice cache by default', async () => {
+    const retentionService = new RetentionService(dataDir, piiService);
+    await sessionStorage.createSession('old', 'mock');
+
+    const result = await retentionService.purge('system', new Date(Date.now() + 3650 * DAY_MS));
+
+    expect(result.deleted).toEqual({ sessions: 0, audit_logs: 0, pii_mappings: 0, voice_cache: 0 });
+    expect(await sessionStorage.listSessions()).toHaveLength(1);
+  });
+
+  it('should erase a user and a PII value and issue a certificate', async () => {
+    const erasureService = new ErasureService(dataDir, piiService);
+    const alice = await new UserService(dataDir).createUser('alice', 'password123', 'user');
+
+    // Alice's session, logged under her username as the web client does
+    const aliceSession = await sessionStorage.createSession('alice', 'mock');
+    await piiService.scrubAndStore('Refunds go to alice@example.com', aliceSession.sessionId, 'alice');
+    await auditLogService.log(auditEntry(aliceSession.sessionId, 'alice', { processDescription: 'Refunds go to [EMAIL_1]' }));
+
+    // Someone else's session mentioning the value, once unscrubbed
+    const otherSession = await sessionStorage.createSession('bob', 'mock');
+    const { updatedAt } = await sessionStorage.addConversation(otherSession.sessionId, 'Ask Jane.Doe@example.com and ops@example.com');
+    await piiService.scrubAndStore('Ask jane.doe@example.com and ops@example.com', otherSession.sessionId, 'bob');
+    await auditLogService.log(auditEntry(otherSession.sessionId, 'bob', { answer: 'Ask jane.doe@example.com' }));
+    await auditLogService.log({
+      ...auditEntry('system', alice.userId, { username: 'alice', ipAddress: '10.0.0.1' }),
+      eventType: 'login_success'
+    });
+
+    const request = ErasureRequestSchema.parse({
+      user: alice.userId,
+      value: 'jane.doe@example.com',
+      reason: 'Erasure request received by email'
+    });
+    const certificate = await erasureService.erase(request, { userId: 'admin-1', username: 'admin' });
+
+    expect(await sessionStorage.sessionExists(aliceSession.sessionId)).toBe(false);
+    expect(await piiService.hasMappings(aliceSession.sessionId)).toBe(false);
+
+    const otherSaved = await sessionStorage.loadSession(otherSession.sessionId);
+    expect(otherSaved!.conversations[0].processDescription).toBe('Ask [ERASED] and ops@example.com');
+    expect(otherSaved!.updatedAt).toBe(updatedAt);
+    expect((await piiService.getReport(otherSession.sessionId)).items.map(item => item.token)).toEqual(['[EMAIL_2]']);
+
+    const logs = await readAllLogs();
+    expect(logs.map(entry => entry.sessionId)).not.toContain(aliceSession.sessionId);
+    expect(logs[0].data).toEqual({ answer: 'Ask [ERASED]' });
+    expect(logs[1]).toMatchObject({ userId: '[ERASED]', data: { username: '[ERASED]' } });
+    expect(logs[1].data.ipAddress).toBeUndefined();
+    expect(logs[2].data).toMatchObject({ action: 'subject_erasure', certificateId: certificate.certificateId });
+    expect(JSON.stringify(logs)).not.toMatch(/alice|jane\.doe/i);
+
+    expect(certificate.subject).toEqual({
+      userIdHash: crypto.createHash('sha256').update(alice.userId).digest('hex'),
+      valueHash: crypto.createHash('sha256').update('jane.doe@example.com').digest('hex')
+    });
+    expect(certificate.workspaces[0]).toEqual({
+      workspaceId: 'default',
+      sessionsDeleted: 1,
+      sessionsAnonymised: 1,
+      piiValuesErased: 1,
+      revealRequestsDeleted: 0,
+      revealRequestsAnonymised: 0,
+      auditEntriesDeleted: 1,
+      auditEntriesAnonymised: 2
+    });
+    const { digest, ...unsigned } = certificate;
+    expect(digest).toBe(crypto.createHash('sha256').update(JSON.stringify(unsigned)).digest('hex'));
+    expect(await erasureService.listCertificates()).toEqual([certificate]);
+  });
+
+  it('should keep sessions the erased user only reviewed', async () => {
+    const erasureService = new ErasureService(dataDir, piiService);
+    const reviewer = await new UserService(dataDir).createUser('ops', 'password123', 'reviewer');
+
+    const session = await sessionStorage.createSession('bob', 'mock');
+    await piiService.scrubAndStore('Refunds go to bob@example.com', session.sessionId, 'bob');
+    await auditLogService.log(auditEntry(session.sessionId, 'bob', { processDescription: 'Ops approve refunds by email' }));
+    await auditLogService.log({
+      ...auditEntry(session.sessionId, reviewer.userId, { adminReview: true, reviewNotes: 'Ops should automate this' }),
+      eventType: 'feedback'
+    });
+    await auditLogService.log({
+      ...auditEntry(session.sessionId, reviewer.userId, { action: 'pii_revealed', requestId: 'request-1' }),
+      eventType: 'classification'
+    });
+    await auditLogService.log({
+      ...auditEntry('system', 'admin-1', { action: 'user_role_changed', username: 'OPS', newRole: 'user' }),
+      eventType: 'classification'
+    });
+
+    const request = ErasureRequestSchema.parse({ user: 'ops', reason: 'Erasure request received by email' });
+    const certificate = await erasureService.erase(request, { userId: 'admin-1', username: 'admin' });
+
+    expect(await sessionStorage.sessionExists(session.sessionId)).toBe(true);
+    expect(await piiService.hasMappings(session.sessionId)).toBe(true);
+    expect(certificate.workspaces[0]).toMatchObject({ sessionsDeleted: 0, auditEntriesDeleted: 0, auditEntriesAnonymised: 3 });
+
+    const logs = await readAllLogs();
+    expect(logs[0]).toMatchObject({ userId: 'bob', data: { processDescription: 'Ops approve refunds by email' } });
+    expect(logs[1]).toMatchObject({ userId: '[ERASED]', data: { reviewNotes: 'Ops should automate this' } });
+    expect(logs[2].userId).toBe('[ERASED]');
+    expect(logs[3]).toMatchObject({ userId: 'admin-1', data: { username: '[ERASED]', newRole: 'user' } });
+  });
+
+  it('should delete the sessions a user submitted after their audit entries were purged', async () => {
+    const erasureService = new ErasureService(dataDir, piiService);
+    const alice = await new UserService(dataDir).createUser('alice', 'password123', 'user');
+    const aliceSession = await runAsUser({ userId: alice.userId, username: 'alice' }, () =>
+      sessionStorage.createSession('alice', 'mock')
+    );
+    const otherSession = await sessionStorage.createSession('bob', 'mock');
+
+    const request = ErasureRequestSchema.parse({ user: 'alice', reason: 'Erasure request received by email' });
+    const certificate = await erasureService.erase(request, { userId: 'admin-1', username: 'admin' });
+
+    expect(aliceSession.userId).toBe(alice.userId);
+    expect(await sessionStorage.sessionExists(aliceSession.sessionId)).toBe(false);
+    expect(await sessionStorage.sessionExists(otherSession.sessionId)).toBe(true);
+    expect(certificate.workspaces[0].sessionsDeleted).toBe(1);
+  });
+
+  it('should erase a short value only where it stands as a word', async () => {
+    const erasureService = new ErasureService(dataDir, piiService);
+    const session = await sessionStorage.createSession('bob', 'mock');
+    const { updatedAt, conversations } = await sessionStorage.addConversation(session.sessionId, 'Tim signs off timesheets, ask TIM');
+    const { timestamp } = conversations[0];
+    await auditLogService.log(auditEntry(session.sessionId, 'bob', { answer: 'Ask Tim', timestamps: 'daily' }));
+
+    const request = ErasureRequestSchema.parse({ value: 'Tim', reason: 'Erasure request received by email' });
+    await erasureService.erase(request, { userId: 'admin-1', username: 'admin' });
+
+    const saved = await sessionStorage.loadSession(session.sessionId);
+    expect(saved!.conversations[0].processDescription).toBe('[ERASED] signs off timesheets, ask [ERASED]');
+    expect(saved!.conversations[0].timestamp).toBe(timestamp);
+    expect(saved!.updatedAt).toBe(updatedAt);
+
+    const logs = await readAllLogs();
+    expect(logs[0].data).toEqual({ answer: 'Ask [ERASED]', timestamps: 'daily' });
+    expect(logs[0].timestamp).toEqual(expect.any(String));
+  });
+
+  it('should change nothing when an erasure would leave a session invalid', async () => {
+    const erasureService = new ErasureService(dataDir, piiService);
+    const alice = await new UserService(dataDir).createUser('alice', 'password123', 'user');
+    const aliceSession = await runAsUser({ userId: alice.userId, username: 'alice' }, () =>
+      sessionStorage.createSession('alice', 'mock')
+    );
+    const otherSession = await sessionStorage.createSession('bob', 'mock');
+    otherSession.feedback = { confirmed: false, correctedCategory: 'RPA', timestamp: otherSession.createdAt };
+    await sessionStorage.saveSession(otherSession);
+
+    const request = ErasureRequestSchema.parse({ user: 'alice', value: 'rpa', reason: 'Erasure request received by email' });
+    await expect(erasureService.erase(request, { userId: 'admin-1', username: 'admin' }))
+      .rejects.toThrow(`would leave session ${otherSession.sessionId} invalid`);
+
+    expect(await sessionStorage.sessionExists(aliceSession.sessionId)).toBe(true);
+    expect((await sessionStorage.loadSession(otherSession.sessionId))!.feedback!.correctedCategory).toBe('RPA');
+    expect(await erasureService.listCertificates()).toEqual([]);
+  });
+
+  it('should require a user or a value to erase', () => {
+    expect(ErasureRequestSchema.safeParse({ reason: 'Erasure request received by email' }).success).toBe(false);
+    expect(ErasureRequestSchema.safeParse({ value: 'jane@example.com', reason: 'Too short' }).success).toBe(false);
+  });
+});
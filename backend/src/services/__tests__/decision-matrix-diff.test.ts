@@ -0,0 +1,106 @@
+import { DecisionMatrixDiffService } from '../decision-matrix-diff.service';
+import { DecisionMatrix, Rule } from '../../types';
+
+describe('DecisionMatrixDiffService', () => {
+  const diffService = new DecisionMatrixDiffService();
+
+  const baseRule: Rule = {
+    ruleId: '1c8e6f0a-2b3d-4e5f-8a9b-0c1d2e3f4a5b',
+    name: 'Daily processes',
+    description: 'Daily processes are automation candidates',
+    conditions: [{ attribute: 'frequency', operator: '==', value: 'daily' }],
+    action: { type: 'override', targetCategory: 'RPA', rationale: 'Runs daily' },
+    priority: 80,
+    active: true
+  };
+
+  const baseMatrix: DecisionMatrix = {
+    version: '1.0',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    createdBy: 'admin',
+    description: 'Test matrix',
+    active: true,
+    attributes: [
+      { name: 'frequency', type: 'categorical', possibleValues: ['daily', 'weekly'], weight: 0.5, description: 'How often' },
+      { name: 'risk', type: 'categorical', possibleValues: ['low', 'high'], weight: 0.7, description: 'Risk level' }
+    ],
+    rules: [
+      baseRule,
+      {
+        ...baseRule,
+        ruleId: '2d9f7a1b-3c4e-4f60-9b0c-1d2e3f4a5b6c',
+        name: 'High risk',
+        conditions: [{ attribute: 'risk', operator: '==', value: 'high' }],
+        action: { type: 'adjust_confidence', confidenceAdjustment: -0.1, rationale: 'Risky' }
+      }
+    ]
+  };
+
+  it('should report no changes between identical versions', () => {
+    const diff = diffService.diff(baseMatrix, { ...baseMatrix, version: '1.1', createdAt: new Date().toISOString() });
+
+    expect(diff.attributes).toEqual([]);
+    expect(diff.rules).toEqual([]);
+    expect(diff.matrixChanges).toEqual([]);
+  });
+
+  it('should report added, removed and modified attributes and rules with field-level changes', () => {
+    const updated: DecisionMatrix = {
+      ...baseMatrix,
+      version: '1.1',
+      attributes: [
+        { ...baseMatrix.attributes[0], weight: 0.8 },
+        { name: 'user_count', type: 'numeric', weight: 0.3, description: 'Number of users' }
+      ],
+      rules: [
+        {
+          ...baseRule,
+          priority: 90,
+          conditions: [
+            { attribute: 'frequency', operator: 'in', value: ['daily', 'weekly'] },
+            { not: { attribute: 'risk', operator: '==', value: 'high' } }
+          ],
+          action: { type: 'override', targetCategory: 'AI Agent', rationale: 'Runs daily' }
+        },
+        {
+          ...baseRule,
+          ruleId: '3e0a8b2c-4d5f-4a71-8c1d-2e3f4a5b6c7d',
+          name: 'New rule'
+        }
+      ]
+    };
+
+    const diff = diffService.diff(baseMatrix, updated);
+
+    expect(diff.fromVersion).toBe('1.0');
+    expect(diff.toVersion).toBe('1.1');
+    expect(diff.summary).toEqual({
+      attributesAdded: 1,
+      attributesRemoved: 1,
+      attributesModified: 1,
+      rulesAdded: 1,
+      rulesRemoved: 1,
+      rulesModified: 1
+    });
+
+    expect(diff.attributes.find(a => a.name === 'frequency')!.changes).toEqual([
+      { field: 'weight', before: 0.5, after: 0.8 }
+    ]);
+    expect(diff.attributes.find(a => a.name === 'risk')!.changeType).toBe('removed');
+
+    const modifiedRule = diff.rules.find(r => r.changeType === 'modified')!;
+    expect(modifiedRule.ruleId).toBe(baseRule.ruleId);
+    expect(modifiedRule.changes).toEqual([
+      { field: 'priority', before: 80, after: 90 },
+      {
+        field: 'conditions[0]',
+        before: { attribute: 'frequency', operator: '==', value: 'daily' },
+        after: { attribute: 'frequency', operator: 'in', value: ['daily', 'weekly'] }
+      },
+      { field: 'conditions[1]', after: { not: { attribute: 'risk', operator: '==', value: 'high' } } },
+      { field: 'action.targetCategory', before: 'RPA', after: 'AI Agent' }
+    ]);
+
+    expect(diff.rules.find(r => r.changeType === 'removed')!.name).toBe('High risk');
+  });
+});
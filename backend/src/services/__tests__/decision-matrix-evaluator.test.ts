@@ -0,0 +1,99 @@
+import {
+  DecisionMatrixEvaluatorService,
+  collectConditions,
+  getConditionDepth
+} from '../decision-matrix-evaluator.service';
+import { Classification, DecisionMatrix, DecisionMatrixSchema, Rule } from '../../types';
+
+describe('DecisionMatrixEvaluatorService - condition groups', () => {
+  const evaluator = new DecisionMatrixEvaluatorService();
+
+  const classification: Classification = {
+    category: 'Digitise',
+    confidence: 0.8,
+    rationale: 'Base classification',
+    categoryProgression: '',
+    futureOpportunities: '',
+    timestamp: new Date().toISOString(),
+    modelUsed: 'test',
+    llmProvider: 'mock'
+  };
+
+  const buildMatrix = (conditions: Rule['conditions']): DecisionMatrix => ({
+    version: '1.0',
+    createdAt: new Date().toISOString(),
+    createdBy: 'admin',
+    description: 'Test matrix',
+    active: true,
+    attributes: [],
+    rules: [
+      {
+        ruleId: '7b0c4a9e-1f4d-4a8e-9c3b-2d6f5e8a1b7c',
+        name: 'Frequent and not risky',
+        description: 'Test rule',
+        conditions,
+        action: { type: 'override', targetCategory: 'RPA', rationale: 'Matched' },
+        priority: 80,
+        active: true
+      }
+    ]
+  });
+
+  const overrides = (matrix: DecisionMatrix, attributes: Record<string, any>): boolean =>
+    evaluator.evaluateMatrix(matrix, classification, attributes).overridden;
+
+  it('should keep treating a flat condition list as AND', () => {
+    const matrix = buildMatrix([
+      { attribute: 'frequency', operator: '==', value: 'daily' },
+      { attribute: 'risk', operator: '==', value: 'low' }
+    ]);
+
+    expect(overrides(matrix, { frequency: 'daily', risk: 'low' })).toBe(true);
+    expect(overrides(matrix, { frequency: 'daily', risk: 'high' })).toBe(false);
+  });
+
+  it('should evaluate nested any/all/not groups', () => {
+    const matrix = buildMatrix([
+      {
+        any: [
+          { attribute: 'frequency', operator: '==', value: 'daily' },
+          {
+            all: [
+              { attribute: 'frequency', operator: '==', value: 'weekly' },
+              { attribute: 'user_count', operator: '>=', value: 20 }
+            ]
+          }
+        ]
+      },
+      { not: { attribute: 'risk', operator: 'in', value: ['high', 'critical'] } }
+    ]);
+
+    expect(overrides(matrix, { frequency: 'daily', risk: 'low' })).toBe(true);
+    expect(overrides(matrix, { frequency: 'weekly', user_count: 50, risk: 'medium' })).toBe(true);
+    expect(overrides(matrix, { frequency: 'weekly', user_count: 5, risk: 'medium' })).toBe(false);
+    expect(overrides(matrix, { frequency: 'daily', risk: 'critical' })).toBe(false);
+  });
+
+  it('should validate groups in the matrix schema and reject empty or mixed groups', () => {
+    const valid = buildMatrix([
+      { any: [{ attribute: 'frequency', operator: '==', value: 'daily' }] }
+    ]);
+    expect(DecisionMatrixSchema.safeParse(valid).success).toBe(true);
+
+    expect(DecisionMatrixSchema.safeParse(buildMatrix([{ any: [] }])).success).toBe(false);
+    expect(DecisionMatrixSchema.safeParse(buildMatrix([
+      { all: [{ attribute: 'risk', operator: '==', value: 'low' }], any: [] } as any
+    ])).success).toBe(false);
+  });
+
+  it('should report nesting depth and flatten groups', () => {
+    const conditions: Rule['conditions'] = [
+      { attribute: 'risk', operator: '==', value: 'low' },
+      { not: { any: [{ attribute: 'frequency', operator: '==', value: 'daily' }] } }
+    ];
+
+    expect(getConditionDepth([conditions[0]])).toBe(1);
+    expect(getConditionDepth(conditions)).toBe(3);
+    expect(collectConditions(conditions).map(c => c.attribute)).toEqual(['risk', 'frequency']);
+  });
+});
@@ -0,0 +1,134 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DecisionMatrixSimulationService } from '../decision-matrix-simulation.service';
+import { DecisionMatrixEvaluatorService } from '../decision-matrix-evaluator.service';
+import { JsonStorageService } from '../storage.service';
+import { SessionStorageService } from '../session-storage.service';
+import { VersionedStorageService } from '../versioned-storage.service';
+import { Classification, DecisionMatrix, Session, TransformationCategory } from '../../types';
+
+describe('DecisionMatrixSimulationService', () => {
+  let dataDir: string;
+  let simulationService: DecisionMatrixSimulationService;
+
+  // The last digit doubles as the day of the month the session was created
+  const sessionIds = [1, 2, 3, 4].map(n => `00000000-0000-4000-8000-00000000000${n}`);
+
+  const buildMatrix = (version: string, targetCategory: TransformationCategory): DecisionMatrix => ({
+    version,
+    createdAt: new Date().toISOString(),
+    createdBy: 'admin',
+    description: 'Test matrix',
+    active: true,
+    attributes: [],
+    rules: [
+      {
+        ruleId: '5f1d2c3b-4a5e-4f60-8a7b-9c0d1e2f3a4b',
+        name: 'Daily processes',
+        description: 'Daily processes are automation candidates',
+        conditions: [{ attribute: 'frequency', operator: '==', value: 'daily' }],
+        action: { type: 'override', targetCategory, rationale: 'Runs daily' },
+        priority: 80,
+        active: true
+      }
+    ]
+  });
+
+  const writeSession = (
+    sessionId: string,
+    frequency: string | null,
+    feedback?: Session['feedback']
+  ) => {
+    const llmClassification: Classification = {
+      category: 'Digitise',
+      confidence: 0.8,
+      rationale: 'LLM',
+      categoryProgression: '',
+      futureOpportunities: '',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      modelUsed: 'mock-model',
+      llmProvider: 'mock'
+    };
+
+    const session: Session = {
+      sessionId,
+      initiativeId: sessionId,
+      createdAt: `2024-01-0${sessionId.slice(-1)}T00:00:00.000Z`,
+      updatedAt: '2024-01-01T00:00:00.000Z',
+      status: 'completed',
+      modelUsed: 'mock-model',
+      conversations: [],
+      classification: frequency === null ? llmClassification : {
+        ...llmClassification,
+        decisionMatrixEvaluation: {
+          matrixVersion: '1.0',
+          originalClassification: llmClassification,
+          extractedAttributes: { frequency },
+          triggeredRules: [],
+          finalClassification: llmClassification,
+          overridden: false
+        }
+      },
+      feedback
+    };
+
+    fs.writeFileSync(path.join(dataDir, 'sessions', `${sessionId}.json`), JSON.stringify(session));
+  };
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalai-simulate-'));
+    fs.mkdirSync(path.join(dataDir, 'sessions'), { recursive: true });
+
+    const jsonStorage = new JsonStorageService(dataDir);
+    const versionedStorage = new VersionedStorageService(jsonStorage);
+    await versionedStorage.saveDecisionMatrix(buildMatrix('1.0', 'RPA'));
+
+    simulationService = new DecisionMatrixSimulationService(
+      new SessionStorageService(jsonStorage),
+      versionedStorage,
+      new DecisionMatrixEvaluatorService()
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should compare the draft with the active matrix and with user feedback', async () => {
+    writeSession(sessionIds[0], 'daily', { confirmed: false, correctedCategory: 'AI Agent', timestamp: '2024-01-02T00:00:00.000Z' });
+    writeSession(sessionIds[1], 'daily', { confirmed: true, timestamp: '2024-01-02T00:00:00.000Z' });
+    writeSession(sessionIds[2], 'weekly');
+    writeSession(sessionIds[3], null);
+
+    const result = await simulationService.simulate(buildMatrix('1.1-draft', 'AI Agent'));
+
+    expect(result.activeVersion).toBe('1.0');
+    expect(result.sessionsEvaluated).toBe(3);
+    expect(result.sessionsSkipped).toBe(1);
+    expect(result.changedCount).toBe(2);
+    expect(result.vsActive).toEqual({
+      'RPA': { 'AI Agent': 2 },
+      'Digitise': { 'Digitise': 1 }
+    });
+
+    // The second session was confirmed as stored (Digitise - the stored classification, not a replay)
+    expect(result.vsUserCorrected).toEqual({
+      sessions: 2,
+      activeCorrect: 0,
+      draftCorrect: 1,
+      table: {
+        'AI Agent': { 'AI Agent': 1 },
+        'Digitise': { 'AI Agent': 1 }
+      }
+    });
+
+    expect(result.changes.map(c => c.sessionId)).toEqual([sessionIds[1], sessionIds[0]]);
+    expect(result.changes[1]).toMatchObject({
+      activeCategory: 'RPA',
+      draftCategory: 'AI Agent',
+      userCategory: 'AI Agent',
+      draftTriggeredRules: ['Daily processes']
+    });
+  });
+});
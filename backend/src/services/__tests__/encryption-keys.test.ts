@@ -0,0 +1,112 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findInsecureKeys, KeyRing, parseKeyList } from '../encryption-keys';
+import { PIIService } from '../pii.service';
+import { UserService } from '../user.service';
+
+// uuid ships as ESM only, which ts-jest does not transform
+jest.mock('uuid', () => ({ v4: () => require('crypto').randomUUID() }));
+
+describe('Encryption keys', () => {
+  const oldKey = { keyId: '1', secret: 'old-secret-for-tests' };
+  const newKey = { keyId: '2', secret: 'new-secret-for-tests' };
+
+  it('should parse key lists with the active key first', () => {
+    expect(parseKeyList('2:new-secret, 1:old:secret')).toEqual([
+      { keyId: '2', secret: 'new-secret' },
+      { keyId: '1', secret: 'old:secret' }
+    ]);
+    expect(() => parseKeyList('no-key-id')).toThrow('each entry must be keyId:secret');
+    expect(() => parseKeyList('1:a,1:b')).toThrow('key ID 1 is used twice');
+  });
+
+  it('should decrypt with older keys and data written before keys had IDs', () => {
+    const legacyKey = crypto.scryptSync(oldKey.secret, 'salt', 32);
+    const iv = crypto.randomBytes(16);
+    const cipher = crypto.createCipheriv('aes-256-gcm', legacyKey, iv) as crypto.CipherGCM;
+    const data = cipher.update('jane@example.com', 'utf8', 'hex') + cipher.final('hex');
+    const legacy = `${iv.toString('hex')}:${cipher.getAuthTag().toString('hex')}:${data}`;
+
+    const oldRing = new KeyRing([oldKey]);
+    const rotated = new KeyRing([newKey, oldKey]);
+    const underOldKey = oldRing.encrypt('jane@example.com');
+
+    expect(underOldKey.startsWith('1:')).toBe(true);
+    expect(rotated.decrypt(legacy)).toBe('jane@example.com');
+    expect(rotated.decrypt(underOldKey)).toBe('jane@example.com');
+    expect(rotated.isCurrent(underOldKey)).toBe(false);
+
+    const reencrypted = rotated.reencrypt(underOldKey);
+    expect(reencrypted.startsWith('2:')).toBe(true);
+    expect(rotated.reencrypt(reencrypted)).toBe(reencrypted);
+    expect(() => oldRing.decrypt(reencrypted)).toThrow('Unknown encryption key ID 2');
+  });
+
+  it('should refuse default and weak keys for production', () => {
+    const strong = 'k3y-from-openssl-rand-base64-32';
+
+    expect(findInsecureKeys({ JWT_SECRET: strong, PII_ENCRYPTION_KEY: strong })).toEqual([]);
+    expect(findInsecureKeys({ JWT_SECRET: strong })).toEqual([
+      'PII_ENCRYPTION_KEY or PII_ENCRYPTION_KEYS is not set; the built-in development key would be used'
+    ]);
+    expect(findInsecureKeys({
+      JWT_SECRET: 'your-super-secret-jwt-key-change-in-production',
+      PII_ENCRYPTION_KEYS: `2:short,1:${strong}`,
+      CREDENTIALS_ENCRYPTION_KEY: 'your-credentials-encryption-key-change-in-production'
+    })).toEqual([
+      'PII_ENCRYPTION_KEYS (key 2) is shorter than 16 characters',
+      'CREDENTIALS_ENCRYPTION_KEY is a default or example value',
+      'JWT_SECRET is a default or example value'
+    ]);
+    // A default key may stay listed for decryption while rotating away from it
+    expect(findInsecureKeys({
+      JWT_SECRET: strong,
+      PII_ENCRYPTION_KEYS: `2:${strong},1:catalai-default-pii-key-change-in-production`
+    })).toEqual([]);
+  });
+
+  describe('rotation', () => {
+    let dataDir: string;
+    const originalEnv = process.env.CREDENTIALS_ENCRYPTION_KEYS;
+
+    beforeEach(() => {
+      dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalai-keys-'));
+    });
+
+    afterEach(() => {
+      process.env.CREDENTIALS_ENCRYPTION_KEYS = originalEnv;
+      if (originalEnv === undefined) {
+        delete process.env.CREDENTIALS_ENCRYPTION_KEYS;
+      }
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('should re-encrypt PII mappings with the active key', async () => {
+      await new PIIService(dataDir, [oldKey]).scrubAndStore('555-123-4567 or jane@example.com', 'session-1');
+
+      const rotated = new PIIService(dataDir, [newKey, oldKey]);
+      expect(await rotated.reencryptMappings()).toEqual({ mappings: 1, values: 2 });
+      expect(await rotated.reencryptMappings()).toEqual({ mappings: 0, values: 0 });
+
+      const newKeyOnly = new PIIService(dataDir, [newKey]);
+      expect(await newKeyOnly.getDecryptedValue('session-1', '[EMAIL_1]', 'admin', 'test')).toBe('jane@example.com');
+      expect((await newKeyOnly.getAccessLog('session-1')).map(entry => entry.purpose)).toContain('key_rotation');
+    });
+
+    it('should re-encrypt user credentials with the active key', async () => {
+      process.env.CREDENTIALS_ENCRYPTION_KEYS = `1:${oldKey.secret}`;
+      const user = await new UserService(dataDir).createUser('alice', 'password123', 'user');
+      await new UserService(dataDir).storeCredentials(user.userId, { apiKey: 'sk-test-123' });
+
+      process.env.CREDENTIALS_ENCRYPTION_KEYS = `2:${newKey.secret},1:${oldKey.secret}`;
+      expect(await new UserService(dataDir).reencryptCredentials()).toBe(1);
+
+      process.env.CREDENTIALS_ENCRYPTION_KEYS = `2:${newKey.secret}`;
+      const userService = new UserService(dataDir);
+      expect((await userService.getCredentials(user.userId)).apiKey).toBe('sk-test-123');
+      expect((await userService.getUserById(user.userId))!.apiKey!.startsWith('2:')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClarificationService, DEFAULT_INTERVIEW_POLICY } from '../clarification.service';
+import { JsonStorageService } from '../storage.service';
+import { VersionedStorageService } from '../versioned-storage.service';
+import { InterviewPolicySchema } from '../../types';
+
+describe('Interview policy', () => {
+  let dataDir: string;
+  let versionedStorage: VersionedStorageService;
+  let clarificationService: ClarificationService;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalai-interview-policy-'));
+    versionedStorage = new VersionedStorageService(new JsonStorageService(dataDir));
+    clarificationService = new ClarificationService(versionedStorage);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const history = [
+    { question: 'How often does the invoicing happen?', answer: "I don't know" },
+    { question: 'Which systems hold the ledger?', answer: 'Not sure' },
+    { question: 'Who approves payments today?', answer: "I don't know, sorry" }
+  ];
+
+  it('should stop the interview at the limits and thresholds of the policy', () => {
+    expect(clarificationService.shouldStopInterview(history).shouldStop).toBe(false);
+
+    expect(clarificationService.shouldStopInterview(history, { ...DEFAULT_INTERVIEW_POLICY, hardLimitQuestions: 3 }))
+      .toEqual({ shouldStop: true, reason: 'Interview limit reached (3 questions)' });
+    expect(clarificationService.shouldStopInterview(history, { ...DEFAULT_INTERVIEW_POLICY, unknownAnswerCheckAfter: 3 }))
+      .toEqual({ shouldStop: true, reason: 'User unable to provide more information' });
+    expect(clarificationService.getRemainingQuestionCount(history, { ...DEFAULT_INTERVIEW_POLICY, hardLimitQuestions: 5 }))
+      .toBe(2);
+  });
+
+  it('should version saved policies, with the newest one active', async () => {
+    const seeded = await clarificationService.getActiveInterviewPolicy();
+    expect(seeded).toEqual(DEFAULT_INTERVIEW_POLICY);
+    expect(await versionedStorage.getNextInterviewPolicyVersion()).toBe('1.1');
+
+    await versionedStorage.saveInterviewPolicy({ ...DEFAULT_INTERVIEW_POLICY, version: '1.1', hardLimitQuestions: 6 });
+
+    expect(await versionedStorage.listInterviewPolicyVersions()).toEqual(['1.1', '1.0']);
+    expect((await clarificationService.getActiveInterviewPolicy()).hardLimitQuestions).toBe(6);
+    // A session keeps the version its interview started with
+    expect((await clarificationService.getInterviewPolicy('1.0')).hardLimitQuestions).toBe(15);
+    expect((await clarificationService.getInterviewPolicy('9.9')).version).toBe('1.1');
+  });
+
+  it('should reject inconsistent policies', () => {
+    expect(InterviewPolicySchema.safeParse(DEFAULT_INTERVIEW_POLICY).success).toBe(true);
+
+    const result = InterviewPolicySchema.safeParse({ ...DEFAULT_INTERVIEW_POLICY, softLimitQuestions: 20 });
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error.issues[0].path).toEqual(['softLimitQuestions']);
+  });
+
+  it('should limit each round to the questions the policy allows', async () => {
+    const response = await clarificationService.generateQuestions({
+      processDescription: 'Staff re-key invoices into the ledger every day.',
+      classification: {
+        category: 'Digitise',
+        confidence: 0.7,
+        rationale: 'Manual re-keying',
+        categoryProgression: '',
+        futureOpportunities: ''
+      },
+      conversationHistory: [],
+      provider: 'mock',
+      model: 'gpt-4',
+      interviewPolicy: { ...DEFAULT_INTERVIEW_POLICY, maxQuestionsPerRound: 1 }
+    });
+
+    expect(response.shouldClarify).toBe(true);
+    expect(response.questions).toHaveLength(1);
+  });
+});
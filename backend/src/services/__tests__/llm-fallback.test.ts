@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LLMQuotaService } from '../llm-quota.service';
+import { CircuitBreaker, isRetryableLLMError, loadFallbackChain } from '../llm-resilience';
+import { LLMUsageService } from '../llm-usage.service';
+import { LLMService, ChatMessage } from '../llm.service';
+import { LocalLLMService } from '../local-llm.service';
+import { MockLLMService } from '../mock-llm.service';
+
+describe('LLM fallback and retries', () => {
+  const messages: ChatMessage[] = [
+    { role: 'user', content: 'Process Description: Staff re-key invoices into the ledger every day.' }
+  ];
+  const unavailable = () => Object.assign(new Error('Service unavailable'), { status: 503 });
+  let dataDir: string;
+  let chatSpy: jest.SpyInstance;
+
+  const createService = (circuitBreaker: CircuitBreaker) =>
+    new LLMService(new LLMUsageService(dataDir), new LLMQuotaService(dataDir), circuitBreaker);
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalai-fallback-'));
+    process.env.LLM_RETRY_INITIAL_DELAY_MS = '0';
+    process.env.LLM_FALLBACK_CHAIN = 'mock:backup-model';
+    chatSpy = jest.spyOn(MockLLMService.prototype, 'chat');
+  });
+
+  afterEach(() => {
+    chatSpy.mockRestore();
+    delete process.env.LLM_RETRY_INITIAL_DELAY_MS;
+    delete process.env.LLM_FALLBACK_CHAIN;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should parse the fallback chain and classify retryable errors', () => {
+    expect(loadFallbackChain({ LLM_FALLBACK_CHAIN: 'bedrock:anthropic.claude-3-haiku-20240307-v1:0, openai:gpt-4o-mini' })).toEqual([
+      { provider: 'bedrock', model: 'anthropic.claude-3-haiku-20240307-v1:0' },
+      { provider: 'openai', model: 'gpt-4o-mini' }
+    ]);
+
+    expect(isRetryableLLMError({ name: 'ThrottlingException' })).toBe(true);
+    expect(isRetryableLLMError({ status: 429 })).toBe(true);
+    expect(isRetryableLLMError(new Error('Operation timed out after 30000ms'))).toBe(true);
+    expect(isRetryableLLMError({ status: 401 })).toBe(false);
+  });
+
+  it('should retry a throttled call before falling back', async () => {
+    chatSpy.mockRejectedValueOnce(Object.assign(new Error('Rate limited'), { status: 429 }));
+    const llmService = createService(new CircuitBreaker(5, 60_000));
+
+    const response = await llmService.chat(messages, 'gpt-4', { provider: 'mock' }, 'classification');
+
+    expect(chatSpy).toHaveBeenCalledTimes(2);
+    expect(response.answeredBy).toEqual({ provider: 'mock', model: 'gpt-4', fallback: false });
+  });
+
+  it('should answer from the fallback chain and stop calling a provider with an open circuit', async () => {
+    // Circuits are kept per provider, so a local server stands in for the failing one
+    const localChat = jest.spyOn(LocalLLMService.prototype, 'chat').mockRejectedValue(unavailable());
+    const llmService = createService(new CircuitBreaker(3, 60_000));
+    const config = { provider: 'local' as const, baseUrl: 'http://llm.internal:11434' };
+
+    try {
+      const response = await llmService.chat(messages, 'llama3', config, 'classification');
+      expect(response.answeredBy).toEqual({ provider: 'mock', model: 'backup-model', fallback: true });
+      expect(localChat).toHaveBeenCalledTimes(3);
+
+      // The circuit is now open, so the local server isn't tried at all
+      await llmService.chat(messages, 'llama3', config, 'classification');
+      expect(localChat).toHaveBeenCalledTimes(3);
+    } finally {
+      localChat.mockRestore();
+    }
+  });
+
+  it('should not fall back on errors that a different provider would not fix', async () => {
+    chatSpy.mockRejectedValueOnce(Object.assign(new Error('Invalid API key'), { status: 401 }));
+    const llmService = createService(new CircuitBreaker(5, 60_000));
+
+    await expect(llmService.chat(messages, 'gpt-4', { provider: 'mock' }, 'classification')).rejects.toThrow('Invalid API key');
+    expect(chatSpy).toHaveBeenCalledTimes(1);
+  });
+});
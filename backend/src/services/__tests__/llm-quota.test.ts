@@ -0,0 +1,86 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditLogService } from '../audit-log.service';
+import { LLMQuotaService } from '../llm-quota.service';
+import { LLMUsageService } from '../llm-usage.service';
+import { LLMService, ChatMessage } from '../llm.service';
+import { runAsUser } from '../workspace-context';
+
+describe('LLM quotas', () => {
+  const messages: ChatMessage[] = [
+    { role: 'user', content: 'Process Description: Staff re-key invoices into the ledger every day.' }
+  ];
+  let dataDir: string;
+  let quotaService: LLMQuotaService;
+  let llmService: LLMService;
+
+  const chatAs = (userId: string) =>
+    runAsUser({ userId, username: userId }, () =>
+      llmService.chat(messages, 'gpt-4', { provider: 'mock' }, 'classification')
+    );
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalai-quota-'));
+    quotaService = new LLMQuotaService(dataDir);
+    llmService = new LLMService(new LLMUsageService(dataDir), quotaService);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should reject calls once a hard per-user limit is used up', async () => {
+    await quotaService.updateSettings({
+      mode: 'hard',
+      warnAtPercent: 80,
+      global: {},
+      perUser: { dailyTokens: 1 },
+      userOverrides: { carol: { monthlyTokens: 1_000_000 } }
+    }, 'admin');
+
+    await chatAs('alice');
+    await expect(chatAs('alice')).rejects.toThrow('LLM quota exceeded: Daily token limit for this user reached');
+
+    // Other users have their own quota, and overrides replace the default
+    await chatAs('bob');
+    await chatAs('carol');
+    await chatAs('carol');
+
+    const [alice, carol] = await quotaService.listStatuses(['alice', 'carol']);
+    expect(alice.exceeded).toBe(true);
+    expect(alice.quotas).toEqual([expect.objectContaining({ scope: 'user', period: 'daily', metric: 'tokens', limit: 1, remaining: 0 })]);
+    expect(carol.exceeded).toBe(false);
+    expect(carol.quotas[0].remaining).toBe(1_000_000 - carol.quotas[0].used);
+  });
+
+  it('should only warn in soft mode and apply global limits to everyone', async () => {
+    await quotaService.updateSettings({
+      mode: 'soft',
+      warnAtPercent: 80,
+      global: { monthlyTokens: 1 },
+      perUser: {},
+      userOverrides: {}
+    }, 'admin');
+
+    await chatAs('alice');
+    await expect(chatAs('bob')).resolves.toBeDefined();
+
+    const status = await quotaService.getStatus('bob');
+    expect(status.exceeded).toBe(true);
+    expect(status.warnings[0]).toMatch(/^Monthly token limit for all users reached/);
+
+    // Going over is recorded for admins once per user and day
+    await chatAs('bob');
+    const auditLogService = new AuditLogService(dataDir);
+    const logs = (await auditLogService.getLogsByDate(new Date().toISOString().slice(0, 10)))
+      .filter(entry => entry.data?.action === 'llm_quota_exceeded');
+    expect(logs).toEqual([expect.objectContaining({
+      userId: 'bob',
+      data: { action: 'llm_quota_exceeded', mode: 'soft', limits: [expect.stringMatching(/^Monthly token limit for all users reached/)] }
+    })]);
+
+    await expect(quotaService.updateSettings({ ...await quotaService.getSettings(), perUser: { dailyCost: -1 } }, 'admin'))
+      .rejects.toThrow('Invalid quota limit');
+  });
+});
@@ -0,0 +1,69 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClassificationService } from '../classification.service';
+import { LLMService, ChatMessage } from '../llm.service';
+import { MockLLMService } from '../mock-llm.service';
+import { JsonStorageService } from '../storage.service';
+import { extractPartialJsonString } from '../structured-output';
+import { VersionedStorageService } from '../versioned-storage.service';
+
+describe('LLM streaming', () => {
+  const messages: ChatMessage[] = [
+    { role: 'user', content: 'Process Description: Staff re-key invoices into the ledger every day.' }
+  ];
+
+  it('should read a string property from incomplete JSON', () => {
+    expect(extractPartialJsonString('{"category": "RPA", "ratio', 'rationale')).toBeNull();
+    expect(extractPartialJsonString('{"rationale": "Manual \\"re-keying\\"\\nis slow', 'rationale'))
+      .toBe('Manual "re-keying"\nis slow');
+    // An escape sequence cut off mid-way is left out until it is complete
+    expect(extractPartialJsonString('{"rationale": "Caf\\u00', 'rationale')).toBe('Caf');
+    expect(extractPartialJsonString('{"rationale": "Caf\\u00e9", "confidence": 0.9}', 'rationale')).toBe('Café');
+  });
+
+  it('should stream content and start again when a call is retried', async () => {
+    process.env.LLM_RETRY_INITIAL_DELAY_MS = '0';
+    const chatSpy = jest.spyOn(MockLLMService.prototype, 'chat')
+      .mockRejectedValueOnce(Object.assign(new Error('Service unavailable'), { status: 503 }));
+
+    try {
+      const contents: string[] = [];
+      const response = await new LLMService().chat(
+        messages, 'gpt-4', { provider: 'mock' }, 'classification', content => contents.push(content)
+      );
+
+      // The failed attempt only produced the empty start; the retry streams the whole response
+      expect(contents[0]).toBe('');
+      expect(contents[1]).toBe('');
+      expect(contents.length).toBeGreaterThan(3);
+      expect(contents[contents.length - 1]).toBe(response.content);
+    } finally {
+      chatSpy.mockRestore();
+      delete process.env.LLM_RETRY_INITIAL_DELAY_MS;
+    }
+  });
+
+  it('should stream the classification rationale as it is written', async () => {
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalai-streaming-'));
+
+    try {
+      const classificationService = new ClassificationService(
+        new VersionedStorageService(new JsonStorageService(dataDir))
+      );
+      const rationales: string[] = [];
+
+      const result = await classificationService.classifyWithLLMData(
+        { processDescription: 'Staff re-key invoices into the ledger every day.', provider: 'mock', model: 'gpt-4' },
+        rationale => rationales.push(rationale)
+      );
+
+      const written = rationales.filter(rationale => rationale.length > 0);
+      expect(written.length).toBeGreaterThan(1);
+      expect(written.every((rationale, i) => i === 0 || rationale.startsWith(written[i - 1]))).toBe(true);
+      expect(written[written.length - 1]).toBe(result.result.rationale);
+    } finally {
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,60 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { estimateCost, LLMUsageService, loadPriceTable } from '../llm-usage.service';
+import { LLMQuotaService } from '../llm-quota.service';
+import { LLMService, ChatMessage } from '../llm.service';
+import { runAsUser, runInWorkspace } from '../workspace-context';
+
+describe('LLM usage tracking', () => {
+  const messages: ChatMessage[] = [
+    { role: 'user', content: 'Process Description: Staff re-key invoices into the ledger every day.' }
+  ];
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalai-usage-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should price models by their longest matching price table entry', () => {
+    const table = loadPriceTable({ LLM_PRICE_TABLE: '{"my-model": {"inputPerMillion": 1, "outputPerMillion": 2}}' });
+
+    expect(estimateCost('openai', 'gpt-4o-mini-2024-07-18', 1_000_000, 1_000_000, table)).toBeCloseTo(0.75);
+    expect(estimateCost('bedrock', 'us.anthropic.claude-3-5-sonnet-20241022-v2:0', 1000, 1000, table)).toBeCloseTo(0.018);
+    expect(estimateCost('openai', 'my-model', 1_000_000, 500_000, table)).toBeCloseTo(2);
+    expect(estimateCost('openai', 'unknown-model', 1000, 1000, table)).toBeNull();
+    expect(estimateCost('local', 'llama3', 1000, 1000, table)).toBe(0);
+  });
+
+  it('should record calls made for a user and summarise them per workspace', async () => {
+    const llmService = new LLMService(new LLMUsageService(dataDir), new LLMQuotaService(dataDir));
+    const chatAs = (username: string, workspaceId: string, promptId: string) =>
+      runAsUser({ userId: `id-${username}`, username }, () =>
+        runInWorkspace(workspaceId, () => llmService.chat(messages, 'gpt-4', { provider: 'mock' }, promptId))
+      );
+
+    await chatAs('alice', 'default', 'classification');
+    await chatAs('alice', 'default', 'clarification');
+    await chatAs('bob', 'default', 'classification');
+    await chatAs('bob', 'hr', 'classification');
+    // Calls outside a user's request are not attributed or recorded
+    await llmService.chat(messages, 'gpt-4', { provider: 'mock' }, 'classification');
+
+    const usageService = new LLMUsageService(dataDir);
+    const summary = await runInWorkspace('default', () => usageService.getSummary(7));
+
+    expect(summary.totals.calls).toBe(3);
+    expect(summary.totals.totalTokens).toBeGreaterThan(0);
+    expect(summary.byUser.map(row => [row.label, row.calls])).toEqual(expect.arrayContaining([['alice', 2], ['bob', 1]]));
+    expect(summary.byStage.find(row => row.key === 'classification')!.calls).toBe(2);
+    expect(summary.byModel).toEqual([expect.objectContaining({ key: 'gpt-4', calls: 3, estimatedCost: 0 })]);
+    expect(summary.byDay).toHaveLength(1);
+
+    const hrSummary = await runInWorkspace('hr', () => usageService.getSummary(7));
+    expect(hrSummary.totals.calls).toBe(1);
+  });
+});
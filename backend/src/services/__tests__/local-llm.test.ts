@@ -0,0 +1,112 @@
+import { isAllowedLocalLLMBaseUrl, LocalLLMService } from '../local-llm.service';
+import { isProviderUnavailableError } from '../llm-resilience';
+import { LLMProviderConfig } from '../llm-provider.interface';
+
+describe('Local LLM provider', () => {
+  const config: LLMProviderConfig = { provider: 'local', baseUrl: 'http://llm.internal:11434' };
+  const messages = [{ role: 'user' as const, content: 'Classify this process' }];
+  const originalEnv = { ...process.env };
+
+  let fetchMock: jest.SpyInstance;
+  let localLLMService: LocalLLMService;
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+
+  beforeEach(() => {
+    process.env.LOCAL_LLM_ALLOWED_BASE_URLS = 'http://llm.internal:11434, http://gpu-1.internal:8000/v1';
+    delete process.env.LOCAL_LLM_BASE_URL;
+    fetchMock = jest.spyOn(global, 'fetch');
+    localLLMService = new LocalLLMService();
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('should send chat completions to the OpenAI-compatible API root', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({
+      model: 'llama3.1:8b',
+      choices: [{ message: { role: 'assistant', content: '{"category":"RPA"}' } }],
+      usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 }
+    }));
+
+    const response = await localLLMService.chat(messages, 'llama3.1', config);
+
+    expect(response).toEqual({
+      content: '{"category":"RPA"}',
+      model: 'llama3.1:8b',
+      usage: { promptTokens: 12, completionTokens: 5, totalTokens: 17 }
+    });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(String(url)).toBe('http://llm.internal:11434/v1/chat/completions');
+    expect(JSON.parse(init.body)).toMatchObject({ model: 'llama3.1', messages });
+  });
+
+  it('should reject a chat response without content', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ model: 'llama3.1', choices: [] }));
+
+    await expect(localLLMService.chat(messages, 'llama3.1', config)).rejects.toThrow('No content in local LLM response');
+  });
+
+  it('should list the models the server has loaded without retrying failures', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({
+      object: 'list',
+      data: [{ id: 'mistral', object: 'model', created: 1700000000, owned_by: 'library' }, { id: 'phi3', object: 'model' }]
+    }));
+
+    const models = await localLLMService.listModels({ ...config, baseUrl: 'http://gpu-1.internal:8000/v1/' });
+    expect(String(fetchMock.mock.calls[0][0])).toBe('http://gpu-1.internal:8000/v1/models');
+    expect(models.map(model => [model.id, model.ownedBy, model.created])).toEqual([
+      ['mistral', 'library', 1700000000],
+      ['phi3', 'local', 0]
+    ]);
+
+    fetchMock.mockResolvedValueOnce(jsonResponse({ error: { message: 'overloaded' } }, 503));
+    await expect(localLLMService.listModels(config)).rejects.toMatchObject({ status: 503 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only call base URLs the administrator allowed', async () => {
+    await expect(localLLMService.chat(messages, 'llama3.1', { ...config, baseUrl: 'http://169.254.169.254' }))
+      .rejects.toThrow('Local LLM base URL is not allowed: http://169.254.169.254');
+    await expect(localLLMService.listModels({ ...config, baseUrl: 'http://llm.internal:11434/admin' }))
+      .rejects.toThrow('not allowed');
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    expect(isAllowedLocalLLMBaseUrl('http://LLM.internal:11434/v1/')).toBe(true);
+    expect(isAllowedLocalLLMBaseUrl('http://gpu-1.internal:8000')).toBe(true);
+    expect(isAllowedLocalLLMBaseUrl('http://gpu-1.internal:8000/v2')).toBe(false);
+    expect(isAllowedLocalLLMBaseUrl('http://localhost:11434', { LOCAL_LLM_BASE_URL: 'http://localhost:11434/v1' })).toBe(true);
+    expect(isAllowedLocalLLMBaseUrl('http://localhost:11434', {})).toBe(false);
+    expect(isAllowedLocalLLMBaseUrl('file:///etc/passwd', { LOCAL_LLM_ALLOWED_BASE_URLS: 'file:///etc/passwd' })).toBe(false);
+  });
+
+  it('should time out a server that does not answer and clear the timer otherwise', async () => {
+    jest.useFakeTimers();
+    fetchMock.mockReturnValue(new Promise(() => undefined));
+
+    const pending = localLLMService.chat(messages, 'llama3.1', config);
+    const assertion = expect(pending).rejects.toThrow('Operation timed out after 120000ms');
+    await jest.advanceTimersByTimeAsync(120000);
+    await assertion;
+
+    fetchMock.mockResolvedValue(jsonResponse({ object: 'list', data: [] }));
+    const timersBefore = jest.getTimerCount();
+    await localLLMService.listModels(config);
+    expect(jest.getTimerCount()).toBe(timersBefore);
+  });
+
+  it('should name an unreachable server and keep the network error code', async () => {
+    const refused = Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+    fetchMock.mockRejectedValue(Object.assign(new TypeError('fetch failed'), { cause: refused }));
+
+    const error = await localLLMService.chat(messages, 'llama3.1', config).catch(failure => failure);
+
+    expect(error.message).toBe('Local LLM server at http://llm.internal:11434 is not reachable (ECONNREFUSED)');
+    expect(error.code).toBe('ECONNREFUSED');
+    expect(isProviderUnavailableError(error)).toBe(true);
+  });
+});
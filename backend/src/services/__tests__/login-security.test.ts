@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getPasswordPolicyViolations, loadPasswordPolicy } from '../password-policy';
+import { getLockoutMinutes, UserService } from '../user.service';
+
+describe('Password policy', () => {
+  it('should apply the configured rules', () => {
+    const policy = loadPasswordPolicy({ PASSWORD_MIN_LENGTH: '12', PASSWORD_REQUIRE_UPPERCASE: 'true', PASSWORD_REQUIRE_SYMBOL: 'true' });
+
+    expect(getPasswordPolicyViolations('Correct-Horse-Battery-9', policy)).toEqual([]);
+    expect(getPasswordPolicyViolations('short1', policy)).toEqual([
+      'must be at least 12 characters',
+      'must contain an uppercase letter',
+      'must contain a symbol'
+    ]);
+    expect(getPasswordPolicyViolations('Alice-Password-1', policy, 'alice')).toEqual(['must not contain the username']);
+  });
+});
+
+describe('Login lockout and audit trail', () => {
+  let dataDir: string;
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-secret';
+    process.env.LOGIN_LOCKOUT_THRESHOLD = '3';
+  });
+
+  afterAll(() => {
+    delete process.env.LOGIN_LOCKOUT_THRESHOLD;
+  });
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalai-login-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should double the lockout with every failure past the threshold', () => {
+    const env = { LOGIN_LOCKOUT_THRESHOLD: '3', LOGIN_LOCKOUT_MINUTES: '1', LOGIN_LOCKOUT_MAX_MINUTES: '5' };
+    expect([2, 3, 4, 5, 6].map(attempts => getLockoutMinutes(attempts, env))).toEqual([0, 1, 2, 4, 5]);
+  });
+
+  it('should enforce the policy when creating users and changing passwords', async () => {
+    const userService = new UserService(dataDir);
+
+    await expect(userService.createUser('carol', 'nodigits', 'user')).rejects.toThrow('Password does not meet the policy');
+    const user = await userService.createUser('carol', 'password123', 'user');
+    await expect(userService.changePassword(user.userId, 'password123', 'carol12345')).rejects.toThrow('must not contain the username');
+    await expect(userService.resetUserPassword(user.userId, 'short1')).rejects.toThrow('must be at least 8 characters');
+  });
+
+  it('should lock the account after repeated failures and record login events', async () => {
+    const userService = new UserService(dataDir);
+    const user = await userService.createUser('dave', 'password123', 'user');
+    const client = { ipAddress: '10.0.0.1' };
+
+    for (let i = 0; i < 3; i++) {
+      await expect(userService.login('dave', 'wrong-password', client)).rejects.toThrow('Invalid username or password');
+    }
+    // The correct password doesn't help while locked
+    await expect(userService.login('dave', 'password123', client)).rejects.toThrow('Account locked');
+
+    await userService.unlockUser(user.userId);
+    await userService.login('dave', 'password123', client);
+    expect((await userService.getUserById(user.userId))!.failedLoginAttempts).toBe(0);
+
+    const events = await userService.listLoginEvents(1, 'dave');
+    expect(events.map(e => e.eventType)).toEqual([
+      'login_success',
+      'login_failure',
+      'account_locked',
+      'login_failure',
+      'login_failure',
+      'login_failure'
+    ]);
+    expect(events[1].data).toEqual(expect.objectContaining({ reason: 'account_locked', ipAddress: '10.0.0.1' }));
+  });
+});
@@ -0,0 +1,114 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MockLLMService, MockScript } from '../mock-llm.service';
+import { LLMService, ChatMessage } from '../llm.service';
+import { ClassificationService } from '../classification.service';
+import { JsonStorageService } from '../storage.service';
+import { VersionedStorageService } from '../versioned-storage.service';
+
+describe('MockLLMService', () => {
+  const messages: ChatMessage[] = [
+    { role: 'system', content: 'You are a classifier.' },
+    { role: 'user', content: 'Process Description: Staff re-key invoices into the ledger every day.' }
+  ];
+
+  it('should replay the scripted response for a matching input hash', async () => {
+    const mock = new MockLLMService();
+    const inputHash = mock.computeInputHash(messages);
+
+    const scripted = new MockLLMService({
+      responses: {
+        classification: {
+          [inputHash]: { category: 'RPA', confidence: 0.95, rationale: 'Scripted' },
+          default: { category: 'Simplify', confidence: 0.5, rationale: 'Fallback' }
+        }
+      }
+    });
+
+    const response = await scripted.chat(messages, 'gpt-4', { provider: 'mock', promptId: 'classification' });
+
+    expect(JSON.parse(response.content).category).toBe('RPA');
+    expect(response.model).toBe('gpt-4');
+    expect(scripted.getTranscript()[0]).toMatchObject({ promptId: 'classification', inputHash, source: 'script' });
+  });
+
+  it('should fall back to the script default and then the built-in default', async () => {
+    const script: MockScript = {
+      responses: {
+        classification: { default: { category: 'Simplify', confidence: 0.5 } }
+      }
+    };
+    const mock = new MockLLMService(script);
+
+    const scriptedDefault = await mock.chat(messages, 'gpt-4', { provider: 'mock', promptId: 'classification' });
+    expect(JSON.parse(scriptedDefault.content).category).toBe('Simplify');
+
+    const builtIn = await mock.chat(messages, 'gpt-4', { provider: 'mock', promptId: 'subject-extraction' });
+    expect(builtIn.content).toBe('Operations');
+    expect(mock.getTranscript()[1].source).toBe('default');
+  });
+
+  it('should ignore system prompt and whitespace changes when hashing', () => {
+    const mock = new MockLLMService();
+    const edited: ChatMessage[] = [
+      { role: 'system', content: 'You are an updated classifier prompt.' },
+      { role: 'user', content: '  Process Description:   Staff re-key invoices into the ledger\nevery day. ' }
+    ];
+
+    expect(mock.computeInputHash(edited)).toBe(mock.computeInputHash(messages));
+  });
+
+  it('should fail clearly when no response is available', async () => {
+    const mock = new MockLLMService({ responses: {} });
+
+    await expect(
+      mock.chat(messages, 'gpt-4', { provider: 'mock', promptId: 'unknown-prompt' })
+    ).rejects.toThrow(/No mock response for prompt "unknown-prompt"/);
+  });
+
+  it('should only be selectable through LLMService when enabled', async () => {
+    const originalEnv = process.env.NODE_ENV;
+    const originalFlag = process.env.MOCK_LLM_ENABLED;
+    process.env.NODE_ENV = 'production';
+    delete process.env.MOCK_LLM_ENABLED;
+
+    try {
+      const llmService = new LLMService();
+      await expect(
+        llmService.chat(messages, 'gpt-4', { provider: 'mock' }, 'classification')
+      ).rejects.toThrow(/Mock LLM provider is disabled/);
+    } finally {
+      process.env.NODE_ENV = originalEnv;
+      if (originalFlag !== undefined) {
+        process.env.MOCK_LLM_ENABLED = originalFlag;
+      }
+    }
+  });
+
+  it('should drive ClassificationService end to end without credentials', async () => {
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalai-mock-llm-'));
+
+    try {
+      const versionedStorage = new VersionedStorageService(new JsonStorageService(dataDir));
+      const classificationService = new ClassificationService(versionedStorage);
+
+      const result = await classificationService.classify({
+        processDescription: 'Staff re-key invoices into the ledger every day.',
+        provider: 'mock',
+        model: 'gpt-4'
+      });
+      expect(result.category).toBe('Digitise');
+      expect(result.confidence).toBeCloseTo(0.82);
+
+      const attributes = await classificationService.extractAttributes(
+        'Staff re-key invoices into the ledger every day.',
+        [],
+        { processDescription: 'Staff re-key invoices into the ledger every day.', provider: 'mock', model: 'gpt-4' }
+      );
+      expect(attributes.frequency.value).toBe('daily');
+    } finally {
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+  });
+});
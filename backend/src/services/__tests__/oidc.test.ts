@@ -0,0 +1,150 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { createMockOidcIssuer } from '../../scripts/mock-oidc-issuer';
+import { loadOidcConfig, OidcService, parseRoleMapping } from '../oidc.service';
+import { UserService } from '../user.service';
+
+const REDIRECT_URI = 'http://localhost:4000/api/auth/oidc/callback';
+
+describe('OpenID Connect login', () => {
+  let server: Server;
+  let issuer: string;
+  let dataDir: string;
+
+  const createService = (env: Record<string, string> = {}) => new OidcService(loadOidcConfig({
+    OIDC_ISSUER: issuer,
+    OIDC_CLIENT_ID: 'catalai',
+    OIDC_CLIENT_SECRET: 'client-secret',
+    OIDC_REDIRECT_URI: REDIRECT_URI,
+    OIDC_ROLE_CLAIM: 'groups',
+    OIDC_ROLE_MAPPING: 'catalai-admins:admin,catalai-reviewers:reviewer',
+    ...env
+  }));
+
+  /**
+   * Follow the provider's sign-in form as a browser would and return the callback
+   * parameters with the browser's binding cookie
+   */
+  const signIn = async (
+    { url: authorizationUrl, browserBinding }: { url: string; browserBinding: string },
+    username: string,
+    groups = ''
+  ) => {
+    const url = new URL(authorizationUrl);
+    const form = new URLSearchParams(url.searchParams);
+    form.set('username', username);
+    form.set('groups', groups);
+
+    const response = await fetch(`${issuer}/authorize`, { method: 'POST', body: form, redirect: 'manual' });
+    const callback = new URL(response.headers.get('location')!);
+    return {
+      code: callback.searchParams.get('code')!,
+      state: callback.searchParams.get('state')!,
+      browserBinding
+    };
+  };
+
+  beforeAll(async () => {
+    process.env.JWT_SECRET = 'test-secret';
+    await new Promise<void>(resolve => {
+      const app = createMockOidcIssuer({ clientId: 'catalai', clientSecret: 'client-secret' });
+      server = app.listen(0, '127.0.0.1', () => resolve());
+    });
+    issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalai-oidc-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should complete the authorization-code flow with PKCE', async () => {
+    const oidcService = createService();
+    const authorization = await oidcService.createAuthorizationUrl();
+    const params = new URL(authorization.url).searchParams;
+    expect(params.get('code_challenge_method')).toBe('S256');
+    expect(params.get('redirect_uri')).toBe(REDIRECT_URI);
+
+    const { code, state, browserBinding } = await signIn(authorization, 'jane', 'staff,catalai-reviewers');
+    const identity = await oidcService.handleCallback(code, state, browserBinding);
+
+    expect(identity).toEqual(expect.objectContaining({ issuer, username: 'jane', role: 'reviewer' }));
+    expect(identity.subject).toBeTruthy();
+  });
+
+  it('should reject a state that was already used', async () => {
+    const oidcService = createService();
+    const { code, state, browserBinding } = await signIn(await oidcService.createAuthorizationUrl(), 'jane');
+
+    await oidcService.handleCallback(code, state, browserBinding);
+    await expect(oidcService.handleCallback(code, state, browserBinding))
+      .rejects.toThrow('Invalid or expired login state');
+  });
+
+  it('should only finish a login in the browser that started it', async () => {
+    const oidcService = createService();
+    const victim = await oidcService.createAuthorizationUrl();
+    const attacker = await signIn(await oidcService.createAuthorizationUrl(), 'mallory');
+
+    // A callback URL planted in another browser is rejected
+    await expect(oidcService.handleCallback(attacker.code, attacker.state, victim.browserBinding))
+      .rejects.toThrow('Login was started in another browser');
+    const withoutCookie = await signIn(await oidcService.createAuthorizationUrl(), 'mallory');
+    await expect(oidcService.handleCallback(withoutCookie.code, withoutCookie.state, undefined))
+      .rejects.toThrow('Login was started in another browser');
+
+    // So is a login code redeemed without the cookie of the browser it was issued to
+    const handoff = oidcService.createHandoff({ token: 'jwt' }, attacker.browserBinding);
+    expect(oidcService.redeemHandoff(handoff, victim.browserBinding)).toBeNull();
+    const retry = oidcService.createHandoff({ token: 'jwt' }, attacker.browserBinding);
+    expect(oidcService.redeemHandoff(retry, undefined)).toBeNull();
+    const own = oidcService.createHandoff({ token: 'jwt' }, attacker.browserBinding);
+    expect(oidcService.redeemHandoff(own, attacker.browserBinding)).toEqual({ token: 'jwt' });
+  });
+
+  it('should provision users on first login and keep roles in sync with the provider', async () => {
+    const oidcService = createService();
+    const userService = new UserService(dataDir);
+
+    const first = await signIn(await oidcService.createAuthorizationUrl(), 'sam', 'catalai-admins');
+    const login = await userService.loginWithOidc(await oidcService.handleCallback(first.code, first.state, first.browserBinding));
+    expect(login.user).toEqual(expect.objectContaining({ username: 'sam', role: 'admin', authProvider: 'oidc' }));
+
+    const second = await signIn(await oidcService.createAuthorizationUrl(), 'sam');
+    const relogin = await userService.loginWithOidc(await oidcService.handleCallback(second.code, second.state, second.browserBinding));
+    expect(relogin.user.userId).toEqual(login.user.userId);
+    expect(relogin.user.role).toBe('user');
+
+    // SSO accounts can't log in with a password
+    await expect(userService.login('sam', '')).rejects.toThrow('Invalid username or password');
+  });
+
+  it('should not link SSO logins to existing local accounts', async () => {
+    const oidcService = createService();
+    const userService = new UserService(dataDir);
+    await userService.createUser('admin', 'password123', 'admin');
+
+    const { code, state, browserBinding } = await signIn(
+      await oidcService.createAuthorizationUrl(), 'admin', 'catalai-admins'
+    );
+    await expect(userService.loginWithOidc(await oidcService.handleCallback(code, state, browserBinding)))
+      .rejects.toThrow('not linked to single sign-on');
+  });
+
+  it('should parse role mappings and skip unknown roles', () => {
+    expect(parseRoleMapping('urn:catalai:admins:admin, editors:matrix-editor, x:superuser')).toEqual([
+      { claimValue: 'urn:catalai:admins', role: 'admin' },
+      { claimValue: 'editors', role: 'matrix-editor' }
+    ]);
+  });
+});
@@ -0,0 +1,51 @@
+import { Response } from 'express';
+import { AuthRequest, requirePermission } from '../../middleware/auth.middleware';
+import { getRolePermissions, hasPermission, isUserRole } from '../permissions';
+
+describe('Role permissions', () => {
+  it('should grant admins every permission and regular users none', () => {
+    expect(getRolePermissions('admin')).toContain('users:manage');
+    expect(getRolePermissions('user')).toEqual([]);
+    expect(getRolePermissions('unknown-role')).toEqual([]);
+    expect(isUserRole('matrix-editor')).toBe(true);
+    expect(isUserRole('superuser')).toBe(false);
+  });
+
+  it('should let reviewers review sessions without editing the matrix', () => {
+    expect(hasPermission('reviewer', 'sessions:review')).toBe(true);
+    expect(hasPermission('reviewer', 'matrix:read')).toBe(true);
+    expect(hasPermission('reviewer', 'matrix:edit')).toBe(false);
+  });
+
+  it('should keep auditors read-only', () => {
+    const permissions = getRolePermissions('auditor');
+    expect(permissions).toEqual(expect.arrayContaining(['audit:read', 'analytics:read']));
+    expect(permissions.filter(p => p.endsWith(':edit') || p.endsWith(':manage'))).toEqual([]);
+  });
+});
+
+describe('requirePermission middleware', () => {
+  const run = (role: string | null) => {
+    const req = { user: role ? { userId: 'u1', username: 'alice', role, workspaceId: 'default' } : undefined } as AuthRequest;
+    const res = { status: jest.fn().mockReturnThis(), json: jest.fn() } as unknown as Response;
+    const next = jest.fn();
+    requirePermission('prompts:edit')(req, res, next);
+    return { res, next };
+  };
+
+  it('should call next when the role grants the permission', () => {
+    expect(run('prompt-editor').next).toHaveBeenCalled();
+  });
+
+  it('should reject roles without the permission', () => {
+    const { res, next } = run('matrix-editor');
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it('should reject unauthenticated requests', () => {
+    const { res, next } = run(null);
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+});
@@ -0,0 +1,212 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PIIDetectionService } from '../pii-detection.service';
+import { validateIbanMod97, validateLuhn } from '../pii-detectors';
+import { PIIService } from '../pii.service';
+import { PIIDetectorSettings, PIIDetectorSettingsSchema } from '../../types';
+
+// uuid ships as ESM only, which ts-jest does not transform
+jest.mock('uuid', () => ({ v4: () => require('crypto').randomUUID() }));
+
+describe('PII detection', () => {
+  const detectionService = new PIIDetectionService();
+
+  const noCustomisation: PIIDetectorSettings = {
+    disabledDetectors: [],
+    customDetectors: [],
+    personNames: []
+  };
+
+  it('should validate checksums', () => {
+    expect(validateLuhn('4532 0151 1283 0366')).toBe(true);
+    expect(validateLuhn('4532 0151 1283 0367')).toBe(false);
+    expect(validateIbanMod97('GB82 WEST 1234 5698 7654 32')).toBe(true);
+    expect(validateIbanMod97('DE89370400440532013000')).toBe(true);
+    expect(validateIbanMod97('GB82 WEST 1234 5698 7654 33')).toBe(false);
+  });
+
+  it('should detect UK and EU identifiers, dropping IBANs that fail mod-97', () => {
+    const result = detectionService.detectAndScrub(
+      'Refunds go to GB82 WEST 1234 5698 7654 32, not GB82 WEST 1234 5698 7654 33. ' +
+      'NI number QQ123456C is invalid, AB 12 34 56 C is not. Post to SW1A 1AA.'
+    );
+
+    expect(result.scrubbedText).toBe(
+      'Refunds go to [IBAN_1], not GB82 WEST 1234 5698 7654 33. ' +
+      'NI number QQ123456C is invalid, [NI_NUMBER_1] is not. Post to [POSTCODE_1].'
+    );
+    expect(result.matches.map(match => match.type)).toEqual(['iban', 'uk_ni', 'uk_postcode']);
+  });
+
+  it('should detect street addresses with a house number and street type', () => {
+    const result = detectionService.detectAndScrub(
+      'Post it to 221B Baker Street, London or 10 Downing St. The office on Baker Street is closed.'
+    );
+
+    // Without a house number or street type an address is not recognised
+    expect(result.scrubbedText).toBe(
+      'Post it to [ADDRESS_1], London or [ADDRESS_2]. The office on Baker Street is closed.'
+    );
+    expect(result.matches.map(match => match.type)).toEqual(['street_address', 'street_address']);
+  });
+
+  it('should detect person names from titles and the first name dictionary', () => {
+    const result = detectionService.detectAndScrub(
+      'Sarah Jones emails the form to Mr Patel. On Monday Sarah checks it and Mark signs it off.'
+    );
+
+    expect(result.scrubbedText).toBe(
+      '[NAME_1] emails the form to Mr [NAME_2]. On Monday [NAME_3] checks it and Mark signs it off.'
+    );
+  });
+
+  it('should keep the longest of overlapping detections', () => {
+    const result = detectionService.detectAndScrub('Card 4532 0151 1283 0366 was declined');
+
+    expect(result.scrubbedText).toBe('Card [CARD_1] was declined');
+    expect(result.matches).toHaveLength(1);
+  });
+
+  it('should apply workspace settings', () => {
+    const settings: PIIDetectorSettings = {
+      disabledDetectors: ['uk_postcode'],
+      customDetectors: [
+        { id: 'employee_id', name: 'Employee ID', pattern: 'EMP-\\d{6}', caseSensitive: false, enabled: true },
+        { id: 'badge', name: 'Badge', pattern: 'B\\d{4}', caseSensitive: true, enabled: false }
+      ],
+      personNames: ['Siobhan']
+    };
+
+    const result = detectionService.detectAndScrub(
+      'Siobhan Kelly (emp-123456) badge B1234 works at SW1A 1AA',
+      undefined,
+      settings
+    );
+
+    expect(result.scrubbedText).toBe('[NAME_1] ([EMPLOYEE_ID_1]) badge B1234 works at SW1A 1AA');
+    expect(result.matches[1]).toMatchObject({ type: 'custom', detector: 'employee_id', value: 'emp-123456' });
+    expect(detectionService.detectAndScrub('Siobhan Kelly', undefined, noCustomisation).hasPII).toBe(false);
+  });
+
+  it('should reject custom detectors with invalid patterns or IDs', () => {
+    const detector = { id: 'employee_id', name: 'Employee ID', pattern: 'EMP-\\d{6}', caseSensitive: true, enabled: true };
+    const parse = (overrides: object) => PIIDetectorSettingsSchema.safeParse({
+      ...noCustomisation,
+      customDetectors: [{ ...detector, ...overrides }]
+    });
+
+    expect(parse({}).success).toBe(true);
+    expect(parse({ pattern: 'EMP-(' }).success).toBe(false);
+    expect(parse({ pattern: '\\d*' }).success).toBe(false);
+    expect(parse({ id: 'email' }).success).toBe(false);
+    expect(parse({ pattern: '(EMP|EMPL)-\\d{6}' }).success).toBe(true);
+    expect(parse({ pattern: '(a+)+b' }).success).toBe(false);
+    expect(parse({ pattern: '(?:\\d{2,}-)*x' }).success).toBe(false);
+    expect(parse({ pattern: '((ab)*c)+' }).success).toBe(false);
+  });
+
+  it('should skip stored custom detectors whose pattern is no longer allowed', () => {
+    const settings: PIIDetectorSettings = {
+      ...noCustomisation,
+      customDetectors: [{ id: 'slow', name: 'Slow', pattern: '(a+)+b', caseSensitive: true, enabled: true }]
+    };
+
+    expect(detectionService.detectAndScrub('aab', undefined, settings).hasPII).toBe(false);
+  });
+
+  describe('with mappings', () => {
+    let dataDir: string;
+    let piiService: PIIService;
+
+    beforeEach(() => {
+      dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalai-pii-'));
+      piiService = new PIIService(dataDir, 'test-key');
+    });
+
+    afterEach(() => {
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('should store custom detector matches in the token mapping', async () => {
+      await piiService.updateDetectorSettings({
+        ...noCustomisation,
+        customDetectors: [
+          { id: 'employee_id', name: 'Employee ID', pattern: 'EMP-\\d{6}', caseSensitive: true, enabled: true }
+        ]
+      }, 'admin');
+
+      const result = await piiService.scrubAndStore('Ask EMP-123456 for the IBAN GB82WEST12345698765432', 'session-1');
+
+      expect(result.scrubbedText).toBe('Ask [EMPLOYEE_ID_1] for the IBAN [IBAN_1]');
+      expect(result.mapping?.mappings.map(({ token, type, detector }) => ({ token, type, detector }))).toEqual([
+        { token: '[EMPLOYEE_ID_1]', type: 'custom', detector: 'employee_id' },
+        { token: '[IBAN_1]', type: 'iban', detector: undefined }
+      ]);
+      expect(await piiService.getDecryptedValue('session-1', '[EMPLOYEE_ID_1]', 'admin', 'test')).toBe('EMP-123456');
+    });
+
+    it('should reuse tokens across sources and report where PII was found', async () => {
+      await piiService.scrubAndStore('Email jane@example.com about refunds', 'session-2', 'user-1', 'description');
+      const answers = await piiService.scrubAllAndStore(
+        ['Copy in jane@example.com', '555-123-4567 is the hotline'],
+        'session-2',
+        'user-1',
+        'clarification_answer'
+      );
+      const voice = await piiService.scrubAndStore('The manager at bob@example.com approves', 'session-2', 'user-1', 'voice_transcript');
+
+      expect(answers.map(answer => answer.scrubbedText)).toEqual(['Copy in [EMAIL_1]', '[PHONE_1] is the hotline']);
+      expect(voice.scrubbedText).toBe('The manager at [EMAIL_2] approves');
+
+      const report = await piiService.getReport('session-2');
+      expect(report).toMatchObject({
+        hasPII: true,
+        totalValues: 3,
+        byType: { email: 2, phone: 1 },
+        bySource: { description: 1, clarification_answer: 2, voice_transcript: 1 }
+      });
+      expect(report.items[0]).toEqual({
+        token: '[EMAIL_1]',
+        type: 'email',
+        sources: ['description', 'clarification_answer']
+      });
+      expect(await piiService.getDecryptedValue('session-2', '[EMAIL_2]', 'admin', 'test')).toBe('bob@example.com');
+    });
+
+    it('should scrub PII echoed back in model output', async () => {
+      await piiService.scrubAndStore('Invoices from jane@example.com are approved', 'session-3', 'user-1');
+      const output = {
+        result: {
+          category: 'RPA',
+          confidence: 0.9,
+          rationale: 'Approvals by jane@example.com follow fixed rules',
+          categoryProgression: '555-123-4567 is called by hand',
+          futureOpportunities: 'None'
+        },
+        llmResponse: '{"rationale":"Approvals by jane@example.com follow fixed rules"}'
+      } as any;
+
+      expect(await piiService.scrubClassificationOutput(output, 'session-3', 'user-1')).toBe(true);
+      expect(output.result.rationale).toBe('Approvals by [EMAIL_1] follow fixed rules');
+      expect(output.result.categoryProgression).toBe('[PHONE_1] is called by hand');
+      expect(output.llmResponse).not.toContain('jane@example.com');
+      expect((await piiService.getReport('session-3')).bySource).toEqual({ description: 1, model_response: 2 });
+    });
+
+    it('should scrub PII echoed back in extracted attributes', async () => {
+      await piiService.scrubAndStore('Invoices from jane@example.com are approved', 'session-4', 'user-1');
+      const attributes = {
+        frequency: { value: 'daily', explanation: 'jane@example.com approves invoices every day' },
+        sponsorship: { value: 'Head of finance, 555-123-4567', explanation: 'Named in the description' }
+      };
+
+      expect(await piiService.scrubExtractedAttributes(attributes, 'session-4', 'user-1')).toBe(true);
+      expect(attributes).toEqual({
+        frequency: { value: 'daily', explanation: '[EMAIL_1] approves invoices every day' },
+        sponsorship: { value: 'Head of finance, [PHONE_1]', explanation: 'Named in the description' }
+      });
+      expect(await piiService.scrubExtractedAttributes({ risk: { value: 'low', explanation: 'Internal data only' } }, 'session-4')).toBe(false);
+    });
+  });
+});
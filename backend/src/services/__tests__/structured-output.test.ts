@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import { ClassificationService } from '../classification.service';
+import { LLMService, ChatMessage } from '../llm.service';
+import { MockLLMService } from '../mock-llm.service';
+import { JsonStorageService } from '../storage.service';
+import { StructuredOutput, toJsonSchema } from '../structured-output';
+import { VersionedStorageService } from '../versioned-storage.service';
+import { DecisionMatrix } from '../../types';
+
+describe('Structured output', () => {
+  const messages: ChatMessage[] = [
+    { role: 'user', content: 'Process Description: Staff re-key invoices into the ledger every day.' }
+  ];
+  const output: StructuredOutput<{ category: 'RPA' | 'Digitise'; confidence: number; rationale: string }> = {
+    name: 'classification',
+    description: 'Test classification',
+    schema: z.object({
+      category: z.enum(['RPA', 'Digitise']),
+      confidence: z.number().min(0).max(1),
+      rationale: z.string()
+    })
+  };
+  let dataDir: string;
+  let chatSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalai-structured-'));
+    chatSpy = jest.spyOn(MockLLMService.prototype, 'chat');
+  });
+
+  afterEach(() => {
+    chatSpy.mockRestore();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const invalidResponse = (content: string) => ({
+    content,
+    model: 'gpt-4',
+    usage: { promptTokens: 10, completionTokens: 10, totalTokens: 20 }
+  });
+
+  it('should convert zod schemas to strict JSON schemas', () => {
+    expect(toJsonSchema(output.schema)).toEqual({
+      type: 'object',
+      properties: {
+        category: { type: 'string', enum: ['RPA', 'Digitise'] },
+        confidence: { type: 'number' },
+        rationale: { type: 'string' }
+      },
+      required: ['category', 'confidence', 'rationale'],
+      additionalProperties: false
+    });
+  });
+
+  it('should send invalid responses back to the model for repair', async () => {
+    chatSpy.mockResolvedValueOnce(invalidResponse('Sure! {"category": "Automate", "confidence": 0.9}'));
+    const llmService = new LLMService();
+
+    const response = await llmService.chatStructured(messages, 'gpt-4', { provider: 'mock' }, output, 'classification');
+
+    expect(response.data.category).toBe('Digitise');
+    expect(chatSpy).toHaveBeenCalledTimes(2);
+    const [repairMessages, , config] = chatSpy.mock.calls[1];
+    expect(repairMessages[2].content).toMatch(/category: Invalid enum value.*rationale: Required/);
+    expect(config.responseFormat.schema.required).toEqual(['category', 'confidence', 'rationale']);
+  });
+
+  it('should fail instead of defaulting when repairs do not help', async () => {
+    chatSpy.mockResolvedValue(invalidResponse('Clarification 9'));
+    const llmService = new LLMService();
+
+    await expect(llmService.chatStructured(messages, 'gpt-4', { provider: 'mock' }, output, 'classification'))
+      .rejects.toThrow('Failed to parse classification response after 3 attempts: No JSON object found in response');
+  });
+
+  it('should limit extracted attributes to the active matrix values', async () => {
+    const versionedStorage = new VersionedStorageService(new JsonStorageService(dataDir));
+    const matrix: DecisionMatrix = {
+      version: '1.0',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      createdBy: 'admin',
+      description: 'Test matrix',
+      active: true,
+      attributes: [
+        { name: 'frequency', type: 'categorical', possibleValues: ['Daily', 'Weekly'], weight: 0.5, description: 'How often' },
+        { name: 'user_count', type: 'categorical', possibleValues: ['1-10', '11-50'], weight: 0.3, description: 'Users' }
+      ],
+      rules: []
+    };
+    await versionedStorage.saveDecisionMatrix(matrix);
+    const classificationService = new ClassificationService(versionedStorage);
+    const request = { processDescription: 'Staff re-key invoices into the ledger every day.', provider: 'mock' as const, model: 'gpt-4' };
+
+    // The built-in mock answers "6-20" users, which this matrix doesn't allow
+    await expect(classificationService.extractAttributes(request.processDescription, [], request))
+      .rejects.toThrow(/user_count\.value: Invalid enum value/);
+
+    await versionedStorage.saveDecisionMatrix({
+      ...matrix,
+      version: '1.1',
+      attributes: [matrix.attributes[0], { ...matrix.attributes[1], possibleValues: ['1-5', '6-20'] }]
+    });
+    const attributes = await classificationService.extractAttributes(request.processDescription, [], request);
+    expect(attributes.frequency.value).toBe('Daily');
+    expect(attributes.user_count.value).toBe('6-20');
+  });
+});
@@ -0,0 +1,86 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { generateTotp, getTotpStep, verifyTotp } from '../totp';
+import { AuthTokens, TwoFactorChallenge, UserService } from '../user.service';
+
+describe('TOTP', () => {
+  // RFC 6238 test secret "12345678901234567890"
+  const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  it('should match the RFC 6238 test vectors', () => {
+    expect(generateTotp(secret, getTotpStep(59 * 1000))).toBe('287082');
+    expect(generateTotp(secret, getTotpStep(1111111109 * 1000))).toBe('081804');
+  });
+
+  it('should accept one step of clock drift', () => {
+    const now = 1111111109 * 1000;
+    const step = getTotpStep(now);
+
+    expect(verifyTotp(secret, generateTotp(secret, step + 1), now)).toBe(step + 1);
+    expect(verifyTotp(secret, generateTotp(secret, step - 2), now)).toBeNull();
+    expect(verifyTotp(secret, 'abcdef', now)).toBeNull();
+  });
+});
+
+describe('Two-factor login', () => {
+  let dataDir: string;
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-secret';
+  });
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalai-2fa-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should require a code after enrolment and accept each recovery code once', async () => {
+    const userService = new UserService(dataDir);
+    const user = await userService.createUser('erin', 'password123', 'user');
+
+    const { secret } = await userService.beginTwoFactorSetup(user.userId);
+    const enrolmentCode = generateTotp(secret);
+    const recoveryCodes = await userService.enableTwoFactor(user.userId, enrolmentCode);
+    expect(recoveryCodes).toHaveLength(10);
+
+    const challenge = await userService.login('erin', 'password123') as TwoFactorChallenge;
+    expect(challenge).toEqual(expect.objectContaining({ twoFactorRequired: true, setupRequired: false }));
+
+    // The code used for enrolment can't be replayed
+    await expect(userService.completeTwoFactorLogin(challenge.challengeToken, enrolmentCode))
+      .rejects.toThrow('Invalid two-factor code');
+
+    const login = await userService.completeTwoFactorLogin(challenge.challengeToken, recoveryCodes[0]);
+    expect(login.user.twoFactorEnabled).toBe(true);
+    expect(login.user).not.toHaveProperty('twoFactor');
+
+    await expect(userService.completeTwoFactorLogin(challenge.challengeToken, recoveryCodes[0]))
+      .rejects.toThrow('Invalid two-factor code');
+    expect((await userService.getTwoFactorStatus(user.userId)).recoveryCodesRemaining).toBe(9);
+  });
+
+  it('should make admins enrol at login when 2FA is required for them', async () => {
+    const userService = new UserService(dataDir);
+    const admin = await userService.createUser('root', 'password123', 'admin');
+    await userService.createUser('frank', 'password123', 'user');
+    await userService.updateSecuritySettings({ requireTwoFactorForAdmins: true });
+
+    expect((await userService.login('frank', 'password123') as AuthTokens).token).toBeTruthy();
+
+    const challenge = await userService.login('root', 'password123') as TwoFactorChallenge;
+    expect(challenge.setupRequired).toBe(true);
+
+    const { secret, qrCodeDataUrl } = await userService.beginChallengeTwoFactorSetup(challenge.challengeToken);
+    expect(qrCodeDataUrl).toMatch(/^data:image\/png;base64,/);
+
+    const login = await userService.completeTwoFactorLogin(challenge.challengeToken, generateTotp(secret));
+    expect(login.recoveryCodes).toHaveLength(10);
+
+    await expect(userService.disableTwoFactor(admin.userId, 'password123', login.recoveryCodes![0]))
+      .rejects.toThrow('required for your role');
+  });
+});
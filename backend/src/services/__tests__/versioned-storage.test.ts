@@ -0,0 +1,76 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonStorageService } from '../storage.service';
+import { VersionedStorageService } from '../versioned-storage.service';
+import { DecisionMatrix } from '../../types';
+
+describe('VersionedStorageService - decision matrix activation', () => {
+  let dataDir: string;
+  let versionedStorage: VersionedStorageService;
+
+  const buildMatrix = (version: string): DecisionMatrix => ({
+    version,
+    createdAt: new Date().toISOString(),
+    createdBy: 'admin',
+    description: `Matrix ${version}`,
+    active: true,
+    attributes: [],
+    rules: []
+  });
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalai-versions-'));
+    versionedStorage = new VersionedStorageService(new JsonStorageService(dataDir));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should treat the newest version as active when no pointer exists', async () => {
+    fs.mkdirSync(path.join(dataDir, 'decision-matrix'), { recursive: true });
+    for (const version of ['1.0', '1.1']) {
+      fs.writeFileSync(
+        path.join(dataDir, 'decision-matrix', `v${version}.json`),
+        JSON.stringify(buildMatrix(version))
+      );
+    }
+
+    expect(await versionedStorage.getDecisionMatrixActivation()).toBeNull();
+    expect((await versionedStorage.getActiveDecisionMatrix())?.version).toBe('1.1');
+  });
+
+  it('should roll back to an older version without copying it', async () => {
+    await versionedStorage.saveDecisionMatrix(buildMatrix('1.0'));
+    await versionedStorage.saveDecisionMatrix(buildMatrix('1.1'));
+    expect(await versionedStorage.getActiveDecisionMatrixVersion()).toBe('1.1');
+
+    const { previousVersion, activation } = await versionedStorage.activateDecisionMatrix(
+      '1.0',
+      'alice',
+      'Learning suggestion broke RPA rules'
+    );
+
+    expect(previousVersion).toBe('1.1');
+    expect(activation).toMatchObject({ version: '1.0', activatedBy: 'alice', reason: 'Learning suggestion broke RPA rules' });
+    expect(await versionedStorage.listDecisionMatrixVersions()).toEqual(['1.1', '1.0']);
+
+    const active = await versionedStorage.getActiveDecisionMatrix();
+    expect(active?.version).toBe('1.0');
+    expect(active?.active).toBe(true);
+    expect((await versionedStorage.getDecisionMatrix('1.1'))?.active).toBe(false);
+
+    // New versions are numbered after the newest, not the active, version
+    expect(await versionedStorage.getNextDecisionMatrixVersion()).toBe('1.2');
+  });
+
+  it('should reject activating a version that does not exist', async () => {
+    await versionedStorage.saveDecisionMatrix(buildMatrix('1.0'));
+
+    await expect(versionedStorage.activateDecisionMatrix('9.9', 'alice', 'Typo')).rejects.toThrow(
+      'Decision matrix version 9.9 does not exist'
+    );
+    expect(await versionedStorage.getActiveDecisionMatrixVersion()).toBe('1.0');
+  });
+});
@@ -0,0 +1,94 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditLogService } from '../audit-log.service';
+import { SessionStorageService } from '../session-storage.service';
+import { SqliteStorageService } from '../sqlite-storage.service';
+import { JsonStorageService } from '../storage.service';
+import { SubjectsStorageService } from '../subjects-storage.service';
+import { VersionedStorageService } from '../versioned-storage.service';
+import { runInWorkspace } from '../workspace-context';
+import { WorkspaceService } from '../workspace.service';
+
+describe('Workspaces', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalai-workspace-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should keep the default workspace at the root of the data directory', async () => {
+    const storage = new JsonStorageService(dataDir);
+
+    await runInWorkspace('default', () => storage.writeJson('sessions/s1.json', { id: 's1' }));
+    await runInWorkspace('finance', () => storage.writeJson('sessions/s2.json', { id: 's2' }));
+
+    expect(fs.existsSync(path.join(dataDir, 'sessions', 's1.json'))).toBe(true);
+    expect(fs.existsSync(path.join(dataDir, 'workspace-data', 'finance', 'sessions', 's2.json'))).toBe(true);
+    expect(await runInWorkspace('finance', () => storage.listFiles('sessions'))).toEqual(['s2.json']);
+    expect(await storage.listFiles('sessions')).toEqual(['s1.json']);
+  });
+
+  it('should isolate sessions, subjects and audit logs between workspaces', async () => {
+    const storage = new JsonStorageService(dataDir);
+    const sessionStorage = new SessionStorageService(storage);
+    const subjectsStorage = new SubjectsStorageService(storage);
+    const auditLogService = new AuditLogService(dataDir);
+
+    const session = await runInWorkspace('finance', async () => {
+      await subjectsStorage.addCustomSubject('Treasury');
+      await auditLogService.logUserInput('s1', 'alice', 'Reconcile accounts', 'Reconcile accounts', false);
+      return sessionStorage.createSession('initiative-1', 'gpt-4');
+    });
+
+    expect(await runInWorkspace('finance', () => sessionStorage.loadSession(session.sessionId))).not.toBeNull();
+    expect(await runInWorkspace('hr', () => sessionStorage.loadSession(session.sessionId))).toBeNull();
+    expect(await runInWorkspace('hr', () => subjectsStorage.getCustomSubjects())).toEqual([]);
+    expect(await runInWorkspace('finance', () => subjectsStorage.getCustomSubjects())).toEqual(['Treasury']);
+    expect(await runInWorkspace('hr', () => auditLogService.getLogsBySession('s1'))).toHaveLength(0);
+    expect(await runInWorkspace('finance', () => auditLogService.getLogsBySession('s1'))).toHaveLength(1);
+  });
+
+  it('should scope SQLite session queries and audit logs by workspace', async () => {
+    const storage = new SqliteStorageService(':memory:');
+    const sessionStorage = new SessionStorageService(storage);
+
+    try {
+      await runInWorkspace('finance', () => sessionStorage.createSession('initiative-1', 'gpt-4'));
+      await runInWorkspace('finance', () => storage.appendAuditLog({
+        sessionId: 's1',
+        timestamp: '2024-01-02T09:00:00.000Z',
+        eventType: 'input',
+        userId: 'alice',
+        data: {},
+        piiScrubbed: false
+      }));
+
+      expect((await runInWorkspace('finance', () => storage.querySessions({}, { limit: 10, offset: 0 }))).total).toBe(1);
+      expect((await storage.querySessions({}, { limit: 10, offset: 0 })).total).toBe(0);
+      expect(await runInWorkspace('finance', () => storage.listAuditLogDates())).toEqual(['2024-01-02']);
+      expect(await storage.listAuditLogDates()).toEqual([]);
+    } finally {
+      storage.close();
+    }
+  });
+
+  it('should copy configuration from the source workspace when creating a workspace', async () => {
+    const storage = new JsonStorageService(dataDir);
+    const versionedStorage = new VersionedStorageService(storage);
+    await versionedStorage.savePrompt('classification', 'Classify this', '1.0');
+
+    const workspaceService = new WorkspaceService(dataDir);
+    const workspace = await workspaceService.createWorkspace('HR Operations', 'admin');
+
+    expect(workspace.workspaceId).toBe('hr-operations');
+    expect(await runInWorkspace('hr-operations', () => versionedStorage.getPrompt('classification')))
+      .toBe('Classify this');
+    expect((await workspaceService.listWorkspaces()).map(w => w.workspaceId)).toEqual(['default', 'hr-operations']);
+    await expect(workspaceService.createWorkspace('hr operations', 'admin')).rejects.toThrow('Workspace already exists');
+  });
+});
@@ -1,6 +1,7 @@
 import { randomUUID } from 'crypto';
 import { z } from 'zod';
-import { JsonStorageService } from './storage.service';
+import { StorageBackend, supportsSessionQueries } from './storage.service';
+import { getCurrentWorkspaceId } from './workspace-context';
 import { SessionStorageService } from './session-storage.service';
 import {
   AnalyticsMetrics,
@@ -17,6 +18,7 @@ import {
   FilterOptionsSchema,
   FilteredMetrics,
   FilteredMetricsSchema,
+  InterviewPolicyMetrics,
   TransformationCategory
 } from '../types';
 
@@ -39,19 +41,19 @@ interface CacheEntry<T> {
  * Requirements: 12.1, 12.2, 12.3, 12.4, 12.5, 13.4, 13.5
  */
 export class AnalyticsService {
-  private jsonStorage: JsonStorageService;
+  private jsonStorage: StorageBackend;
   private sessionStorage: SessionStorageService;
   private metricsPath = 'analytics/metrics.json';
 
   // In-memory caches
-  private filterOptionsCache: CacheEntry<FilterOptions> | null = null;
+  private filterOptionsCache: Map<string, CacheEntry<FilterOptions>> = new Map(); // Keyed by workspace
   private sessionListCache: Map<string, CacheEntry<SessionListResponse>> = new Map();
 
   // Cache TTLs in milliseconds
   private readonly FILTER_OPTIONS_TTL = 5 * 60 * 1000; // 5 minutes
   private readonly SESSION_LIST_TTL = 1 * 60 * 1000; // 1 minute
 
-  constructor(jsonStorage: JsonStorageService, sessionStorage: SessionStorageService) {
+  constructor(jsonStorage: StorageBackend, sessionStorage: SessionStorageService) {
     this.jsonStorage = jsonStorage;
     this.sessionStorage = sessionStorage;
   }
@@ -61,7 +63,7 @@ export class AnalyticsService {
    * Requirements: 8.3
    */
   public invalidateCache(): void {
-    this.filterOptionsCache = null;
+    this.filterOptionsCache.clear();
     this.sessionListCache.clear();
   }
 
@@ -78,7 +80,7 @@ export class AnalyticsService {
    * Generate cache key for session list
    */
   private getSessionListCacheKey(filters: SessionFilters, pagination: PaginationParams): string {
-    return JSON.stringify({ filters, pagination });
+    return JSON.stringify({ workspaceId: getCurrentWorkspaceId(), filters, pagination });
   }
 
   /**
@@ -114,6 +116,9 @@ export class AnalyticsService {
     // Calculate average classification time
     const averageClassificationTimeMs = this.calculateAverageClassificationTime(sessions);
 
+    // Compare interview policies
+    const interviewPolicyMetrics = this.calculateInterviewPolicyMetrics(sessions);
+
     // Total sessions processed
     const totalSessions = sessions.length;
 
@@ -128,7 +133,8 @@ export class AnalyticsService {
       userSatisfactionRate,
       totalSessions,
       averageClassificationTimeMs,
-      alertTriggered
+      alertTriggered,
+      interviewPolicyMetrics
     };
 
     // Validate metrics
@@ -251,6 +257,42 @@ export class AnalyticsService {
     return totalTimeMs / sessionsWithClassification.length;
   }
 
+  /**
+   * Calculate interview depth and outcomes per interview policy version,
+   * so policies can be compared. Sessions from before interview policies
+   * were recorded are left out.
+   */
+  private calculateInterviewPolicyMetrics(sessions: Session[]): { [version: string]: InterviewPolicyMetrics } {
+    const sessionsByVersion = new Map<string, Session[]>();
+    for (const session of sessions) {
+      if (session.interviewPolicyVersion) {
+        const versionSessions = sessionsByVersion.get(session.interviewPolicyVersion) || [];
+        versionSessions.push(session);
+        sessionsByVersion.set(session.interviewPolicyVersion, versionSessions);
+      }
+    }
+
+    const metrics: { [version: string]: InterviewPolicyMetrics } = {};
+    for (const [version, versionSessions] of sessionsByVersion) {
+      const questionCounts = versionSessions.map(s =>
+        s.conversations.reduce((sum, conversation) => sum + conversation.clarificationQA.length, 0)
+      );
+      const classified = versionSessions.filter(s => s.classification);
+
+      metrics[version] = {
+        totalSessions: versionSessions.length,
+        averageQuestions: questionCounts.reduce((sum, count) => sum + count, 0) / versionSessions.length,
+        averageConfidence: classified.length > 0
+          ? classified.reduce((sum, s) => sum + s.classification!.confidence, 0) / classified.length
+          : 0,
+        agreementRate: this.calculateOverallAgreementRate(versionSessions),
+        manualReviewRate: versionSessions.filter(s => s.status === 'manual_review').length / versionSessions.length
+      };
+    }
+
+    return metrics;
+  }
+
   /**
    * Save metrics to storage
    * Requirements: 12.2, 13.5
@@ -316,41 +358,14 @@ export class AnalyticsService {
       return cachedEntry!.data;
     }
 
-    // Load all sessions
-    const sessionIds = await this.sessionStorage.listSessions();
-    const allSessions: Session[] = [];
-
-    for (const sessionId of sessionIds) {
-      try {
-        const session = await this.sessionStorage.loadSession(sessionId);
-        if (session) {
-          allSessions.push(session);
-        }
-      } catch (error) {
-        console.error(`Failed to load session ${sessionId}:`, error);
-        // Continue with other sessions
-      }
-    }
-
-    // Apply filters
-    let filteredSessions = this.applyFilters(allSessions, filters);
-
-    // Sort by createdAt descending (most recent first)
-    filteredSessions.sort((a, b) =>
-      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    );
-
-    // Calculate total before pagination
-    const total = filteredSessions.length;
+    const { sessions: pageSessions, total } = await this.querySessions(filters, {
+      limit: pagination.limit,
+      offset: (pagination.page - 1) * pagination.limit
+    });
     const totalPages = Math.ceil(total / pagination.limit);
 
-    // Apply pagination
-    const startIndex = (pagination.page - 1) * pagination.limit;
-    const endIndex = startIndex + pagination.limit;
-    filteredSessions = filteredSessions.slice(startIndex, endIndex);
-
     // Convert to SessionListItem format with memoized computed properties
-    const sessions: SessionListItem[] = filteredSessions.map(session =>
+    const sessions: SessionListItem[] = pageSessions.map(session =>
       this.sessionToListItem(session)
     );
 
@@ -374,6 +389,52 @@ export class AnalyticsService {
     return response;
   }
 
+  /**
+   * Filter, sort (most recent first) and paginate sessions.
+   * Backends with a session index run this as a query; otherwise every
+   * session is loaded and filtered in memory.
+   */
+  private async querySessions(
+    filters: SessionFilters,
+    page: { limit: number; offset: number }
+  ): Promise<{ sessions: Session[]; total: number }> {
+    if (supportsSessionQueries(this.jsonStorage)) {
+      return this.jsonStorage.querySessions(filters, page);
+    }
+
+    const filteredSessions = this.applyFilters(await this.loadAllSessions(), filters);
+    filteredSessions.sort((a, b) =>
+      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+
+    return {
+      sessions: filteredSessions.slice(page.offset, page.offset + page.limit),
+      total: filteredSessions.length
+    };
+  }
+
+  /**
+   * Load every session, skipping ones that fail to load
+   */
+  private async loadAllSessions(): Promise<Session[]> {
+    const sessionIds = await this.sessionStorage.listSessions();
+    const sessions: Session[] = [];
+
+    for (const sessionId of sessionIds) {
+      try {
+        const session = await this.sessionStorage.loadSession(sessionId);
+        if (session) {
+          sessions.push(session);
+        }
+      } catch (error) {
+        console.error(`Failed to load session ${sessionId}:`, error);
+        // Continue with other sessions
+      }
+    }
+
+    return sessions;
+  }
+
   /**
    * Apply filters to sessions
    * Requirements: 2.1, 2.2, 2.3, 2.4, 2.5, 2.6, 2.7
@@ -490,26 +551,35 @@ export class AnalyticsService {
    */
   async getFilterOptions(): Promise<FilterOptions> {
     // Check cache first
-    if (this.isCacheValid(this.filterOptionsCache, this.FILTER_OPTIONS_TTL)) {
-      return this.filterOptionsCache!.data;
+    const cachedOptions = this.filterOptionsCache.get(getCurrentWorkspaceId()) || null;
+    if (this.isCacheValid(cachedOptions, this.FILTER_OPTIONS_TTL)) {
+      return cachedOptions!.data;
     }
 
-    const sessionIds = await this.sessionStorage.listSessions();
-    const sessions: Session[] = [];
+    const options = supportsSessionQueries(this.jsonStorage)
+      ? await this.jsonStorage.getSessionFilterOptions()
+      : this.extractFilterOptions(await this.loadAllSessions());
 
-    for (const sessionId of sessionIds) {
-      try {
-        const session = await this.sessionStorage.loadSession(sessionId);
-        if (session) {
-          sessions.push(session);
-        }
-      } catch (error) {
-        console.error(`Failed to load session ${sessionId}:`, error);
-        // Continue with other sessions
-      }
+    // Validate options
+    if (!FilterOptionsSchema) {
+      console.error('FilterOptionsSchema is undefined - skipping validation');
+    } else {
+      FilterOptionsSchema.parse(options);
     }
 
-    // Extract unique values
+    // Cache the options
+    this.filterOptionsCache.set(getCurrentWorkspaceId(), {
+      data: options,
+      timestamp: Date.now()
+    });
+
+    return options;
+  }
+
+  /**
+   * Extract unique filter values from loaded sessions
+   */
+  private extractFilterOptions(sessions: Session[]): FilterOptions {
     const subjects = new Set<string>();
     const models = new Set<string>();
     const categories = new Set<TransformationCategory>();
@@ -526,27 +596,12 @@ export class AnalyticsService {
       statuses.add(session.status);
     }
 
-    const options: FilterOptions = {
+    return {
       subjects: Array.from(subjects).sort(),
       models: Array.from(models).sort(),
       categories: Array.from(categories).sort(),
       statuses: Array.from(statuses).sort()
     };
-
-    // Validate options
-    if (!FilterOptionsSchema) {
-      console.error('FilterOptionsSchema is undefined - skipping validation');
-    } else {
-      FilterOptionsSchema.parse(options);
-    }
-
-    // Cache the options
-    this.filterOptionsCache = {
-      data: options,
-      timestamp: Date.now()
-    };
-
-    return options;
   }
 
   /**
@@ -557,24 +612,14 @@ export class AnalyticsService {
     // Validate filters
     SessionFiltersSchema.parse(filters);
 
-    // Load all sessions
-    const sessionIds = await this.sessionStorage.listSessions();
-    const allSessions: Session[] = [];
-
-    for (const sessionId of sessionIds) {
-      try {
-        const session = await this.sessionStorage.loadSession(sessionId);
-        if (session) {
-          allSessions.push(session);
-        }
-      } catch (error) {
-        console.error(`Failed to load session ${sessionId}:`, error);
-        // Continue with other sessions
-      }
+    if (supportsSessionQueries(this.jsonStorage)) {
+      const summary = await this.jsonStorage.summarizeSessions(filters);
+      FilteredMetricsSchema.parse(summary);
+      return summary;
     }
 
     // Apply filters
-    const filteredSessions = this.applyFilters(allSessions, filters);
+    const filteredSessions = this.applyFilters(await this.loadAllSessions(), filters);
 
     // Calculate metrics
     const totalCount = filteredSessions.length;
@@ -622,34 +667,8 @@ export class AnalyticsService {
     // Validate filters
     SessionFiltersSchema.parse(filters);
 
-    // Load all sessions
-    const sessionIds = await this.sessionStorage.listSessions();
-    const allSessions: Session[] = [];
-
-    for (const sessionId of sessionIds) {
-      try {
-        const session = await this.sessionStorage.loadSession(sessionId);
-        if (session) {
-          allSessions.push(session);
-        }
-      } catch (error) {
-        console.error(`Failed to load session ${sessionId}:`, error);
-        // Continue with other sessions
-      }
-    }
-
-    // Apply filters
-    let filteredSessions = this.applyFilters(allSessions, filters);
-
-    // Limit to 10,000 sessions per export
-    if (filteredSessions.length > 10000) {
-      filteredSessions = filteredSessions.slice(0, 10000);
-    }
-
-    // Sort by createdAt descending (most recent first)
-    filteredSessions.sort((a, b) =>
-      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    );
+    // Most recent first, limited to 10,000 sessions per export
+    const { sessions: filteredSessions } = await this.querySessions(filters, { limit: 10000, offset: 0 });
 
     // CSV header
     const headers = [
@@ -1,24 +1,40 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { AuditLogEntry } from '../types';
+import { AuditLogBackend, createStorage, supportsAuditLogs } from './storage.service';
+import { workspacePath } from './workspace-context';
 
 /**
- * JSONL audit log service with append-only writes and daily rotation
+ * JSONL audit log service with append-only writes and daily rotation.
+ * Each workspace has its own audit-logs directory.
+ * When the configured storage backend keeps audit logs itself (SQLite),
+ * entries are written there instead of the JSONL files.
  */
 export class AuditLogService {
   private dataDir: string;
   private writeQueue: Promise<void>;
+  private backend: AuditLogBackend | null;
 
   constructor(dataDir: string = process.env.DATA_DIR || '/data') {
     this.dataDir = dataDir;
     this.writeQueue = Promise.resolve();
+
+    const storage = createStorage(dataDir);
+    this.backend = supportsAuditLogs(storage) ? storage : null;
+  }
+
+  /**
+   * Audit log directory of the current workspace
+   */
+  private getAuditDir(): string {
+    return path.join(this.dataDir, workspacePath('audit-logs'));
   }
 
   /**
    * Ensure audit-logs directory exists
    */
   private async ensureDir(): Promise<void> {
-    const auditDir = path.join(this.dataDir, 'audit-logs');
+    const auditDir = this.getAuditDir();
     try {
       await fs.mkdir(auditDir, { recursive: true });
     } catch (error: any) {
@@ -34,7 +50,7 @@ export class AuditLogService {
   private getLogFilePath(date: Date = new Date()): string {
     const dateStr = date.toISOString().split('T')[0]; // YYYY-MM-DD
     const fileName = `${dateStr}.jsonl`;
-    return path.join(this.dataDir, 'audit-logs', fileName);
+    return path.join(this.getAuditDir(), fileName);
   }
 
   /**
@@ -50,6 +66,11 @@ export class AuditLogService {
 
     // Queue the write operation to ensure sequential writes
     this.writeQueue = this.writeQueue.then(async () => {
+      if (this.backend) {
+        await this.backend.appendAuditLog(entryWithTimestamp);
+        return;
+      }
+
       await this.ensureDir();
       const logFilePath = this.getLogFilePath();
       const logLine = JSON.stringify(entryWithTimestamp) + '\n';
@@ -233,6 +254,10 @@ export class AuditLogService {
    * Read all log entries for a specific date
    */
   async readLogs(date: Date = new Date()): Promise<AuditLogEntry[]> {
+    if (this.backend) {
+      return this.backend.getAuditLogsByDate(date.toISOString().split('T')[0]);
+    }
+
     const logFilePath = this.getLogFilePath(date);
     
     try {
@@ -286,7 +311,12 @@ export class AuditLogService {
    * List all available log files
    */
   async listLogFiles(): Promise<string[]> {
-    const auditDir = path.join(this.dataDir, 'audit-logs');
+    if (this.backend) {
+      const dates = await this.backend.listAuditLogDates();
+      return dates.map(date => `${date}.jsonl`);
+    }
+
+    const auditDir = this.getAuditDir();
     
     try {
       const files = await fs.readdir(auditDir);
@@ -306,6 +336,11 @@ export class AuditLogService {
    * Get log file size in bytes
    */
   async getLogFileSize(date: Date = new Date()): Promise<number> {
+    if (this.backend) {
+      const logs = await this.readLogs(date);
+      return logs.reduce((size, entry) => size + Buffer.byteLength(JSON.stringify(entry) + '\n'), 0);
+    }
+
     const logFilePath = this.getLogFilePath(date);
     
     try {
@@ -323,6 +358,10 @@ export class AuditLogService {
    * Get audit logs for a specific date
    */
   async getLogsByDate(dateStr: string): Promise<AuditLogEntry[]> {
+    if (this.backend) {
+      return this.backend.getAuditLogsByDate(new Date(dateStr).toISOString().split('T')[0]);
+    }
+
     try {
       const date = new Date(dateStr);
       const filePath = this.getLogFilePath(date);
@@ -343,8 +382,12 @@ export class AuditLogService {
    * Get audit logs for a specific session across all dates
    */
   async getLogsBySession(sessionId: string): Promise<AuditLogEntry[]> {
+    if (this.backend) {
+      return this.backend.getAuditLogsBySession(sessionId);
+    }
+
     try {
-      const auditDir = path.join(this.dataDir, 'audit-logs');
+      const auditDir = this.getAuditDir();
       const files = await fs.readdir(auditDir);
       const jsonlFiles = files.filter(f => f.endsWith('.jsonl'));
       
@@ -366,8 +409,10 @@ export class AuditLogService {
       return allLogs.sort((a, b) => 
         new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
       );
-    } catch (error) {
-      console.error('Error reading session logs:', error);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error('Error reading session logs:', error);
+      }
       return [];
     }
   }
@@ -376,8 +421,12 @@ export class AuditLogService {
    * Get list of dates that have audit logs
    */
   async getAvailableDates(): Promise<string[]> {
+    if (this.backend) {
+      return this.backend.listAuditLogDates();
+    }
+
     try {
-      const auditDir = path.join(this.dataDir, 'audit-logs');
+      const auditDir = this.getAuditDir();
       const files = await fs.readdir(auditDir);
       
       const dates = files
@@ -394,4 +443,71 @@ export class AuditLogService {
       throw error;
     }
   }
+
+  /**
+   * Delete the logs of days before a YYYY-MM-DD date (retention).
+   * Returns the number of entries deleted.
+   */
+  async deleteLogsBefore(dateStr: string): Promise<number> {
+    const run = this.writeQueue.then(async () => {
+      if (this.backend) {
+        return this.backend.deleteAuditLogsBefore(dateStr);
+      }
+
+      let deleted = 0;
+      for (const date of await this.getAvailableDates()) {
+        if (date < dateStr) {
+          deleted += (await this.getLogsByDate(date)).length;
+          await fs.unlink(path.join(this.getAuditDir(), `${date}.jsonl`));
+        }
+      }
+      return deleted;
+    });
+    this.writeQueue = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  /**
+   * Rewrite every entry of the workspace's logs (erasure requests): the rewrite
+   * returns the entry, a changed copy, or null to delete it.
+   */
+  async rewriteLogs(
+    rewrite: (entry: AuditLogEntry) => AuditLogEntry | null
+  ): Promise<{ modified: number; deleted: number }> {
+    const run = this.writeQueue.then(async () => {
+      const counts = { modified: 0, deleted: 0 };
+
+      for (const date of await this.getAvailableDates()) {
+        const entries = await this.getLogsByDate(date);
+        const kept: AuditLogEntry[] = [];
+        let changed = false;
+
+        for (const entry of entries) {
+          const rewritten = rewrite(entry);
+          if (rewritten === null) {
+            counts.deleted++;
+            changed = true;
+          } else {
+            if (rewritten !== entry) {
+              counts.modified++;
+              changed = true;
+            }
+            kept.push(rewritten);
+          }
+        }
+
+        if (!changed) continue;
+        if (this.backend) {
+          await this.backend.replaceAuditLogsByDate(date, kept);
+        } else {
+          const content = kept.map(entry => JSON.stringify(entry) + '\n').join('');
+          await fs.writeFile(path.join(this.getAuditDir(), `${date}.jsonl`), content, 'utf-8');
+        }
+      }
+
+      return counts;
+    });
+    this.writeQueue = run.then(() => undefined, () => undefined);
+    return run;
+  }
 }
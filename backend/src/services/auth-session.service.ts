@@ -0,0 +1,210 @@
+import * as crypto from 'crypto';
+import { createStorage, StorageBackend } from './storage.service';
+
+/**
+ * A login session. Access tokens carry its ID (`sid` claim) and are only
+ * accepted while it is active; its refresh token is rotated on every use.
+ */
+export interface AuthSession {
+  sessionId: string;
+  userId: string;
+  workspaceId: string;
+  refreshTokenHash: string; // SHA-256 of the current refresh token secret
+  createdAt: string;
+  lastRefreshedAt: string;
+  expiresAt: string;
+  revokedAt?: string;
+  revokedReason?: string;
+  userAgent?: string;
+}
+
+const DEFAULT_REFRESH_TOKEN_TTL_HOURS = 7 * 24;
+
+/**
+ * Server-side registry of login sessions and their refresh tokens.
+ * Sessions are stored per user (auth-sessions/{userId}/{sessionId}.json)
+ * so that all of a user's sessions can be listed and revoked.
+ */
+export class AuthSessionService {
+  private storage: StorageBackend;
+  private refreshTokenTtlMs: number;
+
+  constructor(dataDir?: string) {
+    // Login sessions are shared by all workspaces, like users
+    this.storage = createStorage(dataDir, { workspaceScoped: false });
+    const ttlHours = parseFloat(process.env.REFRESH_TOKEN_TTL_HOURS || '') || DEFAULT_REFRESH_TOKEN_TTL_HOURS;
+    this.refreshTokenTtlMs = ttlHours * 60 * 60 * 1000;
+  }
+
+  /**
+   * Start a session and return it with its first refresh token
+   */
+  async createSession(userId: string, workspaceId: string, userAgent?: string): Promise<{
+    session: AuthSession;
+    refreshToken: string;
+  }> {
+    await this.purgeExpired(userId);
+
+    const now = new Date();
+    const secret = this.generateSecret();
+    const session: AuthSession = {
+      sessionId: crypto.randomUUID(),
+      userId,
+      workspaceId,
+      refreshTokenHash: this.hash(secret),
+      createdAt: now.toISOString(),
+      lastRefreshedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + this.refreshTokenTtlMs).toISOString(),
+      userAgent
+    };
+
+    await this.saveSession(session);
+    return { session, refreshToken: this.formatRefreshToken(session, secret) };
+  }
+
+  /**
+   * Exchange a refresh token for a new one.
+   * Presenting an already-used token revokes the session, since it means
+   * the token was copied.
+   */
+  async rotateRefreshToken(refreshToken: string): Promise<{
+    session: AuthSession;
+    refreshToken: string;
+  }> {
+    const [userId, sessionId, secret] = refreshToken.split('.');
+    const session = userId && sessionId && secret ? await this.getSession(userId, sessionId) : null;
+
+    if (!session || !this.isActive(session)) {
+      throw new Error('Invalid refresh token');
+    }
+
+    if (!this.hashMatches(secret, session.refreshTokenHash)) {
+      await this.revokeSession(userId, sessionId, 'refresh_token_reuse');
+      throw new Error('Invalid refresh token');
+    }
+
+    const newSecret = this.generateSecret();
+    session.refreshTokenHash = this.hash(newSecret);
+    session.lastRefreshedAt = new Date().toISOString();
+    await this.saveSession(session);
+
+    return { session, refreshToken: this.formatRefreshToken(session, newSecret) };
+  }
+
+  /**
+   * Whether access tokens of a session are still accepted
+   */
+  async isSessionActive(userId: string, sessionId: string): Promise<boolean> {
+    const session = await this.getSession(userId, sessionId);
+    return session !== null && this.isActive(session);
+  }
+
+  /**
+   * Record the workspace a session switched to, so refreshed tokens keep it
+   */
+  async setSessionWorkspace(userId: string, sessionId: string, workspaceId: string): Promise<AuthSession> {
+    const session = await this.getSession(userId, sessionId);
+    if (!session || !this.isActive(session)) {
+      throw new Error('Session not found');
+    }
+
+    session.workspaceId = workspaceId;
+    await this.saveSession(session);
+    return session;
+  }
+
+  async revokeSession(userId: string, sessionId: string, reason: string): Promise<void> {
+    const session = await this.getSession(userId, sessionId);
+    if (session && !session.revokedAt) {
+      session.revokedAt = new Date().toISOString();
+      session.revokedReason = reason;
+      await this.saveSession(session);
+    }
+  }
+
+  /**
+   * Revoke all of a user's active sessions
+   * @param exceptSessionId - Session to keep, e.g. the one changing its own password
+   * @returns Number of sessions revoked
+   */
+  async revokeAllSessions(userId: string, reason: string, exceptSessionId?: string): Promise<number> {
+    const sessions = await this.listActiveSessions(userId);
+    let revoked = 0;
+
+    for (const session of sessions) {
+      if (session.sessionId !== exceptSessionId) {
+        await this.revokeSession(userId, session.sessionId, reason);
+        revoked++;
+      }
+    }
+
+    return revoked;
+  }
+
+  async listActiveSessions(userId: string): Promise<AuthSession[]> {
+    const files = await this.storage.listFiles(`auth-sessions/${userId}`);
+    const sessions: AuthSession[] = [];
+
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      const session = await this.getSession(userId, file.replace('.json', ''));
+      if (session && this.isActive(session)) {
+        sessions.push(session);
+      }
+    }
+
+    return sessions;
+  }
+
+  /**
+   * Delete a user's expired and revoked sessions
+   */
+  async purgeExpired(userId: string): Promise<void> {
+    const files = await this.storage.listFiles(`auth-sessions/${userId}`);
+
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      const session = await this.getSession(userId, file.replace('.json', ''));
+      if (session && !this.isActive(session)) {
+        await this.storage.delete(`auth-sessions/${userId}/${file}`);
+      }
+    }
+  }
+
+  private async getSession(userId: string, sessionId: string): Promise<AuthSession | null> {
+    // IDs come from client-supplied tokens; never let them escape the directory
+    if (!/^[\w-]+$/.test(userId) || !/^[\w-]+$/.test(sessionId)) {
+      return null;
+    }
+
+    try {
+      return await this.storage.readJson<AuthSession>(`auth-sessions/${userId}/${sessionId}.json`);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private async saveSession(session: AuthSession): Promise<void> {
+    await this.storage.writeJson(`auth-sessions/${session.userId}/${session.sessionId}.json`, session);
+  }
+
+  private isActive(session: AuthSession): boolean {
+    return !session.revokedAt && new Date(session.expiresAt).getTime() > Date.now();
+  }
+
+  private formatRefreshToken(session: AuthSession, secret: string): string {
+    return `${session.userId}.${session.sessionId}.${secret}`;
+  }
+
+  private generateSecret(): string {
+    return crypto.randomBytes(32).toString('base64url');
+  }
+
+  private hash(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+
+  private hashMatches(secret: string, expectedHash: string): boolean {
+    const actual = Buffer.from(this.hash(secret), 'hex');
+    const expected = Buffer.from(expectedHash, 'hex');
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  }
+}
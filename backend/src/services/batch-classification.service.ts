@@ -0,0 +1,590 @@
+import { randomUUID } from 'crypto';
+import { StorageBackend } from './storage.service';
+import { SessionStorageService } from './session-storage.service';
+import { VersionedStorageService } from './versioned-storage.service';
+import { ClassificationService, ClassificationRequest } from './classification.service';
+import { DecisionMatrixEvaluatorService } from './decision-matrix-evaluator.service';
+import { SubjectExtractionService } from './subject-extraction.service';
+import { PIIService } from './pii.service';
+import { AuditLogService } from './audit-log.service';
+import { escapeCsvCell } from './csv';
+import { BatchJob, BatchJobItem, Classification, DecisionMatrixEvaluation, Session } from '../types';
+
+/**
+ * One row of an uploaded batch file
+ */
+export interface BatchInputRow {
+  index: number;
+  processDescription: string;
+  subject?: string;
+  externalId?: string;
+}
+
+/**
+ * LLM settings shared by every item in a job (credentials are never persisted)
+ */
+export type BatchLLMOptions = Omit<ClassificationRequest, 'processDescription' | 'conversationHistory'> & {
+  model: string;
+};
+
+/**
+ * Service for classifying many process descriptions from a CSV or JSONL upload.
+ * Each item runs through classification and decision matrix evaluation without
+ * interactive clarification and is stored as its own Session.
+ */
+export class BatchClassificationService {
+  static readonly MAX_ITEMS = 500;
+  private static readonly MIN_DESCRIPTION_LENGTH = 10;
+
+  // Column/field names accepted for each value (case-insensitive)
+  private static readonly DESCRIPTION_FIELDS = ['description', 'processdescription', 'process_description', 'process'];
+  private static readonly SUBJECT_FIELDS = ['subject', 'area', 'department'];
+  private static readonly ID_FIELDS = ['id', 'externalid', 'external_id', 'reference'];
+
+  private readonly JOBS_DIR = 'batch-jobs';
+
+  private jsonStorage: StorageBackend;
+  private sessionStorage: SessionStorageService;
+  private versionedStorage: VersionedStorageService;
+  private classificationService: ClassificationService;
+  private evaluatorService: DecisionMatrixEvaluatorService;
+  private subjectExtractionService: SubjectExtractionService;
+  private piiService: PIIService;
+  private auditLogService: AuditLogService;
+  private onSessionsChanged?: () => void;
+
+  // Jobs being processed by this process, and jobs asked to stop
+  private runningJobs: Set<string> = new Set();
+  private cancelRequests: Set<string> = new Set();
+
+  constructor(
+    jsonStorage: StorageBackend,
+    sessionStorage: SessionStorageService,
+    versionedStorage: VersionedStorageService,
+    classificationService: ClassificationService,
+    evaluatorService: DecisionMatrixEvaluatorService,
+    subjectExtractionService: SubjectExtractionService,
+    piiService: PIIService,
+    auditLogService: AuditLogService,
+    onSessionsChanged?: () => void
+  ) {
+    this.jsonStorage = jsonStorage;
+    this.sessionStorage = sessionStorage;
+    this.versionedStorage = versionedStorage;
+    this.classificationService = classificationService;
+    this.evaluatorService = evaluatorService;
+    this.subjectExtractionService = subjectExtractionService;
+    this.piiService = piiService;
+    this.auditLogService = auditLogService;
+    this.onSessionsChanged = onSessionsChanged;
+  }
+
+  /**
+   * Parse an uploaded file into rows
+   * @param content - File content
+   * @param format - 'csv' (header row required) or 'jsonl' (one JSON object per line)
+   */
+  parseInput(content: string, format: 'csv' | 'jsonl'): BatchInputRow[] {
+    const rows = format === 'csv' ? this.parseCsv(content) : this.parseJsonl(content);
+
+    if (rows.length === 0) {
+      throw new Error('The file does not contain any process descriptions');
+    }
+
+    if (rows.length > BatchClassificationService.MAX_ITEMS) {
+      throw new Error(`Batch is limited to ${BatchClassificationService.MAX_ITEMS} items (file has ${rows.length})`);
+    }
+
+    return rows;
+  }
+
+  /**
+   * Create a job and start processing it in the background
+   * @returns The job as initially stored
+   */
+  async startJob(
+    rows: BatchInputRow[],
+    llmOptions: BatchLLMOptions,
+    userId: string,
+    format: 'csv' | 'jsonl',
+    fileName?: string
+  ): Promise<BatchJob> {
+    const now = new Date().toISOString();
+    const job: BatchJob = {
+      jobId: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+      createdBy: userId,
+      fileName,
+      format,
+      status: 'running',
+      model: llmOptions.model,
+      llmProvider: llmOptions.provider || 'openai',
+      progress: {
+        total: rows.length,
+        processed: 0,
+        succeeded: 0,
+        failed: 0
+      },
+      items: rows.map(row => ({
+        index: row.index,
+        externalId: row.externalId,
+        subject: row.subject,
+        status: 'pending' as const
+      }))
+    };
+
+    await this.saveJob(job);
+    this.runningJobs.add(job.jobId);
+
+    // Not awaited: the caller polls getJob() for progress
+    this.runJob(job, rows, llmOptions, userId).catch(async (error) => {
+      console.error(`[Batch] Job ${job.jobId} failed:`, error);
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : 'Unknown error';
+      job.completedAt = new Date().toISOString();
+      this.runningJobs.delete(job.jobId);
+      await this.saveJob(job).catch(() => undefined);
+    });
+
+    return job;
+  }
+
+  /**
+   * Get a job by ID
+   * Jobs left 'running' by a previous server process are reported as failed
+   */
+  async getJob(jobId: string): Promise<BatchJob | null> {
+    // Job IDs become file names - reject anything that could escape the jobs directory
+    if (!/^[\w-]+$/.test(jobId)) {
+      return null;
+    }
+
+    const relativePath = `${this.JOBS_DIR}/${jobId}.json`;
+    if (!(await this.jsonStorage.exists(relativePath))) {
+      return null;
+    }
+
+    const job = await this.jsonStorage.readJson<BatchJob>(relativePath);
+
+    if (job.status === 'running' && !this.runningJobs.has(jobId)) {
+      job.status = 'failed';
+      job.error = 'Job was interrupted by a server restart';
+      await this.saveJob(job);
+    }
+
+    return job;
+  }
+
+  /**
+   * List jobs (without items), newest first
+   */
+  async listJobs(): Promise<Array<Omit<BatchJob, 'items'>>> {
+    const files = await this.jsonStorage.listFiles(this.JOBS_DIR);
+    const jobs: Array<Omit<BatchJob, 'items'>> = [];
+
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      try {
+        const job = await this.getJob(file.replace(/\.json$/, ''));
+        if (job) {
+          const { items, ...summary } = job;
+          jobs.push(summary);
+        }
+      } catch (error) {
+        console.warn(`[Batch] Skipping unreadable job file ${file}:`, error);
+      }
+    }
+
+    return jobs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Ask a running job to stop after the current item
+   * @returns false if the job is not running
+   */
+  cancelJob(jobId: string): boolean {
+    if (!this.runningJobs.has(jobId)) {
+      return false;
+    }
+    this.cancelRequests.add(jobId);
+    return true;
+  }
+
+  /**
+   * Render job results for download
+   */
+  formatResults(job: BatchJob, format: 'csv' | 'jsonl'): string {
+    const records = job.items.map(item => ({
+      index: item.index,
+      id: item.externalId || '',
+      subject: item.subject || '',
+      status: item.status,
+      sessionId: item.sessionId || '',
+      category: item.category || '',
+      confidence: item.confidence !== undefined ? item.confidence : '',
+      action: item.action || '',
+      matrixVersion: item.matrixVersion || '',
+      triggeredRules: item.triggeredRules || [],
+      error: item.error || ''
+    }));
+
+    if (format === 'jsonl') {
+      return records.map(r => JSON.stringify(r)).join('\n') + '\n';
+    }
+
+    const header = Object.keys(records[0] || { index: '' });
+    const lines = [header.join(',')];
+    for (const record of records) {
+      lines.push(header.map(key => {
+        const value = (record as any)[key];
+        return escapeCsvCell(Array.isArray(value) ? value.join('; ') : String(value));
+      }).join(','));
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Process every item sequentially, saving progress after each one
+   */
+  private async runJob(
+    job: BatchJob,
+    rows: BatchInputRow[],
+    llmOptions: BatchLLMOptions,
+    userId: string
+  ): Promise<void> {
+    for (let i = 0; i < rows.length; i++) {
+      if (this.cancelRequests.has(job.jobId)) {
+        job.status = 'cancelled';
+        break;
+      }
+
+      const item = job.items[i];
+      try {
+        await this.processItem(job, item, rows[i], llmOptions, userId);
+        item.status = 'completed';
+        job.progress.succeeded++;
+      } catch (error) {
+        console.warn(`[Batch] Job ${job.jobId} item ${item.index} failed:`, error);
+        item.status = 'failed';
+        item.error = error instanceof Error ? error.message : 'Unknown error';
+        job.progress.failed++;
+      }
+
+      job.progress.processed++;
+      await this.saveJob(job);
+    }
+
+    if (job.status === 'running') {
+      job.status = 'completed';
+    }
+    job.completedAt = new Date().toISOString();
+
+    this.runningJobs.delete(job.jobId);
+    this.cancelRequests.delete(job.jobId);
+    await this.saveJob(job);
+
+    if (this.onSessionsChanged) {
+      this.onSessionsChanged();
+    }
+  }
+
+  /**
+   * Classify a single item and store it as a Session
+   */
+  private async processItem(
+    job: BatchJob,
+    item: BatchJobItem,
+    row: BatchInputRow,
+    llmOptions: BatchLLMOptions,
+    userId: string
+  ): Promise<void> {
+    if (row.processDescription.length < BatchClassificationService.MIN_DESCRIPTION_LENGTH) {
+      throw new Error(`Process description must be at least ${BatchClassificationService.MIN_DESCRIPTION_LENGTH} characters`);
+    }
+
+    const startTime = Date.now();
+    const sessionId = randomUUID();
+    const model = llmOptions.model;
+    const llmProvider = llmOptions.provider || 'openai';
+
+    const scrubbedInput = await this.piiService.scrubAndStore(row.processDescription, sessionId, userId, 'description');
+    item.processDescription = scrubbedInput.scrubbedText;
+    item.sessionId = sessionId;
+
+    let subject = row.subject;
+    if (!subject) {
+      try {
+        subject = await this.subjectExtractionService.extractSubject(scrubbedInput.scrubbedText, {
+          provider: llmProvider,
+          model,
+          apiKey: llmOptions.apiKey,
+          baseUrl: llmOptions.baseUrl,
+          awsAccessKeyId: llmOptions.awsAccessKeyId,
+          awsSecretAccessKey: llmOptions.awsSecretAccessKey,
+          awsSessionToken: llmOptions.awsSessionToken,
+          awsRegion: llmOptions.awsRegion
+        });
+        item.subject = subject;
+      } catch (error) {
+        console.warn('[Batch] Failed to extract subject, continuing without it:', error);
+      }
+    }
+
+    const now = new Date().toISOString();
+    const session: Session = {
+      sessionId,
+      initiativeId: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+      status: 'active',
+      modelUsed: model,
+      userId,
+      subject,
+      batchJobId: job.jobId,
+      conversations: [{
+        conversationId: randomUUID(),
+        timestamp: now,
+        processDescription: scrubbedInput.scrubbedText,
+        subject,
+        clarificationQA: []
+      }]
+    };
+
+    await this.auditLogService.logUserInput(
+      sessionId,
+      userId,
+      row.processDescription,
+      scrubbedInput.scrubbedText,
+      scrubbedInput.hasPII,
+      {
+        modelVersion: model,
+        llmProvider,
+        subject,
+        batchJobId: job.jobId
+      }
+    );
+
+    const request: ClassificationRequest = {
+      ...llmOptions,
+      processDescription: scrubbedInput.scrubbedText,
+      conversationHistory: []
+    };
+
+    const classificationResult = await this.classificationService.classifyWithRoutingAndLLMData(request);
+    let classificationHadPII = await this.piiService.scrubClassificationOutput(classificationResult, sessionId, userId);
+    item.action = classificationResult.action;
+
+    // No interactive clarification in batch mode: always try the decision matrix
+    let decisionMatrixEvaluation: DecisionMatrixEvaluation | null = null;
+    let finalClassification: Omit<Classification, 'timestamp' | 'modelUsed' | 'llmProvider'> = classificationResult.result;
+    const decisionMatrix = await this.versionedStorage.getActiveDecisionMatrix();
+
+    try {
+      const extractedAttributes = await this.classificationService.extractAttributes(
+        scrubbedInput.scrubbedText,
+        [],
+        request
+      );
+      if (await this.piiService.scrubExtractedAttributes(extractedAttributes, sessionId, userId)) {
+        classificationHadPII = true;
+      }
+
+      const attributeValues: { [key: string]: any } = {};
+      for (const [key, value] of Object.entries(extractedAttributes)) {
+        attributeValues[key] = value.value;
+      }
+
+      if (decisionMatrix) {
+        decisionMatrixEvaluation = this.evaluatorService.evaluateMatrix(
+          decisionMatrix,
+          {
+            ...classificationResult.result,
+            timestamp: new Date().toISOString(),
+            modelUsed: model,
+            llmProvider
+          },
+          attributeValues
+        );
+        finalClassification = decisionMatrixEvaluation.finalClassification;
+      }
+    } catch (attrError) {
+      console.warn('[Batch] Attribute extraction failed, using classification without decision matrix:', attrError);
+    }
+
+    session.classification = {
+      category: finalClassification.category,
+      confidence: finalClassification.confidence,
+      rationale: finalClassification.rationale,
+      categoryProgression: finalClassification.categoryProgression,
+      futureOpportunities: finalClassification.futureOpportunities,
+      timestamp: new Date().toISOString(),
+      modelUsed: model,
+      llmProvider,
+      decisionMatrixEvaluation: decisionMatrixEvaluation || undefined
+    };
+    session.status = classificationResult.action === 'manual_review' ? 'manual_review' : 'completed';
+    await this.sessionStorage.saveSession(session);
+
+    await this.auditLogService.logClassification(
+      sessionId,
+      userId,
+      session.classification,
+      decisionMatrix?.version || null,
+      decisionMatrixEvaluation,
+      classificationResult.llmPrompt,
+      classificationResult.llmResponse,
+      classificationHadPII,
+      {
+        modelVersion: model,
+        llmProvider,
+        latencyMs: Date.now() - startTime,
+        decisionMatrixVersion: decisionMatrixEvaluation?.matrixVersion,
+        action: classificationResult.action,
+        batchJobId: job.jobId
+      }
+    );
+
+    item.category = session.classification.category;
+    item.confidence = session.classification.confidence;
+    item.matrixVersion = decisionMatrixEvaluation?.matrixVersion;
+    item.triggeredRules = decisionMatrixEvaluation?.triggeredRules.map(r => r.ruleName) || [];
+  }
+
+  /**
+   * Parse CSV with a header row (RFC 4180 quoting)
+   */
+  private parseCsv(content: string): BatchInputRow[] {
+    const records = this.splitCsvRecords(content.replace(/^\uFEFF/, ''));
+    if (records.length === 0) {
+      return [];
+    }
+
+    const header = records[0].map(h => h.trim().toLowerCase());
+    const descriptionCol = header.findIndex(h => BatchClassificationService.DESCRIPTION_FIELDS.includes(h));
+    const subjectCol = header.findIndex(h => BatchClassificationService.SUBJECT_FIELDS.includes(h));
+    const idCol = header.findIndex(h => BatchClassificationService.ID_FIELDS.includes(h));
+
+    if (descriptionCol === -1) {
+      throw new Error('CSV header must include a "description" column');
+    }
+
+    const rows: BatchInputRow[] = [];
+    for (let i = 1; i < records.length; i++) {
+      const record = records[i];
+      if (record.every(field => field.trim() === '')) {
+        continue;
+      }
+
+      rows.push({
+        index: i,
+        processDescription: (record[descriptionCol] || '').trim(),
+        subject: subjectCol >= 0 ? (record[subjectCol] || '').trim() || undefined : undefined,
+        externalId: idCol >= 0 ? (record[idCol] || '').trim() || undefined : undefined
+      });
+    }
+
+    return rows;
+  }
+
+  /**
+   * Split CSV text into records of fields, honouring quoted fields with
+   * embedded commas, newlines and doubled quotes
+   */
+  private splitCsvRecords(content: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (inQuotes) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        record.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') {
+          i++;
+        }
+        record.push(field);
+        records.push(record);
+        record = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (inQuotes) {
+      throw new Error('CSV has an unterminated quoted field');
+    }
+
+    if (field !== '' || record.length > 0) {
+      record.push(field);
+      records.push(record);
+    }
+
+    return records;
+  }
+
+  /**
+   * Parse JSONL (one object per line)
+   */
+  private parseJsonl(content: string): BatchInputRow[] {
+    const rows: BatchInputRow[] = [];
+    const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+    lines.forEach((line, i) => {
+      if (line.trim() === '') {
+        return;
+      }
+
+      let parsed: any;
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        throw new Error(`Line ${i + 1} is not valid JSON`);
+      }
+
+      const fields: { [key: string]: any } = {};
+      for (const [key, value] of Object.entries(parsed || {})) {
+        fields[key.toLowerCase()] = value;
+      }
+
+      const pick = (names: string[]): string | undefined => {
+        const name = names.find(n => fields[n] !== undefined && fields[n] !== null);
+        return name !== undefined ? String(fields[name]).trim() || undefined : undefined;
+      };
+
+      const processDescription = pick(BatchClassificationService.DESCRIPTION_FIELDS);
+      if (!processDescription) {
+        throw new Error(`Line ${i + 1} is missing a "description" field`);
+      }
+
+      rows.push({
+        index: i + 1,
+        processDescription,
+        subject: pick(BatchClassificationService.SUBJECT_FIELDS),
+        externalId: pick(BatchClassificationService.ID_FIELDS)
+      });
+    });
+
+    return rows;
+  }
+
+  private async saveJob(job: BatchJob): Promise<void> {
+    job.updatedAt = new Date().toISOString();
+    await this.jsonStorage.writeJson(`${this.JOBS_DIR}/${job.jobId}.json`, job);
+  }
+}
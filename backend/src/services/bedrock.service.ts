@@ -4,6 +4,7 @@ import {
   InvokeModelCommandInput,
   ConverseCommand,
   ConverseCommandInput,
+  ConverseStreamCommand,
   Message,
   ContentBlock,
 } from '@aws-sdk/client-bedrock-runtime';
@@ -22,6 +23,7 @@ import {
   ChatCompletionResponse,
   ModelInfo,
   LLMProviderConfig,
+  StructuredOutputFormat,
 } from './llm-provider.interface';
 
 /**
@@ -30,8 +32,6 @@ import {
  */
 export class BedrockService implements ILLMProvider {
   private readonly TIMEOUT_MS = 30000; // 30 seconds
-  private readonly MAX_RETRIES = 3;
-  private readonly INITIAL_RETRY_DELAY_MS = 1000; // 1 second
 
   // Fallback models (used when API call fails)
   // This list is only used as a fallback and doesn't restrict which models can be used
@@ -53,23 +53,22 @@ export class BedrockService implements ILLMProvider {
   ];
 
   /**
-   * Create a chat completion using AWS Bedrock
+   * Create a chat completion using AWS Bedrock. Retries and fallback to
+   * other providers are handled by LLMService.
    */
   async chat(
     messages: ChatMessage[],
     model: string,
     config: LLMProviderConfig
   ): Promise<ChatCompletionResponse> {
-    return this.withRetry(async () => {
-      const client = this.createClient(config);
+    const client = this.createClient(config);
 
-      // Check if this is a Nova model or newer model that requires Converse API
-      if (this.shouldUseConverseAPI(model)) {
-        return this.chatWithConverse(messages, model, client);
-      } else {
-        return this.chatWithInvokeModel(messages, model, client);
-      }
-    });
+    // Check if this is a Nova model or newer model that requires Converse API
+    if (this.shouldUseConverseAPI(model)) {
+      return this.chatWithConverse(messages, model, client, config.responseFormat);
+    } else {
+      return this.chatWithInvokeModel(messages, model, client, config.responseFormat);
+    }
   }
 
   /**
@@ -100,8 +99,104 @@ export class BedrockService implements ILLMProvider {
   private async chatWithConverse(
     messages: ChatMessage[],
     model: string,
-    client: BedrockRuntimeClient
+    client: BedrockRuntimeClient,
+    responseFormat?: StructuredOutputFormat
   ): Promise<ChatCompletionResponse> {
+    const command = new ConverseCommand(this.buildConverseInput(messages, model, responseFormat));
+    
+    try {
+      const response = await this.withTimeout(
+        client.send(command),
+        this.TIMEOUT_MS
+      );
+
+      return this.parseConverseResponse(response, model);
+    } catch (error: any) {
+      throw this.handleInvocationError(error, model);
+    }
+  }
+
+  /**
+   * Create a streaming chat completion with the ConverseStream API, passing
+   * text (or structured output JSON) to onDelta as it arrives. Models on the
+   * legacy InvokeModel API are answered in one piece.
+   */
+  async chatStream(
+    messages: ChatMessage[],
+    model: string,
+    config: LLMProviderConfig,
+    onDelta: (delta: string) => void
+  ): Promise<ChatCompletionResponse> {
+    if (!this.shouldUseConverseAPI(model)) {
+      const response = await this.chat(messages, model, config);
+      onDelta(response.content);
+      return response;
+    }
+
+    const client = this.createClient(config);
+    const abortController = new AbortController();
+    const command = new ConverseStreamCommand(this.buildConverseInput(messages, model, config.responseFormat));
+
+    let text = '';
+    let toolInput = '';
+    let promptTokens = 0;
+    let completionTokens = 0;
+
+    const consume = async () => {
+      const response = await client.send(command, { abortSignal: abortController.signal });
+      if (!response.stream) {
+        throw new Error('No output in Converse response');
+      }
+
+      for await (const event of response.stream) {
+        const delta = event.contentBlockDelta?.delta;
+        if (delta?.text) {
+          text += delta.text;
+          onDelta(delta.text);
+        } else if (delta?.toolUse?.input) {
+          // A forced tool call streams the structured output as JSON fragments
+          toolInput += delta.toolUse.input;
+          onDelta(delta.toolUse.input);
+        }
+        if (event.metadata?.usage) {
+          promptTokens = event.metadata.usage.inputTokens || 0;
+          completionTokens = event.metadata.usage.outputTokens || 0;
+        }
+      }
+    };
+
+    try {
+      await this.withTimeout(consume(), this.TIMEOUT_MS);
+    } catch (error: any) {
+      abortController.abort();
+      throw this.handleInvocationError(error, model);
+    }
+
+    const content = toolInput || text;
+    if (!content) {
+      throw new Error('No content in Converse response');
+    }
+
+    return {
+      content,
+      model,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+    };
+  }
+
+  /**
+   * Converse API request. Structured output is requested as a single tool
+   * the model must call.
+   */
+  private buildConverseInput(
+    messages: ChatMessage[],
+    model: string,
+    responseFormat?: StructuredOutputFormat
+  ): ConverseCommandInput {
     // Convert messages to Converse format
     const { system, messages: converseMessages } = this.convertToConverseFormat(messages);
 
@@ -118,37 +213,49 @@ export class BedrockService implements ILLMProvider {
       input.system = [{ text: system }];
     }
 
-    const command = new ConverseCommand(input);
-    
-    try {
-      const response = await this.withTimeout(
-        client.send(command),
-        this.TIMEOUT_MS
-      );
+    if (responseFormat) {
+      input.toolConfig = {
+        tools: [{
+          toolSpec: {
+            name: responseFormat.name,
+            description: responseFormat.description,
+            inputSchema: { json: responseFormat.schema as any },
+          },
+        }],
+        toolChoice: { tool: { name: responseFormat.name } },
+      };
+    }
 
-      return this.parseConverseResponse(response, model);
-    } catch (error: any) {
-      // Handle provisioned throughput errors
-      if (error.message?.includes('on-demand throughput') || 
-          error.message?.includes('provisioned throughput') ||
-          error.name === 'ValidationException') {
-        throw new Error(
-          `Model ${model} requires Provisioned Throughput. ` +
-          `This model is not available with On-Demand access. ` +
-          `Please select a different model or configure Provisioned Throughput in AWS Bedrock console.`
-        );
-      }
-      throw error;
+    return input;
+  }
+
+  /**
+   * Explain errors that mean the model can't be used on demand
+   */
+  private handleInvocationError(error: any, model: string): Error {
+    // Handle provisioned throughput errors
+    if (error.message?.includes('on-demand throughput') || 
+        error.message?.includes('provisioned throughput') ||
+        error.name === 'ValidationException') {
+      return new Error(
+        `Model ${model} requires Provisioned Throughput. ` +
+        `This model is not available with On-Demand access. ` +
+        `Please select a different model or configure Provisioned Throughput in AWS Bedrock console.`
+      );
     }
+    return error;
   }
 
   /**
-   * Chat using the legacy InvokeModel API (for older Claude models)
+   * Chat using the legacy InvokeModel API (for older Claude models).
+   * Claude 3 models get structured output as a forced tool call; Claude 2
+   * and Instant do not support tools and rely on the prompt.
    */
   private async chatWithInvokeModel(
     messages: ChatMessage[],
     model: string,
-    client: BedrockRuntimeClient
+    client: BedrockRuntimeClient,
+    responseFormat?: StructuredOutputFormat
   ): Promise<ChatCompletionResponse> {
     // Convert messages to Claude format
     const { system, messages: claudeMessages } = this.convertToClaude(messages);
@@ -164,6 +271,15 @@ export class BedrockService implements ILLMProvider {
       requestBody.system = system;
     }
 
+    if (responseFormat && !model.includes('claude-v2') && !model.includes('claude-instant')) {
+      requestBody.tools = [{
+        name: responseFormat.name,
+        description: responseFormat.description,
+        input_schema: responseFormat.schema,
+      }];
+      requestBody.tool_choice = { type: 'tool', name: responseFormat.name };
+    }
+
     const input: InvokeModelCommandInput = {
       modelId: model,
       contentType: 'application/json',
@@ -185,17 +301,7 @@ export class BedrockService implements ILLMProvider {
       
       return this.parseBedrockResponse(response, model);
     } catch (error: any) {
-      // Handle provisioned throughput errors
-      if (error.message?.includes('on-demand throughput') || 
-          error.message?.includes('provisioned throughput') ||
-          error.name === 'ValidationException') {
-        throw new Error(
-          `Model ${model} requires Provisioned Throughput. ` +
-          `This model is not available with On-Demand access. ` +
-          `Please select a different model or configure Provisioned Throughput in AWS Bedrock console.`
-        );
-      }
-      throw error;
+      throw this.handleInvocationError(error, model);
     }
   }
 
@@ -214,11 +320,14 @@ export class BedrockService implements ILLMProvider {
       throw new Error('No content in Bedrock response');
     }
 
-    // Extract text from content blocks
-    const content = responseBody.content
-      .filter((block: any) => block.type === 'text')
-      .map((block: any) => block.text)
-      .join('\n');
+    // Extract text from content blocks; a forced tool call carries the structured output
+    const toolUse = responseBody.content.find((block: any) => block.type === 'tool_use');
+    const content = toolUse
+      ? JSON.stringify(toolUse.input)
+      : responseBody.content
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('\n');
 
     return {
       content,
@@ -247,11 +356,14 @@ export class BedrockService implements ILLMProvider {
       throw new Error('No content in Converse response');
     }
 
-    // Extract text from content blocks
-    const content = message.content
-      .filter((block: ContentBlock) => block.text)
-      .map((block: ContentBlock) => block.text)
-      .join('\n');
+    // Extract text from content blocks; a forced tool call carries the structured output
+    const toolUse = message.content.find((block: ContentBlock) => block.toolUse);
+    const content = toolUse
+      ? JSON.stringify(toolUse.toolUse.input)
+      : message.content
+        .filter((block: ContentBlock) => block.text)
+        .map((block: ContentBlock) => block.text)
+        .join('\n');
 
     return {
       content,
@@ -705,31 +817,6 @@ export class BedrockService implements ILLMProvider {
     return { system, messages: claudeMessages };
   }
 
-  /**
-   * Retry logic with exponential backoff
-   */
-  private async withRetry<T>(
-    operation: () => Promise<T>,
-    attempt: number = 1
-  ): Promise<T> {
-    try {
-      return await operation();
-    } catch (error) {
-      if (attempt >= this.MAX_RETRIES) {
-        throw error;
-      }
-
-      // Check if error is retryable
-      if (this.isRetryableError(error)) {
-        const delay = this.INITIAL_RETRY_DELAY_MS * Math.pow(2, attempt - 1);
-        await this.sleep(delay);
-        return this.withRetry(operation, attempt + 1);
-      }
-
-      throw error;
-    }
-  }
-
   /**
    * Timeout wrapper for promises
    */
@@ -747,38 +834,4 @@ export class BedrockService implements ILLMProvider {
       ),
     ]);
   }
-
-  /**
-   * Check if error is retryable
-   */
-  private isRetryableError(error: any): boolean {
-    // Retry on throttling and server errors
-    if (error?.name === 'ThrottlingException') {
-      return true;
-    }
-
-    if (error?.$metadata?.httpStatusCode) {
-      const status = error.$metadata.httpStatusCode;
-      return status === 429 || status >= 500;
-    }
-
-    // Retry on timeout errors
-    if (error?.message?.includes('timeout')) {
-      return true;
-    }
-
-    // Retry on network errors
-    if (error?.code === 'ECONNRESET' || error?.code === 'ETIMEDOUT') {
-      return true;
-    }
-
-    return false;
-  }
-
-  /**
-   * Sleep utility
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
 }
@@ -1,7 +1,8 @@
-import { LLMService, ChatMessage, LLMProviderConfig } from './llm.service';
+import { LLMService, ChatMessage, LLMProviderConfig, LLMProviderType } from './llm.service';
 import { VersionedStorageService } from './versioned-storage.service';
-import { JsonStorageService } from './storage.service';
+import { createStorage } from './storage.service';
 import { ClassificationResult } from './classification.service';
+import { InterviewPolicy } from '../types';
 
 export interface ClarificationQuestion {
   question: string;
@@ -13,8 +14,9 @@ export interface ClarificationRequest {
   classification: ClassificationResult;
   conversationHistory: Array<{ question: string; answer: string }>;
   // LLM Provider config
-  provider?: 'openai' | 'bedrock';
+  provider?: LLMProviderType;
   apiKey?: string;
+  baseUrl?: string;
   awsAccessKeyId?: string;
   awsSecretAccessKey?: string;
   awsSessionToken?: string;
@@ -22,6 +24,8 @@ export interface ClarificationRequest {
   useRegionalInference?: boolean;
   regionalInferenceEndpoint?: string;
   model?: string;
+  // Policy the session's interview runs under (defaults to the active policy)
+  interviewPolicy?: InterviewPolicy;
 }
 
 export interface ClarificationResponse {
@@ -30,6 +34,30 @@ export interface ClarificationResponse {
   reason: string;
 }
 
+/**
+ * Interview limits and stopping thresholds used until an admin saves a policy
+ */
+export const DEFAULT_INTERVIEW_POLICY: InterviewPolicy = {
+  version: '1.0',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  createdBy: 'system',
+  description: 'Default interview policy',
+  minQuestions: 1,
+  maxQuestionsPerRound: 3,
+  softLimitQuestions: 8, // Soft limit - warn but allow
+  hardLimitQuestions: 15, // Hard limit - stop interview
+  highConfidenceThreshold: 0.95,
+  lowConfidenceThreshold: 0.5,
+  lowConfidenceMinQuestions: 3,
+  repetitionCheckAfter: 3,
+  repetitionSimilarPairs: 2,
+  duplicateCheckAfter: 5,
+  duplicateMinUnique: 3,
+  unknownAnswerCheckAfter: 5,
+  unknownAnswerWindow: 3,
+  unknownAnswerThreshold: 2
+};
+
 /**
  * Service for generating and managing clarification questions
  */
@@ -39,14 +67,33 @@ export class ClarificationService {
   private readonly DEFAULT_MODEL = 'gpt-4';
   private readonly CLARIFICATION_PROMPT_ID = 'clarification';
   private readonly CLARIFICATION_PROMPT_VERSION = 'v1.2';
-  private readonly SOFT_LIMIT_QUESTIONS = 8; // Soft limit - warn but allow
-  private readonly HARD_LIMIT_QUESTIONS = 15; // Hard limit - stop interview
-  private readonly MIN_QUESTIONS = 1;
-  private readonly MAX_QUESTIONS = 3;
 
   constructor(versionedStorage?: VersionedStorageService) {
     this.llmService = new LLMService();
-    this.versionedStorage = versionedStorage || new VersionedStorageService(new JsonStorageService());
+    this.versionedStorage = versionedStorage || new VersionedStorageService(createStorage());
+  }
+
+  /**
+   * Get the active interview policy, saving the default as version 1.0
+   * if no policy has been saved yet
+   */
+  async getActiveInterviewPolicy(): Promise<InterviewPolicy> {
+    const policy = await this.versionedStorage.getInterviewPolicy();
+    if (policy) {
+      return policy;
+    }
+
+    await this.versionedStorage.saveInterviewPolicy(DEFAULT_INTERVIEW_POLICY);
+    return DEFAULT_INTERVIEW_POLICY;
+  }
+
+  /**
+   * Get the interview policy a session recorded, falling back to the active
+   * policy if that version no longer exists
+   */
+  async getInterviewPolicy(version?: string): Promise<InterviewPolicy> {
+    const policy = version ? await this.versionedStorage.getInterviewPolicy(version) : null;
+    return policy || await this.getActiveInterviewPolicy();
   }
 
   /**
@@ -58,9 +105,10 @@ export class ClarificationService {
     try {
       const questionCount = request.conversationHistory.length;
       const confidence = request.classification.confidence;
+      const policy = request.interviewPolicy || await this.getActiveInterviewPolicy();
 
       // Check if interview should be stopped (includes all detection logic)
-      const stopCheck = this.shouldStopInterview(request.conversationHistory);
+      const stopCheck = this.shouldStopInterview(request.conversationHistory, policy);
       if (stopCheck.shouldStop) {
         console.log(`Auto-stopping interview: ${stopCheck.reason}`);
         return {
@@ -78,7 +126,7 @@ export class ClarificationService {
       const hasEnoughInfo = completeness.isComplete;
 
       // If we have high confidence AND enough information, stop asking
-      if (confidence >= 0.95 && hasEnoughInfo) {
+      if (confidence >= policy.highConfidenceThreshold && hasEnoughInfo && questionCount >= policy.minQuestions) {
         return {
           questions: [],
           shouldClarify: false,
@@ -87,7 +135,7 @@ export class ClarificationService {
       }
 
       // If confidence is very low, flag for manual review instead of asking more questions
-      if (confidence < 0.5 && questionCount >= 3) {
+      if (confidence < policy.lowConfidenceThreshold && questionCount >= policy.lowConfidenceMinQuestions) {
         return {
           questions: [],
           shouldClarify: false,
@@ -103,6 +151,7 @@ export class ClarificationService {
         provider: request.provider,
         model,
         apiKey: request.apiKey,
+        baseUrl: request.baseUrl,
         awsAccessKeyId: request.awsAccessKeyId,
         awsSecretAccessKey: request.awsSecretAccessKey,
         awsSessionToken: request.awsSessionToken,
@@ -117,12 +166,13 @@ export class ClarificationService {
         request.classification,
         request.conversationHistory,
         request.model || this.DEFAULT_MODEL,
+        policy,
         completeness.missingStrategic
       );
 
-      const response = await this.llmService.chat(messages, model, config);
+      const response = await this.llmService.chat(messages, model, config, this.CLARIFICATION_PROMPT_ID);
 
-      const questions = this.parseClarificationResponse(response.content);
+      const questions = this.parseClarificationResponse(response.content, policy);
 
       // If no questions generated, we're done
       if (questions.length === 0) {
@@ -135,8 +185,8 @@ export class ClarificationService {
 
       // Soft limit warning
       let reason = `Confidence: ${confidence.toFixed(2)}, generating ${questions.length} question(s)`;
-      if (questionCount >= this.SOFT_LIMIT_QUESTIONS) {
-        reason += ` (${questionCount + questions.length}/${this.HARD_LIMIT_QUESTIONS} questions asked)`;
+      if (questionCount >= policy.softLimitQuestions) {
+        reason += ` (${questionCount + questions.length}/${policy.hardLimitQuestions} questions asked)`;
       }
 
       return {
@@ -154,37 +204,47 @@ export class ClarificationService {
   /**
    * Check if more questions can be asked in this session
    * @param conversationHistory - Current conversation history
+   * @param policy - Interview policy of the session
    * @returns True if more questions can be asked
    */
-  canAskMoreQuestions(conversationHistory: Array<{ question: string; answer: string }>): boolean {
-    return conversationHistory.length < this.HARD_LIMIT_QUESTIONS;
+  canAskMoreQuestions(
+    conversationHistory: Array<{ question: string; answer: string }>,
+    policy: InterviewPolicy = DEFAULT_INTERVIEW_POLICY
+  ): boolean {
+    return conversationHistory.length < policy.hardLimitQuestions;
   }
 
   /**
    * Get remaining question count for session
    * @param conversationHistory - Current conversation history
+   * @param policy - Interview policy of the session
    * @returns Number of questions remaining
    */
-  getRemainingQuestionCount(conversationHistory: Array<{ question: string; answer: string }>): number {
-    return Math.max(0, this.HARD_LIMIT_QUESTIONS - conversationHistory.length);
+  getRemainingQuestionCount(
+    conversationHistory: Array<{ question: string; answer: string }>,
+    policy: InterviewPolicy = DEFAULT_INTERVIEW_POLICY
+  ): number {
+    return Math.max(0, policy.hardLimitQuestions - conversationHistory.length);
   }
 
   /**
    * Check if interview should be automatically stopped
    * Detects LLM loops, user frustration, and other problematic patterns
    * @param conversationHistory - Current conversation history
+   * @param policy - Interview policy of the session
    * @returns Object with shouldStop flag and reason
    */
   shouldStopInterview(
-    conversationHistory: Array<{ question: string; answer: string }>
+    conversationHistory: Array<{ question: string; answer: string }>,
+    policy: InterviewPolicy = DEFAULT_INTERVIEW_POLICY
   ): { shouldStop: boolean; reason: string } {
     const questionCount = conversationHistory.length;
 
     // Hard limit reached
-    if (questionCount >= this.HARD_LIMIT_QUESTIONS) {
+    if (questionCount >= policy.hardLimitQuestions) {
       return {
         shouldStop: true,
-        reason: `Interview limit reached (${this.HARD_LIMIT_QUESTIONS} questions)`
+        reason: `Interview limit reached (${policy.hardLimitQuestions} questions)`
       };
     }
 
@@ -192,8 +252,8 @@ export class ClarificationService {
     // The LLM will naturally stop asking questions if it detects negative sentiment
 
     // Check for repetitive questions (potential loop)
-    if (questionCount >= 3) {
-      const isRepetitive = this.detectRepetitiveQuestions(conversationHistory);
+    if (questionCount >= policy.repetitionCheckAfter) {
+      const isRepetitive = this.detectRepetitiveQuestions(conversationHistory, policy);
       if (isRepetitive) {
         return {
           shouldStop: true,
@@ -203,12 +263,12 @@ export class ClarificationService {
     }
 
     // Check for exact duplicate questions (strict loop detection)
-    if (questionCount >= 5) {
-      const recentQuestions = conversationHistory.slice(-5).map(qa => qa.question.toLowerCase());
+    if (questionCount >= policy.duplicateCheckAfter) {
+      const recentQuestions = conversationHistory.slice(-policy.duplicateCheckAfter).map(qa => qa.question.toLowerCase());
       const uniqueQuestions = new Set(recentQuestions);
 
-      // If last 5 questions have less than 3 unique questions, likely a loop
-      if (uniqueQuestions.size < 3) {
+      // If the recent questions have too few unique questions, likely a loop
+      if (uniqueQuestions.size < policy.duplicateMinUnique) {
         return {
           shouldStop: true,
           reason: 'Detected duplicate questions - possible LLM loop'
@@ -217,8 +277,8 @@ export class ClarificationService {
     }
 
     // Check for excessive "don't know" answers
-    if (questionCount >= 5) {
-      const hasUnknownAnswers = this.detectUnknownAnswers(conversationHistory);
+    if (questionCount >= policy.unknownAnswerCheckAfter) {
+      const hasUnknownAnswers = this.detectUnknownAnswers(conversationHistory, policy);
       if (hasUnknownAnswers) {
         return {
           shouldStop: true,
@@ -228,10 +288,10 @@ export class ClarificationService {
     }
 
     // Soft limit warning
-    if (questionCount >= this.SOFT_LIMIT_QUESTIONS) {
+    if (questionCount >= policy.softLimitQuestions) {
       return {
         shouldStop: false,
-        reason: `Approaching limit (${questionCount}/${this.HARD_LIMIT_QUESTIONS} questions asked)`
+        reason: `Approaching limit (${questionCount}/${policy.hardLimitQuestions} questions asked)`
       };
     }
 
@@ -309,11 +369,12 @@ export class ClarificationService {
    */
   private async assessInformationCompleteness(
     processDescription: string,
-    conversationHistory: Array<{ question: string; answer: string }>
+    conversationHistory: Array<{ question: string; answer: string }>,
+    policy: InterviewPolicy = DEFAULT_INTERVIEW_POLICY
   ): Promise<boolean> {
     const result = await this.assessInformationCompletenessDetailed(processDescription, conversationHistory);
     // If it's not complete, but we've asked many questions, we might have to stop anyway
-    if (conversationHistory.length >= 8) {
+    if (conversationHistory.length >= policy.softLimitQuestions) {
       return true;
     }
     return result.isComplete;
@@ -322,17 +383,19 @@ export class ClarificationService {
   /**
    * Detect if user is giving "I don't know" type answers
    * @param conversationHistory - Q&A history
+   * @param policy - Interview policy of the session
    * @returns True if recent answers indicate lack of knowledge
    */
   private detectUnknownAnswers(
-    conversationHistory: Array<{ question: string; answer: string }>
+    conversationHistory: Array<{ question: string; answer: string }>,
+    policy: InterviewPolicy
   ): boolean {
     if (conversationHistory.length === 0) {
       return false;
     }
 
-    // Check last 3 answers
-    const recentAnswers = conversationHistory.slice(-3);
+    // Check the most recent answers
+    const recentAnswers = conversationHistory.slice(-policy.unknownAnswerWindow);
     const unknownPatterns = [
       /\b(don'?t know|not sure|unsure|no idea|can'?t say|unclear|uncertain)\b/i,
       /\b(i don'?t|we don'?t|don'?t have|no information)\b/i,
@@ -347,8 +410,8 @@ export class ClarificationService {
       }
     }
 
-    // If 2 out of last 3 answers are "don't know", user likely can't provide more info
-    return unknownCount >= 2;
+    // If enough recent answers are "don't know", user likely can't provide more info
+    return unknownCount >= policy.unknownAnswerThreshold;
   }
 
   // Note: Frustration detection is now handled by the LLM via the prompt
@@ -358,12 +421,14 @@ export class ClarificationService {
   /**
    * Detect if questions are becoming repetitive
    * @param conversationHistory - Q&A history
+   * @param policy - Interview policy of the session
    * @returns True if questions are repetitive
    */
   private detectRepetitiveQuestions(
-    conversationHistory: Array<{ question: string; answer: string }>
+    conversationHistory: Array<{ question: string; answer: string }>,
+    policy: InterviewPolicy
   ): boolean {
-    if (conversationHistory.length < 3) {
+    if (conversationHistory.length < policy.repetitionCheckAfter) {
       return false;
     }
 
@@ -395,8 +460,8 @@ export class ClarificationService {
       }
     }
 
-    // If 2+ pairs of similar questions, we're being repetitive
-    return similarityCount >= 2;
+    // If enough pairs of questions are similar, we're being repetitive
+    return similarityCount >= policy.repetitionSimilarPairs;
   }
 
   /**
@@ -407,6 +472,7 @@ export class ClarificationService {
     classification: ClassificationResult,
     conversationHistory: Array<{ question: string; answer: string }>,
     model: string,
+    policy: InterviewPolicy,
     missingStrategicKeys: string[] = []
   ): Promise<ChatMessage[]> {
     const isO1Model = model.startsWith('o1');
@@ -448,7 +514,7 @@ export class ClarificationService {
       }
     }
 
-    const remainingQuestions = this.getRemainingQuestionCount(conversationHistory);
+    const remainingQuestions = this.getRemainingQuestionCount(conversationHistory, policy);
     const questionCount = conversationHistory.length;
 
     context += `\nQuestions asked so far: ${questionCount}\n`;
@@ -456,10 +522,10 @@ export class ClarificationService {
     // Adjust number of questions based on conversation progress
     let questionsToGenerate: number;
     if (questionCount === 0) {
-      questionsToGenerate = this.MAX_QUESTIONS; // First round: 2-3 questions
+      questionsToGenerate = policy.maxQuestionsPerRound; // First round: 2-3 questions
     } else if (questionCount < 5) {
       questionsToGenerate = 2; // Early rounds: 2 questions
-    } else if (questionCount < 8) {
+    } else if (questionCount < policy.softLimitQuestions) {
       questionsToGenerate = 1; // Later rounds: 1 question at a time
     } else {
       questionsToGenerate = 1; // Final rounds: 1 question only
@@ -471,7 +537,7 @@ export class ClarificationService {
     context += `- If the user has said "I don't know" or similar, try rephrasing or move on\n`;
     context += `- If you have enough information to classify confidently, return an empty array []\n`;
     context += `- Focus on the MOST CRITICAL missing information only\n`;
-    context += `- After ${this.SOFT_LIMIT_QUESTIONS} questions, only ask if absolutely necessary\n`;
+    context += `- After ${policy.softLimitQuestions} questions, only ask if absolutely necessary\n`;
 
     const userPrompt = isO1Model
       ? `${systemPrompt}\n\n${context}`
@@ -737,7 +803,7 @@ Generate 2-3 questions maximum. Respond ONLY with the JSON array, no additional
   /**
    * Parse the clarification response from OpenAI
    */
-  private parseClarificationResponse(content: string): ClarificationQuestion[] {
+  private parseClarificationResponse(content: string, policy: InterviewPolicy): ClarificationQuestion[] {
     try {
       // Check for malformed responses (e.g., "Clarification 9")
       const trimmedContent = content.trim();
@@ -770,8 +836,8 @@ Generate 2-3 questions maximum. Respond ONLY with the JSON array, no additional
         }
       }
 
-      // Limit to MAX_QUESTIONS
-      return questions.slice(0, this.MAX_QUESTIONS);
+      // Limit to the questions allowed per round
+      return questions.slice(0, policy.maxQuestionsPerRound);
     } catch (error) {
       throw new Error(
         `Failed to parse clarification response: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -1,6 +1,9 @@
-import { LLMService, ChatMessage, LLMProviderConfig } from './llm.service';
+import { z } from 'zod';
+import { LLMService, ChatMessage, ChatCompletionResponse, LLMProviderConfig, LLMProviderType } from './llm.service';
 import { VersionedStorageService } from './versioned-storage.service';
-import { JsonStorageService } from './storage.service';
+import { createStorage } from './storage.service';
+import { StructuredOutput, extractPartialJsonString } from './structured-output';
+import { Attribute, ClassificationSchema } from '../types';
 
 export interface ClassificationResult {
   category: 'Eliminate' | 'Simplify' | 'Digitise' | 'RPA' | 'AI Agent' | 'Agentic AI';
@@ -14,6 +17,7 @@ export interface ClassificationWithLLMData {
   result: ClassificationResult;
   llmPrompt: string;
   llmResponse: string;
+  answeredBy?: ChatCompletionResponse['answeredBy'];
 }
 
 export type ConfidenceAction = 'auto_classify' | 'clarify' | 'manual_review';
@@ -37,8 +41,9 @@ export interface ClassificationRequest {
   conversationHistory?: Array<{ question: string; answer: string }>;
   model?: string;
   // LLM Provider config
-  provider?: 'openai' | 'bedrock';
+  provider?: LLMProviderType;
   apiKey?: string;
+  baseUrl?: string;
   awsAccessKeyId?: string;
   awsSecretAccessKey?: string;
   awsSessionToken?: string;
@@ -47,6 +52,35 @@ export interface ClassificationRequest {
   regionalInferenceEndpoint?: string;
 }
 
+/**
+ * Classification fields the LLM must return, as stored on a Classification
+ */
+const CLASSIFICATION_OUTPUT: StructuredOutput<ClassificationResult> = {
+  name: 'classification',
+  description: 'Transformation category of the business process with confidence, rationale and next steps',
+  schema: ClassificationSchema.pick({
+    category: true,
+    confidence: true,
+    rationale: true,
+    categoryProgression: true,
+    futureOpportunities: true
+  })
+};
+
+// Required core attributes (including those critical for decision matrix)
+const CORE_ATTRIBUTES = [
+  'frequency',
+  'business_value',
+  'complexity',
+  'risk',
+  'user_count',
+  'data_sensitivity',
+  'data_source',
+  'output_type',
+  'judgment_required',
+  'current_state'
+];
+
 export class ClassificationService {
   private llmService: LLMService;
   private versionedStorage: VersionedStorageService;
@@ -56,7 +90,7 @@ export class ClassificationService {
 
   constructor(versionedStorage?: VersionedStorageService) {
     this.llmService = new LLMService();
-    this.versionedStorage = versionedStorage || new VersionedStorageService(new JsonStorageService());
+    this.versionedStorage = versionedStorage || new VersionedStorageService(createStorage());
   }
 
   /**
@@ -73,6 +107,7 @@ export class ClassificationService {
         provider: request.provider,
         model,
         apiKey: request.apiKey,
+        baseUrl: request.baseUrl,
         awsAccessKeyId: request.awsAccessKeyId,
         awsSecretAccessKey: request.awsSecretAccessKey,
         awsSessionToken: request.awsSessionToken,
@@ -92,9 +127,11 @@ export class ClassificationService {
         model
       );
 
-      const response = await this.llmService.chat(messages, model, config);
+      const response = await this.llmService.chatStructured(
+        messages, model, config, CLASSIFICATION_OUTPUT, this.CLASSIFICATION_PROMPT_ID
+      );
 
-      return this.parseClassificationResponse(response.content);
+      return response.data;
     } catch (error) {
       throw this.handleClassificationError(error);
     }
@@ -103,9 +140,14 @@ export class ClassificationService {
   /**
    * Classify with LLM prompt and response data for audit logging
    * @param request - Classification request with process description and context
+   * @param onRationale - Streams the rationale as it is written; called with the
+   * text so far, which starts again if the LLM call is retried
    * @returns Classification result with LLM prompt and response
    */
-  async classifyWithLLMData(request: ClassificationRequest): Promise<ClassificationWithLLMData> {
+  async classifyWithLLMData(
+    request: ClassificationRequest,
+    onRationale?: (rationale: string) => void
+  ): Promise<ClassificationWithLLMData> {
     try {
       const model = request.model || this.DEFAULT_MODEL;
 
@@ -114,6 +156,7 @@ export class ClassificationService {
         provider: request.provider,
         model,
         apiKey: request.apiKey,
+        baseUrl: request.baseUrl,
         awsAccessKeyId: request.awsAccessKeyId,
         awsSecretAccessKey: request.awsSecretAccessKey,
         awsSessionToken: request.awsSessionToken,
@@ -133,15 +176,21 @@ export class ClassificationService {
         model
       );
 
-      const response = await this.llmService.chat(messages, model, config);
+      const onContent = onRationale && ((content: string) => {
+        onRationale(extractPartialJsonString(content, 'rationale') || '');
+      });
+      const response = await this.llmService.chatStructured(
+        messages, model, config, CLASSIFICATION_OUTPUT, this.CLASSIFICATION_PROMPT_ID, onContent
+      );
 
       // Build prompt string for logging
       const promptString = messages.map(m => `[${m.role}]: ${m.content}`).join('\n\n');
 
       return {
-        result: this.parseClassificationResponse(response.content),
+        result: response.data,
         llmPrompt: promptString,
-        llmResponse: response.content
+        llmResponse: response.content,
+        answeredBy: response.answeredBy
       };
     } catch (error) {
       throw this.handleClassificationError(error);
@@ -170,10 +219,14 @@ export class ClassificationService {
   /**
    * Classify with confidence-based routing and LLM data for audit logging
    * @param request - Classification request
+   * @param onRationale - Streams the rationale as it is written (see classifyWithLLMData)
    * @returns Classification result with recommended action and LLM data
    */
-  async classifyWithRoutingAndLLMData(request: ClassificationRequest): Promise<ClassificationWithAction & { llmPrompt: string; llmResponse: string }> {
-    const classificationWithLLM = await this.classifyWithLLMData(request);
+  async classifyWithRoutingAndLLMData(
+    request: ClassificationRequest,
+    onRationale?: (rationale: string) => void
+  ): Promise<ClassificationWithAction & Omit<ClassificationWithLLMData, 'result'>> {
+    const classificationWithLLM = await this.classifyWithLLMData(request, onRationale);
     const action = this.determineAction(
       classificationWithLLM.result.confidence,
       request.processDescription,
@@ -184,7 +237,8 @@ export class ClassificationService {
       result: classificationWithLLM.result,
       action,
       llmPrompt: classificationWithLLM.llmPrompt,
-      llmResponse: classificationWithLLM.llmResponse
+      llmResponse: classificationWithLLM.llmResponse,
+      answeredBy: classificationWithLLM.answeredBy
     };
   }
 
@@ -305,6 +359,7 @@ export class ClassificationService {
         provider: request.provider,
         model: modelToUse,
         apiKey: request.apiKey,
+        baseUrl: request.baseUrl,
         awsAccessKeyId: request.awsAccessKeyId,
         awsSecretAccessKey: request.awsSecretAccessKey,
         awsSessionToken: request.awsSessionToken,
@@ -324,9 +379,15 @@ export class ClassificationService {
         modelToUse
       );
 
-      const response = await this.llmService.chat(messages, modelToUse, config);
+      const response = await this.llmService.chatStructured(
+        messages,
+        modelToUse,
+        config,
+        await this.buildAttributeExtractionOutput(),
+        this.ATTRIBUTE_EXTRACTION_PROMPT_ID
+      );
 
-      return await this.parseAttributeExtractionResponse(response.content);
+      return response.data;
     } catch (error) {
       throw new Error(
         `Attribute extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -504,109 +565,105 @@ Respond ONLY with the JSON object, no additional text.`;
   }
 
   /**
-   * Parse the attribute extraction response from OpenAI
+   * Expected attribute extraction response: the core attributes, the active
+   * decision matrix's attributes and the active strategic questions, each as
+   * a value and explanation. Categorical matrix attributes are limited to
+   * their possible values, plus "unknown" when the conversation doesn't say.
    */
-  private async parseAttributeExtractionResponse(content: string): Promise<ExtractedAttributes> {
+  private async buildAttributeExtractionOutput(): Promise<StructuredOutput<ExtractedAttributes>> {
+    let matrixAttributes: Attribute[] = [];
+    try {
+      const matrix = await this.versionedStorage.getActiveDecisionMatrix();
+      matrixAttributes = matrix?.attributes || [];
+    } catch (error) {
+      console.warn('Failed to load decision matrix for attribute extraction, using core attributes');
+    }
+
+    // Fetch dynamic strategic keys to ensure they are included in result
+    let strategicKeys = [
+      'success_criteria',
+      'risks_constraints',
+      'value_estimate',
+      'sponsorship'
+    ];
     try {
-      // Extract JSON from response
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in response');
+      const questions = await this.versionedStorage.getStrategicQuestions();
+      if (questions && Array.isArray(questions)) {
+        strategicKeys = questions.filter((q: any) => q.active).map((q: any) => q.key);
       }
+    } catch (error) {
+      console.warn('Failed to load strategic questions for parser, using defaults');
+    }
+
+    const attributeNames = Array.from(new Set([
+      ...CORE_ATTRIBUTES,
+      ...matrixAttributes.map(attr => attr.name),
+      ...strategicKeys
+    ]));
+
+    const shape: Record<string, z.ZodTypeAny> = {};
+    for (const name of attributeNames) {
+      const attribute = matrixAttributes.find(attr => attr.name === name);
+      const allowedValues = attribute?.type === 'categorical' && attribute.possibleValues?.length
+        ? Array.from(new Set([...attribute.possibleValues, 'unknown']))
+        : null;
+      const value = allowedValues ? z.enum(allowedValues as [string, ...string[]]) : z.string();
+
+      shape[name] = z.object({
+        value: attribute?.description ? value.describe(attribute.description) : value,
+        explanation: z.string()
+      });
+    }
 
-      const parsed = JSON.parse(jsonMatch[0]);
-
-      // Required core attributes (including those critical for decision matrix)
-      const coreAttributes = [
-        'frequency',
-        'business_value',
-        'complexity',
-        'risk',
-        'user_count',
-        'data_sensitivity',
-        'data_source',
-        'output_type',
-        'judgment_required',
-        'current_state'
-      ];
+    return {
+      name: 'attribute_extraction',
+      description: 'Business attributes of the process extracted from the conversation',
+      schema: z.object(shape) as z.ZodType<ExtractedAttributes>,
+      normalize: (parsed: any) => this.normalizeExtractedAttributes(parsed, attributeNames, matrixAttributes)
+    };
+  }
 
-      // Fetch dynamic strategic keys to ensure they are included in result
-      let strategicKeys = [
-        'success_criteria',
-        'risks_constraints',
-        'value_estimate',
-        'sponsorship'
-      ];
-      try {
-        const questions = await this.versionedStorage.getStrategicQuestions();
-        if (questions && Array.isArray(questions)) {
-          strategicKeys = questions.filter((q: any) => q.active).map((q: any) => q.key);
-        }
-      } catch (error) {
-        console.warn('Failed to load strategic questions for parser, using defaults');
+  /**
+   * Accept flat values, key aliases and differently cased categorical
+   * values. Missing attributes are left out so validation reports them.
+   */
+  private normalizeExtractedAttributes(
+    parsed: any,
+    attributeNames: string[],
+    matrixAttributes: Attribute[]
+  ): unknown {
+    if (!parsed || typeof parsed !== 'object') {
+      return parsed;
+    }
+
+    const result: any = {};
+    for (const attr of attributeNames) {
+      // Check for aliases (e.g., "judgement_required" vs "judgment_required")
+      const key = parsed[attr] !== undefined && parsed[attr] !== null ? attr : this.findAliasKey(attr, parsed);
+      if (!key) {
+        continue;
       }
 
-      const allExpectedKeys = [...coreAttributes, ...strategicKeys];
-
-      // Robust parsing: Handle flat JSON or nested objects
-      const result: any = {};
-      for (const attr of allExpectedKeys) {
-        const val = parsed[attr];
-
-        if (val !== undefined && val !== null) {
-          if (typeof val === 'object' && val.value !== undefined) {
-            // Nested object format: { value: "...", explanation: "..." }
-            result[attr] = {
-              value: val.value || 'unknown',
-              explanation: val.explanation || 'Extracted from conversation'
-            };
-          } else {
-            // Flat format or simple string
-            result[attr] = {
-              value: String(val),
-              explanation: 'Extracted from conversation (flat format)'
-            };
-          }
-        } else {
-          // Check for aliases (e.g., "judgement_required" vs "judgment_required")
-          const aliasKey = this.findAliasKey(attr, parsed);
-          if (aliasKey) {
-            const aliasVal = parsed[aliasKey];
-            if (typeof aliasVal === 'object' && aliasVal.value !== undefined) {
-              result[attr] = aliasVal;
-            } else {
-              result[attr] = {
-                value: String(aliasVal),
-                explanation: 'Extracted via alias'
-              };
-            }
-          } else {
-            console.warn(`[Attribute Extraction] Missing attribute "${attr}", defaulting to unknown`);
-            result[attr] = {
-              value: 'unknown',
-              explanation: 'Insufficient information provided'
-            };
-          }
-        }
-      }
+      const val = parsed[key];
+      const isNested = typeof val === 'object' && val !== null && val.value !== undefined;
+      let value = String(isNested ? val.value : val).trim();
 
-      // Include any other keys returned by LLM (extra context)
-      for (const key of Object.keys(parsed)) {
-        if (!result[key]) {
-          const val = parsed[key];
-          result[key] = typeof val === 'object' && val.value !== undefined
-            ? val
-            : { value: String(val), explanation: 'Additional extracted field' };
-        }
+      const possibleValues = matrixAttributes.find(a => a.name === attr)?.possibleValues || [];
+      const match = possibleValues.find(option => option.toLowerCase() === value.toLowerCase());
+      if (match) {
+        value = match;
+      } else if (value.toLowerCase() === 'unknown') {
+        value = 'unknown';
       }
 
-      return result as ExtractedAttributes;
-    } catch (error) {
-      console.error('[Attribute Extraction] Parse error:', error);
-      throw new Error(
-        `Failed to parse attribute extraction response: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      result[attr] = {
+        value,
+        explanation: isNested && typeof val.explanation === 'string'
+          ? val.explanation
+          : 'Extracted from conversation'
+      };
     }
+    return result;
   }
 
   /**
@@ -885,67 +942,6 @@ Respond ONLY with the JSON object, no additional text.`;
     return promptContent;
   }
 
-  /**
-   * Parse the classification response from OpenAI
-   */
-  private parseClassificationResponse(content: string): ClassificationResult {
-    try {
-      console.log('[Classification] Raw LLM response:', content.substring(0, 500));
-
-      // Check for malformed responses (e.g., "Clarification 9")
-      const trimmedContent = content.trim();
-      if (/^Clarification\s+\d+$/i.test(trimmedContent)) {
-        console.error('[Classification] Detected clarification loop response:', trimmedContent);
-        throw new Error('LLM returned clarification loop response instead of classification. This may indicate the model is confused or has been asked too many questions.');
-      }
-
-      // Extract JSON from response (handle cases where model adds extra text)
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        console.error('[Classification] No JSON found in response. Full content:', content);
-        throw new Error('No JSON found in response');
-      }
-
-      console.log('[Classification] Extracted JSON:', jsonMatch[0].substring(0, 300));
-      const parsed = JSON.parse(jsonMatch[0]);
-
-      // Validate required fields
-      if (!parsed.category || typeof parsed.confidence !== 'number') {
-        throw new Error('Invalid response format: missing required fields');
-      }
-
-      // Validate category
-      const validCategories = [
-        'Eliminate',
-        'Simplify',
-        'Digitise',
-        'RPA',
-        'AI Agent',
-        'Agentic AI',
-      ];
-      if (!validCategories.includes(parsed.category)) {
-        throw new Error(`Invalid category: ${parsed.category}`);
-      }
-
-      // Validate confidence range
-      if (parsed.confidence < 0 || parsed.confidence > 1) {
-        throw new Error(`Invalid confidence score: ${parsed.confidence}`);
-      }
-
-      return {
-        category: parsed.category,
-        confidence: parsed.confidence,
-        rationale: parsed.rationale || '',
-        categoryProgression: parsed.categoryProgression || '',
-        futureOpportunities: parsed.futureOpportunities || '',
-      };
-    } catch (error) {
-      throw new Error(
-        `Failed to parse classification response: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
-    }
-  }
-
   /**
    * Handle classification errors with appropriate error messages
    */
@@ -0,0 +1,9 @@
+/**
+ * CSV cell for files users open in a spreadsheet. Cells starting with a
+ * character a spreadsheet would run as a formula get a leading ', so text
+ * such as =HYPERLINK(...) from uploads or users is shown, not run.
+ */
+export function escapeCsvCell(value: string): string {
+  const cell = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
@@ -0,0 +1,170 @@
+import {
+  Attribute,
+  AttributeDiff,
+  DecisionMatrix,
+  DecisionMatrixDiff,
+  MatrixFieldChange,
+  Rule,
+  RuleDiff
+} from '../types';
+
+/**
+ * Compares two decision matrix versions field by field.
+ *
+ * Attributes are matched by name and rules by ruleId, so a renamed rule
+ * shows up as modified rather than as a remove/add pair. Conditions are
+ * compared by position; a condition group is compared as a whole.
+ */
+export class DecisionMatrixDiffService {
+  /**
+   * Diff two matrices
+   * @param from - The older (base) version
+   * @param to - The newer version
+   * @returns Added, removed and modified attributes and rules with field-level changes
+   */
+  diff(from: DecisionMatrix, to: DecisionMatrix): DecisionMatrixDiff {
+    const attributes = this.diffAttributes(from.attributes, to.attributes);
+    const rules = this.diffRules(from.rules, to.rules);
+
+    const count = (items: Array<AttributeDiff | RuleDiff>, changeType: string) =>
+      items.filter(item => item.changeType === changeType).length;
+
+    return {
+      fromVersion: from.version,
+      toVersion: to.version,
+      matrixChanges: [
+        ...this.compareField('description', from.description, to.description),
+        ...this.compareField('active', from.active, to.active)
+      ],
+      attributes,
+      rules,
+      summary: {
+        attributesAdded: count(attributes, 'added'),
+        attributesRemoved: count(attributes, 'removed'),
+        attributesModified: count(attributes, 'modified'),
+        rulesAdded: count(rules, 'added'),
+        rulesRemoved: count(rules, 'removed'),
+        rulesModified: count(rules, 'modified')
+      }
+    };
+  }
+
+  private diffAttributes(before: Attribute[], after: Attribute[]): AttributeDiff[] {
+    const beforeByName = new Map(before.map(attr => [attr.name, attr]));
+    const afterNames = new Set(after.map(attr => attr.name));
+    const diffs: AttributeDiff[] = [];
+
+    for (const attr of after) {
+      const previous = beforeByName.get(attr.name);
+      if (!previous) {
+        diffs.push({ name: attr.name, changeType: 'added', changes: [], after: attr });
+        continue;
+      }
+
+      const changes = [
+        ...this.compareField('type', previous.type, attr.type),
+        ...this.compareField('weight', previous.weight, attr.weight),
+        ...this.compareField('description', previous.description, attr.description),
+        ...this.compareField('possibleValues', previous.possibleValues, attr.possibleValues)
+      ];
+      if (changes.length > 0) {
+        diffs.push({ name: attr.name, changeType: 'modified', changes, before: previous, after: attr });
+      }
+    }
+
+    for (const attr of before) {
+      if (!afterNames.has(attr.name)) {
+        diffs.push({ name: attr.name, changeType: 'removed', changes: [], before: attr });
+      }
+    }
+
+    return diffs;
+  }
+
+  private diffRules(before: Rule[], after: Rule[]): RuleDiff[] {
+    const beforeById = new Map(before.map(rule => [rule.ruleId, rule]));
+    const afterIds = new Set(after.map(rule => rule.ruleId));
+    const diffs: RuleDiff[] = [];
+
+    for (const rule of after) {
+      const previous = beforeById.get(rule.ruleId);
+      if (!previous) {
+        diffs.push({ ruleId: rule.ruleId, name: rule.name, changeType: 'added', changes: [], after: rule });
+        continue;
+      }
+
+      const changes = [
+        ...this.compareField('name', previous.name, rule.name),
+        ...this.compareField('description', previous.description, rule.description),
+        ...this.compareField('priority', previous.priority, rule.priority),
+        ...this.compareField('active', previous.active, rule.active),
+        ...this.compareList('conditions', previous.conditions, rule.conditions),
+        ...this.compareObject('action', previous.action, rule.action)
+      ];
+      if (changes.length > 0) {
+        diffs.push({ ruleId: rule.ruleId, name: rule.name, changeType: 'modified', changes, before: previous, after: rule });
+      }
+    }
+
+    for (const rule of before) {
+      if (!afterIds.has(rule.ruleId)) {
+        diffs.push({ ruleId: rule.ruleId, name: rule.name, changeType: 'removed', changes: [], before: rule });
+      }
+    }
+
+    return diffs;
+  }
+
+  private compareField(field: string, before: any, after: any): MatrixFieldChange[] {
+    if (isDeepEqual(before, after)) {
+      return [];
+    }
+
+    const change: MatrixFieldChange = { field };
+    if (before !== undefined) change.before = before;
+    if (after !== undefined) change.after = after;
+    return [change];
+  }
+
+  /**
+   * Compare list entries by position, e.g. "conditions[1]"
+   */
+  private compareList(field: string, before: any[], after: any[]): MatrixFieldChange[] {
+    const length = Math.max(before.length, after.length);
+    const changes: MatrixFieldChange[] = [];
+    for (let i = 0; i < length; i++) {
+      changes.push(...this.compareField(`${field}[${i}]`, before[i], after[i]));
+    }
+    return changes;
+  }
+
+  /**
+   * Compare each key of an object, e.g. "action.targetCategory"
+   */
+  private compareObject(field: string, before: Record<string, any>, after: Record<string, any>): MatrixFieldChange[] {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+    return keys.flatMap(key => this.compareField(`${field}.${key}`, before[key], after[key]));
+  }
+}
+
+/**
+ * Structural equality for JSON values; object key order is ignored
+ */
+const isDeepEqual = (a: any, b: any): boolean => {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((item, i) => isDeepEqual(item, b[i]));
+  }
+
+  const keysA = Object.keys(a).filter(key => a[key] !== undefined);
+  const keysB = Object.keys(b).filter(key => b[key] !== undefined);
+  return keysA.length === keysB.length && keysA.every(key => isDeepEqual(a[key], b[key]));
+};
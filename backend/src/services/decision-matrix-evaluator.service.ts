@@ -2,12 +2,56 @@ import {
   DecisionMatrix,
   Rule,
   Condition,
+  ConditionGroup,
+  RuleCondition,
   Classification,
   DecisionMatrixEvaluation,
   TransformationCategory,
   Attribute
 } from '../types';
 
+/**
+ * Check whether a rule condition is an all/any/not group rather than a single comparison
+ */
+export function isConditionGroup(condition: RuleCondition): condition is ConditionGroup {
+  return !!condition && typeof condition === 'object' &&
+    ('all' in condition || 'any' in condition || 'not' in condition);
+}
+
+/**
+ * Flatten nested condition groups into the single comparisons they contain
+ */
+export function collectConditions(conditions: RuleCondition[]): Condition[] {
+  const result: Condition[] = [];
+  for (const condition of conditions) {
+    if (!isConditionGroup(condition)) {
+      result.push(condition);
+    } else if ('all' in condition) {
+      result.push(...collectConditions(condition.all));
+    } else if ('any' in condition) {
+      result.push(...collectConditions(condition.any));
+    } else {
+      result.push(...collectConditions([condition.not]));
+    }
+  }
+  return result;
+}
+
+/**
+ * Nesting depth of a condition list (a flat list of comparisons has depth 1)
+ */
+export function getConditionDepth(conditions: RuleCondition[]): number {
+  let depth = 1;
+  for (const condition of conditions) {
+    if (!isConditionGroup(condition)) {
+      continue;
+    }
+    const children = 'all' in condition ? condition.all : 'any' in condition ? condition.any : [condition.not];
+    depth = Math.max(depth, 1 + getConditionDepth(children));
+  }
+  return depth;
+}
+
 /**
  * Service for evaluating decision matrix rules against classifications
  */
@@ -105,14 +149,36 @@ export class DecisionMatrixEvaluatorService {
    * Evaluate all conditions for a rule (AND logic)
    */
   private evaluateConditions(
-    conditions: Condition[],
+    conditions: RuleCondition[],
     attributes: { [key: string]: any }
   ): boolean {
     return conditions.every(condition => 
-      this.evaluateCondition(condition, attributes)
+      this.evaluateRuleCondition(condition, attributes)
     );
   }
 
+  /**
+   * Evaluate a single comparison or a nested all/any/not group
+   */
+  private evaluateRuleCondition(
+    condition: RuleCondition,
+    attributes: { [key: string]: any }
+  ): boolean {
+    if (!isConditionGroup(condition)) {
+      return this.evaluateCondition(condition, attributes);
+    }
+
+    if ('all' in condition) {
+      return this.evaluateConditions(condition.all, attributes);
+    }
+
+    if ('any' in condition) {
+      return condition.any.some(child => this.evaluateRuleCondition(child, attributes));
+    }
+
+    return !this.evaluateRuleCondition(condition.not, attributes);
+  }
+
   /**
    * Evaluate a single condition
    */
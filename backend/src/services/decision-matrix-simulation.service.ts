@@ -0,0 +1,142 @@
+import {
+  CategoryConfusionTable,
+  DecisionMatrix,
+  MatrixSimulationChange,
+  MatrixSimulationResult,
+  Session,
+  TransformationCategory
+} from '../types';
+import { SessionStorageService } from './session-storage.service';
+import { VersionedStorageService } from './versioned-storage.service';
+import { DecisionMatrixEvaluatorService } from './decision-matrix-evaluator.service';
+
+/**
+ * Replays the attributes stored on past sessions against a draft decision
+ * matrix to show what would change before the draft is saved.
+ *
+ * Only the stored decisionMatrixEvaluation (original LLM classification and
+ * extracted attributes) is used, so no LLM calls are made.
+ */
+export class DecisionMatrixSimulationService {
+  // Changed sessions returned in full; counts always cover every session
+  static readonly MAX_CHANGES = 200;
+
+  private sessionStorage: SessionStorageService;
+  private versionedStorage: VersionedStorageService;
+  private evaluatorService: DecisionMatrixEvaluatorService;
+
+  constructor(
+    sessionStorage: SessionStorageService,
+    versionedStorage: VersionedStorageService,
+    evaluatorService: DecisionMatrixEvaluatorService
+  ) {
+    this.sessionStorage = sessionStorage;
+    this.versionedStorage = versionedStorage;
+    this.evaluatorService = evaluatorService;
+  }
+
+  /**
+   * Simulate a draft matrix against all sessions with a stored evaluation
+   * @param draft - Unsaved decision matrix
+   * @returns Change count and confusion tables versus the active matrix and user corrections
+   */
+  async simulate(draft: DecisionMatrix): Promise<MatrixSimulationResult> {
+    const activeMatrix = await this.versionedStorage.getActiveDecisionMatrix() as DecisionMatrix | null;
+    const sessions = await this.sessionStorage.getAllSessions();
+
+    const result: MatrixSimulationResult = {
+      simulatedAt: new Date().toISOString(),
+      draftVersion: draft.version,
+      activeVersion: activeMatrix?.version || null,
+      sessionsEvaluated: 0,
+      sessionsSkipped: 0,
+      changedCount: 0,
+      vsActive: {},
+      vsUserCorrected: {
+        sessions: 0,
+        activeCorrect: 0,
+        draftCorrect: 0,
+        table: {}
+      },
+      changes: [],
+      changesTruncated: false
+    };
+
+    const changes: MatrixSimulationChange[] = [];
+
+    for (const session of sessions) {
+      const evaluation = session.classification?.decisionMatrixEvaluation;
+      if (!evaluation || !evaluation.originalClassification || !evaluation.extractedAttributes) {
+        result.sessionsSkipped++;
+        continue;
+      }
+
+      const { originalClassification, extractedAttributes } = evaluation;
+
+      // Re-evaluate against the active matrix too, so both sides use the same
+      // attributes and a session classified under an older version is compared fairly
+      const activeCategory = activeMatrix
+        ? this.evaluatorService.evaluateMatrix(activeMatrix, originalClassification, extractedAttributes).finalClassification.category
+        : session.classification!.category;
+
+      const draftEvaluation = this.evaluatorService.evaluateMatrix(draft, originalClassification, extractedAttributes);
+      const draftCategory = draftEvaluation.finalClassification.category;
+
+      result.sessionsEvaluated++;
+      this.increment(result.vsActive, activeCategory, draftCategory);
+
+      const userCategory = this.getUserCategory(session);
+      if (userCategory) {
+        result.vsUserCorrected.sessions++;
+        this.increment(result.vsUserCorrected.table, userCategory, draftCategory);
+        if (activeCategory === userCategory) {
+          result.vsUserCorrected.activeCorrect++;
+        }
+        if (draftCategory === userCategory) {
+          result.vsUserCorrected.draftCorrect++;
+        }
+      }
+
+      if (activeCategory !== draftCategory) {
+        result.changedCount++;
+        changes.push({
+          sessionId: session.sessionId,
+          createdAt: session.createdAt,
+          subject: session.subject,
+          activeCategory,
+          draftCategory,
+          userCategory,
+          draftTriggeredRules: draftEvaluation.triggeredRules.map(r => r.ruleName)
+        });
+      }
+    }
+
+    // Newest first
+    changes.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    result.changes = changes.slice(0, DecisionMatrixSimulationService.MAX_CHANGES);
+    result.changesTruncated = changes.length > DecisionMatrixSimulationService.MAX_CHANGES;
+
+    return result;
+  }
+
+  /**
+   * The category the user says is right: their correction, or the stored
+   * category if they confirmed it. Sessions without feedback have none.
+   */
+  private getUserCategory(session: Session): TransformationCategory | undefined {
+    if (!session.feedback) {
+      return undefined;
+    }
+    if (session.feedback.correctedCategory) {
+      return session.feedback.correctedCategory;
+    }
+    return session.feedback.confirmed ? session.classification?.category : undefined;
+  }
+
+  private increment(table: CategoryConfusionTable, reference: string, draft: string): void {
+    if (!table[reference]) {
+      table[reference] = {};
+    }
+    table[reference][draft] = (table[reference][draft] || 0) + 1;
+  }
+}
@@ -2,6 +2,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { OpenAIService } from './openai.service';
 import { LLMService, LLMProviderConfig } from './llm.service';
 import { VersionedStorageService } from './versioned-storage.service';
+import { isConditionGroup, collectConditions } from './decision-matrix-evaluator.service';
 import { DecisionMatrix, Attribute, Rule, TransformationCategory } from '../types';
 
 /**
@@ -38,7 +39,8 @@ export class DecisionMatrixService {
         }
       ],
       model,
-      llmConfig
+      llmConfig,
+      this.DECISION_MATRIX_GENERATION_PROMPT_ID
     );
 
     // Parse the LLM response to extract the decision matrix structure
@@ -221,7 +223,7 @@ Generate at least 6 attributes and 10-15 rules covering various scenarios.`;
 
       const rules: Rule[] = parsed.rules.map((rule: any) => {
         // Validate conditions reference existing attributes
-        const validatedConditions = rule.conditions.filter((cond: any) => {
+        const isValidCondition = (cond: any): boolean => {
           if (!attributeMap.has(cond.attribute) && !attributes.find(a => a.name === cond.attribute)) {
             console.warn(`Rule "${rule.name}" references non-existent attribute "${cond.attribute}", skipping condition`);
             return false;
@@ -239,7 +241,15 @@ Generate at least 6 attributes and 10-15 rules covering various scenarios.`;
           }
 
           return true;
-        });
+        };
+
+        // A group is kept or dropped as a whole - removing a comparison from an
+        // any/not group would change what the rule means
+        const validatedConditions = rule.conditions.filter((cond: any) =>
+          isConditionGroup(cond)
+            ? collectConditions([cond]).every(isValidCondition)
+            : isValidCondition(cond)
+        );
 
         // Skip rules with no valid conditions
         if (validatedConditions.length === 0 && rule.conditions.length > 0) {
@@ -291,7 +301,7 @@ Generate at least 6 attributes and 10-15 rules covering various scenarios.`;
    * Check if initial matrix exists
    */
   async hasInitialMatrix(): Promise<boolean> {
-    const matrix = await this.versionedStorage.getLatestDecisionMatrix();
+    const matrix = await this.versionedStorage.getActiveDecisionMatrix();
     return matrix !== null;
   }
 
@@ -300,7 +310,7 @@ Generate at least 6 attributes and 10-15 rules covering various scenarios.`;
    * If no matrix exists, generates one. Otherwise returns existing.
    */
   async ensureInitialMatrix(llmConfig: LLMProviderConfig, model: string = 'gpt-4'): Promise<DecisionMatrix> {
-    const existing = await this.versionedStorage.getLatestDecisionMatrix();
+    const existing = await this.versionedStorage.getActiveDecisionMatrix();
 
     if (existing) {
       return existing;
@@ -0,0 +1,233 @@
+import * as crypto from 'crypto';
+
+/**
+ * Versioned encryption keys for PII mappings and user credentials.
+ *
+ * Keys are configured as a list of "keyId:secret" entries, the first of which
+ * encrypts new data; the others only decrypt data written before a rotation.
+ * Ciphertexts are stored as keyId:iv:authTag:data. Those written before keys
+ * had IDs (iv:authTag:data) are tried with every key. A single key from
+ * PII_ENCRYPTION_KEY or CREDENTIALS_ENCRYPTION_KEY has key ID 1.
+ */
+export interface EncryptionKeySecret {
+  keyId: string;
+  secret: string;
+}
+
+export type EncryptionKeyPurpose = 'pii' | 'credentials';
+
+const ALGORITHM = 'aes-256-gcm';
+
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+const MIN_SECRET_LENGTH = 16;
+
+const DEFAULT_PII_KEY = 'catalai-default-pii-key-change-in-production';
+const DEFAULT_CREDENTIALS_KEY = 'change-in-production';
+
+// Built-in and example values that must not protect production data
+const INSECURE_SECRETS = new Set([
+  DEFAULT_PII_KEY,
+  DEFAULT_CREDENTIALS_KEY,
+  'your-pii-encryption-key-change-in-production',
+  'your-credentials-encryption-key-change-in-production',
+  'your-super-secret-jwt-key-change-in-production'
+]);
+
+const ENV_NAMES: Record<EncryptionKeyPurpose, { list: string; single: string }> = {
+  pii: { list: 'PII_ENCRYPTION_KEYS', single: 'PII_ENCRYPTION_KEY' },
+  credentials: { list: 'CREDENTIALS_ENCRYPTION_KEYS', single: 'CREDENTIALS_ENCRYPTION_KEY' }
+};
+
+// scrypt is slow on purpose, and every service instance needs the keys
+const derivedKeys = new Map<string, Buffer>();
+
+let warnedDefaultPIIKey = false;
+
+/**
+ * Parse "2:new-secret,1:old-secret"; the first key is the active one
+ */
+export function parseKeyList(value: string): EncryptionKeySecret[] {
+  const keys = value.split(',').map(entry => entry.trim()).filter(entry => entry.length > 0).map(entry => {
+    const separator = entry.indexOf(':');
+    const keyId = separator > 0 ? entry.slice(0, separator) : '';
+    const secret = entry.slice(separator + 1);
+    if (!KEY_ID_PATTERN.test(keyId) || secret.length === 0) {
+      throw new Error('Invalid encryption key list: each entry must be keyId:secret, with a key ID of letters, digits, - or _');
+    }
+    return { keyId, secret };
+  });
+
+  if (keys.length === 0) {
+    throw new Error('Invalid encryption key list: no keys given');
+  }
+  const keyIds = keys.map(key => key.keyId);
+  const duplicate = keyIds.find((keyId, index) => keyIds.indexOf(keyId) !== index);
+  if (duplicate) {
+    throw new Error(`Invalid encryption key list: key ID ${duplicate} is used twice`);
+  }
+  return keys;
+}
+
+/**
+ * Keys of a purpose from the environment. PII falls back to a built-in
+ * development key; credentials fall back to JWT_SECRET.
+ */
+export function loadEncryptionKeys(
+  purpose: EncryptionKeyPurpose,
+  env: NodeJS.ProcessEnv = process.env
+): EncryptionKeySecret[] {
+  const names = ENV_NAMES[purpose];
+  if (env[names.list]) {
+    return parseKeyList(env[names.list]!);
+  }
+  if (env[names.single]) {
+    return [{ keyId: '1', secret: env[names.single]! }];
+  }
+
+  if (purpose === 'pii') {
+    if (!warnedDefaultPIIKey) {
+      console.warn('WARNING: Using default PII encryption key. Set PII_ENCRYPTION_KEY environment variable in production.');
+      warnedDefaultPIIKey = true;
+    }
+    return [{ keyId: '1', secret: DEFAULT_PII_KEY }];
+  }
+  return [{ keyId: '1', secret: env.JWT_SECRET || DEFAULT_CREDENTIALS_KEY }];
+}
+
+/**
+ * Reasons the configured keys must not be used in production; empty when they are fine.
+ * Only the active keys are checked, so a default key can still be listed to rotate away from.
+ */
+export function findInsecureKeys(env: NodeJS.ProcessEnv = process.env): string[] {
+  const problems: string[] = [];
+
+  for (const purpose of Object.keys(ENV_NAMES) as EncryptionKeyPurpose[]) {
+    const names = ENV_NAMES[purpose];
+    if (purpose === 'pii' && !env[names.list] && !env[names.single]) {
+      problems.push(`${names.single} or ${names.list} is not set; the built-in development key would be used`);
+      continue;
+    }
+
+    let active: EncryptionKeySecret;
+    try {
+      active = loadEncryptionKeys(purpose, env)[0];
+    } catch (error) {
+      problems.push(`${names.list}: ${error instanceof Error ? error.message : error}`);
+      continue;
+    }
+
+    const source = env[names.list] ? `${names.list} (key ${active.keyId})`
+      : env[names.single] ? names.single
+      : 'JWT_SECRET, used as credentials key';
+    if (INSECURE_SECRETS.has(active.secret)) {
+      problems.push(`${source} is a default or example value`);
+    } else if (active.secret.length < MIN_SECRET_LENGTH) {
+      problems.push(`${source} is shorter than ${MIN_SECRET_LENGTH} characters`);
+    }
+  }
+
+  if (env.JWT_SECRET && INSECURE_SECRETS.has(env.JWT_SECRET)) {
+    problems.push('JWT_SECRET is a default or example value');
+  }
+
+  return problems;
+}
+
+function deriveKey(secret: string): Buffer {
+  let key = derivedKeys.get(secret);
+  if (!key) {
+    // Same derivation as before keys were versioned, so existing data stays readable
+    key = crypto.scryptSync(secret, 'salt', 32);
+    derivedKeys.set(secret, key);
+  }
+  return key;
+}
+
+/**
+ * AES-256-GCM encryption with a set of versioned keys
+ */
+export class KeyRing {
+  readonly activeKeyId: string;
+  private keys: Map<string, Buffer>;
+
+  constructor(secrets: EncryptionKeySecret[]) {
+    if (secrets.length === 0) {
+      throw new Error('At least one encryption key is required');
+    }
+    this.activeKeyId = secrets[0].keyId;
+    this.keys = new Map(secrets.map(({ keyId, secret }) => [keyId, deriveKey(secret)]));
+  }
+
+  static fromEnvironment(purpose: EncryptionKeyPurpose, env: NodeJS.ProcessEnv = process.env): KeyRing {
+    return new KeyRing(loadEncryptionKeys(purpose, env));
+  }
+
+  /**
+   * Encrypt with the active key: keyId:iv:authTag:data
+   */
+  encrypt(text: string): string {
+    const iv = crypto.randomBytes(16);
+    const cipher = crypto.createCipheriv(ALGORITHM, this.keys.get(this.activeKeyId)!, iv) as crypto.CipherGCM;
+
+    let encrypted = cipher.update(text, 'utf8', 'hex');
+    encrypted += cipher.final('hex');
+
+    const authTag = cipher.getAuthTag();
+
+    return `${this.activeKeyId}:${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`;
+  }
+
+  decrypt(encryptedText: string): string {
+    const parts = encryptedText.split(':');
+    if (parts.length === 4) {
+      const key = this.keys.get(parts[0]);
+      if (!key) {
+        throw new Error(`Unknown encryption key ID ${parts[0]}`);
+      }
+      return this.decryptWith(key, parts.slice(1));
+    }
+    if (parts.length !== 3) {
+      throw new Error('Invalid encrypted data format');
+    }
+
+    // Written before keys had IDs: the active key is the likeliest
+    const candidates = [this.keys.get(this.activeKeyId)!, ...Array.from(this.keys.entries())
+      .filter(([keyId]) => keyId !== this.activeKeyId)
+      .map(([, key]) => key)];
+    let lastError: unknown;
+    for (const key of candidates) {
+      try {
+        return this.decryptWith(key, parts);
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Whether a ciphertext was written with the active key (rotation skips those)
+   */
+  isCurrent(encryptedText: string): boolean {
+    const parts = encryptedText.split(':');
+    return parts.length === 4 && parts[0] === this.activeKeyId;
+  }
+
+  /**
+   * Re-encrypt with the active key; unchanged if it already is
+   */
+  reencrypt(encryptedText: string): string {
+    return this.isCurrent(encryptedText) ? encryptedText : this.encrypt(this.decrypt(encryptedText));
+  }
+
+  private decryptWith(key: Buffer, [ivHex, authTagHex, encrypted]: string[]): string {
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(ivHex, 'hex')) as crypto.DecipherGCM;
+    decipher.setAuthTag(Buffer.from(authTagHex, 'hex'));
+
+    let decrypted = decipher.update(encrypted, 'hex', 'utf8');
+    decrypted += decipher.final('utf8');
+
+    return decrypted;
+  }
+}
@@ -0,0 +1,391 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { createStorage, StorageBackend } from './storage.service';
+import { SessionStorageService } from './session-storage.service';
+import { PIIService } from './pii.service';
+import { PIIRevealService } from './pii-reveal.service';
+import { ERASED_MARKER } from './pii-mapping.service';
+import { AuditLogService } from './audit-log.service';
+import { UserService } from './user.service';
+import { WorkspaceService } from './workspace.service';
+import { DEFAULT_WORKSPACE_ID, RequestUser, runInWorkspace } from './workspace-context';
+import { AuditLogEntry, ErasureCertificate, Session, SessionSchema } from '../types';
+
+export interface ErasureRequest {
+  user?: string;    // User ID or username
+  value?: string;   // PII value, e.g. an email address
+  reason: string;
+}
+
+type WorkspaceErasure = ErasureCertificate['workspaces'][number];
+
+/**
+ * What to change in a workspace, worked out before anything is changed
+ */
+interface WorkspacePlan {
+  workspaceId: string;
+  userSessionIds: Set<string>;
+  erasedSessions: Session[];
+}
+
+// Login events record where the user logged in from
+const CLIENT_FIELDS = ['ipAddress', 'userAgent'];
+
+// Audit events a user writes on their own sessions; others, such as reviews
+// and PII reveals, are written on other people's sessions
+const OWNER_EVENT_TYPES: AuditLogEntry['eventType'][] = ['input', 'clarification'];
+
+// Fields that hold a user ID or username
+const USER_FIELDS = new Set([
+  'userId', 'username', 'user',
+  'createdBy', 'updatedBy', 'activatedBy', 'triggeredBy', 'exportedBy', 'issuedBy', 'erasedBy', 'ownedBy',
+  'requestedBy', 'requestedByName', 'reviewedBy', 'reviewedByName'
+]);
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Copy of a JSON value with every string passed through replace, which gets
+ * the name of the field holding it. Keys are never changed. Returns the
+ * value itself when nothing changed.
+ */
+function mapStrings<T>(value: T, replace: (text: string, key?: string) => string): T {
+  let changed = false;
+
+  const map = (node: any, key?: string): any => {
+    if (typeof node === 'string') {
+      const replaced = replace(node, key);
+      changed = changed || replaced !== node;
+      return replaced;
+    }
+    if (Array.isArray(node)) {
+      return node.map(item => map(item));
+    }
+    if (!node || typeof node !== 'object') {
+      return node;
+    }
+    const mapped: any = {};
+    for (const [field, child] of Object.entries(node)) {
+      mapped[field] = map(child, field);
+    }
+    return mapped;
+  };
+
+  const mapped = map(value);
+  return changed ? mapped : value;
+}
+
+/**
+ * IDs, timestamps and enums; personal data is never stored in them
+ */
+function isStructuralField(key: string | undefined): boolean {
+  return !!key && (/(Id|At)$/.test(key) || ['timestamp', 'eventType', 'status'].includes(key));
+}
+
+/**
+ * Replace the needles (ignoring case) in the strings of a JSON value where
+ * they stand as whole tokens, so erasing "Tim" leaves "timestamps" and hex
+ * IDs alone. Returns the value itself when nothing matched.
+ */
+function eraseText<T>(value: T, needles: string[]): T {
+  if (needles.length === 0) {
+    return value;
+  }
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}_-])(?:${needles.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}_-])`,
+    'giu'
+  );
+  return mapStrings(value, (text, key) => isStructuralField(key) ? text : text.replace(pattern, ERASED_MARKER));
+}
+
+/**
+ * Replace the fields that hold one of the user IDs (ignoring case), at any
+ * depth of a JSON value. Free text is left alone, as a short username would
+ * match unrelated words. Returns the value itself when nothing matched.
+ */
+function eraseUserFields<T>(value: T, userIds: string[]): T {
+  const ids = new Set(userIds.map(id => id.toLowerCase()));
+  return mapStrings(value, (text, key) =>
+    key && USER_FIELDS.has(key) && ids.has(text.toLowerCase()) ? ERASED_MARKER : text
+  );
+}
+
+/**
+ * Subject Erasure Service (GDPR right to erasure)
+ *
+ * Erases a user, a PII value or both from every workspace. Sessions the user
+ * submitted are deleted with their PII mappings, reveal requests and audit
+ * entries; the user's entries on other sessions, such as reviews, are
+ * anonymised. A value is removed
+ * from all PII mappings and replaced wherever it was stored unscrubbed. The
+ * voice cache is cleared, as cached speech cannot be traced to a subject.
+ *
+ * Every workspace is planned and the rewritten sessions validated before
+ * anything is deleted, so an erasure that can't complete changes nothing.
+ *
+ * Each erasure produces a certificate naming the subject by hash only, which
+ * is stored and recorded in the audit trail of the default workspace.
+ */
+export class ErasureService {
+  private dataDir: string;
+  private storage: StorageBackend;
+  private globalStorage: StorageBackend;
+  private sessionStorage: SessionStorageService;
+  private piiService: PIIService;
+  private revealService: PIIRevealService;
+  private auditLogService: AuditLogService;
+  private userService: UserService;
+  private workspaceService: WorkspaceService;
+
+  constructor(dataDir: string = process.env.DATA_DIR || './data', piiService?: PIIService) {
+    this.dataDir = dataDir;
+    this.storage = createStorage(dataDir);
+    this.globalStorage = createStorage(dataDir, { workspaceScoped: false });
+    this.sessionStorage = new SessionStorageService(this.storage);
+    this.piiService = piiService || new PIIService(dataDir);
+    this.revealService = new PIIRevealService(dataDir, this.piiService);
+    this.auditLogService = new AuditLogService(dataDir);
+    this.userService = new UserService(dataDir);
+    this.workspaceService = new WorkspaceService(dataDir);
+  }
+
+  /**
+   * Erase a data subject (validated by the caller against ErasureRequestSchema)
+   */
+  async erase(request: ErasureRequest, issuedBy: RequestUser): Promise<ErasureCertificate> {
+    const userIds = request.user ? await this.resolveUserIds(request.user) : [];
+    const value = request.value?.trim();
+
+    const plans: WorkspacePlan[] = [];
+    for (const workspace of await this.workspaceService.listWorkspaces()) {
+      plans.push(await runInWorkspace(workspace.workspaceId, () =>
+        this.planWorkspace(workspace.workspaceId, userIds, value)
+      ));
+    }
+
+    const workspaces: WorkspaceErasure[] = [];
+    for (const plan of plans) {
+      workspaces.push(await runInWorkspace(plan.workspaceId, () =>
+        this.eraseInWorkspace(plan, userIds, value, issuedBy.userId)
+      ));
+    }
+
+    const unsigned: Omit<ErasureCertificate, 'digest'> = {
+      certificateId: uuidv4(),
+      issuedAt: new Date().toISOString(),
+      issuedBy: issuedBy.username,
+      reason: request.reason,
+      subject: {
+        ...(request.user && { userIdHash: sha256(userIds[0]) }),
+        ...(value && { valueHash: sha256(value.toLowerCase()) })
+      },
+      workspaces,
+      voiceCacheFilesDeleted: await this.clearVoiceCache()
+    };
+    const certificate: ErasureCertificate = { ...unsigned, digest: sha256(JSON.stringify(unsigned)) };
+
+    await this.globalStorage.writeJson(`erasure-certificates/${certificate.certificateId}.json`, certificate);
+    await runInWorkspace(DEFAULT_WORKSPACE_ID, () => this.auditLogService.log({
+      sessionId: 'system',
+      timestamp: certificate.issuedAt,
+      eventType: 'classification', // Using classification type for system events
+      userId: issuedBy.userId,
+      data: {
+        action: 'subject_erasure',
+        certificateId: certificate.certificateId,
+        digest: certificate.digest,
+        subject: certificate.subject
+      },
+      piiScrubbed: false,
+      metadata: {}
+    }));
+
+    return certificate;
+  }
+
+  /**
+   * Erasure certificates, newest first
+   */
+  async listCertificates(): Promise<ErasureCertificate[]> {
+    const files = await this.globalStorage.listFiles('erasure-certificates');
+    const certificates: ErasureCertificate[] = [];
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      try {
+        certificates.push(await this.globalStorage.readJson<ErasureCertificate>(`erasure-certificates/${file}`));
+      } catch (error) {
+        console.error(`Error loading erasure certificate ${file}:`, error);
+      }
+    }
+    return certificates.sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+  }
+
+  async getCertificate(certificateId: string): Promise<ErasureCertificate | null> {
+    const relativePath = `erasure-certificates/${certificateId}.json`;
+    if (!await this.globalStorage.exists(relativePath)) {
+      return null;
+    }
+    return await this.globalStorage.readJson<ErasureCertificate>(relativePath);
+  }
+
+  /**
+   * IDs the user is recorded under: audit entries carry the user ID or,
+   * from some clients, the username. The user ID comes first if the
+   * account still exists.
+   */
+  private async resolveUserIds(user: string): Promise<string[]> {
+    const account = await this.userService.getUserById(user) || await this.userService.getUserByUsername(user);
+    return Array.from(new Set(account ? [account.userId, account.username, user] : [user]));
+  }
+
+  /**
+   * Find the user's sessions and rewrite the others without the value. Throws
+   * if a rewritten session would not be valid.
+   */
+  private async planWorkspace(
+    workspaceId: string,
+    userIds: string[],
+    value: string | undefined
+  ): Promise<WorkspacePlan> {
+    const userSessionIds = new Set<string>();
+    const erasedSessions: Session[] = [];
+    const sessions: Session[] = [];
+    for (const sessionId of await this.sessionStorage.listSessions()) {
+      const session = await this.sessionStorage.loadSession(sessionId);
+      if (session) {
+        sessions.push(session);
+      }
+    }
+
+    if (userIds.length > 0) {
+      sessions
+        .filter(session => session.userId && userIds.includes(session.userId))
+        .forEach(session => userSessionIds.add(session.sessionId));
+
+      // Sessions from before the owner was recorded, found through their input
+      for (const date of await this.auditLogService.getAvailableDates()) {
+        for (const entry of await this.auditLogService.getLogsByDate(date)) {
+          if (entry.sessionId !== 'system' && OWNER_EVENT_TYPES.includes(entry.eventType) && userIds.includes(entry.userId)) {
+            userSessionIds.add(entry.sessionId);
+          }
+        }
+      }
+    }
+
+    // Values the detector missed are stored as typed
+    if (value) {
+      for (const session of sessions.filter(session => !userSessionIds.has(session.sessionId))) {
+        const erased = eraseText(session, [value]);
+        if (erased !== session) {
+          const validation = SessionSchema.safeParse(erased);
+          if (!validation.success) {
+            throw new Error(`Erasing the value would leave session ${session.sessionId} invalid: ${validation.error.message}`);
+          }
+          erasedSessions.push(erased);
+        }
+      }
+    }
+
+    return { workspaceId, userSessionIds, erasedSessions };
+  }
+
+  private async eraseInWorkspace(
+    plan: WorkspacePlan,
+    userIds: string[],
+    value: string | undefined,
+    erasedBy: string
+  ): Promise<WorkspaceErasure> {
+    const { workspaceId, userSessionIds, erasedSessions } = plan;
+    const result: WorkspaceErasure = {
+      workspaceId,
+      sessionsDeleted: 0,
+      sessionsAnonymised: 0,
+      piiValuesErased: 0,
+      revealRequestsDeleted: 0,
+      revealRequestsAnonymised: 0,
+      auditEntriesDeleted: 0,
+      auditEntriesAnonymised: 0
+    };
+
+    for (const sessionId of Array.from(userSessionIds)) {
+      if (await this.sessionStorage.sessionExists(sessionId)) {
+        await this.sessionStorage.deleteSession(sessionId);
+        result.sessionsDeleted++;
+      }
+      if (await this.piiService.hasMappings(sessionId)) {
+        await this.piiService.deleteMappings(sessionId, erasedBy);
+      }
+      result.revealRequestsDeleted += await this.revealService.deleteRequestsForSession(sessionId);
+    }
+
+    const anonymisedSessions = new Set<string>();
+    for (const session of erasedSessions) {
+      await this.sessionStorage.saveSession(session, false);
+      anonymisedSessions.add(session.sessionId);
+    }
+
+    for (const sessionId of await this.piiService.listMappedSessionIds()) {
+      const erased = await this.piiService.eraseSubject(sessionId, { userIds, value }, erasedBy);
+      if (erased.valuesErased > 0) {
+        result.piiValuesErased += erased.valuesErased;
+        anonymisedSessions.add(sessionId);
+      }
+    }
+    result.sessionsAnonymised = anonymisedSessions.size;
+
+    if (userIds.length > 0) {
+      result.revealRequestsAnonymised = await this.revealService.anonymiseUsers(userIds, ERASED_MARKER);
+    }
+
+    const audit = await this.auditLogService.rewriteLogs(entry => {
+      if (userSessionIds.has(entry.sessionId)) {
+        return null;
+      }
+      return this.anonymiseEntry(entry, userIds, value);
+    });
+    result.auditEntriesDeleted = audit.deleted;
+    result.auditEntriesAnonymised = audit.modified;
+
+    return result;
+  }
+
+  /**
+   * Audit entry without the subject; the entry itself when it has none of it
+   */
+  private anonymiseEntry(entry: AuditLogEntry, userIds: string[], value: string | undefined): AuditLogEntry {
+    let anonymised = eraseUserFields(entry, userIds);
+
+    if (userIds.includes(entry.userId) && anonymised.data && typeof anonymised.data === 'object') {
+      const data = { ...anonymised.data };
+      CLIENT_FIELDS.forEach(field => delete data[field]);
+      anonymised = { ...anonymised, data };
+    }
+
+    return value ? eraseText(anonymised, [value]) : anonymised;
+  }
+
+  /**
+   * The voice cache is shared by all workspaces and keyed by text, so it is cleared whole
+   */
+  private async clearVoiceCache(): Promise<number> {
+    const cacheDir = path.join(this.dataDir, 'audio', 'cache');
+    let files: string[];
+    try {
+      files = await fs.readdir(cacheDir);
+    } catch (error) {
+      return 0;
+    }
+
+    for (const file of files) {
+      await fs.unlink(path.join(cacheDir, file));
+    }
+    return files.length;
+  }
+}
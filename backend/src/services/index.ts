@@ -1,7 +1,8 @@
 export { OpenAIService } from './openai.service';
 export { ClassificationService } from './classification.service';
-export { ClarificationService } from './clarification.service';
-export { JsonStorageService } from './storage.service';
+export { ClarificationService, DEFAULT_INTERVIEW_POLICY } from './clarification.service';
+export { JsonStorageService, createStorage } from './storage.service';
+export { SqliteStorageService } from './sqlite-storage.service';
 export { VersionedStorageService } from './versioned-storage.service';
 export { AuditLogService } from './audit-log.service';
 export { SessionStorageService } from './session-storage.service';
@@ -12,7 +13,21 @@ export { LearningSuggestionService } from './learning-suggestion.service';
 export { PIIService } from './pii.service';
 export { PIIDetectionService } from './pii-detection.service';
 export { PIIMappingService } from './pii-mapping.service';
+export { PIIRevealService } from './pii-reveal.service';
+export { RetentionService, scheduleRetentionPurge } from './retention.service';
+export { ErasureService } from './erasure.service';
+export { createCustomDetector, validateLuhn, validateIbanMod97 } from './pii-detectors';
+export { KeyRing, findInsecureKeys, loadEncryptionKeys, parseKeyList } from './encryption-keys';
 export { AnalyticsService } from './analytics.service';
+export { WorkspaceService } from './workspace.service';
+export { AuthSessionService } from './auth-session.service';
+export { runInWorkspace, getCurrentWorkspaceId, runAsUser, getCurrentUser, DEFAULT_WORKSPACE_ID } from './workspace-context';
+export { ROLE_PERMISSIONS, USER_ROLES, getRolePermissions, hasPermission } from './permissions';
+export type {
+  StorageBackend,
+  SessionQueryBackend,
+  AuditLogBackend,
+} from './storage.service';
 export type {
   ChatMessage,
   ChatCompletionResponse,
@@ -36,6 +51,17 @@ export type {
   PIIMatch,
   PIIDetectionResult,
 } from './pii-detection.service';
+export type {
+  PIIDetector,
+  PIIDetection,
+} from './pii-detectors';
 export type {
   PIIScrubResult,
 } from './pii.service';
+export type {
+  ErasureRequest,
+} from './erasure.service';
+export type {
+  EncryptionKeySecret,
+  EncryptionKeyPurpose,
+} from './encryption-keys';
@@ -5,7 +5,8 @@ import {
   TransformationCategory 
 } from '../types';
 import { SessionStorageService } from './session-storage.service';
-import { JsonStorageService } from './storage.service';
+import { StorageBackend } from './storage.service';
+import { LLMProviderType } from './llm-provider.interface';
 
 export interface AnalysisProgress {
   stage: 'collecting' | 'analyzing' | 'validating' | 'complete';
@@ -47,12 +48,12 @@ export interface ValidationTestResult {
  */
 export class LearningAnalysisService {
   private sessionStorage: SessionStorageService;
-  private jsonStorage: JsonStorageService;
+  private jsonStorage: StorageBackend;
   private readonly BATCH_SIZE = 100; // Process sessions in batches
 
   constructor(
     sessionStorage: SessionStorageService,
-    jsonStorage: JsonStorageService
+    jsonStorage: StorageBackend
   ) {
     this.sessionStorage = sessionStorage;
     this.jsonStorage = jsonStorage;
@@ -653,9 +654,10 @@ export class LearningAnalysisService {
     matrixVersion: string,
     classificationService: any, // ClassificationService
     llmConfig: {
-      provider: 'openai' | 'bedrock';
+      provider: LLMProviderType;
       model?: string;
       apiKey?: string;
+      baseUrl?: string;
       awsAccessKeyId?: string;
       awsSecretAccessKey?: string;
       awsSessionToken?: string;
@@ -723,6 +725,7 @@ export class LearningAnalysisService {
           provider: llmConfig.provider,
           model: llmConfig.model,
           apiKey: llmConfig.apiKey,
+          baseUrl: llmConfig.baseUrl,
           awsAccessKeyId: llmConfig.awsAccessKeyId,
           awsSecretAccessKey: llmConfig.awsSecretAccessKey,
           awsSessionToken: llmConfig.awsSessionToken,
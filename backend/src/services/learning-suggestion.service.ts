@@ -8,8 +8,8 @@ import {
   Attribute
 } from '../types';
 import { OpenAIService } from './openai.service';
-import { LLMService } from './llm.service';
-import { JsonStorageService } from './storage.service';
+import { LLMService, LLMProviderType } from './llm.service';
+import { StorageBackend } from './storage.service';
 import { SessionStorageService } from './session-storage.service';
 import { VersionedStorageService } from './versioned-storage.service';
 
@@ -20,13 +20,13 @@ import { VersionedStorageService } from './versioned-storage.service';
 export class LearningSuggestionService {
   private openaiService: OpenAIService;
   private llmService: LLMService;
-  private jsonStorage: JsonStorageService;
+  private jsonStorage: StorageBackend;
   private sessionStorage: SessionStorageService;
   private versionedStorage: VersionedStorageService;
 
   constructor(
     openaiService: OpenAIService,
-    jsonStorage: JsonStorageService,
+    jsonStorage: StorageBackend,
     sessionStorage: SessionStorageService,
     versionedStorage: VersionedStorageService
   ) {
@@ -43,9 +43,10 @@ export class LearningSuggestionService {
   async generateSuggestions(
     analysis: LearningAnalysis,
     llmConfig: {
-      provider: 'openai' | 'bedrock';
+      provider: LLMProviderType;
       model?: string;
       apiKey?: string;
+      baseUrl?: string;
       awsAccessKeyId?: string;
       awsSecretAccessKey?: string;
       awsSessionToken?: string;
@@ -53,7 +54,7 @@ export class LearningSuggestionService {
     }
   ): Promise<LearningSuggestion[]> {
     // Get current decision matrix
-    const currentMatrix = await this.versionedStorage.getLatestDecisionMatrix();
+    const currentMatrix = await this.versionedStorage.getActiveDecisionMatrix();
     
     if (!currentMatrix) {
       throw new Error('No active decision matrix found');
@@ -70,6 +71,9 @@ export class LearningSuggestionService {
     
     if (llmConfig.provider === 'openai') {
       credentials.apiKey = llmConfig.apiKey;
+    } else if (llmConfig.provider === 'local') {
+      credentials.baseUrl = llmConfig.baseUrl;
+      credentials.apiKey = llmConfig.apiKey;
     } else {
       credentials.awsAccessKeyId = llmConfig.awsAccessKeyId;
       credentials.awsSecretAccessKey = llmConfig.awsSecretAccessKey;
@@ -90,7 +94,8 @@ export class LearningSuggestionService {
         }
       ],
       llmConfig.model || 'gpt-4',
-      credentials
+      credentials,
+      'learning-suggestion'
     );
 
     // Parse LLM response into suggestions
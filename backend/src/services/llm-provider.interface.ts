@@ -1,5 +1,5 @@
 /**
- * Common interface for LLM providers (OpenAI, AWS Bedrock, etc.)
+ * Common interface for LLM providers (OpenAI, AWS Bedrock, local OpenAI-compatible servers, etc.)
  */
 
 export interface ChatMessage {
@@ -15,6 +15,27 @@ export interface ChatCompletionResponse {
     completionTokens: number;
     totalTokens: number;
   };
+  // Set by LLMService: the provider and model that answered, which differ
+  // from the requested ones when a fallback was used
+  answeredBy?: {
+    provider: LLMProviderType;
+    model: string;
+    fallback: boolean;
+  };
+}
+
+export type JsonSchema = { [key: string]: unknown };
+
+/**
+ * JSON schema the response must follow. OpenAI enforces it as a JSON schema
+ * response format and Bedrock as a forced tool call; the JSON is returned as
+ * the response content either way. Other providers only see the prompt, so
+ * LLMService validates every structured response.
+ */
+export interface StructuredOutputFormat {
+  name: string;
+  description: string;
+  schema: JsonSchema;
 }
 
 export interface TranscriptionResponse {
@@ -33,9 +54,12 @@ export interface ModelInfo {
   modelType?: 'foundation' | 'inference-profile';
 }
 
+export type LLMProviderType = 'openai' | 'bedrock' | 'local' | 'mock';
+
 export interface LLMProviderConfig {
-  provider: 'openai' | 'bedrock';
-  apiKey?: string; // For OpenAI
+  provider: LLMProviderType;
+  apiKey?: string; // For OpenAI (optional for local endpoints that require a key)
+  baseUrl?: string; // For local/OpenAI-compatible endpoints (Ollama, vLLM)
   awsAccessKeyId?: string; // For AWS Bedrock
   awsSecretAccessKey?: string; // For AWS Bedrock
   awsSessionToken?: string; // For AWS Bedrock (optional)
@@ -45,6 +69,8 @@ export interface LLMProviderConfig {
   modelId?: string; // Specific model ID
   voiceService?: 'nova-sonic' | 'polly'; // Specific voice service to use
   voiceId?: string; // Specific voice ID for synthesis
+  promptId?: string; // Prompt being executed (e.g. 'classification'); used by the mock provider for replay
+  responseFormat?: StructuredOutputFormat; // Structured output mode, where the provider and model support it
 }
 
 /**
@@ -52,7 +78,8 @@ export interface LLMProviderConfig {
  */
 export interface ILLMProvider {
   /**
-   * Create a chat completion
+   * Create a chat completion. When config.responseFormat is set, providers
+   * that can constrain their output do so and return the JSON as content.
    */
   chat(
     messages: ChatMessage[],
@@ -60,6 +87,17 @@ export interface ILLMProvider {
     config: LLMProviderConfig
   ): Promise<ChatCompletionResponse>;
 
+  /**
+   * Create a chat completion, passing each piece of content to onDelta as it
+   * is generated (if supported). Resolves with the complete response.
+   */
+  chatStream?(
+    messages: ChatMessage[],
+    model: string,
+    config: LLMProviderConfig,
+    onDelta: (delta: string) => void
+  ): Promise<ChatCompletionResponse>;
+
   /**
    * Transcribe audio (if supported)
    */
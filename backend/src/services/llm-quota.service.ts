@@ -0,0 +1,282 @@
+import { LLMQuotaLimits, LLMQuotaSettings, LLMQuotaStatus, LLMQuotaUsage } from '../types';
+import { createStorage, StorageBackend } from './storage.service';
+import { AuditLogService } from './audit-log.service';
+
+export const QUOTA_EXCEEDED_MESSAGE = 'LLM quota exceeded';
+
+const DEFAULT_SETTINGS: LLMQuotaSettings = {
+  mode: 'hard',
+  warnAtPercent: 80,
+  global: {},
+  perUser: {},
+  userOverrides: {}
+};
+
+const LIMIT_KEYS: Array<{ key: keyof LLMQuotaLimits; period: 'daily' | 'monthly'; metric: 'tokens' | 'cost' }> = [
+  { key: 'dailyTokens', period: 'daily', metric: 'tokens' },
+  { key: 'monthlyTokens', period: 'monthly', metric: 'tokens' },
+  { key: 'dailyCost', period: 'daily', metric: 'cost' },
+  { key: 'monthlyCost', period: 'monthly', metric: 'cost' }
+];
+
+interface QuotaTotals {
+  tokens: number;
+  cost: number;
+}
+
+interface QuotaDay {
+  total: QuotaTotals;
+  users: Record<string, QuotaTotals>;
+  // Users whose going over a soft limit was recorded in the audit log that day
+  softLimitReported?: string[];
+}
+
+/**
+ * Whether an error was raised because a hard LLM quota is used up
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  return error instanceof Error && error.message.includes(QUOTA_EXCEEDED_MESSAGE);
+}
+
+// Day files are rewritten on every call, so writes from all instances are serialised
+let writeQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Daily and monthly token and cost limits per user and across all users.
+ * Usage is kept as running totals per UTC day, independent of workspaces.
+ * Calls to models without a price count towards token limits only.
+ */
+export class LLMQuotaService {
+  private storage: StorageBackend;
+  private auditLogService: AuditLogService;
+
+  constructor(dataDir?: string) {
+    this.storage = createStorage(dataDir, { workspaceScoped: false });
+    this.auditLogService = new AuditLogService(dataDir);
+  }
+
+  async getSettings(): Promise<LLMQuotaSettings> {
+    try {
+      return { ...DEFAULT_SETTINGS, ...await this.storage.readJson<LLMQuotaSettings>('llm-quotas/settings.json') };
+    } catch (error) {
+      return { ...DEFAULT_SETTINGS };
+    }
+  }
+
+  async updateSettings(
+    settings: Pick<LLMQuotaSettings, 'mode' | 'warnAtPercent' | 'global' | 'perUser' | 'userOverrides'>,
+    updatedBy: string
+  ): Promise<LLMQuotaSettings> {
+    if (settings.mode !== 'hard' && settings.mode !== 'soft') {
+      throw new Error('Invalid quota mode: must be hard or soft');
+    }
+    if (typeof settings.warnAtPercent !== 'number' || settings.warnAtPercent < 1 || settings.warnAtPercent > 100) {
+      throw new Error('Invalid quota warning threshold: must be between 1 and 100 percent');
+    }
+
+    const userOverrides: Record<string, LLMQuotaLimits> = {};
+    for (const [userId, limits] of Object.entries(settings.userOverrides || {})) {
+      userOverrides[userId] = this.normalizeLimits(limits);
+    }
+
+    const saved: LLMQuotaSettings = {
+      mode: settings.mode,
+      warnAtPercent: settings.warnAtPercent,
+      global: this.normalizeLimits(settings.global),
+      perUser: this.normalizeLimits(settings.perUser),
+      userOverrides,
+      updatedAt: new Date().toISOString(),
+      updatedBy
+    };
+    await this.storage.writeJson('llm-quotas/settings.json', saved);
+    return saved;
+  }
+
+  /**
+   * Add a call to the user's and the global totals of today
+   */
+  async addUsage(userId: string, tokens: number, cost: number): Promise<void> {
+    const filePath = `llm-quotas/usage/${this.today()}.json`;
+
+    const write = writeQueue.then(async () => {
+      const day = await this.readDay(filePath);
+      const user = day.users[userId] || (day.users[userId] = { tokens: 0, cost: 0 });
+      for (const totals of [day.total, user]) {
+        totals.tokens += tokens;
+        totals.cost += cost;
+      }
+      await this.storage.writeJson(filePath, day);
+    });
+    writeQueue = write.catch(() => undefined);
+    await write;
+  }
+
+  async getStatus(userId: string): Promise<LLMQuotaStatus> {
+    return (await this.listStatuses([userId]))[0];
+  }
+
+  /**
+   * Remaining quota of several users, reading this month's totals once
+   */
+  async listStatuses(userIds: string[]): Promise<LLMQuotaStatus[]> {
+    const settings = await this.getSettings();
+    const days = await this.readMonth();
+    const today = days.get(this.today());
+
+    return userIds.map(userId => {
+      const sumOf = (selectDays: QuotaDay[], scope: 'user' | 'global'): QuotaTotals => selectDays.reduce(
+        (sum, day) => {
+          const totals = scope === 'global' ? day.total : day.users[userId];
+          return { tokens: sum.tokens + (totals?.tokens || 0), cost: sum.cost + (totals?.cost || 0) };
+        },
+        { tokens: 0, cost: 0 }
+      );
+
+      const quotas: LLMQuotaUsage[] = [];
+      const scopes: Array<['user' | 'global', LLMQuotaLimits]> = [
+        ['user', settings.userOverrides[userId] || settings.perUser],
+        ['global', settings.global]
+      ];
+      for (const [scope, limits] of scopes) {
+        const used = {
+          daily: sumOf(today ? [today] : [], scope),
+          monthly: sumOf(Array.from(days.values()), scope)
+        };
+        for (const { key, period, metric } of LIMIT_KEYS) {
+          const limit = limits[key];
+          if (limit === undefined) {
+            continue;
+          }
+          const amount = used[period][metric];
+          quotas.push({ scope, period, metric, limit, used: amount, remaining: Math.max(0, limit - amount) });
+        }
+      }
+
+      const warnings: string[] = [];
+      for (const quota of quotas) {
+        if (quota.used >= quota.limit) {
+          const unit = quota.metric === 'tokens' ? ' tokens' : '';
+          const amounts = `${this.format(quota.used, quota.metric)} of ${this.format(quota.limit, quota.metric)}${unit}`;
+          warnings.push(`${this.describe(quota)} reached (${amounts} used)`);
+        } else if (quota.used >= quota.limit * settings.warnAtPercent / 100) {
+          warnings.push(`${Math.floor(quota.used / quota.limit * 100)}% of the ${this.describe(quota).toLowerCase()} used`);
+        }
+      }
+
+      return {
+        userId,
+        mode: settings.mode,
+        quotas,
+        exceeded: quotas.some(quota => quota.used >= quota.limit),
+        warnings
+      };
+    });
+  }
+
+  /**
+   * Check a user's quota before an LLM call. Throws when a limit is used up
+   * in hard mode; in soft mode the call goes ahead and the first call of the
+   * day over the limit is recorded in the audit log as `llm_quota_exceeded`.
+   */
+  async checkQuota(userId: string): Promise<LLMQuotaStatus> {
+    const status = await this.getStatus(userId);
+    if (status.exceeded) {
+      const reached = status.warnings.filter(warning => warning.includes('reached'));
+      if (status.mode === 'hard') {
+        throw new Error(`${QUOTA_EXCEEDED_MESSAGE}: ${reached.join('; ')}`);
+      }
+      console.warn(`LLM quota exceeded for user ${userId} (soft limit): ${reached.join('; ')}`);
+      if (await this.markSoftLimitReported(userId)) {
+        await this.auditLogService.log({
+          sessionId: 'system',
+          timestamp: new Date().toISOString(),
+          eventType: 'classification', // Using classification type for system events
+          userId,
+          data: {
+            action: 'llm_quota_exceeded',
+            mode: status.mode,
+            limits: reached
+          },
+          piiScrubbed: false,
+          metadata: {}
+        });
+      }
+    }
+    return status;
+  }
+
+  /**
+   * Note that a user went over a soft limit today. Returns false when that
+   * was already noted, so the audit log gets one entry per user and day.
+   */
+  private async markSoftLimitReported(userId: string): Promise<boolean> {
+    const filePath = `llm-quotas/usage/${this.today()}.json`;
+    let marked = false;
+
+    const write = writeQueue.then(async () => {
+      const day = await this.readDay(filePath);
+      const reported = day.softLimitReported || [];
+      if (reported.includes(userId)) {
+        return;
+      }
+      day.softLimitReported = [...reported, userId];
+      await this.storage.writeJson(filePath, day);
+      marked = true;
+    });
+    writeQueue = write.catch(() => undefined);
+    await write;
+    return marked;
+  }
+
+  private normalizeLimits(limits: LLMQuotaLimits = {}): LLMQuotaLimits {
+    const normalized: LLMQuotaLimits = {};
+    for (const { key } of LIMIT_KEYS) {
+      const value = limits[key];
+      if (value === undefined || value === null) {
+        continue;
+      }
+      if (typeof value !== 'number' || !isFinite(value) || value < 0) {
+        throw new Error(`Invalid quota limit: ${key} must be a non-negative number`);
+      }
+      normalized[key] = value;
+    }
+    return normalized;
+  }
+
+  private describe(quota: LLMQuotaUsage): string {
+    const period = quota.period === 'daily' ? 'Daily' : 'Monthly';
+    const scope = quota.scope === 'user' ? 'for this user' : 'for all users';
+    return `${period} ${quota.metric === 'tokens' ? 'token' : 'cost'} limit ${scope}`;
+  }
+
+  private format(value: number, metric: 'tokens' | 'cost'): string {
+    return metric === 'cost' ? `$${value.toFixed(2)}` : Math.round(value).toLocaleString('en-US');
+  }
+
+  private today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  /**
+   * Totals of every day of the current UTC month, by day
+   */
+  private async readMonth(): Promise<Map<string, QuotaDay>> {
+    const month = this.today().slice(0, 7);
+    const files = (await this.storage.listFiles('llm-quotas/usage'))
+      .filter(file => file.startsWith(month) && file.endsWith('.json'));
+
+    const days = new Map<string, QuotaDay>();
+    for (const file of files) {
+      days.set(file.slice(0, 10), await this.readDay(`llm-quotas/usage/${file}`));
+    }
+    return days;
+  }
+
+  private async readDay(filePath: string): Promise<QuotaDay> {
+    try {
+      return await this.storage.readJson<QuotaDay>(filePath);
+    } catch (error) {
+      return { total: { tokens: 0, cost: 0 }, users: {} };
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import { LLMProviderType } from './llm-provider.interface';
+
+/**
+ * Retry, fallback and circuit-breaking policy for LLM chat calls.
+ * Settings are read from the environment when used, so they can be
+ * changed without restarting tests or reloading modules.
+ */
+
+const PROVIDERS: LLMProviderType[] = ['openai', 'bedrock', 'local', 'mock'];
+
+export interface LLMFallbackTarget {
+  provider: LLMProviderType;
+  model: string;
+}
+
+export interface LLMRetryPolicy {
+  maxAttempts: number; // Attempts per provider, including the first
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+const readInt = (value: string | undefined, fallback: number, min: number): number => {
+  const parsed = parseInt(value || '', 10);
+  return isNaN(parsed) || parsed < min ? fallback : parsed;
+};
+
+export function loadRetryPolicy(env: NodeJS.ProcessEnv = process.env): LLMRetryPolicy {
+  return {
+    maxAttempts: readInt(env.LLM_RETRY_MAX_ATTEMPTS, 3, 1),
+    initialDelayMs: readInt(env.LLM_RETRY_INITIAL_DELAY_MS, 1000, 0),
+    maxDelayMs: readInt(env.LLM_RETRY_MAX_DELAY_MS, 10000, 0)
+  };
+}
+
+/**
+ * Exponential backoff before the given retry (1 = first retry)
+ */
+export function getRetryDelay(policy: LLMRetryPolicy, retry: number): number {
+  return Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(2, retry - 1));
+}
+
+/**
+ * Providers to try, in order, when the requested one keeps failing.
+ * LLM_FALLBACK_CHAIN is a comma-separated list of provider:model pairs,
+ * e.g. "bedrock:anthropic.claude-3-haiku-20240307-v1:0,openai:gpt-4o-mini"
+ */
+export function loadFallbackChain(env: NodeJS.ProcessEnv = process.env): LLMFallbackTarget[] {
+  const targets: LLMFallbackTarget[] = [];
+
+  for (const entry of (env.LLM_FALLBACK_CHAIN || '').split(',').map(e => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const provider = entry.slice(0, separator) as LLMProviderType;
+    const model = entry.slice(separator + 1);
+    if (separator <= 0 || !model || !PROVIDERS.includes(provider)) {
+      console.warn(`Ignoring invalid LLM_FALLBACK_CHAIN entry: ${entry}`);
+      continue;
+    }
+    targets.push({ provider, model });
+  }
+  return targets;
+}
+
+/**
+ * Whether a failed call may succeed when repeated: throttling, server
+ * errors, timeouts and dropped connections. Connection refused is not
+ * retried - the server is simply not running - but it is worth a fallback.
+ */
+export function isRetryableLLMError(error: any): boolean {
+  if (error?.name === 'ThrottlingException' || error?.name === 'ServiceUnavailableException') {
+    return true;
+  }
+
+  const status = error?.status ?? error?.$metadata?.httpStatusCode;
+  if (typeof status === 'number') {
+    return status === 429 || status >= 500;
+  }
+
+  if (error?.message?.includes('timeout') || error?.message?.includes('timed out')) {
+    return true;
+  }
+
+  return error?.code === 'ECONNRESET' || error?.code === 'ETIMEDOUT';
+}
+
+/**
+ * Whether a failure means the provider is unavailable, so another one
+ * should be tried
+ */
+export function isProviderUnavailableError(error: any): boolean {
+  return isRetryableLLMError(error) || error?.code === 'ECONNREFUSED' || error?.code === 'ENOTFOUND';
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface Circuit {
+  failures: number;
+  openedAt?: number;
+}
+
+/**
+ * Stops calling a provider after consecutive failures. Once the reset
+ * time has passed, calls are let through again; the first success closes
+ * the circuit and another failure opens it for a further period.
+ */
+export class CircuitBreaker {
+  private failureThreshold?: number;
+  private resetMs?: number;
+  private circuits: Map<string, Circuit>;
+
+  /**
+   * @param failureThreshold - Consecutive failures that open the circuit (LLM_CIRCUIT_FAILURE_THRESHOLD, default 5)
+   * @param resetMs - How long an open circuit rejects calls (LLM_CIRCUIT_RESET_SECONDS, default 60)
+   */
+  constructor(failureThreshold?: number, resetMs?: number) {
+    this.failureThreshold = failureThreshold;
+    this.resetMs = resetMs;
+    this.circuits = new Map();
+  }
+
+  getState(key: string, now: number = Date.now()): CircuitState {
+    const circuit = this.circuits.get(key);
+    if (!circuit?.openedAt) {
+      return 'closed';
+    }
+    return now - circuit.openedAt < this.getResetMs() ? 'open' : 'half-open';
+  }
+
+  recordSuccess(key: string): void {
+    this.circuits.delete(key);
+  }
+
+  recordFailure(key: string, now: number = Date.now()): void {
+    const circuit = this.circuits.get(key) || { failures: 0 };
+    circuit.failures++;
+    if (circuit.failures >= this.getFailureThreshold()) {
+      circuit.openedAt = now;
+    }
+    this.circuits.set(key, circuit);
+  }
+
+  private getFailureThreshold(): number {
+    return this.failureThreshold ?? readInt(process.env.LLM_CIRCUIT_FAILURE_THRESHOLD, 5, 1);
+  }
+
+  private getResetMs(): number {
+    return this.resetMs ?? readInt(process.env.LLM_CIRCUIT_RESET_SECONDS, 60, 1) * 1000;
+  }
+}
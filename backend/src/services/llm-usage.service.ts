@@ -0,0 +1,207 @@
+import { LLMModelPrice, LLMUsageBreakdown, LLMUsageRecord, LLMUsageSummary } from '../types';
+import { createStorage, StorageBackend } from './storage.service';
+import { getCurrentWorkspaceId, runInWorkspace } from './workspace-context';
+
+/**
+ * List prices in USD per million tokens. Keys are matched against model IDs
+ * as substrings and the longest match wins, so "gpt-4o" also prices
+ * "gpt-4o-2024-08-06" and Bedrock inference profiles match their base model.
+ */
+export const DEFAULT_PRICE_TABLE: Record<string, LLMModelPrice> = {
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+  'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  'gpt-4.1-nano': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gpt-4-turbo': { inputPerMillion: 10, outputPerMillion: 30 },
+  'gpt-4': { inputPerMillion: 30, outputPerMillion: 60 },
+  'gpt-3.5-turbo': { inputPerMillion: 0.5, outputPerMillion: 1.5 },
+  'o1': { inputPerMillion: 15, outputPerMillion: 60 },
+  'o1-mini': { inputPerMillion: 1.1, outputPerMillion: 4.4 },
+  'o3-mini': { inputPerMillion: 1.1, outputPerMillion: 4.4 },
+  'claude-3-haiku': { inputPerMillion: 0.25, outputPerMillion: 1.25 },
+  'claude-3-5-haiku': { inputPerMillion: 0.8, outputPerMillion: 4 },
+  'claude-3-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-5-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-7-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-sonnet-4': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-opus': { inputPerMillion: 15, outputPerMillion: 75 },
+  'claude-opus-4': { inputPerMillion: 15, outputPerMillion: 75 },
+  'nova-micro': { inputPerMillion: 0.035, outputPerMillion: 0.14 },
+  'nova-lite': { inputPerMillion: 0.06, outputPerMillion: 0.24 },
+  'nova-pro': { inputPerMillion: 0.8, outputPerMillion: 3.2 }
+};
+
+// Self-hosted and mock models cost nothing per token
+const FREE_PROVIDERS = ['local', 'mock'];
+
+/**
+ * Price table with overrides from LLM_PRICE_TABLE, a JSON object of
+ * model -> { inputPerMillion, outputPerMillion }
+ */
+export function loadPriceTable(env: NodeJS.ProcessEnv = process.env): Record<string, LLMModelPrice> {
+  if (!env.LLM_PRICE_TABLE) {
+    return { ...DEFAULT_PRICE_TABLE };
+  }
+
+  try {
+    const overrides = JSON.parse(env.LLM_PRICE_TABLE) as Record<string, LLMModelPrice>;
+    const table = { ...DEFAULT_PRICE_TABLE };
+    for (const [model, price] of Object.entries(overrides)) {
+      if (typeof price?.inputPerMillion !== 'number' || typeof price?.outputPerMillion !== 'number') {
+        console.warn(`Ignoring invalid LLM_PRICE_TABLE entry for ${model}`);
+        continue;
+      }
+      table[model] = { inputPerMillion: price.inputPerMillion, outputPerMillion: price.outputPerMillion };
+    }
+    return table;
+  } catch (error) {
+    console.warn('LLM_PRICE_TABLE is not valid JSON; using the default prices');
+    return { ...DEFAULT_PRICE_TABLE };
+  }
+}
+
+/**
+ * Estimated cost of a call in USD, or null when the model has no price
+ */
+export function estimateCost(
+  provider: string,
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  priceTable: Record<string, LLMModelPrice> = loadPriceTable()
+): number | null {
+  if (FREE_PROVIDERS.includes(provider)) {
+    return 0;
+  }
+
+  const modelId = model.toLowerCase();
+  const match = Object.keys(priceTable)
+    .filter(key => modelId.includes(key.toLowerCase()))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!match) {
+    return null;
+  }
+
+  const price = priceTable[match];
+  return (promptTokens * price.inputPerMillion + completionTokens * price.outputPerMillion) / 1_000_000;
+}
+
+// Day files are rewritten on every call, so writes from all instances are serialised
+let writeQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Records the token usage of every LLM call in the current workspace,
+ * one file per day, and summarises it for the analytics dashboard
+ */
+export class LLMUsageService {
+  private storage: StorageBackend;
+
+  constructor(dataDir?: string) {
+    this.storage = createStorage(dataDir);
+  }
+
+  async record(usage: Omit<LLMUsageRecord, 'timestamp' | 'estimatedCost'>): Promise<LLMUsageRecord> {
+    const record: LLMUsageRecord = {
+      timestamp: new Date().toISOString(),
+      ...usage,
+      estimatedCost: estimateCost(usage.provider, usage.model, usage.promptTokens, usage.completionTokens)
+    };
+    const workspaceId = getCurrentWorkspaceId();
+    const filePath = `llm-usage/${record.timestamp.slice(0, 10)}.json`;
+
+    const write = writeQueue.then(() => runInWorkspace(workspaceId, async () => {
+      const records = await this.readDay(filePath);
+      records.push(record);
+      await this.storage.writeJson(filePath, records);
+    }));
+    writeQueue = write.catch(() => undefined);
+    await write;
+
+    return record;
+  }
+
+  /**
+   * Usage records of the last days, oldest first
+   */
+  async listRecords(days: number = 30): Promise<LLMUsageRecord[]> {
+    const startDay = this.startDay(days);
+    const files = (await this.storage.listFiles('llm-usage'))
+      .filter(file => file.endsWith('.json') && file.slice(0, 10) >= startDay)
+      .sort();
+
+    const records: LLMUsageRecord[] = [];
+    for (const file of files) {
+      records.push(...await this.readDay(`llm-usage/${file}`));
+    }
+    return records;
+  }
+
+  /**
+   * Totals of the last days broken down by user, model, day and pipeline stage
+   */
+  async getSummary(days: number = 30): Promise<LLMUsageSummary> {
+    const records = await this.listRecords(days);
+
+    return {
+      workspaceId: getCurrentWorkspaceId(),
+      startDate: this.startDay(days),
+      endDate: new Date().toISOString().slice(0, 10),
+      totals: this.aggregate(records, () => 'total')[0] || this.emptyTotals(),
+      byUser: this.aggregate(records, r => r.userId || 'system', r => r.username || 'System'),
+      byModel: this.aggregate(records, r => r.model),
+      byDay: this.aggregate(records, r => r.timestamp.slice(0, 10)).sort((a, b) => a.key.localeCompare(b.key)),
+      byStage: this.aggregate(records, r => r.stage),
+      priceTable: loadPriceTable()
+    };
+  }
+
+  /**
+   * Group records and sum them up, most expensive first
+   */
+  private aggregate(
+    records: LLMUsageRecord[],
+    keyOf: (record: LLMUsageRecord) => string,
+    labelOf: (record: LLMUsageRecord) => string = keyOf
+  ): LLMUsageBreakdown[] {
+    const groups = new Map<string, LLMUsageBreakdown>();
+
+    for (const record of records) {
+      const key = keyOf(record);
+      let group = groups.get(key);
+      if (!group) {
+        group = { key, label: labelOf(record), ...this.emptyTotals() };
+        groups.set(key, group);
+      }
+
+      group.calls++;
+      group.promptTokens += record.promptTokens;
+      group.completionTokens += record.completionTokens;
+      group.totalTokens += record.totalTokens;
+      if (record.estimatedCost === null) {
+        group.unpricedCalls++;
+      } else {
+        group.estimatedCost += record.estimatedCost;
+      }
+    }
+
+    return Array.from(groups.values())
+      .sort((a, b) => b.estimatedCost - a.estimatedCost || b.totalTokens - a.totalTokens);
+  }
+
+  private emptyTotals(): Omit<LLMUsageBreakdown, 'key' | 'label'> {
+    return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, estimatedCost: 0, unpricedCalls: 0 };
+  }
+
+  private startDay(days: number): string {
+    return new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  }
+
+  private async readDay(filePath: string): Promise<LLMUsageRecord[]> {
+    try {
+      return await this.storage.readJson<LLMUsageRecord[]>(filePath);
+    } catch (error) {
+      return [];
+    }
+  }
+}
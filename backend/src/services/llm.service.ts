@@ -5,21 +5,61 @@ import {
   TranscriptionResponse,
   ModelInfo,
   LLMProviderConfig,
+  LLMProviderType,
 } from './llm-provider.interface';
 import { OpenAIService } from './openai.service';
 import { BedrockService } from './bedrock.service';
+import { LocalLLMService } from './local-llm.service';
+import { MockLLMService, isMockLLMEnabled, UNTAGGED_PROMPT_ID } from './mock-llm.service';
+import { LLMUsageService } from './llm-usage.service';
+import { LLMQuotaService } from './llm-quota.service';
+import {
+  CircuitBreaker,
+  LLMFallbackTarget,
+  getRetryDelay,
+  isProviderUnavailableError,
+  isRetryableLLMError,
+  loadFallbackChain,
+  loadRetryPolicy
+} from './llm-resilience';
+import {
+  StructuredChatResponse,
+  StructuredOutput,
+  parseStructuredOutput,
+  toStructuredOutputFormat
+} from './structured-output';
+import { getCurrentUser } from './workspace-context';
+
+// Provider health is shared by every LLMService instance
+const sharedCircuitBreaker = new CircuitBreaker();
 
 /**
  * LLM Service - Factory and facade for multiple LLM providers
- * Supports OpenAI and AWS Bedrock
+ * Supports OpenAI, AWS Bedrock, local OpenAI-compatible endpoints and a
+ * deterministic mock provider for tests and demos
  */
 export class LLMService {
   private openAIService: OpenAIService;
   private bedrockService: BedrockService;
+  private localLLMService: LocalLLMService;
+  private mockLLMService: MockLLMService;
+  private usageService: LLMUsageService;
+  private quotaService: LLMQuotaService;
+  private circuitBreaker: CircuitBreaker;
+  private readonly MAX_REPAIR_ATTEMPTS = 2;
 
-  constructor() {
+  constructor(
+    usageService: LLMUsageService = new LLMUsageService(),
+    quotaService: LLMQuotaService = new LLMQuotaService(),
+    circuitBreaker: CircuitBreaker = sharedCircuitBreaker
+  ) {
     this.openAIService = new OpenAIService();
     this.bedrockService = new BedrockService();
+    this.localLLMService = new LocalLLMService();
+    this.mockLLMService = new MockLLMService();
+    this.usageService = usageService;
+    this.quotaService = quotaService;
+    this.circuitBreaker = circuitBreaker;
   }
 
   /**
@@ -31,21 +71,256 @@ export class LLMService {
         return this.openAIService;
       case 'bedrock':
         return this.bedrockService;
+      case 'local':
+        return this.localLLMService;
+      case 'mock':
+        if (!isMockLLMEnabled()) {
+          throw new Error('Mock LLM provider is disabled. Set MOCK_LLM_ENABLED=true to use it.');
+        }
+        return this.mockLLMService;
       default:
         throw new Error(`Unsupported LLM provider: ${config.provider}`);
     }
   }
 
   /**
-   * Create a chat completion using the configured provider
+   * Create a chat completion using the configured provider. Token usage is
+   * recorded against the requesting user, with the prompt ID as the stage,
+   * and calls are rejected once the user or everyone is over a hard quota.
+   *
+   * Throttling, server errors and timeouts are retried with exponential
+   * backoff. When the provider stays unavailable, or its circuit is open
+   * after repeated failures, the LLM_FALLBACK_CHAIN targets are tried in
+   * order; `answeredBy` on the response tells which one answered.
+   * @param promptId - Optional ID of the prompt being executed (e.g. 'classification')
+   * @param onContent - Streams the response: called with the content received
+   * so far, which starts again from the beginning when the call is retried
+   * or falls back to another provider
    */
   async chat(
     messages: ChatMessage[],
     model: string,
-    config: LLMProviderConfig
+    config: LLMProviderConfig,
+    promptId?: string,
+    onContent?: (content: string) => void
+  ): Promise<ChatCompletionResponse> {
+    // Reject unknown or disabled providers before checking quotas
+    this.getProvider(config);
+    const user = getCurrentUser();
+    if (user) {
+      await this.quotaService.checkQuota(user.userId);
+    }
+
+    const targets: LLMFallbackTarget[] = [
+      { provider: config.provider, model },
+      ...loadFallbackChain().filter(target => target.provider !== config.provider || target.model !== model)
+    ];
+    let primaryError: unknown;
+
+    for (const [index, target] of targets.entries()) {
+      const targetConfig = index === 0 ? config : this.buildFallbackConfig(target, config);
+      if (!targetConfig) {
+        continue;
+      }
+
+      const circuitKey = this.getCircuitKey(targetConfig);
+      if (this.circuitBreaker.getState(circuitKey) === 'open') {
+        const error = new Error(`LLM provider ${circuitKey} is temporarily unavailable after repeated failures`);
+        primaryError = primaryError || error;
+        continue;
+      }
+
+      try {
+        const response = await this.chatWithRetry(
+          messages,
+          target.model,
+          promptId ? { ...targetConfig, promptId } : targetConfig,
+          circuitKey,
+          onContent
+        );
+        if (index > 0) {
+          console.warn(`[LLM] ${config.provider}/${model} unavailable; answered by ${target.provider}/${target.model}`);
+        }
+
+        const answered: ChatCompletionResponse = {
+          ...response,
+          answeredBy: { provider: target.provider, model: target.model, fallback: index > 0 }
+        };
+        await this.recordUsage(answered, target.model, targetConfig, promptId);
+        return answered;
+      } catch (error) {
+        // Errors such as a bad request or API key would recur with the same
+        // input; only an unavailable requested provider moves down the chain
+        if (index === 0 && !isProviderUnavailableError(error)) {
+          throw error;
+        }
+        if (index > 0) {
+          console.warn(`[LLM] Fallback ${target.provider}/${target.model} failed:`, error instanceof Error ? error.message : error);
+        }
+        primaryError = primaryError || error;
+      }
+    }
+
+    throw primaryError;
+  }
+
+  /**
+   * Create a chat completion whose response must match a zod schema. The
+   * schema is enforced natively where the provider supports it; a response
+   * that still fails validation is sent back to the model with the errors
+   * for repair, up to MAX_REPAIR_ATTEMPTS times, before the call fails.
+   * @param promptId - Optional ID of the prompt being executed (e.g. 'classification')
+   * @param onContent - Streams the response as in chat(); a repair starts again
+   */
+  async chatStructured<T>(
+    messages: ChatMessage[],
+    model: string,
+    config: LLMProviderConfig,
+    output: StructuredOutput<T>,
+    promptId?: string,
+    onContent?: (content: string) => void
+  ): Promise<StructuredChatResponse<T>> {
+    const structuredConfig = { ...config, responseFormat: toStructuredOutputFormat(output) };
+    let conversation = messages;
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.chat(conversation, model, structuredConfig, promptId, onContent);
+      const result = parseStructuredOutput(response.content, output);
+      if (result.success) {
+        return { ...response, data: result.data };
+      }
+
+      if (attempt >= this.MAX_REPAIR_ATTEMPTS) {
+        throw new Error(
+          `Failed to parse ${output.name} response after ${attempt + 1} attempts: ${result.error}`
+        );
+      }
+
+      console.warn(`[LLM] Invalid ${output.name} response, asking the model to repair it: ${result.error}`);
+      conversation = [
+        ...conversation,
+        { role: 'assistant', content: response.content },
+        {
+          role: 'user',
+          content: `Your response did not match the required format: ${result.error}. ` +
+            'Respond again with only the corrected JSON object.'
+        }
+      ];
+    }
+  }
+
+  /**
+   * Call one provider, retrying retryable errors with exponential backoff.
+   * Streams when asked to; providers without streaming answer in one piece.
+   */
+  private async chatWithRetry(
+    messages: ChatMessage[],
+    model: string,
+    config: LLMProviderConfig,
+    circuitKey: string,
+    onContent?: (content: string) => void
   ): Promise<ChatCompletionResponse> {
     const provider = this.getProvider(config);
-    return provider.chat(messages, model, config);
+    const policy = loadRetryPolicy();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        let response: ChatCompletionResponse;
+        if (onContent && provider.chatStream) {
+          let content = '';
+          onContent(content);
+          response = await provider.chatStream(messages, model, config, delta => {
+            content += delta;
+            onContent(content);
+          });
+        } else {
+          response = await provider.chat(messages, model, config);
+          onContent?.(response.content);
+        }
+        this.circuitBreaker.recordSuccess(circuitKey);
+        return response;
+      } catch (error) {
+        if (isProviderUnavailableError(error)) {
+          this.circuitBreaker.recordFailure(circuitKey);
+        }
+        if (attempt >= policy.maxAttempts || !isRetryableLLMError(error)
+          || this.circuitBreaker.getState(circuitKey) === 'open') {
+          throw error;
+        }
+        await new Promise(resolve => setTimeout(resolve, getRetryDelay(policy, attempt)));
+      }
+    }
+  }
+
+  /**
+   * Config for a fallback target. The request's credentials are reused for
+   * its own provider; other providers use the server's credentials and are
+   * skipped when none are configured.
+   */
+  private buildFallbackConfig(target: LLMFallbackTarget, config: LLMProviderConfig): LLMProviderConfig | null {
+    if (target.provider === config.provider) {
+      return { ...config };
+    }
+
+    switch (target.provider) {
+      case 'openai':
+        return process.env.OPENAI_API_KEY ? { provider: 'openai', apiKey: process.env.OPENAI_API_KEY } : null;
+      case 'bedrock':
+        return process.env.AWS_ACCESS_KEY_ID && process.env.AWS_SECRET_ACCESS_KEY ? {
+          provider: 'bedrock',
+          awsAccessKeyId: process.env.AWS_ACCESS_KEY_ID,
+          awsSecretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+          awsSessionToken: process.env.AWS_SESSION_TOKEN || undefined,
+          awsRegion: process.env.AWS_REGION || 'us-east-1'
+        } : null;
+      case 'local':
+        return process.env.LOCAL_LLM_BASE_URL
+          ? { provider: 'local', baseUrl: process.env.LOCAL_LLM_BASE_URL, apiKey: process.env.LOCAL_LLM_API_KEY }
+          : null;
+      case 'mock':
+        return isMockLLMEnabled() ? { provider: 'mock' } : null;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Circuits are kept per provider, and per server for local endpoints
+   */
+  private getCircuitKey(config: LLMProviderConfig): string {
+    return config.provider === 'local' ? `local:${config.baseUrl}` : config.provider;
+  }
+
+  /**
+   * Record a call's token usage. Only calls made for an authenticated
+   * request are recorded; failures are logged and don't fail the call.
+   */
+  private async recordUsage(
+    response: ChatCompletionResponse,
+    model: string,
+    config: LLMProviderConfig,
+    promptId?: string
+  ): Promise<void> {
+    const user = getCurrentUser();
+    if (!user) {
+      return;
+    }
+
+    try {
+      const record = await this.usageService.record({
+        userId: user.userId,
+        username: user.username,
+        stage: promptId || UNTAGGED_PROMPT_ID,
+        provider: config.provider,
+        model: response.model || model,
+        promptTokens: response.usage?.promptTokens || 0,
+        completionTokens: response.usage?.completionTokens || 0,
+        totalTokens: response.usage?.totalTokens || 0
+      });
+      await this.quotaService.addUsage(user.userId, record.totalTokens, record.estimatedCost || 0);
+    } catch (error) {
+      console.error('Failed to record LLM usage:', error);
+    }
   }
 
   /**
@@ -139,9 +414,10 @@ export class LLMService {
    * Build config from request parameters
    */
   buildConfig(params: {
-    provider?: 'openai' | 'bedrock';
+    provider?: LLMProviderType;
     model?: string;
     apiKey?: string;
+    baseUrl?: string;
     awsAccessKeyId?: string;
     awsSecretAccessKey?: string;
     awsSessionToken?: string;
@@ -155,6 +431,7 @@ export class LLMService {
     return {
       provider,
       apiKey: params.apiKey,
+      baseUrl: params.baseUrl,
       awsAccessKeyId: params.awsAccessKeyId,
       awsSecretAccessKey: params.awsSecretAccessKey,
       awsSessionToken: params.awsSessionToken,
@@ -172,4 +449,5 @@ export {
   TranscriptionResponse,
   ModelInfo,
   LLMProviderConfig,
+  LLMProviderType,
 };
@@ -0,0 +1,206 @@
+import OpenAI from 'openai';
+import {
+  ILLMProvider,
+  ChatMessage,
+  ChatCompletionResponse,
+  ModelInfo,
+  LLMProviderConfig,
+} from './llm-provider.interface';
+
+/**
+ * Normalise a base URL to the OpenAI-compatible API root.
+ * A bare host (e.g. http://localhost:11434 for Ollama) gets '/v1' appended;
+ * URLs that already include a path are used as-is.
+ */
+export function normalizeLocalLLMBaseUrl(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+
+  let parsed: URL;
+  try {
+    parsed = new URL(trimmed);
+  } catch {
+    throw new Error(`Invalid local LLM base URL: ${baseUrl}`);
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('Local LLM base URL must use http or https');
+  }
+
+  if (parsed.pathname === '' || parsed.pathname === '/') {
+    return `${trimmed}/v1`;
+  }
+
+  return trimmed;
+}
+
+/**
+ * Local endpoints the server may call: LOCAL_LLM_BASE_URL and the
+ * comma-separated LOCAL_LLM_ALLOWED_BASE_URLS, both set by the administrator.
+ * The base URL comes from the client, so any other URL is refused rather than
+ * letting users make the server send requests wherever they like.
+ */
+export function isAllowedLocalLLMBaseUrl(baseUrl: string, env: NodeJS.ProcessEnv = process.env): boolean {
+  const canonical = (url: string) => new URL(normalizeLocalLLMBaseUrl(url)).href;
+  const allowed = [env.LOCAL_LLM_BASE_URL, ...(env.LOCAL_LLM_ALLOWED_BASE_URLS || '').split(',')]
+    .filter((url): url is string => !!url && url.trim().length > 0);
+
+  try {
+    const requested = canonical(baseUrl);
+    return allowed.some(url => canonical(url) === requested);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Local / OpenAI-compatible LLM Provider Implementation
+ * Talks to any server exposing the OpenAI chat completions API
+ * (Ollama, vLLM, LM Studio, llama.cpp server, etc.) so classification
+ * can run without access to OpenAI or AWS. Only base URLs allowed by
+ * isAllowedLocalLLMBaseUrl are called.
+ */
+export class LocalLLMService implements ILLMProvider {
+  // Local models on CPU/GPU hosts are considerably slower than hosted APIs
+  private readonly TIMEOUT_MS = 120000; // 2 minutes
+  private readonly LIST_MODELS_TIMEOUT_MS = 30000;
+
+  // Most local servers ignore the API key, but the OpenAI client requires one
+  private readonly PLACEHOLDER_API_KEY = 'not-required';
+
+  /**
+   * Create a chat completion against the configured base URL. Retries and
+   * fallback to other providers are handled by LLMService.
+   * @param messages - Array of chat messages
+   * @param model - Model name as known by the local server (e.g., 'llama3.1', 'mistral')
+   * @param config - LLM provider configuration
+   * @returns Chat completion response
+   */
+  async chat(
+    messages: ChatMessage[],
+    model: string,
+    config: LLMProviderConfig
+  ): Promise<ChatCompletionResponse> {
+    const client = this.createClient(config);
+
+    const completion = await this.withTimeout(
+      client.chat.completions.create({
+        model,
+        messages,
+      }),
+      this.TIMEOUT_MS,
+      config
+    );
+
+    if (!completion.choices[0]?.message?.content) {
+      throw new Error('No content in local LLM response');
+    }
+
+    return {
+      content: completion.choices[0].message.content,
+      model: completion.model || model,
+      usage: {
+        promptTokens: completion.usage?.prompt_tokens || 0,
+        completionTokens: completion.usage?.completion_tokens || 0,
+        totalTokens: completion.usage?.total_tokens || 0,
+      },
+    };
+  }
+
+  /**
+   * List models served by the local endpoint (GET {baseUrl}/models). Like
+   * chat, this is not retried: a server that is down fails fast.
+   * @param config - LLM provider configuration
+   * @returns Array of model information
+   */
+  async listModels(config: LLMProviderConfig): Promise<ModelInfo[]> {
+    const client = this.createClient(config);
+
+    // No static fallback here: the available models depend entirely on what
+    // has been pulled/loaded on the local server
+    const response = await this.withTimeout(
+      client.models.list(),
+      this.LIST_MODELS_TIMEOUT_MS,
+      config
+    );
+
+    return response.data.map((model) => ({
+      id: model.id,
+      created: model.created || 0,
+      ownedBy: model.owned_by || 'local',
+      supportsOnDemand: true,
+      requiresProvisioned: false,
+      isInferenceProfile: false,
+      modelType: 'foundation' as const,
+    }));
+  }
+
+  /**
+   * Any model name is accepted - the local server decides what it can serve
+   */
+  isModelSupported(model: string): boolean {
+    return !!model && model.trim().length > 0;
+  }
+
+  /**
+   * Create an OpenAI client pointed at the local endpoint
+   */
+  private createClient(config: LLMProviderConfig): OpenAI {
+    if (!config.baseUrl) {
+      throw new Error('Base URL is required for local LLM provider');
+    }
+    if (!isAllowedLocalLLMBaseUrl(config.baseUrl)) {
+      throw new Error(`Local LLM base URL is not allowed: ${config.baseUrl}`);
+    }
+
+    return new OpenAI({
+      apiKey: config.apiKey || this.PLACEHOLDER_API_KEY,
+      baseURL: normalizeLocalLLMBaseUrl(config.baseUrl),
+      maxRetries: 0, // Retries are handled by LLMService
+      // Resolved on each call so the runtime's fetch is used
+      fetch: (url, init) => fetch(url as any, init as any) as any,
+    });
+  }
+
+  /**
+   * Timeout wrapper for promises; failures are mapped by toLocalLLMError
+   */
+  private async withTimeout<T>(
+    promise: Promise<T>,
+    timeoutMs: number,
+    config: LLMProviderConfig
+  ): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Operation timed out after ${timeoutMs}ms`)),
+        timeoutMs
+      );
+    });
+
+    try {
+      return await Promise.race([promise, timeout]);
+    } catch (error) {
+      throw this.toLocalLLMError(error, config);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * The OpenAI client reports a server that can't be reached as a generic
+   * connection error. Name the server and keep the network error code, so
+   * LLMService can tell the provider is unavailable and fall back.
+   */
+  private toLocalLLMError(error: any, config: LLMProviderConfig): any {
+    if (!(error instanceof OpenAI.APIConnectionError) || error instanceof OpenAI.APIConnectionTimeoutError) {
+      return error;
+    }
+
+    const cause = (error as any).cause;
+    const code = cause?.code ?? cause?.cause?.code;
+    return Object.assign(
+      new Error(`Local LLM server at ${config.baseUrl} is not reachable${code ? ` (${code})` : ''}`),
+      { code, cause: error }
+    );
+  }
+}
@@ -0,0 +1,321 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import {
+  ILLMProvider,
+  ChatMessage,
+  ChatCompletionResponse,
+  ModelInfo,
+  LLMProviderConfig,
+} from './llm-provider.interface';
+
+/**
+ * A canned response: plain text, or an object/array that is returned as JSON
+ */
+export type MockResponse = string | Record<string, any> | any[];
+
+/**
+ * Mock script file format
+ *
+ * {
+ *   "responses": {
+ *     "classification": {
+ *       "3f2a9c0d1b7e4a55": { "category": "RPA", "confidence": 0.9, ... },
+ *       "default": { "category": "Digitise", "confidence": 0.8, ... }
+ *     },
+ *     "subject-extraction": { "default": "Finance" }
+ *   }
+ * }
+ *
+ * Responses are looked up by prompt ID, then by input hash, then by "default".
+ */
+export interface MockScript {
+  responses: {
+    [promptId: string]: {
+      [inputHashOrDefault: string]: MockResponse;
+    };
+  };
+}
+
+/**
+ * One replayed call, in a shape that can be pasted back into a script
+ */
+export interface MockTranscriptEntry {
+  timestamp: string;
+  promptId: string;
+  inputHash: string;
+  model: string;
+  input: string;
+  response: string;
+  source: 'script' | 'default';
+}
+
+/**
+ * Prompt ID used when a caller does not tag its chat call
+ */
+export const UNTAGGED_PROMPT_ID = 'untagged';
+
+/**
+ * The mock provider is only available in tests or when explicitly enabled,
+ * so it cannot be selected by accident in a real deployment
+ */
+export function isMockLLMEnabled(): boolean {
+  return process.env.MOCK_LLM_ENABLED === 'true' || process.env.NODE_ENV === 'test';
+}
+
+/**
+ * Built-in responses that let the full interview and decision-matrix pipeline
+ * run without a script file
+ */
+const DEFAULT_RESPONSES: { [promptId: string]: MockResponse } = {
+  'subject-extraction': 'Operations',
+  'clarification': [
+    {
+      question: 'How many people are involved in this process, and how often does it run?',
+      purpose: 'Understand frequency and user count'
+    },
+    {
+      question: 'Which systems or documents does the process read from and write to?',
+      purpose: 'Understand data sources and outputs'
+    }
+  ],
+  'attribute-extraction': {
+    frequency: { value: 'daily', explanation: 'Mock: process runs every working day' },
+    business_value: { value: 'medium', explanation: 'Mock: moderate business impact' },
+    complexity: { value: 'low', explanation: 'Mock: few steps and exceptions' },
+    risk: { value: 'low', explanation: 'Mock: limited impact if it fails' },
+    user_count: { value: '6-20', explanation: 'Mock: a small team' },
+    data_sensitivity: { value: 'internal', explanation: 'Mock: internal business data' },
+    data_source: { value: 'structured', explanation: 'Mock: spreadsheets and forms' },
+    output_type: { value: 'document', explanation: 'Mock: produces a report' },
+    judgment_required: { value: 'false', explanation: 'Mock: rule-based decisions' },
+    current_state: { value: 'manual', explanation: 'Mock: performed by hand' },
+    success_criteria: { value: 'Invoices posted same day without re-keying', explanation: 'Mock' },
+    risks_constraints: { value: 'unknown', explanation: 'Mock' },
+    value_estimate: { value: 'About 10 hours per week', explanation: 'Mock' },
+    sponsorship: { value: 'unknown', explanation: 'Mock' }
+  },
+  'classification': {
+    category: 'Digitise',
+    confidence: 0.82,
+    rationale: 'Mock classification: a manual, rule-based process with structured inputs is a good candidate for digitisation.',
+    categoryProgression: 'Digitise first, then consider RPA once the process is stable.',
+    futureOpportunities: 'Automate the repetitive data entry steps with RPA.'
+  }
+};
+
+/**
+ * Mock LLM Provider Implementation
+ * Replays canned responses keyed by prompt ID and input hash so the
+ * interview and classification pipeline can run deterministically in CI
+ * and demos without OpenAI or AWS credentials.
+ *
+ * Environment:
+ * - MOCK_LLM_ENABLED=true - allow the 'mock' provider outside of tests
+ * - MOCK_LLM_SCRIPT - path to a JSON script (see MockScript)
+ * - MOCK_LLM_TRANSCRIPT - path to append a JSONL transcript of every call
+ */
+export class MockLLMService implements ILLMProvider {
+  static readonly MODEL_ID = 'mock-model';
+
+  private script: MockScript | null;
+  private scriptLoaded: boolean;
+  private transcript: MockTranscriptEntry[] = [];
+
+  /**
+   * @param script - Inline script; when omitted, MOCK_LLM_SCRIPT is loaded on first use
+   */
+  constructor(script?: MockScript) {
+    this.script = script || null;
+    this.scriptLoaded = !!script;
+  }
+
+  /**
+   * Replay the canned response for this prompt and input
+   * @param messages - Array of chat messages
+   * @param model - Model name (echoed back, not used for lookup)
+   * @param config - LLM provider configuration (config.promptId selects the response set)
+   * @returns Chat completion response
+   */
+  async chat(
+    messages: ChatMessage[],
+    model: string,
+    config: LLMProviderConfig
+  ): Promise<ChatCompletionResponse> {
+    const promptId = config.promptId || UNTAGGED_PROMPT_ID;
+    const input = this.getInput(messages);
+    const inputHash = this.computeInputHash(messages);
+
+    const script = await this.loadScript();
+    const scripted = script?.responses[promptId];
+
+    let response: MockResponse | undefined;
+    let source: MockTranscriptEntry['source'] = 'script';
+
+    if (scripted && scripted[inputHash] !== undefined) {
+      response = scripted[inputHash];
+    } else if (scripted && scripted.default !== undefined) {
+      response = scripted.default;
+    } else {
+      response = DEFAULT_RESPONSES[promptId];
+      source = 'default';
+    }
+
+    if (response === undefined) {
+      throw new Error(
+        `No mock response for prompt "${promptId}" (input hash ${inputHash}). Add it to the mock LLM script.`
+      );
+    }
+
+    const content = typeof response === 'string' ? response : JSON.stringify(response, null, 2);
+
+    await this.record({
+      timestamp: new Date().toISOString(),
+      promptId,
+      inputHash,
+      model,
+      input,
+      response: content,
+      source,
+    });
+
+    const promptTokens = this.estimateTokens(messages.map(m => m.content).join('\n'));
+    const completionTokens = this.estimateTokens(content);
+
+    return {
+      content,
+      model: model || MockLLMService.MODEL_ID,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+    };
+  }
+
+  /**
+   * Replay the canned response in small pieces, as a streaming provider would
+   */
+  async chatStream(
+    messages: ChatMessage[],
+    model: string,
+    config: LLMProviderConfig,
+    onDelta: (delta: string) => void
+  ): Promise<ChatCompletionResponse> {
+    const response = await this.chat(messages, model, config);
+    for (const piece of response.content.match(/[\s\S]{1,16}/g) || []) {
+      onDelta(piece);
+    }
+    return response;
+  }
+
+  /**
+   * The mock provider serves a single model
+   */
+  async listModels(_config: LLMProviderConfig): Promise<ModelInfo[]> {
+    return [
+      {
+        id: MockLLMService.MODEL_ID,
+        created: 0,
+        ownedBy: 'mock',
+        supportsOnDemand: true,
+        requiresProvisioned: false,
+        isInferenceProfile: false,
+        modelType: 'foundation',
+      },
+    ];
+  }
+
+  /**
+   * Any model name is accepted so existing requests (e.g. model: 'gpt-4') can be replayed
+   */
+  isModelSupported(model: string): boolean {
+    return !!model && model.trim().length > 0;
+  }
+
+  /**
+   * Hash of the input for a call: the last user message with whitespace normalised.
+   * System prompts are excluded so that editing a prompt template does not
+   * invalidate recorded scripts.
+   */
+  computeInputHash(messages: ChatMessage[]): string {
+    const normalized = this.getInput(messages).replace(/\s+/g, ' ').trim();
+    return createHash('sha256').update(normalized).digest('hex').substring(0, 16);
+  }
+
+  /**
+   * Calls replayed by this instance, oldest first
+   */
+  getTranscript(): MockTranscriptEntry[] {
+    return [...this.transcript];
+  }
+
+  /**
+   * Forget recorded calls (the transcript file, if any, is left untouched)
+   */
+  clearTranscript(): void {
+    this.transcript = [];
+  }
+
+  /**
+   * Get the text a response is keyed on
+   */
+  private getInput(messages: ChatMessage[]): string {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (messages[i].role === 'user') {
+        return messages[i].content;
+      }
+    }
+    return '';
+  }
+
+  /**
+   * Load the script from MOCK_LLM_SCRIPT once
+   */
+  private async loadScript(): Promise<MockScript | null> {
+    if (this.scriptLoaded) {
+      return this.script;
+    }
+
+    const scriptPath = process.env.MOCK_LLM_SCRIPT;
+    if (scriptPath) {
+      try {
+        const content = await fs.readFile(scriptPath, 'utf-8');
+        const parsed = JSON.parse(content);
+        if (!parsed || typeof parsed.responses !== 'object') {
+          throw new Error('missing "responses" object');
+        }
+        this.script = parsed as MockScript;
+      } catch (error) {
+        throw new Error(
+          `Failed to load mock LLM script from ${scriptPath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    this.scriptLoaded = true;
+    return this.script;
+  }
+
+  /**
+   * Record a call in memory and, if configured, in the transcript file
+   */
+  private async record(entry: MockTranscriptEntry): Promise<void> {
+    this.transcript.push(entry);
+
+    const transcriptPath = process.env.MOCK_LLM_TRANSCRIPT;
+    if (transcriptPath) {
+      try {
+        await fs.appendFile(transcriptPath, JSON.stringify(entry) + '\n', 'utf-8');
+      } catch (error) {
+        console.warn('[MockLLM] Failed to write transcript entry:', error);
+      }
+    }
+  }
+
+  /**
+   * Rough token estimate (~4 characters per token) so usage figures are stable
+   */
+  private estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+}
@@ -0,0 +1,379 @@
+import * as crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { isUserRole } from './permissions';
+import { UserRole } from '../types';
+
+/**
+ * OpenID Connect client settings, read from OIDC_* environment variables
+ */
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string; // Omit for public clients; PKCE is always used
+  redirectUri: string; // Must point at GET /api/auth/oidc/callback
+  scopes: string;
+  providerName: string; // Shown on the login button
+  usernameClaim: string;
+  roleClaim?: string; // e.g. "groups" or "realm_access.roles"; unset leaves roles to user managers
+  roleMapping: Array<{ claimValue: string; role: UserRole }>; // First match wins
+  defaultRole: UserRole;
+  postLoginRedirect: string; // Frontend URL to return to after login
+}
+
+/**
+ * The user an ID token identifies
+ */
+export interface OidcIdentity {
+  issuer: string;
+  subject: string;
+  username: string;
+  role?: UserRole; // Only set when a role claim is configured
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface PendingAuthorization {
+  codeVerifier: string;
+  nonce: string;
+  browserBindingHash: string;
+  expiresAt: number;
+}
+
+interface LoginHandoff<T> {
+  result: T;
+  browserBindingHash: string;
+  expiresAt: number;
+}
+
+const AUTHORIZATION_TTL_MS = 10 * 60 * 1000;
+const HANDOFF_TTL_MS = 60 * 1000;
+
+/**
+ * Parse OIDC_ROLE_MAPPING ("claim-value:role,claim-value:role")
+ */
+export function parseRoleMapping(value: string | undefined): Array<{ claimValue: string; role: UserRole }> {
+  const mapping: Array<{ claimValue: string; role: UserRole }> = [];
+
+  for (const entry of (value || '').split(',').map(e => e.trim()).filter(Boolean)) {
+    const separator = entry.lastIndexOf(':');
+    const claimValue = entry.slice(0, separator).trim();
+    const role = entry.slice(separator + 1).trim();
+
+    if (separator <= 0 || !isUserRole(role)) {
+      console.warn(`Ignoring invalid OIDC_ROLE_MAPPING entry: ${entry}`);
+      continue;
+    }
+    mapping.push({ claimValue, role });
+  }
+
+  return mapping;
+}
+
+/**
+ * Read the OIDC settings; null when SSO is not configured
+ */
+export function loadOidcConfig(env: NodeJS.ProcessEnv = process.env): OidcConfig | null {
+  if (!env.OIDC_ISSUER || !env.OIDC_CLIENT_ID || !env.OIDC_REDIRECT_URI) {
+    return null;
+  }
+
+  const defaultRole = env.OIDC_DEFAULT_ROLE || 'user';
+
+  return {
+    issuer: env.OIDC_ISSUER.replace(/\/$/, ''),
+    clientId: env.OIDC_CLIENT_ID,
+    clientSecret: env.OIDC_CLIENT_SECRET || undefined,
+    redirectUri: env.OIDC_REDIRECT_URI,
+    scopes: env.OIDC_SCOPES || 'openid profile email',
+    providerName: env.OIDC_PROVIDER_NAME || 'SSO',
+    usernameClaim: env.OIDC_USERNAME_CLAIM || 'preferred_username',
+    roleClaim: env.OIDC_ROLE_CLAIM || undefined,
+    roleMapping: parseRoleMapping(env.OIDC_ROLE_MAPPING),
+    defaultRole: isUserRole(defaultRole) ? defaultRole : 'user',
+    postLoginRedirect: env.OIDC_POST_LOGIN_REDIRECT || '/'
+  };
+}
+
+/**
+ * OpenID Connect authorization-code flow with PKCE.
+ * Pending authorizations and login handoffs are kept in memory, so a login
+ * must start and finish on the same backend instance. Both are bound to the
+ * browser that started the login by a secret it keeps in a cookie, so a
+ * callback URL or login code someone else obtained cannot sign it in.
+ */
+export class OidcService {
+  private config: OidcConfig | null | undefined;
+  private metadata: ProviderMetadata | null = null;
+  private signingKeys: Map<string, crypto.KeyObject> = new Map();
+  private pending: Map<string, PendingAuthorization> = new Map();
+  private handoffs: Map<string, LoginHandoff<unknown>> = new Map();
+
+  /**
+   * @param config - Settings to use; by default they are read from the
+   *   environment on first use
+   */
+  constructor(config?: OidcConfig | null) {
+    this.config = config;
+  }
+
+  isEnabled(): boolean {
+    return this.getConfig() !== null;
+  }
+
+  getProviderName(): string | null {
+    return this.getConfig()?.providerName ?? null;
+  }
+
+  getPostLoginRedirect(): string {
+    return this.getConfig()?.postLoginRedirect ?? '/';
+  }
+
+  /**
+   * Start a login: remember state, nonce and PKCE verifier and return the
+   * identity provider URL to send the browser to, with the secret the
+   * browser must present to finish the login
+   */
+  async createAuthorizationUrl(): Promise<{ url: string; browserBinding: string }> {
+    const config = this.requireConfig();
+    const metadata = await this.discover();
+    this.purgeExpired();
+
+    const state = this.randomToken();
+    const nonce = this.randomToken();
+    const codeVerifier = this.randomToken();
+    const browserBinding = this.randomToken();
+    this.pending.set(state, {
+      codeVerifier,
+      nonce,
+      browserBindingHash: this.hash(browserBinding),
+      expiresAt: Date.now() + AUTHORIZATION_TTL_MS
+    });
+
+    const url = new URL(metadata.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', config.clientId);
+    url.searchParams.set('redirect_uri', config.redirectUri);
+    url.searchParams.set('scope', config.scopes);
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', nonce);
+    url.searchParams.set('code_challenge', this.codeChallenge(codeVerifier));
+    url.searchParams.set('code_challenge_method', 'S256');
+    return { url: url.toString(), browserBinding };
+  }
+
+  /**
+   * Finish a login: exchange the authorization code and verify the ID token
+   * @param browserBinding - Secret of the browser that started the login
+   */
+  async handleCallback(code: string, state: string, browserBinding: string | undefined): Promise<OidcIdentity> {
+    const config = this.requireConfig();
+    const pending = this.pending.get(state);
+    this.pending.delete(state);
+
+    if (!pending || pending.expiresAt < Date.now()) {
+      throw new Error('Invalid or expired login state');
+    }
+    if (!this.matchesBinding(browserBinding, pending.browserBindingHash)) {
+      throw new Error('Login was started in another browser');
+    }
+
+    const metadata = await this.discover();
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: config.redirectUri,
+      client_id: config.clientId,
+      code_verifier: pending.codeVerifier
+    });
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+    if (config.clientSecret) {
+      const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+      headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const response = await fetch(metadata.token_endpoint, { method: 'POST', headers, body });
+    if (!response.ok) {
+      throw new Error(`Token request failed with status ${response.status}`);
+    }
+
+    const tokens = await response.json() as { id_token?: string };
+    if (!tokens.id_token) {
+      throw new Error('Token response did not include an ID token');
+    }
+
+    const claims = await this.verifyIdToken(tokens.id_token, pending.nonce);
+    const username = this.getClaim(claims, config.usernameClaim) ?? claims.email ?? claims.sub;
+
+    if (typeof username !== 'string' || !username) {
+      throw new Error(`ID token has no ${config.usernameClaim} claim`);
+    }
+
+    return {
+      issuer: claims.iss as string,
+      subject: claims.sub as string,
+      username,
+      role: this.mapRole(claims)
+    };
+  }
+
+  /**
+   * Role for the ID token's claims, or undefined when no role claim is configured
+   */
+  mapRole(claims: Record<string, unknown>): UserRole | undefined {
+    const config = this.requireConfig();
+    if (!config.roleClaim) {
+      return undefined;
+    }
+
+    const value = this.getClaim(claims, config.roleClaim);
+    const values = (Array.isArray(value) ? value : [value]).map(v => String(v));
+    const match = config.roleMapping.find(entry => values.includes(entry.claimValue));
+    return match ? match.role : config.defaultRole;
+  }
+
+  /**
+   * Park a login result under a one-time code, so the callback redirect
+   * doesn't put tokens in the browser's URL
+   */
+  createHandoff<T>(result: T, browserBinding: string): string {
+    this.purgeExpired();
+    const code = this.randomToken();
+    this.handoffs.set(code, {
+      result,
+      browserBindingHash: this.hash(browserBinding),
+      expiresAt: Date.now() + HANDOFF_TTL_MS
+    });
+    return code;
+  }
+
+  redeemHandoff<T>(code: string, browserBinding: string | undefined): T | null {
+    const handoff = this.handoffs.get(code);
+    this.handoffs.delete(code);
+    if (!handoff || handoff.expiresAt < Date.now() || !this.matchesBinding(browserBinding, handoff.browserBindingHash)) {
+      return null;
+    }
+    return handoff.result as T;
+  }
+
+  private getConfig(): OidcConfig | null {
+    if (this.config === undefined) {
+      this.config = loadOidcConfig();
+    }
+    return this.config;
+  }
+
+  private requireConfig(): OidcConfig {
+    const config = this.getConfig();
+    if (!config) {
+      throw new Error('OIDC is not configured');
+    }
+    return config;
+  }
+
+  private async discover(): Promise<ProviderMetadata> {
+    if (!this.metadata) {
+      const config = this.requireConfig();
+      const response = await fetch(`${config.issuer}/.well-known/openid-configuration`);
+      if (!response.ok) {
+        throw new Error(`OIDC discovery failed with status ${response.status}`);
+      }
+
+      const metadata = await response.json() as ProviderMetadata;
+      if (metadata.issuer.replace(/\/$/, '') !== config.issuer) {
+        throw new Error(`OIDC discovery returned issuer ${metadata.issuer}, expected ${config.issuer}`);
+      }
+      this.metadata = metadata;
+    }
+    return this.metadata;
+  }
+
+  private async verifyIdToken(idToken: string, nonce: string): Promise<jwt.JwtPayload> {
+    const config = this.requireConfig();
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new Error('Malformed ID token');
+    }
+
+    const key = await this.getSigningKey(decoded.header.kid);
+    const metadata = await this.discover();
+    const claims = jwt.verify(idToken, key, {
+      algorithms: ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512', 'PS256'],
+      issuer: metadata.issuer,
+      audience: config.clientId
+    }) as jwt.JwtPayload;
+
+    if (claims.nonce !== nonce) {
+      throw new Error('ID token nonce does not match');
+    }
+    if (!claims.sub) {
+      throw new Error('ID token has no subject');
+    }
+    return claims;
+  }
+
+  private async getSigningKey(kid: string | undefined): Promise<crypto.KeyObject> {
+    const cacheKey = kid || '';
+    if (!this.signingKeys.has(cacheKey)) {
+      // Unknown key ID: the provider may have rotated its keys
+      const metadata = await this.discover();
+      const response = await fetch(metadata.jwks_uri);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch OIDC signing keys: status ${response.status}`);
+      }
+
+      const { keys } = await response.json() as { keys: Array<crypto.JsonWebKey & { kid?: string; use?: string }> };
+      this.signingKeys.clear();
+      for (const jwk of keys.filter(k => !k.use || k.use === 'sig')) {
+        this.signingKeys.set(jwk.kid || '', crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+      }
+    }
+
+    const key = this.signingKeys.get(cacheKey);
+    if (!key) {
+      throw new Error(`No OIDC signing key with ID ${kid}`);
+    }
+    return key;
+  }
+
+  /**
+   * Read a claim by dotted path, e.g. "realm_access.roles"
+   */
+  private getClaim(claims: Record<string, unknown>, path: string): unknown {
+    return path.split('.').reduce<unknown>(
+      (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+      claims
+    );
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const [state, pending] of this.pending) {
+      if (pending.expiresAt < now) this.pending.delete(state);
+    }
+    for (const [code, handoff] of this.handoffs) {
+      if (handoff.expiresAt < now) this.handoffs.delete(code);
+    }
+  }
+
+  private codeChallenge(codeVerifier: string): string {
+    return crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+  }
+
+  private hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+
+  private matchesBinding(browserBinding: string | undefined, expectedHash: string): boolean {
+    return !!browserBinding &&
+      crypto.timingSafeEqual(Buffer.from(this.hash(browserBinding)), Buffer.from(expectedHash));
+  }
+
+  private randomToken(): string {
+    return crypto.randomBytes(32).toString('base64url');
+  }
+}
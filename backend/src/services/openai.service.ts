@@ -28,7 +28,8 @@ export class OpenAIService implements ILLMProvider {
   ];
 
   /**
-   * Create a chat completion with retry logic and timeout handling
+   * Create a chat completion with timeout handling. Retries and fallback to
+   * other providers are handled by LLMService.
    * @param messages - Array of chat messages
    * @param model - Model to use (e.g., 'gpt-4', 'gpt-3.5-turbo')
    * @param config - LLM provider configuration
@@ -39,35 +40,96 @@ export class OpenAIService implements ILLMProvider {
     model: string,
     config: LLMProviderConfig
   ): Promise<ChatCompletionResponse> {
-    const apiKey = config.apiKey;
-    if (!apiKey) {
-      throw new Error('OpenAI API key is required');
+    const client = this.createChatClient(config);
+
+    const completion = await this.withTimeout(
+      client.chat.completions.create({
+        model,
+        messages,
+        ...this.getResponseFormat(model, config),
+      }),
+      this.TIMEOUT_MS
+    );
+
+    if (!completion.choices[0]?.message?.content) {
+      throw new Error('No content in OpenAI response');
     }
-    return this.withRetry(async () => {
-      const client = new OpenAI({ apiKey });
-      
-      const completion = await this.withTimeout(
-        client.chat.completions.create({
+
+    return {
+      content: completion.choices[0].message.content,
+      model: completion.model,
+      usage: {
+        promptTokens: completion.usage?.prompt_tokens || 0,
+        completionTokens: completion.usage?.completion_tokens || 0,
+        totalTokens: completion.usage?.total_tokens || 0,
+      },
+    };
+  }
+
+  /**
+   * Create a streaming chat completion, passing content deltas to onDelta
+   * @param messages - Array of chat messages
+   * @param model - Model to use (e.g., 'gpt-4o')
+   * @param config - LLM provider configuration
+   * @param onDelta - Called with each piece of content as it arrives
+   * @returns The complete chat completion response
+   */
+  async chatStream(
+    messages: ChatMessage[],
+    model: string,
+    config: LLMProviderConfig,
+    onDelta: (delta: string) => void
+  ): Promise<ChatCompletionResponse> {
+    const client = this.createChatClient(config);
+    const abortController = new AbortController();
+
+    let content = '';
+    let responseModel = model;
+    let usage: OpenAI.CompletionUsage | undefined;
+
+    const consume = async () => {
+      const stream = await client.chat.completions.create(
+        {
           model,
           messages,
-        }),
-        this.TIMEOUT_MS
+          ...this.getResponseFormat(model, config),
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal: abortController.signal }
       );
 
-      if (!completion.choices[0]?.message?.content) {
-        throw new Error('No content in OpenAI response');
+      for await (const chunk of stream) {
+        responseModel = chunk.model || responseModel;
+        usage = chunk.usage || usage;
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
       }
+    };
 
-      return {
-        content: completion.choices[0].message.content,
-        model: completion.model,
-        usage: {
-          promptTokens: completion.usage?.prompt_tokens || 0,
-          completionTokens: completion.usage?.completion_tokens || 0,
-          totalTokens: completion.usage?.total_tokens || 0,
-        },
-      };
-    });
+    try {
+      await this.withTimeout(consume(), this.TIMEOUT_MS);
+    } catch (error) {
+      abortController.abort();
+      throw error;
+    }
+
+    if (!content) {
+      throw new Error('No content in OpenAI response');
+    }
+
+    return {
+      content,
+      model: responseModel,
+      usage: {
+        promptTokens: usage?.prompt_tokens || 0,
+        completionTokens: usage?.completion_tokens || 0,
+        totalTokens: usage?.total_tokens || 0,
+      },
+    };
   }
 
   /**
@@ -181,6 +243,47 @@ export class OpenAIService implements ILLMProvider {
     }
   }
 
+  /**
+   * Client for chat calls; retries are left to LLMService
+   */
+  private createChatClient(config: LLMProviderConfig): OpenAI {
+    if (!config.apiKey) {
+      throw new Error('OpenAI API key is required');
+    }
+    return new OpenAI({ apiKey: config.apiKey, maxRetries: 0 });
+  }
+
+  /**
+   * JSON schema response format for structured output, where the model supports it
+   */
+  private getResponseFormat(
+    model: string,
+    config: LLMProviderConfig
+  ): { response_format?: OpenAI.ResponseFormatJSONSchema } {
+    if (!config.responseFormat || !this.supportsJsonSchema(model)) {
+      return {};
+    }
+    return {
+      response_format: {
+        type: 'json_schema',
+        json_schema: {
+          name: config.responseFormat.name,
+          description: config.responseFormat.description,
+          schema: config.responseFormat.schema,
+          strict: true,
+        },
+      },
+    };
+  }
+
+  /**
+   * Whether the model accepts JSON schema response formats (gpt-4o and later,
+   * o1 and later reasoning models except the early previews)
+   */
+  private supportsJsonSchema(model: string): boolean {
+    return /^(gpt-4o|gpt-4\.1|gpt-5|o[1-9])/.test(model) && !/^o1-(preview|mini)/.test(model);
+  }
+
   /**
    * Retry logic with exponential backoff
    */
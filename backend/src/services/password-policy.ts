@@ -0,0 +1,66 @@
+/**
+ * Password rules for local accounts, read from PASSWORD_* environment variables
+ */
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  disallowUsername: boolean; // Reject passwords containing the username
+}
+
+const flag = (value: string | undefined, defaultValue: boolean) =>
+  value === undefined || value === '' ? defaultValue : value === 'true';
+
+export function loadPasswordPolicy(env: NodeJS.ProcessEnv = process.env): PasswordPolicy {
+  return {
+    minLength: Math.max(1, parseInt(env.PASSWORD_MIN_LENGTH || '', 10) || 8),
+    requireUppercase: flag(env.PASSWORD_REQUIRE_UPPERCASE, false),
+    requireLowercase: flag(env.PASSWORD_REQUIRE_LOWERCASE, false),
+    requireDigit: flag(env.PASSWORD_REQUIRE_DIGIT, true),
+    requireSymbol: flag(env.PASSWORD_REQUIRE_SYMBOL, false),
+    disallowUsername: flag(env.PASSWORD_DISALLOW_USERNAME, true)
+  };
+}
+
+/**
+ * Requirements of a policy as sentences for the UI
+ */
+export function describePasswordPolicy(policy: PasswordPolicy): string[] {
+  const requirements = [`At least ${policy.minLength} characters`];
+  if (policy.requireUppercase) requirements.push('An uppercase letter');
+  if (policy.requireLowercase) requirements.push('A lowercase letter');
+  if (policy.requireDigit) requirements.push('A number');
+  if (policy.requireSymbol) requirements.push('A symbol');
+  if (policy.disallowUsername) requirements.push('Must not contain the username');
+  return requirements;
+}
+
+/**
+ * Rules a password breaks; empty when it is acceptable
+ */
+export function getPasswordPolicyViolations(password: string, policy: PasswordPolicy, username?: string): string[] {
+  const violations: string[] = [];
+
+  if (password.length < policy.minLength) {
+    violations.push(`must be at least ${policy.minLength} characters`);
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    violations.push('must contain an uppercase letter');
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    violations.push('must contain a lowercase letter');
+  }
+  if (policy.requireDigit && !/[0-9]/.test(password)) {
+    violations.push('must contain a number');
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    violations.push('must contain a symbol');
+  }
+  if (policy.disallowUsername && username && username.length >= 3 && password.toLowerCase().includes(username.toLowerCase())) {
+    violations.push('must not contain the username');
+  }
+
+  return violations;
+}
@@ -0,0 +1,48 @@
+import { Permission, UserRole } from '../types';
+
+/**
+ * Permissions granted by each role. Every authenticated user can classify
+ * processes, configure their LLM and manage their own account; the
+ * permissions below gate everything else.
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: [
+    'sessions:review',
+    'matrix:read',
+    'matrix:edit',
+    'questions:edit',
+    'prompts:read',
+    'prompts:edit',
+    'learning:manage',
+    'analytics:read',
+    'audit:read',
+    'batch:run',
+    'users:manage',
+    'workspaces:manage',
+    'pii:manage',
+    'pii:reveal',
+    'privacy:manage'
+  ],
+  user: [],
+  reviewer: ['sessions:review', 'matrix:read'],
+  'matrix-editor': ['matrix:read', 'matrix:edit', 'questions:edit', 'learning:manage'],
+  'prompt-editor': ['prompts:read', 'prompts:edit'],
+  auditor: ['audit:read', 'analytics:read', 'matrix:read', 'prompts:read']
+};
+
+export const USER_ROLES = Object.keys(ROLE_PERMISSIONS) as UserRole[];
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as string[]).includes(value);
+}
+
+/**
+ * Permissions of a role; unknown roles (e.g. from an old token) get none
+ */
+export function getRolePermissions(role: string): Permission[] {
+  return isUserRole(role) ? ROLE_PERMISSIONS[role] : [];
+}
+
+export function hasPermission(role: string, permission: Permission): boolean {
+  return getRolePermissions(role).includes(permission);
+}
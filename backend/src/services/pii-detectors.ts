@@ -0,0 +1,330 @@
+import { PIIChecksum, PIICustomDetector, PIIType } from '../types';
+
+/**
+ * Built-in PII detectors and checksum validation
+ *
+ * Detectors only find spans of text; PIIDetectionService resolves overlapping
+ * detections and assigns the tokens that PIIMappingService stores.
+ */
+
+export interface PIIDetection {
+  value: string;
+  start: number;
+  end: number;
+}
+
+export interface PIIDetector {
+  id: string;          // Unique in the registry; the PII type for built-in detectors
+  type: PIIType;
+  tokenPrefix: string; // Tokens look like [PREFIX_1]
+  priority: number;    // Decides between overlapping detections of the same length
+  detect(text: string): PIIDetection[];
+}
+
+/**
+ * Validate a card number using the Luhn algorithm
+ */
+export function validateLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length === 0) {
+    return false;
+  }
+
+  let sum = 0;
+  let isEven = false;
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = parseInt(digits[i], 10);
+
+    if (isEven) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+
+    sum += digit;
+    isEven = !isEven;
+  }
+
+  return sum % 10 === 0;
+}
+
+/**
+ * Validate an IBAN using the ISO 13616 mod-97 check
+ */
+export function validateIbanMod97(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (!/^[A-Z]{2}[0-9]{2}[A-Z0-9]{11,30}$/.test(iban)) {
+    return false;
+  }
+
+  // Move the country code and check digits to the end, then read letters as numbers (A = 10)
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+
+  return remainder === 1;
+}
+
+const CHECKSUMS: Record<PIIChecksum, (value: string) => boolean> = {
+  luhn: validateLuhn,
+  iban: validateIbanMod97
+};
+
+/**
+ * Run each pattern over the text, keeping the first valid match at each position
+ */
+function findMatches(
+  text: string,
+  patterns: RegExp[],
+  isValid: (value: string) => boolean = () => true
+): PIIDetection[] {
+  const detections: PIIDetection[] = [];
+  const seenPositions = new Set<number>();
+
+  for (const pattern of patterns) {
+    const regex = new RegExp(pattern);
+    let match: RegExpExecArray | null;
+
+    while ((match = regex.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        regex.lastIndex++;
+        continue;
+      }
+      if (seenPositions.has(match.index) || !isValid(match[0])) {
+        continue;
+      }
+
+      seenPositions.add(match.index);
+      detections.push({ value: match[0], start: match.index, end: match.index + match[0].length });
+    }
+  }
+
+  return detections;
+}
+
+// Email detection pattern (RFC 5322 simplified)
+// Requirements: 14.1, 14.3
+const EMAIL_PATTERN = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g;
+
+// Phone number patterns (international formats)
+// Requirements: 14.2, 14.4
+// Matches: +1-234-567-8900, (123) 456-7890, 123-456-7890, 123.456.7890, 1234567890
+// Also matches international: +44 20 7123 4567, +61 2 1234 5678
+const PHONE_PATTERNS = [
+  // US/Canada formats
+  /\b\+?1?[-.\s]?\(?([0-9]{3})\)?[-.\s]?([0-9]{3})[-.\s]?([0-9]{4})\b/g,
+  // International format with country code
+  /\b\+([0-9]{1,3})[-.\s]?([0-9]{1,4})[-.\s]?([0-9]{1,4})[-.\s]?([0-9]{1,9})\b/g,
+  // Simple 10-digit format
+  /\b([0-9]{10})\b/g
+];
+
+// SSN pattern (US Social Security Number)
+// Requirements: 14.3
+// Matches: 123-45-6789, 123 45 6789, 123456789
+const SSN_PATTERN = /\b([0-9]{3})[-\s]?([0-9]{2})[-\s]?([0-9]{4})\b/g;
+
+// Credit card patterns (major card types)
+// Requirements: 14.3
+// Matches: Visa, MasterCard, Amex, Discover (with or without spaces/dashes)
+const CREDIT_CARD_PATTERNS = [
+  // Visa (13-16 digits starting with 4)
+  /\b4[0-9]{3}[-\s]?[0-9]{4}[-\s]?[0-9]{4}[-\s]?[0-9]{0,4}\b/g,
+  // MasterCard (16 digits starting with 51-55 or 2221-2720)
+  /\b5[1-5][0-9]{2}[-\s]?[0-9]{4}[-\s]?[0-9]{4}[-\s]?[0-9]{4}\b/g,
+  /\b2[2-7][0-9]{2}[-\s]?[0-9]{4}[-\s]?[0-9]{4}[-\s]?[0-9]{4}\b/g,
+  // Amex (15 digits starting with 34 or 37)
+  /\b3[47][0-9]{2}[-\s]?[0-9]{6}[-\s]?[0-9]{5}\b/g,
+  // Discover (16 digits starting with 6011, 622126-622925, 644-649, 65)
+  /\b6(?:011|5[0-9]{2}|4[4-9][0-9]|22[1-9][0-9]{2})[-\s]?[0-9]{4}[-\s]?[0-9]{4}[-\s]?[0-9]{4}\b/g
+];
+
+// IBAN, compact or printed in groups of four: GB82WEST12345698765432, DE89 3704 0044 0532 0130 00
+const IBAN_PATTERN = /\b[A-Z]{2}[0-9]{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g;
+
+// UK National Insurance number: AB123456C, AB 12 34 56 C
+// The first two letters never include D, F, I, Q, U or V (O not second) and some pairs are not issued
+const UK_NI_PATTERN = /\b(?!BG|GB|KN|NK|NT|TN|ZZ)[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?[0-9]{2} ?[0-9]{2} ?[0-9]{2} ?[A-D]\b/g;
+
+// UK postcode: SW1A 1AA, M1 1AE, B33 8TH, CR2 6XH, GIR 0AA
+const UK_POSTCODE_PATTERN = /\b(?:[A-Z]{1,2}[0-9][A-Z0-9]?|GIR) ?[0-9][ABD-HJLNP-UW-Z]{2}\b/g;
+
+// Street address: a house number, up to four capitalised words and a street type.
+// 221B Baker Street, 10 Downing St, 1600 Pennsylvania Avenue. Addresses without a
+// house number or street type ("the office on Baker Street") are not detected.
+const STREET_ADDRESS_PATTERN = /\b[0-9]{1,5}[A-Za-z]?,? (?:[A-Z][a-z]+ ){1,4}(?:Street|St|Road|Rd|Avenue|Ave|Lane|Ln|Drive|Boulevard|Blvd|Close|Way|Place|Court|Crescent|Terrace|Square|Gardens|Grove|Parade|Highway)\b/g;
+
+// Honorifics that are followed by a name
+const NAME_TITLE_PATTERN = /\b(?:Mr|Mrs|Ms|Miss|Mx|Dr|Prof|Sir|Dame)\.? ((?:[A-Z][a-z]+(?:['-][A-Z]?[a-z]+)? ?){1,3})/g;
+
+// Capitalised words, each possibly followed by a surname
+const CAPITALISED_WORD_PATTERN = /\b[A-Z][a-z]+(?:['-][A-Z]?[a-z]+)?\b/g;
+
+// Common first names. Names that are also everyday words (Mark, Will, May, Grace...)
+// are left out to keep false positives down; workspaces can add their own
+const FIRST_NAMES = [
+  'Aaron', 'Abigail', 'Adam', 'Adrian', 'Ahmed', 'Aisha', 'Alan', 'Alastair', 'Alex', 'Alexander',
+  'Alexandra', 'Alice', 'Alison', 'Amanda', 'Amelia', 'Amir', 'Amy', 'Andrea', 'Andrew', 'Angela',
+  'Anna', 'Anne', 'Anthony', 'Antonio', 'Ashley', 'Barbara', 'Ben', 'Benjamin', 'Brian', 'Carl',
+  'Carlos', 'Caroline', 'Catherine', 'Charles', 'Charlotte', 'Chloe', 'Chris', 'Christine', 'Christopher', 'Claire',
+  'Colin', 'Craig', 'Daniel', 'David', 'Deborah', 'Dennis', 'Diana', 'Dominic', 'Donna', 'Edward',
+  'Eleanor', 'Elena', 'Elizabeth', 'Emily', 'Emma', 'Eric', 'Fatima', 'Fiona', 'Francesca', 'Gareth',
+  'Gary', 'Georgia', 'Giovanni', 'Graham', 'Hannah', 'Hans', 'Harry', 'Heather', 'Helen', 'Ian',
+  'Isabella', 'Jacob', 'James', 'Jane', 'Jason', 'Jennifer', 'Jessica', 'Joanna', 'John', 'Jonathan',
+  'Joseph', 'Joshua', 'Julia', 'Karen', 'Katherine', 'Kevin', 'Klaus', 'Laura', 'Lauren', 'Linda',
+  'Lisa', 'Louise', 'Lucy', 'Luis', 'Marco', 'Margaret', 'Maria', 'Marie', 'Martin', 'Mary',
+  'Matthew', 'Michael', 'Michelle', 'Mohammed', 'Muhammad', 'Natalie', 'Nicholas', 'Nicola', 'Oliver', 'Olivia',
+  'Patrick', 'Paul', 'Peter', 'Philip', 'Priya', 'Rachel', 'Rebecca', 'Richard', 'Robert', 'Samantha',
+  'Samuel', 'Sandra', 'Sarah', 'Simon', 'Sophie', 'Stephanie', 'Stephen', 'Steven', 'Stuart', 'Susan',
+  'Thomas', 'Timothy', 'Victoria', 'William', 'Yusuf', 'Zoe'
+];
+
+// Capitalised words that follow a first name without being a surname
+const NOT_SURNAMES = new Set([
+  'The', 'And', 'Or', 'But', 'If', 'Then', 'When', 'From', 'To', 'In', 'On', 'At', 'For', 'With', 'By', 'Of',
+  'Team', 'Department', 'Ltd', 'Limited', 'Inc', 'Group',
+  'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday',
+  'January', 'February', 'March', 'April', 'June', 'July', 'August', 'September', 'October', 'November', 'December'
+]);
+
+/**
+ * Person names: a title followed by a name (Mr Smith, Dr Jane Doe), or a known
+ * first name with an optional surname (Sarah, Sarah Jones)
+ */
+export function createPersonNameDetector(additionalNames: string[] = []): PIIDetector {
+  const firstNames = new Set([...FIRST_NAMES, ...additionalNames]);
+
+  return {
+    id: 'person_name',
+    type: 'person_name',
+    tokenPrefix: 'NAME',
+    priority: 1,
+    detect(text: string): PIIDetection[] {
+      const detections: PIIDetection[] = [];
+
+      // The title stays in the text: "Mr [NAME_1]"
+      const titles = new RegExp(NAME_TITLE_PATTERN);
+      let match: RegExpExecArray | null;
+      while ((match = titles.exec(text)) !== null) {
+        const name = match[1].trimEnd();
+        const start = match.index + match[0].length - match[1].length;
+        detections.push({ value: name, start, end: start + name.length });
+      }
+
+      const words: PIIDetection[] = [];
+      const capitalised = new RegExp(CAPITALISED_WORD_PATTERN);
+      while ((match = capitalised.exec(text)) !== null) {
+        words.push({ value: match[0], start: match.index, end: match.index + match[0].length });
+      }
+
+      for (let i = 0; i < words.length; i++) {
+        if (!firstNames.has(words[i].value)) {
+          continue;
+        }
+
+        const start = words[i].start;
+        let end = words[i].end;
+        const next = words[i + 1];
+        if (next && text.slice(end, next.start) === ' ' && !NOT_SURNAMES.has(next.value)) {
+          end = next.end;
+          i++;
+        }
+        detections.push({ value: text.slice(start, end), start, end });
+      }
+
+      return detections;
+    }
+  };
+}
+
+/**
+ * Build a detector from an admin-configured regular expression
+ */
+export function createCustomDetector(config: PIICustomDetector): PIIDetector {
+  const pattern = new RegExp(config.pattern, config.caseSensitive ? 'g' : 'gi');
+  const checksum = config.checksum ? CHECKSUMS[config.checksum] : undefined;
+
+  return {
+    id: config.id,
+    type: 'custom',
+    tokenPrefix: config.id.toUpperCase(),
+    priority: 10, // Admins configure these for their own identifiers, so they win ties
+    detect: (text: string) => findMatches(text, [pattern], checksum)
+  };
+}
+
+/**
+ * The detectors every PIIDetectionService starts with
+ */
+export function createBuiltInDetectors(): PIIDetector[] {
+  return [
+    {
+      id: 'email',
+      type: 'email',
+      tokenPrefix: 'EMAIL',
+      priority: 3,
+      detect: (text: string) => findMatches(text, [EMAIL_PATTERN])
+    },
+    {
+      id: 'phone',
+      type: 'phone',
+      tokenPrefix: 'PHONE',
+      priority: 2,
+      detect: (text: string) => findMatches(text, PHONE_PATTERNS, phone => {
+        // Basic check for reasonable length
+        const digitsOnly = phone.replace(/\D/g, '');
+        return digitsOnly.length >= 10 && digitsOnly.length <= 15;
+      })
+    },
+    {
+      id: 'ssn',
+      type: 'ssn',
+      tokenPrefix: 'SSN',
+      priority: 3,
+      detect: (text: string) => findMatches(text, [SSN_PATTERN])
+    },
+    {
+      id: 'credit_card',
+      type: 'credit_card',
+      tokenPrefix: 'CARD',
+      priority: 5,
+      detect: (text: string) => findMatches(text, CREDIT_CARD_PATTERNS, validateLuhn)
+    },
+    {
+      id: 'iban',
+      type: 'iban',
+      tokenPrefix: 'IBAN',
+      priority: 5,
+      detect: (text: string) => findMatches(text, [IBAN_PATTERN], validateIbanMod97)
+    },
+    {
+      id: 'uk_ni',
+      type: 'uk_ni',
+      tokenPrefix: 'NI_NUMBER',
+      priority: 4,
+      detect: (text: string) => findMatches(text, [UK_NI_PATTERN])
+    },
+    {
+      id: 'uk_postcode',
+      type: 'uk_postcode',
+      tokenPrefix: 'POSTCODE',
+      priority: 3,
+      detect: (text: string) => findMatches(text, [UK_POSTCODE_PATTERN])
+    },
+    {
+      id: 'street_address',
+      type: 'street_address',
+      tokenPrefix: 'ADDRESS',
+      priority: 3,
+      detect: (text: string) => findMatches(text, [STREET_ADDRESS_PATTERN])
+    },
+    createPersonNameDetector()
+  ];
+}
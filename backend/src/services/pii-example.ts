@@ -60,7 +60,7 @@ async function demonstratePIIService() {
   // Example 6: No PII
   console.log('Example 6: No PII Detected');
   const cleanText = 'This is a process description about automating invoice processing using RPA technology.';
-  const cleanResult = piiService.scrubOnly(cleanText);
+  const cleanResult = await piiService.scrubOnly(cleanText);
   console.log('Original:', cleanText);
   console.log('Scrubbed:', cleanResult.scrubbedText);
   console.log('Has PII:', cleanResult.hasPII, '\n');
@@ -1,8 +1,14 @@
-import * as crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
-import { JsonStorageService } from './storage.service';
-import { PIIMapping } from '../types';
-import { PIIMatch } from './pii-detection.service';
+import { createStorage, StorageBackend } from './storage.service';
+import { EncryptionKeySecret, KeyRing } from './encryption-keys';
+import { PIIAccessLogEntry, PIIMapping, PIIReport, PIISource } from '../types';
+import { PIIMatch, PIITokenAssignment } from './pii-detection.service';
+
+// Mapping files are rewritten on every change, so changes from all instances are serialised
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+// Stands in for erased user IDs and values
+export const ERASED_MARKER = '[ERASED]';
 
 /**
  * PII Mapping Storage Service
@@ -13,107 +19,157 @@ import { PIIMatch } from './pii-detection.service';
  */
 
 export class PIIMappingService {
-  private storage: JsonStorageService;
-  private encryptionKey: Buffer;
-  private algorithm = 'aes-256-gcm';
+  private storage: StorageBackend;
+  private keyRing: KeyRing;
 
-  constructor(dataDir?: string, encryptionKey?: string) {
-    this.storage = new JsonStorageService(dataDir);
+  constructor(dataDir?: string, encryptionKey?: string | EncryptionKeySecret[]) {
+    this.storage = createStorage(dataDir);
     
-    // Use provided encryption key or generate from environment
-    // In production, this should come from a secure key management service
-    const keyString = encryptionKey || process.env.PII_ENCRYPTION_KEY || this.generateDefaultKey();
-    this.encryptionKey = crypto.scryptSync(keyString, 'salt', 32);
-  }
-
-  /**
-   * Generate a default encryption key (for development only)
-   * In production, use a proper key management service
-   */
-  private generateDefaultKey(): string {
-    console.warn('WARNING: Using default PII encryption key. Set PII_ENCRYPTION_KEY environment variable in production.');
-    return 'catalai-default-pii-key-change-in-production';
+    // Use provided encryption keys or those from PII_ENCRYPTION_KEYS / PII_ENCRYPTION_KEY
+    // In production, these should come from a secure key management service
+    this.keyRing = typeof encryptionKey === 'string'
+      ? new KeyRing([{ keyId: '1', secret: encryptionKey }])
+      : encryptionKey ? new KeyRing(encryptionKey) : KeyRing.fromEnvironment('pii');
   }
 
   /**
-   * Encrypt a PII value
+   * Encrypt a PII value with the active key
    * Requirements: 14.5
    */
   private encrypt(text: string): string {
-    const iv = crypto.randomBytes(16);
-    const cipher = crypto.createCipheriv(this.algorithm, this.encryptionKey, iv) as crypto.CipherGCM;
-    
-    let encrypted = cipher.update(text, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
-    
-    const authTag = cipher.getAuthTag();
-    
-    // Return: iv:authTag:encrypted
-    return `${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`;
+    return this.keyRing.encrypt(text);
   }
 
   /**
-   * Decrypt a PII value
+   * Decrypt a PII value with the key it was encrypted with
    * Requirements: 14.5
    */
   private decrypt(encryptedText: string): string {
-    const parts = encryptedText.split(':');
-    if (parts.length !== 3) {
-      throw new Error('Invalid encrypted data format');
-    }
-
-    const iv = Buffer.from(parts[0], 'hex');
-    const authTag = Buffer.from(parts[1], 'hex');
-    const encrypted = parts[2];
+    return this.keyRing.decrypt(encryptedText);
+  }
 
-    const decipher = crypto.createDecipheriv(this.algorithm, this.encryptionKey, iv) as crypto.DecipherGCM;
-    decipher.setAuthTag(authTag);
-    
-    let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-    decrypted += decipher.final('utf8');
-    
-    return decrypted;
+  /**
+   * Run a task after earlier changes to mapping files have finished
+   */
+  runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = writeQueue.then(task);
+    writeQueue = run.catch(() => undefined);
+    return run;
   }
 
   /**
-   * Store PII mappings for a session
+   * Store PII mappings for a session, adding to those already stored.
+   * A token found again records the new source. Run with runExclusive,
+   * together with getTokenAssignments if tokens were numbered from it.
    * Requirements: 14.5
    */
   async storeMappings(
     sessionId: string,
     matches: PIIMatch[],
-    userId: string = 'system'
+    userId: string = 'system',
+    source: PIISource = 'description'
   ): Promise<PIIMapping> {
-    const mappingId = uuidv4();
-    
-    // Encrypt original values
-    const encryptedMappings = matches.map(match => ({
-      token: match.token,
-      originalValue: this.encrypt(match.value),
-      type: match.type
-    }));
-
-    const mapping: PIIMapping = {
-      mappingId,
+    const timestamp = new Date().toISOString();
+    const existing = await this.readMapping(sessionId);
+    const mapping: PIIMapping = existing || {
+      mappingId: uuidv4(),
       sessionId,
-      mappings: encryptedMappings,
-      createdAt: new Date().toISOString(),
-      accessLog: [
-        {
-          userId,
-          timestamp: new Date().toISOString(),
-          purpose: 'create_mapping'
-        }
-      ]
+      mappings: [],
+      createdAt: timestamp,
+      accessLog: []
     };
 
+    for (const match of matches) {
+      const entry = mapping.mappings.find(m => m.token === match.token);
+      if (entry) {
+        entry.sources = Array.from(new Set([...(entry.sources || []), source]));
+        continue;
+      }
+
+      // Encrypt original values
+      mapping.mappings.push({
+        token: match.token,
+        originalValue: this.encrypt(match.value),
+        type: match.type,
+        ...(match.detector && { detector: match.detector }),
+        sources: [source]
+      });
+    }
+
+    mapping.accessLog.push({
+      userId,
+      timestamp,
+      purpose: existing ? 'update_mapping' : 'create_mapping'
+    });
+
     // Store mapping file
-    const filePath = `pii-mappings/${sessionId}.json`;
-    await this.storage.writeJson(filePath, mapping);
+    await this.storage.writeJson(`pii-mappings/${sessionId}.json`, mapping);
 
     return mapping;
   }
 
+  /**
+   * Tokens already given to values in a session, so new detections continue the numbering.
+   * Values are decrypted for the detector only; this is not logged as access.
+   */
+  async getTokenAssignments(sessionId: string): Promise<PIITokenAssignment[]> {
+    const mapping = await this.readMapping(sessionId);
+    if (!mapping) {
+      return [];
+    }
+
+    const assignments: PIITokenAssignment[] = [];
+    for (const entry of mapping.mappings) {
+      try {
+        assignments.push({ token: entry.token, value: this.decrypt(entry.originalValue) });
+      } catch (error) {
+        console.error(`Failed to decrypt PII value for token ${entry.token}:`, error);
+      }
+    }
+    return assignments;
+  }
+
+  /**
+   * What was detected where in a session, without the values
+   */
+  async getReport(sessionId: string): Promise<PIIReport> {
+    const mapping = await this.readMapping(sessionId);
+    const report: PIIReport = {
+      sessionId,
+      hasPII: false,
+      totalValues: 0,
+      byType: {},
+      bySource: {},
+      items: []
+    };
+
+    for (const entry of mapping?.mappings || []) {
+      const sources = entry.sources || [];
+      report.items.push({
+        token: entry.token,
+        type: entry.type,
+        ...(entry.detector && { detector: entry.detector }),
+        sources
+      });
+      report.byType[entry.type] = (report.byType[entry.type] || 0) + 1;
+      for (const source of sources) {
+        report.bySource[source] = (report.bySource[source] || 0) + 1;
+      }
+    }
+
+    report.totalValues = report.items.length;
+    report.hasPII = report.totalValues > 0;
+    return report;
+  }
+
+  private async readMapping(sessionId: string): Promise<PIIMapping | null> {
+    const filePath = `pii-mappings/${sessionId}.json`;
+    if (!await this.storage.exists(filePath)) {
+      return null;
+    }
+    return await this.storage.readJson<PIIMapping>(filePath);
+  }
+
   /**
    * Retrieve PII mappings for a session
    * Requirements: 14.5
@@ -172,27 +228,59 @@ export class PIIMappingService {
     }
   }
 
+  /**
+   * Decrypt the values of several tokens for an approved reveal, logged as one access.
+   * Tokens without a stored value are left out.
+   */
+  async revealValues(
+    sessionId: string,
+    tokens: string[],
+    userId: string,
+    details: Pick<PIIAccessLogEntry, 'requestId' | 'justification'>
+  ): Promise<Record<string, string> | null> {
+    const mapping = await this.readMapping(sessionId);
+    if (!mapping) {
+      return null;
+    }
+
+    const values: Record<string, string> = {};
+    for (const entry of mapping.mappings.filter(m => tokens.includes(m.token))) {
+      try {
+        values[entry.token] = this.decrypt(entry.originalValue);
+      } catch (error) {
+        console.error(`Failed to decrypt PII value for token ${entry.token}:`, error);
+      }
+    }
+
+    await this.logAccess(sessionId, userId, 'reveal', { ...details, tokens: Object.keys(values) });
+    return values;
+  }
+
   /**
    * Log access to PII mappings
    * Requirements: 14.5
    */
-  private async logAccess(
+  async logAccess(
     sessionId: string,
     userId: string,
-    purpose: string
+    purpose: string,
+    details: Pick<PIIAccessLogEntry, 'requestId' | 'justification' | 'tokens'> = {}
   ): Promise<void> {
     const filePath = `pii-mappings/${sessionId}.json`;
     
     try {
-      const mapping = await this.storage.readJson<PIIMapping>(filePath);
-      
-      mapping.accessLog.push({
-        userId,
-        timestamp: new Date().toISOString(),
-        purpose
-      });
+      await this.runExclusive(async () => {
+        const mapping = await this.storage.readJson<PIIMapping>(filePath);
 
-      await this.storage.writeJson(filePath, mapping);
+        mapping.accessLog.push({
+          userId,
+          timestamp: new Date().toISOString(),
+          purpose,
+          ...details
+        });
+
+        await this.storage.writeJson(filePath, mapping);
+      });
     } catch (error) {
       console.error(`Failed to log PII access for session ${sessionId}:`, error);
     }
@@ -202,11 +290,7 @@ export class PIIMappingService {
    * Get access log for a session's PII mappings
    * Requirements: 14.5
    */
-  async getAccessLog(sessionId: string): Promise<Array<{
-    userId: string;
-    timestamp: string;
-    purpose: string;
-  }>> {
+  async getAccessLog(sessionId: string): Promise<PIIAccessLogEntry[]> {
     const filePath = `pii-mappings/${sessionId}.json`;
     
     try {
@@ -235,6 +319,138 @@ export class PIIMappingService {
     await this.storage.delete(filePath);
   }
 
+  /**
+   * Sessions of the current workspace with stored PII mappings
+   */
+  async listSessionIds(): Promise<string[]> {
+    const files = await this.storage.listFiles('pii-mappings');
+    return files.filter(f => f.endsWith('.json')).map(f => f.replace('.json', ''));
+  }
+
+  /**
+   * Delete mappings last added to before a date (retention policy).
+   * Returns the number of sessions whose mappings were deleted.
+   */
+  async purgeBefore(cutoff: Date): Promise<number> {
+    return this.runExclusive(async () => {
+      let deleted = 0;
+      for (const sessionId of await this.listSessionIds()) {
+        const filePath = `pii-mappings/${sessionId}.json`;
+        try {
+          const mapping = await this.storage.readJson<PIIMapping>(filePath);
+          const lastStored = mapping.accessLog
+            .filter(entry => entry.purpose === 'create_mapping' || entry.purpose === 'update_mapping')
+            .reduce((latest, entry) => entry.timestamp > latest ? entry.timestamp : latest, mapping.createdAt);
+
+          if (new Date(lastStored).getTime() < cutoff.getTime()) {
+            await this.storage.delete(filePath);
+            deleted++;
+          }
+        } catch (error) {
+          console.error(`Failed to purge PII mappings for session ${sessionId}:`, error);
+        }
+      }
+      return deleted;
+    });
+  }
+
+  /**
+   * Erase a data subject from a session's mappings: values equal to the given
+   * value (ignoring case) are removed, and access by the given users is
+   * attributed to ERASED_MARKER. The erasure is logged without the value.
+   */
+  async eraseSubject(
+    sessionId: string,
+    subject: { userIds: string[]; value?: string },
+    erasedBy: string
+  ): Promise<{ valuesErased: number; accessEntriesAnonymised: number }> {
+    const filePath = `pii-mappings/${sessionId}.json`;
+
+    return this.runExclusive(async () => {
+      const result = { valuesErased: 0, accessEntriesAnonymised: 0 };
+      if (!await this.storage.exists(filePath)) {
+        return result;
+      }
+
+      const mapping = await this.storage.readJson<PIIMapping>(filePath);
+      const value = subject.value?.trim().toLowerCase();
+      const erasedTokens: string[] = [];
+
+      if (value) {
+        mapping.mappings = mapping.mappings.filter(entry => {
+          try {
+            if (this.decrypt(entry.originalValue).trim().toLowerCase() === value) {
+              erasedTokens.push(entry.token);
+              return false;
+            }
+          } catch (error) {
+            console.error(`Failed to decrypt PII value for token ${entry.token}:`, error);
+          }
+          return true;
+        });
+      }
+
+      for (const entry of mapping.accessLog) {
+        if (subject.userIds.includes(entry.userId)) {
+          entry.userId = ERASED_MARKER;
+          result.accessEntriesAnonymised++;
+        }
+      }
+
+      result.valuesErased = erasedTokens.length;
+      if (result.valuesErased === 0 && result.accessEntriesAnonymised === 0) {
+        return result;
+      }
+
+      if (erasedTokens.length > 0) {
+        mapping.accessLog.push({
+          userId: erasedBy,
+          timestamp: new Date().toISOString(),
+          purpose: 'erasure',
+          tokens: erasedTokens
+        });
+      }
+      await this.storage.writeJson(filePath, mapping);
+      return result;
+    });
+  }
+
+  /**
+   * Re-encrypt the values of every mapping in the current workspace with the
+   * active key, after a key rotation. Values already under it are left alone.
+   */
+  async reencryptAll(): Promise<{ mappings: number; values: number }> {
+    return this.runExclusive(async () => {
+      const result = { mappings: 0, values: 0 };
+      for (const sessionId of await this.listSessionIds()) {
+        const filePath = `pii-mappings/${sessionId}.json`;
+        const mapping = await this.storage.readJson<PIIMapping>(filePath);
+        const stale = mapping.mappings.filter(entry => !this.keyRing.isCurrent(entry.originalValue));
+        if (stale.length === 0) {
+          continue;
+        }
+
+        try {
+          for (const entry of stale) {
+            entry.originalValue = this.keyRing.reencrypt(entry.originalValue);
+          }
+        } catch (error) {
+          throw new Error(`Failed to re-encrypt PII mappings of session ${sessionId}: ${error instanceof Error ? error.message : error}`);
+        }
+        mapping.accessLog.push({
+          userId: 'system',
+          timestamp: new Date().toISOString(),
+          purpose: 'key_rotation'
+        });
+        await this.storage.writeJson(filePath, mapping);
+
+        result.mappings++;
+        result.values += stale.length;
+      }
+      return result;
+    });
+  }
+
   /**
    * Check if PII mappings exist for a session
    */
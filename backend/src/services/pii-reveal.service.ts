@@ -0,0 +1,278 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createStorage, StorageBackend } from './storage.service';
+import { PIIService } from './pii.service';
+import { escapeCsvCell } from './csv';
+import { PIIAccessLogEntry, PIIRevealRequest, PIIRevealSettings } from '../types';
+
+const REVEAL_SETTINGS_FILE = 'config/pii-reveal.json';
+
+const DEFAULT_REVEAL_SETTINGS: PIIRevealSettings = {
+  requireApproval: false,
+  revealMinutes: 15
+};
+
+export interface PIIRevealUser {
+  userId: string;
+  username: string;
+}
+
+export interface PIIRevealResult {
+  request: PIIRevealRequest;
+  values: Record<string, string>;
+}
+
+/**
+ * PII Reveal Service
+ *
+ * Controls access to the original values behind PII tokens. A user asks to
+ * reveal tokens of a session with a written justification; depending on the
+ * workspace settings a second user approves the request. An approved request
+ * can be used by its requester until it expires. Every step is recorded in the
+ * access log of the session's PII mapping.
+ */
+export class PIIRevealService {
+  private storage: StorageBackend;
+  private piiService: PIIService;
+
+  constructor(dataDir?: string, piiService?: PIIService) {
+    this.storage = createStorage(dataDir);
+    this.piiService = piiService || new PIIService(dataDir);
+  }
+
+  /**
+   * Reveal settings of the current workspace
+   */
+  async getSettings(): Promise<PIIRevealSettings> {
+    try {
+      return { ...DEFAULT_REVEAL_SETTINGS, ...await this.storage.readJson<PIIRevealSettings>(REVEAL_SETTINGS_FILE) };
+    } catch (error) {
+      return { ...DEFAULT_REVEAL_SETTINGS };
+    }
+  }
+
+  /**
+   * Save reveal settings (validated by the caller against PIIRevealSettingsSchema).
+   * Requests already made keep the rules they were made under.
+   */
+  async updateSettings(
+    settings: Pick<PIIRevealSettings, 'requireApproval' | 'revealMinutes'>,
+    updatedBy: string
+  ): Promise<PIIRevealSettings> {
+    const saved: PIIRevealSettings = {
+      requireApproval: settings.requireApproval,
+      revealMinutes: settings.revealMinutes,
+      updatedAt: new Date().toISOString(),
+      updatedBy
+    };
+    await this.storage.writeJson(REVEAL_SETTINGS_FILE, saved);
+    return saved;
+  }
+
+  /**
+   * Ask to reveal tokens of a session, all of them if none are given.
+   * Without required approval the request is approved straight away.
+   */
+  async createRequest(
+    sessionId: string,
+    input: { tokens?: string[]; justification: string },
+    user: PIIRevealUser
+  ): Promise<PIIRevealRequest> {
+    const report = await this.piiService.getReport(sessionId);
+    if (!report.hasPII) {
+      throw new Error(`No PII found for session ${sessionId}`);
+    }
+
+    const knownTokens = report.items.map(item => item.token);
+    const tokens = input.tokens ? Array.from(new Set(input.tokens)) : knownTokens;
+    const unknownTokens = tokens.filter(token => !knownTokens.includes(token));
+    if (unknownTokens.length > 0) {
+      throw new Error(`Unknown tokens for session: ${unknownTokens.join(', ')}`);
+    }
+
+    const settings = await this.getSettings();
+    const now = new Date();
+    const request: PIIRevealRequest = {
+      requestId: uuidv4(),
+      sessionId,
+      tokens,
+      justification: input.justification,
+      requestedBy: user.userId,
+      requestedByName: user.username,
+      requestedAt: now.toISOString(),
+      status: settings.requireApproval ? 'pending' : 'approved',
+      approvalRequired: settings.requireApproval
+    };
+    if (!settings.requireApproval) {
+      request.expiresAt = new Date(now.getTime() + settings.revealMinutes * 60 * 1000).toISOString();
+    }
+
+    await this.saveRequest(request);
+    await this.piiService.logAccess(sessionId, user.userId, 'reveal_requested', {
+      requestId: request.requestId,
+      justification: request.justification,
+      tokens
+    });
+
+    return request;
+  }
+
+  /**
+   * Approve or reject a pending request. Requesters cannot review their own requests.
+   */
+  async reviewRequest(
+    requestId: string,
+    approved: boolean,
+    reviewer: PIIRevealUser,
+    reviewNotes?: string
+  ): Promise<PIIRevealRequest> {
+    const request = await this.loadRequest(requestId);
+    if (!request) {
+      throw new Error(`Reveal request ${requestId} not found`);
+    }
+    if (request.status !== 'pending') {
+      throw new Error(`Reveal request has already been ${request.status}`);
+    }
+    if (request.requestedBy === reviewer.userId) {
+      throw new Error('Reveal requests must be reviewed by someone other than the requester');
+    }
+
+    const settings = await this.getSettings();
+    const now = new Date();
+    request.status = approved ? 'approved' : 'rejected';
+    request.reviewedBy = reviewer.userId;
+    request.reviewedByName = reviewer.username;
+    request.reviewedAt = now.toISOString();
+    request.reviewNotes = reviewNotes;
+    if (approved) {
+      request.expiresAt = new Date(now.getTime() + settings.revealMinutes * 60 * 1000).toISOString();
+    }
+
+    await this.saveRequest(request);
+    await this.piiService.logAccess(request.sessionId, reviewer.userId, approved ? 'reveal_approved' : 'reveal_rejected', {
+      requestId,
+      ...(reviewNotes && { justification: reviewNotes })
+    });
+
+    return request;
+  }
+
+  /**
+   * Decrypt the values of an approved, unexpired request, for its requester only
+   */
+  async reveal(requestId: string, user: PIIRevealUser): Promise<PIIRevealResult> {
+    const request = await this.loadRequest(requestId);
+    if (!request) {
+      throw new Error(`Reveal request ${requestId} not found`);
+    }
+    if (request.requestedBy !== user.userId) {
+      throw new Error('Only the requester can use a reveal request');
+    }
+    if (request.status !== 'approved') {
+      throw new Error(`Reveal request is ${request.status}, not approved`);
+    }
+    if (!request.expiresAt || new Date(request.expiresAt).getTime() <= Date.now()) {
+      throw new Error('Reveal request has expired');
+    }
+
+    const values = await this.piiService.revealValues(request.sessionId, request.tokens, user.userId, {
+      requestId,
+      justification: request.justification
+    });
+    if (!values) {
+      throw new Error(`No PII found for session ${request.sessionId}`);
+    }
+
+    return { request, values };
+  }
+
+  /**
+   * Reveal requests of a session, newest first
+   */
+  async listRequests(sessionId: string): Promise<PIIRevealRequest[]> {
+    const files = await this.storage.listFiles('pii-reveal-requests');
+    const requests: PIIRevealRequest[] = [];
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      try {
+        const request = await this.storage.readJson<PIIRevealRequest>(`pii-reveal-requests/${file}`);
+        if (request.sessionId === sessionId) {
+          requests.push(request);
+        }
+      } catch (error) {
+        console.error(`Error loading reveal request ${file}:`, error);
+      }
+    }
+
+    return requests.sort((a, b) => b.requestedAt.localeCompare(a.requestedAt));
+  }
+
+  async loadRequest(requestId: string): Promise<PIIRevealRequest | null> {
+    const relativePath = `pii-reveal-requests/${requestId}.json`;
+    if (!await this.storage.exists(relativePath)) {
+      return null;
+    }
+    return await this.storage.readJson<PIIRevealRequest>(relativePath);
+  }
+
+  /**
+   * Delete the reveal requests of a session, e.g. when it is erased
+   */
+  async deleteRequestsForSession(sessionId: string): Promise<number> {
+    const requests = await this.listRequests(sessionId);
+    for (const request of requests) {
+      await this.storage.delete(`pii-reveal-requests/${request.requestId}.json`);
+    }
+    return requests.length;
+  }
+
+  /**
+   * Replace the given users as requester or reviewer of reveal requests
+   * (subject erasure). Returns the number of requests changed.
+   */
+  async anonymiseUsers(userIds: string[], replacement: string): Promise<number> {
+    const files = await this.storage.listFiles('pii-reveal-requests');
+    let changed = 0;
+
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      const request = await this.storage.readJson<PIIRevealRequest>(`pii-reveal-requests/${file}`);
+      let anonymised = false;
+      if (userIds.includes(request.requestedBy)) {
+        request.requestedBy = replacement;
+        request.requestedByName = replacement;
+        anonymised = true;
+      }
+      if (request.reviewedBy && userIds.includes(request.reviewedBy)) {
+        request.reviewedBy = replacement;
+        request.reviewedByName = replacement;
+        anonymised = true;
+      }
+      if (anonymised) {
+        await this.saveRequest(request);
+        changed++;
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Access log of a session's PII mapping as CSV, for data protection reviews
+   */
+  async exportAccessLogCsv(sessionId: string): Promise<string> {
+    const entries: PIIAccessLogEntry[] = await this.piiService.getAccessLog(sessionId);
+    const headers = ['Timestamp', 'User ID', 'Purpose', 'Request ID', 'Justification', 'Tokens'];
+    const rows = entries.map(entry => [
+      entry.timestamp,
+      entry.userId,
+      entry.purpose,
+      entry.requestId || '',
+      entry.justification || '',
+      (entry.tokens || []).join(' ')
+    ].map(escapeCsvCell).join(','));
+
+    return [headers.join(','), ...rows].join('\n');
+  }
+
+  private async saveRequest(request: PIIRevealRequest): Promise<void> {
+    await this.storage.writeJson(`pii-reveal-requests/${request.requestId}.json`, request);
+  }
+}
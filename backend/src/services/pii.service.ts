@@ -1,6 +1,17 @@
 import { PIIDetectionService, PIIDetectionResult } from './pii-detection.service';
 import { PIIMappingService } from './pii-mapping.service';
-import { PIIMapping } from '../types';
+import { EncryptionKeySecret } from './encryption-keys';
+import { createStorage, StorageBackend } from './storage.service';
+import { ClassificationResult, ExtractedAttributes } from './classification.service';
+import { PIIAccessLogEntry, PIIDetectorSettings, PIIMapping, PIIReport, PIISource } from '../types';
+
+const DETECTOR_SETTINGS_FILE = 'config/pii-detectors.json';
+
+const DEFAULT_DETECTOR_SETTINGS: PIIDetectorSettings = {
+  disabledDetectors: [],
+  customDetectors: [],
+  personNames: []
+};
 
 /**
  * Combined PII Service
@@ -18,47 +29,168 @@ export interface PIIScrubResult {
 export class PIIService {
   private detectionService: PIIDetectionService;
   private mappingService: PIIMappingService;
+  private storage: StorageBackend;
 
-  constructor(dataDir?: string, encryptionKey?: string) {
+  constructor(dataDir?: string, encryptionKey?: string | EncryptionKeySecret[]) {
     this.detectionService = new PIIDetectionService();
     this.mappingService = new PIIMappingService(dataDir, encryptionKey);
+    this.storage = createStorage(dataDir);
+  }
+
+  /**
+   * Detector settings of the current workspace
+   */
+  async getDetectorSettings(): Promise<PIIDetectorSettings> {
+    try {
+      return { ...DEFAULT_DETECTOR_SETTINGS, ...await this.storage.readJson<PIIDetectorSettings>(DETECTOR_SETTINGS_FILE) };
+    } catch (error) {
+      return { ...DEFAULT_DETECTOR_SETTINGS };
+    }
   }
 
   /**
-   * Detect and scrub PII from text, storing mappings if PII is found
+   * Save detector settings (validated by the caller against PIIDetectorSettingsSchema)
+   */
+  async updateDetectorSettings(
+    settings: Pick<PIIDetectorSettings, 'disabledDetectors' | 'customDetectors' | 'personNames'>,
+    updatedBy: string
+  ): Promise<PIIDetectorSettings> {
+    const saved: PIIDetectorSettings = {
+      disabledDetectors: settings.disabledDetectors,
+      customDetectors: settings.customDetectors,
+      personNames: settings.personNames,
+      updatedAt: new Date().toISOString(),
+      updatedBy
+    };
+    await this.storage.writeJson(DETECTOR_SETTINGS_FILE, saved);
+    return saved;
+  }
+
+  /**
+   * Run detection with the given (possibly unsaved) settings, so admins can try them out
+   */
+  async preview(text: string, settings?: PIIDetectorSettings): Promise<PIIDetectionResult> {
+    return this.detectionService.detectAndScrub(text, undefined, settings || await this.getDetectorSettings());
+  }
+
+  /**
+   * Detect and scrub PII from text, storing mappings if PII is found.
+   * Every text of a session that is stored or logged goes through here, with
+   * the source recorded for the session's PII report. Tokens are unique per
+   * session: a value seen before keeps its token.
    * Requirements: 14.1, 14.2, 14.3, 14.4, 14.5
    */
   async scrubAndStore(
     text: string,
     sessionId: string,
-    userId: string = 'system'
+    userId: string = 'system',
+    source: PIISource = 'description'
   ): Promise<PIIScrubResult> {
-    // Detect and scrub PII
-    const detectionResult: PIIDetectionResult = this.detectionService.detectAndScrub(text, sessionId);
+    const settings = await this.getDetectorSettings();
 
-    // If PII was found, store the mappings
-    let mapping: PIIMapping | undefined;
-    if (detectionResult.hasPII && detectionResult.matches.length > 0) {
-      mapping = await this.mappingService.storeMappings(
+    return this.mappingService.runExclusive(async () => {
+      // Detect and scrub PII
+      const detectionResult: PIIDetectionResult = this.detectionService.detectAndScrub(
+        text,
         sessionId,
-        detectionResult.matches,
-        userId
+        settings,
+        await this.mappingService.getTokenAssignments(sessionId)
       );
+
+      // If PII was found, store the mappings
+      let mapping: PIIMapping | undefined;
+      if (detectionResult.hasPII && detectionResult.matches.length > 0) {
+        mapping = await this.mappingService.storeMappings(
+          sessionId,
+          detectionResult.matches,
+          userId,
+          source
+        );
+      }
+
+      return {
+        scrubbedText: detectionResult.scrubbedText,
+        hasPII: detectionResult.hasPII,
+        mapping
+      };
+    });
+  }
+
+  /**
+   * Scrub several texts of a session from the same source, in order
+   */
+  async scrubAllAndStore(
+    texts: string[],
+    sessionId: string,
+    userId: string = 'system',
+    source: PIISource = 'description'
+  ): Promise<PIIScrubResult[]> {
+    const results: PIIScrubResult[] = [];
+    for (const text of texts) {
+      results.push(await this.scrubAndStore(text, sessionId, userId, source));
     }
+    return results;
+  }
 
-    return {
-      scrubbedText: detectionResult.scrubbedText,
-      hasPII: detectionResult.hasPII,
-      mapping
-    };
+  /**
+   * Scrub PII the model echoed back in a classification and its raw response,
+   * before they are stored or logged. Returns whether any was found.
+   */
+  async scrubClassificationOutput(
+    output: { result: ClassificationResult; llmResponse: string },
+    sessionId: string,
+    userId: string = 'system'
+  ): Promise<boolean> {
+    const [rationale, categoryProgression, futureOpportunities, llmResponse] = await this.scrubAllAndStore(
+      [output.result.rationale, output.result.categoryProgression, output.result.futureOpportunities, output.llmResponse],
+      sessionId,
+      userId,
+      'model_response'
+    );
+
+    output.result.rationale = rationale.scrubbedText;
+    output.result.categoryProgression = categoryProgression.scrubbedText;
+    output.result.futureOpportunities = futureOpportunities.scrubbedText;
+    output.llmResponse = llmResponse.scrubbedText;
+
+    return [rationale, categoryProgression, futureOpportunities, llmResponse].some(scrubbed => scrubbed.hasPII);
+  }
+
+  /**
+   * Scrub PII the model echoed back in extracted attributes, values and
+   * explanations alike, before they are evaluated, stored or returned.
+   * Returns whether any was found.
+   */
+  async scrubExtractedAttributes(
+    attributes: ExtractedAttributes,
+    sessionId: string,
+    userId: string = 'system'
+  ): Promise<boolean> {
+    let hadPII = false;
+    for (const attribute of Object.values(attributes)) {
+      const [value, explanation] = await this.scrubAllAndStore(
+        [attribute.value, attribute.explanation],
+        sessionId,
+        userId,
+        'model_response'
+      );
+      attribute.value = value.scrubbedText;
+      attribute.explanation = explanation.scrubbedText;
+      hadPII = hadPII || value.hasPII || explanation.hasPII;
+    }
+    return hadPII;
   }
 
   /**
    * Scrub PII without storing mappings (for non-persistent operations)
    * Requirements: 14.1, 14.2, 14.3, 14.4
    */
-  scrubOnly(text: string): PIIScrubResult {
-    const detectionResult: PIIDetectionResult = this.detectionService.detectAndScrub(text);
+  async scrubOnly(text: string): Promise<PIIScrubResult> {
+    const detectionResult: PIIDetectionResult = this.detectionService.detectAndScrub(
+      text,
+      undefined,
+      await this.getDetectorSettings()
+    );
 
     return {
       scrubbedText: detectionResult.scrubbedText,
@@ -95,14 +227,34 @@ export class PIIService {
    * Get access log for a session's PII mappings
    * Requirements: 14.5
    */
-  async getAccessLog(sessionId: string): Promise<Array<{
-    userId: string;
-    timestamp: string;
-    purpose: string;
-  }>> {
+  async getAccessLog(sessionId: string): Promise<PIIAccessLogEntry[]> {
     return await this.mappingService.getAccessLog(sessionId);
   }
 
+  /**
+   * Record access to a session's PII mappings, e.g. a step of a reveal request
+   */
+  async logAccess(
+    sessionId: string,
+    userId: string,
+    purpose: string,
+    details: Pick<PIIAccessLogEntry, 'requestId' | 'justification' | 'tokens'> = {}
+  ): Promise<void> {
+    await this.mappingService.logAccess(sessionId, userId, purpose, details);
+  }
+
+  /**
+   * Decrypt several values for an approved reveal request; use PIIRevealService
+   */
+  async revealValues(
+    sessionId: string,
+    tokens: string[],
+    userId: string,
+    details: Pick<PIIAccessLogEntry, 'requestId' | 'justification'>
+  ): Promise<Record<string, string> | null> {
+    return await this.mappingService.revealValues(sessionId, tokens, userId, details);
+  }
+
   /**
    * Delete PII mappings for a session
    * Requirements: 14.5
@@ -111,6 +263,45 @@ export class PIIService {
     await this.mappingService.deleteMappings(sessionId, userId);
   }
 
+  /**
+   * What was detected where in a session, without the values
+   */
+  async getReport(sessionId: string): Promise<PIIReport> {
+    return await this.mappingService.getReport(sessionId);
+  }
+
+  /**
+   * Sessions of the current workspace with stored PII mappings
+   */
+  async listMappedSessionIds(): Promise<string[]> {
+    return await this.mappingService.listSessionIds();
+  }
+
+  /**
+   * Delete mappings last added to before a date (retention policy)
+   */
+  async purgeMappingsBefore(cutoff: Date): Promise<number> {
+    return await this.mappingService.purgeBefore(cutoff);
+  }
+
+  /**
+   * Erase a data subject's values and access from a session's mappings
+   */
+  async eraseSubject(
+    sessionId: string,
+    subject: { userIds: string[]; value?: string },
+    erasedBy: string
+  ): Promise<{ valuesErased: number; accessEntriesAnonymised: number }> {
+    return await this.mappingService.eraseSubject(sessionId, subject, erasedBy);
+  }
+
+  /**
+   * Re-encrypt the current workspace's mappings with the active key (key rotation)
+   */
+  async reencryptMappings(): Promise<{ mappings: number; values: number }> {
+    return await this.mappingService.reencryptAll();
+  }
+
   /**
    * Check if PII mappings exist for a session
    */
@@ -0,0 +1,231 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createStorage, StorageBackend } from './storage.service';
+import { SessionStorageService } from './session-storage.service';
+import { PIIService } from './pii.service';
+import { AuditLogService } from './audit-log.service';
+import { WorkspaceService } from './workspace.service';
+import { DEFAULT_WORKSPACE_ID, getCurrentWorkspaceId, runInWorkspace } from './workspace-context';
+import { RetentionDataType, RetentionPolicy, RetentionPurgeResult } from '../types';
+
+const RETENTION_POLICY_FILE = 'config/retention.json';
+const LAST_RUN_FILE = 'retention/last-run.json';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Only cached speech is purged by default; everything else is kept until a window is set
+const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  retentionDays: {
+    sessions: null,
+    audit_logs: null,
+    pii_mappings: null,
+    voice_cache: 7
+  }
+};
+
+/**
+ * Data Retention Service
+ *
+ * Each workspace sets how many days sessions, audit logs and PII mappings are
+ * kept. The purge deletes what is older than that, judged by the last update
+ * of a session, the day of an audit log and the last value added to a mapping.
+ * The voice cache is shared by all workspaces and follows the policy of the
+ * default workspace.
+ */
+export class RetentionService {
+  private dataDir: string;
+  private storage: StorageBackend;
+  private sessionStorage: SessionStorageService;
+  private piiService: PIIService;
+  private auditLogService: AuditLogService;
+  private workspaceService: WorkspaceService;
+
+  constructor(dataDir: string = process.env.DATA_DIR || './data', piiService?: PIIService) {
+    this.dataDir = dataDir;
+    this.storage = createStorage(dataDir);
+    this.sessionStorage = new SessionStorageService(this.storage);
+    this.piiService = piiService || new PIIService(dataDir);
+    this.auditLogService = new AuditLogService(dataDir);
+    this.workspaceService = new WorkspaceService(dataDir);
+  }
+
+  /**
+   * Retention policy of the current workspace
+   */
+  async getPolicy(): Promise<RetentionPolicy> {
+    try {
+      const saved = await this.storage.readJson<RetentionPolicy>(RETENTION_POLICY_FILE);
+      return {
+        ...saved,
+        retentionDays: { ...DEFAULT_RETENTION_POLICY.retentionDays, ...saved.retentionDays }
+      };
+    } catch (error) {
+      return { retentionDays: { ...DEFAULT_RETENTION_POLICY.retentionDays } };
+    }
+  }
+
+  /**
+   * Save the retention policy (validated by the caller against RetentionPolicySchema).
+   * Data is only deleted at the next purge.
+   */
+  async updatePolicy(policy: Pick<RetentionPolicy, 'retentionDays'>, updatedBy: string): Promise<RetentionPolicy> {
+    const saved: RetentionPolicy = {
+      retentionDays: policy.retentionDays,
+      updatedAt: new Date().toISOString(),
+      updatedBy
+    };
+    await this.storage.writeJson(RETENTION_POLICY_FILE, saved);
+    return saved;
+  }
+
+  /**
+   * Result of the last purge of the current workspace
+   */
+  async getLastRun(): Promise<RetentionPurgeResult | null> {
+    if (!await this.storage.exists(LAST_RUN_FILE)) {
+      return null;
+    }
+    return await this.storage.readJson<RetentionPurgeResult>(LAST_RUN_FILE);
+  }
+
+  /**
+   * Delete the current workspace's data that is older than its retention policy allows
+   */
+  async purge(triggeredBy: string = 'system', now: Date = new Date()): Promise<RetentionPurgeResult> {
+    const policy = await this.getPolicy();
+    const workspaceId = getCurrentWorkspaceId();
+    const cutoff = (type: RetentionDataType): Date | null => {
+      const days = policy.retentionDays[type];
+      return days === null ? null : new Date(now.getTime() - days * DAY_MS);
+    };
+
+    const deleted: Record<RetentionDataType, number> = {
+      sessions: 0,
+      audit_logs: 0,
+      pii_mappings: 0,
+      voice_cache: 0
+    };
+
+    const sessionsCutoff = cutoff('sessions');
+    if (sessionsCutoff) {
+      deleted.sessions = await this.purgeSessions(sessionsCutoff);
+    }
+
+    const auditCutoff = cutoff('audit_logs');
+    if (auditCutoff) {
+      deleted.audit_logs = await this.auditLogService.deleteLogsBefore(auditCutoff.toISOString().split('T')[0]);
+    }
+
+    const mappingsCutoff = cutoff('pii_mappings');
+    if (mappingsCutoff) {
+      deleted.pii_mappings = await this.piiService.purgeMappingsBefore(mappingsCutoff);
+    }
+
+    const voiceCacheCutoff = cutoff('voice_cache');
+    if (voiceCacheCutoff && workspaceId === DEFAULT_WORKSPACE_ID) {
+      deleted.voice_cache = await this.purgeVoiceCache(voiceCacheCutoff);
+    }
+
+    const result: RetentionPurgeResult = { workspaceId, ranAt: now.toISOString(), deleted };
+    await this.storage.writeJson(LAST_RUN_FILE, result);
+
+    await this.auditLogService.log({
+      sessionId: 'system',
+      timestamp: result.ranAt,
+      eventType: 'classification', // Using classification type for system events
+      userId: triggeredBy,
+      data: {
+        action: 'retention_purge',
+        retentionDays: policy.retentionDays,
+        deleted
+      },
+      piiScrubbed: false,
+      metadata: {}
+    });
+
+    return result;
+  }
+
+  /**
+   * Purge every workspace, as the scheduled job does. A failing workspace
+   * does not stop the others.
+   */
+  async purgeAllWorkspaces(): Promise<RetentionPurgeResult[]> {
+    const results: RetentionPurgeResult[] = [];
+    for (const workspace of await this.workspaceService.listWorkspaces()) {
+      try {
+        results.push(await runInWorkspace(workspace.workspaceId, () => this.purge()));
+      } catch (error) {
+        console.error(`[Retention] Failed to purge workspace ${workspace.workspaceId}:`, error);
+      }
+    }
+    return results;
+  }
+
+  private async purgeSessions(cutoff: Date): Promise<number> {
+    let deleted = 0;
+    for (const sessionId of await this.sessionStorage.listSessions()) {
+      try {
+        const session = await this.sessionStorage.loadSession(sessionId);
+        if (session && new Date(session.updatedAt).getTime() < cutoff.getTime()) {
+          await this.sessionStorage.deleteSession(sessionId);
+          deleted++;
+        }
+      } catch (error) {
+        console.error(`[Retention] Failed to purge session ${sessionId}:`, error);
+      }
+    }
+    return deleted;
+  }
+
+  private async purgeVoiceCache(cutoff: Date): Promise<number> {
+    const cacheDir = path.join(this.dataDir, 'audio', 'cache');
+    let files: string[];
+    try {
+      files = await fs.readdir(cacheDir);
+    } catch (error) {
+      return 0;
+    }
+
+    let deleted = 0;
+    for (const file of files) {
+      const filePath = path.join(cacheDir, file);
+      const stats = await fs.stat(filePath);
+      if (stats.mtimeMs < cutoff.getTime()) {
+        await fs.unlink(filePath);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+}
+
+/**
+ * Run the retention purge of all workspaces now and every intervalHours; 0 turns
+ * it off. The timer does not keep the process alive.
+ */
+export function scheduleRetentionPurge(
+  retentionService: RetentionService,
+  intervalHours: number
+): NodeJS.Timeout | null {
+  if (!(intervalHours > 0)) {
+    return null;
+  }
+
+  const run = () => {
+    retentionService.purgeAllWorkspaces()
+      .then(results => {
+        const total = results.reduce(
+          (sum, result) => sum + Object.values(result.deleted).reduce((a, b) => a + b, 0),
+          0
+        );
+        console.log(`[Retention] Purged ${total} items across ${results.length} workspaces`);
+      })
+      .catch(error => console.error('[Retention] Scheduled purge failed:', error));
+  };
+
+  run();
+  const timer = setInterval(run, intervalHours * 60 * 60 * 1000);
+  timer.unref();
+  return timer;
+}
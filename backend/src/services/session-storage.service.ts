@@ -1,17 +1,34 @@
 import { randomUUID } from 'crypto';
-import { JsonStorageService } from './storage.service';
+import { StorageBackend } from './storage.service';
 import { Session, SessionSchema, Conversation } from '../types';
+import { getCurrentUser, getCurrentWorkspaceId } from './workspace-context';
+
+// Caches of all instances, so a session changed through one instance is not served stale by another
+const sessionCaches = new Set<Map<string, Session>>();
 
 /**
  * Session storage service with ID generation and error handling
  */
 export class SessionStorageService {
-  private jsonStorage: JsonStorageService;
+  private jsonStorage: StorageBackend;
   private sessionCache: Map<string, Session>;
 
-  constructor(jsonStorage: JsonStorageService) {
+  constructor(jsonStorage: StorageBackend) {
     this.jsonStorage = jsonStorage;
     this.sessionCache = new Map();
+    sessionCaches.add(this.sessionCache);
+  }
+
+  /**
+   * Cache key of a session; the same service serves every workspace
+   */
+  private cacheKey(sessionId: string): string {
+    return `${getCurrentWorkspaceId()}/${sessionId}`;
+  }
+
+  private evictEverywhere(sessionId: string): void {
+    const key = this.cacheKey(sessionId);
+    sessionCaches.forEach(cache => cache.delete(key));
   }
 
   /**
@@ -42,6 +59,7 @@ export class SessionStorageService {
       updatedAt: now,
       status: 'active',
       modelUsed,
+      userId: getCurrentUser()?.userId,
       conversations: []
     };
 
@@ -50,22 +68,26 @@ export class SessionStorageService {
   }
 
   /**
-   * Save a session to storage
+   * Save a session to storage. Changes that are not the user's, such as
+   * erasing personal data, can leave updatedAt as it was.
    */
-  async saveSession(session: Session): Promise<void> {
+  async saveSession(session: Session, touch: boolean = true): Promise<void> {
     try {
       // Validate session data
       SessionSchema.parse(session);
 
       // Update timestamp
-      session.updatedAt = new Date().toISOString();
+      if (touch) {
+        session.updatedAt = new Date().toISOString();
+      }
 
       // Save to file
       const relativePath = `sessions/${session.sessionId}.json`;
       await this.jsonStorage.writeJson(relativePath, session);
 
       // Update cache
-      this.sessionCache.set(session.sessionId, session);
+      this.evictEverywhere(session.sessionId);
+      this.sessionCache.set(this.cacheKey(session.sessionId), session);
     } catch (error) {
       console.error('Failed to save session:', error);
       throw new Error(`Failed to save session ${session.sessionId}: ${error}`);
@@ -77,8 +99,8 @@ export class SessionStorageService {
    */
   async loadSession(sessionId: string): Promise<Session | null> {
     // Check cache first
-    if (this.sessionCache.has(sessionId)) {
-      return this.sessionCache.get(sessionId)!;
+    if (this.sessionCache.has(this.cacheKey(sessionId))) {
+      return this.sessionCache.get(this.cacheKey(sessionId))!;
     }
 
     const relativePath = `sessions/${sessionId}.json`;
@@ -95,7 +117,7 @@ export class SessionStorageService {
       const session = SessionSchema.parse(sessionData);
 
       // Cache the session
-      this.sessionCache.set(sessionId, session);
+      this.sessionCache.set(this.cacheKey(sessionId), session);
 
       return session;
     } catch (error: any) {
@@ -140,7 +162,7 @@ export class SessionStorageService {
 
     try {
       await this.jsonStorage.delete(relativePath);
-      this.sessionCache.delete(sessionId);
+      this.evictEverywhere(sessionId);
     } catch (error) {
       console.error('Failed to delete session:', error);
       throw new Error(`Failed to delete session ${sessionId}: ${error}`);
@@ -195,7 +217,7 @@ export class SessionStorageService {
    * Check if a session exists
    */
   async sessionExists(sessionId: string): Promise<boolean> {
-    if (this.sessionCache.has(sessionId)) {
+    if (this.sessionCache.has(this.cacheKey(sessionId))) {
       return true;
     }
 
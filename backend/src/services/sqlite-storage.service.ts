@@ -0,0 +1,446 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AuditLogEntry, FilteredMetrics, FilterOptions, Session, SessionFilters, TransformationCategory } from '../types';
+import type { AuditLogBackend, SessionQueryBackend, StorageBackend, StorageOptions } from './storage.service';
+import { DEFAULT_WORKSPACE_ID, getCurrentWorkspaceId, parseWorkspacePath, workspacePath } from './workspace-context';
+
+const SESSION_PATH = /^sessions\/([^/]+)\.json$/;
+
+// Separates the searchable fields so a search cannot match across two of them
+const SEARCH_SEPARATOR = '\u001f';
+
+/**
+ * SQLite storage backend.
+ *
+ * Every document the file backend would write (sessions, matrices, prompts,
+ * users, PII mappings, ...) is stored in the documents table under the same
+ * relative path. Sessions are additionally indexed into columns so analytics
+ * filtering and pagination run as SQL, and audit log entries get their own
+ * table instead of daily JSONL files. Both tables carry the workspace the
+ * row belongs to.
+ */
+export class SqliteStorageService implements StorageBackend, SessionQueryBackend, AuditLogBackend {
+  private db: Database.Database;
+  private workspaceScoped: boolean;
+
+  constructor(dbPath: string, options: StorageOptions = {}) {
+    if (dbPath !== ':memory:') {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.pragma('foreign_keys = ON');
+    this.workspaceScoped = options.workspaceScoped !== false;
+    this.createSchema();
+  }
+
+  private createSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS documents (
+        path TEXT PRIMARY KEY,
+        dir TEXT NOT NULL,
+        name TEXT NOT NULL,
+        content TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_documents_dir ON documents(dir);
+
+      CREATE TABLE IF NOT EXISTS sessions (
+        session_id TEXT PRIMARY KEY,
+        path TEXT NOT NULL REFERENCES documents(path) ON DELETE CASCADE,
+        workspace_id TEXT NOT NULL DEFAULT 'default',
+        created_at_ms INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        category TEXT,
+        confidence REAL,
+        subject TEXT,
+        model_used TEXT NOT NULL,
+        feedback_confirmed INTEGER,
+        search_text TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_sessions_created ON sessions(created_at_ms);
+      CREATE INDEX IF NOT EXISTS idx_sessions_category ON sessions(category);
+      CREATE INDEX IF NOT EXISTS idx_sessions_subject ON sessions(subject);
+
+      CREATE TABLE IF NOT EXISTS audit_logs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        workspace_id TEXT NOT NULL DEFAULT 'default',
+        timestamp TEXT NOT NULL,
+        log_date TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        entry TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_audit_logs_date ON audit_logs(log_date);
+      CREATE INDEX IF NOT EXISTS idx_audit_logs_session ON audit_logs(session_id);
+    `);
+
+    // Databases created before workspaces existed lack the workspace columns
+    for (const table of ['sessions', 'audit_logs']) {
+      const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+      if (!columns.some(column => column.name === 'workspace_id')) {
+        this.db.exec(`ALTER TABLE ${table} ADD COLUMN workspace_id TEXT NOT NULL DEFAULT '${DEFAULT_WORKSPACE_ID}'`);
+      }
+    }
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_sessions_workspace ON sessions(workspace_id);
+      CREATE INDEX IF NOT EXISTS idx_audit_logs_workspace ON audit_logs(workspace_id, log_date);
+    `);
+  }
+
+  /**
+   * Workspace that session queries and audit logs are scoped to
+   */
+  private currentWorkspace(): string {
+    return this.workspaceScoped ? getCurrentWorkspaceId() : DEFAULT_WORKSPACE_ID;
+  }
+
+  /**
+   * Normalise a relative path to the key used in the documents table,
+   * inside the current workspace when scoped
+   */
+  private toKey(relativePath: string): string {
+    const scopedPath = this.workspaceScoped ? workspacePath(relativePath) : relativePath;
+    const normalized = path.posix.normalize(scopedPath.replace(/\\/g, '/'));
+    return normalized.replace(/^(\.\/|\/)+/, '').replace(/\/+$/, '');
+  }
+
+  /**
+   * Read plain text document
+   */
+  async readFile(relativePath: string): Promise<string> {
+    const key = this.toKey(relativePath);
+    const row = this.db.prepare('SELECT content FROM documents WHERE path = ?').get(key) as
+      | { content: string }
+      | undefined;
+
+    if (!row) {
+      // Same shape as the fs error so callers can keep checking error.code
+      throw Object.assign(new Error(`ENOENT: no such document, open '${key}'`), { code: 'ENOENT' });
+    }
+    return row.content;
+  }
+
+  /**
+   * Read JSON document with type safety
+   */
+  async readJson<T>(relativePath: string): Promise<T> {
+    return JSON.parse(await this.readFile(relativePath)) as T;
+  }
+
+  /**
+   * Write plain text document; session documents also update the session index
+   */
+  async writeFile(relativePath: string, content: string): Promise<void> {
+    const key = this.toKey(relativePath);
+    const { workspaceId, relativePath: workspaceRelativePath } = parseWorkspacePath(key);
+    const sessionMatch = workspaceRelativePath.match(SESSION_PATH);
+
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO documents (path, dir, name, content, updated_at) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(path) DO UPDATE SET content = excluded.content, updated_at = excluded.updated_at
+      `).run(key, path.posix.dirname(key), path.posix.basename(key), content, new Date().toISOString());
+
+      if (sessionMatch) {
+        this.indexSession(sessionMatch[1], workspaceId, key, content);
+      }
+    })();
+  }
+
+  /**
+   * Write JSON document
+   */
+  async writeJson<T>(relativePath: string, data: T): Promise<void> {
+    await this.writeFile(relativePath, JSON.stringify(data, null, 2));
+  }
+
+  /**
+   * Check if document exists
+   */
+  async exists(relativePath: string): Promise<boolean> {
+    return !!this.db.prepare('SELECT 1 FROM documents WHERE path = ?').get(this.toKey(relativePath));
+  }
+
+  /**
+   * Delete document (the session index row is removed by cascade)
+   */
+  async delete(relativePath: string): Promise<void> {
+    this.db.prepare('DELETE FROM documents WHERE path = ?').run(this.toKey(relativePath));
+  }
+
+  /**
+   * List documents in a directory
+   */
+  async listFiles(relativePath: string): Promise<string[]> {
+    const rows = this.db.prepare('SELECT name FROM documents WHERE dir = ? ORDER BY name').all(
+      this.toKey(relativePath) || '.'
+    ) as Array<{ name: string }>;
+    return rows.map(row => row.name);
+  }
+
+  private indexSession(sessionId: string, workspaceId: string, key: string, content: string): void {
+    let session: Session;
+    try {
+      session = JSON.parse(content) as Session;
+    } catch {
+      // Unparseable sessions stay readable as documents but are not queryable
+      this.db.prepare('DELETE FROM sessions WHERE session_id = ?').run(sessionId);
+      return;
+    }
+
+    const searchText = [
+      ...(session.conversations || []).map(conv => conv.processDescription),
+      session.classification?.rationale,
+      session.userRating?.comments
+    ]
+      .filter((value): value is string => typeof value === 'string')
+      .join(SEARCH_SEPARATOR)
+      .toLowerCase();
+
+    const feedbackConfirmed = session.feedback ? (session.feedback.confirmed ? 1 : 0) : null;
+
+    this.db.prepare(`
+      INSERT INTO sessions (
+        session_id, path, workspace_id, created_at_ms, status, category, confidence, subject,
+        model_used, feedback_confirmed, search_text
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(session_id) DO UPDATE SET
+        path = excluded.path,
+        workspace_id = excluded.workspace_id,
+        created_at_ms = excluded.created_at_ms,
+        status = excluded.status,
+        category = excluded.category,
+        confidence = excluded.confidence,
+        subject = excluded.subject,
+        model_used = excluded.model_used,
+        feedback_confirmed = excluded.feedback_confirmed,
+        search_text = excluded.search_text
+    `).run(
+      sessionId,
+      key,
+      workspaceId,
+      Date.parse(session.createdAt) || 0,
+      session.status,
+      session.classification?.category ?? null,
+      session.classification?.confidence ?? null,
+      session.subject ?? null,
+      session.modelUsed,
+      feedbackConfirmed,
+      searchText
+    );
+  }
+
+  /**
+   * Translate session filters into a WHERE clause over the current
+   * workspace's sessions. Mirrors AnalyticsService.applyFilters.
+   */
+  private buildSessionWhere(filters: SessionFilters): { where: string; params: Array<string | number> } {
+    const clauses: string[] = ['s.workspace_id = ?'];
+    const params: Array<string | number> = [this.currentWorkspace()];
+
+    if (filters.dateFrom) {
+      clauses.push('s.created_at_ms >= ?');
+      params.push(Date.parse(filters.dateFrom));
+    }
+    if (filters.dateTo) {
+      clauses.push('s.created_at_ms <= ?');
+      params.push(Date.parse(filters.dateTo));
+    }
+    if (filters.category) {
+      clauses.push('s.category = ?');
+      params.push(filters.category);
+    }
+    if (filters.subject) {
+      clauses.push('s.subject = ?');
+      params.push(filters.subject);
+    }
+    if (filters.model) {
+      clauses.push('s.model_used = ?');
+      params.push(filters.model);
+    }
+    if (filters.status) {
+      clauses.push('s.status = ?');
+      params.push(filters.status);
+    }
+    if (filters.searchText && filters.searchText.trim().length > 0) {
+      clauses.push('instr(s.search_text, ?) > 0');
+      params.push(filters.searchText.toLowerCase());
+    }
+
+    return {
+      where: `WHERE ${clauses.join(' AND ')}`,
+      params
+    };
+  }
+
+  /**
+   * Filtered sessions, most recent first
+   */
+  async querySessions(
+    filters: SessionFilters,
+    page: { limit: number; offset: number }
+  ): Promise<{ sessions: Session[]; total: number }> {
+    const { where, params } = this.buildSessionWhere(filters);
+
+    const { total } = this.db.prepare(`SELECT COUNT(*) AS total FROM sessions s ${where}`).get(...params) as {
+      total: number;
+    };
+
+    const rows = this.db.prepare(`
+      SELECT d.content FROM sessions s
+      JOIN documents d ON d.path = s.path
+      ${where}
+      ORDER BY s.created_at_ms DESC, s.session_id DESC
+      LIMIT ? OFFSET ?
+    `).all(...params, page.limit, page.offset) as Array<{ content: string }>;
+
+    return {
+      sessions: rows.map(row => JSON.parse(row.content) as Session),
+      total
+    };
+  }
+
+  /**
+   * Aggregate metrics over filtered sessions.
+   * Mirrors AnalyticsService.calculateFilteredMetrics.
+   */
+  async summarizeSessions(filters: SessionFilters): Promise<FilteredMetrics> {
+    const { where, params } = this.buildSessionWhere(filters);
+
+    const totals = this.db.prepare(`
+      SELECT
+        COUNT(*) AS totalCount,
+        AVG(CASE WHEN s.category IS NOT NULL THEN s.confidence END) AS averageConfidence,
+        SUM(CASE WHEN s.category IS NOT NULL AND s.feedback_confirmed IS NOT NULL THEN 1 ELSE 0 END) AS withFeedback,
+        SUM(CASE WHEN s.category IS NOT NULL AND s.feedback_confirmed = 1 THEN 1 ELSE 0 END) AS confirmed
+      FROM sessions s ${where}
+    `).get(...params) as {
+      totalCount: number;
+      averageConfidence: number | null;
+      withFeedback: number | null;
+      confirmed: number | null;
+    };
+
+    const categoryRows = this.db.prepare(
+      `SELECT s.category AS category, COUNT(*) AS count FROM sessions s ${where} AND s.category IS NOT NULL GROUP BY s.category`
+    ).all(...params) as Array<{ category: string; count: number }>;
+
+    const categoryDistribution: { [category: string]: number } = {};
+    for (const row of categoryRows) {
+      categoryDistribution[row.category] = row.count;
+    }
+
+    const withFeedback = totals.withFeedback || 0;
+    return {
+      totalCount: totals.totalCount,
+      averageConfidence: totals.averageConfidence ?? 0,
+      agreementRate: withFeedback > 0 ? (totals.confirmed || 0) / withFeedback : 1.0,
+      categoryDistribution
+    };
+  }
+
+  /**
+   * Distinct values for the analytics filter dropdowns
+   */
+  async getSessionFilterOptions(): Promise<FilterOptions> {
+    const workspaceId = this.currentWorkspace();
+    const distinct = (column: string): string[] =>
+      (this.db.prepare(
+        `SELECT DISTINCT ${column} AS value FROM sessions
+         WHERE workspace_id = ? AND ${column} IS NOT NULL AND ${column} != '' ORDER BY ${column}`
+      ).all(workspaceId) as Array<{ value: string }>).map(row => row.value);
+
+    return {
+      subjects: distinct('subject'),
+      models: distinct('model_used'),
+      categories: distinct('category') as TransformationCategory[],
+      statuses: distinct('status')
+    };
+  }
+
+  /**
+   * Append an audit log entry; the entry's timestamp decides its date
+   */
+  async appendAuditLog(entry: AuditLogEntry): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO audit_logs (workspace_id, timestamp, log_date, session_id, event_type, user_id, entry)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      this.currentWorkspace(),
+      entry.timestamp,
+      entry.timestamp.split('T')[0],
+      entry.sessionId,
+      entry.eventType,
+      entry.userId,
+      JSON.stringify(entry)
+    );
+  }
+
+  /**
+   * Audit log entries for a YYYY-MM-DD date, in the order they were written
+   */
+  async getAuditLogsByDate(date: string): Promise<AuditLogEntry[]> {
+    const rows = this.db.prepare(
+      'SELECT entry FROM audit_logs WHERE workspace_id = ? AND log_date = ? ORDER BY id'
+    ).all(this.currentWorkspace(), date) as Array<{ entry: string }>;
+    return rows.map(row => JSON.parse(row.entry) as AuditLogEntry);
+  }
+
+  /**
+   * Audit log entries for a session across all dates, oldest first
+   */
+  async getAuditLogsBySession(sessionId: string): Promise<AuditLogEntry[]> {
+    const rows = this.db.prepare(
+      'SELECT entry FROM audit_logs WHERE workspace_id = ? AND session_id = ? ORDER BY timestamp, id'
+    ).all(this.currentWorkspace(), sessionId) as Array<{ entry: string }>;
+    return rows.map(row => JSON.parse(row.entry) as AuditLogEntry);
+  }
+
+  /**
+   * Dates that have audit log entries, most recent first
+   */
+  async listAuditLogDates(): Promise<string[]> {
+    const rows = this.db.prepare(
+      'SELECT DISTINCT log_date FROM audit_logs WHERE workspace_id = ? ORDER BY log_date DESC'
+    ).all(this.currentWorkspace()) as Array<{ log_date: string }>;
+    return rows.map(row => row.log_date);
+  }
+
+  /**
+   * Delete audit log entries of dates before a YYYY-MM-DD date; returns how many were deleted
+   */
+  async deleteAuditLogsBefore(date: string): Promise<number> {
+    return this.db.prepare(
+      'DELETE FROM audit_logs WHERE workspace_id = ? AND log_date < ?'
+    ).run(this.currentWorkspace(), date).changes;
+  }
+
+  /**
+   * Replace the audit log entries of a YYYY-MM-DD date, e.g. after anonymising them
+   */
+  async replaceAuditLogsByDate(date: string, entries: AuditLogEntry[]): Promise<void> {
+    const workspaceId = this.currentWorkspace();
+
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM audit_logs WHERE workspace_id = ? AND log_date = ?').run(workspaceId, date);
+      const insert = this.db.prepare(`
+        INSERT INTO audit_logs (workspace_id, timestamp, log_date, session_id, event_type, user_id, entry)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `);
+      for (const entry of entries) {
+        insert.run(workspaceId, entry.timestamp, date, entry.sessionId, entry.eventType, entry.userId, JSON.stringify(entry));
+      }
+    })();
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+}
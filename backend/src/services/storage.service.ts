@@ -1,19 +1,129 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { DecisionMatrix, DecisionMatrixSchema } from '../types';
+import { AuditLogEntry, DecisionMatrix, DecisionMatrixSchema, FilteredMetrics, FilterOptions, Session, SessionFilters } from '../types';
+import { SqliteStorageService } from './sqlite-storage.service';
+import { workspacePath } from './workspace-context';
+
+/**
+ * Document storage shared by every service that persists data.
+ * Paths are relative to the data directory, e.g. "sessions/<id>.json";
+ * listFiles returns the document names directly inside a directory.
+ */
+export interface StorageBackend {
+  readFile(relativePath: string): Promise<string>;
+  readJson<T>(relativePath: string): Promise<T>;
+  writeFile(relativePath: string, content: string): Promise<void>;
+  writeJson<T>(relativePath: string, data: T): Promise<void>;
+  exists(relativePath: string): Promise<boolean>;
+  delete(relativePath: string): Promise<void>;
+  listFiles(relativePath: string): Promise<string[]>;
+}
+
+/**
+ * Optional capability: backends that index sessions can filter, sort,
+ * paginate and aggregate them without loading every session
+ */
+export interface SessionQueryBackend {
+  querySessions(
+    filters: SessionFilters,
+    page: { limit: number; offset: number }
+  ): Promise<{ sessions: Session[]; total: number }>;
+  summarizeSessions(filters: SessionFilters): Promise<FilteredMetrics>;
+  getSessionFilterOptions(): Promise<FilterOptions>;
+}
+
+/**
+ * Optional capability: backends that store audit log entries themselves
+ * instead of the JSONL files under audit-logs/
+ */
+export interface AuditLogBackend {
+  appendAuditLog(entry: AuditLogEntry): Promise<void>;
+  getAuditLogsByDate(date: string): Promise<AuditLogEntry[]>;
+  getAuditLogsBySession(sessionId: string): Promise<AuditLogEntry[]>;
+  listAuditLogDates(): Promise<string[]>;
+  deleteAuditLogsBefore(date: string): Promise<number>;
+  replaceAuditLogsByDate(date: string, entries: AuditLogEntry[]): Promise<void>;
+}
+
+export const supportsSessionQueries = (
+  storage: StorageBackend
+): storage is StorageBackend & SessionQueryBackend =>
+  typeof (storage as Partial<SessionQueryBackend>).querySessions === 'function';
+
+export const supportsAuditLogs = (
+  storage: StorageBackend
+): storage is StorageBackend & AuditLogBackend =>
+  typeof (storage as Partial<AuditLogBackend>).appendAuditLog === 'function';
+
+export type StorageBackendType = 'file' | 'sqlite';
+
+export interface StorageOptions {
+  /**
+   * Resolve paths inside the current request's workspace (default true).
+   * Users and the workspace list are global and turn this off.
+   */
+  workspaceScoped?: boolean;
+}
+
+/**
+ * Storage backend selected by STORAGE_BACKEND (default: file)
+ */
+export function getStorageBackendType(): StorageBackendType {
+  return process.env.STORAGE_BACKEND === 'sqlite' ? 'sqlite' : 'file';
+}
+
+/**
+ * Path of the SQLite database for a data directory (SQLITE_PATH overrides it)
+ */
+export function getSqlitePath(dataDir: string): string {
+  return process.env.SQLITE_PATH || path.join(dataDir, 'catalai.db');
+}
+
+// One connection per database file and scope, shared by all services
+const sqliteInstances = new Map<string, SqliteStorageService>();
+
+/**
+ * Create the configured storage backend for a data directory
+ */
+export function createStorage(
+  dataDir: string = process.env.DATA_DIR || '/data',
+  options: StorageOptions = {}
+): StorageBackend {
+  if (getStorageBackendType() === 'file') {
+    return new JsonStorageService(dataDir, options);
+  }
+
+  const dbPath = path.resolve(getSqlitePath(dataDir));
+  const instanceKey = `${dbPath}|${options.workspaceScoped !== false}`;
+  let storage = sqliteInstances.get(instanceKey);
+  if (!storage) {
+    storage = new SqliteStorageService(dbPath, options);
+    sqliteInstances.set(instanceKey, storage);
+  }
+  return storage;
+}
 
 /**
  * Generic JSON storage service with file locking and versioning support
  */
-export class JsonStorageService {
+export class JsonStorageService implements StorageBackend {
   private dataDir: string;
+  private workspaceScoped: boolean;
   private locks: Map<string, Promise<void>>;
 
-  constructor(dataDir: string = process.env.DATA_DIR || '/data') {
+  constructor(dataDir: string = process.env.DATA_DIR || '/data', options: StorageOptions = {}) {
     this.dataDir = dataDir;
+    this.workspaceScoped = options.workspaceScoped !== false;
     this.locks = new Map();
   }
 
+  /**
+   * Absolute path of a document, inside the current workspace when scoped
+   */
+  private resolvePath(relativePath: string): string {
+    return path.join(this.dataDir, this.workspaceScoped ? workspacePath(relativePath) : relativePath);
+  }
+
   /**
    * Acquire a lock for a file path
    */
@@ -52,7 +162,7 @@ export class JsonStorageService {
    * Read plain text file
    */
   async readFile(relativePath: string): Promise<string> {
-    const filePath = path.join(this.dataDir, relativePath);
+    const filePath = this.resolvePath(relativePath);
     const release = await this.acquireLock(filePath);
 
     try {
@@ -66,7 +176,7 @@ export class JsonStorageService {
    * Read JSON file with type safety
    */
   async readJson<T>(relativePath: string): Promise<T> {
-    const filePath = path.join(this.dataDir, relativePath);
+    const filePath = this.resolvePath(relativePath);
     const release = await this.acquireLock(filePath);
 
     try {
@@ -81,7 +191,7 @@ export class JsonStorageService {
    * Write plain text file with atomic write (write to temp, then rename)
    */
   async writeFile(relativePath: string, content: string): Promise<void> {
-    const filePath = path.join(this.dataDir, relativePath);
+    const filePath = this.resolvePath(relativePath);
     const release = await this.acquireLock(filePath);
 
     try {
@@ -101,7 +211,7 @@ export class JsonStorageService {
    * Write JSON file with atomic write (write to temp, then rename)
    */
   async writeJson<T>(relativePath: string, data: T): Promise<void> {
-    const filePath = path.join(this.dataDir, relativePath);
+    const filePath = this.resolvePath(relativePath);
     const release = await this.acquireLock(filePath);
 
     try {
@@ -122,7 +232,7 @@ export class JsonStorageService {
    * Check if file exists
    */
   async exists(relativePath: string): Promise<boolean> {
-    const filePath = path.join(this.dataDir, relativePath);
+    const filePath = this.resolvePath(relativePath);
     try {
       await fs.access(filePath);
       return true;
@@ -135,7 +245,7 @@ export class JsonStorageService {
    * Delete file
    */
   async delete(relativePath: string): Promise<void> {
-    const filePath = path.join(this.dataDir, relativePath);
+    const filePath = this.resolvePath(relativePath);
     const release = await this.acquireLock(filePath);
 
     try {
@@ -153,7 +263,7 @@ export class JsonStorageService {
    * List files in directory
    */
   async listFiles(relativePath: string): Promise<string[]> {
-    const dirPath = path.join(this.dataDir, relativePath);
+    const dirPath = this.resolvePath(relativePath);
     
     try {
       const files = await fs.readdir(dirPath);
@@ -0,0 +1,154 @@
+import { z } from 'zod';
+import { ChatCompletionResponse, JsonSchema, StructuredOutputFormat } from './llm-provider.interface';
+
+/**
+ * A JSON response the LLM must produce, validated with a zod schema.
+ * The same schema is sent to providers that can enforce it natively.
+ */
+export interface StructuredOutput<T> {
+  name: string; // Letters, digits, _ and - only (used as the OpenAI schema and Bedrock tool name)
+  description: string;
+  schema: z.ZodType<T>;
+  // Lenient fixes applied before validation, e.g. key aliases or value casing
+  normalize?: (data: any) => unknown;
+}
+
+export type StructuredOutputResult<T> = { success: true; data: T } | { success: false; error: string };
+
+/**
+ * Chat response with the validated structured output
+ */
+export interface StructuredChatResponse<T> extends ChatCompletionResponse {
+  data: T;
+}
+
+/**
+ * Convert a zod schema to JSON Schema. Only the constructs used by
+ * structured outputs are supported; number ranges and string lengths are
+ * left to zod validation, as strict provider modes reject them.
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const described = (json: JsonSchema): JsonSchema =>
+    schema.description ? { ...json, description: schema.description } : json;
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable || schema instanceof z.ZodDefault) {
+    return described(toJsonSchema(schema._def.innerType));
+  }
+  if (schema instanceof z.ZodEffects) {
+    return described(toJsonSchema(schema.innerType()));
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape: Record<string, z.ZodTypeAny> = schema.shape;
+    const properties: Record<string, JsonSchema> = {};
+    for (const [key, value] of Object.entries(shape)) {
+      properties[key] = toJsonSchema(value);
+    }
+    return described({
+      type: 'object',
+      properties,
+      required: Object.keys(shape).filter(key => !shape[key].isOptional()),
+      additionalProperties: false
+    });
+  }
+  if (schema instanceof z.ZodArray) {
+    return described({ type: 'array', items: toJsonSchema(schema.element) });
+  }
+  if (schema instanceof z.ZodEnum) {
+    return described({ type: 'string', enum: schema.options });
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return described({ type: typeof schema.value, enum: [schema.value] });
+  }
+  if (schema instanceof z.ZodString) {
+    return described({ type: 'string' });
+  }
+  if (schema instanceof z.ZodNumber) {
+    return described({ type: schema.isInt ? 'integer' : 'number' });
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return described({ type: 'boolean' });
+  }
+  throw new Error(`Unsupported schema type for structured output: ${schema._def.typeName}`);
+}
+
+/**
+ * Provider-facing format of a structured output
+ */
+export function toStructuredOutputFormat(output: StructuredOutput<unknown>): StructuredOutputFormat {
+  return {
+    name: output.name,
+    description: output.description,
+    schema: toJsonSchema(output.schema)
+  };
+}
+
+/**
+ * Parse and validate an LLM response. Models without native structured
+ * output may wrap the JSON in prose or code fences, so the outermost
+ * object is extracted first.
+ */
+export function parseStructuredOutput<T>(content: string, output: StructuredOutput<T>): StructuredOutputResult<T> {
+  const jsonMatch = content.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    return { success: false, error: 'No JSON object found in response' };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch (error) {
+    return { success: false, error: `Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+
+  const result = output.schema.safeParse(output.normalize ? output.normalize(parsed) : parsed);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue =>
+      issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+    );
+    return { success: false, error: issues.join('; ') };
+  }
+  return { success: true, data: result.data };
+}
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+/**
+ * Value of a string property in JSON that is still being generated, as far
+ * as it has been written. Returns null until the property has started.
+ */
+export function extractPartialJsonString(json: string, key: string): string | null {
+  const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(json);
+  if (!match) {
+    return null;
+  }
+
+  let value = '';
+  for (let i = match.index + match[0].length; i < json.length; i++) {
+    const char = json[i];
+    if (char === '"') {
+      break;
+    }
+    if (char !== '\\') {
+      value += char;
+      continue;
+    }
+
+    // Stop at an escape sequence that hasn't been fully written yet
+    const escaped = json[i + 1];
+    if (escaped === undefined) {
+      break;
+    }
+    if (escaped === 'u') {
+      const hex = json.slice(i + 2, i + 6);
+      if (hex.length < 4) {
+        break;
+      }
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += JSON_ESCAPES[escaped] ?? escaped;
+      i++;
+    }
+  }
+  return value;
+}
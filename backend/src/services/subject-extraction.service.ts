@@ -1,4 +1,4 @@
-import { LLMService, ChatMessage } from './llm.service';
+import { LLMService, ChatMessage, LLMProviderType } from './llm.service';
 
 /**
  * Service for extracting business subject/area/domain from process descriptions
@@ -30,9 +30,10 @@ export class SubjectExtractionService {
   async extractSubject(
     processDescription: string,
     llmConfig?: {
-      provider: 'openai' | 'bedrock';
+      provider: LLMProviderType;
       model?: string;
       apiKey?: string;
+      baseUrl?: string;
       awsAccessKeyId?: string;
       awsSecretAccessKey?: string;
       awsSessionToken?: string;
@@ -111,9 +112,10 @@ export class SubjectExtractionService {
   private async extractSubjectWithLLM(
     processDescription: string,
     llmConfig: {
-      provider: 'openai' | 'bedrock';
+      provider: LLMProviderType;
       model?: string;
       apiKey?: string;
+      baseUrl?: string;
       awsAccessKeyId?: string;
       awsSecretAccessKey?: string;
       awsSessionToken?: string;
@@ -147,6 +149,7 @@ If the process spans multiple areas, choose the PRIMARY area.`
       provider: llmConfig.provider,
       model: llmConfig.model || 'gpt-4',
       apiKey: llmConfig.apiKey,
+      baseUrl: llmConfig.baseUrl,
       awsAccessKeyId: llmConfig.awsAccessKeyId,
       awsSecretAccessKey: llmConfig.awsSecretAccessKey,
       awsSessionToken: llmConfig.awsSessionToken,
@@ -156,7 +159,8 @@ If the process spans multiple areas, choose the PRIMARY area.`
     const response = await this.llmService.chat(
       messages,
       llmConfig.model || 'gpt-4',
-      config
+      config,
+      'subject-extraction'
     );
 
     // Clean up response
@@ -216,9 +220,10 @@ If the process spans multiple areas, choose the PRIMARY area.`
   async extractSubjects(
     descriptions: string[],
     llmConfig?: {
-      provider: 'openai' | 'bedrock';
+      provider: LLMProviderType;
       model?: string;
       apiKey?: string;
+      baseUrl?: string;
       awsAccessKeyId?: string;
       awsSecretAccessKey?: string;
       awsSessionToken?: string;
@@ -1,11 +1,11 @@
-import { JsonStorageService } from './storage.service';
+import { StorageBackend } from './storage.service';
 
 /**
  * Service for managing custom business subjects
  * Stores user-defined subjects alongside the predefined ones
  */
 export class SubjectsStorageService {
-  private jsonStorage: JsonStorageService;
+  private jsonStorage: StorageBackend;
   private readonly SUBJECTS_FILE = 'config/custom-subjects.json';
 
   // Predefined common subjects
@@ -47,7 +47,7 @@ export class SubjectsStorageService {
     'General Management'
   ];
 
-  constructor(jsonStorage: JsonStorageService) {
+  constructor(jsonStorage: StorageBackend) {
     this.jsonStorage = jsonStorage;
   }
 
@@ -1,13 +1,23 @@
 import * as crypto from 'crypto';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
-import { JsonStorageService } from './storage.service';
+import QRCode from 'qrcode';
+import { createStorage, StorageBackend } from './storage.service';
+import { DEFAULT_WORKSPACE_ID, runInWorkspace } from './workspace-context';
+import { getRolePermissions, hasPermission } from './permissions';
+import { AuthSession, AuthSessionService } from './auth-session.service';
+import { OidcIdentity } from './oidc.service';
+import { AuditLogService } from './audit-log.service';
+import { getPasswordPolicyViolations, loadPasswordPolicy } from './password-policy';
+import { buildOtpauthUrl, generateTotpSecret, verifyTotp } from './totp';
+import { KeyRing } from './encryption-keys';
+import { AuditLogEntry, Permission, UserRole } from '../types';
 
 export interface User {
   userId: string;
   username: string;
   passwordHash: string;
-  role: 'admin' | 'user';
+  role: UserRole;
   createdAt: string;
   lastLogin?: string;
   apiKey?: string; // For storing user's OpenAI/Bedrock credentials
@@ -17,6 +27,105 @@ export interface User {
   awsRegion?: string;
   preferredProvider?: 'openai' | 'bedrock';
   preferredModel?: string;
+  workspaceIds?: string[]; // Workspaces the user belongs to; absent means the default workspace only
+  activeWorkspaceId?: string; // Workspace selected at the last login or switch
+  authProvider?: 'local' | 'oidc'; // Absent means local
+  oidcIssuer?: string;
+  oidcSubject?: string; // ID token "sub" of SSO users
+  failedLoginAttempts?: number; // Consecutive failed password logins
+  lockedUntil?: string;
+  twoFactor?: TwoFactorState;
+}
+
+/**
+ * TOTP enrolment of a user; secrets are stored encrypted
+ */
+export interface TwoFactorState {
+  enabled: boolean;
+  secret?: string;
+  pendingSecret?: string; // Generated by setup, becomes the secret once a code is confirmed
+  recoveryCodeHashes?: string[]; // SHA-256 of the unused recovery codes
+  lastUsedStep?: number; // Time step of the last accepted code, so a code can't be replayed
+  enabledAt?: string;
+}
+
+export type SafeUser = Omit<User, 'passwordHash' | 'twoFactor'> & {
+  permissions: Permission[];
+  twoFactorEnabled: boolean;
+};
+
+export interface AuthTokens {
+  token: string; // Short-lived access token
+  refreshToken: string;
+  user: SafeUser;
+  recoveryCodes?: string[]; // Only when 2FA was set up during this login
+}
+
+/**
+ * Returned by login instead of tokens when a second factor is needed
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  setupRequired: boolean; // The user must enrol before the login can complete
+  challengeToken: string;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+export interface TwoFactorStatus {
+  available: boolean; // SSO users get 2FA from their identity provider
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * Security settings editable by user managers
+ */
+export interface SecuritySettings {
+  requireTwoFactorForAdmins: boolean;
+}
+
+/**
+ * Where a login request came from, for the audit log
+ */
+export interface LoginClient {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export type LoginEventType = 'login_success' | 'login_failure' | 'account_locked';
+
+export const LOGIN_EVENT_TYPES: LoginEventType[] = ['login_success', 'login_failure', 'account_locked'];
+
+const DEFAULT_ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const DEFAULT_LOCKOUT_THRESHOLD = 5;
+const DEFAULT_LOCKOUT_MINUTES = 1;
+const DEFAULT_LOCKOUT_MAX_MINUTES = 60;
+const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60;
+const RECOVERY_CODE_COUNT = 10;
+
+// Credentials stored encrypted on the user record
+const ENCRYPTED_USER_FIELDS = ['apiKey', 'awsAccessKeyId', 'awsSecretAccessKey', 'awsSessionToken'] as const;
+
+/**
+ * Lockout after a number of consecutive failed logins: none below
+ * LOGIN_LOCKOUT_THRESHOLD, then LOGIN_LOCKOUT_MINUTES doubling with every
+ * further failure, up to LOGIN_LOCKOUT_MAX_MINUTES
+ */
+export function getLockoutMinutes(failedAttempts: number, env: NodeJS.ProcessEnv = process.env): number {
+  const threshold = parseInt(env.LOGIN_LOCKOUT_THRESHOLD || '', 10) || DEFAULT_LOCKOUT_THRESHOLD;
+  const baseMinutes = parseFloat(env.LOGIN_LOCKOUT_MINUTES || '') || DEFAULT_LOCKOUT_MINUTES;
+  const maxMinutes = parseFloat(env.LOGIN_LOCKOUT_MAX_MINUTES || '') || DEFAULT_LOCKOUT_MAX_MINUTES;
+
+  if (failedAttempts < threshold) {
+    return 0;
+  }
+  return Math.min(baseMinutes * 2 ** (failedAttempts - threshold), maxMinutes);
 }
 
 export interface UserCredentials {
@@ -34,16 +143,19 @@ export interface UserCredentials {
  * Handles user authentication, registration, and credential storage
  */
 export class UserService {
-  private storage: JsonStorageService;
-  private encryptionKey: Buffer;
-  private algorithm = 'aes-256-gcm';
+  private storage: StorageBackend;
+  private authSessions: AuthSessionService;
+  private auditLog: AuditLogService;
+  private keyRing: KeyRing;
 
   constructor(dataDir?: string) {
-    this.storage = new JsonStorageService(dataDir);
+    // Users are shared by all workspaces
+    this.storage = createStorage(dataDir, { workspaceScoped: false });
+    this.authSessions = new AuthSessionService(dataDir);
+    this.auditLog = new AuditLogService(dataDir);
     
-    // Use encryption key for storing API credentials
-    const keyString = process.env.CREDENTIALS_ENCRYPTION_KEY || process.env.JWT_SECRET || 'change-in-production';
-    this.encryptionKey = crypto.scryptSync(keyString, 'salt', 32);
+    // Keys for storing API credentials and 2FA secrets (CREDENTIALS_ENCRYPTION_KEYS)
+    this.keyRing = KeyRing.fromEnvironment('credentials');
   }
 
   /**
@@ -52,7 +164,7 @@ export class UserService {
   async createUser(
     username: string,
     password: string,
-    role: 'admin' | 'user' = 'user'
+    role: UserRole = 'user'
   ): Promise<User> {
     // Check if user already exists
     const existingUser = await this.getUserByUsername(username);
@@ -60,6 +172,8 @@ export class UserService {
       throw new Error('Username already exists');
     }
 
+    this.assertPasswordAllowed(password, username);
+
     // Hash password
     const passwordHash = await bcrypt.hash(password, 10);
 
@@ -78,53 +192,633 @@ export class UserService {
   }
 
   /**
-   * Authenticate user and generate JWT token
+   * Authenticate user and start a login session.
+   * Repeated failures lock the account for increasing periods.
    */
-  async login(username: string, password: string): Promise<{
-    token: string;
-    user: Omit<User, 'passwordHash'>;
-  }> {
+  async login(username: string, password: string, client: LoginClient = {}): Promise<AuthTokens | TwoFactorChallenge> {
     const user = await this.getUserByUsername(username);
     
-    if (!user) {
+    // SSO users have no local password
+    if (!user || user.authProvider === 'oidc') {
+      await this.recordLoginEvent('login_failure', user, username, client, {
+        reason: user ? 'sso_account' : 'unknown_user'
+      });
       throw new Error('Invalid username or password');
     }
 
+    if (user.lockedUntil && new Date(user.lockedUntil).getTime() > Date.now()) {
+      await this.recordLoginEvent('login_failure', user, username, client, {
+        reason: 'account_locked',
+        lockedUntil: user.lockedUntil
+      });
+      throw new Error('Account locked');
+    }
+
     const isValid = await bcrypt.compare(password, user.passwordHash);
     
     if (!isValid) {
+      await this.registerFailedLogin(user, client);
       throw new Error('Invalid username or password');
     }
 
-    // Update last login
+    // The failure counter is only reset once the second factor is also
+    // accepted, so wrong codes count towards the lockout
+    const setupRequired = !user.twoFactor?.enabled && await this.isTwoFactorRequired(user);
+    if (user.twoFactor?.enabled || setupRequired) {
+      return {
+        twoFactorRequired: true,
+        setupRequired,
+        challengeToken: this.generateChallengeToken(user)
+      };
+    }
+
+    user.failedLoginAttempts = 0;
+    delete user.lockedUntil;
+    return this.startSession(user, client, 'password');
+  }
+
+  /**
+   * Second login step: check a TOTP or recovery code for a login challenge.
+   * When the challenge required enrolment, the code confirms the new secret
+   * and the response includes the user's recovery codes.
+   */
+  async completeTwoFactorLogin(challengeToken: string, code: string, client: LoginClient = {}): Promise<AuthTokens> {
+    const user = await this.getChallengeUser(challengeToken);
+
+    if (user.lockedUntil && new Date(user.lockedUntil).getTime() > Date.now()) {
+      await this.recordLoginEvent('login_failure', user, user.username, client, {
+        reason: 'account_locked',
+        lockedUntil: user.lockedUntil
+      });
+      throw new Error('Account locked');
+    }
+
+    let recoveryCodes: string[] | undefined;
+    let method: 'totp' | 'recovery_code' | null;
+    if (user.twoFactor?.enabled) {
+      method = this.acceptSecondFactor(user.twoFactor, code);
+    } else {
+      if (!user.twoFactor?.pendingSecret) {
+        throw new Error('Two-factor setup has not been started');
+      }
+      recoveryCodes = this.activateTwoFactor(user.twoFactor, code) ?? undefined;
+      method = recoveryCodes ? 'totp' : null;
+    }
+
+    if (!method) {
+      await this.registerFailedLogin(user, client, 'invalid_2fa_code');
+      throw new Error('Invalid two-factor code');
+    }
+
+    user.failedLoginAttempts = 0;
+    delete user.lockedUntil;
+    const tokens = await this.startSession(user, client, 'password', { twoFactor: method });
+    return recoveryCodes ? { ...tokens, recoveryCodes } : tokens;
+  }
+
+  /**
+   * Start enrolment for a login challenge that requires it
+   */
+  async beginChallengeTwoFactorSetup(challengeToken: string): Promise<TwoFactorSetup> {
+    const user = await this.getChallengeUser(challengeToken);
+    return this.beginTwoFactorSetup(user.userId);
+  }
+
+  /**
+   * Generate a new TOTP secret for a user; it takes effect once a code
+   * generated from it is confirmed
+   */
+  async beginTwoFactorSetup(userId: string): Promise<TwoFactorSetup> {
+    const user = await this.getUserById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (user.authProvider === 'oidc') {
+      throw new Error('Two-factor authentication for SSO users is managed by the identity provider');
+    }
+    if (user.twoFactor?.enabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    user.twoFactor = { enabled: false, pendingSecret: this.encrypt(secret) };
+    await this.storage.writeJson(`users/${userId}.json`, user);
+
+    const otpauthUrl = buildOtpauthUrl(secret, user.username, process.env.TWO_FACTOR_ISSUER || 'CatalAIst');
+    return {
+      secret,
+      otpauthUrl,
+      qrCodeDataUrl: await QRCode.toDataURL(otpauthUrl)
+    };
+  }
+
+  /**
+   * Confirm enrolment with a code from the authenticator app
+   * @returns The user's recovery codes; they are not shown again
+   */
+  async enableTwoFactor(userId: string, code: string): Promise<string[]> {
+    const user = await this.getUserById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (user.twoFactor?.enabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+    if (!user.twoFactor?.pendingSecret) {
+      throw new Error('Two-factor setup has not been started');
+    }
+
+    const recoveryCodes = this.activateTwoFactor(user.twoFactor, code);
+    if (!recoveryCodes) {
+      throw new Error('Invalid two-factor code');
+    }
+    await this.storage.writeJson(`users/${userId}.json`, user);
+    return recoveryCodes;
+  }
+
+  /**
+   * Turn off 2FA; needs the password and a current code or recovery code
+   */
+  async disableTwoFactor(userId: string, password: string, code: string): Promise<void> {
+    const user = await this.getUserById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (!user.twoFactor?.enabled) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+    if (await this.isTwoFactorRequired(user)) {
+      throw new Error('Two-factor authentication is required for your role');
+    }
+    if (!await bcrypt.compare(password, user.passwordHash)) {
+      throw new Error('Invalid current password');
+    }
+    if (!this.acceptSecondFactor(user.twoFactor, code)) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    delete user.twoFactor;
+    await this.storage.writeJson(`users/${userId}.json`, user);
+  }
+
+  /**
+   * Replace the recovery codes; needs a current code from the authenticator app
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    const user = await this.getUserById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (!user.twoFactor?.enabled || !user.twoFactor.secret) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    const step = verifyTotp(this.decrypt(user.twoFactor.secret), code);
+    if (step === null || step <= (user.twoFactor.lastUsedStep ?? -1)) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    user.twoFactor.lastUsedStep = step;
+    const recoveryCodes = this.generateRecoveryCodes(user.twoFactor);
+    await this.storage.writeJson(`users/${userId}.json`, user);
+    return recoveryCodes;
+  }
+
+  /**
+   * Remove a user's 2FA, e.g. after a lost phone (admin only). If 2FA is
+   * required for their role they enrol again at the next login.
+   */
+  async resetTwoFactor(userId: string): Promise<void> {
+    const user = await this.getUserById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    delete user.twoFactor;
+    await this.storage.writeJson(`users/${userId}.json`, user);
+  }
+
+  async getTwoFactorStatus(userId: string): Promise<TwoFactorStatus> {
+    const user = await this.getUserById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return {
+      available: user.authProvider !== 'oidc',
+      enabled: !!user.twoFactor?.enabled,
+      required: await this.isTwoFactorRequired(user),
+      recoveryCodesRemaining: user.twoFactor?.recoveryCodeHashes?.length ?? 0
+    };
+  }
+
+  /**
+   * Security settings; defaults come from the environment until first saved
+   */
+  async getSecuritySettings(): Promise<SecuritySettings> {
+    try {
+      return await this.storage.readJson<SecuritySettings>('users/security-settings.json');
+    } catch (error) {
+      return { requireTwoFactorForAdmins: process.env.REQUIRE_2FA_FOR_ADMINS === 'true' };
+    }
+  }
+
+  async updateSecuritySettings(settings: SecuritySettings): Promise<SecuritySettings> {
+    await this.storage.writeJson('users/security-settings.json', settings);
+    return settings;
+  }
+
+  /**
+   * Whether a user may not log in without 2FA
+   */
+  private async isTwoFactorRequired(user: User): Promise<boolean> {
+    if (user.authProvider === 'oidc' || user.role !== 'admin') {
+      return false;
+    }
+    return (await this.getSecuritySettings()).requireTwoFactorForAdmins;
+  }
+
+  /**
+   * Check a TOTP or recovery code against an enabled enrolment. Used
+   * recovery codes and TOTP steps are consumed; the caller saves the user.
+   */
+  private acceptSecondFactor(state: TwoFactorState, code: string): 'totp' | 'recovery_code' | null {
+    const step = state.secret ? verifyTotp(this.decrypt(state.secret), code) : null;
+    if (step !== null && step > (state.lastUsedStep ?? -1)) {
+      state.lastUsedStep = step;
+      return 'totp';
+    }
+
+    const hashes = state.recoveryCodeHashes || [];
+    const index = hashes.indexOf(this.hashRecoveryCode(code));
+    if (index >= 0) {
+      hashes.splice(index, 1);
+      return 'recovery_code';
+    }
+    return null;
+  }
+
+  /**
+   * Promote the pending secret if the code matches it
+   * @returns New recovery codes, or null when the code is wrong
+   */
+  private activateTwoFactor(state: TwoFactorState, code: string): string[] | null {
+    const step = verifyTotp(this.decrypt(state.pendingSecret!), code);
+    if (step === null) {
+      return null;
+    }
+
+    state.enabled = true;
+    state.secret = state.pendingSecret;
+    state.lastUsedStep = step;
+    state.enabledAt = new Date().toISOString();
+    delete state.pendingSecret;
+    return this.generateRecoveryCodes(state);
+  }
+
+  private generateRecoveryCodes(state: TwoFactorState): string[] {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const hex = crypto.randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+    state.recoveryCodeHashes = codes.map(code => this.hashRecoveryCode(code));
+    return codes;
+  }
+
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/[^0-9a-f]/g, '');
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+
+  /**
+   * Short-lived token proving the password step of a login succeeded
+   */
+  private generateChallengeToken(user: User): string {
+    const jwtSecret = process.env.JWT_SECRET;
+    if (!jwtSecret) {
+      throw new Error('JWT_SECRET not configured');
+    }
+
+    return jwt.sign(
+      { userId: user.userId, purpose: 'two_factor' },
+      jwtSecret,
+      { expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS }
+    );
+  }
+
+  private async getChallengeUser(challengeToken: string): Promise<User> {
+    let payload: jwt.JwtPayload | string;
+    try {
+      payload = jwt.verify(challengeToken, process.env.JWT_SECRET || '');
+    } catch (error) {
+      throw new Error('Invalid or expired login challenge');
+    }
+
+    const user = typeof payload === 'object' && payload.purpose === 'two_factor'
+      ? await this.getUserById(payload.userId)
+      : null;
+    if (!user) {
+      throw new Error('Invalid or expired login challenge');
+    }
+    return user;
+  }
+
+  private async registerFailedLogin(user: User, client: LoginClient, reason: string = 'invalid_password'): Promise<void> {
+    user.failedLoginAttempts = (user.failedLoginAttempts || 0) + 1;
+    const lockoutMinutes = getLockoutMinutes(user.failedLoginAttempts);
+    if (lockoutMinutes > 0) {
+      user.lockedUntil = new Date(Date.now() + lockoutMinutes * 60 * 1000).toISOString();
+    }
+    await this.storage.writeJson(`users/${user.userId}.json`, user);
+
+    await this.recordLoginEvent('login_failure', user, user.username, client, {
+      reason,
+      failedAttempts: user.failedLoginAttempts
+    });
+    if (lockoutMinutes > 0) {
+      await this.recordLoginEvent('account_locked', user, user.username, client, {
+        failedAttempts: user.failedLoginAttempts,
+        lockoutMinutes,
+        lockedUntil: user.lockedUntil
+      });
+    }
+  }
+
+  /**
+   * Write a login event to the audit log. Logins don't belong to a
+   * workspace, so they are kept in the default workspace's log.
+   */
+  private async recordLoginEvent(
+    eventType: LoginEventType,
+    user: User | null,
+    username: string,
+    client: LoginClient,
+    data: Record<string, unknown> = {}
+  ): Promise<void> {
+    try {
+      await runInWorkspace(DEFAULT_WORKSPACE_ID, () => this.auditLog.log({
+        sessionId: 'system',
+        timestamp: new Date().toISOString(),
+        eventType,
+        userId: user?.userId || 'unknown',
+        data: {
+          username,
+          ...data,
+          ipAddress: client.ipAddress,
+          userAgent: client.userAgent
+        },
+        piiScrubbed: false,
+        metadata: {}
+      }));
+    } catch (error) {
+      console.error('Failed to write login audit event:', error);
+    }
+  }
+
+  /**
+   * Login events of the last days, newest first
+   */
+  async listLoginEvents(days: number = 7, username?: string): Promise<AuditLogEntry[]> {
+    const end = new Date();
+    const start = new Date(end.getTime() - days * 24 * 60 * 60 * 1000);
+    const logs = await runInWorkspace(DEFAULT_WORKSPACE_ID, () => this.auditLog.readLogsRange(start, end));
+
+    return logs
+      .filter(entry => (LOGIN_EVENT_TYPES as string[]).includes(entry.eventType))
+      .filter(entry => !username || entry.data?.username?.toLowerCase() === username.toLowerCase())
+      .reverse() // Logs are in write order; keep it for events with equal timestamps
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  /**
+   * Clear a lockout before it expires (admin only)
+   */
+  async unlockUser(userId: string): Promise<void> {
+    const user = await this.getUserById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    user.failedLoginAttempts = 0;
+    delete user.lockedUntil;
+    await this.storage.writeJson(`users/${userId}.json`, user);
+  }
+
+  /**
+   * Log in a user authenticated by the OIDC provider, creating their
+   * account on first login. When the provider sends roles, they replace
+   * the stored role.
+   */
+  async loginWithOidc(identity: OidcIdentity, client: LoginClient = {}): Promise<AuthTokens> {
+    let user = await this.getUserByOidcSubject(identity.issuer, identity.subject);
+
+    if (!user) {
+      if (await this.getUserByUsername(identity.username)) {
+        // Never take over a local account with the same name
+        throw new Error(`User ${identity.username} already exists and is not linked to single sign-on`);
+      }
+
+      user = {
+        userId: crypto.randomUUID(),
+        username: identity.username,
+        passwordHash: '',
+        role: identity.role || 'user',
+        createdAt: new Date().toISOString(),
+        authProvider: 'oidc',
+        oidcIssuer: identity.issuer,
+        oidcSubject: identity.subject
+      };
+      await this.storage.writeJson(`users/${user.userId}.json`, user);
+      await this.updateUsernameIndex(user.username, user.userId);
+      await this.updateOidcIndex(identity.issuer, identity.subject, user.userId);
+    } else if (identity.role && identity.role !== user.role) {
+      await this.changeUserRole(user.userId, identity.role);
+      user.role = identity.role;
+    }
+
+    return this.startSession(user, client, 'oidc');
+  }
+
+  /**
+   * Record the login and issue tokens for a new login session
+   */
+  private async startSession(
+    user: User,
+    client: LoginClient,
+    method: 'password' | 'oidc',
+    details: Record<string, unknown> = {}
+  ): Promise<AuthTokens> {
+    // Update last login and fall back to a workspace the user still belongs to
     user.lastLogin = new Date().toISOString();
+    const workspaceIds = this.getUserWorkspaceIds(user);
+    if (!hasPermission(user.role, 'workspaces:manage') && (!user.activeWorkspaceId || !workspaceIds.includes(user.activeWorkspaceId))) {
+      user.activeWorkspaceId = workspaceIds[0];
+    }
     await this.storage.writeJson(`users/${user.userId}.json`, user);
 
-    // Generate JWT token
+    const { session, refreshToken } = await this.authSessions.createSession(
+      user.userId,
+      user.activeWorkspaceId || DEFAULT_WORKSPACE_ID,
+      client.userAgent
+    );
+    await this.recordLoginEvent('login_success', user, user.username, client, { method, ...details });
+
+    return {
+      token: this.generateToken(user, session),
+      refreshToken,
+      user: this.toSafeUser(user)
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and refresh token.
+   * The user is re-read so role and membership changes apply to the new
+   * access token; a session in a workspace the user has left moves to one
+   * they still belong to.
+   */
+  async refresh(refreshToken: string): Promise<AuthTokens> {
+    const rotated = await this.authSessions.rotateRefreshToken(refreshToken);
+    let session = rotated.session;
+
+    const user = await this.getUserById(session.userId);
+    if (!user) {
+      await this.authSessions.revokeSession(session.userId, session.sessionId, 'user_deleted');
+      throw new Error('Invalid refresh token');
+    }
+
+    if (!this.canAccessWorkspace(user, session.workspaceId)) {
+      const workspaceIds = this.getUserWorkspaceIds(user);
+      const workspaceId = user.activeWorkspaceId && workspaceIds.includes(user.activeWorkspaceId)
+        ? user.activeWorkspaceId
+        : workspaceIds[0];
+      session = await this.authSessions.setSessionWorkspace(user.userId, session.sessionId, workspaceId);
+    }
+
+    return {
+      token: this.generateToken(user, session),
+      refreshToken: rotated.refreshToken,
+      user: this.toSafeUser(user)
+    };
+  }
+
+  /**
+   * End a login session; its access and refresh tokens stop working
+   */
+  async logout(userId: string, sessionId: string): Promise<void> {
+    await this.authSessions.revokeSession(userId, sessionId, 'logout');
+  }
+
+  /**
+   * Force-logout a user everywhere
+   * @returns Number of sessions revoked
+   */
+  async revokeAllSessions(userId: string, reason: string = 'revoked_by_admin'): Promise<number> {
+    return this.authSessions.revokeAllSessions(userId, reason);
+  }
+
+  /**
+   * Whether access tokens of a login session are still accepted
+   */
+  async isSessionActive(userId: string, sessionId: string): Promise<boolean> {
+    return this.authSessions.isSessionActive(userId, sessionId);
+  }
+
+  /**
+   * Generate a short-lived JWT for a login session
+   */
+  private generateToken(user: User, session: AuthSession): string {
     const jwtSecret = process.env.JWT_SECRET;
     if (!jwtSecret) {
       throw new Error('JWT_SECRET not configured');
     }
 
-    const token = jwt.sign(
+    const expiresIn = parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS || '', 10) || DEFAULT_ACCESS_TOKEN_TTL_SECONDS;
+
+    return jwt.sign(
       {
         userId: user.userId,
         username: user.username,
-        role: user.role
+        role: user.role,
+        workspaceId: session.workspaceId,
+        sid: session.sessionId
       },
       jwtSecret,
-      { expiresIn: '24h' }
+      { expiresIn }
     );
+  }
+
+  private toSafeUser(user: User): SafeUser {
+    const { passwordHash, twoFactor, ...userWithoutPassword } = user;
+    return {
+      ...userWithoutPassword,
+      permissions: getRolePermissions(user.role),
+      twoFactorEnabled: !!twoFactor?.enabled
+    };
+  }
+
+  /**
+   * Workspaces a user belongs to (workspace managers can additionally open any workspace)
+   */
+  getUserWorkspaceIds(user: User): string[] {
+    return user.workspaceIds && user.workspaceIds.length > 0 ? user.workspaceIds : [DEFAULT_WORKSPACE_ID];
+  }
 
-    // Return user without password hash
-    const { passwordHash, ...userWithoutPassword } = user;
+  /**
+   * Check whether a user may work in a workspace
+   */
+  canAccessWorkspace(user: User, workspaceId: string): boolean {
+    return hasPermission(user.role, 'workspaces:manage') || this.getUserWorkspaceIds(user).includes(workspaceId);
+  }
+
+  /**
+   * Switch a login session to another workspace and issue a token for it
+   */
+  async switchWorkspace(userId: string, sessionId: string, workspaceId: string): Promise<{
+    token: string;
+    user: SafeUser;
+  }> {
+    const user = await this.getUserById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (!this.canAccessWorkspace(user, workspaceId)) {
+      throw new Error('User is not a member of this workspace');
+    }
+
+    user.activeWorkspaceId = workspaceId;
+    await this.storage.writeJson(`users/${userId}.json`, user);
+    const session = await this.authSessions.setSessionWorkspace(userId, sessionId, workspaceId);
 
     return {
-      token,
-      user: userWithoutPassword
+      token: this.generateToken(user, session),
+      user: this.toSafeUser(user)
     };
   }
 
+  /**
+   * Set the workspaces a user belongs to (admin only); login sessions in a
+   * workspace the user no longer belongs to are revoked
+   */
+  async setUserWorkspaces(userId: string, workspaceIds: string[]): Promise<void> {
+    const user = await this.getUserById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    user.workspaceIds = Array.from(new Set(workspaceIds));
+    if (user.activeWorkspaceId && !user.workspaceIds.includes(user.activeWorkspaceId)) {
+      user.activeWorkspaceId = user.workspaceIds[0];
+    }
+    await this.storage.writeJson(`users/${userId}.json`, user);
+
+    for (const session of await this.authSessions.listActiveSessions(userId)) {
+      if (!this.canAccessWorkspace(user, session.workspaceId)) {
+        await this.authSessions.revokeSession(userId, session.sessionId, 'workspace_removed');
+      }
+    }
+  }
+
   /**
    * Get user by ID
    */
@@ -156,6 +850,36 @@ export class UserService {
     }
   }
 
+  /**
+   * Get an SSO user by issuer and subject
+   */
+  async getUserByOidcSubject(issuer: string, subject: string): Promise<User | null> {
+    try {
+      const index = await this.storage.readJson<{ [key: string]: string }>('users/oidc-index.json');
+      const userId = index[`${issuer} ${subject}`];
+      return userId ? await this.getUserById(userId) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private async updateOidcIndex(issuer: string, subject: string, userId: string | null): Promise<void> {
+    let index: { [key: string]: string } = {};
+
+    try {
+      index = await this.storage.readJson('users/oidc-index.json');
+    } catch (error) {
+      // Index doesn't exist yet
+    }
+
+    if (userId) {
+      index[`${issuer} ${subject}`] = userId;
+    } else {
+      delete index[`${issuer} ${subject}`];
+    }
+    await this.storage.writeJson('users/oidc-index.json', index);
+  }
+
   /**
    * Update username index for fast lookups
    */
@@ -239,9 +963,10 @@ export class UserService {
   }
 
   /**
-   * Change user password
+   * Change user password; the user's other login sessions are revoked
+   * @param currentSessionId - Login session making the change, which stays active
    */
-  async changePassword(userId: string, oldPassword: string, newPassword: string): Promise<void> {
+  async changePassword(userId: string, oldPassword: string, newPassword: string, currentSessionId?: string): Promise<void> {
     const user = await this.getUserById(userId);
     if (!user) {
       throw new Error('User not found');
@@ -252,14 +977,17 @@ export class UserService {
       throw new Error('Invalid current password');
     }
 
+    this.assertPasswordAllowed(newPassword, user.username);
+
     user.passwordHash = await bcrypt.hash(newPassword, 10);
     await this.storage.writeJson(`users/${userId}.json`, user);
+    await this.authSessions.revokeAllSessions(userId, 'password_changed', currentSessionId);
   }
 
   /**
-   * Change user role (admin only)
+   * Change user role (admin only); existing tokens carry the old role, so they are revoked
    */
-  async changeUserRole(userId: string, newRole: 'admin' | 'user'): Promise<void> {
+  async changeUserRole(userId: string, newRole: UserRole): Promise<void> {
     const user = await this.getUserById(userId);
     if (!user) {
       throw new Error('User not found');
@@ -267,10 +995,11 @@ export class UserService {
 
     user.role = newRole;
     await this.storage.writeJson(`users/${userId}.json`, user);
+    await this.authSessions.revokeAllSessions(userId, 'role_changed');
   }
 
   /**
-   * Reset user password (admin only)
+   * Reset user password (admin only), clear any lockout and log the user out everywhere
    */
   async resetUserPassword(userId: string, newPassword: string): Promise<void> {
     const user = await this.getUserById(userId);
@@ -278,8 +1007,23 @@ export class UserService {
       throw new Error('User not found');
     }
 
+    this.assertPasswordAllowed(newPassword, user.username);
+
     user.passwordHash = await bcrypt.hash(newPassword, 10);
+    user.failedLoginAttempts = 0;
+    delete user.lockedUntil;
     await this.storage.writeJson(`users/${userId}.json`, user);
+    await this.authSessions.revokeAllSessions(userId, 'password_reset');
+  }
+
+  /**
+   * Reject passwords that break the configured policy
+   */
+  private assertPasswordAllowed(password: string, username: string): void {
+    const violations = getPasswordPolicyViolations(password, loadPasswordPolicy(), username);
+    if (violations.length > 0) {
+      throw new Error(`Password does not meet the policy: ${violations.join(', ')}`);
+    }
   }
 
   /**
@@ -300,14 +1044,21 @@ export class UserService {
       // Ignore if index doesn't exist
     }
 
-    // Delete user file
+    if (user.oidcIssuer && user.oidcSubject) {
+      await this.updateOidcIndex(user.oidcIssuer, user.oidcSubject, null);
+    }
+
+    // Delete user file and end their sessions
     await this.storage.delete(`users/${userId}.json`);
+    await this.authSessions.revokeAllSessions(userId, 'user_deleted');
   }
 
   /**
    * List all users (admin only)
    */
-  async listUsers(): Promise<Omit<User, 'passwordHash' | 'apiKey' | 'awsAccessKeyId' | 'awsSecretAccessKey' | 'awsSessionToken'>[]> {
+  async listUsers(): Promise<Array<
+    Omit<User, 'passwordHash' | 'apiKey' | 'awsAccessKeyId' | 'awsSecretAccessKey' | 'awsSessionToken' | 'twoFactor'> & { twoFactorEnabled: boolean }
+  >> {
     try {
       const index = await this.storage.readJson<{ [username: string]: string }>('users/username-index.json');
       const userIds = Object.values(index);
@@ -317,8 +1068,8 @@ export class UserService {
           const user = await this.getUserById(userId);
           if (!user) return null;
           
-          const { passwordHash, apiKey, awsAccessKeyId, awsSecretAccessKey, awsSessionToken, ...safeUser } = user;
-          return safeUser;
+          const { passwordHash, apiKey, awsAccessKeyId, awsSecretAccessKey, awsSessionToken, twoFactor, ...safeUser } = user;
+          return { ...safeUser, twoFactorEnabled: !!twoFactor?.enabled };
         })
       );
 
@@ -328,40 +1079,56 @@ export class UserService {
     }
   }
 
+  /**
+   * Re-encrypt stored credentials and 2FA secrets with the active key, after
+   * a key rotation. Returns the number of users changed.
+   */
+  async reencryptCredentials(): Promise<number> {
+    const index = await this.storage.readJson<{ [username: string]: string }>('users/username-index.json')
+      .catch(() => ({} as { [username: string]: string }));
+    let changed = 0;
+
+    for (const userId of Object.values(index)) {
+      const user = await this.getUserById(userId);
+      if (!user) continue;
+
+      const before = JSON.stringify(user);
+      try {
+        for (const field of ENCRYPTED_USER_FIELDS) {
+          if (user[field]) {
+            user[field] = this.keyRing.reencrypt(user[field]!);
+          }
+        }
+        if (user.twoFactor?.secret) {
+          user.twoFactor.secret = this.keyRing.reencrypt(user.twoFactor.secret);
+        }
+        if (user.twoFactor?.pendingSecret) {
+          user.twoFactor.pendingSecret = this.keyRing.reencrypt(user.twoFactor.pendingSecret);
+        }
+      } catch (error) {
+        throw new Error(`Failed to re-encrypt credentials of user ${user.username}: ${error instanceof Error ? error.message : error}`);
+      }
+
+      if (JSON.stringify(user) !== before) {
+        await this.storage.writeJson(`users/${user.userId}.json`, user);
+        changed++;
+      }
+    }
+
+    return changed;
+  }
+
   /**
    * Encrypt sensitive data
    */
   private encrypt(text: string): string {
-    const iv = crypto.randomBytes(16);
-    const cipher = crypto.createCipheriv(this.algorithm, this.encryptionKey, iv) as crypto.CipherGCM;
-    
-    let encrypted = cipher.update(text, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
-    
-    const authTag = cipher.getAuthTag();
-    
-    return `${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`;
+    return this.keyRing.encrypt(text);
   }
 
   /**
    * Decrypt sensitive data
    */
   private decrypt(encryptedText: string): string {
-    const parts = encryptedText.split(':');
-    if (parts.length !== 3) {
-      throw new Error('Invalid encrypted data format');
-    }
-
-    const iv = Buffer.from(parts[0], 'hex');
-    const authTag = Buffer.from(parts[1], 'hex');
-    const encrypted = parts[2];
-
-    const decipher = crypto.createDecipheriv(this.algorithm, this.encryptionKey, iv) as crypto.DecipherGCM;
-    decipher.setAuthTag(authTag);
-    
-    let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-    decrypted += decipher.final('utf8');
-    
-    return decrypted;
+    return this.keyRing.decrypt(encryptedText);
   }
 }
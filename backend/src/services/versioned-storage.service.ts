@@ -1,23 +1,34 @@
-import { JsonStorageService } from './storage.service';
-import { DecisionMatrix } from '../../../shared/dist';
+import { StorageBackend } from './storage.service';
+import { DecisionMatrix, DecisionMatrixActivation } from '../../../shared/dist';
+import { InterviewPolicy } from '../types';
+
+const ACTIVE_MATRIX_POINTER = 'decision-matrix/active.json';
 
 /**
- * Versioned storage service for prompts and decision matrices
+ * Versioned storage service for prompts, decision matrices and interview policies
  */
 export class VersionedStorageService {
-  private jsonStorage: JsonStorageService;
+  private jsonStorage: StorageBackend;
 
-  constructor(jsonStorage: JsonStorageService) {
+  constructor(jsonStorage: StorageBackend) {
     this.jsonStorage = jsonStorage;
   }
 
   /**
    * Save a versioned decision matrix
+   * A newly saved version becomes the active one
    */
   async saveDecisionMatrix(matrix: DecisionMatrix): Promise<void> {
     const fileName = `v${matrix.version}.json`;
     const relativePath = `decision-matrix/${fileName}`;
     await this.jsonStorage.writeJson(relativePath, matrix);
+
+    await this.jsonStorage.writeJson(ACTIVE_MATRIX_POINTER, {
+      version: matrix.version,
+      activatedAt: new Date().toISOString(),
+      activatedBy: matrix.createdBy,
+      reason: 'New version saved'
+    } as DecisionMatrixActivation);
   }
 
   /**
@@ -32,11 +43,90 @@ export class VersionedStorageService {
       return null;
     }
 
-    return await this.jsonStorage.readJson<DecisionMatrix>(relativePath);
+    const matrix = await this.jsonStorage.readJson<DecisionMatrix>(relativePath);
+    const activeVersion = await this.getActiveDecisionMatrixVersion();
+    return { ...matrix, active: matrix.version === activeVersion };
+  }
+
+  /**
+   * Get the active decision matrix - the version the active pointer selects,
+   * or the newest version if no version has been activated yet
+   */
+  async getActiveDecisionMatrix(): Promise<DecisionMatrix | null> {
+    const activeVersion = await this.getActiveDecisionMatrixVersion();
+    return activeVersion ? await this.getDecisionMatrix(activeVersion) : null;
+  }
+
+  /**
+   * Get the active pointer, if a version has been saved or activated
+   */
+  async getDecisionMatrixActivation(): Promise<DecisionMatrixActivation | null> {
+    const exists = await this.jsonStorage.exists(ACTIVE_MATRIX_POINTER);
+    if (!exists) {
+      return null;
+    }
+
+    return await this.jsonStorage.readJson<DecisionMatrixActivation>(ACTIVE_MATRIX_POINTER);
+  }
+
+  /**
+   * Get the active version number, falling back to the newest version when
+   * there is no pointer or it references a version that no longer exists
+   */
+  async getActiveDecisionMatrixVersion(): Promise<string | null> {
+    const versions = await this.listDecisionMatrixVersions();
+    const activation = await this.getDecisionMatrixActivation();
+
+    if (activation && versions.includes(activation.version)) {
+      return activation.version;
+    }
+
+    return versions[0] || null;
+  }
+
+  /**
+   * Make an existing version the active one without copying it
+   * @returns The previously active version and the new pointer
+   */
+  async activateDecisionMatrix(
+    version: string,
+    activatedBy: string,
+    reason: string
+  ): Promise<{ previousVersion: string | null; activation: DecisionMatrixActivation }> {
+    const exists = await this.jsonStorage.exists(`decision-matrix/v${version}.json`);
+    if (!exists) {
+      throw new Error(`Decision matrix version ${version} does not exist`);
+    }
+
+    const previousVersion = await this.getActiveDecisionMatrixVersion();
+    const activation: DecisionMatrixActivation = {
+      version,
+      activatedAt: new Date().toISOString(),
+      activatedBy,
+      reason
+    };
+    await this.jsonStorage.writeJson(ACTIVE_MATRIX_POINTER, activation);
+
+    return { previousVersion, activation };
   }
 
   /**
-   * Get the latest (active) decision matrix
+   * Version number for the next saved matrix: one minor version above the
+   * newest stored version, even if an older version is active
+   */
+  async getNextDecisionMatrixVersion(): Promise<string> {
+    const versions = await this.listDecisionMatrixVersions();
+    if (versions.length === 0) {
+      return '1.0';
+    }
+
+    const [major, minor] = versions[0].split('.').map(Number);
+    return `${major}.${minor + 1}`;
+  }
+
+  /**
+   * Get the newest stored decision matrix, whether or not it is active.
+   * Use getActiveDecisionMatrix for the version classification should use.
    */
   async getLatestDecisionMatrix(): Promise<DecisionMatrix | null> {
     const files = await this.jsonStorage.listFiles('decision-matrix');
@@ -74,8 +164,7 @@ export class VersionedStorageService {
       return null;
     }
 
-    const latestFile = versionFiles[0].file;
-    return await this.jsonStorage.readJson<DecisionMatrix>(`decision-matrix/${latestFile}`);
+    return await this.getDecisionMatrix(versionFiles[0].version);
   }
 
   /**
@@ -314,4 +403,68 @@ export class VersionedStorageService {
         return 0;
       });
   }
+
+  /**
+   * Save a versioned interview policy
+   * The newest saved version is the active one
+   */
+  async saveInterviewPolicy(policy: InterviewPolicy): Promise<void> {
+    await this.jsonStorage.writeJson(`interview-policy/v${policy.version}.json`, policy);
+  }
+
+  /**
+   * Get a specific version of the interview policy, or the newest version
+   */
+  async getInterviewPolicy(version?: string): Promise<InterviewPolicy | null> {
+    if (!version) {
+      const versions = await this.listInterviewPolicyVersions();
+      if (versions.length === 0) {
+        return null;
+      }
+      version = versions[0];
+    }
+
+    const relativePath = `interview-policy/v${version}.json`;
+    if (!(await this.jsonStorage.exists(relativePath))) {
+      return null;
+    }
+    return await this.jsonStorage.readJson<InterviewPolicy>(relativePath);
+  }
+
+  /**
+   * Version number for the next saved interview policy
+   */
+  async getNextInterviewPolicyVersion(): Promise<string> {
+    const versions = await this.listInterviewPolicyVersions();
+    if (versions.length === 0) {
+      return '1.0';
+    }
+
+    const [major, minor] = versions[0].split('.').map(Number);
+    return `${major}.${minor + 1}`;
+  }
+
+  /**
+   * List interview policy versions, newest first
+   */
+  async listInterviewPolicyVersions(): Promise<string[]> {
+    const files = await this.jsonStorage.listFiles('interview-policy');
+    return files
+      .filter(f => f.startsWith('v') && f.endsWith('.json'))
+      .map(f => {
+        const versionMatch = f.match(/v([\d.]+)\.json/);
+        return versionMatch ? versionMatch[1] : null;
+      })
+      .filter((v): v is string => v !== null)
+      .sort((a, b) => {
+        const aParts = a.split('.').map(Number);
+        const bParts = b.split('.').map(Number);
+        for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+          const aVal = aParts[i] || 0;
+          const bVal = bParts[i] || 0;
+          if (aVal !== bVal) return bVal - aVal;
+        }
+        return 0;
+      });
+  }
 }
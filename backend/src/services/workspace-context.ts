@@ -0,0 +1,74 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * The workspace that existed before workspaces were introduced. Its data
+ * stays at the root of the data directory so existing installs keep working.
+ */
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+// Data of every other workspace lives under workspace-data/<workspaceId>/
+export const WORKSPACE_DATA_DIR = 'workspace-data';
+
+const workspaceStore = new AsyncLocalStorage<string>();
+
+/**
+ * User an authenticated request is made by
+ */
+export interface RequestUser {
+  userId: string;
+  username: string;
+}
+
+const userStore = new AsyncLocalStorage<RequestUser>();
+
+/**
+ * Run a function (and everything it awaits) inside a workspace.
+ * The auth middleware wraps each authenticated request in the workspace
+ * from its token.
+ */
+export function runInWorkspace<T>(workspaceId: string, fn: () => T): T {
+  return workspaceStore.run(workspaceId, fn);
+}
+
+/**
+ * Workspace of the current request; the default workspace outside of one
+ */
+export function getCurrentWorkspaceId(): string {
+  return workspaceStore.getStore() || DEFAULT_WORKSPACE_ID;
+}
+
+/**
+ * Run a function (and everything it awaits) on behalf of a user, so work
+ * such as LLM calls can be attributed to them
+ */
+export function runAsUser<T>(user: RequestUser, fn: () => T): T {
+  return userStore.run(user, fn);
+}
+
+/**
+ * User of the current request; undefined outside of an authenticated request
+ */
+export function getCurrentUser(): RequestUser | undefined {
+  return userStore.getStore();
+}
+
+/**
+ * Storage path of a workspace's data relative to the data directory
+ */
+export function workspacePath(relativePath: string, workspaceId: string = getCurrentWorkspaceId()): string {
+  if (workspaceId === DEFAULT_WORKSPACE_ID) {
+    return relativePath;
+  }
+  return `${WORKSPACE_DATA_DIR}/${workspaceId}/${relativePath}`;
+}
+
+/**
+ * Inverse of workspacePath: split a stored path into workspace and relative path
+ */
+export function parseWorkspacePath(storedPath: string): { workspaceId: string; relativePath: string } {
+  const match = storedPath.match(new RegExp(`^${WORKSPACE_DATA_DIR}/([^/]+)/(.+)$`));
+  if (match) {
+    return { workspaceId: match[1], relativePath: match[2] };
+  }
+  return { workspaceId: DEFAULT_WORKSPACE_ID, relativePath: storedPath };
+}
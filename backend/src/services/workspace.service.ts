@@ -0,0 +1,146 @@
+import { Workspace } from '../types';
+import { createStorage, StorageBackend } from './storage.service';
+import { DEFAULT_WORKSPACE_ID, workspacePath } from './workspace-context';
+
+const WORKSPACE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{1,39}$/;
+
+// Configuration a new workspace starts with, copied from its source workspace
+const CONFIGURATION_DIRS = ['prompts', 'decision-matrix', 'strategic-questions', 'interview-policy', 'config'];
+
+/**
+ * Workspace (tenant) management.
+ *
+ * The workspace list is global; each workspace's matrices, prompts,
+ * strategic questions, interview policies, PII detectors, subjects, sessions and audit logs are stored under
+ * its own path (see workspace-context).
+ */
+export class WorkspaceService {
+  private storage: StorageBackend;
+
+  constructor(dataDir?: string) {
+    this.storage = createStorage(dataDir, { workspaceScoped: false });
+  }
+
+  /**
+   * Derive a workspace ID from its name, e.g. "HR Operations" -> "hr-operations"
+   */
+  static toWorkspaceId(name: string): string {
+    return name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 40);
+  }
+
+  /**
+   * List all workspaces, default first
+   */
+  async listWorkspaces(): Promise<Workspace[]> {
+    const files = await this.storage.listFiles('workspaces');
+    const workspaces: Workspace[] = [];
+
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      try {
+        workspaces.push(await this.storage.readJson<Workspace>(`workspaces/${file}`));
+      } catch (error) {
+        console.error(`Failed to load workspace ${file}:`, error);
+      }
+    }
+
+    if (!workspaces.some(w => w.workspaceId === DEFAULT_WORKSPACE_ID)) {
+      workspaces.push(this.defaultWorkspace());
+    }
+
+    return workspaces.sort((a, b) =>
+      a.workspaceId === DEFAULT_WORKSPACE_ID ? -1 : b.workspaceId === DEFAULT_WORKSPACE_ID ? 1 : a.name.localeCompare(b.name)
+    );
+  }
+
+  /**
+   * Get a workspace by ID
+   */
+  async getWorkspace(workspaceId: string): Promise<Workspace | null> {
+    if (!WORKSPACE_ID_PATTERN.test(workspaceId)) {
+      return null;
+    }
+
+    const relativePath = `workspaces/${workspaceId}.json`;
+    if (await this.storage.exists(relativePath)) {
+      return await this.storage.readJson<Workspace>(relativePath);
+    }
+    return workspaceId === DEFAULT_WORKSPACE_ID ? this.defaultWorkspace() : null;
+  }
+
+  /**
+   * Create a workspace, copying configuration from an existing one
+   * @param copyFrom - Workspace whose prompts, decision matrix, strategic questions and subjects are copied
+   */
+  async createWorkspace(
+    name: string,
+    createdBy: string,
+    description?: string,
+    copyFrom: string = DEFAULT_WORKSPACE_ID
+  ): Promise<Workspace> {
+    const workspaceId = WorkspaceService.toWorkspaceId(name);
+    if (!WORKSPACE_ID_PATTERN.test(workspaceId)) {
+      throw new Error('Workspace name must contain at least 2 letters or digits');
+    }
+    if (await this.getWorkspace(workspaceId)) {
+      throw new Error('Workspace already exists');
+    }
+    if (!(await this.getWorkspace(copyFrom))) {
+      throw new Error(`Workspace ${copyFrom} does not exist`);
+    }
+
+    const workspace: Workspace = {
+      workspaceId,
+      name,
+      description,
+      createdAt: new Date().toISOString(),
+      createdBy
+    };
+
+    await this.copyConfiguration(copyFrom, workspaceId);
+    await this.storage.writeJson(`workspaces/${workspaceId}.json`, workspace);
+
+    return workspace;
+  }
+
+  /**
+   * Rename or describe a workspace
+   */
+  async updateWorkspace(workspaceId: string, updates: { name?: string; description?: string }): Promise<Workspace> {
+    const workspace = await this.getWorkspace(workspaceId);
+    if (!workspace) {
+      throw new Error('Workspace not found');
+    }
+
+    const updated: Workspace = {
+      ...workspace,
+      name: updates.name ?? workspace.name,
+      description: updates.description ?? workspace.description
+    };
+    await this.storage.writeJson(`workspaces/${workspaceId}.json`, updated);
+
+    return updated;
+  }
+
+  private async copyConfiguration(fromWorkspaceId: string, toWorkspaceId: string): Promise<void> {
+    for (const dir of CONFIGURATION_DIRS) {
+      const files = await this.storage.listFiles(workspacePath(dir, fromWorkspaceId));
+      for (const file of files.filter(f => f.endsWith('.json') || f.endsWith('.txt'))) {
+        const content = await this.storage.readFile(workspacePath(`${dir}/${file}`, fromWorkspaceId));
+        await this.storage.writeFile(workspacePath(`${dir}/${file}`, toWorkspaceId), content);
+      }
+    }
+  }
+
+  private defaultWorkspace(): Workspace {
+    return {
+      workspaceId: DEFAULT_WORKSPACE_ID,
+      name: 'Default',
+      createdAt: new Date(0).toISOString(),
+      createdBy: 'system'
+    };
+  }
+}
@@ -1,5 +1,7 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { createStorage, getSqlitePath, getStorageBackendType } from './services/storage.service';
+import { findInsecureKeys } from './services/encryption-keys';
 
 const dataDir = process.env.DATA_DIR || './data';
 
@@ -24,13 +26,17 @@ function validateEnvironment(): void {
     throw new Error('Missing required environment variables');
   }
 
-  // Warn about default encryption keys
+  // Refuse default or weak encryption keys in production
   if (process.env.NODE_ENV === 'production') {
-    if (!process.env.PII_ENCRYPTION_KEY) {
-      console.warn('⚠️  WARNING: PII_ENCRYPTION_KEY not set. Using JWT_SECRET as fallback.');
-      console.warn('   For better security, set a separate PII_ENCRYPTION_KEY.');
+    const insecureKeys = findInsecureKeys();
+    if (insecureKeys.length > 0) {
+      console.error('\n❌ CRITICAL: Insecure encryption keys for production:');
+      insecureKeys.forEach(problem => console.error(`   - ${problem}`));
+      console.error('\nGenerate keys with: openssl rand -base64 32');
+      console.error('See .env.example for reference.\n');
+      throw new Error('Insecure encryption keys');
     }
-    if (!process.env.CREDENTIALS_ENCRYPTION_KEY) {
+    if (!process.env.CREDENTIALS_ENCRYPTION_KEYS && !process.env.CREDENTIALS_ENCRYPTION_KEY) {
       console.warn('⚠️  WARNING: CREDENTIALS_ENCRYPTION_KEY not set. Using JWT_SECRET as fallback.');
       console.warn('   For better security, set a separate CREDENTIALS_ENCRYPTION_KEY.');
     }
@@ -53,6 +59,7 @@ async function initializeDirectories(): Promise<void> {
     'pii-mappings',
     'decision-matrix',
     'learning',
+    'batch-jobs',
     'users'
   ];
 
@@ -76,7 +83,7 @@ async function initializeDirectories(): Promise<void> {
 async function initializePrompts(): Promise<void> {
   console.log('Initializing default prompts...');
   
-  const promptsDir = path.join(dataDir, 'prompts');
+  const storage = createStorage(dataDir);
   const defaultPrompts = [
     {
       filename: 'classification-v1.1.txt',
@@ -276,12 +283,11 @@ Generate at least 6 attributes and 10-15 rules covering various scenarios.`
   ];
 
   for (const prompt of defaultPrompts) {
-    const promptPath = path.join(promptsDir, prompt.filename);
-    try {
-      await fs.access(promptPath);
+    const promptPath = `prompts/${prompt.filename}`;
+    if (await storage.exists(promptPath)) {
       console.log(`✓ Prompt exists: ${prompt.filename}`);
-    } catch {
-      await fs.writeFile(promptPath, prompt.content, 'utf-8');
+    } else {
+      await storage.writeFile(promptPath, prompt.content);
       console.log(`✓ Created prompt: ${prompt.filename}`);
     }
   }
@@ -293,10 +299,8 @@ Generate at least 6 attributes and 10-15 rules covering various scenarios.`
 async function initializeDecisionMatrix(): Promise<void> {
   console.log('Checking decision matrix...');
   
-  const matrixDir = path.join(dataDir, 'decision-matrix');
-  
   try {
-    const files = await fs.readdir(matrixDir);
+    const files = await createStorage(dataDir).listFiles('decision-matrix');
     const matrixFiles = files.filter(f => f.startsWith('v') && f.endsWith('.json'));
     
     if (matrixFiles.length > 0) {
@@ -312,6 +316,17 @@ async function initializeDecisionMatrix(): Promise<void> {
   }
 }
 
+/**
+ * Report which storage backend is in use
+ */
+function logStorageBackend(): void {
+  if (getStorageBackendType() === 'sqlite') {
+    console.log(`✓ Storage backend: SQLite (${getSqlitePath(dataDir)})`);
+  } else {
+    console.log(`✓ Storage backend: files (${dataDir})`);
+  }
+}
+
 /**
  * Run all startup initialization tasks
  */
@@ -320,6 +335,7 @@ export async function initializeApplication(): Promise<void> {
   
   try {
     validateEnvironment();
+    logStorageBackend();
     console.log('');
     
     await initializeDirectories();
@@ -5,19 +5,27 @@ import ChatInterface from './components/ChatInterface';
 import VoiceRecorder from './components/VoiceRecorder';
 import ClarificationQuestions from './components/ClarificationQuestions';
 import ClassificationResult from './components/ClassificationResult';
+import ClassificationProgress from './components/ClassificationProgress';
 import FeedbackCapture from './components/FeedbackCapture';
 import AnalyticsDashboard from './components/AnalyticsDashboard';
 import DecisionMatrixAdmin from './components/DecisionMatrixAdmin';
 import LearningAdmin from './components/LearningAdmin';
 import PromptAdmin from './components/PromptAdmin';
 import StrategicQuestionsAdmin from './components/StrategicQuestionsAdmin';
+import InterviewPolicyAdmin from './components/InterviewPolicyAdmin';
+import PIIDetectorsAdmin from './components/PIIDetectorsAdmin';
+import PrivacyAdmin from './components/PrivacyAdmin';
 import AuditTrail from './components/AuditTrail';
 import UserManagement from './components/UserManagement';
 import AdminReview from './components/AdminReview';
-import { apiService } from './services/api';
+import BatchClassification from './components/BatchClassification';
+import WorkspaceSwitcher from './components/WorkspaceSwitcher';
+import WorkspaceAdmin from './components/WorkspaceAdmin';
+import TwoFactorSettings from './components/TwoFactorSettings';
+import { apiService, ProcessProgress } from './services/api';
 import { Classification, TransformationCategory } from '../../shared/types';
 
-type AppView = 'main' | 'analytics' | 'decision-matrix' | 'learning' | 'prompts' | 'strategic' | 'audit' | 'configuration' | 'users' | 'admin-review';
+type AppView = 'main' | 'analytics' | 'decision-matrix' | 'learning' | 'prompts' | 'strategic' | 'interview-policy' | 'audit' | 'configuration' | 'users' | 'admin-review' | 'batch' | 'pii' | 'privacy';
 type WorkflowState = 'input' | 'clarification' | 'result' | 'feedback' | 'submitted';
 
 function App() {
@@ -25,6 +33,10 @@ function App() {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [username, setUsername] = useState('');
   const [userRole, setUserRole] = useState('');
+  const [userPermissions, setUserPermissions] = useState<string[]>([]);
+  // Bumped on workspace switch to remount all views, and on workspace edits to reload workspace lists
+  const [workspaceKey, setWorkspaceKey] = useState(0);
+  const [workspacesVersion, setWorkspacesVersion] = useState(0);
 
   const [hasConfig, setHasConfig] = useState(false);
   const [llmConfig, setLLMConfig] = useState<LLMConfig | null>(null);
@@ -32,6 +44,7 @@ function App() {
   const [workflowState, setWorkflowState] = useState<WorkflowState>('input');
   const [showVoiceRecorder, setShowVoiceRecorder] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState<ProcessProgress | null>(null);
   const [error, setError] = useState('');
 
   // Voice configuration state
@@ -56,6 +69,7 @@ function App() {
   // Workflow data
   const [clarificationQuestions, setClarificationQuestions] = useState<string[]>([]);
   const [questionCount, setQuestionCount] = useState(0);
+  const [interviewLimits, setInterviewLimits] = useState<{ softLimitQuestions: number; hardLimitQuestions: number } | null>(null);
   const [classification, setClassification] = useState<Classification | null>(null);
   const [submissionReference, setSubmissionReference] = useState<string>('');
 
@@ -64,6 +78,7 @@ function App() {
     const token = sessionStorage.getItem('authToken');
     const storedUsername = sessionStorage.getItem('username');
     const storedRole = sessionStorage.getItem('userRole');
+    const storedPermissions = sessionStorage.getItem('userPermissions');
     const storedVoiceConfig = sessionStorage.getItem('voiceConfig');
     const storedLLMConfig = sessionStorage.getItem('llmCredentials');
 
@@ -71,6 +86,7 @@ function App() {
       setIsAuthenticated(true);
       setUsername(storedUsername);
       setUserRole(storedRole || 'user');
+      setUserPermissions(storedPermissions ? JSON.parse(storedPermissions) : []);
 
       // Restore voice configuration if available
       if (storedVoiceConfig) {
@@ -101,21 +117,27 @@ function App() {
     setUsername(user);
     const role = sessionStorage.getItem('userRole') || 'user';
     setUserRole(role);
+    setUserPermissions(JSON.parse(sessionStorage.getItem('userPermissions') || '[]'));
   };
 
   const handleLogout = async () => {
     // Don't delete sessions on logout - they need to persist for admin review
-    // Just clear local state
+    // Just end the login session and clear local state
+    await apiService.logout();
     sessionStorage.clear();
     setIsAuthenticated(false);
     setUsername('');
     setUserRole('');
+    setUserPermissions([]);
     setHasConfig(false);
     setLLMConfig(null);
     setVoiceConfig(null); // Clear voice configuration
     apiService.clearSession();
   };
 
+  // Navigation and admin views are shown per permission granted by the user's role
+  const can = (permission: string): boolean => userPermissions.includes(permission);
+
   // Show login screen if not authenticated
   if (!isAuthenticated) {
     return <Login onLoginSuccess={handleLoginSuccess} />;
@@ -197,7 +219,7 @@ function App() {
     setError('');
     setIsProcessing(true);
     try {
-      const response = await apiService.submitProcess(description, subject);
+      const response = await apiService.submitProcess(description, subject, setProgress);
 
       console.log('Submit response:', response);
 
@@ -210,6 +232,7 @@ function App() {
       else if (response.clarificationQuestions && response.clarificationQuestions.length > 0) {
         setClarificationQuestions(response.clarificationQuestions);
         setQuestionCount(response.totalQuestions || response.clarificationQuestions.length);
+        setInterviewLimits(response.interviewLimits || null);
         setWorkflowState('clarification');
       }
       // Admin users get classification results
@@ -226,6 +249,7 @@ function App() {
       setError(err.message || 'Failed to submit process');
     } finally {
       setIsProcessing(false);
+      setProgress(null);
     }
   };
 
@@ -237,7 +261,7 @@ function App() {
       const answers = Array.isArray(answer) ? answer : [answer];
 
       // Send the answers along with the questions that were asked
-      const response = await apiService.addConversation(answers, clarificationQuestions);
+      const response = await apiService.addConversation(answers, clarificationQuestions, setProgress);
 
       // Update question count
       setQuestionCount(prev => prev + answers.length);
@@ -250,6 +274,9 @@ function App() {
       // Check if we need more clarification
       else if (response.clarificationQuestions && response.clarificationQuestions.length > 0) {
         setClarificationQuestions(response.clarificationQuestions);
+        if (response.interviewLimits) {
+          setInterviewLimits(response.interviewLimits);
+        }
       }
       // Admin users get classification results
       else if (response.classification) {
@@ -260,6 +287,7 @@ function App() {
       setError(err.message || 'Failed to submit answer');
     } finally {
       setIsProcessing(false);
+      setProgress(null);
     }
   };
 
@@ -268,7 +296,7 @@ function App() {
     setIsProcessing(true);
     try {
       // Force classification with current information
-      const response = await apiService.forceClassification();
+      const response = await apiService.forceClassification(setProgress);
 
       if (response.classification) {
         setClassification(response.classification);
@@ -280,6 +308,7 @@ function App() {
       setError(err.message || 'Failed to skip interview');
     } finally {
       setIsProcessing(false);
+      setProgress(null);
     }
   };
 
@@ -301,6 +330,7 @@ function App() {
       // Clear local state
       setClarificationQuestions([]);
       setQuestionCount(0);
+      setInterviewLimits(null);
       setClassification(null);
       setWorkflowState('input');
 
@@ -380,11 +410,17 @@ function App() {
     }
   };
 
+  const handleWorkspaceSwitched = async () => {
+    setWorkspaceKey(key => key + 1);
+    await resetWorkflow();
+  };
+
   const resetWorkflow = async () => {
     // Clear workflow state
     setWorkflowState('input');
     setClarificationQuestions([]);
     setQuestionCount(0);
+    setInterviewLimits(null);
     setClassification(null);
     setSubmissionReference('');
     setError('');
@@ -394,8 +430,8 @@ function App() {
       try {
         if (llmConfig.provider === 'openai' && llmConfig.apiKey) {
           await apiService.createSession(llmConfig.apiKey, llmConfig.model);
-        } else if (llmConfig.provider === 'bedrock') {
-          // For Bedrock, createSession will use the config we already set
+        } else if (llmConfig.provider === 'bedrock' || llmConfig.provider === 'local') {
+          // For Bedrock and local endpoints, createSession will use the config we already set
           await apiService.createSession('', llmConfig.model);
         }
       } catch (err: any) {
@@ -479,177 +515,281 @@ function App() {
           >
             Configuration
           </button>
-          {userRole === 'admin' && (
-            <>
-              <button
-                onClick={() => setCurrentView('analytics')}
-                style={{
-                  padding: '8px 14px',
-                  backgroundColor: currentView === 'analytics' ? '#007bff' : 'transparent',
-                  color: '#fff',
-                  border: 'none',
-                  borderRadius: '4px',
-                  cursor: 'pointer',
-                  fontSize: '14px',
-                  transition: 'background-color 0.2s'
-                }}
-                onMouseOver={(e) => {
-                  if (currentView !== 'analytics') e.currentTarget.style.backgroundColor = '#495057';
-                }}
-                onMouseOut={(e) => {
-                  if (currentView !== 'analytics') e.currentTarget.style.backgroundColor = 'transparent';
-                }}
-              >
-                Analytics
-              </button>
-              <button
-                onClick={() => setCurrentView('decision-matrix')}
-                style={{
-                  padding: '8px 14px',
-                  backgroundColor: currentView === 'decision-matrix' ? '#007bff' : 'transparent',
-                  color: '#fff',
-                  border: 'none',
-                  borderRadius: '4px',
-                  cursor: 'pointer',
-                  fontSize: '14px',
-                  transition: 'background-color 0.2s'
-                }}
-                onMouseOver={(e) => {
-                  if (currentView !== 'decision-matrix') e.currentTarget.style.backgroundColor = '#495057';
-                }}
-                onMouseOut={(e) => {
-                  if (currentView !== 'decision-matrix') e.currentTarget.style.backgroundColor = 'transparent';
-                }}
-              >
-                Decision Matrix
-              </button>
-              <button
-                onClick={() => setCurrentView('learning')}
-                style={{
-                  padding: '8px 14px',
-                  backgroundColor: currentView === 'learning' ? '#007bff' : 'transparent',
-                  color: '#fff',
-                  border: 'none',
-                  borderRadius: '4px',
-                  cursor: 'pointer',
-                  fontSize: '14px',
-                  transition: 'background-color 0.2s'
-                }}
-                onMouseOver={(e) => {
-                  if (currentView !== 'learning') e.currentTarget.style.backgroundColor = '#495057';
-                }}
-                onMouseOut={(e) => {
-                  if (currentView !== 'learning') e.currentTarget.style.backgroundColor = 'transparent';
-                }}
-              >
-                AI Learning
-              </button>
-              <button
-                onClick={() => setCurrentView('prompts')}
-                style={{
-                  padding: '8px 14px',
-                  backgroundColor: currentView === 'prompts' ? '#007bff' : 'transparent',
-                  color: '#fff',
-                  border: 'none',
-                  borderRadius: '4px',
-                  cursor: 'pointer',
-                  fontSize: '14px',
-                  transition: 'background-color 0.2s'
-                }}
-                onMouseOver={(e) => {
-                  if (currentView !== 'prompts') e.currentTarget.style.backgroundColor = '#495057';
-                }}
-                onMouseOut={(e) => {
-                  if (currentView !== 'prompts') e.currentTarget.style.backgroundColor = 'transparent';
-                }}
-              >
-                Prompts
-              </button>
-              <button
-                onClick={() => setCurrentView('strategic')}
-                style={{
-                  padding: '8px 14px',
-                  backgroundColor: currentView === 'strategic' ? '#007bff' : 'transparent',
-                  color: '#fff',
-                  border: 'none',
-                  borderRadius: '4px',
-                  cursor: 'pointer',
-                  fontSize: '14px',
-                  transition: 'background-color 0.2s'
-                }}
-                onMouseOver={(e) => {
-                  if (currentView !== 'strategic') e.currentTarget.style.backgroundColor = '#495057';
-                }}
-                onMouseOut={(e) => {
-                  if (currentView !== 'strategic') e.currentTarget.style.backgroundColor = 'transparent';
-                }}
-              >
-                Strategic Qs
-              </button>
-              <button
-                onClick={() => setCurrentView('audit')}
-                style={{
-                  padding: '8px 14px',
-                  backgroundColor: currentView === 'audit' ? '#007bff' : 'transparent',
-                  color: '#fff',
-                  border: 'none',
-                  borderRadius: '4px',
-                  cursor: 'pointer',
-                  fontSize: '14px',
-                  transition: 'background-color 0.2s'
-                }}
-                onMouseOver={(e) => {
-                  if (currentView !== 'audit') e.currentTarget.style.backgroundColor = '#495057';
-                }}
-                onMouseOut={(e) => {
-                  if (currentView !== 'audit') e.currentTarget.style.backgroundColor = 'transparent';
-                }}
-              >
-                Audit Trail
-              </button>
-              <button
-                onClick={() => setCurrentView('admin-review')}
-                style={{
-                  padding: '8px 14px',
-                  backgroundColor: currentView === 'admin-review' ? '#007bff' : 'transparent',
-                  color: '#fff',
-                  border: 'none',
-                  borderRadius: '4px',
-                  cursor: 'pointer',
-                  fontSize: '14px',
-                  transition: 'background-color 0.2s'
-                }}
-                onMouseOver={(e) => {
-                  if (currentView !== 'admin-review') e.currentTarget.style.backgroundColor = '#495057';
-                }}
-                onMouseOut={(e) => {
-                  if (currentView !== 'admin-review') e.currentTarget.style.backgroundColor = 'transparent';
-                }}
-              >
-                Admin Review
-              </button>
-              <button
-                onClick={() => setCurrentView('users')}
-                style={{
-                  padding: '8px 14px',
-                  backgroundColor: currentView === 'users' ? '#007bff' : 'transparent',
-                  color: '#fff',
-                  border: 'none',
-                  borderRadius: '4px',
-                  cursor: 'pointer',
-                  fontSize: '14px',
-                  transition: 'background-color 0.2s'
-                }}
-                onMouseOver={(e) => {
-                  if (currentView !== 'users') e.currentTarget.style.backgroundColor = '#495057';
-                }}
-                onMouseOut={(e) => {
-                  if (currentView !== 'users') e.currentTarget.style.backgroundColor = 'transparent';
-                }}
-              >
-                Users
-              </button>
-            </>
+          {can('analytics:read') && (
+            <button
+              onClick={() => setCurrentView('analytics')}
+              style={{
+                padding: '8px 14px',
+                backgroundColor: currentView === 'analytics' ? '#007bff' : 'transparent',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '14px',
+                transition: 'background-color 0.2s'
+              }}
+              onMouseOver={(e) => {
+                if (currentView !== 'analytics') e.currentTarget.style.backgroundColor = '#495057';
+              }}
+              onMouseOut={(e) => {
+                if (currentView !== 'analytics') e.currentTarget.style.backgroundColor = 'transparent';
+              }}
+            >
+              Analytics
+            </button>
+          )}
+          {can('matrix:read') && (
+            <button
+              onClick={() => setCurrentView('decision-matrix')}
+              style={{
+                padding: '8px 14px',
+                backgroundColor: currentView === 'decision-matrix' ? '#007bff' : 'transparent',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '14px',
+                transition: 'background-color 0.2s'
+              }}
+              onMouseOver={(e) => {
+                if (currentView !== 'decision-matrix') e.currentTarget.style.backgroundColor = '#495057';
+              }}
+              onMouseOut={(e) => {
+                if (currentView !== 'decision-matrix') e.currentTarget.style.backgroundColor = 'transparent';
+              }}
+            >
+              Decision Matrix
+            </button>
+          )}
+          {can('learning:manage') && (
+            <button
+              onClick={() => setCurrentView('learning')}
+              style={{
+                padding: '8px 14px',
+                backgroundColor: currentView === 'learning' ? '#007bff' : 'transparent',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '14px',
+                transition: 'background-color 0.2s'
+              }}
+              onMouseOver={(e) => {
+                if (currentView !== 'learning') e.currentTarget.style.backgroundColor = '#495057';
+              }}
+              onMouseOut={(e) => {
+                if (currentView !== 'learning') e.currentTarget.style.backgroundColor = 'transparent';
+              }}
+            >
+              AI Learning
+            </button>
+          )}
+          {can('prompts:read') && (
+            <button
+              onClick={() => setCurrentView('prompts')}
+              style={{
+                padding: '8px 14px',
+                backgroundColor: currentView === 'prompts' ? '#007bff' : 'transparent',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '14px',
+                transition: 'background-color 0.2s'
+              }}
+              onMouseOver={(e) => {
+                if (currentView !== 'prompts') e.currentTarget.style.backgroundColor = '#495057';
+              }}
+              onMouseOut={(e) => {
+                if (currentView !== 'prompts') e.currentTarget.style.backgroundColor = 'transparent';
+              }}
+            >
+              Prompts
+            </button>
+          )}
+          {can('matrix:read') && (
+            <button
+              onClick={() => setCurrentView('strategic')}
+              style={{
+                padding: '8px 14px',
+                backgroundColor: currentView === 'strategic' ? '#007bff' : 'transparent',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '14px',
+                transition: 'background-color 0.2s'
+              }}
+              onMouseOver={(e) => {
+                if (currentView !== 'strategic') e.currentTarget.style.backgroundColor = '#495057';
+              }}
+              onMouseOut={(e) => {
+                if (currentView !== 'strategic') e.currentTarget.style.backgroundColor = 'transparent';
+              }}
+            >
+              Strategic Qs
+            </button>
+          )}
+          {can('matrix:read') && (
+            <button
+              onClick={() => setCurrentView('interview-policy')}
+              style={{
+                padding: '8px 14px',
+                backgroundColor: currentView === 'interview-policy' ? '#007bff' : 'transparent',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '14px',
+                transition: 'background-color 0.2s'
+              }}
+              onMouseOver={(e) => {
+                if (currentView !== 'interview-policy') e.currentTarget.style.backgroundColor = '#495057';
+              }}
+              onMouseOut={(e) => {
+                if (currentView !== 'interview-policy') e.currentTarget.style.backgroundColor = 'transparent';
+              }}
+            >
+              Interview
+            </button>
+          )}
+          {can('audit:read') && (
+            <button
+              onClick={() => setCurrentView('audit')}
+              style={{
+                padding: '8px 14px',
+                backgroundColor: currentView === 'audit' ? '#007bff' : 'transparent',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '14px',
+                transition: 'background-color 0.2s'
+              }}
+              onMouseOver={(e) => {
+                if (currentView !== 'audit') e.currentTarget.style.backgroundColor = '#495057';
+              }}
+              onMouseOut={(e) => {
+                if (currentView !== 'audit') e.currentTarget.style.backgroundColor = 'transparent';
+              }}
+            >
+              Audit Trail
+            </button>
+          )}
+          {can('sessions:review') && (
+            <button
+              onClick={() => setCurrentView('admin-review')}
+              style={{
+                padding: '8px 14px',
+                backgroundColor: currentView === 'admin-review' ? '#007bff' : 'transparent',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '14px',
+                transition: 'background-color 0.2s'
+              }}
+              onMouseOver={(e) => {
+                if (currentView !== 'admin-review') e.currentTarget.style.backgroundColor = '#495057';
+              }}
+              onMouseOut={(e) => {
+                if (currentView !== 'admin-review') e.currentTarget.style.backgroundColor = 'transparent';
+              }}
+            >
+              Admin Review
+            </button>
+          )}
+          {can('batch:run') && (
+            <button
+              onClick={() => setCurrentView('batch')}
+              style={{
+                padding: '8px 14px',
+                backgroundColor: currentView === 'batch' ? '#007bff' : 'transparent',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '14px',
+                transition: 'background-color 0.2s'
+              }}
+              onMouseOver={(e) => {
+                if (currentView !== 'batch') e.currentTarget.style.backgroundColor = '#495057';
+              }}
+              onMouseOut={(e) => {
+                if (currentView !== 'batch') e.currentTarget.style.backgroundColor = 'transparent';
+              }}
+            >
+              Batch
+            </button>
+          )}
+          {can('users:manage') && (
+            <button
+              onClick={() => setCurrentView('users')}
+              style={{
+                padding: '8px 14px',
+                backgroundColor: currentView === 'users' ? '#007bff' : 'transparent',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '14px',
+                transition: 'background-color 0.2s'
+              }}
+              onMouseOver={(e) => {
+                if (currentView !== 'users') e.currentTarget.style.backgroundColor = '#495057';
+              }}
+              onMouseOut={(e) => {
+                if (currentView !== 'users') e.currentTarget.style.backgroundColor = 'transparent';
+              }}
+            >
+              Users
+            </button>
+          )}
+          {can('pii:manage') && (
+            <button
+              onClick={() => setCurrentView('pii')}
+              style={{
+                padding: '8px 14px',
+                backgroundColor: currentView === 'pii' ? '#007bff' : 'transparent',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '14px',
+                transition: 'background-color 0.2s'
+              }}
+              onMouseOver={(e) => {
+                if (currentView !== 'pii') e.currentTarget.style.backgroundColor = '#495057';
+              }}
+              onMouseOut={(e) => {
+                if (currentView !== 'pii') e.currentTarget.style.backgroundColor = 'transparent';
+              }}
+            >
+              PII
+            </button>
+          )}
+          {can('privacy:manage') && (
+            <button
+              onClick={() => setCurrentView('privacy')}
+              style={{
+                padding: '8px 14px',
+                backgroundColor: currentView === 'privacy' ? '#007bff' : 'transparent',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '14px',
+                transition: 'background-color 0.2s'
+              }}
+              onMouseOver={(e) => {
+                if (currentView !== 'privacy') e.currentTarget.style.backgroundColor = '#495057';
+              }}
+              onMouseOut={(e) => {
+                if (currentView !== 'privacy') e.currentTarget.style.backgroundColor = 'transparent';
+              }}
+            >
+              Privacy
+            </button>
           )}
         </div>
 
@@ -661,6 +801,12 @@ function App() {
           minWidth: '180px',
           justifyContent: 'flex-end'
         }}>
+          <WorkspaceSwitcher
+            onLoadWorkspaces={() => apiService.getWorkspaces()}
+            onSwitchWorkspace={(workspaceId) => apiService.switchWorkspace(workspaceId)}
+            onSwitched={handleWorkspaceSwitched}
+            refreshKey={workspacesVersion}
+          />
           <span style={{
             color: '#e9ecef',
             fontSize: '14px',
@@ -700,7 +846,7 @@ function App() {
                 fontSize: '14px',
                 fontWeight: 'bold'
               }}
-              title="Regular User"
+              title={userRole === 'user' ? 'Regular User' : userRole}
             >
               U
             </span>
@@ -741,7 +887,7 @@ function App() {
   );
 
   return (
-    <div style={{ minHeight: '100vh', backgroundColor: '#f8f9fa' }}>
+    <div key={workspaceKey} style={{ minHeight: '100vh', backgroundColor: '#f8f9fa' }}>
       {renderNavigation()}
 
       {error && (
@@ -773,8 +919,13 @@ function App() {
                 ✓ Configuration saved successfully!
               </div>
               <div style={{ fontSize: '14px', marginBottom: '8px' }}>
-                <strong>Provider:</strong> {llmConfig.provider === 'openai' ? 'OpenAI' : 'AWS Bedrock'}
+                <strong>Provider:</strong> {llmConfig.provider === 'openai' ? 'OpenAI' : llmConfig.provider === 'local' ? 'Local (OpenAI-compatible)' : 'AWS Bedrock'}
               </div>
+              {llmConfig.provider === 'local' && llmConfig.baseUrl && (
+                <div style={{ fontSize: '14px', marginBottom: '8px' }}>
+                  <strong>Endpoint:</strong> {llmConfig.baseUrl}
+                </div>
+              )}
               <div style={{ fontSize: '14px', marginBottom: '8px' }}>
                 <strong>Model:</strong> {llmConfig.model}
               </div>
@@ -804,6 +955,13 @@ function App() {
               </div>
             </div>
           )}
+          <TwoFactorSettings
+            onLoadStatus={() => apiService.getTwoFactorStatus()}
+            onBeginSetup={() => apiService.beginTwoFactorSetup()}
+            onEnable={(code) => apiService.enableTwoFactor(code)}
+            onDisable={(password, code) => apiService.disableTwoFactor(password, code)}
+            onRegenerateRecoveryCodes={(code) => apiService.regenerateRecoveryCodes(code)}
+          />
         </div>
       )}
 
@@ -830,7 +988,7 @@ function App() {
                 marginBottom: '20px'
               }}>
                 <p style={{ margin: 0, color: '#856404' }}>
-                  ⚠️ To get started, please configure your LLM provider (OpenAI or AWS Bedrock) in the Configuration tab.
+                  ⚠️ To get started, please configure your LLM provider (OpenAI, AWS Bedrock or a local OpenAI-compatible server) in the Configuration tab.
                 </p>
               </div>
               <button
@@ -877,9 +1035,15 @@ function App() {
                   showVoiceButton={shouldShowVoiceButton()}
                   streamingMode={voiceConfig?.streamingMode || false}
                   voiceType={voiceConfig?.voiceType}
+                  softLimitQuestions={interviewLimits?.softLimitQuestions}
+                  hardLimitQuestions={interviewLimits?.hardLimitQuestions}
                 />
               )}
 
+              {isProcessing && progress && (
+                <ClassificationProgress progress={progress} />
+              )}
+
               {workflowState === 'result' && classification && (
                 <>
                   <ClassificationResult
@@ -1046,6 +1210,9 @@ function App() {
           onExportMatrix={(version) => apiService.exportDecisionMatrix(version)}
           onExportAllVersions={() => apiService.exportAllDecisionMatrixVersions()}
           onImportMatrix={(matrixData, replaceExisting) => apiService.importDecisionMatrix(matrixData, replaceExisting)}
+          onSimulateMatrix={(matrix) => apiService.simulateDecisionMatrix(matrix)}
+          onDiffVersions={(fromVersion, toVersion) => apiService.diffDecisionMatrixVersions(fromVersion, toVersion)}
+          onActivateVersion={(version, reason) => apiService.activateDecisionMatrixVersion(version, reason)}
         />
       )}
 
@@ -1071,24 +1238,57 @@ function App() {
         <StrategicQuestionsAdmin />
       )}
 
+      {currentView === 'interview-policy' && (
+        <InterviewPolicyAdmin canEdit={can('questions:edit')} />
+      )}
+
+      {currentView === 'pii' && can('pii:manage') && (
+        <PIIDetectorsAdmin />
+      )}
+
+      {currentView === 'privacy' && can('privacy:manage') && (
+        <PrivacyAdmin />
+      )}
+
       {currentView === 'audit' && (
         <AuditTrail
           onLoadAuditLogs={(date) => apiService.getAuditLogs(date)}
         />
       )}
 
-      {currentView === 'users' && userRole === 'admin' && (
+      {currentView === 'users' && can('workspaces:manage') && (
+        <WorkspaceAdmin
+          onLoadWorkspaces={() => apiService.getWorkspaces().then(result => result.workspaces)}
+          onCreateWorkspace={(name, description, copyFrom) => apiService.createWorkspace(name, description, copyFrom)}
+          onUpdateWorkspace={(workspaceId, updates) => apiService.updateWorkspace(workspaceId, updates)}
+          onWorkspacesChanged={() => setWorkspacesVersion(version => version + 1)}
+        />
+      )}
+
+      {currentView === 'users' && can('users:manage') && (
         <UserManagement
+          key={workspacesVersion}
           onLoadUsers={() => apiService.getUsers()}
           onCreateUser={(username, password, role) => apiService.createUser(username, password, role)}
           onDeleteUser={(userId) => apiService.deleteUser(userId)}
           onChangeRole={(userId, newRole) => apiService.changeUserRole(userId, newRole)}
           onResetPassword={(userId, newPassword) => apiService.resetUserPassword(userId, newPassword)}
+          onRevokeSessions={(userId) => apiService.revokeUserSessions(userId)}
+          onUnlockUser={(userId) => apiService.unlockUser(userId)}
+          onLoadLoginEvents={(username) => apiService.getLoginEvents(username)}
+          onLoadPasswordRequirements={() => apiService.getPasswordRequirements()}
+          onResetTwoFactor={(userId) => apiService.resetUserTwoFactor(userId)}
+          onLoadSecuritySettings={() => apiService.getSecuritySettings()}
+          onUpdateSecuritySettings={(settings) => apiService.updateSecuritySettings(settings)}
+          onLoadLLMQuotas={() => apiService.getLLMQuotas()}
+          onUpdateLLMQuotas={(settings) => apiService.updateLLMQuotas(settings)}
+          onLoadWorkspaces={() => apiService.getWorkspaces().then(result => result.workspaces)}
+          onSetUserWorkspaces={(userId, workspaceIds) => apiService.setUserWorkspaces(userId, workspaceIds)}
           currentUserId={sessionStorage.getItem('userId') || ''}
         />
       )}
 
-      {currentView === 'admin-review' && userRole === 'admin' && (
+      {currentView === 'admin-review' && can('sessions:review') && (
         <AdminReview
           onLoadPendingReviews={() => apiService.getPendingReviews()}
           onSubmitReview={(sessionId, approved, correctedCategory, reviewNotes) =>
@@ -1098,6 +1298,17 @@ function App() {
         />
       )}
 
+      {currentView === 'batch' && can('batch:run') && (
+        <BatchClassification
+          hasConfig={hasConfig}
+          onStartJob={(file) => apiService.startBatchJob(file)}
+          onLoadJobs={() => apiService.getBatchJobs()}
+          onLoadJob={(jobId) => apiService.getBatchJob(jobId)}
+          onCancelJob={(jobId) => apiService.cancelBatchJob(jobId)}
+          onDownloadResults={(jobId, format) => apiService.downloadBatchResults(jobId, format)}
+        />
+      )}
+
       {showVoiceRecorder && hasConfig && (
         <VoiceRecorder
           onTranscription={handleVoiceRecordComplete}
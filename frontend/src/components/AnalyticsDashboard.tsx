@@ -5,12 +5,14 @@ import {
   SessionListItem, 
   FilterOptions,
   FilteredMetrics
-} from '../../../shared/dist';
+} from '../../../shared/types';
 import { apiService } from '../services/api';
 import SessionFilters from './SessionFilters';
 import FilteredMetricsSummary from './FilteredMetricsSummary';
 import SessionListTable from './SessionListTable';
 import SessionDetailModal from './SessionDetailModal';
+import LLMUsagePanel from './LLMUsagePanel';
+import InterviewPolicyComparison from './InterviewPolicyComparison';
 
 interface AnalyticsDashboardProps {
   onLoadAnalytics: () => Promise<AnalyticsMetrics>;
@@ -533,6 +535,14 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ onLoadAnalytics
         )}
       </div>
 
+      {/* Interview Policy Comparison */}
+      {metrics.interviewPolicyMetrics && (
+        <InterviewPolicyComparison metrics={metrics.interviewPolicyMetrics} />
+      )}
+
+      {/* LLM Usage & Cost */}
+      <LLMUsagePanel />
+
       {/* Metadata */}
       <div style={{
         marginTop: '20px',
@@ -0,0 +1,356 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { BatchJob, TransformationCategory } from '../../../shared/types';
+import { BatchJobSummary } from '../services/api';
+
+interface BatchClassificationProps {
+  hasConfig: boolean;
+  onStartJob: (file: File) => Promise<BatchJobSummary>;
+  onLoadJobs: () => Promise<BatchJobSummary[]>;
+  onLoadJob: (jobId: string) => Promise<BatchJob>;
+  onCancelJob: (jobId: string) => Promise<void>;
+  onDownloadResults: (jobId: string, format: 'csv' | 'jsonl') => Promise<Blob>;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+const BatchClassification: React.FC<BatchClassificationProps> = ({
+  hasConfig,
+  onStartJob,
+  onLoadJobs,
+  onLoadJob,
+  onCancelJob,
+  onDownloadResults
+}) => {
+  const [jobs, setJobs] = useState<BatchJobSummary[]>([]);
+  const [selectedJob, setSelectedJob] = useState<BatchJob | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadJobs();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Poll the selected job while it is running
+  useEffect(() => {
+    if (!selectedJob || selectedJob.status !== 'running') {
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const job = await onLoadJob(selectedJob.jobId);
+        setSelectedJob(job);
+        if (job.status !== 'running') {
+          loadJobs();
+        }
+      } catch (err: any) {
+        setError(err.message || 'Failed to refresh job');
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedJob]);
+
+  const loadJobs = async () => {
+    try {
+      setJobs(await onLoadJobs());
+    } catch (err: any) {
+      setError(err.message || 'Failed to load batch jobs');
+    }
+  };
+
+  const handleSelectJob = async (jobId: string) => {
+    setError('');
+    try {
+      setSelectedJob(await onLoadJob(jobId));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load job');
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!file) {
+      setError('Please choose a CSV or JSONL file');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    try {
+      const job = await onStartJob(file);
+      setFile(null);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+      await loadJobs();
+      await handleSelectJob(job.jobId);
+    } catch (err: any) {
+      setError(err.message || 'Failed to start batch job');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!selectedJob) return;
+    try {
+      await onCancelJob(selectedJob.jobId);
+    } catch (err: any) {
+      setError(err.message || 'Failed to cancel job');
+    }
+  };
+
+  const handleDownload = async (format: 'csv' | 'jsonl') => {
+    if (!selectedJob) return;
+    try {
+      const blob = await onDownloadResults(selectedJob.jobId, format);
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `batch-${selectedJob.jobId}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (err: any) {
+      setError(err.message || 'Failed to download results');
+    }
+  };
+
+  const getStatusColor = (status: string): string => {
+    const colors: Record<string, string> = {
+      running: '#007bff',
+      completed: '#28a745',
+      failed: '#dc3545',
+      cancelled: '#6c757d',
+      pending: '#6c757d'
+    };
+    return colors[status] || '#6c757d';
+  };
+
+  const getCategoryColor = (category: TransformationCategory): string => {
+    const colors: Record<TransformationCategory, string> = {
+      'Eliminate': '#dc3545',
+      'Simplify': '#fd7e14',
+      'Digitise': '#ffc107',
+      'RPA': '#28a745',
+      'AI Agent': '#17a2b8',
+      'Agentic AI': '#6f42c1'
+    };
+    return colors[category] || '#6c757d';
+  };
+
+  const cellStyle: React.CSSProperties = {
+    padding: '8px',
+    borderBottom: '1px solid #dee2e6',
+    textAlign: 'left',
+    fontSize: '13px',
+    verticalAlign: 'top'
+  };
+
+  const progressPercent = selectedJob && selectedJob.progress.total > 0
+    ? Math.round((selectedJob.progress.processed / selectedJob.progress.total) * 100)
+    : 0;
+
+  return (
+    <div style={{ maxWidth: '1400px', margin: '0 auto', padding: '20px' }}>
+      <h2 style={{ marginBottom: '20px' }}>Batch Classification</h2>
+
+      {error && (
+        <div style={{
+          padding: '15px',
+          backgroundColor: '#f8d7da',
+          color: '#721c24',
+          borderRadius: '4px',
+          marginBottom: '20px'
+        }}>
+          {error}
+        </div>
+      )}
+
+      <div style={{
+        padding: '20px',
+        backgroundColor: '#f8f9fa',
+        borderRadius: '8px',
+        marginBottom: '20px'
+      }}>
+        <h3 style={{ marginTop: 0 }}>Upload</h3>
+        <p style={{ fontSize: '14px', color: '#6c757d', marginTop: 0 }}>
+          CSV with a header row, or JSONL with one object per line. Required column: <code>description</code>.
+          Optional: <code>subject</code>, <code>id</code>. Items are classified with the decision matrix and no
+          clarification questions; each becomes its own session.
+        </p>
+
+        {!hasConfig && (
+          <div style={{
+            padding: '10px',
+            backgroundColor: '#fff3cd',
+            color: '#856404',
+            borderRadius: '4px',
+            marginBottom: '10px',
+            fontSize: '14px'
+          }}>
+            Configure your LLM provider in the Configuration tab before starting a batch.
+          </div>
+        )}
+
+        <div style={{ display: 'flex', gap: '10px', alignItems: 'center' }}>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.jsonl,.ndjson"
+            aria-label="Batch file"
+            onChange={(e) => setFile(e.target.files && e.target.files[0] ? e.target.files[0] : null)}
+          />
+          <button
+            onClick={handleUpload}
+            disabled={loading || !file || !hasConfig}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: loading || !file || !hasConfig ? '#6c757d' : '#007bff',
+              color: '#fff',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: loading || !file || !hasConfig ? 'not-allowed' : 'pointer'
+            }}
+          >
+            {loading ? 'Starting...' : 'Start Batch'}
+          </button>
+        </div>
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 2fr', gap: '20px' }}>
+        <div>
+          <h3>Jobs</h3>
+          {jobs.length === 0 ? (
+            <p style={{ color: '#6c757d' }}>No batch jobs yet</p>
+          ) : (
+            jobs.map(job => (
+              <div
+                key={job.jobId}
+                onClick={() => handleSelectJob(job.jobId)}
+                style={{
+                  padding: '12px',
+                  marginBottom: '10px',
+                  border: selectedJob?.jobId === job.jobId ? '2px solid #007bff' : '1px solid #dee2e6',
+                  borderRadius: '4px',
+                  cursor: 'pointer',
+                  backgroundColor: '#fff'
+                }}
+              >
+                <div style={{ fontWeight: 'bold', fontSize: '14px' }}>{job.fileName || job.jobId}</div>
+                <div style={{ fontSize: '12px', color: '#6c757d' }}>
+                  {new Date(job.createdAt).toLocaleString()} · {job.model}
+                </div>
+                <div style={{ fontSize: '12px', marginTop: '4px' }}>
+                  <span style={{ color: getStatusColor(job.status), fontWeight: 'bold' }}>{job.status}</span>
+                  {' '}· {job.progress.processed}/{job.progress.total} processed
+                  {job.progress.failed > 0 && `, ${job.progress.failed} failed`}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div>
+          {selectedJob ? (
+            <>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <h3>{selectedJob.fileName || selectedJob.jobId}</h3>
+                <div style={{ display: 'flex', gap: '8px' }}>
+                  {selectedJob.status === 'running' && (
+                    <button
+                      onClick={handleCancel}
+                      style={{ padding: '6px 12px', backgroundColor: '#dc3545', color: '#fff', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                    >
+                      Cancel
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleDownload('csv')}
+                    style={{ padding: '6px 12px', backgroundColor: '#28a745', color: '#fff', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                  >
+                    Download CSV
+                  </button>
+                  <button
+                    onClick={() => handleDownload('jsonl')}
+                    style={{ padding: '6px 12px', backgroundColor: '#17a2b8', color: '#fff', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                  >
+                    Download JSONL
+                  </button>
+                </div>
+              </div>
+
+              <div style={{ marginBottom: '15px' }}>
+                <div style={{ fontSize: '14px', marginBottom: '6px' }}>
+                  <span style={{ color: getStatusColor(selectedJob.status), fontWeight: 'bold' }}>{selectedJob.status}</span>
+                  {' '}· {selectedJob.progress.succeeded} succeeded, {selectedJob.progress.failed} failed of {selectedJob.progress.total}
+                </div>
+                <div
+                  role="progressbar"
+                  aria-valuenow={progressPercent}
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  style={{ height: '10px', backgroundColor: '#e9ecef', borderRadius: '5px', overflow: 'hidden' }}
+                >
+                  <div style={{ width: `${progressPercent}%`, height: '100%', backgroundColor: '#007bff', transition: 'width 0.3s' }} />
+                </div>
+                {selectedJob.error && (
+                  <div style={{ color: '#dc3545', fontSize: '13px', marginTop: '6px' }}>{selectedJob.error}</div>
+                )}
+              </div>
+
+              <div style={{ overflowX: 'auto' }}>
+                <table style={{ width: '100%', borderCollapse: 'collapse', backgroundColor: '#fff' }}>
+                  <thead>
+                    <tr style={{ backgroundColor: '#f8f9fa' }}>
+                      <th style={cellStyle}>#</th>
+                      <th style={cellStyle}>ID</th>
+                      <th style={cellStyle}>Subject</th>
+                      <th style={cellStyle}>Status</th>
+                      <th style={cellStyle}>Category</th>
+                      <th style={cellStyle}>Confidence</th>
+                      <th style={cellStyle}>Triggered Rules</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {selectedJob.items.map(item => (
+                      <tr key={item.index}>
+                        <td style={cellStyle}>{item.index}</td>
+                        <td style={cellStyle}>{item.externalId || '-'}</td>
+                        <td style={cellStyle}>{item.subject || '-'}</td>
+                        <td style={cellStyle}>
+                          <span style={{ color: getStatusColor(item.status) }}>{item.status}</span>
+                          {item.error && <div style={{ color: '#dc3545', fontSize: '12px' }}>{item.error}</div>}
+                        </td>
+                        <td style={cellStyle}>
+                          {item.category ? (
+                            <span style={{ color: getCategoryColor(item.category), fontWeight: 'bold' }}>{item.category}</span>
+                          ) : '-'}
+                        </td>
+                        <td style={cellStyle}>
+                          {item.confidence !== undefined ? `${(item.confidence * 100).toFixed(0)}%` : '-'}
+                        </td>
+                        <td style={cellStyle}>
+                          {item.triggeredRules && item.triggeredRules.length > 0 ? item.triggeredRules.join(', ') : '-'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          ) : (
+            <p style={{ color: '#6c757d' }}>Select a job to see its progress and results</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchClassification;
@@ -15,6 +15,8 @@ interface ClarificationQuestionsProps {
   showVoiceButton?: boolean;
   streamingMode?: boolean;
   voiceType?: string;
+  softLimitQuestions?: number; // From the session's interview policy
+  hardLimitQuestions?: number;
 }
 
 const ClarificationQuestions: React.FC<ClarificationQuestionsProps> = ({
@@ -29,6 +31,8 @@ const ClarificationQuestions: React.FC<ClarificationQuestionsProps> = ({
   showVoiceButton = true,
   streamingMode = false,
   voiceType,
+  softLimitQuestions = 8,
+  hardLimitQuestions = 15,
 }) => {
   // Initialize answers array with empty strings for each question
   const [answers, setAnswers] = useState<string[]>(questions.map(() => ''));
@@ -303,9 +307,9 @@ const ClarificationQuestions: React.FC<ClarificationQuestionsProps> = ({
       }}>
         <p style={{ marginBottom: '15px' }}>
           We need a bit more information to provide an accurate classification.
-          {currentQuestionIndex >= 8 && (
+          {currentQuestionIndex >= softLimitQuestions && (
             <span style={{ color: '#dc3545', fontWeight: 'bold' }}>
-              {' '}({currentQuestionIndex + 1}/15 questions - approaching limit)
+              {' '}({currentQuestionIndex + 1}/{hardLimitQuestions} questions - approaching limit)
             </span>
           )}
         </p>
@@ -0,0 +1,52 @@
+import React from 'react';
+import { ProcessStreamStage } from '../../../shared/types';
+import { ProcessProgress } from '../services/api';
+
+interface ClassificationProgressProps {
+  progress: ProcessProgress;
+}
+
+const STAGE_LABELS: Record<ProcessStreamStage, string> = {
+  classifying: 'Classifying the process...',
+  clarifying: 'Preparing follow-up questions...',
+  evaluating: 'Evaluating against the decision matrix...',
+};
+
+const ClassificationProgress: React.FC<ClassificationProgressProps> = ({ progress }) => {
+  return (
+    <div style={{
+      maxWidth: '800px',
+      margin: '0 auto',
+      padding: '0 20px 20px'
+    }}>
+      <div style={{
+        backgroundColor: '#f8f9fa',
+        border: '1px solid #ddd',
+        borderRadius: '8px',
+        padding: '20px'
+      }}>
+        <div style={{ fontWeight: 'bold', color: '#007bff' }}>
+          {progress.stage ? STAGE_LABELS[progress.stage] : 'Sending request...'}
+        </div>
+
+        {progress.rationale && (
+          <div style={{ marginTop: '15px' }}>
+            <div style={{ fontSize: '14px', color: '#666', marginBottom: '5px' }}>
+              Rationale
+            </div>
+            <p style={{
+              margin: 0,
+              lineHeight: '1.6',
+              color: '#333',
+              whiteSpace: 'pre-wrap'
+            }}>
+              {progress.rationale}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ClassificationProgress;
@@ -1,16 +1,22 @@
 import React, { useEffect, useState, useCallback } from 'react';
-import { DecisionMatrix } from '../../../shared/dist';
+import { DecisionMatrix, DecisionMatrixActivation, DecisionMatrixDiff, MatrixSimulationResult } from '../../../shared/dist';
 import DecisionMatrixFlowEditor from './DecisionMatrixFlowEditor';
+import MatrixSimulationPanel from './MatrixSimulationPanel';
+import MatrixDiffView from './MatrixDiffView';
+import { formatRuleCondition, isConditionGroup } from './decision-matrix-flow/utils/conditionGroups';
 
 interface DecisionMatrixAdminProps {
   onLoadMatrix: () => Promise<DecisionMatrix>;
-  onLoadVersions: () => Promise<{ versions: string[] }>;
+  onLoadVersions: () => Promise<{ versions: string[]; activeVersion?: string | null; activation?: DecisionMatrixActivation | null }>;
   onLoadVersion: (version: string) => Promise<DecisionMatrix>;
   onUpdateMatrix: (matrix: DecisionMatrix) => Promise<DecisionMatrix>;
   onGenerateMatrix: () => Promise<{ matrix: DecisionMatrix }>;
   onExportMatrix: (version?: string) => Promise<Blob>;
   onExportAllVersions: () => Promise<Blob>;
   onImportMatrix: (matrixData: any, replaceExisting: boolean) => Promise<any>;
+  onSimulateMatrix: (matrix: DecisionMatrix) => Promise<MatrixSimulationResult>;
+  onDiffVersions: (fromVersion: string, toVersion: string) => Promise<DecisionMatrixDiff>;
+  onActivateVersion: (version: string, reason: string) => Promise<{ previousVersion: string | null; activation: DecisionMatrixActivation }>;
 }
 
 const DecisionMatrixAdmin: React.FC<DecisionMatrixAdminProps> = ({
@@ -22,6 +28,9 @@ const DecisionMatrixAdmin: React.FC<DecisionMatrixAdminProps> = ({
   onExportMatrix,
   onExportAllVersions,
   onImportMatrix,
+  onSimulateMatrix,
+  onDiffVersions,
+  onActivateVersion,
 }) => {
   const [matrix, setMatrix] = useState<DecisionMatrix | null>(null);
   const [versions, setVersions] = useState<string[]>([]);
@@ -40,6 +49,15 @@ const DecisionMatrixAdmin: React.FC<DecisionMatrixAdminProps> = ({
   const [showImportDialog, setShowImportDialog] = useState(false);
   const [importFileContent, setImportFileContent] = useState<any>(null);
   const [replaceExisting, setReplaceExisting] = useState(true); // Default to creating new version
+  const [simulating, setSimulating] = useState(false);
+  const [simulation, setSimulation] = useState<MatrixSimulationResult | null>(null);
+  const [compareVersion, setCompareVersion] = useState('');
+  const [diff, setDiff] = useState<DecisionMatrixDiff | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [activeVersion, setActiveVersion] = useState<string | null>(null);
+  const [activation, setActivation] = useState<DecisionMatrixActivation | null>(null);
+  const [activationReason, setActivationReason] = useState('');
+  const [activating, setActivating] = useState(false);
 
   const loadData = useCallback(async () => {
     setLoading(true);
@@ -52,6 +70,8 @@ const DecisionMatrixAdmin: React.FC<DecisionMatrixAdminProps> = ({
       ]);
       setMatrix(matrixData);
       setVersions(versionsData.versions || []);
+      setActiveVersion(versionsData.activeVersion || matrixData.version);
+      setActivation(versionsData.activation || null);
       setSelectedVersion(matrixData.version);
     } catch (err: any) {
       // Check if it's a 404 (matrix not initialized)
@@ -70,6 +90,13 @@ const DecisionMatrixAdmin: React.FC<DecisionMatrixAdminProps> = ({
     loadData();
   }, [loadData]);
 
+  // Default to comparing against the version before the one being viewed
+  useEffect(() => {
+    const index = versions.indexOf(selectedVersion);
+    setCompareVersion(index >= 0 && index + 1 < versions.length ? versions[index + 1] : '');
+    setDiff(null);
+  }, [versions, selectedVersion]);
+
   const handleGenerate = async () => {
     setGenerating(true);
     setError('');
@@ -208,6 +235,7 @@ const DecisionMatrixAdmin: React.FC<DecisionMatrixAdminProps> = ({
       const updatedMatrix = await onUpdateMatrix(matrix);
       setMatrix(updatedMatrix);
       setEditMode(false);
+      setSimulation(null);
       setSuccessMessage(`Decision matrix saved successfully! New version: ${updatedMatrix.version}`);
       await loadData(); // Reload to get new version list
       // Clear success message after 5 seconds
@@ -219,6 +247,59 @@ const DecisionMatrixAdmin: React.FC<DecisionMatrixAdminProps> = ({
     }
   };
 
+  const handleSimulate = async () => {
+    if (!matrix) return;
+
+    setSimulating(true);
+    setError('');
+    try {
+      setSimulation(await onSimulateMatrix(matrix));
+    } catch (err: any) {
+      setError(err.message || 'Failed to simulate decision matrix');
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  const handleCompare = async () => {
+    if (!compareVersion || !selectedVersion) return;
+
+    setComparing(true);
+    setError('');
+    try {
+      setDiff(await onDiffVersions(compareVersion, selectedVersion));
+    } catch (err: any) {
+      setError(err.message || 'Failed to compare versions');
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const handleActivate = async () => {
+    if (!selectedVersion || !activationReason.trim()) return;
+
+    const isRollback = activeVersion !== null && versions.indexOf(selectedVersion) > versions.indexOf(activeVersion);
+    if (!window.confirm(
+      `${isRollback ? 'Roll back' : 'Switch'} the live decision matrix from v${activeVersion} to v${selectedVersion}? ` +
+      'New classifications will use this version immediately.'
+    )) return;
+
+    setActivating(true);
+    setError('');
+    setSuccessMessage('');
+    try {
+      const response = await onActivateVersion(selectedVersion, activationReason.trim());
+      setActivationReason('');
+      setSuccessMessage(`Version ${selectedVersion} is now active (was ${response.previousVersion || 'none'})`);
+      await loadData();
+      setTimeout(() => setSuccessMessage(''), 5000);
+    } catch (err: any) {
+      setError(err.message || 'Failed to activate version');
+    } finally {
+      setActivating(false);
+    }
+  };
+
   const handleFlowSave = async (updatedMatrix: DecisionMatrix) => {
     setSaving(true);
     setError('');
@@ -488,6 +569,7 @@ const DecisionMatrixAdmin: React.FC<DecisionMatrixAdminProps> = ({
         matrix={matrix}
         onSave={handleFlowSave}
         onCancel={handleFlowCancel}
+        diff={diff && diff.toVersion === matrix.version ? diff : null}
       />
       {/* Success Message for Flow View */}
       {successMessage && (
@@ -640,6 +722,25 @@ const DecisionMatrixAdmin: React.FC<DecisionMatrixAdminProps> = ({
             />
           </label>
 
+          {/* What-if Button */}
+          <button
+            onClick={handleSimulate}
+            disabled={simulating}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#8b5cf6',
+              color: '#fff',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: simulating ? 'not-allowed' : 'pointer',
+              fontSize: '14px',
+              fontWeight: '600'
+            }}
+            title="Replay past sessions against this matrix before saving"
+          >
+            {simulating ? '⏳' : '🧪'} What-if
+          </button>
+
           {/* Edit/Save/Cancel Buttons */}
           {!editMode ? (
             <button
@@ -727,6 +828,11 @@ const DecisionMatrixAdmin: React.FC<DecisionMatrixAdminProps> = ({
         </div>
       )}
 
+      {/* What-if Results */}
+      {simulation && (
+        <MatrixSimulationPanel result={simulation} onClose={() => setSimulation(null)} />
+      )}
+
       {/* Import Dialog */}
       {showImportDialog && importFileContent && (
         <div style={{
@@ -1119,10 +1225,128 @@ const DecisionMatrixAdmin: React.FC<DecisionMatrixAdminProps> = ({
           >
             {versions.map(v => (
               <option key={v} value={v}>
-                Version {v} {v === matrix.version ? '(current)' : ''}
+                Version {v} {v === activeVersion ? '(active)' : ''}
               </option>
             ))}
           </select>
+
+          {activation && (
+            <div style={{ fontSize: '13px', color: '#64748b', marginTop: '8px' }}>
+              v{activation.version} activated by {activation.activatedBy} on {new Date(activation.activatedAt).toLocaleString()}: {activation.reason}
+            </div>
+          )}
+
+          {selectedVersion && activeVersion && selectedVersion !== activeVersion && !editMode && (
+            <div style={{
+              display: 'flex',
+              gap: '10px',
+              alignItems: 'center',
+              marginTop: '15px',
+              padding: '12px',
+              backgroundColor: '#fff3cd',
+              borderRadius: '4px'
+            }}>
+              <span style={{ fontSize: '14px', color: '#856404', whiteSpace: 'nowrap' }}>
+                Viewing v{selectedVersion}; v{activeVersion} is live.
+              </span>
+              <input
+                type="text"
+                value={activationReason}
+                onChange={(e) => setActivationReason(e.target.value)}
+                placeholder="Reason for switching (required, recorded in the audit log)"
+                aria-label="Reason for activating this version"
+                maxLength={500}
+                style={{
+                  flex: 1,
+                  padding: '8px',
+                  fontSize: '14px',
+                  border: '1px solid #ddd',
+                  borderRadius: '4px'
+                }}
+              />
+              <button
+                onClick={handleActivate}
+                disabled={!activationReason.trim() || activating}
+                style={{
+                  padding: '8px 16px',
+                  backgroundColor: !activationReason.trim() || activating ? '#6c757d' : '#dc3545',
+                  color: '#fff',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: !activationReason.trim() || activating ? 'not-allowed' : 'pointer',
+                  whiteSpace: 'nowrap'
+                }}
+              >
+                {activating ? 'Activating...' : `Make v${selectedVersion} Active`}
+              </button>
+            </div>
+          )}
+
+          {versions.length > 1 && (
+            <div style={{ display: 'flex', gap: '10px', alignItems: 'center', marginTop: '15px' }}>
+              <label htmlFor="compare-version" style={{ fontSize: '14px', whiteSpace: 'nowrap' }}>
+                Compare with:
+              </label>
+              <select
+                id="compare-version"
+                value={compareVersion}
+                onChange={(e) => {
+                  setCompareVersion(e.target.value);
+                  setDiff(null);
+                }}
+                style={{
+                  flex: 1,
+                  padding: '8px',
+                  fontSize: '14px',
+                  border: '1px solid #ddd',
+                  borderRadius: '4px'
+                }}
+              >
+                <option value="">Select a version...</option>
+                {versions.filter(v => v !== selectedVersion).map(v => (
+                  <option key={v} value={v}>Version {v}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleCompare}
+                disabled={!compareVersion || comparing}
+                style={{
+                  padding: '8px 16px',
+                  backgroundColor: !compareVersion || comparing ? '#6c757d' : '#f59e0b',
+                  color: '#fff',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: !compareVersion || comparing ? 'not-allowed' : 'pointer'
+                }}
+              >
+                {comparing ? 'Comparing...' : '🔍 Compare'}
+              </button>
+              {diff && (
+                <button
+                  onClick={() => setDiff(null)}
+                  style={{
+                    padding: '8px 12px',
+                    backgroundColor: '#fff',
+                    color: '#64748b',
+                    border: '1px solid #e2e8f0',
+                    borderRadius: '4px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+          )}
+
+          {diff && (
+            <div style={{ marginTop: '15px' }}>
+              <MatrixDiffView diff={diff} />
+              <p style={{ fontSize: '12px', color: '#64748b', marginBottom: 0 }}>
+                Open the Flow View to see changed attributes and rules highlighted on the canvas.
+              </p>
+            </div>
+          )}
         </div>
       )}
 
@@ -1363,7 +1587,32 @@ const DecisionMatrixAdmin: React.FC<DecisionMatrixAdminProps> = ({
                       borderRadius: '4px',
                       border: '1px solid #e0e0e0'
                     }}>
-                      {editMode ? (
+                      {isConditionGroup(cond) ? (
+                        <>
+                          <span
+                            style={{ flex: '1', fontFamily: 'monospace', fontSize: '12px' }}
+                            title={editMode ? 'Condition groups are edited in the Flow View' : undefined}
+                          >
+                            {formatRuleCondition(cond)}
+                          </span>
+                          {editMode && (
+                            <button
+                              onClick={() => deleteRuleCondition(rule.ruleId, idx)}
+                              style={{
+                                padding: '4px 8px',
+                                backgroundColor: '#dc3545',
+                                color: '#fff',
+                                border: 'none',
+                                borderRadius: '3px',
+                                fontSize: '11px',
+                                cursor: 'pointer'
+                              }}
+                            >
+                              ✕
+                            </button>
+                          )}
+                        </>
+                      ) : editMode ? (
                         <>
                           <select
                             value={cond.attribute}
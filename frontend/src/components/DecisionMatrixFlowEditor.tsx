@@ -16,7 +16,8 @@ import {
 } from 'reactflow';
 import 'reactflow/dist/style.css';
 
-import { DecisionMatrix } from '../../../shared/dist';
+import { DecisionMatrix, DecisionMatrixDiff } from '../../../shared/dist';
+import MatrixDiffView from './MatrixDiffView';
 import {
   AttributeNode,
   RuleNode,
@@ -33,6 +34,10 @@ import {
 import {
   matrixToFlow,
   flowToMatrix,
+  createConditionElements,
+  extractConditionsForRule,
+  formatRuleCondition,
+  isConditionGroup,
   validateMatrix,
   useDebounce,
   performanceMonitor,
@@ -56,6 +61,8 @@ interface DecisionMatrixFlowEditorProps {
   onSave: (matrix: DecisionMatrix) => Promise<void>;
   onCancel: () => void;
   readOnly?: boolean;
+  // Highlights attributes and rules changed since diff.fromVersion
+  diff?: DecisionMatrixDiff | null;
 }
 
 // Define custom node types for ReactFlow
@@ -73,6 +80,7 @@ const DecisionMatrixFlowEditorInner: React.FC<DecisionMatrixFlowEditorProps> = (
   onSave,
   onCancel,
   readOnly = false,
+  diff = null,
 }) => {
   const { fitView } = useReactFlow();
   
@@ -124,6 +132,7 @@ const DecisionMatrixFlowEditorInner: React.FC<DecisionMatrixFlowEditorProps> = (
   const [showHelp, setShowHelp] = useState(false);
   const [screenReaderAnnouncement, setScreenReaderAnnouncement] = useState('');
   const [showUnusedNodes, setShowUnusedNodes] = useState(false);
+  const [showDiff, setShowDiff] = useState(false);
   
   // Filter nodes based on showUnusedNodes toggle
   const nodes = useMemo(() => {
@@ -144,6 +153,32 @@ const DecisionMatrixFlowEditorInner: React.FC<DecisionMatrixFlowEditorProps> = (
     return allNodes.filter(node => usedNodeIds.has(node.id));
   }, [allNodes, edges, showUnusedNodes]);
 
+  // Mark added/modified attributes and rules from the version diff
+  useEffect(() => {
+    const attributeStatus = new Map(
+      (diff?.attributes || []).filter(a => a.changeType !== 'removed').map(a => [a.name, a.changeType])
+    );
+    const ruleStatus = new Map(
+      (diff?.rules || []).filter(r => r.changeType !== 'removed').map(r => [r.ruleId, r.changeType])
+    );
+
+    setAllNodes((nds) =>
+      nds.map((n) => {
+        let diffStatus;
+        if (n.type === 'attribute') {
+          diffStatus = attributeStatus.get((n.data as any).attribute.name);
+        } else if (n.type === 'rule') {
+          diffStatus = ruleStatus.get((n.data as any).rule.ruleId);
+        } else {
+          return n;
+        }
+        return (n.data as any).diffStatus === diffStatus
+          ? n
+          : ({ ...n, data: { ...n.data, diffStatus } } as FlowNode);
+      })
+    );
+  }, [diff]);
+
   // Debounced validation (200ms delay)
   const debouncedValidate = useDebounce((currentNodes: FlowNode[], currentEdges: CustomEdge[]) => {
     // Extract attributes and rules from nodes
@@ -220,6 +255,14 @@ const DecisionMatrixFlowEditorInner: React.FC<DecisionMatrixFlowEditorProps> = (
       
       if (!sourceNode || !targetNode) return;
       
+      // Groups reference several attributes; they are edited from the rule panel
+      if (targetNode.type === 'condition' && isConditionGroup((targetNode.data as any).condition)) {
+        setScreenReaderAnnouncement(
+          `Condition groups cannot be rewired. Edit the group from its rule's property panel.`
+        );
+        return;
+      }
+
       // Only allow attribute -> condition connections
       if (sourceNode.type === 'attribute' && targetNode.type === 'condition') {
         // Update the condition to reference the new attribute
@@ -296,7 +339,16 @@ const DecisionMatrixFlowEditorInner: React.FC<DecisionMatrixFlowEditorProps> = (
     (_event: React.MouseEvent, node: Node) => {
       if (!readOnly) {
         measureInteraction('node-click', () => {
-          setSelectedNode(node as FlowNode);
+          // The condition nodes on the canvas are the source of truth for a rule's conditions
+          if (node.type === 'rule') {
+            const rule = (node.data as any).rule;
+            setSelectedNode({
+              ...node,
+              data: { ...node.data, rule: { ...rule, conditions: extractConditionsForRule(rule.ruleId, allNodes) } }
+            } as FlowNode);
+          } else {
+            setSelectedNode(node as FlowNode);
+          }
           
           // Announce node selection to screen readers
           const flowNode = node as FlowNode;
@@ -317,7 +369,7 @@ const DecisionMatrixFlowEditorInner: React.FC<DecisionMatrixFlowEditorProps> = (
               break;
             case 'condition':
               const condData = flowNode.data as any;
-              announcement = `Selected condition: ${condData.condition.attribute} ${condData.condition.operator} ${JSON.stringify(condData.condition.value)}`;
+              announcement = `Selected condition: ${formatRuleCondition(condData.condition)}`;
               break;
             case 'category':
               const catData = flowNode.data as any;
@@ -329,7 +381,7 @@ const DecisionMatrixFlowEditorInner: React.FC<DecisionMatrixFlowEditorProps> = (
         });
       }
     },
-    [readOnly, measureInteraction]
+    [readOnly, allNodes, measureInteraction]
   );
 
   // Handle pane click to deselect node
@@ -386,23 +438,49 @@ const DecisionMatrixFlowEditorInner: React.FC<DecisionMatrixFlowEditorProps> = (
   );
 
   // Handle rule save
+  // Rebuilds the rule's condition nodes so edits made in the panel (including
+  // all/any/not groups) are what flowToMatrix picks up
   const handleRuleSave = useCallback(
     (updatedRule: any) => {
       if (!selectedNode) return;
       measureInteraction('property-update', () => {
+        const isRuleCondition = (node: FlowNode) =>
+          node.type === 'condition' && (node.data as any).parentRuleId === updatedRule.ruleId;
+        const previousConditions = allNodes.filter(isRuleCondition);
+        const previousIds = new Set(previousConditions.map(node => node.id));
+        const conditionElements = createConditionElements(updatedRule);
+        const nodeIds = new Set(allNodes.map(node => node.id));
+
+        // Keep existing positions; new conditions are placed beside the rule
+        const conditionNodes = conditionElements.nodes.map((node, index) => ({
+          ...node,
+          position: previousConditions[index]?.position ?? {
+            x: selectedNode.position.x - 250,
+            y: selectedNode.position.y + (index * 80)
+          }
+        }));
+
         // @ts-ignore - Type assertion needed for complex union types
-        setAllNodes((nds) =>
-          nds.map((node) =>
-            node.id === selectedNode.id
-              ? { ...node, data: { ...node.data, rule: updatedRule } }
-              : node
-          )
-        );
+        setAllNodes((nds) => [
+          ...nds
+            .filter((node) => !isRuleCondition(node))
+            .map((node) =>
+              node.id === selectedNode.id
+                ? { ...node, data: { ...node.data, rule: updatedRule } }
+                : node
+            ),
+          ...conditionNodes
+        ]);
+        setEdges((eds) => [
+          ...eds.filter((edge) => !previousIds.has(edge.source) && !previousIds.has(edge.target)),
+          // Skip edges from attributes that are not on the canvas
+          ...conditionElements.edges.filter((edge) => nodeIds.has(edge.source) || edge.source.startsWith('cond-'))
+        ]);
         setIsDirty(true);
         setSelectedNode(null);
       });
     },
-    [selectedNode, measureInteraction]
+    [selectedNode, allNodes, measureInteraction]
   );
 
   // Handle action save
@@ -577,62 +655,6 @@ const DecisionMatrixFlowEditorInner: React.FC<DecisionMatrixFlowEditorProps> = (
     );
   }, [allNodes]);
 
-  // Handle adding a condition to a rule
-  const handleAddCondition = useCallback((ruleId: string) => {
-    const ruleNode = allNodes.find(n => n.type === 'rule' && (n.data as any).rule.ruleId === ruleId);
-    if (!ruleNode) return;
-    
-    const existingConditions = allNodes.filter(
-      n => n.type === 'condition' && (n.data as any).parentRuleId === ruleId
-    );
-    
-    const conditionIndex = existingConditions.length;
-    
-    // Create new condition with placeholder values
-    const newCondition: any = {
-      attribute: 'Select Attribute',
-      operator: 'equals',
-      value: ''
-    };
-    
-    // Create condition node
-    const conditionNode: FlowNode = {
-      id: `cond-${ruleId}-${conditionIndex}`,
-      type: 'condition',
-      position: { 
-        x: ruleNode.position.x - 250, 
-        y: ruleNode.position.y + (conditionIndex * 80) 
-      },
-      data: {
-        label: 'Select Attribute = ""',
-        condition: newCondition,
-        parentRuleId: ruleId,
-        isHighlighted: false,
-        nodeId: `cond-${ruleId}-${conditionIndex}`
-      } as any,
-      width: 180,
-      height: 60
-    };
-    
-    // Create edge from condition to rule
-    const condToRuleEdge: CustomEdge = {
-      id: `edge-cond-${ruleId}-${conditionIndex}-rule-${ruleId}`,
-      source: `cond-${ruleId}-${conditionIndex}`,
-      target: `rule-${ruleId}`,
-      type: 'condition',
-      animated: false,
-      data: { animated: false }
-    };
-    
-    setAllNodes((nds) => [...nds, conditionNode]);
-    setEdges((eds) => [...eds, condToRuleEdge]);
-    setIsDirty(true);
-    
-    setScreenReaderAnnouncement(
-      `Added new condition to rule. Connect an attribute to this condition to complete it.`
-    );
-  }, [allNodes]);
-
   // Handle deleting a node
   const handleDeleteNode = useCallback((nodeId: string) => {
     const node = allNodes.find(n => n.id === nodeId);
@@ -949,6 +971,27 @@ const DecisionMatrixFlowEditorInner: React.FC<DecisionMatrixFlowEditorProps> = (
           {isMobile ? (showUnusedNodes ? '👁️' : '👁️‍🗨️') : (showUnusedNodes ? 'Hide Unused' : 'Show All')}
         </button>
         
+        {diff && (
+          <button
+            onClick={() => setShowDiff(!showDiff)}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: showDiff ? '#f59e0b' : '#f1f5f9',
+              color: showDiff ? 'white' : '#1e293b',
+              border: '1px solid #e2e8f0',
+              borderRadius: 6,
+              cursor: 'pointer',
+              fontSize: 14,
+              fontWeight: 500,
+            }}
+            title={`Changes since version ${diff.fromVersion}`}
+            aria-label={showDiff ? 'Hide version changes' : `Show changes since version ${diff.fromVersion}`}
+            aria-pressed={showDiff}
+          >
+            {isMobile ? '🔍' : `🔍 Changes since v${diff.fromVersion}`}
+          </button>
+        )}
+
         {!readOnly && (
           <>
             <button
@@ -1038,7 +1081,6 @@ const DecisionMatrixFlowEditorInner: React.FC<DecisionMatrixFlowEditorProps> = (
               onCancel={handlePropertyPanelCancel}
               onClose={handlePropertyPanelClose}
               onDelete={() => handleDeleteNode(selectedNode.id)}
-              onAddCondition={() => handleAddCondition((selectedNode.data as any).rule.ruleId)}
               availableAttributes={matrix.attributes.map(attr => attr.name)}
             />
           )}
@@ -1053,6 +1095,29 @@ const DecisionMatrixFlowEditorInner: React.FC<DecisionMatrixFlowEditorProps> = (
         </>
       )}
 
+      {/* Version Changes */}
+      {diff && showDiff && (
+        <div
+          style={{
+            position: 'absolute',
+            top: isMobile ? 140 : 90,
+            left: isMobile ? 8 : 16,
+            width: isMobile ? 'calc(100% - 16px)' : 420,
+            maxHeight: '60%',
+            overflowY: 'auto',
+            zIndex: 10,
+            backgroundColor: 'white',
+            padding: 16,
+            borderRadius: 8,
+            boxShadow: '0 2px 8px rgba(0, 0, 0, 0.1)',
+          }}
+          role="region"
+          aria-label="Changes between matrix versions"
+        >
+          <MatrixDiffView diff={diff} />
+        </div>
+      )}
+
       {/* Validation Summary */}
       {validationErrors.length > 0 && (
         <ValidationSummary
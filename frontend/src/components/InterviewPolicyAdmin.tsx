@@ -0,0 +1,308 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { InterviewPolicy } from '../../../shared/types';
+import { apiService, InterviewPolicySettings } from '../services/api';
+
+interface InterviewPolicyAdminProps {
+  canEdit: boolean;
+}
+
+type PolicyNumberField = Exclude<keyof InterviewPolicySettings, 'description'>;
+
+interface PolicyField {
+  key: PolicyNumberField;
+  label: string;
+  help: string;
+  step?: number; // Thresholds are fractions; everything else is a question count
+}
+
+const SECTIONS: Array<{ title: string; fields: PolicyField[] }> = [
+  {
+    title: 'Question Limits',
+    fields: [
+      { key: 'minQuestions', label: 'Minimum questions', help: 'Asked before a confident classification can end the interview' },
+      { key: 'maxQuestionsPerRound', label: 'Questions in the first round', help: 'Later rounds ask 2, then 1 question' },
+      { key: 'softLimitQuestions', label: 'Soft limit', help: 'From here questions are only asked if essential' },
+      { key: 'hardLimitQuestions', label: 'Hard limit', help: 'The interview always stops here' },
+    ],
+  },
+  {
+    title: 'Confidence',
+    fields: [
+      { key: 'highConfidenceThreshold', label: 'High confidence', help: 'Stop at or above this once the key information is known', step: 0.05 },
+      { key: 'lowConfidenceThreshold', label: 'Low confidence', help: 'Stop for manual review below this...', step: 0.05 },
+      { key: 'lowConfidenceMinQuestions', label: 'Low confidence after', help: '...once this many questions have been asked' },
+    ],
+  },
+  {
+    title: 'Stopping Rules',
+    fields: [
+      { key: 'repetitionCheckAfter', label: 'Check for repetition after', help: 'Questions asked before looking for similar questions' },
+      { key: 'repetitionSimilarPairs', label: 'Similar question pairs', help: 'Pairs of similar recent questions that stop the interview' },
+      { key: 'duplicateCheckAfter', label: 'Check for duplicates after', help: 'That many recent questions are checked for duplicates' },
+      { key: 'duplicateMinUnique', label: 'Distinct questions required', help: 'Fewer distinct questions among them is treated as a loop' },
+      { key: 'unknownAnswerCheckAfter', label: 'Check "don\'t know" answers after', help: 'Questions asked before looking at the answers' },
+      { key: 'unknownAnswerWindow', label: 'Answers checked', help: 'Most recent answers looked at' },
+      { key: 'unknownAnswerThreshold', label: '"Don\'t know" answers to stop', help: 'Among the answers checked' },
+    ],
+  },
+];
+
+const toSettings = ({ version, createdAt, createdBy, ...settings }: InterviewPolicy): InterviewPolicySettings => settings;
+
+const InterviewPolicyAdmin: React.FC<InterviewPolicyAdminProps> = ({ canEdit }) => {
+  const [activePolicy, setActivePolicy] = useState<InterviewPolicy | null>(null);
+  const [viewedPolicy, setViewedPolicy] = useState<InterviewPolicy | null>(null);
+  const [versions, setVersions] = useState<string[]>([]);
+  const [editedSettings, setEditedSettings] = useState<InterviewPolicySettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [successMessage, setSuccessMessage] = useState('');
+
+  const loadPolicy = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const [policy, versionList] = await Promise.all([
+        apiService.getInterviewPolicy(),
+        apiService.getInterviewPolicyVersions(),
+      ]);
+      setActivePolicy(policy);
+      setViewedPolicy(policy);
+      setVersions(versionList.versions);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load interview policy');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPolicy();
+  }, [loadPolicy]);
+
+  const handleVersionChange = async (version: string) => {
+    setError('');
+    try {
+      setViewedPolicy(await apiService.getInterviewPolicyVersion(version));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load interview policy version');
+    }
+  };
+
+  const handleFieldChange = (key: PolicyNumberField, value: string) => {
+    if (!editedSettings) return;
+    setEditedSettings({ ...editedSettings, [key]: value === '' ? NaN : Number(value) });
+  };
+
+  const handleSave = async () => {
+    if (!editedSettings) return;
+    setSaving(true);
+    setError('');
+    setSuccessMessage('');
+    try {
+      const result = await apiService.updateInterviewPolicy(editedSettings);
+      setEditedSettings(null);
+      setSuccessMessage(result.message);
+      await loadPolicy();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save interview policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading && !activePolicy) {
+    return <div style={{ padding: '20px', textAlign: 'center' }}>Loading interview policy...</div>;
+  }
+
+  const editing = editedSettings !== null;
+  const shown: InterviewPolicySettings | null = editedSettings || (viewedPolicy && toSettings(viewedPolicy));
+
+  return (
+    <div style={{ maxWidth: '1000px', margin: '20px auto', padding: '20px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
+        <h2 style={{ margin: 0 }}>Interview Policy</h2>
+        <div style={{ display: 'flex', gap: '10px', alignItems: 'center' }}>
+          {!editing && versions.length > 1 && (
+            <select
+              value={viewedPolicy?.version || ''}
+              onChange={(e) => handleVersionChange(e.target.value)}
+              style={{ padding: '8px', border: '1px solid #ddd', borderRadius: '4px' }}
+            >
+              {versions.map(version => (
+                <option key={version} value={version}>
+                  v{version}{version === activePolicy?.version ? ' (active)' : ''}
+                </option>
+              ))}
+            </select>
+          )}
+          {canEdit && !editing && activePolicy && (
+            <button
+              onClick={() => {
+                setSuccessMessage('');
+                setEditedSettings(toSettings(viewedPolicy || activePolicy));
+              }}
+              style={{
+                padding: '8px 16px',
+                backgroundColor: '#007bff',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer'
+              }}
+            >
+              ✏️ Edit Policy
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div style={{
+        backgroundColor: '#fff',
+        border: '1px solid #ddd',
+        borderRadius: '8px',
+        padding: '20px',
+        marginBottom: '20px'
+      }}>
+        <p style={{ marginTop: 0, marginBottom: 0, color: '#666', fontSize: '14px', lineHeight: '1.5' }}>
+          Controls how deep the clarification interview goes in this workspace and when it stops.
+          Saving creates a new version that applies to interviews started from then on; each session
+          records the version it used, so policies can be compared in Analytics.
+        </p>
+        {viewedPolicy && !editing && (
+          <p style={{ marginBottom: 0, color: '#999', fontSize: '12px' }}>
+            Version {viewedPolicy.version} by {viewedPolicy.createdBy}, {new Date(viewedPolicy.createdAt).toLocaleString()}
+          </p>
+        )}
+      </div>
+
+      {error && (
+        <div style={{
+          padding: '15px',
+          backgroundColor: '#f8d7da',
+          color: '#721c24',
+          borderRadius: '4px',
+          marginBottom: '20px'
+        }}>
+          {error}
+        </div>
+      )}
+
+      {successMessage && (
+        <div style={{
+          padding: '15px',
+          backgroundColor: '#d4edda',
+          color: '#155724',
+          borderRadius: '4px',
+          marginBottom: '20px'
+        }}>
+          {successMessage}
+        </div>
+      )}
+
+      {shown && (
+        <>
+          <div style={{
+            backgroundColor: '#fff',
+            border: '1px solid #ddd',
+            borderRadius: '8px',
+            padding: '20px',
+            marginBottom: '20px'
+          }}>
+            <label style={{ display: 'block', fontWeight: 'bold', marginBottom: '5px' }}>Description</label>
+            {editing ? (
+              <input
+                type="text"
+                value={shown.description || ''}
+                onChange={(e) => setEditedSettings({ ...shown, description: e.target.value })}
+                placeholder="e.g. Shorter interviews for the finance team"
+                style={{ width: '100%', padding: '8px', border: '1px solid #ddd', borderRadius: '4px', boxSizing: 'border-box' }}
+              />
+            ) : (
+              <span style={{ color: '#333' }}>{shown.description || '—'}</span>
+            )}
+          </div>
+
+          {SECTIONS.map(section => (
+            <div key={section.title} style={{
+              backgroundColor: '#fff',
+              border: '1px solid #ddd',
+              borderRadius: '8px',
+              padding: '20px',
+              marginBottom: '20px'
+            }}>
+              <h3 style={{ marginTop: 0, marginBottom: '15px' }}>{section.title}</h3>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+                {section.fields.map(field => (
+                  <div key={field.key} style={{
+                    display: 'grid',
+                    gridTemplateColumns: '1fr 120px',
+                    gap: '15px',
+                    alignItems: 'center'
+                  }}>
+                    <div>
+                      <div style={{ fontWeight: 'bold', fontSize: '14px' }}>{field.label}</div>
+                      <div style={{ color: '#666', fontSize: '12px' }}>{field.help}</div>
+                    </div>
+                    {editing ? (
+                      <input
+                        type="number"
+                        min={0}
+                        max={field.step ? 1 : undefined}
+                        step={field.step || 1}
+                        value={Number.isNaN(shown[field.key]) ? '' : shown[field.key]}
+                        onChange={(e) => handleFieldChange(field.key, e.target.value)}
+                        style={{ padding: '6px', border: '1px solid #ddd', borderRadius: '4px' }}
+                      />
+                    ) : (
+                      <span style={{ fontWeight: 'bold', textAlign: 'right' }}>{shown[field.key]}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </>
+      )}
+
+      {editing && (
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '10px' }}>
+          <button
+            onClick={() => {
+              setEditedSettings(null);
+              setError('');
+            }}
+            disabled={saving}
+            style={{
+              padding: '10px 20px',
+              backgroundColor: '#6c757d',
+              color: '#fff',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: saving ? 'not-allowed' : 'pointer'
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            style={{
+              padding: '10px 20px',
+              backgroundColor: saving ? '#ccc' : '#28a745',
+              color: '#fff',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: saving ? 'not-allowed' : 'pointer'
+            }}
+          >
+            {saving ? 'Saving...' : 'Save as New Version'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InterviewPolicyAdmin;
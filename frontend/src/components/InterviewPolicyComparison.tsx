@@ -0,0 +1,82 @@
+import React from 'react';
+import { InterviewPolicyMetrics } from '../../../shared/types';
+
+interface InterviewPolicyComparisonProps {
+  metrics: { [version: string]: InterviewPolicyMetrics };
+}
+
+const cellStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  borderBottom: '1px solid #e9ecef',
+  textAlign: 'right',
+  fontSize: '13px'
+};
+
+const formatPercentage = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+const compareVersions = (a: string, b: string): number => {
+  const aParts = a.split('.').map(Number);
+  const bParts = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const diff = (aParts[i] || 0) - (bParts[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+const InterviewPolicyComparison: React.FC<InterviewPolicyComparisonProps> = ({ metrics }) => {
+  const versions = Object.keys(metrics).sort(compareVersions);
+
+  return (
+    <div style={{
+      backgroundColor: '#fff',
+      border: '1px solid #ddd',
+      borderRadius: '8px',
+      padding: '20px',
+      boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+      marginTop: '20px'
+    }}>
+      <h3 style={{ marginTop: 0, marginBottom: '20px' }}>
+        Interview Policies
+      </h3>
+
+      {versions.length === 0 ? (
+        <p style={{ textAlign: 'center', color: '#666', padding: '20px' }}>
+          No sessions have recorded an interview policy yet.
+        </p>
+      ) : (
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ color: '#666' }}>
+              <th style={{ ...cellStyle, textAlign: 'left' }}>Version</th>
+              <th style={cellStyle}>Sessions</th>
+              <th style={cellStyle}>Avg. Questions</th>
+              <th style={cellStyle}>Avg. Confidence</th>
+              <th style={cellStyle}>Agreement</th>
+              <th style={cellStyle}>Manual Review</th>
+            </tr>
+          </thead>
+          <tbody>
+            {versions.map(version => {
+              const row = metrics[version];
+              return (
+                <tr key={version}>
+                  <td style={{ ...cellStyle, textAlign: 'left', fontWeight: 'bold' }}>v{version}</td>
+                  <td style={cellStyle}>{row.totalSessions}</td>
+                  <td style={cellStyle}>{row.averageQuestions.toFixed(1)}</td>
+                  <td style={cellStyle}>{formatPercentage(row.averageConfidence)}</td>
+                  <td style={{ ...cellStyle, color: row.agreementRate >= 0.8 ? '#28a745' : '#dc3545' }}>
+                    {formatPercentage(row.agreementRate)}
+                  </td>
+                  <td style={cellStyle}>{formatPercentage(row.manualReviewRate)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default InterviewPolicyComparison;
@@ -8,10 +8,12 @@ interface LLMConfigurationProps {
 }
 
 export interface LLMConfig {
-  provider: 'openai' | 'bedrock';
+  provider: 'openai' | 'bedrock' | 'local';
   model: string;
-  // OpenAI
+  // OpenAI (also optional key for local endpoints)
   apiKey?: string;
+  // Local / OpenAI-compatible endpoint (Ollama, vLLM)
+  baseUrl?: string;
   // AWS Bedrock
   awsAccessKeyId?: string;
   awsSecretAccessKey?: string;
@@ -27,7 +29,7 @@ export interface LLMConfig {
 }
 
 const LLMConfiguration: React.FC<LLMConfigurationProps> = ({ onConfigSubmit }) => {
-  const [provider, setProvider] = useState<'openai' | 'bedrock'>('openai');
+  const [provider, setProvider] = useState<'openai' | 'bedrock' | 'local'>('openai');
   const [model, setModel] = useState('gpt-4');
 
   // OpenAI
@@ -61,6 +63,10 @@ const LLMConfiguration: React.FC<LLMConfigurationProps> = ({ onConfigSubmit }) =
   const [useRegionalInference, setUseRegionalInference] = useState(false);
   const [regionalInferenceEndpoint, setRegionalInferenceEndpoint] = useState('');
 
+  // Local / OpenAI-compatible endpoint
+  const [baseUrl, setBaseUrl] = useState('http://localhost:11434/v1');
+  const [localApiKey, setLocalApiKey] = useState('');
+
   // Voice Settings (NEW)
   const [voiceType, setVoiceType] = useState<VoiceType>('alloy');
   const [streamingMode, setStreamingMode] = useState(false);
@@ -98,6 +104,9 @@ const LLMConfiguration: React.FC<LLMConfigurationProps> = ({ onConfigSubmit }) =
 
         if (config.provider === 'openai') {
           setApiKey(config.apiKey || '');
+        } else if (config.provider === 'local') {
+          setBaseUrl(config.baseUrl || 'http://localhost:11434/v1');
+          setLocalApiKey(config.apiKey || '');
         } else {
           setAwsAccessKeyId(config.awsAccessKeyId || '');
           setAwsSecretAccessKey(config.awsSecretAccessKey || '');
@@ -121,7 +130,8 @@ const LLMConfiguration: React.FC<LLMConfigurationProps> = ({ onConfigSubmit }) =
     const config = {
       provider,
       model,
-      apiKey: provider === 'openai' ? apiKey : undefined,
+      apiKey: provider === 'openai' ? apiKey : provider === 'local' ? localApiKey : undefined,
+      baseUrl: provider === 'local' ? baseUrl : undefined,
       awsAccessKeyId: provider === 'bedrock' ? awsAccessKeyId : undefined,
       awsSecretAccessKey: provider === 'bedrock' ? awsSecretAccessKey : undefined,
       awsSessionToken: provider === 'bedrock' ? awsSessionToken : undefined,
@@ -135,7 +145,8 @@ const LLMConfiguration: React.FC<LLMConfigurationProps> = ({ onConfigSubmit }) =
 
     sessionStorage.setItem('llmConfigDraft', JSON.stringify(config));
   }, [provider, model, apiKey, awsAccessKeyId, awsSecretAccessKey, awsSessionToken,
-    awsRegion, useRegionalInference, regionalInferenceEndpoint, voiceType, streamingMode, voiceService]);
+    awsRegion, useRegionalInference, regionalInferenceEndpoint, baseUrl, localApiKey,
+    voiceType, streamingMode, voiceService]);
 
   // Default models - defined outside useEffect to avoid dependency issues
   const openAIModels = React.useMemo(() => [
@@ -200,6 +211,12 @@ const LLMConfiguration: React.FC<LLMConfigurationProps> = ({ onConfigSubmit }) =
       setModelsFetched(false);
       // Set default voice for OpenAI
       setVoiceType('alloy');
+    } else if (provider === 'local') {
+      // Local models are whatever the server has loaded - fetch or type a name
+      if (!modelsFetched) {
+        setModels([]);
+        setModel('llama3.1');
+      }
     } else {
       // For Bedrock, only set fallback if models haven't been fetched yet
       if (!modelsFetched) {
@@ -272,13 +289,42 @@ const LLMConfiguration: React.FC<LLMConfigurationProps> = ({ onConfigSubmit }) =
     }
   };
 
+  const loadLocalModels = async () => {
+    if (!baseUrl) return;
+
+    setLoadingModels(true);
+    setError('');
+    try {
+      const response = await apiService.listModels('local', {
+        baseUrl,
+        apiKey: localApiKey || undefined
+      });
+
+      if (response.models && response.models.length > 0) {
+        setModels(response.models);
+        setModelsFetched(true);
+
+        if (!response.models.find(m => m.id === model)) {
+          setModel(response.models[0].id);
+        }
+      } else {
+        setError('The endpoint returned no models. Pull or load a model on the server first.');
+      }
+    } catch (err) {
+      console.error('[Frontend] Failed to load local models:', err);
+      setError('Failed to fetch models from the local endpoint. Check the base URL is reachable from the backend.');
+    } finally {
+      setLoadingModels(false);
+    }
+  };
+
   const testConnection = async () => {
     setTestingConnection(true);
     setConnectionTestResult(null);
     setError('');
 
     try {
-      const response = await fetch('/api/public/test-connection', {
+      const response = await apiService.fetchWithAuth('/api/public/test-connection', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -286,7 +332,8 @@ const LLMConfiguration: React.FC<LLMConfigurationProps> = ({ onConfigSubmit }) =
         body: JSON.stringify({
           provider,
           model, // Include selected model
-          apiKey: provider === 'openai' ? apiKey : undefined,
+          apiKey: provider === 'openai' ? apiKey : provider === 'local' ? (localApiKey || undefined) : undefined,
+          baseUrl: provider === 'local' ? baseUrl : undefined,
           awsAccessKeyId: provider === 'bedrock' ? awsAccessKeyId : undefined,
           awsSecretAccessKey: provider === 'bedrock' ? awsSecretAccessKey : undefined,
           awsSessionToken: provider === 'bedrock' ? awsSessionToken : undefined,
@@ -354,6 +401,22 @@ const LLMConfiguration: React.FC<LLMConfigurationProps> = ({ onConfigSubmit }) =
     return true;
   };
 
+  const validateLocal = (): boolean => {
+    if (!baseUrl.trim()) {
+      setError('Base URL is required');
+      return false;
+    }
+    if (!/^https?:\/\//.test(baseUrl.trim())) {
+      setError('Invalid base URL. It should start with "http://" or "https://"');
+      return false;
+    }
+    if (!model.trim()) {
+      setError('Model name is required');
+      return false;
+    }
+    return true;
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -370,6 +433,17 @@ const LLMConfiguration: React.FC<LLMConfigurationProps> = ({ onConfigSubmit }) =
           streamingMode,
         });
       }
+    } else if (provider === 'local') {
+      if (validateLocal()) {
+        onConfigSubmit({
+          provider: 'local',
+          model: model.trim(),
+          baseUrl: baseUrl.trim(),
+          apiKey: localApiKey || undefined,
+          // Voice relies on OpenAI/AWS speech services, which are not available offline
+          voiceEnabled: false,
+        });
+      }
     } else {
       if (validateBedrock()) {
         onConfigSubmit({
@@ -429,6 +503,24 @@ const LLMConfiguration: React.FC<LLMConfigurationProps> = ({ onConfigSubmit }) =
       >
         AWS Bedrock
       </button>
+      <button
+        type="button"
+        onClick={() => setProvider('local')}
+        style={{
+          flex: 1,
+          padding: '12px',
+          backgroundColor: provider === 'local' ? '#fff' : '#f8f9fa',
+          color: provider === 'local' ? '#007bff' : '#6c757d',
+          border: 'none',
+          borderBottom: provider === 'local' ? '2px solid #007bff' : 'none',
+          cursor: 'pointer',
+          fontSize: '16px',
+          fontWeight: provider === 'local' ? 'bold' : 'normal',
+          marginBottom: '-2px',
+        }}
+      >
+        Local / Self-hosted
+      </button>
     </div>
   );
 
@@ -767,6 +859,129 @@ const LLMConfiguration: React.FC<LLMConfigurationProps> = ({ onConfigSubmit }) =
     </>
   );
 
+  const renderLocalForm = () => (
+    <>
+      <div style={{ marginBottom: '15px' }}>
+        <label htmlFor="baseUrl" style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold' }}>
+          Base URL
+        </label>
+        <input
+          id="baseUrl"
+          type="text"
+          value={baseUrl}
+          onChange={(e) => setBaseUrl(e.target.value)}
+          placeholder="http://localhost:11434/v1"
+          style={{
+            width: '100%',
+            padding: '10px',
+            fontSize: '14px',
+            border: error && error.includes('URL') ? '1px solid #dc3545' : '1px solid #ddd',
+            borderRadius: '4px',
+            boxSizing: 'border-box'
+          }}
+        />
+        <div style={{ color: '#666', fontSize: '12px', marginTop: '5px' }}>
+          Any OpenAI-compatible endpoint, e.g. Ollama (<code>http://localhost:11434/v1</code>) or vLLM (<code>http://host:8000/v1</code>). It must be reachable from the backend server.
+        </div>
+      </div>
+
+      <div style={{ marginBottom: '15px' }}>
+        <label htmlFor="localApiKey" style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold' }}>
+          API Key (Optional)
+        </label>
+        <input
+          id="localApiKey"
+          type="password"
+          value={localApiKey}
+          onChange={(e) => setLocalApiKey(e.target.value)}
+          placeholder="Only if your server requires one"
+          style={{
+            width: '100%',
+            padding: '10px',
+            fontSize: '14px',
+            border: '1px solid #ddd',
+            borderRadius: '4px',
+            boxSizing: 'border-box'
+          }}
+        />
+      </div>
+
+      {provider === 'local' && baseUrl && (
+        <div style={{ marginBottom: '15px' }}>
+          <div style={{ display: 'flex', gap: '10px' }}>
+            <button
+              type="button"
+              onClick={testConnection}
+              disabled={testingConnection || !model}
+              style={{
+                flex: 1,
+                padding: '10px',
+                backgroundColor: testingConnection ? '#6c757d' : '#17a2b8',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '4px',
+                fontSize: '14px',
+                fontWeight: 'bold',
+                cursor: testingConnection ? 'wait' : 'pointer',
+              }}
+              onMouseOver={(e) => !testingConnection && (e.currentTarget.style.backgroundColor = '#138496')}
+              onMouseOut={(e) => !testingConnection && (e.currentTarget.style.backgroundColor = '#17a2b8')}
+            >
+              {testingConnection ? '⏳ Testing...' : '🔌 Test Connection'}
+            </button>
+            <button
+              type="button"
+              onClick={loadLocalModels}
+              disabled={loadingModels}
+              style={{
+                flex: 1,
+                padding: '10px',
+                backgroundColor: loadingModels ? '#6c757d' : '#28a745',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '4px',
+                fontSize: '14px',
+                fontWeight: 'bold',
+                cursor: loadingModels ? 'wait' : 'pointer',
+              }}
+              onMouseOver={(e) => !loadingModels && (e.currentTarget.style.backgroundColor = '#218838')}
+              onMouseOut={(e) => !loadingModels && (e.currentTarget.style.backgroundColor = '#28a745')}
+            >
+              {loadingModels ? '⏳ Fetching...' : '🔄 Fetch Models'}
+            </button>
+          </div>
+          {connectionTestResult && (
+            <div style={{
+              marginTop: '10px',
+              padding: '10px',
+              borderRadius: '4px',
+              fontSize: '13px',
+              backgroundColor: connectionTestResult.success ? '#d4edda' : '#f8d7da',
+              color: connectionTestResult.success ? '#155724' : '#721c24',
+              border: `1px solid ${connectionTestResult.success ? '#c3e6cb' : '#f5c6cb'}`,
+            }}>
+              {connectionTestResult.message}
+            </div>
+          )}
+          <div style={{ color: '#666', fontSize: '12px', marginTop: '5px' }}>
+            Test the endpoint with the model below or fetch the models it serves
+          </div>
+        </div>
+      )}
+
+      <div style={{ padding: '12px', backgroundColor: '#d1ecf1', borderRadius: '4px', marginBottom: '15px' }}>
+        <div style={{ fontSize: '14px', color: '#0c5460', marginBottom: '8px' }}>
+          <strong>Using a local model:</strong>
+        </div>
+        <ul style={{ margin: 0, paddingLeft: '20px', fontSize: '13px', color: '#0c5460' }}>
+          <li>Pull or load the model on your server first (e.g. <code>ollama pull llama3.1</code>)</li>
+          <li>Prefer instruction-tuned models that reliably return JSON</li>
+          <li>Voice input and output are not available with this provider</li>
+        </ul>
+      </div>
+    </>
+  );
+
   return (
     <div style={{
       maxWidth: '600px',
@@ -785,7 +1000,11 @@ const LLMConfiguration: React.FC<LLMConfigurationProps> = ({ onConfigSubmit }) =
       <form onSubmit={handleSubmit}>
         {renderProviderTabs()}
 
-        {provider === 'openai' ? renderOpenAIForm() : renderBedrockForm()}
+        {provider === 'openai'
+          ? renderOpenAIForm()
+          : provider === 'bedrock'
+            ? renderBedrockForm()
+            : renderLocalForm()}
 
         {error && (
           <div style={{
@@ -836,6 +1055,32 @@ const LLMConfiguration: React.FC<LLMConfigurationProps> = ({ onConfigSubmit }) =
           <label htmlFor="model" style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold' }}>
             Model
           </label>
+          {provider === 'local' ? (
+            <>
+              <input
+                id="model"
+                type="text"
+                list="localModels"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                placeholder="llama3.1"
+                disabled={loadingModels}
+                style={{
+                  width: '100%',
+                  padding: '10px',
+                  fontSize: '14px',
+                  border: error && error.includes('Model') ? '1px solid #dc3545' : '1px solid #ddd',
+                  borderRadius: '4px',
+                  boxSizing: 'border-box'
+                }}
+              />
+              <datalist id="localModels">
+                {models.map((m) => (
+                  <option key={m.id} value={m.id} />
+                ))}
+              </datalist>
+            </>
+          ) : (
           <select
             id="model"
             value={model}
@@ -889,6 +1134,7 @@ const LLMConfiguration: React.FC<LLMConfigurationProps> = ({ onConfigSubmit }) =
               ));
             })()}
           </select>
+          )}
           {loadingModels && (
             <div style={{ color: '#666', fontSize: '12px', marginTop: '5px' }}>
               Loading available models...
@@ -898,6 +1144,10 @@ const LLMConfiguration: React.FC<LLMConfigurationProps> = ({ onConfigSubmit }) =
             <div style={{ color: '#666', fontSize: '12px', marginTop: '5px' }}>
               {provider === 'openai'
                 ? 'GPT-4 is recommended for best results.'
+                : provider === 'local'
+                  ? modelsFetched
+                    ? `${models.length} models available on the endpoint. Type a name or pick from the list.`
+                    : 'Type the model name as known by your server, or click "Fetch Models" above.'
                 : modelsFetched
                   ? (() => {
                     // Calculate filtered count for display
@@ -0,0 +1,152 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { LLMUsageBreakdown, LLMUsageSummary } from '../../../shared/types';
+import { apiService } from '../services/api';
+
+const DAY_OPTIONS = [7, 30, 90];
+
+const cardStyle: React.CSSProperties = {
+  backgroundColor: '#fff',
+  border: '1px solid #ddd',
+  borderRadius: '8px',
+  padding: '20px',
+  boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  borderBottom: '1px solid #e9ecef',
+  textAlign: 'right',
+  fontSize: '13px'
+};
+
+const formatCost = (value: number): string => {
+  return value > 0 && value < 0.01 ? '< $0.01' : `$${value.toFixed(2)}`;
+};
+
+const formatNumber = (value: number): string => value.toLocaleString();
+
+const UsageTable: React.FC<{ title: string; rows: LLMUsageBreakdown[] }> = ({ title, rows }) => (
+  <div style={cardStyle}>
+    <h4 style={{ marginTop: 0, marginBottom: '12px' }}>{title}</h4>
+    {rows.length === 0 ? (
+      <p style={{ color: '#666', margin: 0, fontSize: '14px' }}>No calls recorded.</p>
+    ) : (
+      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr style={{ color: '#666' }}>
+            <th style={{ ...cellStyle, textAlign: 'left' }}></th>
+            <th style={cellStyle}>Calls</th>
+            <th style={cellStyle}>Tokens</th>
+            <th style={cellStyle}>Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.key}>
+              <td style={{ ...cellStyle, textAlign: 'left', wordBreak: 'break-all' }}>{row.label}</td>
+              <td style={cellStyle}>{formatNumber(row.calls)}</td>
+              <td style={cellStyle} title={`${formatNumber(row.promptTokens)} in / ${formatNumber(row.completionTokens)} out`}>
+                {formatNumber(row.totalTokens)}
+              </td>
+              <td style={cellStyle} title={row.unpricedCalls > 0 ? `${row.unpricedCalls} calls without a price` : undefined}>
+                {formatCost(row.estimatedCost)}{row.unpricedCalls > 0 && ' *'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+/**
+ * LLM token usage and estimated cost of the current workspace
+ */
+const LLMUsagePanel: React.FC = () => {
+  const [days, setDays] = useState(30);
+  const [usage, setUsage] = useState<LLMUsageSummary | null>(null);
+  const [error, setError] = useState('');
+
+  const loadUsage = useCallback(async () => {
+    setError('');
+    try {
+      setUsage(await apiService.getLLMUsage(days));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load LLM usage');
+    }
+  }, [days]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const totals = usage?.totals;
+  const averageCost = totals && totals.calls > totals.unpricedCalls
+    ? totals.estimatedCost / (totals.calls - totals.unpricedCalls)
+    : 0;
+
+  return (
+    <div style={{ marginTop: '30px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
+        <h3 style={{ margin: 0 }}>LLM Usage &amp; Cost</h3>
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          style={{ padding: '6px 8px', borderRadius: '4px', border: '1px solid #ced4da', fontSize: '14px' }}
+        >
+          {DAY_OPTIONS.map(option => (
+            <option key={option} value={option}>Last {option} days</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div style={{ padding: '10px', backgroundColor: '#f8d7da', color: '#721c24', borderRadius: '4px', marginBottom: '15px' }}>
+          {error}
+        </div>
+      )}
+
+      {usage && totals && (
+        <>
+          <div style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))',
+            gap: '20px',
+            marginBottom: '20px'
+          }}>
+            {[
+              { label: 'LLM Calls', value: formatNumber(totals.calls) },
+              { label: 'Tokens', value: formatNumber(totals.totalTokens) },
+              { label: 'Estimated Cost', value: formatCost(totals.estimatedCost) },
+              { label: 'Average Cost per Call', value: formatCost(averageCost) }
+            ].map(metric => (
+              <div key={metric.label} style={cardStyle}>
+                <div style={{ fontSize: '14px', color: '#666', marginBottom: '8px' }}>{metric.label}</div>
+                <div style={{ fontSize: '28px', fontWeight: 'bold', color: '#007bff' }}>{metric.value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fit, minmax(320px, 1fr))',
+            gap: '20px'
+          }}>
+            <UsageTable title="By User" rows={usage.byUser} />
+            <UsageTable title="By Model" rows={usage.byModel} />
+            <UsageTable title="By Pipeline Stage" rows={usage.byStage} />
+            <UsageTable title="By Day" rows={usage.byDay} />
+          </div>
+
+          <div style={{ marginTop: '10px', fontSize: '12px', color: '#999' }}>
+            {usage.startDate} to {usage.endDate}. Costs are estimates from list prices per million tokens
+            and can be overridden with LLM_PRICE_TABLE.
+            {totals.unpricedCalls > 0 && ` * ${totals.unpricedCalls} calls used models without a price and are not included.`}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LLMUsagePanel;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 
 interface LoginProps {
   onLoginSuccess: (token: string, username: string) => void;
@@ -13,6 +13,74 @@ const Login: React.FC<LoginProps> = ({ onLoginSuccess }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const [showRegister, setShowRegister] = useState(false);
+  const [ssoProviderName, setSsoProviderName] = useState<string | null>(null);
+  const [passwordPolicy, setPasswordPolicy] = useState<{ minLength: number; requirements: string[] } | null>(null);
+  const [twoFactor, setTwoFactor] = useState<{ challengeToken: string; setupRequired: boolean } | null>(null);
+  const [twoFactorSetup, setTwoFactorSetup] = useState<{ secret: string; qrCodeDataUrl: string } | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [pendingLogin, setPendingLogin] = useState<any>(null);
+
+  const completeLogin = (data: any) => {
+    // Store token in sessionStorage
+    sessionStorage.setItem('authToken', data.token);
+    sessionStorage.setItem('refreshToken', data.refreshToken);
+    sessionStorage.setItem('username', data.user.username);
+    sessionStorage.setItem('userId', data.user.userId);
+    sessionStorage.setItem('userRole', data.user.role);
+    sessionStorage.setItem('userPermissions', JSON.stringify(data.user.permissions || []));
+    sessionStorage.setItem('workspaceId', data.user.activeWorkspaceId || 'default');
+
+    onLoginSuccess(data.token, data.user.username);
+  };
+
+  useEffect(() => {
+    fetch(`${API_BASE_URL}/api/auth/oidc/config`)
+      .then(response => response.json())
+      .then(config => setSsoProviderName(config.enabled ? config.providerName : null))
+      .catch(() => setSsoProviderName(null));
+
+    fetch(`${API_BASE_URL}/api/auth/password-policy`)
+      .then(response => response.json())
+      .then(data => setPasswordPolicy({ minLength: data.policy.minLength, requirements: data.requirements }))
+      .catch(() => setPasswordPolicy(null));
+
+    // Returning from the identity provider
+    const params = new URLSearchParams(window.location.search);
+    const ssoCode = params.get('oidc_code');
+    const ssoError = params.get('oidc_error');
+    if (!ssoCode && !ssoError) {
+      return;
+    }
+    window.history.replaceState(null, '', window.location.pathname);
+
+    if (ssoError) {
+      setError(ssoError);
+      return;
+    }
+
+    setIsLoading(true);
+    fetch(`${API_BASE_URL}/api/auth/oidc/exchange`, {
+      method: 'POST',
+      // The SSO cookie proves this browser started the login
+      credentials: 'include',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ code: ssoCode }),
+    })
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || 'Single sign-on failed');
+        }
+        completeLogin(data);
+      })
+      .catch((err: any) => setError(err.message || 'Single sign-on failed. Please try again.'))
+      .finally(() => setIsLoading(false));
+    // Run once when the login page opens
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -34,13 +102,16 @@ const Login: React.FC<LoginProps> = ({ onLoginSuccess }) => {
         throw new Error(data.message || 'Login failed');
       }
 
-      // Store token in sessionStorage
-      sessionStorage.setItem('authToken', data.token);
-      sessionStorage.setItem('username', data.user.username);
-      sessionStorage.setItem('userId', data.user.userId);
-      sessionStorage.setItem('userRole', data.user.role);
+      if (data.twoFactorRequired) {
+        setTwoFactor({ challengeToken: data.challengeToken, setupRequired: data.setupRequired });
+        setTwoFactorCode('');
+        if (data.setupRequired) {
+          setTwoFactorSetup(await postTwoFactor('setup', { challengeToken: data.challengeToken }));
+        }
+        return;
+      }
 
-      onLoginSuccess(data.token, data.user.username);
+      completeLogin(data);
     } catch (err: any) {
       setError(err.message || 'Login failed. Please try again.');
     } finally {
@@ -48,16 +119,61 @@ const Login: React.FC<LoginProps> = ({ onLoginSuccess }) => {
     }
   };
 
-  const handleRegister = async (e: React.FormEvent) => {
+  const postTwoFactor = async (step: 'setup' | 'verify', body: Record<string, string>) => {
+    const response = await fetch(`${API_BASE_URL}/api/auth/2fa/login/${step}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.message || 'Two-factor authentication failed');
+    }
+    return data;
+  };
+
+  const handleVerifyTwoFactor = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!twoFactor) return;
     setError('');
     setIsLoading(true);
 
     try {
-      if (password.length < 8) {
-        throw new Error('Password must be at least 8 characters');
+      const data = await postTwoFactor('verify', { challengeToken: twoFactor.challengeToken, code: twoFactorCode.trim() });
+
+      // Enrolled during this login: show the recovery codes before continuing
+      if (data.recoveryCodes) {
+        setRecoveryCodes(data.recoveryCodes);
+        setPendingLogin(data);
+        return;
       }
 
+      completeLogin(data);
+    } catch (err: any) {
+      setError(err.message || 'Verification failed. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const cancelTwoFactor = () => {
+    setTwoFactor(null);
+    setTwoFactorSetup(null);
+    setTwoFactorCode('');
+    setPassword('');
+    setError('');
+  };
+
+  const handleRegister = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
       const response = await fetch(`${API_BASE_URL}/api/auth/register`, {
         method: 'POST',
         headers: {
@@ -102,7 +218,7 @@ const Login: React.FC<LoginProps> = ({ onLoginSuccess }) => {
             CatalAIst
           </h1>
           <p style={{ margin: 0, color: '#6c757d', fontSize: '14px' }}>
-            {showRegister ? 'Create your account' : 'Sign in to your account'}
+            {twoFactor ? 'Two-factor authentication' : showRegister ? 'Create your account' : 'Sign in to your account'}
           </p>
         </div>
 
@@ -119,122 +235,276 @@ const Login: React.FC<LoginProps> = ({ onLoginSuccess }) => {
           </div>
         )}
 
-        <form onSubmit={showRegister ? handleRegister : handleLogin}>
-          <div style={{ marginBottom: '20px' }}>
-            <label style={{
-              display: 'block',
-              marginBottom: '8px',
-              color: '#495057',
-              fontSize: '14px',
-              fontWeight: '500'
+        {recoveryCodes ? (
+          <div>
+            <p style={{ fontSize: '14px', color: '#495057', marginTop: 0 }}>
+              Two-factor authentication is now enabled. Save these recovery codes somewhere safe: each one can be
+              used once to sign in if you lose access to your authenticator app. They won't be shown again.
+            </p>
+            <div style={{
+              display: 'grid',
+              gridTemplateColumns: '1fr 1fr',
+              gap: '8px',
+              padding: '16px',
+              backgroundColor: '#f8f9fa',
+              borderRadius: '4px',
+              fontFamily: 'monospace',
+              fontSize: '15px',
+              marginBottom: '20px'
             }}>
-              Username
-            </label>
-            <input
-              type="text"
-              value={username}
-              onChange={(e) => setUsername(e.target.value)}
-              required
-              minLength={3}
-              disabled={isLoading}
+              {recoveryCodes.map(code => <div key={code}>{code}</div>)}
+            </div>
+            <button
+              type="button"
+              onClick={() => completeLogin(pendingLogin)}
               style={{
                 width: '100%',
-                padding: '10px 12px',
-                border: '1px solid #ced4da',
+                padding: '12px',
+                backgroundColor: '#007bff',
+                color: '#fff',
+                border: 'none',
                 borderRadius: '4px',
-                fontSize: '14px',
-                boxSizing: 'border-box'
+                fontSize: '16px',
+                fontWeight: '500',
+                cursor: 'pointer'
               }}
-              placeholder="Enter your username"
-            />
+            >
+              I've saved my recovery codes
+            </button>
           </div>
+        ) : twoFactor ? (
+          <form onSubmit={handleVerifyTwoFactor}>
+            {twoFactor.setupRequired && (
+              <div style={{ marginBottom: '20px', fontSize: '14px', color: '#495057' }}>
+                <p style={{ marginTop: 0 }}>
+                  Your account requires two-factor authentication. Scan this QR code with an authenticator app,
+                  then enter the 6-digit code it shows.
+                </p>
+                {twoFactorSetup && (
+                  <div style={{ textAlign: 'center' }}>
+                    <img src={twoFactorSetup.qrCodeDataUrl} alt="Authenticator QR code" style={{ width: '200px', height: '200px' }} />
+                    <div style={{ fontSize: '12px', color: '#6c757d', wordBreak: 'break-all' }}>
+                      Or enter this key manually: <code>{twoFactorSetup.secret}</code>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
 
-          <div style={{ marginBottom: '20px' }}>
-            <label style={{
-              display: 'block',
-              marginBottom: '8px',
-              color: '#495057',
-              fontSize: '14px',
-              fontWeight: '500'
-            }}>
-              Password
-            </label>
-            <input
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              required
-              minLength={8}
-              disabled={isLoading}
-              style={{
-                width: '100%',
-                padding: '10px 12px',
-                border: '1px solid #ced4da',
-                borderRadius: '4px',
+            <div style={{ marginBottom: '20px' }}>
+              <label style={{
+                display: 'block',
+                marginBottom: '8px',
+                color: '#495057',
                 fontSize: '14px',
-                boxSizing: 'border-box'
-              }}
-              placeholder="Enter your password"
-            />
-            {showRegister && (
-              <small style={{ display: 'block', marginTop: '4px', color: '#6c757d', fontSize: '12px' }}>
-                Minimum 8 characters
-              </small>
-            )}
-          </div>
+                fontWeight: '500'
+              }}>
+                {twoFactor.setupRequired ? 'Authentication code' : 'Authentication code or recovery code'}
+              </label>
+              <input
+                type="text"
+                value={twoFactorCode}
+                onChange={(e) => setTwoFactorCode(e.target.value)}
+                required
+                autoFocus
+                autoComplete="one-time-code"
+                disabled={isLoading}
+                style={{
+                  width: '100%',
+                  padding: '10px 12px',
+                  border: '1px solid #ced4da',
+                  borderRadius: '4px',
+                  fontSize: '14px',
+                  boxSizing: 'border-box'
+                }}
+                placeholder="123456"
+              />
+            </div>
 
-          <button
-            type="submit"
-            disabled={isLoading}
-            style={{
-              width: '100%',
-              padding: '12px',
-              backgroundColor: isLoading ? '#6c757d' : '#007bff',
-              color: '#fff',
-              border: 'none',
-              borderRadius: '4px',
-              fontSize: '16px',
-              fontWeight: '500',
-              cursor: isLoading ? 'not-allowed' : 'pointer',
-              marginBottom: '16px'
-            }}
-          >
-            {isLoading ? 'Please wait...' : (showRegister ? 'Create Account' : 'Sign In')}
-          </button>
-
-          <div style={{ textAlign: 'center' }}>
             <button
-              type="button"
-              onClick={() => {
-                setShowRegister(!showRegister);
-                setError('');
-              }}
+              type="submit"
               disabled={isLoading}
               style={{
-                background: 'none',
+                width: '100%',
+                padding: '12px',
+                backgroundColor: isLoading ? '#6c757d' : '#007bff',
+                color: '#fff',
                 border: 'none',
-                color: '#007bff',
-                cursor: 'pointer',
-                fontSize: '14px',
-                textDecoration: 'underline'
+                borderRadius: '4px',
+                fontSize: '16px',
+                fontWeight: '500',
+                cursor: isLoading ? 'not-allowed' : 'pointer',
+                marginBottom: '16px'
               }}
             >
-              {showRegister ? 'Already have an account? Sign in' : "Don't have an account? Register"}
+              {isLoading ? 'Please wait...' : 'Verify'}
             </button>
-          </div>
-        </form>
 
-        {!showRegister && (
-          <div style={{
-            marginTop: '30px',
-            padding: '16px',
-            backgroundColor: '#e7f3ff',
-            borderRadius: '4px',
-            fontSize: '13px',
-            color: '#004085'
-          }}>
-            <strong>First time?</strong> Use the admin account you created during setup, or register a new account.
-          </div>
+            <div style={{ textAlign: 'center' }}>
+              <button
+                type="button"
+                onClick={cancelTwoFactor}
+                disabled={isLoading}
+                style={{
+                  background: 'none',
+                  border: 'none',
+                  color: '#007bff',
+                  cursor: 'pointer',
+                  fontSize: '14px',
+                  textDecoration: 'underline'
+                }}
+              >
+                Back to sign in
+              </button>
+            </div>
+          </form>
+        ) : (
+          <>
+            <form onSubmit={showRegister ? handleRegister : handleLogin}>
+              <div style={{ marginBottom: '20px' }}>
+                <label style={{
+                  display: 'block',
+                  marginBottom: '8px',
+                  color: '#495057',
+                  fontSize: '14px',
+                  fontWeight: '500'
+                }}>
+                  Username
+                </label>
+                <input
+                  type="text"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  required
+                  minLength={3}
+                  disabled={isLoading}
+                  style={{
+                    width: '100%',
+                    padding: '10px 12px',
+                    border: '1px solid #ced4da',
+                    borderRadius: '4px',
+                    fontSize: '14px',
+                    boxSizing: 'border-box'
+                  }}
+                  placeholder="Enter your username"
+                />
+              </div>
+
+              <div style={{ marginBottom: '20px' }}>
+                <label style={{
+                  display: 'block',
+                  marginBottom: '8px',
+                  color: '#495057',
+                  fontSize: '14px',
+                  fontWeight: '500'
+                }}>
+                  Password
+                </label>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  minLength={showRegister ? passwordPolicy?.minLength : undefined}
+                  disabled={isLoading}
+                  style={{
+                    width: '100%',
+                    padding: '10px 12px',
+                    border: '1px solid #ced4da',
+                    borderRadius: '4px',
+                    fontSize: '14px',
+                    boxSizing: 'border-box'
+                  }}
+                  placeholder="Enter your password"
+                />
+                {showRegister && (
+                  <small style={{ display: 'block', marginTop: '4px', color: '#6c757d', fontSize: '12px' }}>
+                    {passwordPolicy ? passwordPolicy.requirements.join(' · ') : 'Minimum 8 characters'}
+                  </small>
+                )}
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                style={{
+                  width: '100%',
+                  padding: '12px',
+                  backgroundColor: isLoading ? '#6c757d' : '#007bff',
+                  color: '#fff',
+                  border: 'none',
+                  borderRadius: '4px',
+                  fontSize: '16px',
+                  fontWeight: '500',
+                  cursor: isLoading ? 'not-allowed' : 'pointer',
+                  marginBottom: '16px'
+                }}
+              >
+                {isLoading ? 'Please wait...' : (showRegister ? 'Create Account' : 'Sign In')}
+              </button>
+
+              <div style={{ textAlign: 'center' }}>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowRegister(!showRegister);
+                    setError('');
+                  }}
+                  disabled={isLoading}
+                  style={{
+                    background: 'none',
+                    border: 'none',
+                    color: '#007bff',
+                    cursor: 'pointer',
+                    fontSize: '14px',
+                    textDecoration: 'underline'
+                  }}
+                >
+                  {showRegister ? 'Already have an account? Sign in' : "Don't have an account? Register"}
+                </button>
+              </div>
+            </form>
+
+            {ssoProviderName && !showRegister && (
+              <>
+                <div style={{ textAlign: 'center', margin: '20px 0', color: '#adb5bd', fontSize: '13px' }}>or</div>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setIsLoading(true);
+                    window.location.href = `${API_BASE_URL}/api/auth/oidc/login`;
+                  }}
+                  disabled={isLoading}
+                  style={{
+                    width: '100%',
+                    padding: '12px',
+                    backgroundColor: '#fff',
+                    color: '#343a40',
+                    border: '1px solid #ced4da',
+                    borderRadius: '4px',
+                    fontSize: '16px',
+                    fontWeight: '500',
+                    cursor: isLoading ? 'not-allowed' : 'pointer'
+                  }}
+                >
+                  🔑 Sign in with {ssoProviderName}
+                </button>
+              </>
+            )}
+
+            {!showRegister && (
+              <div style={{
+                marginTop: '30px',
+                padding: '16px',
+                backgroundColor: '#e7f3ff',
+                borderRadius: '4px',
+                fontSize: '13px',
+                color: '#004085'
+              }}>
+                <strong>First time?</strong> Use the admin account you created during setup, or register a new account.
+              </div>
+            )}
+          </>
         )}
       </div>
     </div>
@@ -0,0 +1,173 @@
+import React from 'react';
+import {
+  DecisionMatrixDiff,
+  MatrixChangeType,
+  MatrixFieldChange,
+  Rule
+} from '../../../shared/types';
+import { formatRuleCondition } from './decision-matrix-flow/utils/conditionGroups';
+
+interface MatrixDiffViewProps {
+  diff: DecisionMatrixDiff;
+}
+
+export const CHANGE_COLORS: Record<MatrixChangeType, { background: string; border: string; text: string }> = {
+  added: { background: '#d1fae5', border: '#10b981', text: '#065f46' },
+  removed: { background: '#fee2e2', border: '#ef4444', text: '#991b1b' },
+  modified: { background: '#fef3c7', border: '#f59e0b', text: '#92400e' }
+};
+
+const CHANGE_LABELS: Record<MatrixChangeType, string> = {
+  added: '+ Added',
+  removed: '− Removed',
+  modified: '~ Modified'
+};
+
+/**
+ * Format a changed value; conditions are shown the same way as in the rule list
+ */
+const formatValue = (field: string, value: any): string => {
+  if (value === undefined) {
+    return '—';
+  }
+  if (field.startsWith('conditions[')) {
+    return formatRuleCondition(value);
+  }
+  if (Array.isArray(value)) {
+    return value.join(', ');
+  }
+  if (typeof value === 'object' && value !== null) {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+const describeRule = (rule: Rule): string => {
+  const action = rule.action.type === 'override'
+    ? `→ ${rule.action.targetCategory}`
+    : rule.action.type === 'adjust_confidence'
+      ? `confidence ${rule.action.confidenceAdjustment && rule.action.confidenceAdjustment > 0 ? '+' : ''}${rule.action.confidenceAdjustment}`
+      : 'flag for review';
+  return `Priority ${rule.priority} · ${rule.conditions.map(formatRuleCondition).join(' AND ')} · ${action}`;
+};
+
+const ChangeBadge: React.FC<{ changeType: MatrixChangeType }> = ({ changeType }) => (
+  <span style={{
+    padding: '2px 8px',
+    borderRadius: '4px',
+    fontSize: '11px',
+    fontWeight: 600,
+    backgroundColor: CHANGE_COLORS[changeType].border,
+    color: '#fff'
+  }}>
+    {CHANGE_LABELS[changeType]}
+  </span>
+);
+
+const FieldChanges: React.FC<{ changes: MatrixFieldChange[] }> = ({ changes }) => (
+  <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px', marginTop: '8px' }}>
+    <tbody>
+      {changes.map(change => (
+        <tr key={change.field}>
+          <td style={{ padding: '4px 8px', fontFamily: 'monospace', color: '#475569', width: '25%', verticalAlign: 'top' }}>
+            {change.field}
+          </td>
+          <td style={{ padding: '4px 8px', backgroundColor: CHANGE_COLORS.removed.background, color: CHANGE_COLORS.removed.text, textDecoration: change.before !== undefined ? 'line-through' : 'none', verticalAlign: 'top' }}>
+            {formatValue(change.field, change.before)}
+          </td>
+          <td style={{ padding: '4px 8px', backgroundColor: CHANGE_COLORS.added.background, color: CHANGE_COLORS.added.text, verticalAlign: 'top' }}>
+            {formatValue(change.field, change.after)}
+          </td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const itemStyle = (changeType: MatrixChangeType): React.CSSProperties => ({
+  padding: '10px',
+  marginBottom: '8px',
+  borderLeft: `4px solid ${CHANGE_COLORS[changeType].border}`,
+  backgroundColor: '#f8fafc',
+  borderRadius: '4px'
+});
+
+/**
+ * Renders a structured diff between two decision matrix versions
+ */
+const MatrixDiffView: React.FC<MatrixDiffViewProps> = ({ diff }) => {
+  const { summary } = diff;
+  const hasChanges = diff.matrixChanges.length > 0 || diff.attributes.length > 0 || diff.rules.length > 0;
+
+  return (
+    <div>
+      <div style={{ fontSize: '14px', marginBottom: '10px' }}>
+        <strong>v{diff.fromVersion} → v{diff.toVersion}</strong>
+        {hasChanges && (
+          <span style={{ color: '#64748b', marginLeft: '10px' }}>
+            Attributes: +{summary.attributesAdded} −{summary.attributesRemoved} ~{summary.attributesModified}
+            {' · '}
+            Rules: +{summary.rulesAdded} −{summary.rulesRemoved} ~{summary.rulesModified}
+          </span>
+        )}
+      </div>
+
+      {!hasChanges && (
+        <p style={{ color: '#64748b', fontSize: '14px' }}>No differences between these versions</p>
+      )}
+
+      {diff.matrixChanges.length > 0 && (
+        <div style={itemStyle('modified')}>
+          <strong>Matrix</strong>
+          <FieldChanges changes={diff.matrixChanges} />
+        </div>
+      )}
+
+      {diff.attributes.length > 0 && (
+        <>
+          <h4 style={{ margin: '12px 0 8px' }}>Attributes</h4>
+          {diff.attributes.map(attr => {
+            const shown = attr.after || attr.before;
+            return (
+              <div key={attr.name} style={itemStyle(attr.changeType)}>
+                <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                  <ChangeBadge changeType={attr.changeType} />
+                  <strong>{attr.name}</strong>
+                  {attr.changeType !== 'modified' && shown && (
+                    <span style={{ fontSize: '12px', color: '#64748b' }}>
+                      {shown.type} · weight {shown.weight}
+                    </span>
+                  )}
+                </div>
+                {attr.changes.length > 0 && <FieldChanges changes={attr.changes} />}
+              </div>
+            );
+          })}
+        </>
+      )}
+
+      {diff.rules.length > 0 && (
+        <>
+          <h4 style={{ margin: '12px 0 8px' }}>Rules</h4>
+          {diff.rules.map(rule => {
+            const shown = rule.after || rule.before;
+            return (
+              <div key={rule.ruleId} style={itemStyle(rule.changeType)}>
+                <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                  <ChangeBadge changeType={rule.changeType} />
+                  <strong>{rule.name}</strong>
+                </div>
+                {rule.changeType !== 'modified' && shown && (
+                  <div style={{ fontSize: '12px', color: '#64748b', marginTop: '6px' }}>{describeRule(shown)}</div>
+                )}
+                {rule.changes.length > 0 && <FieldChanges changes={rule.changes} />}
+              </div>
+            );
+          })}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MatrixDiffView;
@@ -0,0 +1,169 @@
+import React from 'react';
+import { CategoryConfusionTable, MatrixSimulationResult } from '../../../shared/types';
+
+interface MatrixSimulationPanelProps {
+  result: MatrixSimulationResult;
+  onClose: () => void;
+}
+
+const cellStyle: React.CSSProperties = {
+  padding: '6px 10px',
+  border: '1px solid #dee2e6',
+  textAlign: 'center',
+  fontSize: '13px'
+};
+
+const headerCellStyle: React.CSSProperties = {
+  ...cellStyle,
+  backgroundColor: '#f8f9fa',
+  fontWeight: 600
+};
+
+/**
+ * Confusion table: rows are the reference category, columns the draft category.
+ * Cells on the diagonal are sessions where both agree.
+ */
+const ConfusionTable: React.FC<{ table: CategoryConfusionTable; referenceLabel: string }> = ({
+  table,
+  referenceLabel
+}) => {
+  const rows = Object.keys(table).sort();
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(table[row])))).sort();
+
+  if (rows.length === 0) {
+    return <p style={{ color: '#6c757d', fontSize: '13px' }}>No sessions to compare</p>;
+  }
+
+  return (
+    <div style={{ overflowX: 'auto' }}>
+      <table style={{ borderCollapse: 'collapse', backgroundColor: '#fff' }}>
+        <thead>
+          <tr>
+            <th style={headerCellStyle}>{referenceLabel} ↓ / Draft →</th>
+            {columns.map(column => (
+              <th key={column} style={headerCellStyle}>{column}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row}>
+              <th style={headerCellStyle}>{row}</th>
+              {columns.map(column => {
+                const count = table[row][column] || 0;
+                const agrees = row === column;
+                return (
+                  <td
+                    key={column}
+                    style={{
+                      ...cellStyle,
+                      backgroundColor: count === 0 ? '#fff' : agrees ? '#d1fae5' : '#fee2e2',
+                      fontWeight: count > 0 ? 600 : 400
+                    }}
+                  >
+                    {count || '-'}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const formatAccuracy = (correct: number, total: number): string =>
+  total > 0 ? `${correct}/${total} (${((correct / total) * 100).toFixed(0)}%)` : '-';
+
+const MatrixSimulationPanel: React.FC<MatrixSimulationPanelProps> = ({ result, onClose }) => {
+  const { vsUserCorrected } = result;
+
+  return (
+    <div style={{
+      padding: '20px',
+      backgroundColor: '#fff',
+      border: '1px solid #e2e8f0',
+      borderRadius: '8px',
+      marginBottom: '20px'
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <h3 style={{ margin: 0 }}>🧪 What-if: v{result.draftVersion} vs {result.activeVersion ? `active v${result.activeVersion}` : 'stored classifications'}</h3>
+        <button
+          onClick={onClose}
+          style={{
+            padding: '4px 10px',
+            backgroundColor: '#fff',
+            color: '#64748b',
+            border: '1px solid #e2e8f0',
+            borderRadius: '4px',
+            cursor: 'pointer'
+          }}
+        >
+          ✕ Close
+        </button>
+      </div>
+      <p style={{ fontSize: '13px', color: '#6c757d' }}>
+        Past sessions are replayed using their stored attributes and original LLM classification; nothing is saved.
+      </p>
+
+      <div style={{ display: 'flex', gap: '20px', marginBottom: '20px', fontSize: '14px' }}>
+        <div><strong>{result.sessionsEvaluated}</strong> sessions evaluated</div>
+        <div><strong style={{ color: result.changedCount > 0 ? '#dc3545' : '#28a745' }}>{result.changedCount}</strong> would change category</div>
+        <div><strong>{result.sessionsSkipped}</strong> skipped (no stored attributes)</div>
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(400px, 1fr))', gap: '20px', marginBottom: '20px' }}>
+        <div>
+          <h4 style={{ marginTop: 0 }}>Versus active version</h4>
+          <ConfusionTable table={result.vsActive} referenceLabel="Active" />
+        </div>
+        <div>
+          <h4 style={{ marginTop: 0 }}>Versus user-corrected categories</h4>
+          <div style={{ fontSize: '13px', marginBottom: '8px' }}>
+            Active correct: <strong>{formatAccuracy(vsUserCorrected.activeCorrect, vsUserCorrected.sessions)}</strong>
+            {' · '}
+            Draft correct: <strong>{formatAccuracy(vsUserCorrected.draftCorrect, vsUserCorrected.sessions)}</strong>
+          </div>
+          <ConfusionTable table={vsUserCorrected.table} referenceLabel="User" />
+        </div>
+      </div>
+
+      {result.changes.length > 0 && (
+        <>
+          <h4>Changed sessions{result.changesTruncated && ` (newest ${result.changes.length} of ${result.changedCount})`}</h4>
+          <div style={{ maxHeight: '300px', overflowY: 'auto' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+              <thead>
+                <tr>
+                  <th style={headerCellStyle}>Created</th>
+                  <th style={headerCellStyle}>Subject</th>
+                  <th style={headerCellStyle}>Active</th>
+                  <th style={headerCellStyle}>Draft</th>
+                  <th style={headerCellStyle}>User</th>
+                  <th style={headerCellStyle}>Draft Rules</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.changes.map(change => (
+                  <tr key={change.sessionId}>
+                    <td style={cellStyle}>{new Date(change.createdAt).toLocaleDateString()}</td>
+                    <td style={{ ...cellStyle, textAlign: 'left' }} title={change.sessionId}>{change.subject || change.sessionId}</td>
+                    <td style={cellStyle}>{change.activeCategory}</td>
+                    <td style={{ ...cellStyle, fontWeight: 600 }}>{change.draftCategory}</td>
+                    <td style={cellStyle}>{change.userCategory || '-'}</td>
+                    <td style={{ ...cellStyle, textAlign: 'left' }}>
+                      {change.draftTriggeredRules.length > 0 ? change.draftTriggeredRules.join(', ') : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MatrixSimulationPanel;
@@ -0,0 +1,448 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { PIIChecksum, PIICustomDetector, PIIDetectorSettings, PIIRevealSettings, PIIType } from '../../../shared/types';
+import { apiService, PIIPreviewResult } from '../services/api';
+
+type BuiltInDetector = Exclude<PIIType, 'custom'>;
+
+const BUILT_IN_DETECTORS: Array<{ type: BuiltInDetector; label: string; token: string; help: string }> = [
+  { type: 'email', label: 'Email addresses', token: 'EMAIL', help: 'jane.doe@example.com' },
+  { type: 'phone', label: 'Phone numbers', token: 'PHONE', help: 'US and international formats' },
+  { type: 'ssn', label: 'US Social Security numbers', token: 'SSN', help: '123-45-6789' },
+  { type: 'credit_card', label: 'Card numbers', token: 'CARD', help: 'Luhn checksum validated' },
+  { type: 'iban', label: 'IBANs', token: 'IBAN', help: 'mod-97 checksum validated' },
+  { type: 'uk_ni', label: 'UK National Insurance numbers', token: 'NI_NUMBER', help: 'AB 12 34 56 C' },
+  { type: 'uk_postcode', label: 'UK postcodes', token: 'POSTCODE', help: 'SW1A 1AA' },
+  { type: 'street_address', label: 'Street addresses', token: 'ADDRESS', help: 'House number and street type: 221B Baker Street' },
+  { type: 'person_name', label: 'Person names', token: 'NAME', help: 'Known first names, optionally with a surname, and names after a title (Mr, Dr...)' },
+];
+
+const CHECKSUM_OPTIONS: Array<{ value: PIIChecksum | ''; label: string }> = [
+  { value: '', label: 'None' },
+  { value: 'luhn', label: 'Luhn' },
+  { value: 'iban', label: 'IBAN mod-97' },
+];
+
+const NEW_DETECTOR: PIICustomDetector = {
+  id: '',
+  name: '',
+  pattern: '',
+  caseSensitive: true,
+  enabled: true,
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '6px',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  boxSizing: 'border-box'
+};
+
+const sectionStyle: React.CSSProperties = {
+  backgroundColor: '#fff',
+  border: '1px solid #ddd',
+  borderRadius: '8px',
+  padding: '20px',
+  marginBottom: '20px'
+};
+
+const parseNames = (text: string): string[] =>
+  text.split(/[\s,]+/).map(name => name.trim()).filter(name => name.length > 0);
+
+const PIIDetectorsAdmin: React.FC = () => {
+  const [settings, setSettings] = useState<PIIDetectorSettings | null>(null);
+  const [revealSettings, setRevealSettings] = useState<PIIRevealSettings | null>(null);
+  const [namesText, setNamesText] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [successMessage, setSuccessMessage] = useState('');
+  const [sampleText, setSampleText] = useState('');
+  const [preview, setPreview] = useState<PIIPreviewResult | null>(null);
+  const [testing, setTesting] = useState(false);
+
+  const loadSettings = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const [loaded, loadedReveal] = await Promise.all([
+        apiService.getPIIDetectorSettings(),
+        apiService.getPIIRevealSettings()
+      ]);
+      setSettings(loaded);
+      setNamesText(loaded.personNames.join(', '));
+      setRevealSettings(loadedReveal);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load PII detector settings');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  if (loading && !settings) {
+    return <div style={{ padding: '20px', textAlign: 'center' }}>Loading PII detectors...</div>;
+  }
+
+  if (!settings || !revealSettings) {
+    return <div style={{ padding: '20px', textAlign: 'center', color: '#721c24' }}>{error}</div>;
+  }
+
+  const draft: PIIDetectorSettings = { ...settings, personNames: parseNames(namesText) };
+
+  const toggleBuiltIn = (type: BuiltInDetector, enabled: boolean) => {
+    setSettings({
+      ...settings,
+      disabledDetectors: enabled
+        ? settings.disabledDetectors.filter(disabled => disabled !== type)
+        : [...settings.disabledDetectors, type]
+    });
+  };
+
+  const updateCustom = (index: number, changes: Partial<PIICustomDetector>) => {
+    setSettings({
+      ...settings,
+      customDetectors: settings.customDetectors.map((detector, i) => {
+        if (i !== index) return detector;
+        const updated = { ...detector, ...changes };
+        if (!updated.checksum) delete updated.checksum;
+        return updated;
+      })
+    });
+  };
+
+  const removeCustom = (index: number) => {
+    setSettings({ ...settings, customDetectors: settings.customDetectors.filter((_, i) => i !== index) });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    setSuccessMessage('');
+    try {
+      const result = await apiService.updatePIIDetectorSettings({
+        disabledDetectors: draft.disabledDetectors,
+        customDetectors: draft.customDetectors,
+        personNames: draft.personNames,
+      });
+      const revealResult = await apiService.updatePIIRevealSettings({
+        requireApproval: revealSettings.requireApproval,
+        revealMinutes: revealSettings.revealMinutes,
+      });
+      setSettings(result.settings);
+      setNamesText(result.settings.personNames.join(', '));
+      setRevealSettings(revealResult.settings);
+      setSuccessMessage(result.message);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save PII detector settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTest = async () => {
+    setTesting(true);
+    setError('');
+    try {
+      setPreview(await apiService.testPIIDetectors(sampleText, draft));
+    } catch (err: any) {
+      setError(err.message || 'Failed to test PII detectors');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div style={{ maxWidth: '1000px', margin: '20px auto', padding: '20px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
+        <h2 style={{ margin: 0 }}>PII Detectors</h2>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          style={{
+            padding: '10px 20px',
+            backgroundColor: saving ? '#ccc' : '#28a745',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: saving ? 'not-allowed' : 'pointer'
+          }}
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+
+      <div style={sectionStyle}>
+        <p style={{ marginTop: 0, marginBottom: 0, color: '#666', fontSize: '14px', lineHeight: '1.5' }}>
+          Detected values are replaced by tokens such as [EMAIL_1] before text is stored or sent to an LLM;
+          the original values are kept encrypted. Changes apply to text scrubbed from then on in this workspace.
+        </p>
+        {settings.updatedAt && (
+          <p style={{ marginBottom: 0, color: '#999', fontSize: '12px' }}>
+            Last changed by {settings.updatedBy}, {new Date(settings.updatedAt).toLocaleString()}
+          </p>
+        )}
+      </div>
+
+      {error && (
+        <div style={{
+          padding: '15px',
+          backgroundColor: '#f8d7da',
+          color: '#721c24',
+          borderRadius: '4px',
+          marginBottom: '20px'
+        }}>
+          {error}
+        </div>
+      )}
+
+      {successMessage && (
+        <div style={{
+          padding: '15px',
+          backgroundColor: '#d4edda',
+          color: '#155724',
+          borderRadius: '4px',
+          marginBottom: '20px'
+        }}>
+          {successMessage}
+        </div>
+      )}
+
+      <div style={sectionStyle}>
+        <h3 style={{ marginTop: 0, marginBottom: '15px' }}>Built-in Detectors</h3>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+          {BUILT_IN_DETECTORS.map(detector => (
+            <label key={detector.type} style={{ display: 'flex', gap: '10px', alignItems: 'flex-start', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={!settings.disabledDetectors.includes(detector.type)}
+                onChange={(e) => toggleBuiltIn(detector.type, e.target.checked)}
+                style={{ marginTop: '3px' }}
+              />
+              <div>
+                <div style={{ fontWeight: 'bold', fontSize: '14px' }}>
+                  {detector.label} <code style={{ color: '#666', fontWeight: 'normal' }}>[{detector.token}_1]</code>
+                </div>
+                <div style={{ color: '#666', fontSize: '12px' }}>{detector.help}</div>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        <label style={{ display: 'block', fontWeight: 'bold', fontSize: '14px', marginTop: '20px', marginBottom: '5px' }}>
+          Additional first names
+        </label>
+        <div style={{ color: '#666', fontSize: '12px', marginBottom: '5px' }}>
+          Added to the name dictionary, e.g. names common in your organisation. Separate with commas.
+        </div>
+        <textarea
+          value={namesText}
+          onChange={(e) => setNamesText(e.target.value)}
+          rows={2}
+          placeholder="Siobhan, Oluwaseun, Bartholomew"
+          style={{ ...inputStyle, fontFamily: 'inherit' }}
+        />
+      </div>
+
+      <div style={sectionStyle}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '15px' }}>
+          <h3 style={{ margin: 0 }}>Custom Detectors</h3>
+          <button
+            onClick={() => setSettings({ ...settings, customDetectors: [...settings.customDetectors, { ...NEW_DETECTOR }] })}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#007bff',
+              color: '#fff',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer'
+            }}
+          >
+            + Add Detector
+          </button>
+        </div>
+
+        {settings.customDetectors.length === 0 ? (
+          <p style={{ color: '#666', fontSize: '14px', margin: 0 }}>
+            Add a regular expression for identifiers specific to your organisation, e.g. employee IDs
+            (<code>EMP-\d{'{6}'}</code>). The ID names the token: <code>employee_id</code> becomes [EMPLOYEE_ID_1].
+          </p>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+            <thead>
+              <tr style={{ color: '#666', textAlign: 'left' }}>
+                <th style={{ padding: '6px' }}>ID</th>
+                <th style={{ padding: '6px' }}>Name</th>
+                <th style={{ padding: '6px' }}>Pattern</th>
+                <th style={{ padding: '6px' }}>Checksum</th>
+                <th style={{ padding: '6px' }}>Case sensitive</th>
+                <th style={{ padding: '6px' }}>Enabled</th>
+                <th style={{ padding: '6px' }}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {settings.customDetectors.map((detector, index) => (
+                <tr key={index}>
+                  <td style={{ padding: '6px', width: '18%' }}>
+                    <input
+                      type="text"
+                      value={detector.id}
+                      onChange={(e) => updateCustom(index, { id: e.target.value })}
+                      placeholder="employee_id"
+                      style={inputStyle}
+                    />
+                  </td>
+                  <td style={{ padding: '6px', width: '20%' }}>
+                    <input
+                      type="text"
+                      value={detector.name}
+                      onChange={(e) => updateCustom(index, { name: e.target.value })}
+                      placeholder="Employee ID"
+                      style={inputStyle}
+                    />
+                  </td>
+                  <td style={{ padding: '6px' }}>
+                    <input
+                      type="text"
+                      value={detector.pattern}
+                      onChange={(e) => updateCustom(index, { pattern: e.target.value })}
+                      placeholder="EMP-\d{6}"
+                      style={{ ...inputStyle, fontFamily: 'monospace' }}
+                    />
+                  </td>
+                  <td style={{ padding: '6px' }}>
+                    <select
+                      value={detector.checksum || ''}
+                      onChange={(e) => updateCustom(index, { checksum: (e.target.value || undefined) as PIIChecksum | undefined })}
+                      style={inputStyle}
+                    >
+                      {CHECKSUM_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td style={{ padding: '6px', textAlign: 'center' }}>
+                    <input
+                      type="checkbox"
+                      checked={detector.caseSensitive}
+                      onChange={(e) => updateCustom(index, { caseSensitive: e.target.checked })}
+                    />
+                  </td>
+                  <td style={{ padding: '6px', textAlign: 'center' }}>
+                    <input
+                      type="checkbox"
+                      checked={detector.enabled}
+                      onChange={(e) => updateCustom(index, { enabled: e.target.checked })}
+                    />
+                  </td>
+                  <td style={{ padding: '6px' }}>
+                    <button
+                      onClick={() => removeCustom(index)}
+                      style={{
+                        padding: '4px 8px',
+                        backgroundColor: '#dc3545',
+                        color: '#fff',
+                        border: 'none',
+                        borderRadius: '4px',
+                        cursor: 'pointer'
+                      }}
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div style={sectionStyle}>
+        <h3 style={{ marginTop: 0, marginBottom: '10px' }}>Revealing Original Values</h3>
+        <div style={{ color: '#666', fontSize: '12px', marginBottom: '15px' }}>
+          Users with the PII reveal permission can ask to see the values behind the tokens of a session,
+          giving a justification. Every request, review and reveal is kept in the session's access log.
+        </div>
+        <label style={{ display: 'flex', gap: '10px', alignItems: 'center', cursor: 'pointer', fontSize: '14px' }}>
+          <input
+            type="checkbox"
+            checked={revealSettings.requireApproval}
+            onChange={(e) => setRevealSettings({ ...revealSettings, requireApproval: e.target.checked })}
+          />
+          Require a second person to approve each request
+        </label>
+        <label style={{ display: 'flex', gap: '10px', alignItems: 'center', fontSize: '14px', marginTop: '10px' }}>
+          Values can be revealed for
+          <input
+            type="number"
+            min={1}
+            max={1440}
+            value={revealSettings.revealMinutes}
+            onChange={(e) => setRevealSettings({ ...revealSettings, revealMinutes: parseInt(e.target.value, 10) || 1 })}
+            style={{ ...inputStyle, width: '80px' }}
+          />
+          minutes after approval
+        </label>
+      </div>
+
+      <div style={sectionStyle}>
+        <h3 style={{ marginTop: 0, marginBottom: '10px' }}>Try It</h3>
+        <div style={{ color: '#666', fontSize: '12px', marginBottom: '5px' }}>
+          Scrubs sample text with the settings above, including unsaved changes. Nothing is stored.
+        </div>
+        <textarea
+          value={sampleText}
+          onChange={(e) => setSampleText(e.target.value)}
+          rows={4}
+          placeholder="Sarah Jones (EMP-123456) refunds customers to GB82 WEST 1234 5698 7654 32..."
+          style={{ ...inputStyle, fontFamily: 'inherit' }}
+        />
+        <button
+          onClick={handleTest}
+          disabled={testing || sampleText.trim().length === 0}
+          style={{
+            marginTop: '10px',
+            padding: '8px 16px',
+            backgroundColor: testing || sampleText.trim().length === 0 ? '#ccc' : '#007bff',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: testing || sampleText.trim().length === 0 ? 'not-allowed' : 'pointer'
+          }}
+        >
+          {testing ? 'Testing...' : 'Test'}
+        </button>
+
+        {preview && (
+          <div style={{ marginTop: '15px' }}>
+            <p style={{
+              margin: 0,
+              padding: '10px',
+              backgroundColor: '#f8f9fa',
+              borderRadius: '4px',
+              whiteSpace: 'pre-wrap'
+            }}>
+              {preview.scrubbedText}
+            </p>
+            {preview.matches.length === 0 ? (
+              <p style={{ color: '#666', fontSize: '14px' }}>No PII detected.</p>
+            ) : (
+              <ul style={{ fontSize: '13px', color: '#333' }}>
+                {preview.matches.map((match, index) => (
+                  <li key={index}>
+                    <code>{match.token}</code> {match.value} ({match.detector || match.type})
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PIIDetectorsAdmin;
@@ -0,0 +1,336 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { PIIAccessLogEntry, PIIRevealRequest, PIIRevealSettings } from '../../../shared/types';
+import { apiService } from '../services/api';
+
+interface PIIRevealPanelProps {
+  sessionId: string;
+  tokens: string[];
+}
+
+interface RevealedValues {
+  requestId: string;
+  expiresAt: string;
+  values: Record<string, string>;
+}
+
+const boxStyle: React.CSSProperties = {
+  backgroundColor: '#f8f9fa',
+  padding: '16px',
+  borderRadius: '8px',
+  marginBottom: '20px',
+  border: '1px solid #dee2e6'
+};
+
+const buttonStyle = (color: string, disabled = false): React.CSSProperties => ({
+  padding: '6px 14px',
+  backgroundColor: disabled ? '#ccc' : color,
+  color: '#fff',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: disabled ? 'not-allowed' : 'pointer',
+  fontSize: '13px'
+});
+
+const cellStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  borderBottom: '1px solid #e9ecef',
+  textAlign: 'left',
+  fontSize: '13px',
+  verticalAlign: 'top'
+};
+
+const STATUS_COLORS: Record<PIIRevealRequest['status'], string> = {
+  pending: '#ffc107',
+  approved: '#28a745',
+  rejected: '#dc3545'
+};
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleString();
+
+const formatRemaining = (ms: number): string => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Reveal workflow and access log of a session's PII. Reveals need a written
+ * justification, may need a second approver, and expire.
+ */
+const PIIRevealPanel: React.FC<PIIRevealPanelProps> = ({ sessionId, tokens }) => {
+  const permissions: string[] = JSON.parse(sessionStorage.getItem('userPermissions') || '[]');
+  const canReveal = permissions.includes('pii:reveal');
+  const canReadLog = permissions.includes('audit:read');
+  const currentUserId = sessionStorage.getItem('userId') || '';
+
+  const [requests, setRequests] = useState<PIIRevealRequest[]>([]);
+  const [settings, setSettings] = useState<PIIRevealSettings | null>(null);
+  const [accessLog, setAccessLog] = useState<PIIAccessLogEntry[]>([]);
+  const [justification, setJustification] = useState('');
+  const [selectedTokens, setSelectedTokens] = useState<string[]>(tokens);
+  const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({});
+  const [revealed, setRevealed] = useState<RevealedValues | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      if (canReveal) {
+        const result = await apiService.getPIIRevealRequests(sessionId);
+        setRequests(result.requests);
+        setSettings(result.settings);
+      }
+      if (canReadLog) {
+        setAccessLog((await apiService.getPIIAccessLog(sessionId)).accessLog);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load reveal requests');
+    }
+  }, [sessionId, canReveal, canReadLog]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Count down while values are shown, and hide them when the request expires
+  useEffect(() => {
+    if (!revealed) return;
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= new Date(revealed.expiresAt).getTime()) {
+        setRevealed(null);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [revealed]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+      await load();
+    } catch (err: any) {
+      setError(err.message || 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRequest = () => run(async () => {
+    await apiService.createPIIRevealRequest(
+      sessionId,
+      justification,
+      selectedTokens.length === tokens.length ? undefined : selectedTokens
+    );
+    setJustification('');
+  });
+
+  const handleReview = (requestId: string, approve: boolean) => run(async () => {
+    await apiService.reviewPIIRevealRequest(requestId, approve, reviewNotes[requestId] || undefined);
+  });
+
+  const handleReveal = (requestId: string) => run(async () => {
+    const result = await apiService.revealPII(requestId);
+    setNow(Date.now());
+    setRevealed(result);
+  });
+
+  const handleExport = async () => {
+    setError('');
+    try {
+      const blob = await apiService.exportPIIAccessLog(sessionId);
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `pii-access-log-${sessionId}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (err: any) {
+      setError(err.message || 'Failed to export access log');
+    }
+  };
+
+  const toggleToken = (token: string, checked: boolean) => {
+    setSelectedTokens(checked ? [...selectedTokens, token] : selectedTokens.filter(t => t !== token));
+  };
+
+  const isUsable = (request: PIIRevealRequest) =>
+    request.status === 'approved' &&
+    request.requestedBy === currentUserId &&
+    !!request.expiresAt &&
+    new Date(request.expiresAt).getTime() > now;
+
+  const canSubmit = !busy && justification.trim().length >= 20 && selectedTokens.length > 0;
+
+  if (!canReveal && !canReadLog) {
+    return null;
+  }
+
+  return (
+    <div>
+      {error && <p style={{ color: '#dc3545' }}>{error}</p>}
+
+      {revealed && (
+        <div style={{ ...boxStyle, backgroundColor: '#fff3cd', border: '1px solid #ffc107' }}>
+          <h4 style={{ marginTop: 0 }}>
+            Original Values (hidden in {formatRemaining(new Date(revealed.expiresAt).getTime() - now)})
+          </h4>
+          {Object.entries(revealed.values).map(([token, value]) => (
+            <div key={token} style={{ display: 'flex', gap: '10px', padding: '4px 0' }}>
+              <code>{token}</code>
+              <span>{value}</span>
+            </div>
+          ))}
+          <button onClick={() => setRevealed(null)} style={{ ...buttonStyle('#6c757d'), marginTop: '10px' }}>
+            Hide Now
+          </button>
+        </div>
+      )}
+
+      {canReveal && settings && (
+        <div style={boxStyle}>
+          <h4 style={{ marginTop: 0 }}>Reveal Original Values</h4>
+          <p style={{ color: '#6c757d', fontSize: '13px', marginTop: 0 }}>
+            {settings.requireApproval
+              ? `Another user must approve the request. Once approved, you can see the values for ${settings.revealMinutes} minutes.`
+              : `You can see the values for ${settings.revealMinutes} minutes.`}
+            {' '}Your justification is kept in the access log.
+          </p>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '10px', marginBottom: '10px' }}>
+            {tokens.map(token => (
+              <label key={token} style={{ fontSize: '13px', cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={selectedTokens.includes(token)}
+                  onChange={(e) => toggleToken(token, e.target.checked)}
+                />{' '}
+                <code>{token}</code>
+              </label>
+            ))}
+          </div>
+          <textarea
+            value={justification}
+            onChange={(e) => setJustification(e.target.value)}
+            rows={3}
+            placeholder="Why do you need to see these values? (at least 20 characters)"
+            aria-label="Justification"
+            style={{ width: '100%', padding: '8px', boxSizing: 'border-box', fontFamily: 'inherit', borderRadius: '4px', border: '1px solid #ced4da' }}
+          />
+          <button onClick={handleRequest} disabled={!canSubmit} style={{ ...buttonStyle('#007bff', !canSubmit), marginTop: '10px' }}>
+            {settings.requireApproval ? 'Request Approval' : 'Request Reveal'}
+          </button>
+
+          {requests.length > 0 && (
+            <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '20px' }}>
+              <thead>
+                <tr style={{ color: '#666' }}>
+                  <th style={cellStyle}>Requested</th>
+                  <th style={cellStyle}>Justification</th>
+                  <th style={cellStyle}>Status</th>
+                  <th style={cellStyle}></th>
+                </tr>
+              </thead>
+              <tbody>
+                {requests.map(request => (
+                  <tr key={request.requestId}>
+                    <td style={cellStyle}>
+                      {request.requestedByName}<br />
+                      <span style={{ color: '#6c757d' }}>{formatDate(request.requestedAt)}</span>
+                    </td>
+                    <td style={cellStyle}>
+                      {request.justification}<br />
+                      <span style={{ color: '#6c757d' }}>{request.tokens.join(', ')}</span>
+                    </td>
+                    <td style={cellStyle}>
+                      <span style={{ color: STATUS_COLORS[request.status], fontWeight: 'bold' }}>{request.status}</span>
+                      {request.reviewedByName && (
+                        <div style={{ color: '#6c757d' }}>by {request.reviewedByName}</div>
+                      )}
+                      {request.reviewNotes && <div style={{ color: '#6c757d' }}>{request.reviewNotes}</div>}
+                      {request.expiresAt && (
+                        <div style={{ color: '#6c757d' }}>
+                          {new Date(request.expiresAt).getTime() > now ? 'until' : 'expired'} {formatDate(request.expiresAt)}
+                        </div>
+                      )}
+                    </td>
+                    <td style={cellStyle}>
+                      {request.status === 'pending' && request.requestedBy !== currentUserId && (
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                          <input
+                            value={reviewNotes[request.requestId] || ''}
+                            onChange={(e) => setReviewNotes({ ...reviewNotes, [request.requestId]: e.target.value })}
+                            placeholder="Notes (optional)"
+                            aria-label="Review notes"
+                            style={{ padding: '4px', fontSize: '13px' }}
+                          />
+                          <div style={{ display: 'flex', gap: '6px' }}>
+                            <button onClick={() => handleReview(request.requestId, true)} disabled={busy} style={buttonStyle('#28a745', busy)}>
+                              Approve
+                            </button>
+                            <button onClick={() => handleReview(request.requestId, false)} disabled={busy} style={buttonStyle('#dc3545', busy)}>
+                              Reject
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                      {request.status === 'pending' && request.requestedBy === currentUserId && (
+                        <span style={{ color: '#6c757d' }}>Waiting for approval</span>
+                      )}
+                      {isUsable(request) && (
+                        <button onClick={() => handleReveal(request.requestId)} disabled={busy} style={buttonStyle('#fd7e14', busy)}>
+                          Show Values
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {canReadLog && (
+        <div style={boxStyle}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <h4 style={{ margin: 0 }}>Access Log</h4>
+            <button onClick={handleExport} disabled={accessLog.length === 0} style={buttonStyle('#6c757d', accessLog.length === 0)}>
+              Export CSV
+            </button>
+          </div>
+          <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '10px' }}>
+            <thead>
+              <tr style={{ color: '#666' }}>
+                <th style={cellStyle}>Time</th>
+                <th style={cellStyle}>User</th>
+                <th style={cellStyle}>Purpose</th>
+                <th style={cellStyle}>Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {accessLog.map((entry, index) => (
+                <tr key={index}>
+                  <td style={cellStyle}>{formatDate(entry.timestamp)}</td>
+                  <td style={cellStyle}>{entry.userId}</td>
+                  <td style={cellStyle}>{entry.purpose}</td>
+                  <td style={cellStyle}>
+                    {entry.justification}
+                    {entry.tokens && entry.tokens.length > 0 && (
+                      <div style={{ color: '#6c757d' }}>{entry.tokens.join(', ')}</div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PIIRevealPanel;
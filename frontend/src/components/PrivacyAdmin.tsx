@@ -0,0 +1,274 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ErasureCertificate, RetentionDataType, RetentionPolicy, RetentionPurgeResult } from '../../../shared/types';
+import { apiService } from '../services/api';
+
+const DATA_TYPES: Array<{ type: RetentionDataType; label: string; help: string }> = [
+  { type: 'sessions', label: 'Sessions', help: 'Counted from the last change to the session' },
+  { type: 'audit_logs', label: 'Audit logs', help: 'Whole days of the audit trail' },
+  { type: 'pii_mappings', label: 'PII mappings', help: 'Encrypted original values, counted from the last value added' },
+  { type: 'voice_cache', label: 'Voice cache', help: 'Shared by all workspaces; the default workspace setting applies' },
+];
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '6px',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  boxSizing: 'border-box'
+};
+
+const sectionStyle: React.CSSProperties = {
+  backgroundColor: '#fff',
+  border: '1px solid #ddd',
+  borderRadius: '8px',
+  padding: '20px',
+  marginBottom: '20px'
+};
+
+const buttonStyle = (color: string, disabled = false): React.CSSProperties => ({
+  padding: '8px 16px',
+  backgroundColor: disabled ? '#ccc' : color,
+  color: '#fff',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: disabled ? 'not-allowed' : 'pointer'
+});
+
+const cellStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  borderBottom: '1px solid #e9ecef',
+  textAlign: 'left',
+  fontSize: '13px',
+  verticalAlign: 'top'
+};
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleString();
+
+const sumWorkspaces = (certificate: ErasureCertificate, field: Exclude<keyof ErasureCertificate['workspaces'][number], 'workspaceId'>) =>
+  certificate.workspaces.reduce((sum, workspace) => sum + workspace[field], 0);
+
+/**
+ * Retention policy of the workspace and subject erasure (right to erasure)
+ */
+const PrivacyAdmin: React.FC = () => {
+  const [policy, setPolicy] = useState<RetentionPolicy | null>(null);
+  const [lastRun, setLastRun] = useState<RetentionPurgeResult | null>(null);
+  const [certificates, setCertificates] = useState<ErasureCertificate[]>([]);
+  const [erasure, setErasure] = useState({ user: '', value: '', reason: '' });
+  const [confirmErasure, setConfirmErasure] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [successMessage, setSuccessMessage] = useState('');
+
+  const load = useCallback(async () => {
+    setError('');
+    try {
+      const [retention, erasures] = await Promise.all([
+        apiService.getRetentionPolicy(),
+        apiService.getErasureCertificates()
+      ]);
+      setPolicy(retention.policy);
+      setLastRun(retention.lastRun);
+      setCertificates(erasures.certificates);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load privacy settings');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true);
+    setError('');
+    setSuccessMessage('');
+    try {
+      setSuccessMessage(await action());
+      await load();
+    } catch (err: any) {
+      setError(err.message || 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!policy) {
+    return (
+      <div style={{ padding: '20px', textAlign: 'center', color: error ? '#721c24' : undefined }}>
+        {error || 'Loading privacy settings...'}
+      </div>
+    );
+  }
+
+  const setDays = (type: RetentionDataType, days: number | null) => {
+    setPolicy({ ...policy, retentionDays: { ...policy.retentionDays, [type]: days } });
+  };
+
+  const handleSave = () => run(async () => {
+    const result = await apiService.updateRetentionPolicy({ retentionDays: policy.retentionDays });
+    return result.message;
+  });
+
+  const handlePurge = () => run(async () => {
+    const result = await apiService.runRetentionPurge();
+    const total = Object.values(result.deleted).reduce((a, b) => a + b, 0);
+    return `Purge finished: ${total} items deleted`;
+  });
+
+  const handleErase = () => run(async () => {
+    const certificate = await apiService.eraseDataSubject({
+      user: erasure.user.trim() || undefined,
+      value: erasure.value.trim() || undefined,
+      reason: erasure.reason
+    });
+    setErasure({ user: '', value: '', reason: '' });
+    setConfirmErasure(false);
+    return `Erasure complete, certificate ${certificate.certificateId}`;
+  });
+
+  const canErase = !busy && confirmErasure && erasure.reason.trim().length >= 10 &&
+    (erasure.user.trim().length > 0 || erasure.value.trim().length >= 3);
+
+  return (
+    <div style={{ maxWidth: '1000px', margin: '20px auto', padding: '20px' }}>
+      <h2 style={{ marginTop: 0 }}>Data Retention &amp; Erasure</h2>
+
+      {error && (
+        <div style={{ padding: '15px', backgroundColor: '#f8d7da', color: '#721c24', borderRadius: '4px', marginBottom: '20px' }}>
+          {error}
+        </div>
+      )}
+      {successMessage && (
+        <div style={{ padding: '15px', backgroundColor: '#d4edda', color: '#155724', borderRadius: '4px', marginBottom: '20px' }}>
+          {successMessage}
+        </div>
+      )}
+
+      <div style={sectionStyle}>
+        <h3 style={{ marginTop: 0, marginBottom: '10px' }}>Retention Policy</h3>
+        <div style={{ color: '#666', fontSize: '12px', marginBottom: '15px' }}>
+          Data older than its window is deleted by the scheduled purge of this workspace. Leave a window
+          empty to keep that data indefinitely.
+        </div>
+        {DATA_TYPES.map(({ type, label, help }) => (
+          <div key={type} style={{ display: 'flex', gap: '10px', alignItems: 'center', marginBottom: '10px', fontSize: '14px' }}>
+            <div style={{ width: '160px' }}>{label}</div>
+            <input
+              type="number"
+              min={1}
+              max={36500}
+              value={policy.retentionDays[type] ?? ''}
+              placeholder="Keep"
+              aria-label={`${label} retention days`}
+              onChange={(e) => setDays(type, e.target.value === '' ? null : parseInt(e.target.value, 10) || 1)}
+              style={{ ...inputStyle, width: '90px' }}
+            />
+            <span>days</span>
+            <span style={{ color: '#999', fontSize: '12px' }}>{help}</span>
+          </div>
+        ))}
+        <div style={{ display: 'flex', gap: '10px', marginTop: '15px' }}>
+          <button onClick={handleSave} disabled={busy} style={buttonStyle('#28a745', busy)}>
+            Save
+          </button>
+          <button onClick={handlePurge} disabled={busy} style={buttonStyle('#6c757d', busy)}>
+            Purge Now
+          </button>
+        </div>
+        {policy.updatedAt && (
+          <p style={{ marginBottom: 0, color: '#999', fontSize: '12px' }}>
+            Last changed by {policy.updatedBy}, {formatDate(policy.updatedAt)}
+          </p>
+        )}
+        {lastRun && (
+          <p style={{ marginBottom: 0, color: '#999', fontSize: '12px' }}>
+            Last purge {formatDate(lastRun.ranAt)}:{' '}
+            {DATA_TYPES.map(({ type, label }) => `${label.toLowerCase()} ${lastRun.deleted[type]}`).join(', ')}
+          </p>
+        )}
+      </div>
+
+      <div style={sectionStyle}>
+        <h3 style={{ marginTop: 0, marginBottom: '10px' }}>Erase a Data Subject</h3>
+        <div style={{ color: '#666', fontSize: '12px', marginBottom: '15px' }}>
+          Erases from every workspace. Sessions a user submitted are deleted with their PII mappings, reveal
+          requests and audit entries, and their other audit entries, such as reviews, are anonymised. A PII value is removed from all
+          mappings and replaced with [ERASED] wherever it was stored. This cannot be undone; the user
+          account itself is removed under Users.
+        </div>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '10px', marginBottom: '10px' }}>
+          <input
+            value={erasure.user}
+            onChange={(e) => setErasure({ ...erasure, user: e.target.value })}
+            placeholder="User ID or username"
+            aria-label="User"
+            style={inputStyle}
+          />
+          <input
+            value={erasure.value}
+            onChange={(e) => setErasure({ ...erasure, value: e.target.value })}
+            placeholder="PII value, e.g. jane.doe@example.com"
+            aria-label="PII value"
+            style={inputStyle}
+          />
+        </div>
+        <textarea
+          value={erasure.reason}
+          onChange={(e) => setErasure({ ...erasure, reason: e.target.value })}
+          rows={2}
+          placeholder="Reason, e.g. the reference of the request (at least 10 characters, no personal data)"
+          aria-label="Reason"
+          style={{ ...inputStyle, fontFamily: 'inherit' }}
+        />
+        <label style={{ display: 'flex', gap: '10px', alignItems: 'center', cursor: 'pointer', fontSize: '14px', margin: '10px 0' }}>
+          <input type="checkbox" checked={confirmErasure} onChange={(e) => setConfirmErasure(e.target.checked)} />
+          I understand the data will be permanently erased
+        </label>
+        <button onClick={handleErase} disabled={!canErase} style={buttonStyle('#dc3545', !canErase)}>
+          Erase
+        </button>
+      </div>
+
+      <div style={sectionStyle}>
+        <h3 style={{ marginTop: 0, marginBottom: '10px' }}>Erasure Certificates</h3>
+        {certificates.length === 0 ? (
+          <p style={{ color: '#666', fontSize: '14px', margin: 0 }}>No erasures yet.</p>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ color: '#666' }}>
+                <th style={cellStyle}>Issued</th>
+                <th style={cellStyle}>Reason</th>
+                <th style={cellStyle}>Erased</th>
+                <th style={cellStyle}>Digest</th>
+              </tr>
+            </thead>
+            <tbody>
+              {certificates.map(certificate => (
+                <tr key={certificate.certificateId}>
+                  <td style={cellStyle}>
+                    {formatDate(certificate.issuedAt)}<br />
+                    <span style={{ color: '#6c757d' }}>by {certificate.issuedBy}</span>
+                  </td>
+                  <td style={cellStyle}>{certificate.reason}</td>
+                  <td style={cellStyle}>
+                    {sumWorkspaces(certificate, 'sessionsDeleted')} sessions deleted,{' '}
+                    {sumWorkspaces(certificate, 'sessionsAnonymised')} anonymised,{' '}
+                    {sumWorkspaces(certificate, 'piiValuesErased')} PII values,{' '}
+                    {sumWorkspaces(certificate, 'auditEntriesDeleted') + sumWorkspaces(certificate, 'auditEntriesAnonymised')} audit entries
+                  </td>
+                  <td style={cellStyle}>
+                    <code title={certificate.digest}>{certificate.digest.slice(0, 12)}</code>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PrivacyAdmin;
@@ -1,12 +1,15 @@
 import React, { useEffect, useState, useCallback } from 'react';
 import { Session, TransformationCategory } from '../../../shared/dist';
+import { apiService } from '../services/api';
+import { PIIReport, PIISource } from '../../../shared/types';
+import PIIRevealPanel from './PIIRevealPanel';
 
 interface SessionDetailModalProps {
   sessionId: string;
   onClose: () => void;
 }
 
-type TabType = 'overview' | 'conversations' | 'classification' | 'decisionMatrix' | 'feedback';
+type TabType = 'overview' | 'conversations' | 'classification' | 'decisionMatrix' | 'feedback' | 'pii';
 
 const SessionDetailModal: React.FC<SessionDetailModalProps> = ({ sessionId, onClose }) => {
   const [session, setSession] = useState<Session | null>(null);
@@ -37,10 +40,8 @@ const SessionDetailModal: React.FC<SessionDetailModalProps> = ({ sessionId, onCl
       setLoading(true);
       setError('');
       try {
-        const token = sessionStorage.getItem('authToken');
-        const response = await fetch(`/api/analytics/sessions/${sessionId}`, {
+        const response = await apiService.fetchWithAuth(`/api/analytics/sessions/${sessionId}`, {
           headers: {
-            'Authorization': `Bearer ${token}`,
             'Content-Type': 'application/json'
           }
         });
@@ -264,6 +265,26 @@ const SessionDetailModal: React.FC<SessionDetailModalProps> = ({ sessionId, onCl
           >
             Feedback & Rating
           </button>
+          <button
+            onClick={() => setActiveTab('pii')}
+            style={tabButtonStyle(activeTab === 'pii')}
+            role="tab"
+            aria-selected={activeTab === 'pii'}
+            aria-controls="tab-panel-pii"
+            id="tab-pii"
+            tabIndex={activeTab === 'pii' ? 0 : -1}
+            onFocus={(e) => {
+              if (activeTab === 'pii') {
+                e.currentTarget.style.outline = '3px solid #007bff';
+                e.currentTarget.style.outlineOffset = '2px';
+              }
+            }}
+            onBlur={(e) => {
+              e.currentTarget.style.outline = 'none';
+            }}
+          >
+            PII
+          </button>
         </div>
 
         {/* Tab Content */}
@@ -283,6 +304,9 @@ const SessionDetailModal: React.FC<SessionDetailModalProps> = ({ sessionId, onCl
           {activeTab === 'feedback' && (
             <FeedbackTab session={session} getCategoryColor={getCategoryColor} />
           )}
+          {activeTab === 'pii' && (
+            <PIITab sessionId={session.sessionId} />
+          )}
         </div>
       </div>
     </div>
@@ -442,7 +466,6 @@ const ClassificationTab: React.FC<{
     setReclassifyResult(null);
 
     try {
-      const token = sessionStorage.getItem('authToken');
       const credentialsStr = sessionStorage.getItem('llmCredentials');
       
       if (!credentialsStr) {
@@ -481,10 +504,9 @@ const ClassificationTab: React.FC<{
         }
       }
 
-      const response = await fetch('/api/process/reclassify', {
+      const response = await apiService.fetchWithAuth('/api/process/reclassify', {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
         },
         body: JSON.stringify(requestBody)
@@ -923,6 +945,76 @@ const FeedbackTab: React.FC<{
   );
 };
 
+// PII Tab Component
+const PII_SOURCE_LABELS: Record<PIISource, string> = {
+  description: 'Process description',
+  clarification_answer: 'Clarification answers',
+  voice_transcript: 'Voice transcripts',
+  model_response: 'Model responses',
+  feedback: 'Feedback comments'
+};
+
+const PIITab: React.FC<{ sessionId: string }> = ({ sessionId }) => {
+  const [report, setReport] = useState<PIIReport | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    apiService.getSessionPIIReport(sessionId)
+      .then(setReport)
+      .catch((err: any) => setError(err.message || 'Failed to load PII report'));
+  }, [sessionId]);
+
+  if (error) {
+    return <p style={{ color: '#dc3545' }}>{error}</p>;
+  }
+
+  if (!report) {
+    return <p>Loading PII report...</p>;
+  }
+
+  if (!report.hasPII) {
+    return (
+      <div style={emptyStateStyle}>
+        <p>No PII was detected in this session.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h3 style={{ marginTop: 0 }}>PII Report ({report.totalValues})</h3>
+      <p style={{ color: '#6c757d', fontSize: '14px' }}>
+        Detected values were replaced with tokens before being stored or sent to the model. Original values are encrypted and only shown through a reveal request.
+      </p>
+
+      <div style={sectionBoxStyle}>
+        <h4 style={{ marginTop: 0 }}>Where It Was Found</h4>
+        {(Object.keys(report.bySource) as PIISource[]).map(source => (
+          <div key={source} style={{ display: 'flex', justifyContent: 'space-between', padding: '4px 0' }}>
+            <span>{PII_SOURCE_LABELS[source]}</span>
+            <strong>{report.bySource[source]}</strong>
+          </div>
+        ))}
+      </div>
+
+      <div style={sectionBoxStyle}>
+        <h4 style={{ marginTop: 0 }}>Detected Values</h4>
+        {report.items.map(item => (
+          <div key={item.token} style={{ display: 'flex', gap: '10px', alignItems: 'center', padding: '4px 0', flexWrap: 'wrap' }}>
+            <code style={codeStyle}>{item.token}</code>
+            <span style={{ color: '#6c757d', fontSize: '13px' }}>{item.detector || item.type}</span>
+            <span style={{ fontSize: '13px' }}>
+              {item.sources.map(source => PII_SOURCE_LABELS[source]).join(', ')}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <PIIRevealPanel sessionId={sessionId} tokens={report.items.map(item => item.token)} />
+    </div>
+  );
+};
+
 // Styles
 const overlayStyle: React.CSSProperties = {
   position: 'fixed',
@@ -0,0 +1,225 @@
+import React, { useState, useEffect } from 'react';
+
+interface TwoFactorStatus {
+  available: boolean;
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface TwoFactorSettingsProps {
+  onLoadStatus: () => Promise<TwoFactorStatus>;
+  onBeginSetup: () => Promise<{ secret: string; qrCodeDataUrl: string }>;
+  onEnable: (code: string) => Promise<string[]>;
+  onDisable: (password: string, code: string) => Promise<void>;
+  onRegenerateRecoveryCodes: (code: string) => Promise<string[]>;
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '8px',
+  border: '1px solid #ced4da',
+  borderRadius: '4px',
+  fontSize: '14px',
+  boxSizing: 'border-box'
+};
+
+const buttonStyle = (backgroundColor: string): React.CSSProperties => ({
+  padding: '8px 16px',
+  backgroundColor,
+  color: '#fff',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '14px'
+});
+
+const TwoFactorSettings: React.FC<TwoFactorSettingsProps> = ({
+  onLoadStatus,
+  onBeginSetup,
+  onEnable,
+  onDisable,
+  onRegenerateRecoveryCodes
+}) => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<{ secret: string; qrCodeDataUrl: string } | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [showDisable, setShowDisable] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState('');
+
+  const loadStatus = React.useCallback(async () => {
+    try {
+      setStatus(await onLoadStatus());
+    } catch (err: any) {
+      setError(err.message || 'Failed to load two-factor status');
+    }
+  }, [onLoadStatus]);
+
+  useEffect(() => {
+    loadStatus();
+    // Load once; the loader prop is recreated on every parent render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const run = async (action: () => Promise<void>) => {
+    setError('');
+    try {
+      await action();
+      setCode('');
+      setPassword('');
+      await loadStatus();
+    } catch (err: any) {
+      setError(err.message || 'Request failed');
+    }
+  };
+
+  if (!status || !status.available) {
+    return null;
+  }
+
+  return (
+    <div style={{
+      maxWidth: '600px',
+      margin: '20px auto',
+      padding: '30px',
+      border: '1px solid #ddd',
+      borderRadius: '8px',
+      backgroundColor: '#fff',
+      boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
+    }}>
+      <h2 style={{ marginTop: 0, marginBottom: '10px' }}>Two-Factor Authentication</h2>
+      <p style={{ color: '#666', marginBottom: '20px' }}>
+        {status.enabled
+          ? `Enabled. Sign-ins need a code from your authenticator app. ${status.recoveryCodesRemaining} recovery codes left.`
+          : 'Protect your account with a code from an authenticator app in addition to your password.'}
+        {status.required && ' Required for your role.'}
+      </p>
+
+      {error && (
+        <div style={{ padding: '10px', backgroundColor: '#f8d7da', color: '#721c24', borderRadius: '4px', marginBottom: '15px' }}>
+          {error}
+        </div>
+      )}
+
+      {recoveryCodes && (
+        <div style={{ marginBottom: '20px' }}>
+          <strong>Recovery codes</strong>
+          <div style={{ fontSize: '13px', color: '#6c757d', margin: '4px 0 8px' }}>
+            Each code can be used once if you lose your phone. Save them now; they won't be shown again.
+          </div>
+          <div style={{
+            display: 'grid',
+            gridTemplateColumns: '1fr 1fr',
+            gap: '8px',
+            padding: '12px',
+            backgroundColor: '#f8f9fa',
+            borderRadius: '4px',
+            fontFamily: 'monospace'
+          }}>
+            {recoveryCodes.map(recoveryCode => <div key={recoveryCode}>{recoveryCode}</div>)}
+          </div>
+          <button onClick={() => setRecoveryCodes(null)} style={{ ...buttonStyle('#6c757d'), marginTop: '10px' }}>
+            Done
+          </button>
+        </div>
+      )}
+
+      {!status.enabled && !setup && (
+        <button onClick={() => run(async () => setSetup(await onBeginSetup()))} style={buttonStyle('#007bff')}>
+          Set Up Two-Factor Authentication
+        </button>
+      )}
+
+      {!status.enabled && setup && (
+        <div>
+          <p style={{ fontSize: '14px', marginTop: 0 }}>
+            Scan the QR code with your authenticator app, then enter the 6-digit code it shows.
+          </p>
+          <div style={{ textAlign: 'center', marginBottom: '10px' }}>
+            <img src={setup.qrCodeDataUrl} alt="Authenticator QR code" style={{ width: '200px', height: '200px' }} />
+            <div style={{ fontSize: '12px', color: '#6c757d', wordBreak: 'break-all' }}>
+              Or enter this key manually: <code>{setup.secret}</code>
+            </div>
+          </div>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <input
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="123456"
+              autoComplete="one-time-code"
+              style={{ ...inputStyle, flex: 1 }}
+            />
+            <button
+              onClick={() => run(async () => {
+                setRecoveryCodes(await onEnable(code.trim()));
+                setSetup(null);
+              })}
+              style={buttonStyle('#28a745')}
+            >
+              Enable
+            </button>
+          </div>
+        </div>
+      )}
+
+      {status.enabled && !showDisable && (
+        <div style={{ display: 'flex', gap: '8px' }}>
+          <input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Code from your app"
+            autoComplete="one-time-code"
+            style={{ ...inputStyle, flex: 1 }}
+          />
+          <button
+            onClick={() => run(async () => setRecoveryCodes(await onRegenerateRecoveryCodes(code.trim())))}
+            style={buttonStyle('#007bff')}
+          >
+            New Recovery Codes
+          </button>
+          {!status.required && (
+            <button onClick={() => { setShowDisable(true); setError(''); }} style={buttonStyle('#dc3545')}>
+              Disable
+            </button>
+          )}
+        </div>
+      )}
+
+      {status.enabled && showDisable && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Current password"
+            style={inputStyle}
+          />
+          <input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Authentication code or recovery code"
+            autoComplete="one-time-code"
+            style={inputStyle}
+          />
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <button
+              onClick={() => run(async () => {
+                await onDisable(password, code.trim());
+                setShowDisable(false);
+              })}
+              style={buttonStyle('#dc3545')}
+            >
+              Disable Two-Factor Authentication
+            </button>
+            <button onClick={() => setShowDisable(false)} style={buttonStyle('#6c757d')}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
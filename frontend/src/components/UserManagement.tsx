@@ -1,21 +1,113 @@
 import React, { useState, useEffect } from 'react';
+import { AuditLogEntry, LLMQuotaLimits, LLMQuotaSettings, LLMQuotaStatus, LLMQuotaUsage, UserRole, Workspace } from '../../../shared/types';
+
+const ROLE_OPTIONS: { value: UserRole; label: string; description: string }[] = [
+  { value: 'user', label: 'Standard User', description: 'Can only access Classifier and Configuration' },
+  { value: 'reviewer', label: 'Reviewer', description: 'Can review classifications in Admin Review and view the decision matrix' },
+  { value: 'matrix-editor', label: 'Matrix Editor', description: 'Can edit the decision matrix, strategic questions and AI learning' },
+  { value: 'prompt-editor', label: 'Prompt Editor', description: 'Can view and edit prompts' },
+  { value: 'auditor', label: 'Auditor', description: 'Read-only access to analytics, audit trail, decision matrix and prompts' },
+  { value: 'admin', label: 'Admin User', description: 'Full access to all features' }
+];
+
+const LOGIN_EVENT_LABELS: Record<string, { label: string; color: string }> = {
+  login_success: { label: 'Login', color: '#28a745' },
+  login_failure: { label: 'Failed login', color: '#ffc107' },
+  account_locked: { label: 'Locked', color: '#dc3545' }
+};
+
+const QUOTA_FIELDS: { key: keyof LLMQuotaLimits; label: string }[] = [
+  { key: 'dailyTokens', label: 'Tokens per day' },
+  { key: 'monthlyTokens', label: 'Tokens per month' },
+  { key: 'dailyCost', label: 'Cost per day ($)' },
+  { key: 'monthlyCost', label: 'Cost per month ($)' }
+];
+
+const formatQuotaRemaining = (quota: LLMQuotaUsage): string => {
+  const amount = quota.metric === 'cost'
+    ? `$${quota.remaining.toFixed(2)}`
+    : `${Math.round(quota.remaining).toLocaleString()} tokens`;
+  return `${amount} left ${quota.period === 'daily' ? 'today' : 'this month'}${quota.scope === 'global' ? ' (all users)' : ''}`;
+};
+
+/**
+ * Inputs for daily and monthly token and cost limits; empty means no limit
+ */
+const QuotaLimitsEditor: React.FC<{ limits: LLMQuotaLimits; onChange: (limits: LLMQuotaLimits) => void }> = ({
+  limits,
+  onChange
+}) => (
+  <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(140px, 1fr))', gap: '10px' }}>
+    {QUOTA_FIELDS.map(field => (
+      <label key={field.key} style={{ fontSize: '13px', color: '#495057' }}>
+        {field.label}
+        <input
+          type="number"
+          min={0}
+          step="any"
+          value={limits[field.key] ?? ''}
+          placeholder="No limit"
+          onChange={(e) => {
+            const next = { ...limits };
+            if (e.target.value === '') {
+              delete next[field.key];
+            } else {
+              next[field.key] = Number(e.target.value);
+            }
+            onChange(next);
+          }}
+          style={{
+            display: 'block',
+            width: '100%',
+            marginTop: '4px',
+            padding: '6px 8px',
+            border: '1px solid #ced4da',
+            borderRadius: '4px',
+            fontSize: '14px',
+            boxSizing: 'border-box'
+          }}
+        />
+      </label>
+    ))}
+  </div>
+);
 
 interface User {
   userId: string;
   username: string;
-  role: 'admin' | 'user';
+  role: UserRole;
   createdAt: string;
   lastLogin?: string;
   preferredProvider?: string;
   preferredModel?: string;
+  workspaceIds?: string[];
+  authProvider?: 'local' | 'oidc';
+  failedLoginAttempts?: number;
+  lockedUntil?: string;
+  twoFactorEnabled?: boolean;
+}
+
+interface SecuritySettings {
+  requireTwoFactorForAdmins: boolean;
 }
 
 interface UserManagementProps {
   onLoadUsers: () => Promise<User[]>;
-  onCreateUser: (username: string, password: string, role: 'admin' | 'user') => Promise<void>;
+  onCreateUser: (username: string, password: string, role: UserRole) => Promise<void>;
   onDeleteUser: (userId: string) => Promise<void>;
-  onChangeRole: (userId: string, newRole: 'admin' | 'user') => Promise<void>;
+  onChangeRole: (userId: string, newRole: UserRole) => Promise<void>;
   onResetPassword: (userId: string, newPassword: string) => Promise<void>;
+  onRevokeSessions: (userId: string) => Promise<number>;
+  onUnlockUser: (userId: string) => Promise<void>;
+  onLoadLoginEvents: (username?: string) => Promise<AuditLogEntry[]>;
+  onLoadPasswordRequirements: () => Promise<string[]>;
+  onResetTwoFactor: (userId: string) => Promise<void>;
+  onLoadSecuritySettings: () => Promise<SecuritySettings>;
+  onUpdateSecuritySettings: (settings: SecuritySettings) => Promise<SecuritySettings>;
+  onLoadLLMQuotas: () => Promise<{ settings: LLMQuotaSettings; users: LLMQuotaStatus[] }>;
+  onUpdateLLMQuotas: (settings: LLMQuotaSettings) => Promise<LLMQuotaSettings>;
+  onLoadWorkspaces: () => Promise<Workspace[]>;
+  onSetUserWorkspaces: (userId: string, workspaceIds: string[]) => Promise<void>;
   currentUserId: string;
 }
 
@@ -25,6 +117,17 @@ const UserManagement: React.FC<UserManagementProps> = ({
   onDeleteUser,
   onChangeRole,
   onResetPassword,
+  onRevokeSessions,
+  onUnlockUser,
+  onLoadLoginEvents,
+  onLoadPasswordRequirements,
+  onResetTwoFactor,
+  onLoadSecuritySettings,
+  onUpdateSecuritySettings,
+  onLoadLLMQuotas,
+  onUpdateLLMQuotas,
+  onLoadWorkspaces,
+  onSetUserWorkspaces,
   currentUserId
 }) => {
   const [users, setUsers] = useState<User[]>([]);
@@ -38,38 +141,60 @@ const UserManagement: React.FC<UserManagementProps> = ({
   const [confirmPassword, setConfirmPassword] = useState('');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [userToDelete, setUserToDelete] = useState<User | null>(null);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [workspaceUser, setWorkspaceUser] = useState<User | null>(null);
+  const [selectedWorkspaceIds, setSelectedWorkspaceIds] = useState<string[]>([]);
+  const [loginEvents, setLoginEvents] = useState<AuditLogEntry[]>([]);
+  const [loginEventsFilter, setLoginEventsFilter] = useState('');
+  const [passwordRequirements, setPasswordRequirements] = useState<string[]>([]);
+  const [securitySettings, setSecuritySettings] = useState<SecuritySettings | null>(null);
+  const [quotaSettings, setQuotaSettings] = useState<LLMQuotaSettings | null>(null);
+  const [quotaStatuses, setQuotaStatuses] = useState<LLMQuotaStatus[]>([]);
+  const [quotaUser, setQuotaUser] = useState<User | null>(null);
+  const [quotaOverride, setQuotaOverride] = useState<LLMQuotaLimits | null>(null);
   
   // Create user form state
   const [newUsername, setNewUsername] = useState('');
   const [newUserPassword, setNewUserPassword] = useState('');
   const [newUserConfirmPassword, setNewUserConfirmPassword] = useState('');
-  const [newUserRole, setNewUserRole] = useState<'admin' | 'user'>('user');
+  const [newUserRole, setNewUserRole] = useState<UserRole>('user');
 
   const loadUsers = React.useCallback(async () => {
     setIsLoading(true);
     setError('');
     try {
-      const userList = await onLoadUsers();
+      const [userList, workspaceList, events, requirements, settings, quotas] = await Promise.all([
+        onLoadUsers(),
+        onLoadWorkspaces(),
+        onLoadLoginEvents(),
+        onLoadPasswordRequirements(),
+        onLoadSecuritySettings(),
+        onLoadLLMQuotas()
+      ]);
       setUsers(userList);
+      setWorkspaces(workspaceList);
+      setLoginEvents(events);
+      setPasswordRequirements(requirements);
+      setSecuritySettings(settings);
+      setQuotaSettings(quotas.settings);
+      setQuotaStatuses(quotas.users);
     } catch (err: any) {
       setError(err.message || 'Failed to load users');
     } finally {
       setIsLoading(false);
     }
-  }, [onLoadUsers]);
+  }, [onLoadUsers, onLoadWorkspaces, onLoadLoginEvents, onLoadPasswordRequirements, onLoadSecuritySettings, onLoadLLMQuotas]);
 
   useEffect(() => {
     loadUsers();
   }, [loadUsers]);
 
-  const handleRoleChange = async (user: User) => {
+  const handleRoleChange = async (user: User, newRole: UserRole) => {
     if (user.userId === currentUserId) {
       setError("You cannot change your own role");
       return;
     }
 
-    const newRole = user.role === 'admin' ? 'user' : 'admin';
-    
     try {
       await onChangeRole(user.userId, newRole);
       setSuccessMessage(`Changed ${user.username}'s role to ${newRole}`);
@@ -80,14 +205,96 @@ const UserManagement: React.FC<UserManagementProps> = ({
     }
   };
 
-  const handleResetPassword = async () => {
-    if (!selectedUser) return;
+  const handleRevokeSessions = async (user: User) => {
+    try {
+      const revokedCount = await onRevokeSessions(user.userId);
+      setSuccessMessage(`Logged ${user.username} out of ${revokedCount} session${revokedCount === 1 ? '' : 's'}`);
+      setTimeout(() => setSuccessMessage(''), 3000);
+    } catch (err: any) {
+      setError(err.message || 'Failed to revoke sessions');
+    }
+  };
 
-    if (newPassword.length < 8) {
-      setError('Password must be at least 8 characters');
+  const handleUnlock = async (user: User) => {
+    try {
+      await onUnlockUser(user.userId);
+      setSuccessMessage(`Unlocked ${user.username}`);
+      await loadUsers();
+      setTimeout(() => setSuccessMessage(''), 3000);
+    } catch (err: any) {
+      setError(err.message || 'Failed to unlock user');
+    }
+  };
+
+  const handleResetTwoFactor = async (user: User) => {
+    if (!window.confirm(`Remove two-factor authentication for ${user.username}? They will need to set it up again.`)) {
       return;
     }
 
+    try {
+      await onResetTwoFactor(user.userId);
+      setSuccessMessage(`Reset two-factor authentication for ${user.username}`);
+      await loadUsers();
+      setTimeout(() => setSuccessMessage(''), 3000);
+    } catch (err: any) {
+      setError(err.message || 'Failed to reset two-factor authentication');
+    }
+  };
+
+  const handleRequireTwoFactorChange = async (requireTwoFactorForAdmins: boolean) => {
+    try {
+      setSecuritySettings(await onUpdateSecuritySettings({ requireTwoFactorForAdmins }));
+      setSuccessMessage(requireTwoFactorForAdmins
+        ? 'Admins must now use two-factor authentication from their next login'
+        : 'Two-factor authentication is now optional for admins');
+      setTimeout(() => setSuccessMessage(''), 3000);
+    } catch (err: any) {
+      setError(err.message || 'Failed to update security settings');
+    }
+  };
+
+  const saveQuotaSettings = async (settings: LLMQuotaSettings, message: string): Promise<boolean> => {
+    try {
+      setQuotaSettings(await onUpdateLLMQuotas(settings));
+      setQuotaStatuses((await onLoadLLMQuotas()).users);
+      setSuccessMessage(message);
+      setTimeout(() => setSuccessMessage(''), 3000);
+      return true;
+    } catch (err: any) {
+      setError(err.message || 'Failed to update LLM quotas');
+      return false;
+    }
+  };
+
+  const handleSaveUserQuota = async () => {
+    if (!quotaUser || !quotaSettings) return;
+
+    const userOverrides = { ...quotaSettings.userOverrides };
+    if (quotaOverride) {
+      userOverrides[quotaUser.userId] = quotaOverride;
+    } else {
+      delete userOverrides[quotaUser.userId];
+    }
+
+    if (await saveQuotaSettings({ ...quotaSettings, userOverrides }, `Updated LLM quota for ${quotaUser.username}`)) {
+      setQuotaUser(null);
+      setQuotaOverride(null);
+    }
+  };
+
+  const handleFilterLoginEvents = async () => {
+    try {
+      setLoginEvents(await onLoadLoginEvents(loginEventsFilter.trim() || undefined));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load login activity');
+    }
+  };
+
+  const isLocked = (user: User) => !!user.lockedUntil && new Date(user.lockedUntil).getTime() > Date.now();
+
+  const handleResetPassword = async () => {
+    if (!selectedUser) return;
+
     if (newPassword !== confirmPassword) {
       setError('Passwords do not match');
       return;
@@ -139,11 +346,6 @@ const UserManagement: React.FC<UserManagementProps> = ({
       return;
     }
 
-    if (newUserPassword.length < 8) {
-      setError('Password must be at least 8 characters');
-      return;
-    }
-
     if (newUserPassword !== newUserConfirmPassword) {
       setError('Passwords do not match');
       return;
@@ -164,6 +366,31 @@ const UserManagement: React.FC<UserManagementProps> = ({
     }
   };
 
+  const handleSaveWorkspaces = async () => {
+    if (!workspaceUser) return;
+
+    if (selectedWorkspaceIds.length === 0) {
+      setError('Select at least one workspace');
+      return;
+    }
+
+    try {
+      await onSetUserWorkspaces(workspaceUser.userId, selectedWorkspaceIds);
+      setSuccessMessage(`Updated workspaces for ${workspaceUser.username}`);
+      setWorkspaceUser(null);
+      setSelectedWorkspaceIds([]);
+      await loadUsers();
+      setTimeout(() => setSuccessMessage(''), 3000);
+    } catch (err: any) {
+      setError(err.message || 'Failed to update workspaces');
+    }
+  };
+
+  const getWorkspaceNames = (user: User) => {
+    const ids = user.workspaceIds && user.workspaceIds.length > 0 ? user.workspaceIds : ['default'];
+    return ids.map(id => workspaces.find(w => w.workspaceId === id)?.name || id).join(', ');
+  };
+
   const formatDate = (dateString?: string) => {
     if (!dateString) return 'Never';
     const date = new Date(dateString);
@@ -276,6 +503,9 @@ const UserManagement: React.FC<UserManagementProps> = ({
               <th style={{ padding: '15px', textAlign: 'left', fontWeight: '600', color: '#495057' }}>
                 Role
               </th>
+              <th style={{ padding: '15px', textAlign: 'left', fontWeight: '600', color: '#495057' }}>
+                Workspaces
+              </th>
               <th style={{ padding: '15px', textAlign: 'left', fontWeight: '600', color: '#495057' }}>
                 Created
               </th>
@@ -285,6 +515,9 @@ const UserManagement: React.FC<UserManagementProps> = ({
               <th style={{ padding: '15px', textAlign: 'left', fontWeight: '600', color: '#495057' }}>
                 LLM Config
               </th>
+              <th style={{ padding: '15px', textAlign: 'left', fontWeight: '600', color: '#495057' }}>
+                LLM Quota
+              </th>
               <th style={{ padding: '15px', textAlign: 'center', fontWeight: '600', color: '#495057' }}>
                 Actions
               </th>
@@ -314,20 +547,82 @@ const UserManagement: React.FC<UserManagementProps> = ({
                         YOU
                       </span>
                     )}
+                    {user.authProvider === 'oidc' && (
+                      <span
+                        style={{
+                          padding: '2px 8px',
+                          backgroundColor: '#6f42c1',
+                          color: '#fff',
+                          borderRadius: '3px',
+                          fontSize: '11px',
+                          fontWeight: 'bold'
+                        }}
+                        title="Signs in with single sign-on"
+                      >
+                        SSO
+                      </span>
+                    )}
+                    {isLocked(user) && (
+                      <span
+                        style={{
+                          padding: '2px 8px',
+                          backgroundColor: '#dc3545',
+                          color: '#fff',
+                          borderRadius: '3px',
+                          fontSize: '11px',
+                          fontWeight: 'bold'
+                        }}
+                        title={`Locked after ${user.failedLoginAttempts} failed logins until ${formatDate(user.lockedUntil)}`}
+                      >
+                        LOCKED
+                      </span>
+                    )}
+                    {user.twoFactorEnabled && (
+                      <span
+                        style={{
+                          padding: '2px 8px',
+                          backgroundColor: '#28a745',
+                          color: '#fff',
+                          borderRadius: '3px',
+                          fontSize: '11px',
+                          fontWeight: 'bold'
+                        }}
+                        title="Two-factor authentication enabled"
+                      >
+                        2FA
+                      </span>
+                    )}
                   </div>
                 </td>
                 <td style={{ padding: '15px' }}>
-                  <span style={{
-                    padding: '4px 12px',
-                    backgroundColor: user.role === 'admin' ? '#ffc107' : '#6c757d',
-                    color: user.role === 'admin' ? '#000' : '#fff',
-                    borderRadius: '12px',
-                    fontSize: '12px',
-                    fontWeight: 'bold',
-                    textTransform: 'uppercase'
-                  }}>
-                    {user.role}
-                  </span>
+                  <select
+                    value={user.role}
+                    onChange={(e) => handleRoleChange(user, e.target.value as UserRole)}
+                    disabled={user.userId === currentUserId}
+                    title={user.userId === currentUserId ? "Cannot change your own role" : ROLE_OPTIONS.find(o => o.value === user.role)?.description}
+                    aria-label={`Role of ${user.username}`}
+                    style={{
+                      padding: '4px 8px',
+                      backgroundColor: user.role === 'admin' ? '#ffc107' : user.role === 'user' ? '#6c757d' : '#17a2b8',
+                      color: user.role === 'admin' ? '#000' : '#fff',
+                      border: 'none',
+                      borderRadius: '12px',
+                      fontSize: '12px',
+                      fontWeight: 'bold',
+                      cursor: user.userId === currentUserId ? 'not-allowed' : 'pointer'
+                    }}
+                  >
+                    {ROLE_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </td>
+                <td style={{ padding: '15px', fontSize: '14px', color: '#6c757d' }}>
+                  {user.role === 'admin' ? (
+                    <span title="Admins can access every workspace">All</span>
+                  ) : (
+                    getWorkspaceNames(user)
+                  )}
                 </td>
                 <td style={{ padding: '15px', fontSize: '14px', color: '#6c757d' }}>
                   {formatDate(user.createdAt)}
@@ -345,41 +640,131 @@ const UserManagement: React.FC<UserManagementProps> = ({
                     <span style={{ color: '#adb5bd' }}>Not configured</span>
                   )}
                 </td>
+                <td style={{ padding: '15px', fontSize: '13px', color: '#6c757d' }}>
+                  {(() => {
+                    const status = quotaStatuses.find(s => s.userId === user.userId);
+                    return status && status.quotas.length > 0 ? (
+                      status.quotas.map(quota => (
+                        <div
+                          key={`${quota.scope}-${quota.period}-${quota.metric}`}
+                          style={{ color: quota.remaining <= 0 ? '#dc3545' : undefined, whiteSpace: 'nowrap' }}
+                        >
+                          {formatQuotaRemaining(quota)}
+                        </div>
+                      ))
+                    ) : (
+                      <span style={{ color: '#adb5bd' }}>No limit</span>
+                    );
+                  })()}
+                  <button
+                    onClick={() => {
+                      setQuotaUser(user);
+                      setQuotaOverride(quotaSettings?.userOverrides[user.userId] || null);
+                      setError('');
+                    }}
+                    style={{
+                      marginTop: '4px',
+                      padding: 0,
+                      background: 'none',
+                      border: 'none',
+                      color: '#007bff',
+                      cursor: 'pointer',
+                      fontSize: '12px'
+                    }}
+                  >
+                    {quotaSettings?.userOverrides[user.userId] ? 'Custom limits' : 'Set limits'}
+                  </button>
+                </td>
                 <td style={{ padding: '15px', textAlign: 'center' }}>
                   <div style={{ display: 'flex', gap: '8px', justifyContent: 'center' }}>
+                    {isLocked(user) && (
+                      <button
+                        onClick={() => handleUnlock(user)}
+                        style={{
+                          padding: '6px 12px',
+                          backgroundColor: '#28a745',
+                          color: '#fff',
+                          border: 'none',
+                          borderRadius: '4px',
+                          cursor: 'pointer',
+                          fontSize: '12px'
+                        }}
+                      >
+                        Unlock
+                      </button>
+                    )}
                     <button
-                      onClick={() => handleRoleChange(user)}
+                      onClick={() => {
+                        setSelectedUser(user);
+                        setShowResetPassword(true);
+                        setError('');
+                      }}
+                      disabled={user.authProvider === 'oidc'}
+                      style={{
+                        padding: '6px 12px',
+                        backgroundColor: user.authProvider === 'oidc' ? '#e9ecef' : '#ffc107',
+                        color: user.authProvider === 'oidc' ? '#6c757d' : '#000',
+                        border: 'none',
+                        borderRadius: '4px',
+                        cursor: user.authProvider === 'oidc' ? 'not-allowed' : 'pointer',
+                        fontSize: '12px'
+                      }}
+                      title={user.authProvider === 'oidc' ? "SSO users sign in with the identity provider" : "Reset password"}
+                    >
+                      Reset Password
+                    </button>
+                    <button
+                      onClick={() => handleRevokeSessions(user)}
                       disabled={user.userId === currentUserId}
                       style={{
                         padding: '6px 12px',
-                        backgroundColor: user.userId === currentUserId ? '#e9ecef' : '#007bff',
+                        backgroundColor: user.userId === currentUserId ? '#e9ecef' : '#6c757d',
                         color: user.userId === currentUserId ? '#6c757d' : '#fff',
                         border: 'none',
                         borderRadius: '4px',
                         cursor: user.userId === currentUserId ? 'not-allowed' : 'pointer',
                         fontSize: '12px'
                       }}
-                      title={user.userId === currentUserId ? "Cannot change your own role" : "Toggle role"}
+                      title={user.userId === currentUserId ? "Use Logout to end your own session" : "Log this user out on every device"}
                     >
-                      {user.role === 'admin' ? 'Make User' : 'Make Admin'}
+                      Revoke Sessions
                     </button>
+                    {user.twoFactorEnabled && (
+                      <button
+                        onClick={() => handleResetTwoFactor(user)}
+                        style={{
+                          padding: '6px 12px',
+                          backgroundColor: '#6c757d',
+                          color: '#fff',
+                          border: 'none',
+                          borderRadius: '4px',
+                          cursor: 'pointer',
+                          fontSize: '12px'
+                        }}
+                        title="Remove two-factor authentication, e.g. after a lost phone"
+                      >
+                        Reset 2FA
+                      </button>
+                    )}
                     <button
                       onClick={() => {
-                        setSelectedUser(user);
-                        setShowResetPassword(true);
+                        setWorkspaceUser(user);
+                        setSelectedWorkspaceIds(user.workspaceIds && user.workspaceIds.length > 0 ? user.workspaceIds : ['default']);
                         setError('');
                       }}
+                      disabled={user.role === 'admin'}
                       style={{
                         padding: '6px 12px',
-                        backgroundColor: '#ffc107',
-                        color: '#000',
+                        backgroundColor: user.role === 'admin' ? '#e9ecef' : '#17a2b8',
+                        color: user.role === 'admin' ? '#6c757d' : '#fff',
                         border: 'none',
                         borderRadius: '4px',
-                        cursor: 'pointer',
+                        cursor: user.role === 'admin' ? 'not-allowed' : 'pointer',
                         fontSize: '12px'
                       }}
+                      title={user.role === 'admin' ? "Admins can access every workspace" : "Edit workspace membership"}
                     >
-                      Reset Password
+                      Workspaces
                     </button>
                     <button
                       onClick={() => {
@@ -423,7 +808,192 @@ const UserManagement: React.FC<UserManagementProps> = ({
         fontSize: '14px',
         color: '#004085'
       }}>
-        <strong>Total Users:</strong> {users.length} ({users.filter(u => u.role === 'admin').length} admin, {users.filter(u => u.role === 'user').length} user)
+        <strong>Total Users:</strong> {users.length} ({ROLE_OPTIONS
+          .map(option => ({ role: option.value, count: users.filter(u => u.role === option.value).length }))
+          .filter(({ count }) => count > 0)
+          .map(({ role, count }) => `${count} ${role}`)
+          .join(', ')})
+      </div>
+
+      {securitySettings && (
+        <div style={{
+          marginTop: '20px',
+          padding: '15px',
+          backgroundColor: '#fff',
+          borderRadius: '8px',
+          boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+          fontSize: '14px'
+        }}>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={securitySettings.requireTwoFactorForAdmins}
+              onChange={(e) => handleRequireTwoFactorChange(e.target.checked)}
+            />
+            <strong>Require two-factor authentication for admins</strong>
+          </label>
+          <div style={{ marginTop: '4px', marginLeft: '24px', color: '#6c757d', fontSize: '13px' }}>
+            Admins without 2FA have to set it up at their next login. SSO users are not affected.
+          </div>
+        </div>
+      )}
+
+      {quotaSettings && (
+        <div style={{
+          marginTop: '20px',
+          padding: '15px',
+          backgroundColor: '#fff',
+          borderRadius: '8px',
+          boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+          fontSize: '14px'
+        }}>
+          <h3 style={{ marginTop: 0, color: '#343a40', fontSize: '18px' }}>LLM Quotas</h3>
+          <div style={{ display: 'flex', gap: '20px', flexWrap: 'wrap', marginBottom: '15px' }}>
+            <label style={{ color: '#495057' }}>
+              When a limit is reached{' '}
+              <select
+                value={quotaSettings.mode}
+                onChange={(e) => setQuotaSettings({ ...quotaSettings, mode: e.target.value as LLMQuotaSettings['mode'] })}
+                style={{ padding: '4px 8px', border: '1px solid #ced4da', borderRadius: '4px', fontSize: '14px' }}
+              >
+                <option value="hard">Reject further LLM calls</option>
+                <option value="soft">Only warn</option>
+              </select>
+            </label>
+            <label style={{ color: '#495057' }}>
+              Warn at{' '}
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={quotaSettings.warnAtPercent}
+                onChange={(e) => setQuotaSettings({ ...quotaSettings, warnAtPercent: Number(e.target.value) })}
+                style={{ width: '60px', padding: '4px 8px', border: '1px solid #ced4da', borderRadius: '4px', fontSize: '14px' }}
+              />
+              {' '}% of a limit
+            </label>
+          </div>
+
+          <strong style={{ display: 'block', marginBottom: '6px' }}>Each user</strong>
+          <QuotaLimitsEditor
+            limits={quotaSettings.perUser}
+            onChange={(perUser) => setQuotaSettings({ ...quotaSettings, perUser })}
+          />
+          <strong style={{ display: 'block', margin: '15px 0 6px' }}>All users together</strong>
+          <QuotaLimitsEditor
+            limits={quotaSettings.global}
+            onChange={(global) => setQuotaSettings({ ...quotaSettings, global })}
+          />
+
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: '15px' }}>
+            <span style={{ color: '#6c757d', fontSize: '13px' }}>
+              Days and months are counted in UTC. Costs are estimates; models without a price only count towards token limits.
+            </span>
+            <button
+              onClick={() => saveQuotaSettings(quotaSettings, 'LLM quotas updated')}
+              style={{
+                padding: '8px 16px',
+                backgroundColor: '#007bff',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '14px'
+              }}
+            >
+              Save Quotas
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div style={{
+        marginTop: '30px',
+        backgroundColor: '#fff',
+        borderRadius: '8px',
+        boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+        overflow: 'hidden'
+      }}>
+        <div style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          padding: '15px',
+          borderBottom: '1px solid #dee2e6'
+        }}>
+          <h3 style={{ margin: 0, color: '#343a40', fontSize: '18px' }}>Login Activity (last 7 days)</h3>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <input
+              value={loginEventsFilter}
+              onChange={(e) => setLoginEventsFilter(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleFilterLoginEvents()}
+              placeholder="Filter by username"
+              style={{ padding: '6px 10px', border: '1px solid #ced4da', borderRadius: '4px', fontSize: '14px' }}
+            />
+            <button
+              onClick={handleFilterLoginEvents}
+              style={{
+                padding: '6px 12px',
+                backgroundColor: '#007bff',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '14px'
+              }}
+            >
+              Filter
+            </button>
+          </div>
+        </div>
+        <div style={{ maxHeight: '400px', overflowY: 'auto' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px' }}>
+            <thead>
+              <tr style={{ backgroundColor: '#f8f9fa', borderBottom: '2px solid #dee2e6' }}>
+                <th style={{ padding: '10px 15px', textAlign: 'left', color: '#495057' }}>Time</th>
+                <th style={{ padding: '10px 15px', textAlign: 'left', color: '#495057' }}>User</th>
+                <th style={{ padding: '10px 15px', textAlign: 'left', color: '#495057' }}>Event</th>
+                <th style={{ padding: '10px 15px', textAlign: 'left', color: '#495057' }}>Details</th>
+                <th style={{ padding: '10px 15px', textAlign: 'left', color: '#495057' }}>IP Address</th>
+              </tr>
+            </thead>
+            <tbody>
+              {loginEvents.map((event, index) => {
+                const eventLabel = LOGIN_EVENT_LABELS[event.eventType] || { label: event.eventType, color: '#6c757d' };
+                const details = event.eventType === 'login_success'
+                  ? `via ${event.data?.method === 'oidc' ? 'SSO' : 'password'}`
+                  : event.eventType === 'account_locked'
+                    ? `${event.data?.lockoutMinutes} min after ${event.data?.failedAttempts} failures`
+                    : String(event.data?.reason || '').replace(/_/g, ' ');
+
+                return (
+                  <tr key={`${event.timestamp}-${index}`} style={{ borderBottom: '1px solid #dee2e6' }}>
+                    <td style={{ padding: '10px 15px', color: '#6c757d' }}>{formatDate(event.timestamp)}</td>
+                    <td style={{ padding: '10px 15px' }}>{event.data?.username}</td>
+                    <td style={{ padding: '10px 15px' }}>
+                      <span style={{
+                        padding: '2px 8px',
+                        backgroundColor: eventLabel.color,
+                        color: event.eventType === 'login_failure' ? '#000' : '#fff',
+                        borderRadius: '3px',
+                        fontSize: '12px'
+                      }}>
+                        {eventLabel.label}
+                      </span>
+                    </td>
+                    <td style={{ padding: '10px 15px', color: '#6c757d' }}>{details}</td>
+                    <td style={{ padding: '10px 15px', color: '#6c757d' }}>{event.data?.ipAddress || '—'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {loginEvents.length === 0 && (
+            <div style={{ padding: '30px', textAlign: 'center', color: '#6c757d' }}>
+              No login activity
+            </div>
+          )}
+        </div>
       </div>
 
       {/* Reset Password Modal */}
@@ -477,7 +1047,7 @@ const UserManagement: React.FC<UserManagementProps> = ({
                 }}
               />
               <small style={{ display: 'block', marginTop: '4px', color: '#6c757d' }}>
-                Minimum 8 characters
+                {passwordRequirements.join(' · ')}
               </small>
             </div>
 
@@ -548,6 +1118,173 @@ const UserManagement: React.FC<UserManagementProps> = ({
         </div>
       )}
 
+      {/* LLM Quota Modal */}
+      {quotaUser && quotaSettings && (
+        <div style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: 'rgba(0,0,0,0.5)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          zIndex: 1000
+        }}>
+          <div style={{
+            backgroundColor: '#fff',
+            borderRadius: '8px',
+            padding: '30px',
+            maxWidth: '500px',
+            width: '90%',
+            boxShadow: '0 4px 6px rgba(0,0,0,0.1)'
+          }}>
+            <h3 style={{ marginTop: 0, color: '#343a40' }}>
+              LLM Quota for {quotaUser.username}
+            </h3>
+
+            <label style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '15px', fontSize: '14px', color: '#495057' }}>
+              <input
+                type="checkbox"
+                checked={quotaOverride !== null}
+                onChange={(e) => setQuotaOverride(e.target.checked ? { ...quotaSettings.perUser } : null)}
+              />
+              Use custom limits instead of the limits for each user
+            </label>
+
+            {quotaOverride && (
+              <div style={{ marginBottom: '20px' }}>
+                <QuotaLimitsEditor limits={quotaOverride} onChange={setQuotaOverride} />
+              </div>
+            )}
+
+            <div style={{ display: 'flex', gap: '10px', justifyContent: 'flex-end' }}>
+              <button
+                onClick={() => {
+                  setQuotaUser(null);
+                  setQuotaOverride(null);
+                  setError('');
+                }}
+                style={{
+                  padding: '10px 20px',
+                  backgroundColor: '#6c757d',
+                  color: '#fff',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: 'pointer',
+                  fontSize: '14px'
+                }}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveUserQuota}
+                style={{
+                  padding: '10px 20px',
+                  backgroundColor: '#17a2b8',
+                  color: '#fff',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: 'pointer',
+                  fontSize: '14px',
+                  fontWeight: '500'
+                }}
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Workspace Membership Modal */}
+      {workspaceUser && (
+        <div style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: 'rgba(0,0,0,0.5)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          zIndex: 1000
+        }}>
+          <div style={{
+            backgroundColor: '#fff',
+            borderRadius: '8px',
+            padding: '30px',
+            maxWidth: '500px',
+            width: '90%',
+            boxShadow: '0 4px 6px rgba(0,0,0,0.1)'
+          }}>
+            <h3 style={{ marginTop: 0, color: '#343a40' }}>
+              Workspaces for {workspaceUser.username}
+            </h3>
+
+            <div style={{ marginBottom: '20px' }}>
+              {workspaces.map(workspace => (
+                <label
+                  key={workspace.workspaceId}
+                  style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '8px', fontSize: '14px', color: '#495057' }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedWorkspaceIds.includes(workspace.workspaceId)}
+                    onChange={(e) => setSelectedWorkspaceIds(e.target.checked
+                      ? [...selectedWorkspaceIds, workspace.workspaceId]
+                      : selectedWorkspaceIds.filter(id => id !== workspace.workspaceId))}
+                  />
+                  {workspace.name}
+                  <span style={{ color: '#adb5bd', fontSize: '12px' }}>{workspace.workspaceId}</span>
+                </label>
+              ))}
+              <small style={{ display: 'block', marginTop: '4px', color: '#6c757d' }}>
+                Users only see the decision matrix, prompts and sessions of their current workspace
+              </small>
+            </div>
+
+            <div style={{ display: 'flex', gap: '10px', justifyContent: 'flex-end' }}>
+              <button
+                onClick={() => {
+                  setWorkspaceUser(null);
+                  setSelectedWorkspaceIds([]);
+                  setError('');
+                }}
+                style={{
+                  padding: '10px 20px',
+                  backgroundColor: '#6c757d',
+                  color: '#fff',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: 'pointer',
+                  fontSize: '14px'
+                }}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveWorkspaces}
+                style={{
+                  padding: '10px 20px',
+                  backgroundColor: '#17a2b8',
+                  color: '#fff',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: 'pointer',
+                  fontSize: '14px',
+                  fontWeight: '500'
+                }}
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Create User Modal */}
       {showCreateUser && (
         <div style={{
@@ -628,7 +1365,7 @@ const UserManagement: React.FC<UserManagementProps> = ({
                 }}
               />
               <small style={{ display: 'block', marginTop: '4px', color: '#6c757d' }}>
-                Minimum 8 characters
+                {passwordRequirements.join(' · ')}
               </small>
             </div>
 
@@ -670,7 +1407,7 @@ const UserManagement: React.FC<UserManagementProps> = ({
               </label>
               <select
                 value={newUserRole}
-                onChange={(e) => setNewUserRole(e.target.value as 'admin' | 'user')}
+                onChange={(e) => setNewUserRole(e.target.value as UserRole)}
                 style={{
                   width: '100%',
                   padding: '10px',
@@ -682,13 +1419,12 @@ const UserManagement: React.FC<UserManagementProps> = ({
                   cursor: 'pointer'
                 }}
               >
-                <option value="user">Standard User</option>
-                <option value="admin">Admin User</option>
+                {ROLE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
               </select>
               <small style={{ display: 'block', marginTop: '4px', color: '#6c757d' }}>
-                {newUserRole === 'user' 
-                  ? 'Standard users can only access Classifier and Configuration'
-                  : 'Admin users have full access to all features'}
+                {ROLE_OPTIONS.find(option => option.value === newUserRole)?.description}
               </small>
             </div>
 
@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import { Workspace } from '../../../shared/types';
+
+interface WorkspaceAdminProps {
+  onLoadWorkspaces: () => Promise<Workspace[]>;
+  onCreateWorkspace: (name: string, description?: string, copyFrom?: string) => Promise<Workspace>;
+  onUpdateWorkspace: (workspaceId: string, updates: { name?: string; description?: string }) => Promise<Workspace>;
+  onWorkspacesChanged: () => void;
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '8px',
+  border: '1px solid #ced4da',
+  borderRadius: '4px',
+  fontSize: '14px',
+  boxSizing: 'border-box'
+};
+
+const WorkspaceAdmin: React.FC<WorkspaceAdminProps> = ({
+  onLoadWorkspaces,
+  onCreateWorkspace,
+  onUpdateWorkspace,
+  onWorkspacesChanged
+}) => {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [error, setError] = useState('');
+  const [successMessage, setSuccessMessage] = useState('');
+  const [newName, setNewName] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [copyFrom, setCopyFrom] = useState('default');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editDescription, setEditDescription] = useState('');
+
+  const loadWorkspaces = React.useCallback(async () => {
+    try {
+      setWorkspaces(await onLoadWorkspaces());
+    } catch (err: any) {
+      setError(err.message || 'Failed to load workspaces');
+    }
+  }, [onLoadWorkspaces]);
+
+  useEffect(() => {
+    loadWorkspaces();
+    // Load once; the loader prop is recreated on every parent render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleCreate = async () => {
+    if (!newName.trim()) {
+      setError('Workspace name is required');
+      return;
+    }
+
+    try {
+      const workspace = await onCreateWorkspace(newName.trim(), newDescription.trim() || undefined, copyFrom);
+      setSuccessMessage(`Created workspace ${workspace.name} from ${copyFrom}`);
+      setNewName('');
+      setNewDescription('');
+      setError('');
+      await loadWorkspaces();
+      onWorkspacesChanged();
+      setTimeout(() => setSuccessMessage(''), 3000);
+    } catch (err: any) {
+      setError(err.message || 'Failed to create workspace');
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!editingId) return;
+
+    if (!editName.trim()) {
+      setError('Workspace name is required');
+      return;
+    }
+
+    try {
+      await onUpdateWorkspace(editingId, { name: editName.trim(), description: editDescription.trim() });
+      setEditingId(null);
+      setError('');
+      await loadWorkspaces();
+      onWorkspacesChanged();
+    } catch (err: any) {
+      setError(err.message || 'Failed to update workspace');
+    }
+  };
+
+  return (
+    <div style={{ maxWidth: '1200px', margin: '0 auto', padding: '20px 20px 0' }}>
+      <h2 style={{ marginTop: 0, color: '#343a40' }}>Workspaces</h2>
+      <p style={{ color: '#6c757d', fontSize: '14px' }}>
+        Each workspace has its own decision matrix, prompts, strategic questions, subjects, sessions and audit log.
+        New workspaces start with a copy of another workspace's configuration.
+      </p>
+
+      {error && (
+        <div style={{
+          padding: '15px',
+          backgroundColor: '#f8d7da',
+          color: '#721c24',
+          borderRadius: '4px',
+          marginBottom: '20px'
+        }}>
+          {error}
+        </div>
+      )}
+
+      {successMessage && (
+        <div style={{
+          padding: '15px',
+          backgroundColor: '#d4edda',
+          color: '#155724',
+          borderRadius: '4px',
+          marginBottom: '20px'
+        }}>
+          {successMessage}
+        </div>
+      )}
+
+      <div style={{
+        backgroundColor: '#fff',
+        borderRadius: '8px',
+        boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+        overflow: 'hidden',
+        marginBottom: '20px'
+      }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ backgroundColor: '#f8f9fa', borderBottom: '2px solid #dee2e6' }}>
+              <th style={{ padding: '12px 15px', textAlign: 'left', fontWeight: '600', color: '#495057' }}>Name</th>
+              <th style={{ padding: '12px 15px', textAlign: 'left', fontWeight: '600', color: '#495057' }}>ID</th>
+              <th style={{ padding: '12px 15px', textAlign: 'left', fontWeight: '600', color: '#495057' }}>Description</th>
+              <th style={{ padding: '12px 15px', textAlign: 'center', fontWeight: '600', color: '#495057' }}>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {workspaces.map(workspace => (
+              <tr key={workspace.workspaceId} style={{ borderBottom: '1px solid #dee2e6' }}>
+                {editingId === workspace.workspaceId ? (
+                  <>
+                    <td style={{ padding: '12px 15px' }}>
+                      <input value={editName} onChange={(e) => setEditName(e.target.value)} style={inputStyle} />
+                    </td>
+                    <td style={{ padding: '12px 15px', color: '#6c757d', fontSize: '14px' }}>{workspace.workspaceId}</td>
+                    <td style={{ padding: '12px 15px' }}>
+                      <input
+                        value={editDescription}
+                        onChange={(e) => setEditDescription(e.target.value)}
+                        style={{ ...inputStyle, width: '100%' }}
+                      />
+                    </td>
+                    <td style={{ padding: '12px 15px', textAlign: 'center', whiteSpace: 'nowrap' }}>
+                      <button
+                        onClick={handleUpdate}
+                        style={{ padding: '6px 12px', backgroundColor: '#28a745', color: '#fff', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '12px', marginRight: '8px' }}
+                      >
+                        Save
+                      </button>
+                      <button
+                        onClick={() => setEditingId(null)}
+                        style={{ padding: '6px 12px', backgroundColor: '#6c757d', color: '#fff', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '12px' }}
+                      >
+                        Cancel
+                      </button>
+                    </td>
+                  </>
+                ) : (
+                  <>
+                    <td style={{ padding: '12px 15px' }}><strong>{workspace.name}</strong></td>
+                    <td style={{ padding: '12px 15px', color: '#6c757d', fontSize: '14px' }}>{workspace.workspaceId}</td>
+                    <td style={{ padding: '12px 15px', color: '#6c757d', fontSize: '14px' }}>{workspace.description || '—'}</td>
+                    <td style={{ padding: '12px 15px', textAlign: 'center' }}>
+                      <button
+                        onClick={() => {
+                          setEditingId(workspace.workspaceId);
+                          setEditName(workspace.name);
+                          setEditDescription(workspace.description || '');
+                        }}
+                        style={{ padding: '6px 12px', backgroundColor: '#007bff', color: '#fff', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '12px' }}
+                      >
+                        Edit
+                      </button>
+                    </td>
+                  </>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div style={{ display: 'flex', gap: '10px', flexWrap: 'wrap', alignItems: 'center' }}>
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New workspace name"
+          style={inputStyle}
+        />
+        <input
+          value={newDescription}
+          onChange={(e) => setNewDescription(e.target.value)}
+          placeholder="Description (optional)"
+          style={{ ...inputStyle, flex: 1, minWidth: '200px' }}
+        />
+        <label style={{ fontSize: '14px', color: '#495057' }}>
+          Copy configuration from{' '}
+          <select value={copyFrom} onChange={(e) => setCopyFrom(e.target.value)} style={inputStyle}>
+            {workspaces.map(workspace => (
+              <option key={workspace.workspaceId} value={workspace.workspaceId}>{workspace.name}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={handleCreate}
+          style={{
+            padding: '8px 16px',
+            backgroundColor: '#28a745',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer',
+            fontSize: '14px',
+            fontWeight: '500'
+          }}
+        >
+          ➕ Create Workspace
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default WorkspaceAdmin;
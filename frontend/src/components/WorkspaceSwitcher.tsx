@@ -0,0 +1,77 @@
+import React, { useState, useEffect } from 'react';
+import { Workspace } from '../../../shared/types';
+
+interface WorkspaceSwitcherProps {
+  onLoadWorkspaces: () => Promise<{ workspaces: Workspace[]; currentWorkspaceId: string }>;
+  onSwitchWorkspace: (workspaceId: string) => Promise<Workspace>;
+  onSwitched: (workspace: Workspace) => void;
+  refreshKey?: number;
+}
+
+const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({
+  onLoadWorkspaces,
+  onSwitchWorkspace,
+  onSwitched,
+  refreshKey
+}) => {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [currentWorkspaceId, setCurrentWorkspaceId] = useState('');
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  useEffect(() => {
+    onLoadWorkspaces()
+      .then(result => {
+        setWorkspaces(result.workspaces);
+        setCurrentWorkspaceId(result.currentWorkspaceId);
+      })
+      .catch(err => console.warn('Failed to load workspaces:', err));
+    // Reload when the parent signals that workspaces changed
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [refreshKey]);
+
+  const handleChange = async (workspaceId: string) => {
+    setIsSwitching(true);
+    try {
+      const workspace = await onSwitchWorkspace(workspaceId);
+      setCurrentWorkspaceId(workspace.workspaceId);
+      onSwitched(workspace);
+    } catch (err: any) {
+      alert(err.message || 'Failed to switch workspace');
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  // Nothing to switch between
+  if (workspaces.length < 2) {
+    return null;
+  }
+
+  return (
+    <select
+      value={currentWorkspaceId}
+      onChange={(e) => handleChange(e.target.value)}
+      disabled={isSwitching}
+      title="Current workspace"
+      aria-label="Current workspace"
+      style={{
+        padding: '6px 8px',
+        backgroundColor: '#495057',
+        color: '#fff',
+        border: '1px solid #6c757d',
+        borderRadius: '4px',
+        fontSize: '13px',
+        cursor: isSwitching ? 'wait' : 'pointer',
+        maxWidth: '160px'
+      }}
+    >
+      {workspaces.map(workspace => (
+        <option key={workspace.workspaceId} value={workspace.workspaceId}>
+          {workspace.name}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default WorkspaceSwitcher;
@@ -102,6 +102,7 @@ const HELP_SECTIONS: HelpSection[] = [
           <li><strong>Operators</strong>: ==, !=, &gt;, &lt;, &gt;=, &lt;=, in, not_in</li>
           <li><strong>Example</strong>: frequency == "daily"</li>
           <li>All conditions must be true (AND logic)</li>
+          <li><strong>Groups</strong>: ANY of (OR), ALL of (AND) and NOT group other conditions, and can be nested, e.g. ANY(frequency == "daily", volume == "high")</li>
         </ul>
         
         <h4 style={{ marginBottom: '12px', fontSize: '15px', fontWeight: 600 }}>
@@ -170,7 +171,7 @@ const HELP_SECTIONS: HelpSection[] = [
         </h4>
         <ul style={{ marginBottom: '16px', paddingLeft: '20px', lineHeight: '1.6' }}>
           <li><strong>Add Rule</strong>: Click "➕ Add Rule" in the toolbar to create a new rule</li>
-          <li><strong>Add Condition</strong>: Open a rule's property panel and click "+ Add Node" to create a new condition</li>
+          <li><strong>Add Condition</strong>: Open a rule's property panel and click "+ Add" to create a new condition, or "+ Add Group" for an ANY/ALL/NOT group</li>
           <li><strong>Delete Node</strong>: Open a node's property panel and click "🗑️ Delete" (not available for attributes and categories)</li>
           <li>Deleting a rule also deletes all its conditions and action</li>
         </ul>
@@ -190,7 +191,8 @@ const HELP_SECTIONS: HelpSection[] = [
         <ul style={{ marginBottom: '16px', paddingLeft: '20px', lineHeight: '1.6' }}>
           <li>Change priority to control evaluation order</li>
           <li>Toggle active/inactive to enable/disable rules</li>
-          <li>Add or remove conditions</li>
+          <li>Add or remove conditions and condition groups</li>
+          <li>Edit a group's conditions as JSON, e.g. [{"{"}"attribute": "risk", "operator": "==", "value": "low"{"}"}]</li>
           <li>Modify the action type and parameters</li>
         </ul>
         
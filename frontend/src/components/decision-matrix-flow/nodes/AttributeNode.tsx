@@ -2,9 +2,10 @@ import React, { memo } from 'react';
 import { Handle, Position, NodeProps } from 'reactflow';
 import { AttributeNodeData, NODE_COLORS } from '../types/flow-types';
 import { ContextualTooltip } from '../help/ContextualTooltip';
+import { DiffBadge } from './DiffBadge';
 
 const AttributeNode: React.FC<NodeProps> = ({ data, selected }) => {
-  const { attribute, isHighlighted } = data as AttributeNodeData;
+  const { attribute, isHighlighted, diffStatus } = data as AttributeNodeData;
   const { name, type, weight, description, possibleValues } = attribute;
 
   // Get color based on attribute type
@@ -41,12 +42,17 @@ Click to edit weight and description.`;
         borderRadius: '8px',
         padding: '12px',
         minWidth: '200px',
-        boxShadow: selected ? '0 4px 12px rgba(0,0,0,0.15)' : '0 2px 6px rgba(0,0,0,0.1)',
+        position: 'relative',
+        boxShadow: diffStatus
+          ? `0 0 0 4px ${NODE_COLORS.diff[diffStatus]}55`
+          : selected ? '0 4px 12px rgba(0,0,0,0.15)' : '0 2px 6px rgba(0,0,0,0.1)',
         transition: 'all 0.2s ease',
         outline: selected ? `3px solid ${getTypeColor()}` : 'none',
         outlineOffset: '2px'
       }}
     >
+      <DiffBadge status={diffStatus} />
+
       {/* Header with icon and name */}
       <div style={{ display: 'flex', alignItems: 'center', marginBottom: '8px' }}>
         <span style={{ fontSize: '18px', marginRight: '6px' }}>📊</span>
@@ -148,6 +154,7 @@ const arePropsEqual = (prevProps: NodeProps, nextProps: NodeProps): boolean => {
   return (
     prevProps.selected === nextProps.selected &&
     prevData.isHighlighted === nextData.isHighlighted &&
+    prevData.diffStatus === nextData.diffStatus &&
     prevData.attribute.name === nextData.attribute.name &&
     prevData.attribute.weight === nextData.attribute.weight &&
     prevData.attribute.description === nextData.attribute.description &&
@@ -2,31 +2,40 @@ import React, { memo } from 'react';
 import { Handle, Position, NodeProps } from 'reactflow';
 import { ConditionNodeData, NODE_COLORS } from '../types/flow-types';
 import { ContextualTooltip } from '../help/ContextualTooltip';
+import {
+  GROUP_LABELS,
+  formatConditionValue,
+  formatRuleCondition,
+  getGroupChildren,
+  getGroupType,
+  isConditionGroup
+} from '../utils/conditionGroups';
+
+const GROUP_HELP = {
+  all: 'Matches when every condition in the group is met (AND logic).',
+  any: 'Matches when at least one condition in the group is met (OR logic).',
+  not: 'Matches when the condition inside the group is NOT met.'
+};
 
 const ConditionNode: React.FC<NodeProps> = ({ data, selected }) => {
   const { condition, isHighlighted } = data as ConditionNodeData;
-  const { attribute, operator, value } = condition;
+  const isGroup = isConditionGroup(condition);
 
-  // Format value display for arrays (in/not_in operators)
-  const formatValue = (val: any, op: string): string => {
-    if (op === 'in' || op === 'not_in') {
-      if (Array.isArray(val)) {
-        return `[${val.join(', ')}]`;
-      }
-    }
-    if (typeof val === 'string') {
-      return `"${val}"`;
-    }
-    return String(val);
-  };
+  // Groups use a darker cyan so they stand out from single comparisons
+  const nodeColor = isGroup ? NODE_COLORS.conditionGroup : NODE_COLORS.condition;
 
-  // Use cyan color for condition nodes
-  const nodeColor = NODE_COLORS.condition;
+  const expression = formatRuleCondition(condition);
 
   // Generate tooltip content
-  const tooltipContent = `Condition: ${attribute} ${operator} ${formatValue(value, operator)}
+  const tooltipContent = isGroup
+    ? `Condition group: ${expression}
+
+${GROUP_HELP[getGroupType(condition)]}
+
+The rule will only trigger if ALL of its top-level conditions are met (AND logic).`
+    : `Condition: ${expression}
 
-This condition checks if the ${attribute} attribute matches the specified criteria.
+This condition checks if the ${condition.attribute} attribute matches the specified criteria.
 
 The rule will only trigger if ALL conditions are met (AND logic).`;
 
@@ -37,7 +46,7 @@ The rule will only trigger if ALL conditions are met (AND logic).`;
         data-node-id={(data as any).nodeId}
         tabIndex={0}
         role="button"
-        aria-label={`Condition: ${attribute} ${operator} ${formatValue(value, operator)}`}
+        aria-label={isGroup ? `Condition group: ${expression}` : `Condition: ${expression}`}
         className={`condition-node ${selected ? 'selected' : ''} ${isHighlighted ? 'highlighted' : ''}`}
         style={{
         background: 'white',
@@ -51,40 +60,74 @@ The rule will only trigger if ALL conditions are met (AND logic).`;
         outlineOffset: '2px'
       }}
     >
-      {/* Condition expression */}
-      <div style={{ 
-        display: 'flex', 
-        alignItems: 'center', 
-        justifyContent: 'center',
-        flexWrap: 'wrap',
-        gap: '4px'
-      }}>
-        <span style={{ 
-          fontSize: '12px', 
-          fontWeight: 600, 
-          color: '#1f2937',
-          fontFamily: 'monospace'
-        }}>
-          {attribute}
-        </span>
-        <span style={{ 
-          fontSize: '12px', 
-          fontWeight: 500, 
-          color: nodeColor,
-          fontFamily: 'monospace'
-        }}>
-          {operator}
-        </span>
-        <span style={{ 
-          fontSize: '12px', 
-          fontWeight: 600, 
-          color: '#374151',
-          fontFamily: 'monospace',
-          wordBreak: 'break-word'
+      {isGroup ? (
+        <>
+          {/* Group type badge */}
+          <div style={{
+            fontSize: '11px',
+            fontWeight: 700,
+            color: nodeColor,
+            textTransform: 'uppercase',
+            letterSpacing: '0.05em',
+            marginBottom: '4px',
+            textAlign: 'center'
+          }}>
+            {GROUP_LABELS[getGroupType(condition)]}
+          </div>
+
+          {/* One line per child (nested groups are shown inline) */}
+          {getGroupChildren(condition).map((child, index) => (
+            <div
+              key={index}
+              style={{
+                fontSize: '12px',
+                color: '#1f2937',
+                fontFamily: 'monospace',
+                wordBreak: 'break-word',
+                padding: '2px 0',
+                borderTop: index > 0 ? '1px dashed #e5e7eb' : 'none'
+              }}
+            >
+              {formatRuleCondition(child)}
+            </div>
+          ))}
+        </>
+      ) : (
+        /* Condition expression */
+        <div style={{ 
+          display: 'flex', 
+          alignItems: 'center', 
+          justifyContent: 'center',
+          flexWrap: 'wrap',
+          gap: '4px'
         }}>
-          {formatValue(value, operator)}
-        </span>
-      </div>
+          <span style={{ 
+            fontSize: '12px', 
+            fontWeight: 600, 
+            color: '#1f2937',
+            fontFamily: 'monospace'
+          }}>
+            {condition.attribute}
+          </span>
+          <span style={{ 
+            fontSize: '12px', 
+            fontWeight: 500, 
+            color: nodeColor,
+            fontFamily: 'monospace'
+          }}>
+            {condition.operator}
+          </span>
+          <span style={{ 
+            fontSize: '12px', 
+            fontWeight: 600, 
+            color: '#374151',
+            fontFamily: 'monospace',
+            wordBreak: 'break-word'
+          }}>
+            {formatConditionValue(condition.value)}
+          </span>
+        </div>
+      )}
 
       {/* Handle for incoming connections (left side - from attribute) */}
       <Handle
@@ -125,9 +168,7 @@ const arePropsEqual = (prevProps: NodeProps, nextProps: NodeProps): boolean => {
   return (
     prevProps.selected === nextProps.selected &&
     prevData.isHighlighted === nextData.isHighlighted &&
-    prevData.condition.attribute === nextData.condition.attribute &&
-    prevData.condition.operator === nextData.condition.operator &&
-    JSON.stringify(prevData.condition.value) === JSON.stringify(nextData.condition.value)
+    JSON.stringify(prevData.condition) === JSON.stringify(nextData.condition)
   );
 };
 
@@ -0,0 +1,31 @@
+import React from 'react';
+import { DiffStatus, NODE_COLORS } from '../types/flow-types';
+
+/**
+ * Corner badge marking a node that was added or modified since the compared version
+ */
+export const DiffBadge: React.FC<{ status?: DiffStatus }> = ({ status }) => {
+  if (!status) {
+    return null;
+  }
+
+  return (
+    <span
+      aria-label={status === 'added' ? 'Added since compared version' : 'Modified since compared version'}
+      style={{
+        position: 'absolute',
+        top: '-10px',
+        right: '-10px',
+        padding: '2px 6px',
+        borderRadius: '4px',
+        fontSize: '10px',
+        fontWeight: 700,
+        backgroundColor: NODE_COLORS.diff[status],
+        color: 'white',
+        boxShadow: '0 1px 3px rgba(0,0,0,0.2)'
+      }}
+    >
+      {status === 'added' ? 'NEW' : 'CHANGED'}
+    </span>
+  );
+};
@@ -2,9 +2,11 @@ import React, { memo } from 'react';
 import { Handle, Position, NodeProps } from 'reactflow';
 import { RuleNodeData, NODE_COLORS } from '../types/flow-types';
 import { ContextualTooltip } from '../help/ContextualTooltip';
+import { DiffBadge } from './DiffBadge';
+import { formatRuleCondition } from '../utils/conditionGroups';
 
 const RuleNode: React.FC<NodeProps> = ({ data, selected }) => {
-  const { rule, isHighlighted } = data as RuleNodeData;
+  const { rule, isHighlighted, diffStatus } = data as RuleNodeData;
   const { name, priority, conditions, active, description } = rule;
 
   // Calculate border thickness based on priority (higher priority = thicker border)
@@ -16,7 +18,7 @@ const RuleNode: React.FC<NodeProps> = ({ data, selected }) => {
   const opacity = active ? 1 : 0.5;
 
   // Generate tooltip content
-  const conditionsSummary = conditions.map(c => `• ${c.attribute} ${c.operator} ${JSON.stringify(c.value)}`).join('\n');
+  const conditionsSummary = conditions.map(c => `• ${formatRuleCondition(c)}`).join('\n');
   const tooltipContent = `Rule: ${name} (Priority: ${priority})
 
 ${description || 'Custom classification rule'}
@@ -45,12 +47,17 @@ Click to edit conditions or change priority.`;
         minWidth: '220px',
         opacity,
         filter: active ? 'none' : 'grayscale(100%)',
-        boxShadow: selected ? '0 4px 12px rgba(0,0,0,0.15)' : '0 2px 6px rgba(0,0,0,0.1)',
+        position: 'relative',
+        boxShadow: diffStatus
+          ? `0 0 0 4px ${NODE_COLORS.diff[diffStatus]}55`
+          : selected ? '0 4px 12px rgba(0,0,0,0.15)' : '0 2px 6px rgba(0,0,0,0.1)',
         transition: 'all 0.2s ease',
         outline: selected ? `3px solid ${nodeColor}` : 'none',
         outlineOffset: '2px'
       }}
     >
+      <DiffBadge status={diffStatus} />
+
       {/* Priority badge */}
       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
         <div style={{ display: 'flex', alignItems: 'center' }}>
@@ -153,6 +160,7 @@ const arePropsEqual = (prevProps: NodeProps, nextProps: NodeProps): boolean => {
   return (
     prevProps.selected === nextProps.selected &&
     prevData.isHighlighted === nextData.isHighlighted &&
+    prevData.diffStatus === nextData.diffStatus &&
     prevData.rule.name === nextData.rule.name &&
     prevData.rule.priority === nextData.rule.priority &&
     prevData.rule.active === nextData.rule.active &&
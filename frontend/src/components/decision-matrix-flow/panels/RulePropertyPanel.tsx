@@ -1,8 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import NodePropertyPanel from './NodePropertyPanel';
 import { RuleNode, ValidationError } from '../types/flow-types';
-import { Rule, Condition } from '../../../../../shared/types';
+import { Rule, Condition, RuleCondition } from '../../../../../shared/types';
 import { validateRule } from '../utils/validation';
+import {
+  ConditionGroupType,
+  GROUP_LABELS,
+  createGroup,
+  getGroupChildren,
+  getGroupType,
+  isConditionGroup
+} from '../utils/conditionGroups';
 import { useDebounce } from '../utils/debounce';
 
 interface RulePropertyPanelProps {
@@ -27,6 +35,8 @@ const RulePropertyPanel: React.FC<RulePropertyPanelProps> = ({
   const [editedRule, setEditedRule] = useState<Rule | null>(null);
   const [isDirty, setIsDirty] = useState(false);
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
+  // Unparsed JSON for group children, keyed by condition index, while it is being edited
+  const [groupDrafts, setGroupDrafts] = useState<Record<number, { text: string; error?: string }>>({});
 
   // Initialize edited rule when node changes
   useEffect(() => {
@@ -34,6 +44,7 @@ const RulePropertyPanel: React.FC<RulePropertyPanelProps> = ({
       setEditedRule({ ...selectedNode.data.rule });
       setIsDirty(false);
       setValidationErrors([]);
+      setGroupDrafts({});
     }
   }, [selectedNode]);
 
@@ -81,7 +92,7 @@ const RulePropertyPanel: React.FC<RulePropertyPanelProps> = ({
   const handleConditionChange = (index: number, field: keyof Condition, value: any) => {
     const updatedConditions = [...editedRule.conditions];
     updatedConditions[index] = {
-      ...updatedConditions[index],
+      ...(updatedConditions[index] as Condition),
       [field]: value
     };
     const updated = { ...editedRule, conditions: updatedConditions };
@@ -89,6 +100,47 @@ const RulePropertyPanel: React.FC<RulePropertyPanelProps> = ({
     setIsDirty(true);
   };
 
+  const replaceCondition = (index: number, condition: RuleCondition) => {
+    const updatedConditions = [...editedRule.conditions];
+    updatedConditions[index] = condition;
+    setEditedRule({ ...editedRule, conditions: updatedConditions });
+    setIsDirty(true);
+  };
+
+  const handleGroupTypeChange = (index: number, type: ConditionGroupType) => {
+    const group = editedRule.conditions[index];
+    if (!isConditionGroup(group)) return;
+    replaceCondition(index, createGroup(type, getGroupChildren(group)));
+  };
+
+  const handleGroupChildrenChange = (index: number, text: string) => {
+    const group = editedRule.conditions[index];
+    if (!isConditionGroup(group)) return;
+
+    try {
+      const parsed = JSON.parse(text);
+      const children: RuleCondition[] = Array.isArray(parsed) ? parsed : [parsed];
+      replaceCondition(index, createGroup(getGroupType(group), children));
+      setGroupDrafts({ ...groupDrafts, [index]: { text } });
+    } catch {
+      setGroupDrafts({ ...groupDrafts, [index]: { text, error: 'Not valid JSON - changes are not applied yet' } });
+    }
+  };
+
+  const handleAddGroupClick = () => {
+    const placeholder: Condition = {
+      attribute: availableAttributes[0] || '',
+      operator: '==',
+      value: ''
+    };
+    const updated = {
+      ...editedRule,
+      conditions: [...editedRule.conditions, createGroup('any', [placeholder, { ...placeholder }])]
+    };
+    setEditedRule(updated);
+    setIsDirty(true);
+  };
+
   const handleAddConditionClick = () => {
     // If onAddCondition is provided, use it to add a condition node in the flow
     if (onAddCondition) {
@@ -113,13 +165,14 @@ const RulePropertyPanel: React.FC<RulePropertyPanelProps> = ({
     const updatedConditions = editedRule.conditions.filter((_, i) => i !== index);
     const updated = { ...editedRule, conditions: updatedConditions };
     setEditedRule(updated);
+    setGroupDrafts({});
     setIsDirty(true);
   };
 
   const handleSave = () => {
     // Check for blocking errors
     const blockingErrors = validationErrors.filter(e => e.severity === 'error');
-    if (blockingErrors.length > 0) {
+    if (blockingErrors.length > 0 || Object.values(groupDrafts).some(d => d.error)) {
       return;
     }
 
@@ -131,6 +184,7 @@ const RulePropertyPanel: React.FC<RulePropertyPanelProps> = ({
     setEditedRule({ ...selectedNode.data.rule });
     setIsDirty(false);
     setValidationErrors([]);
+    setGroupDrafts({});
     onCancel();
   };
 
@@ -138,7 +192,8 @@ const RulePropertyPanel: React.FC<RulePropertyPanelProps> = ({
     return ['==', '!=', '>', '<', '>=', '<=', 'in', 'not_in'];
   };
 
-  const hasBlockingErrors = validationErrors.some(e => e.severity === 'error');
+  const hasBlockingErrors = validationErrors.some(e => e.severity === 'error') ||
+    Object.values(groupDrafts).some(d => d.error);
 
   return (
     <NodePropertyPanel
@@ -322,6 +377,23 @@ const RulePropertyPanel: React.FC<RulePropertyPanelProps> = ({
             >
               Conditions * (All must be true)
             </label>
+            <div style={{ display: 'flex', gap: '6px' }}>
+            <button
+              onClick={handleAddGroupClick}
+              style={{
+                padding: '4px 12px',
+                fontSize: '12px',
+                backgroundColor: '#0e7490',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontWeight: 500
+              }}
+              title="Add an ANY (OR) group - switch it to ALL or NOT after adding"
+            >
+              + Add Group
+            </button>
             <button
               onClick={handleAddConditionClick}
               style={{
@@ -338,6 +410,7 @@ const RulePropertyPanel: React.FC<RulePropertyPanelProps> = ({
             >
               + Add {onAddCondition ? 'Node' : ''}
             </button>
+            </div>
           </div>
 
           {editedRule.conditions.length === 0 ? (
@@ -356,7 +429,87 @@ const RulePropertyPanel: React.FC<RulePropertyPanelProps> = ({
             </div>
           ) : (
             <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
-              {editedRule.conditions.map((condition, index) => (
+              {editedRule.conditions.map((condition, index) => isConditionGroup(condition) ? (
+                <div
+                  key={index}
+                  style={{
+                    padding: '12px',
+                    backgroundColor: '#ecfeff',
+                    border: '1px solid #a5f3fc',
+                    borderRadius: '6px'
+                  }}
+                >
+                  <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '8px' }}>
+                    <span style={{ fontSize: '12px', fontWeight: 600, color: '#0e7490' }}>
+                      Group {index + 1}
+                    </span>
+                    <button
+                      onClick={() => handleRemoveCondition(index)}
+                      style={{
+                        padding: '2px 8px',
+                        fontSize: '11px',
+                        backgroundColor: '#ef4444',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '4px',
+                        cursor: 'pointer'
+                      }}
+                    >
+                      Remove
+                    </button>
+                  </div>
+
+                  {/* Group type */}
+                  <div style={{ marginBottom: '8px' }}>
+                    <label style={{ fontSize: '11px', color: '#6b7280', display: 'block', marginBottom: '4px' }}>
+                      Match
+                    </label>
+                    <select
+                      value={getGroupType(condition)}
+                      onChange={(e) => handleGroupTypeChange(index, e.target.value as ConditionGroupType)}
+                      style={{
+                        width: '100%',
+                        padding: '6px 8px',
+                        fontSize: '13px',
+                        border: '1px solid #d1d5db',
+                        borderRadius: '4px'
+                      }}
+                    >
+                      {(Object.keys(GROUP_LABELS) as ConditionGroupType[]).map((type) => (
+                        <option key={type} value={type}>
+                          {GROUP_LABELS[type]}{type === 'not' ? ' (first condition only)' : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {/* Children as JSON - groups can nest further all/any/not objects */}
+                  <div>
+                    <label style={{ fontSize: '11px', color: '#6b7280', display: 'block', marginBottom: '4px' }}>
+                      Conditions (JSON)
+                    </label>
+                    <textarea
+                      value={groupDrafts[index]?.text ?? JSON.stringify(getGroupChildren(condition), null, 2)}
+                      onChange={(e) => handleGroupChildrenChange(index, e.target.value)}
+                      rows={6}
+                      style={{
+                        width: '100%',
+                        padding: '6px 8px',
+                        fontSize: '12px',
+                        fontFamily: 'monospace',
+                        border: `1px solid ${groupDrafts[index]?.error ? '#ef4444' : '#d1d5db'}`,
+                        borderRadius: '4px',
+                        boxSizing: 'border-box'
+                      }}
+                    />
+                    {groupDrafts[index]?.error && (
+                      <div style={{ fontSize: '11px', color: '#991b1b', marginTop: '4px' }}>
+                        {groupDrafts[index].error}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ) : (
                 <div
                   key={index}
                   style={{
@@ -3,7 +3,7 @@ import { Node, Edge } from 'reactflow';
 import { 
   Attribute, 
   Rule, 
-  Condition, 
+  RuleCondition, 
   RuleAction, 
   TransformationCategory
 } from '../../../../../shared/types';
@@ -11,10 +11,14 @@ import {
 // Node Types
 export type FlowNodeType = 'attribute' | 'rule' | 'condition' | 'action' | 'category';
 
+// Set on attribute and rule nodes when comparing against another matrix version
+export type DiffStatus = 'added' | 'modified';
+
 // Base Node Data
 export interface BaseNodeData extends Record<string, unknown> {
   label: string;
   isHighlighted: boolean;
+  diffStatus?: DiffStatus;
 }
 
 // Attribute Node Data
@@ -28,8 +32,9 @@ export interface RuleNodeData extends BaseNodeData {
 }
 
 // Condition Node Data
+// One node per top-level entry in rule.conditions: a comparison or an all/any/not group
 export interface ConditionNodeData extends BaseNodeData {
-  condition: Condition;
+  condition: RuleCondition;
   parentRuleId: string;
 }
 
@@ -139,6 +144,11 @@ export const NODE_COLORS = {
     inactive: '#9ca3af'     // gray
   },
   condition: '#06b6d4',     // cyan
+  conditionGroup: '#0e7490', // dark cyan
+  diff: {
+    added: '#10b981',       // green
+    modified: '#f59e0b'     // amber
+  },
   action: {
     override: '#10b981',    // green
     adjust_confidence: '#3b82f6', // blue
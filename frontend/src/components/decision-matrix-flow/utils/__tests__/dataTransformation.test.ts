@@ -3,6 +3,7 @@ import { DecisionMatrix, Attribute, Rule, Condition, RuleAction } from '../../..
 import { matrixToFlow } from '../matrixToFlow';
 import { flowToMatrix, incrementVersion } from '../flowToMatrix';
 import { layoutGraph } from '../layoutEngine';
+import { collectConditions, formatRuleCondition } from '../conditionGroups';
 
 describe('Data Transformation Utilities', () => {
   // Sample decision matrix for testing
@@ -218,4 +219,49 @@ describe('Data Transformation Utilities', () => {
       expect(matrix.rules[0].action.targetCategory).toBe(sampleMatrix.rules[0].action.targetCategory);
     });
   });
+
+  describe('Condition groups', () => {
+    const groupedMatrix: DecisionMatrix = {
+      ...sampleMatrix,
+      rules: [
+        {
+          ...sampleMatrix.rules[0],
+          conditions: [
+            {
+              any: [
+                { attribute: 'frequency', operator: '==', value: 'daily' },
+                { not: { attribute: 'complexity', operator: 'in', value: ['medium', 'high'] } }
+              ]
+            },
+            { attribute: 'complexity', operator: '!=', value: 'high' }
+          ]
+        }
+      ]
+    };
+
+    it('should create one condition node per top-level group with edges from every attribute it uses', () => {
+      const result = matrixToFlow(groupedMatrix);
+      const conditionNodes = result.nodes.filter(n => n.type === 'condition');
+
+      expect(conditionNodes.length).toBe(2);
+      expect(conditionNodes[0].data.label).toBe('ANY(frequency == "daily", NOT(complexity in [medium, high]))');
+
+      const intoGroup = result.edges.filter(e => e.target === conditionNodes[0].id).map(e => e.source);
+      expect(intoGroup).toEqual(['attr-frequency', 'attr-complexity']);
+    });
+
+    it('should preserve nested groups through round-trip conversion', () => {
+      const flowResult = matrixToFlow(groupedMatrix);
+      const matrix = flowToMatrix(flowResult.nodes, flowResult.edges, groupedMatrix);
+
+      expect(matrix.rules[0].conditions).toEqual(groupedMatrix.rules[0].conditions);
+    });
+
+    it('should flatten groups into their comparisons', () => {
+      const attributes = collectConditions(groupedMatrix.rules[0].conditions).map(c => c.attribute);
+      expect(attributes).toEqual(['frequency', 'complexity', 'complexity']);
+      expect(formatRuleCondition({ all: [{ attribute: 'risk', operator: '==', value: 'low' }] }))
+        .toBe('ALL(risk == "low")');
+    });
+  });
 });
@@ -0,0 +1,91 @@
+// Helpers for nested all/any/not condition groups
+import {
+  Condition,
+  ConditionGroup,
+  RuleCondition
+} from '../../../../../shared/types';
+
+export type ConditionGroupType = 'all' | 'any' | 'not';
+
+export const GROUP_LABELS: Record<ConditionGroupType, string> = {
+  all: 'ALL of',
+  any: 'ANY of',
+  not: 'NOT'
+};
+
+/**
+ * Check whether a rule condition is a group rather than a single comparison
+ */
+export const isConditionGroup = (condition: RuleCondition): condition is ConditionGroup => {
+  return !!condition && typeof condition === 'object' &&
+    ('all' in condition || 'any' in condition || 'not' in condition);
+};
+
+/**
+ * Get the group type (all/any/not)
+ */
+export const getGroupType = (group: ConditionGroup): ConditionGroupType => {
+  if ('all' in group) return 'all';
+  if ('any' in group) return 'any';
+  return 'not';
+};
+
+/**
+ * Get the direct children of a group
+ */
+export const getGroupChildren = (group: ConditionGroup): RuleCondition[] => {
+  if ('all' in group) return group.all;
+  if ('any' in group) return group.any;
+  return [group.not];
+};
+
+/**
+ * Build a group of the given type; a NOT group keeps only the first child
+ */
+export const createGroup = (type: ConditionGroupType, children: RuleCondition[]): ConditionGroup => {
+  switch (type) {
+    case 'all':
+      return { all: children };
+    case 'any':
+      return { any: children };
+    case 'not':
+      return { not: children[0] };
+  }
+};
+
+/**
+ * Flatten nested groups into the single comparisons they contain
+ */
+export const collectConditions = (conditions: RuleCondition[]): Condition[] => {
+  return conditions.flatMap(condition =>
+    isConditionGroup(condition)
+      ? collectConditions(getGroupChildren(condition))
+      : [condition]
+  );
+};
+
+/**
+ * Format a comparison value for display
+ */
+export const formatConditionValue = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.join(', ')}]`;
+  }
+  if (typeof value === 'string') {
+    return `"${value}"`;
+  }
+  return String(value);
+};
+
+/**
+ * Format a comparison or group as a single line, e.g.
+ * ANY(frequency == "daily", NOT(complexity == "high"))
+ */
+export const formatRuleCondition = (condition: RuleCondition): string => {
+  if (!isConditionGroup(condition)) {
+    return `${condition.attribute} ${condition.operator} ${formatConditionValue(condition.value)}`;
+  }
+
+  const children = getGroupChildren(condition).map(formatRuleCondition).join(', ');
+  return `${getGroupType(condition).toUpperCase()}(${children})`;
+};
@@ -4,7 +4,7 @@ import {
   DecisionMatrix,
   Attribute,
   Rule,
-  Condition,
+  RuleCondition,
   RuleAction
 } from '../../../../../shared/types';
 import {
@@ -15,6 +15,7 @@ import {
   ConditionNodeData,
   ActionNodeData
 } from '../types/flow-types';
+import { collectConditions } from './conditionGroups';
 
 /**
  * Increment version string
@@ -57,11 +58,12 @@ const extractAttributes = (nodes: FlowNode[]): Attribute[] => {
 
 /**
  * Extract conditions for a specific rule
+ * Group nodes carry their whole all/any/not tree, so nesting round-trips unchanged
  */
-const extractConditionsForRule = (
+export const extractConditionsForRule = (
   ruleId: string,
   nodes: FlowNode[]
-): Condition[] => {
+): RuleCondition[] => {
   return nodes
     .filter((node): node is Node<ConditionNodeData, 'condition'> => 
       node.type === 'condition' && node.data.parentRuleId === ruleId
@@ -205,8 +207,8 @@ export const validateFlowForConversion = (
       });
     }
     
-    // Check if all condition attributes exist
-    conditions.forEach(condition => {
+    // Check if all condition attributes exist (including inside groups)
+    collectConditions(conditions).forEach(condition => {
       if (!attributeNames.has(condition.attribute)) {
         errors.push({
           type: 'missing_attribute',
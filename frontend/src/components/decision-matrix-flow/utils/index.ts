@@ -1,6 +1,7 @@
 // Export all utility functions
 export * from './matrixToFlow';
 export * from './flowToMatrix';
+export * from './conditionGroups';
 export * from './layoutEngine';
 export * from './validation';
 export * from './nodeValidation';
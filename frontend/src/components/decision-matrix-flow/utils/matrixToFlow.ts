@@ -3,7 +3,7 @@ import {
   DecisionMatrix,
   Attribute,
   Rule,
-  Condition,
+  RuleCondition,
   RuleAction,
   TransformationCategory
 } from '../../../../../shared/types';
@@ -20,6 +20,7 @@ import {
   NODE_DIMENSIONS
 } from '../types/flow-types';
 import { layoutGraph } from './layoutEngine';
+import { collectConditions, formatRuleCondition } from './conditionGroups';
 
 // Node ID generation functions
 export const generateAttributeNodeId = (attributeName: string): string => {
@@ -85,12 +86,12 @@ const createRuleNode = (rule: Rule, index: number): FlowNode => {
 
 // Create condition node
 const createConditionNode = (
-  condition: Condition,
+  condition: RuleCondition,
   ruleId: string,
   conditionIndex: number
 ): FlowNode => {
   const nodeId = generateConditionNodeId(ruleId, conditionIndex);
-  const label = formatConditionLabel(condition);
+  const label = formatRuleCondition(condition);
   
   return {
     id: nodeId,
@@ -107,21 +108,6 @@ const createConditionNode = (
   };
 };
 
-// Format condition label for display
-const formatConditionLabel = (condition: Condition): string => {
-  let valueStr: string;
-  
-  if (Array.isArray(condition.value)) {
-    valueStr = `[${condition.value.join(', ')}]`;
-  } else if (typeof condition.value === 'string') {
-    valueStr = `"${condition.value}"`;
-  } else {
-    valueStr = String(condition.value);
-  }
-  
-  return `${condition.attribute} ${condition.operator} ${valueStr}`;
-};
-
 // Create action node
 const createActionNode = (action: RuleAction, ruleId: string): FlowNode => {
   const nodeId = generateActionNodeId(ruleId);
@@ -202,6 +188,33 @@ const getTargetCategory = (action: RuleAction): TransformationCategory | null =>
   return null;
 };
 
+/**
+ * Create the condition nodes for a rule, with edges from the attributes they
+ * reference and into the rule node. A group becomes a single node with an edge
+ * from every attribute used anywhere inside it.
+ */
+export const createConditionElements = (rule: Rule): MatrixToFlowResult => {
+  const nodes: FlowNode[] = [];
+  const edges: CustomEdge[] = [];
+  const ruleNodeId = generateRuleNodeId(rule.ruleId);
+
+  rule.conditions.forEach((condition, condIndex) => {
+    const condNode = createConditionNode(condition, rule.ruleId, condIndex);
+    nodes.push(condNode);
+    
+    // Edges from attributes to condition
+    const attributeNames = new Set(collectConditions([condition]).map(c => c.attribute));
+    attributeNames.forEach(attributeName => {
+      edges.push(createEdge(generateAttributeNodeId(attributeName), condNode.id, 'condition'));
+    });
+    
+    // Edge from condition to rule
+    edges.push(createEdge(condNode.id, ruleNodeId, 'condition'));
+  });
+
+  return { nodes, edges };
+};
+
 /**
  * Convert DecisionMatrix to ReactFlow graph structure
  * 
@@ -259,17 +272,9 @@ export const matrixToFlow = (matrix: DecisionMatrix): MatrixToFlowResult => {
     nodes.push(ruleNode);
     
     // Create condition nodes for each condition
-    rule.conditions.forEach((condition, condIndex) => {
-      const condNode = createConditionNode(condition, rule.ruleId, condIndex);
-      nodes.push(condNode);
-      
-      // Edge from attribute to condition
-      const attrNodeId = generateAttributeNodeId(condition.attribute);
-      edges.push(createEdge(attrNodeId, condNode.id, 'condition'));
-      
-      // Edge from condition to rule
-      edges.push(createEdge(condNode.id, ruleNode.id, 'condition'));
-    });
+    const conditionElements = createConditionElements(rule);
+    nodes.push(...conditionElements.nodes);
+    edges.push(...conditionElements.edges);
     
     // Create action node
     const actionNode = createActionNode(rule.action, rule.ruleId);
@@ -3,9 +3,11 @@ import {
   Attribute,
   Rule,
   Condition,
+  RuleCondition,
   RuleAction
 } from '../../../../../shared/types';
 import { ValidationError } from '../types/flow-types';
+import { collectConditions, getGroupChildren, isConditionGroup } from './conditionGroups';
 
 /**
  * Validate attribute
@@ -62,6 +64,22 @@ export const validateRule = (rule: Rule): ValidationError[] => {
     });
   }
   
+  // Every all/any group must contain at least one condition
+  const hasEmptyGroup = (conditions: RuleCondition[]): boolean =>
+    conditions.some(condition => {
+      if (!isConditionGroup(condition)) return false;
+      const children = getGroupChildren(condition).filter(child => child !== undefined);
+      return children.length === 0 || hasEmptyGroup(children);
+    });
+  if (rule.conditions && hasEmptyGroup(rule.conditions)) {
+    errors.push({
+      nodeId: `rule-${rule.ruleId}`,
+      field: 'conditions',
+      message: 'Condition groups must contain at least one condition',
+      severity: 'error'
+    });
+  }
+  
   // Priority must be a positive number
   if (rule.priority < 0) {
     errors.push({
@@ -284,8 +302,8 @@ export const validateMatrix = (
   rules.forEach(rule => {
     errors.push(...validateRule(rule));
     
-    // Validate conditions
-    rule.conditions.forEach(condition => {
+    // Validate conditions (including those nested in groups)
+    collectConditions(rule.conditions).forEach(condition => {
       const attribute = attributeMap.get(condition.attribute);
       errors.push(...validateCondition(condition, attribute));
     });
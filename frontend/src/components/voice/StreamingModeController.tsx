@@ -59,18 +59,23 @@ const StreamingModeController: React.FC<StreamingModeControllerProps> = ({
     const connect = async () => {
       try {
         const config = apiService.getLLMConfig();
+        const sessionId = apiService.getSessionId();
 
         if (!config || config.provider !== 'bedrock' || !config.awsAccessKeyId || !config.awsSecretAccessKey) {
           throw new Error('Missing AWS Bedrock credentials. Please configure in Settings.');
         }
 
+        if (!sessionId) {
+          throw new Error('No active session. Please reconfigure your LLM provider in the Configuration tab.');
+        }
+
         await novaSonicService.connect({
           awsAccessKeyId: config.awsAccessKeyId,
           awsSecretAccessKey: config.awsSecretAccessKey,
           awsSessionToken: config.awsSessionToken,
           awsRegion: config.awsRegion || 'us-east-1',
           systemPrompt: 'You are a helpful assistant. Just transcribe what the user says.',
-          userId: 'voice-user-streaming',
+          sessionId,
           voiceId: voiceType || config.voiceType
         }, {
           onTranscription: (text) => {
@@ -1,5 +1,7 @@
 // API service for backend communication
 
+import { AuditLogEntry, BatchJob, DecisionMatrixActivation, DecisionMatrixDiff, ErasureCertificate, InterviewPolicy, LLMQuotaSettings, LLMQuotaStatus, LLMUsageSummary, MatrixSimulationResult, PIIAccessLogEntry, PIIDetectorSettings, PIIReport, PIIRevealRequest, PIIRevealSettings, PIIType, ProcessStreamEvent, ProcessStreamStage, RetentionPolicy, RetentionPurgeResult, UserRole, Workspace } from '../../../shared/types';
+
 // Use empty string for relative URLs - nginx will proxy /api to backend
 const API_BASE_URL = process.env.REACT_APP_API_URL || '';
 
@@ -9,10 +11,12 @@ export interface ApiError {
 }
 
 export interface LLMConfig {
-  provider: 'openai' | 'bedrock';
+  provider: 'openai' | 'bedrock' | 'local';
   model: string;
-  // OpenAI
+  // OpenAI (also optional key for local endpoints)
   apiKey?: string;
+  // Local / OpenAI-compatible endpoint (Ollama, vLLM)
+  baseUrl?: string;
   // AWS Bedrock
   awsAccessKeyId?: string;
   awsSecretAccessKey?: string;
@@ -24,10 +28,27 @@ export interface LLMConfig {
   voiceType?: string;
 }
 
+export type BatchJobSummary = Omit<BatchJob, 'items'>;
+
+// Editable part of an interview policy; the server assigns version and author
+export type InterviewPolicySettings = Omit<InterviewPolicy, 'version' | 'createdAt' | 'createdBy'>;
+
+export interface PIIPreviewResult {
+  scrubbedText: string;
+  matches: Array<{ type: PIIType; detector?: string; value: string; start: number; end: number; token: string }>;
+  hasPII: boolean;
+}
+
+export interface ProcessProgress {
+  stage?: ProcessStreamStage;
+  rationale: string;
+}
+
 class ApiService {
   private apiKey: string | null = null;
   private sessionId: string | null = null;
   private llmConfig: LLMConfig | null = null;
+  private refreshPromise: Promise<boolean> | null = null;
 
   /**
    * Get auth token from sessionStorage
@@ -52,14 +73,81 @@ class ApiService {
     return headers;
   }
 
+  /**
+   * Clear auth and return to the login screen
+   */
+  private expireLogin() {
+    sessionStorage.clear();
+    window.location.reload();
+  }
+
+  /**
+   * Exchange the refresh token for a new access token.
+   * Concurrent callers share one request, since each refresh token works once.
+   */
+  private refreshAccessToken(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = (async () => {
+        const refreshToken = sessionStorage.getItem('refreshToken');
+        if (!refreshToken) {
+          return false;
+        }
+
+        try {
+          const response = await fetch(`${API_BASE_URL}/api/auth/refresh`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ refreshToken }),
+          });
+
+          if (!response.ok) {
+            return false;
+          }
+
+          const data = await response.json();
+          sessionStorage.setItem('authToken', data.token);
+          sessionStorage.setItem('refreshToken', data.refreshToken);
+          sessionStorage.setItem('userPermissions', JSON.stringify(data.user.permissions || []));
+          return true;
+        } catch {
+          return false;
+        }
+      })().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+
+    return this.refreshPromise;
+  }
+
+  /**
+   * fetch() with the current access token, refreshing it and retrying once
+   * when it has expired. Use for endpoints that don't return JSON.
+   */
+  async fetchWithAuth(url: string, init: RequestInit = {}): Promise<Response> {
+    const send = () => {
+      const headers = new Headers(init.headers);
+      const token = this.getAuthToken();
+      if (token) {
+        headers.set('Authorization', `Bearer ${token}`);
+      }
+      return fetch(url, { ...init, headers });
+    };
+
+    const response = await send();
+    if (response.status === 401 && await this.refreshAccessToken()) {
+      return send();
+    }
+
+    return response;
+  }
+
   /**
    * Handle API errors including auth failures
    */
   private async handleResponse(response: Response) {
-    if (response.status === 401 || response.status === 403) {
-      // Clear auth and redirect to login
-      sessionStorage.clear();
-      window.location.reload();
+    if (response.status === 401) {
+      this.expireLogin();
       throw new Error('Authentication required. Please login again.');
     }
 
@@ -119,27 +207,20 @@ class ApiService {
       ...(options.headers as Record<string, string>),
     };
 
-    // Add auth token if available
-    const token = this.getAuthToken();
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-
     // Legacy API key support (for backward compatibility)
     if (this.apiKey) {
       headers['X-API-Key'] = this.apiKey;
     }
 
     try {
-      const response = await fetch(url, {
+      const response = await this.fetchWithAuth(url, {
         ...options,
         headers,
       });
 
-      // Handle auth errors
-      if (response.status === 401 || response.status === 403) {
-        sessionStorage.clear();
-        window.location.reload();
+      // Handle auth errors; 403 (missing permission) is reported like any other error
+      if (response.status === 401) {
+        this.expireLogin();
         const authError: ApiError = {
           message: 'Authentication required. Please login again.',
           status: response.status,
@@ -169,6 +250,121 @@ class ApiService {
     }
   }
 
+  /**
+   * POST to a Server-Sent Events endpoint, reporting progress events until
+   * the final result arrives
+   */
+  private async streamRequest<T>(
+    endpoint: string,
+    body: unknown,
+    onProgress: (progress: ProcessProgress) => void
+  ): Promise<T> {
+    const url = `${API_BASE_URL}${endpoint}`;
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+    };
+
+    // Legacy API key support (for backward compatibility)
+    if (this.apiKey) {
+      headers['X-API-Key'] = this.apiKey;
+    }
+
+    try {
+      const response = await this.fetchWithAuth(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+      });
+
+      if (response.status === 401) {
+        this.expireLogin();
+        const authError: ApiError = {
+          message: 'Authentication required. Please login again.',
+          status: response.status,
+        };
+        throw authError;
+      }
+
+      if (!response.ok || !response.body) {
+        const errorData = await response.json().catch(() => ({ message: 'Request failed' }));
+        const apiError: ApiError = {
+          message: errorData.message || `HTTP ${response.status}: ${response.statusText}`,
+          status: response.status,
+        };
+        throw apiError;
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      const progress: ProcessProgress = { rationale: '' };
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        buffer += decoder.decode(value, { stream: true });
+
+        // Events are separated by a blank line; comments (heartbeats) start with ':'
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+          const frame = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+          boundary = buffer.indexOf('\n\n');
+
+          let eventName = 'message';
+          let data = '';
+          for (const line of frame.split('\n')) {
+            if (line.startsWith('event:')) {
+              eventName = line.slice(6).trim();
+            } else if (line.startsWith('data:')) {
+              data += line.slice(5).trim();
+            }
+          }
+          if (!data) {
+            continue;
+          }
+
+          const event = { event: eventName, data: JSON.parse(data) } as ProcessStreamEvent;
+          if (event.event === 'stage') {
+            progress.stage = event.data.stage;
+            onProgress({ ...progress });
+          } else if (event.event === 'rationale') {
+            progress.rationale = event.data.text ?? progress.rationale + (event.data.delta || '');
+            onProgress({ ...progress });
+          } else if (event.event === 'result') {
+            reader.cancel().catch(() => undefined);
+            return event.data as T;
+          } else if (event.event === 'error') {
+            const apiError: ApiError = {
+              message: event.data.message || event.data.error,
+              status: event.data.status,
+            };
+            throw apiError;
+          }
+        }
+      }
+
+      const closedError: ApiError = {
+        message: 'Connection closed before the request completed',
+        status: 0,
+      };
+      throw closedError;
+    } catch (error) {
+      if ((error as ApiError).status !== undefined && (error as ApiError).message) {
+        throw error;
+      }
+      const networkError: ApiError = {
+        message: 'Network error. Please check your connection.',
+        status: 0,
+      };
+      throw networkError;
+    }
+  }
+
   // Session endpoints
   async createSession(apiKey: string, model?: string): Promise<{ sessionId: string; model: string }> {
     this.setApiKey(apiKey);
@@ -188,6 +384,9 @@ class ApiService {
         body.awsRegion = this.llmConfig.awsRegion;
         body.useRegionalInference = this.llmConfig.useRegionalInference;
         body.regionalInferenceEndpoint = this.llmConfig.regionalInferenceEndpoint;
+      } else if (this.llmConfig.provider === 'local') {
+        body.baseUrl = this.llmConfig.baseUrl;
+        body.apiKey = this.llmConfig.apiKey;
       }
     } else {
       // Fallback to OpenAI if no config set
@@ -204,9 +403,10 @@ class ApiService {
   }
 
   async listModels(
-    provider: 'openai' | 'bedrock',
+    provider: 'openai' | 'bedrock' | 'local',
     credentials: {
       apiKey?: string;
+      baseUrl?: string;
       awsAccessKeyId?: string;
       awsSecretAccessKey?: string;
       awsSessionToken?: string;
@@ -250,9 +450,17 @@ class ApiService {
       if (credentials.regionalInferenceEndpoint) {
         headers['x-regional-inference-endpoint'] = credentials.regionalInferenceEndpoint;
       }
+    } else if (provider === 'local') {
+      if (!credentials.baseUrl) {
+        throw new Error('Base URL is required for a local endpoint');
+      }
+      headers['x-llm-base-url'] = credentials.baseUrl;
+      if (credentials.apiKey) {
+        headers['X-API-Key'] = credentials.apiKey;
+      }
     }
 
-    const response = await fetch(`${API_BASE_URL}/api/public/models?provider=${provider}`, {
+    const response = await this.fetchWithAuth(`${API_BASE_URL}/api/public/models?provider=${provider}`, {
       method: 'GET',
       headers,
     });
@@ -281,7 +489,11 @@ class ApiService {
   }
 
   // Process submission
-  async submitProcess(description: string, subject?: string): Promise<any> {
+  async submitProcess(
+    description: string,
+    subject?: string,
+    onProgress?: (progress: ProcessProgress) => void
+  ): Promise<any> {
     if (!this.sessionId) {
       const error: ApiError = { message: 'No active session', status: 400 };
       throw error;
@@ -305,6 +517,9 @@ class ApiService {
 
     if (this.llmConfig.provider === 'openai') {
       body.apiKey = this.llmConfig.apiKey;
+    } else if (this.llmConfig.provider === 'local') {
+      body.baseUrl = this.llmConfig.baseUrl;
+      body.apiKey = this.llmConfig.apiKey;
     } else {
       body.awsAccessKeyId = this.llmConfig.awsAccessKeyId;
       body.awsSecretAccessKey = this.llmConfig.awsSecretAccessKey;
@@ -312,6 +527,10 @@ class ApiService {
       body.awsRegion = this.llmConfig.awsRegion;
     }
 
+    if (onProgress) {
+      return this.streamRequest('/api/process/submit/stream', body, onProgress);
+    }
+
     return this.request('/api/process/submit', {
       method: 'POST',
       body: JSON.stringify(body),
@@ -319,7 +538,11 @@ class ApiService {
   }
 
   // Conversation endpoints
-  async addConversation(responses: string | string[], questions?: string[]): Promise<any> {
+  async addConversation(
+    responses: string | string[],
+    questions?: string[],
+    onProgress?: (progress: ProcessProgress) => void
+  ): Promise<any> {
     if (!this.sessionId) {
       const error: ApiError = { message: 'No active session', status: 400 };
       throw error;
@@ -342,6 +565,9 @@ class ApiService {
 
     if (this.llmConfig.provider === 'openai') {
       body.apiKey = this.llmConfig.apiKey;
+    } else if (this.llmConfig.provider === 'local') {
+      body.baseUrl = this.llmConfig.baseUrl;
+      body.apiKey = this.llmConfig.apiKey;
     } else {
       body.awsAccessKeyId = this.llmConfig.awsAccessKeyId;
       body.awsSecretAccessKey = this.llmConfig.awsSecretAccessKey;
@@ -349,6 +575,10 @@ class ApiService {
       body.awsRegion = this.llmConfig.awsRegion;
     }
 
+    if (onProgress) {
+      return this.streamRequest('/api/process/clarify/stream', body, onProgress);
+    }
+
     return this.request('/api/process/clarify', {
       method: 'POST',
       body: JSON.stringify(body),
@@ -356,7 +586,7 @@ class ApiService {
   }
 
   // Force classification (skip interview)
-  async forceClassification(): Promise<any> {
+  async forceClassification(onProgress?: (progress: ProcessProgress) => void): Promise<any> {
     if (!this.sessionId) {
       const error: ApiError = { message: 'No active session', status: 400 };
       throw error;
@@ -375,6 +605,9 @@ class ApiService {
 
     if (this.llmConfig.provider === 'openai') {
       body.apiKey = this.llmConfig.apiKey;
+    } else if (this.llmConfig.provider === 'local') {
+      body.baseUrl = this.llmConfig.baseUrl;
+      body.apiKey = this.llmConfig.apiKey;
     } else {
       body.awsAccessKeyId = this.llmConfig.awsAccessKeyId;
       body.awsSecretAccessKey = this.llmConfig.awsSecretAccessKey;
@@ -382,6 +615,10 @@ class ApiService {
       body.awsRegion = this.llmConfig.awsRegion;
     }
 
+    if (onProgress) {
+      return this.streamRequest('/api/process/classify/stream', body, onProgress);
+    }
+
     return this.request('/api/process/classify', {
       method: 'POST',
       body: JSON.stringify(body),
@@ -482,7 +719,7 @@ class ApiService {
         awsSessionToken: this.llmConfig.awsSessionToken,
         awsRegion: this.llmConfig.awsRegion || 'us-east-1',
         systemPrompt: 'You are a helpful assistant for voice transcription and conversation.',
-        userId: 'voice-user',
+        sessionId: this.sessionId!,
         modelId: undefined
       });
 
@@ -554,16 +791,8 @@ class ApiService {
       }
     }
 
-    // Get auth token for protected endpoint
-    const token = this.getAuthToken();
-    const headers: HeadersInit = {};
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-
-    const response = await fetch(`${API_BASE_URL}/api/voice/transcribe`, {
+    const response = await this.fetchWithAuth(`${API_BASE_URL}/api/voice/transcribe`, {
       method: 'POST',
-      headers,
       body: formData,
     });
 
@@ -595,14 +824,9 @@ class ApiService {
       throw error;
     }
 
-    // Get auth token for protected endpoint
-    const token = this.getAuthToken();
     const headers: HeadersInit = {
       'Content-Type': 'application/json',
     };
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
 
     const requestBody: any = {
       text,
@@ -633,7 +857,7 @@ class ApiService {
       requestBody.awsRegion = this.llmConfig.awsRegion || 'us-east-1';
     }
 
-    const response = await fetch(`${API_BASE_URL}/api/voice/synthesize`, {
+    const response = await this.fetchWithAuth(`${API_BASE_URL}/api/voice/synthesize`, {
       method: 'POST',
       headers,
       body: JSON.stringify(requestBody),
@@ -656,6 +880,10 @@ class ApiService {
     return response.metrics || response;
   }
 
+  async getLLMUsage(days: number = 30): Promise<LLMUsageSummary> {
+    return this.request<LLMUsageSummary>(`/api/analytics/usage?days=${days}`);
+  }
+
   // Decision Matrix endpoints
   async getDecisionMatrix(): Promise<any> {
     return this.request('/api/decision-matrix');
@@ -669,6 +897,24 @@ class ApiService {
     return this.request(`/api/decision-matrix/${version}`);
   }
 
+  async activateDecisionMatrixVersion(
+    version: string,
+    reason: string
+  ): Promise<{ previousVersion: string | null; activation: DecisionMatrixActivation }> {
+    return this.request(`/api/decision-matrix/${version}/activate`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+  }
+
+  async diffDecisionMatrixVersions(fromVersion: string, toVersion?: string): Promise<DecisionMatrixDiff> {
+    const params = new URLSearchParams({ from: fromVersion });
+    if (toVersion) {
+      params.append('to', toVersion);
+    }
+    return this.request<DecisionMatrixDiff>(`/api/decision-matrix/diff?${params.toString()}`);
+  }
+
   async updateDecisionMatrix(matrix: any): Promise<any> {
     return this.request('/api/decision-matrix', {
       method: 'PUT',
@@ -696,6 +942,9 @@ class ApiService {
         body.awsSecretAccessKey = this.llmConfig.awsSecretAccessKey;
         body.awsSessionToken = this.llmConfig.awsSessionToken;
         body.awsRegion = this.llmConfig.awsRegion;
+      } else if (this.llmConfig.provider === 'local') {
+        body.baseUrl = this.llmConfig.baseUrl;
+        body.apiKey = this.llmConfig.apiKey;
       } else {
         body.apiKey = this.llmConfig.apiKey || this.apiKey;
       }
@@ -712,16 +961,7 @@ class ApiService {
 
   async exportDecisionMatrix(version?: string): Promise<Blob> {
     const params = version ? `?version=${version}` : '';
-    const token = this.getAuthToken();
-    const headers: HeadersInit = {};
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-
-    const response = await fetch(
-      `${API_BASE_URL}/api/decision-matrix/export${params}`,
-      { headers }
-    );
+    const response = await this.fetchWithAuth(`${API_BASE_URL}/api/decision-matrix/export${params}`);
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({ message: 'Export failed' }));
@@ -736,16 +976,7 @@ class ApiService {
   }
 
   async exportAllDecisionMatrixVersions(): Promise<Blob> {
-    const token = this.getAuthToken();
-    const headers: HeadersInit = {};
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-
-    const response = await fetch(
-      `${API_BASE_URL}/api/decision-matrix/export/all-versions`,
-      { headers }
-    );
+    const response = await this.fetchWithAuth(`${API_BASE_URL}/api/decision-matrix/export/all-versions`);
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({ message: 'Export failed' }));
@@ -770,6 +1001,13 @@ class ApiService {
     });
   }
 
+  async simulateDecisionMatrix(matrix: any): Promise<MatrixSimulationResult> {
+    return this.request<MatrixSimulationResult>('/api/decision-matrix/simulate', {
+      method: 'POST',
+      body: JSON.stringify({ matrix }),
+    });
+  }
+
   // Learning endpoints
   async getSuggestions(): Promise<any> {
     const response = await this.request<any>('/api/learning/suggestions');
@@ -816,6 +1054,9 @@ class ApiService {
         throw error;
       }
       body.apiKey = this.llmConfig.apiKey;
+    } else if (this.llmConfig.provider === 'local') {
+      body.baseUrl = this.llmConfig.baseUrl;
+      body.apiKey = this.llmConfig.apiKey;
     } else if (this.llmConfig.provider === 'bedrock') {
       body.awsAccessKeyId = this.llmConfig.awsAccessKeyId;
       body.awsSecretAccessKey = this.llmConfig.awsSecretAccessKey;
@@ -897,13 +1138,25 @@ class ApiService {
     ).join(' ');
   }
 
+  /**
+   * End the login session on the server so its tokens stop working
+   */
+  async logout(): Promise<void> {
+    try {
+      await this.fetchWithAuth(`${API_BASE_URL}/api/auth/logout`, { method: 'POST' });
+    } catch (error) {
+      // Local state is cleared regardless; the session expires on its own
+      console.error('Logout failed:', error);
+    }
+  }
+
   // User Management endpoints
   async getUsers(): Promise<any[]> {
     const response = await this.request<any>('/api/auth/users');
     return response.users || [];
   }
 
-  async createUser(username: string, password: string, role: 'admin' | 'user'): Promise<any> {
+  async createUser(username: string, password: string, role: UserRole): Promise<any> {
     const response = await this.request<any>('/api/auth/users', {
       method: 'POST',
       body: JSON.stringify({ username, password, role })
@@ -911,7 +1164,7 @@ class ApiService {
     return response.user;
   }
 
-  async changeUserRole(userId: string, newRole: 'admin' | 'user'): Promise<void> {
+  async changeUserRole(userId: string, newRole: UserRole): Promise<void> {
     await this.request(`/api/auth/users/${userId}/role`, {
       method: 'PUT',
       body: JSON.stringify({ role: newRole })
@@ -931,6 +1184,132 @@ class ApiService {
     });
   }
 
+  async unlockUser(userId: string): Promise<void> {
+    await this.request(`/api/auth/users/${userId}/unlock`, {
+      method: 'POST'
+    });
+  }
+
+  async getLoginEvents(username?: string, days: number = 7): Promise<AuditLogEntry[]> {
+    const params = new URLSearchParams({ days: String(days) });
+    if (username) params.append('username', username);
+    const response = await this.request<{ events: AuditLogEntry[] }>(`/api/auth/users/login-events?${params.toString()}`);
+    return response.events;
+  }
+
+  async getPasswordRequirements(): Promise<string[]> {
+    const response = await this.request<{ requirements: string[] }>('/api/auth/password-policy');
+    return response.requirements;
+  }
+
+  async resetUserTwoFactor(userId: string): Promise<void> {
+    await this.request(`/api/auth/users/${userId}/reset-2fa`, {
+      method: 'POST'
+    });
+  }
+
+  async getSecuritySettings(): Promise<{ requireTwoFactorForAdmins: boolean }> {
+    return this.request('/api/auth/security-settings');
+  }
+
+  async updateSecuritySettings(settings: { requireTwoFactorForAdmins: boolean }): Promise<{ requireTwoFactorForAdmins: boolean }> {
+    return this.request('/api/auth/security-settings', {
+      method: 'PUT',
+      body: JSON.stringify(settings)
+    });
+  }
+
+  async getLLMQuotas(): Promise<{ settings: LLMQuotaSettings; users: LLMQuotaStatus[] }> {
+    return this.request('/api/auth/llm-quotas');
+  }
+
+  async updateLLMQuotas(settings: LLMQuotaSettings): Promise<LLMQuotaSettings> {
+    return this.request('/api/auth/llm-quotas', {
+      method: 'PUT',
+      body: JSON.stringify(settings)
+    });
+  }
+
+  async getTwoFactorStatus(): Promise<{ available: boolean; enabled: boolean; required: boolean; recoveryCodesRemaining: number }> {
+    return this.request('/api/auth/2fa/status');
+  }
+
+  async beginTwoFactorSetup(): Promise<{ secret: string; otpauthUrl: string; qrCodeDataUrl: string }> {
+    return this.request('/api/auth/2fa/setup', {
+      method: 'POST'
+    });
+  }
+
+  async enableTwoFactor(code: string): Promise<string[]> {
+    const response = await this.request<{ recoveryCodes: string[] }>('/api/auth/2fa/enable', {
+      method: 'POST',
+      body: JSON.stringify({ code })
+    });
+    return response.recoveryCodes;
+  }
+
+  async disableTwoFactor(password: string, code: string): Promise<void> {
+    await this.request('/api/auth/2fa/disable', {
+      method: 'POST',
+      body: JSON.stringify({ password, code })
+    });
+  }
+
+  async regenerateRecoveryCodes(code: string): Promise<string[]> {
+    const response = await this.request<{ recoveryCodes: string[] }>('/api/auth/2fa/recovery-codes', {
+      method: 'POST',
+      body: JSON.stringify({ code })
+    });
+    return response.recoveryCodes;
+  }
+
+  async revokeUserSessions(userId: string): Promise<number> {
+    const response = await this.request<{ revokedCount: number }>(`/api/auth/users/${userId}/revoke-sessions`, {
+      method: 'POST'
+    });
+    return response.revokedCount;
+  }
+
+  async setUserWorkspaces(userId: string, workspaceIds: string[]): Promise<void> {
+    await this.request(`/api/auth/users/${userId}/workspaces`, {
+      method: 'PUT',
+      body: JSON.stringify({ workspaceIds })
+    });
+  }
+
+  // Workspace endpoints
+  async getWorkspaces(): Promise<{ workspaces: Workspace[]; currentWorkspaceId: string }> {
+    return this.request('/api/workspaces');
+  }
+
+  async createWorkspace(name: string, description?: string, copyFrom?: string): Promise<Workspace> {
+    const response = await this.request<{ workspace: Workspace }>('/api/workspaces', {
+      method: 'POST',
+      body: JSON.stringify({ name, description, copyFrom })
+    });
+    return response.workspace;
+  }
+
+  async updateWorkspace(workspaceId: string, updates: { name?: string; description?: string }): Promise<Workspace> {
+    const response = await this.request<{ workspace: Workspace }>(`/api/workspaces/${workspaceId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates)
+    });
+    return response.workspace;
+  }
+
+  /**
+   * Switch workspace; the new token scopes all later requests to it
+   */
+  async switchWorkspace(workspaceId: string): Promise<Workspace> {
+    const response = await this.request<{ token: string; workspace: Workspace }>(`/api/workspaces/${workspaceId}/switch`, {
+      method: 'POST'
+    });
+    sessionStorage.setItem('authToken', response.token);
+    sessionStorage.setItem('workspaceId', response.workspace.workspaceId);
+    return response.workspace;
+  }
+
   // Subjects endpoints
   async getSubjects(): Promise<string[]> {
     const response = await this.request<{ subjects: string[]; count: number }>('/api/subjects');
@@ -976,6 +1355,10 @@ class ApiService {
     return this.request(`/api/analytics/sessions/${sessionId}`);
   }
 
+  async getSessionPIIReport(sessionId: string): Promise<PIIReport> {
+    return this.request(`/api/analytics/sessions/${sessionId}/pii-report`);
+  }
+
   async getFilterOptions(): Promise<any> {
     return this.request('/api/analytics/filters/options');
   }
@@ -991,16 +1374,7 @@ class ApiService {
     if (filters.status) params.append('status', filters.status);
     if (filters.searchText) params.append('searchText', filters.searchText);
 
-    const token = this.getAuthToken();
-    const headers: HeadersInit = {};
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-
-    const response = await fetch(
-      `${API_BASE_URL}/api/analytics/sessions/export?${params.toString()}`,
-      { headers }
-    );
+    const response = await this.fetchWithAuth(`${API_BASE_URL}/api/analytics/sessions/export?${params.toString()}`);
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({ message: 'Export failed' }));
@@ -1035,6 +1409,9 @@ class ApiService {
     // Add credentials based on provider
     if (this.llmConfig.provider === 'openai') {
       body.apiKey = this.llmConfig.apiKey;
+    } else if (this.llmConfig.provider === 'local') {
+      body.baseUrl = this.llmConfig.baseUrl;
+      body.apiKey = this.llmConfig.apiKey;
     } else {
       body.awsAccessKeyId = this.llmConfig.awsAccessKeyId;
       body.awsSecretAccessKey = this.llmConfig.awsSecretAccessKey;
@@ -1097,6 +1474,75 @@ class ApiService {
   }> {
     return this.request('/api/admin/review-stats');
   }
+  // Batch classification endpoints
+  async startBatchJob(file: File): Promise<BatchJobSummary> {
+    if (!this.llmConfig) {
+      const error: ApiError = { message: 'No LLM configuration set. Please configure your provider first.', status: 401 };
+      throw error;
+    }
+
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('model', this.llmConfig.model);
+    formData.append('provider', this.llmConfig.provider);
+
+    if (this.llmConfig.provider === 'openai') {
+      formData.append('apiKey', this.llmConfig.apiKey || '');
+    } else if (this.llmConfig.provider === 'local') {
+      formData.append('baseUrl', this.llmConfig.baseUrl || '');
+      if (this.llmConfig.apiKey) {
+        formData.append('apiKey', this.llmConfig.apiKey);
+      }
+    } else {
+      formData.append('awsAccessKeyId', this.llmConfig.awsAccessKeyId || '');
+      formData.append('awsSecretAccessKey', this.llmConfig.awsSecretAccessKey || '');
+      if (this.llmConfig.awsSessionToken) {
+        formData.append('awsSessionToken', this.llmConfig.awsSessionToken);
+      }
+      formData.append('awsRegion', this.llmConfig.awsRegion || 'us-east-1');
+      if (this.llmConfig.useRegionalInference) {
+        formData.append('useRegionalInference', 'true');
+        formData.append('regionalInferenceEndpoint', this.llmConfig.regionalInferenceEndpoint || '');
+      }
+    }
+
+    // Let the browser set the multipart Content-Type boundary
+    const response = await this.fetchWithAuth(`${API_BASE_URL}/api/batch/jobs`, {
+      method: 'POST',
+      body: formData,
+    });
+
+    return this.handleResponse(response);
+  }
+
+  async getBatchJobs(): Promise<BatchJobSummary[]> {
+    const response = await this.request<{ jobs: BatchJobSummary[] }>('/api/batch/jobs');
+    return response.jobs;
+  }
+
+  async getBatchJob(jobId: string): Promise<BatchJob> {
+    return this.request(`/api/batch/jobs/${jobId}`);
+  }
+
+  async cancelBatchJob(jobId: string): Promise<void> {
+    await this.request(`/api/batch/jobs/${jobId}/cancel`, { method: 'POST' });
+  }
+
+  async downloadBatchResults(jobId: string, format: 'csv' | 'jsonl'): Promise<Blob> {
+    const response = await this.fetchWithAuth(`${API_BASE_URL}/api/batch/jobs/${jobId}/results?format=${format}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ message: 'Download failed' }));
+      const apiError: ApiError = {
+        message: errorData.message || 'Download failed',
+        status: response.status,
+      };
+      throw apiError;
+    }
+
+    return await response.blob();
+  }
+
   // Strategic Questions endpoints
   async getStrategicQuestions(): Promise<any> {
     return this.request('/api/strategic-questions');
@@ -1108,6 +1554,128 @@ class ApiService {
       body: JSON.stringify(questions),
     });
   }
+
+  // Interview Policy endpoints
+  async getInterviewPolicy(): Promise<InterviewPolicy> {
+    return this.request('/api/interview-policy');
+  }
+
+  async getInterviewPolicyVersions(): Promise<{ versions: string[] }> {
+    return this.request('/api/interview-policy/versions');
+  }
+
+  async getInterviewPolicyVersion(version: string): Promise<InterviewPolicy> {
+    return this.request(`/api/interview-policy/${encodeURIComponent(version)}`);
+  }
+
+  async updateInterviewPolicy(policy: InterviewPolicySettings): Promise<{ message: string; policy: InterviewPolicy }> {
+    return this.request('/api/interview-policy', {
+      method: 'PUT',
+      body: JSON.stringify(policy),
+    });
+  }
+
+  async getPIIDetectorSettings(): Promise<PIIDetectorSettings> {
+    return this.request('/api/pii/detectors');
+  }
+
+  async updatePIIDetectorSettings(
+    settings: Pick<PIIDetectorSettings, 'disabledDetectors' | 'customDetectors' | 'personNames'>
+  ): Promise<{ message: string; settings: PIIDetectorSettings }> {
+    return this.request('/api/pii/detectors', {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    });
+  }
+
+  async testPIIDetectors(text: string, settings?: PIIDetectorSettings): Promise<PIIPreviewResult> {
+    return this.request('/api/pii/detectors/test', {
+      method: 'POST',
+      body: JSON.stringify({ text, settings }),
+    });
+  }
+
+  async getPIIRevealSettings(): Promise<PIIRevealSettings> {
+    return this.request('/api/pii/reveal-settings');
+  }
+
+  async updatePIIRevealSettings(
+    settings: Pick<PIIRevealSettings, 'requireApproval' | 'revealMinutes'>
+  ): Promise<{ message: string; settings: PIIRevealSettings }> {
+    return this.request('/api/pii/reveal-settings', {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    });
+  }
+
+  async getPIIRevealRequests(sessionId: string): Promise<{ requests: PIIRevealRequest[]; settings: PIIRevealSettings }> {
+    return this.request(`/api/pii/sessions/${sessionId}/reveal-requests`);
+  }
+
+  async createPIIRevealRequest(sessionId: string, justification: string, tokens?: string[]): Promise<PIIRevealRequest> {
+    return this.request(`/api/pii/sessions/${sessionId}/reveal-requests`, {
+      method: 'POST',
+      body: JSON.stringify({ justification, tokens }),
+    });
+  }
+
+  async reviewPIIRevealRequest(requestId: string, approve: boolean, reviewNotes?: string): Promise<PIIRevealRequest> {
+    return this.request(`/api/pii/reveal-requests/${requestId}/${approve ? 'approve' : 'reject'}`, {
+      method: 'POST',
+      body: JSON.stringify({ reviewNotes }),
+    });
+  }
+
+  async revealPII(requestId: string): Promise<{ requestId: string; expiresAt: string; values: Record<string, string> }> {
+    return this.request(`/api/pii/reveal-requests/${requestId}/reveal`, { method: 'POST' });
+  }
+
+  async getPIIAccessLog(sessionId: string): Promise<{ sessionId: string; accessLog: PIIAccessLogEntry[] }> {
+    return this.request(`/api/pii/sessions/${sessionId}/access-log`);
+  }
+
+  async exportPIIAccessLog(sessionId: string): Promise<Blob> {
+    const response = await this.fetchWithAuth(`${API_BASE_URL}/api/pii/sessions/${sessionId}/access-log?format=csv`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ message: 'Export failed' }));
+      const apiError: ApiError = {
+        message: errorData.message || 'Export failed',
+        status: response.status,
+      };
+      throw apiError;
+    }
+
+    return await response.blob();
+  }
+
+  async getRetentionPolicy(): Promise<{ policy: RetentionPolicy; lastRun: RetentionPurgeResult | null }> {
+    return this.request('/api/privacy/retention');
+  }
+
+  async updateRetentionPolicy(
+    policy: Pick<RetentionPolicy, 'retentionDays'>
+  ): Promise<{ message: string; policy: RetentionPolicy }> {
+    return this.request('/api/privacy/retention', {
+      method: 'PUT',
+      body: JSON.stringify(policy),
+    });
+  }
+
+  async runRetentionPurge(): Promise<RetentionPurgeResult> {
+    return this.request('/api/privacy/retention/purge', { method: 'POST' });
+  }
+
+  async eraseDataSubject(request: { user?: string; value?: string; reason: string }): Promise<ErasureCertificate> {
+    return this.request('/api/privacy/erasure', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async getErasureCertificates(): Promise<{ certificates: ErasureCertificate[] }> {
+    return this.request('/api/privacy/erasure-certificates');
+  }
 }
 
 export const apiService = new ApiService();
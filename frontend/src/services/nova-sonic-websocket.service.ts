@@ -11,7 +11,7 @@ export interface NovaSonicConfig {
   awsSessionToken?: string;
   awsRegion?: string;
   systemPrompt?: string;
-  userId?: string;
+  sessionId: string; // Process session the transcript belongs to
   modelId?: string;
   voiceId?: string;
 }
@@ -77,7 +77,8 @@ export class NovaSonicWebSocketService {
             awsSessionToken: config.awsSessionToken,
             awsRegion: config.awsRegion || 'us-east-1',
             systemPrompt: config.systemPrompt,
-            userId: config.userId || 'anonymous',
+            token: sessionStorage.getItem('authToken'),
+            sessionId: config.sessionId,
             modelId: config.modelId,
             voiceId: config.voiceId
           });
@@ -16,6 +16,8 @@ export interface Session {
   updatedAt: string;
   status: 'active' | 'completed' | 'manual_review' | 'pending_admin_review';
   modelUsed: string;
+  // User who submitted the session; unset on sessions from before it was recorded
+  userId?: string;
   subject?: string; // Business area/domain (e.g., "Finance", "HR", "Sales")
   conversations: Conversation[];
   classification?: Classification;
@@ -23,6 +25,10 @@ export interface Session {
   userRating?: UserRating;
   // Admin review fields for blind evaluation workflow
   adminReview?: AdminReview;
+  // Set when the session was created by a batch classification job
+  batchJobId?: string;
+  // Version of the interview policy the clarification interview ran under
+  interviewPolicyVersion?: string;
 }
 
 export interface Conversation {
@@ -42,6 +48,7 @@ export interface Classification {
   timestamp: string;
   modelUsed: string;
   llmProvider: string;
+  fallbackFrom?: string; // Requested provider/model when a fallback provider answered
   decisionMatrixEvaluation?: DecisionMatrixEvaluation;
 }
 
@@ -69,7 +76,8 @@ export interface AdminReview {
 export interface AuditLogEntry {
   sessionId: string;
   timestamp: string;
-  eventType: 'input' | 'clarification' | 'classification' | 'feedback' | 'rating' | 'model_list_success' | 'model_list_error';
+  eventType: 'input' | 'clarification' | 'classification' | 'feedback' | 'rating' | 'model_list_success' | 'model_list_error'
+    | 'login_success' | 'login_failure' | 'account_locked';
   userId: string;
   data: any;
   modelPrompt?: string;
@@ -79,6 +87,7 @@ export interface AuditLogEntry {
     modelVersion?: string;
     latencyMs?: number;
     llmProvider?: string;
+    fallbackFrom?: string;
     llmConfigId?: string;
     decisionMatrixVersion?: string;
   };
@@ -91,7 +100,18 @@ export interface DecisionMatrix {
   description: string;
   attributes: Attribute[];
   rules: Rule[];
-  active: boolean;
+  active: boolean; // Whether this is the version the active pointer selects
+}
+
+/**
+ * Pointer to the live decision matrix version. Stored apart from the version
+ * files so rolling back switches versions without copying one.
+ */
+export interface DecisionMatrixActivation {
+  version: string;
+  activatedAt: string;
+  activatedBy: string;
+  reason: string;
 }
 
 export interface Attribute {
@@ -106,7 +126,7 @@ export interface Rule {
   ruleId: string;
   name: string;
   description: string;
-  conditions: Condition[];
+  conditions: RuleCondition[];
   action: RuleAction;
   priority: number;
   active: boolean;
@@ -118,6 +138,24 @@ export interface Condition {
   value: any;
 }
 
+/**
+ * Boolean group of conditions. Exactly one key is set:
+ * - all: every child must match (AND)
+ * - any: at least one child must match (OR)
+ * - not: the child must not match
+ */
+export type ConditionGroup =
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition };
+
+/**
+ * A rule condition is either a single attribute comparison or a nested group.
+ * A rule's top-level conditions array is an implicit `all` group, so matrices
+ * written before groups existed evaluate unchanged.
+ */
+export type RuleCondition = Condition | ConditionGroup;
+
 export interface RuleAction {
   type: 'override' | 'adjust_confidence' | 'flag_review';
   targetCategory?: TransformationCategory;
@@ -138,6 +176,93 @@ export interface DecisionMatrixEvaluation {
   overridden: boolean;
 }
 
+/**
+ * Session counts keyed by reference category, then by the draft matrix's category
+ */
+export interface CategoryConfusionTable {
+  [referenceCategory: string]: { [draftCategory: string]: number };
+}
+
+export interface MatrixSimulationChange {
+  sessionId: string;
+  createdAt: string;
+  subject?: string;
+  activeCategory: TransformationCategory;
+  draftCategory: TransformationCategory;
+  userCategory?: TransformationCategory;
+  draftTriggeredRules: string[];
+}
+
+/**
+ * Result of replaying stored session attributes against a draft decision matrix
+ */
+export interface MatrixSimulationResult {
+  simulatedAt: string;
+  draftVersion: string;
+  activeVersion: string | null;
+  sessionsEvaluated: number;
+  sessionsSkipped: number; // No stored decision matrix evaluation to replay
+  changedCount: number;
+  vsActive: CategoryConfusionTable;
+  vsUserCorrected: {
+    sessions: number;
+    activeCorrect: number;
+    draftCorrect: number;
+    table: CategoryConfusionTable;
+  };
+  changes: MatrixSimulationChange[];
+  changesTruncated: boolean;
+}
+
+export type MatrixChangeType = 'added' | 'removed' | 'modified';
+
+/**
+ * A single field that differs between two versions, e.g. "priority",
+ * "action.targetCategory" or "conditions[1]"
+ */
+export interface MatrixFieldChange {
+  field: string;
+  before?: any; // Absent when the field was added
+  after?: any; // Absent when the field was removed
+}
+
+export interface AttributeDiff {
+  name: string;
+  changeType: MatrixChangeType;
+  changes: MatrixFieldChange[]; // Empty for added/removed attributes
+  before?: Attribute;
+  after?: Attribute;
+}
+
+export interface RuleDiff {
+  ruleId: string;
+  name: string;
+  changeType: MatrixChangeType;
+  changes: MatrixFieldChange[]; // Empty for added/removed rules
+  before?: Rule;
+  after?: Rule;
+}
+
+/**
+ * Structured diff between two decision matrix versions. Unchanged
+ * attributes and rules are omitted.
+ */
+export interface DecisionMatrixDiff {
+  fromVersion: string;
+  toVersion: string;
+  matrixChanges: MatrixFieldChange[]; // Description and active flag
+  attributes: AttributeDiff[];
+  rules: RuleDiff[];
+  summary: {
+    attributesAdded: number;
+    attributesRemoved: number;
+    attributesModified: number;
+    rulesAdded: number;
+    rulesRemoved: number;
+    rulesModified: number;
+  };
+}
+
 export interface LearningSuggestion {
   suggestionId: string;
   createdAt: string;
@@ -202,22 +327,149 @@ export interface AudioTranscription {
   timestamp: string;
 }
 
+export type PIIType =
+  | 'email'
+  | 'phone'
+  | 'ssn'
+  | 'credit_card'
+  | 'iban'
+  | 'uk_ni'
+  | 'uk_postcode'
+  | 'street_address'
+  | 'person_name'
+  | 'custom';      // Admin-configured detector, named by its ID
+
+export type PIIChecksum = 'luhn' | 'iban';
+
+// Where in a session a PII value was found
+export type PIISource =
+  | 'description'
+  | 'clarification_answer'
+  | 'voice_transcript'
+  | 'model_response'    // Clarification questions, classifications and raw LLM output
+  | 'feedback';
+
+export interface PIICustomDetector {
+  id: string;                 // lower_snake_case, also names the token: employee_id -> [EMPLOYEE_ID_1]
+  name: string;
+  pattern: string;            // JavaScript regular expression source
+  caseSensitive: boolean;
+  checksum?: PIIChecksum;     // Matches failing the checksum are not treated as PII
+  enabled: boolean;
+}
+
+export interface PIIDetectorSettings {
+  disabledDetectors: Array<Exclude<PIIType, 'custom'>>;
+  customDetectors: PIICustomDetector[];
+  personNames: string[];      // Added to the built-in first name dictionary
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
 export interface PIIMapping {
   mappingId: string;
   sessionId: string;
   mappings: Array<{
     token: string;
     originalValue: string;
-    type: 'email' | 'phone' | 'ssn' | 'credit_card';
+    type: PIIType;
+    detector?: string;        // ID of the custom detector, for type 'custom'
+    sources?: PIISource[];    // Not recorded on mappings stored before sources were tracked
   }>;
   createdAt: string;
-  accessLog: Array<{
-    userId: string;
-    timestamp: string;
-    purpose: string;
+  accessLog: PIIAccessLogEntry[];
+}
+
+export interface PIIAccessLogEntry {
+  userId: string;
+  timestamp: string;
+  purpose: string;
+  requestId?: string;         // Reveal request the access belongs to
+  justification?: string;
+  tokens?: string[];          // Tokens whose values were revealed
+}
+
+export type PIIRevealStatus = 'pending' | 'approved' | 'rejected';
+
+// Request to see the original values behind tokens of a session
+export interface PIIRevealRequest {
+  requestId: string;
+  sessionId: string;
+  tokens: string[];
+  justification: string;
+  requestedBy: string;        // User ID
+  requestedByName: string;
+  requestedAt: string;
+  status: PIIRevealStatus;
+  approvalRequired: boolean;  // Whether a second person had to approve
+  reviewedBy?: string;
+  reviewedByName?: string;
+  reviewedAt?: string;
+  reviewNotes?: string;
+  expiresAt?: string;         // Set on approval; values can be revealed until then
+}
+
+export interface PIIRevealSettings {
+  requireApproval: boolean;   // A second user with pii:reveal must approve each request
+  revealMinutes: number;      // How long an approved request can be used
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+// Per-session summary of detected PII, without the values
+export interface PIIReport {
+  sessionId: string;
+  hasPII: boolean;
+  totalValues: number;
+  byType: Partial<Record<PIIType, number>>;
+  bySource: Partial<Record<PIISource, number>>;
+  items: Array<{
+    token: string;
+    type: PIIType;
+    detector?: string;
+    sources: PIISource[];
   }>;
 }
 
+// Data kept for a limited time under the workspace retention policy
+export type RetentionDataType = 'sessions' | 'audit_logs' | 'pii_mappings' | 'voice_cache';
+
+export interface RetentionPolicy {
+  retentionDays: Record<RetentionDataType, number | null>; // null keeps the data indefinitely
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+export interface RetentionPurgeResult {
+  workspaceId: string;
+  ranAt: string;
+  deleted: Record<RetentionDataType, number>; // Voice cache is shared and purged with the default workspace only
+}
+
+// Proof that a data subject's data was erased; identifies the subject by hash only
+export interface ErasureCertificate {
+  certificateId: string;
+  issuedAt: string;
+  issuedBy: string;
+  reason: string;
+  subject: {
+    userIdHash?: string;      // SHA-256 of the user ID
+    valueHash?: string;       // SHA-256 of the lower-cased PII value
+  };
+  workspaces: Array<{
+    workspaceId: string;
+    sessionsDeleted: number;
+    sessionsAnonymised: number;
+    piiValuesErased: number;
+    revealRequestsDeleted: number;
+    revealRequestsAnonymised: number;
+    auditEntriesDeleted: number;
+    auditEntriesAnonymised: number;
+  }>;
+  voiceCacheFilesDeleted: number;
+  digest: string;             // SHA-256 of the certificate without the digest
+}
+
 export interface AnalyticsMetrics {
   metricId: string;
   calculatedAt: string;
@@ -227,6 +479,15 @@ export interface AnalyticsMetrics {
   totalSessions: number;
   averageClassificationTimeMs: number;
   alertTriggered: boolean;
+  interviewPolicyMetrics?: { [version: string]: InterviewPolicyMetrics }; // By interview policy version
+}
+
+export interface InterviewPolicyMetrics {
+  totalSessions: number;
+  averageQuestions: number; // Clarification questions answered per session
+  averageConfidence: number;
+  agreementRate: number;
+  manualReviewRate: number;
 }
 
 // Enhanced Analytics Types for Session Listing and Filtering
@@ -283,6 +544,193 @@ export interface FilteredMetrics {
   categoryDistribution: { [category: string]: number };
 }
 
+// Batch Classification Types
+
+export interface BatchJobItem {
+  index: number; // 1-based row/line number in the uploaded file
+  externalId?: string; // Optional "id" column from the upload
+  subject?: string;
+  processDescription?: string; // PII-scrubbed, set once the item is processed
+  status: 'pending' | 'completed' | 'failed';
+  sessionId?: string;
+  category?: TransformationCategory;
+  confidence?: number;
+  action?: 'auto_classify' | 'clarify' | 'manual_review';
+  matrixVersion?: string;
+  triggeredRules?: string[]; // Names of triggered decision matrix rules
+  error?: string;
+}
+
+export interface BatchJob {
+  jobId: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  createdBy: string;
+  fileName?: string;
+  format: 'csv' | 'jsonl';
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  model: string;
+  llmProvider: string;
+  progress: {
+    total: number;
+    processed: number;
+    succeeded: number;
+    failed: number;
+  };
+  items: BatchJobItem[];
+  error?: string;
+}
+
+// Workspace Types
+
+export interface Workspace {
+  workspaceId: string; // Lowercase slug, also used in storage paths
+  name: string;
+  description?: string;
+  createdAt: string;
+  createdBy: string;
+}
+
+// LLM Usage Types
+
+export interface LLMUsageRecord {
+  timestamp: string;
+  userId?: string; // Absent for calls made outside a user's request
+  username?: string;
+  stage: string; // Pipeline stage, i.e. the ID of the prompt executed
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost: number | null; // USD; null when the model has no price
+}
+
+export interface LLMUsageBreakdown {
+  key: string; // User ID, model, day (YYYY-MM-DD) or stage
+  label: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost: number;
+  unpricedCalls: number;
+}
+
+export interface LLMModelPrice {
+  inputPerMillion: number; // USD per million prompt tokens
+  outputPerMillion: number; // USD per million completion tokens
+}
+
+export interface LLMUsageSummary {
+  workspaceId: string;
+  startDate: string;
+  endDate: string;
+  totals: Omit<LLMUsageBreakdown, 'key' | 'label'>;
+  byUser: LLMUsageBreakdown[];
+  byModel: LLMUsageBreakdown[];
+  byDay: LLMUsageBreakdown[];
+  byStage: LLMUsageBreakdown[];
+  priceTable: Record<string, LLMModelPrice>;
+}
+
+// LLM Quota Types
+
+export interface LLMQuotaLimits {
+  dailyTokens?: number;
+  monthlyTokens?: number;
+  dailyCost?: number; // USD
+  monthlyCost?: number; // USD
+}
+
+export interface LLMQuotaSettings {
+  mode: 'hard' | 'soft'; // hard rejects calls over a limit, soft only warns
+  warnAtPercent: number; // Warn once this share of a limit is used
+  global: LLMQuotaLimits; // All users together
+  perUser: LLMQuotaLimits; // Each user, unless overridden
+  userOverrides: Record<string, LLMQuotaLimits>; // By user ID
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+export interface LLMQuotaUsage {
+  scope: 'user' | 'global';
+  period: 'daily' | 'monthly';
+  metric: 'tokens' | 'cost';
+  limit: number;
+  used: number;
+  remaining: number;
+}
+
+export interface LLMQuotaStatus {
+  userId: string;
+  mode: 'hard' | 'soft';
+  quotas: LLMQuotaUsage[];
+  exceeded: boolean;
+  warnings: string[];
+}
+
+// Interview Policy Types
+
+export interface InterviewPolicy {
+  version: string;
+  createdAt: string;
+  createdBy: string;
+  description?: string;
+  // Question limits
+  minQuestions: number; // Asked before a confident classification can end the interview
+  maxQuestionsPerRound: number; // Questions in the first round; later rounds ask 2, then 1
+  softLimitQuestions: number; // From here the LLM is told to ask only if essential
+  hardLimitQuestions: number; // The interview always stops here
+  // Confidence
+  highConfidenceThreshold: number; // Stop at or above this once the key information is known
+  lowConfidenceThreshold: number; // Stop for manual review below this...
+  lowConfidenceMinQuestions: number; // ...once this many questions have been asked
+  // Loop and "don't know" detection
+  repetitionCheckAfter: number; // Questions asked before checking for similar questions
+  repetitionSimilarPairs: number; // Pairs of similar recent questions that count as repetition
+  duplicateCheckAfter: number; // Questions asked before checking that many recent questions for duplicates
+  duplicateMinUnique: number; // Fewer distinct questions among them is treated as a loop
+  unknownAnswerCheckAfter: number; // Questions asked before checking for "don't know" answers
+  unknownAnswerWindow: number; // Recent answers checked
+  unknownAnswerThreshold: number; // "Don't know" answers among them that stop the interview
+}
+
+// Process Streaming Types
+
+// Events of /api/process/classify/stream and /clarify/stream:
+// stage, rationale ({ delta } appended, or { text } replacing a restarted rationale),
+// then result (the non-streaming response body) or error ({ status, error, message })
+export type ProcessStreamStage = 'classifying' | 'clarifying' | 'evaluating';
+
+export type ProcessStreamEvent =
+  | { event: 'stage'; data: { stage: ProcessStreamStage } }
+  | { event: 'rationale'; data: { delta?: string; text?: string } }
+  | { event: 'result'; data: any }
+  | { event: 'error'; data: { status: number; error: string; message?: string } };
+
+// Role and Permission Types
+
+export type UserRole = 'admin' | 'user' | 'reviewer' | 'matrix-editor' | 'prompt-editor' | 'auditor';
+
+export type Permission =
+  | 'sessions:review'   // Admin review queue (blind evaluation)
+  | 'matrix:read'       // Decision matrix and strategic questions
+  | 'matrix:edit'
+  | 'questions:edit'
+  | 'prompts:read'
+  | 'prompts:edit'
+  | 'learning:manage'
+  | 'analytics:read'
+  | 'audit:read'
+  | 'batch:run'
+  | 'users:manage'
+  | 'workspaces:manage'
+  | 'pii:manage'        // PII detectors and reveal settings of the workspace
+  | 'pii:reveal'        // Request, approve and use reveals of original PII values
+  | 'privacy:manage';   // Retention policy, purges and subject erasure
+
 // Zod Validation Schemas
 
 export const TransformationCategorySchema = z.enum([
@@ -327,6 +775,7 @@ export const ClassificationSchema = z.object({
   timestamp: z.string().datetime(),
   modelUsed: z.string(),
   llmProvider: z.string(),
+  fallbackFrom: z.string().optional(),
   decisionMatrixEvaluation: DecisionMatrixEvaluationSchema.optional()
 });
 
@@ -358,12 +807,15 @@ export const SessionSchema = z.object({
   updatedAt: z.string().datetime(),
   status: z.enum(['active', 'completed', 'manual_review', 'pending_admin_review']),
   modelUsed: z.string(),
+  userId: z.string().optional(),
   subject: z.string().optional(),
   conversations: z.array(ConversationSchema),
   classification: ClassificationSchema.optional(),
   feedback: FeedbackSchema.optional(),
   userRating: UserRatingSchema.optional(),
-  adminReview: AdminReviewSchema.optional()
+  adminReview: AdminReviewSchema.optional(),
+  batchJobId: z.string().optional(),
+  interviewPolicyVersion: z.string().optional()
 });
 
 export const AuditLogEntrySchema = z.object({
@@ -379,6 +831,7 @@ export const AuditLogEntrySchema = z.object({
     modelVersion: z.string().optional(),
     latencyMs: z.number().optional(),
     llmProvider: z.string().optional(),
+    fallbackFrom: z.string().optional(),
     llmConfigId: z.string().optional(),
     decisionMatrixVersion: z.string().optional()
   })
@@ -390,6 +843,17 @@ export const ConditionSchema = z.object({
   value: z.any()
 });
 
+// Recursive schemas need an explicit type; the cast only differs from the
+// inferred type in `value` being optional (z.any() accepts undefined)
+export const RuleConditionSchema = z.lazy(() =>
+  z.union([
+    ConditionSchema,
+    z.object({ all: z.array(RuleConditionSchema).min(1) }).strict(),
+    z.object({ any: z.array(RuleConditionSchema).min(1) }).strict(),
+    z.object({ not: RuleConditionSchema }).strict()
+  ])
+) as z.ZodType<RuleCondition>;
+
 export const RuleActionSchema = z.object({
   type: z.enum(['override', 'adjust_confidence', 'flag_review']),
   targetCategory: TransformationCategorySchema.optional(),
@@ -401,7 +865,7 @@ export const RuleSchema = z.object({
   ruleId: z.string().uuid(),
   name: z.string(),
   description: z.string(),
-  conditions: z.array(ConditionSchema),
+  conditions: z.array(RuleConditionSchema),
   action: RuleActionSchema,
   priority: z.number().int().min(0),
   active: z.boolean()
@@ -425,6 +889,47 @@ export const DecisionMatrixSchema = z.object({
   active: z.boolean()
 });
 
+export const InterviewPolicySchema = z.object({
+  version: z.string(),
+  createdAt: z.string().datetime(),
+  createdBy: z.string(),
+  description: z.string().optional(),
+  minQuestions: z.number().int().min(0),
+  maxQuestionsPerRound: z.number().int().min(1),
+  softLimitQuestions: z.number().int().min(0),
+  hardLimitQuestions: z.number().int().min(1),
+  highConfidenceThreshold: z.number().min(0).max(1),
+  lowConfidenceThreshold: z.number().min(0).max(1),
+  lowConfidenceMinQuestions: z.number().int().min(0),
+  repetitionCheckAfter: z.number().int().min(2),
+  repetitionSimilarPairs: z.number().int().min(1),
+  duplicateCheckAfter: z.number().int().min(2),
+  duplicateMinUnique: z.number().int().min(1),
+  unknownAnswerCheckAfter: z.number().int().min(0),
+  unknownAnswerWindow: z.number().int().min(1),
+  unknownAnswerThreshold: z.number().int().min(1)
+})
+  .refine(policy => policy.softLimitQuestions <= policy.hardLimitQuestions, {
+    message: 'Soft limit cannot be above the hard limit',
+    path: ['softLimitQuestions']
+  })
+  .refine(policy => policy.minQuestions <= policy.hardLimitQuestions, {
+    message: 'Minimum questions cannot be above the hard limit',
+    path: ['minQuestions']
+  })
+  .refine(policy => policy.lowConfidenceThreshold <= policy.highConfidenceThreshold, {
+    message: 'Low confidence threshold cannot be above the high confidence threshold',
+    path: ['lowConfidenceThreshold']
+  })
+  .refine(policy => policy.duplicateMinUnique <= policy.duplicateCheckAfter, {
+    message: 'Distinct questions required cannot be above the questions checked',
+    path: ['duplicateMinUnique']
+  })
+  .refine(policy => policy.unknownAnswerThreshold <= policy.unknownAnswerWindow, {
+    message: '"Don\'t know" threshold cannot be above the answers checked',
+    path: ['unknownAnswerThreshold']
+  });
+
 export const LearningSuggestionSchema = z.object({
   suggestionId: z.string().uuid(),
   createdAt: z.string().datetime(),
@@ -489,22 +994,161 @@ export const AudioTranscriptionSchema = z.object({
   timestamp: z.string().datetime()
 });
 
+export const PIITypeSchema = z.enum([
+  'email',
+  'phone',
+  'ssn',
+  'credit_card',
+  'iban',
+  'uk_ni',
+  'uk_postcode',
+  'street_address',
+  'person_name',
+  'custom'
+]);
+
+export const PIISourceSchema = z.enum([
+  'description',
+  'clarification_answer',
+  'voice_transcript',
+  'model_response',
+  'feedback'
+]);
+
+/**
+ * Whether a quantified group contains a quantifier, as in (a+)+ or (\d{2,})*.
+ * Such patterns can take exponential time on text that almost matches, and
+ * custom detectors run on every text that is scrubbed.
+ */
+const hasNestedQuantifier = (pattern: string): boolean => {
+  const quantifier = /^(?:[*+]|\{\d+(?:,\d*)?\})/;
+  const groups: boolean[] = []; // Per open group: whether it contains a quantifier
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const containsQuantifier = groups.pop();
+      const quantified = quantifier.test(pattern.slice(i + 1));
+      if (containsQuantifier && quantified) {
+        return true;
+      }
+      if (groups.length > 0) {
+        groups[groups.length - 1] = groups[groups.length - 1] || !!containsQuantifier || quantified;
+      }
+    } else if (groups.length > 0 && quantifier.test(pattern.slice(i))) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+};
+
+export const PIICustomDetectorSchema = z.object({
+  id: z.string().regex(/^[a-z][a-z0-9_]{1,39}$/, 'Must be lower_snake_case, 2-40 characters'),
+  name: z.string().min(1).max(100),
+  pattern: z.string().min(1).max(500),
+  caseSensitive: z.boolean(),
+  checksum: z.enum(['luhn', 'iban']).optional(),
+  enabled: z.boolean()
+}).superRefine((detector, ctx) => {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(detector.pattern);
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pattern'], message: 'Invalid regular expression' });
+    return;
+  }
+  if (regex.test('')) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pattern'], message: 'Pattern must not match empty text' });
+  }
+  if (hasNestedQuantifier(detector.pattern)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['pattern'],
+      message: 'Nested quantifiers such as (a+)+ are not allowed, as they can make scrubbing hang'
+    });
+  }
+  if ((PIITypeSchema.options as string[]).includes(detector.id)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['id'], message: 'Clashes with a built-in detector' });
+  }
+});
+
+export const PIIDetectorSettingsSchema = z.object({
+  disabledDetectors: z.array(PIITypeSchema.exclude(['custom'])),
+  customDetectors: z.array(PIICustomDetectorSchema).max(50),
+  personNames: z.array(z.string().regex(/^\p{L}[\p{L}'-]*$/u, 'Names must be single words')).max(1000),
+  updatedAt: z.string().datetime().optional(),
+  updatedBy: z.string().optional()
+}).superRefine((settings, ctx) => {
+  const seen = new Set<string>();
+  settings.customDetectors.forEach((detector, index) => {
+    if (seen.has(detector.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['customDetectors', index, 'id'], message: 'Duplicate detector ID' });
+    }
+    seen.add(detector.id);
+  });
+});
+
 export const PIIMappingSchema = z.object({
   mappingId: z.string().uuid(),
   sessionId: z.string().uuid(),
   mappings: z.array(z.object({
     token: z.string(),
     originalValue: z.string(),
-    type: z.enum(['email', 'phone', 'ssn', 'credit_card'])
+    type: PIITypeSchema,
+    detector: z.string().optional(),
+    sources: z.array(PIISourceSchema).optional()
   })),
   createdAt: z.string().datetime(),
   accessLog: z.array(z.object({
     userId: z.string(),
     timestamp: z.string(),
-    purpose: z.string()
+    purpose: z.string(),
+    requestId: z.string().optional(),
+    justification: z.string().optional(),
+    tokens: z.array(z.string()).optional()
   }))
 });
 
+export const PIIRevealRequestInputSchema = z.object({
+  tokens: z.array(z.string().regex(/^\[[A-Z0-9_]+_\d+\]$/, 'Invalid token')).min(1).max(500).optional(),
+  justification: z.string().trim().min(20, 'Justification must be at least 20 characters').max(2000)
+});
+
+export const PIIRevealSettingsSchema = z.object({
+  requireApproval: z.boolean(),
+  revealMinutes: z.number().int().min(1).max(1440),
+  updatedAt: z.string().datetime().optional(),
+  updatedBy: z.string().optional()
+});
+
+const RetentionDaysSchema = z.number().int().min(1).max(36500).nullable();
+
+export const RetentionPolicySchema = z.object({
+  retentionDays: z.object({
+    sessions: RetentionDaysSchema,
+    audit_logs: RetentionDaysSchema,
+    pii_mappings: RetentionDaysSchema,
+    voice_cache: RetentionDaysSchema
+  }),
+  updatedAt: z.string().datetime().optional(),
+  updatedBy: z.string().optional()
+});
+
+export const ErasureRequestSchema = z.object({
+  user: z.string().trim().min(1).max(200).optional(),   // User ID or username
+  value: z.string().trim().min(3, 'Value must be at least 3 characters').max(500).optional(),
+  reason: z.string().trim().min(10, 'Reason must be at least 10 characters').max(2000)
+}).refine(request => !!request.user || !!request.value, { message: 'Give a user, a value or both' });
+
 export const AnalyticsMetricsSchema = z.object({
   metricId: z.string().uuid(),
   calculatedAt: z.string().datetime(),
@@ -513,7 +1157,14 @@ export const AnalyticsMetricsSchema = z.object({
   userSatisfactionRate: z.number().min(0).max(1),
   totalSessions: z.number().int().min(0),
   averageClassificationTimeMs: z.number().min(0),
-  alertTriggered: z.boolean()
+  alertTriggered: z.boolean(),
+  interviewPolicyMetrics: z.record(z.object({
+    totalSessions: z.number().int().min(0),
+    averageQuestions: z.number().min(0),
+    averageConfidence: z.number().min(0).max(1),
+    agreementRate: z.number().min(0).max(1),
+    manualReviewRate: z.number().min(0).max(1)
+  })).optional()
 });
 
 // Enhanced Analytics Schemas